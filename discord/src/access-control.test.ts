@@ -0,0 +1,246 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { ChannelType, Collection, type RepliableInteraction } from 'discord.js'
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest'
+import {
+  ensureInteractionAccess,
+  formatAccessDenied,
+  resolveAccess,
+} from './access-control.js'
+import { setDataDir } from './config.js'
+import { closeDatabase } from './database.js'
+import type { CommandRolePolicy, RoleAccessLevel } from './database.js'
+
+const guildId = 'guild'
+const everyone = { id: guildId, name: '@everyone' }
+const devs = { id: 'devs', name: 'Developers' }
+const ops = { id: 'ops', name: 'Ops' }
+
+function level(
+  roleId: string,
+  value: RoleAccessLevel['level'],
+  channelId = '',
+): RoleAccessLevel {
+  return {
+    guild_id: guildId,
+    channel_id: channelId,
+    role_id: roleId,
+    level: value,
+    updated_by: null,
+  }
+}
+
+function policy(
+  command: string,
+  roleId: string,
+  channelId = '',
+): CommandRolePolicy {
+  return {
+    guild_id: guildId,
+    channel_id: channelId,
+    command,
+    role_id: roleId,
+    created_by: null,
+  }
+}
+
+describe('resolveAccess', () => {
+  test('applies default levels when no policies exist', () => {
+    const base = {
+      guildId,
+      channelId: 'chan',
+      isSuperuser: false,
+      roleLevels: [],
+      commandPolicies: [],
+    }
+    expect(
+      resolveAccess({ ...base, action: 'status', roles: [everyone] }).allowed,
+    ).toBe(true)
+    expect(
+      resolveAccess({ ...base, action: 'message', roles: [everyone] }).allowed,
+    ).toBe(false)
+    expect(
+      resolveAccess({
+        ...base,
+        action: 'run',
+        roles: [everyone, { id: 'r', name: 'Disunday' }],
+      }).allowed,
+    ).toBe(true)
+  })
+
+  test('no-disunday role blocks even superusers', () => {
+    const decision = resolveAccess({
+      action: 'status',
+      guildId,
+      channelId: 'chan',
+      roles: [everyone, { id: 'block', name: 'no-disunday' }],
+      isSuperuser: true,
+      roleLevels: [],
+      commandPolicies: [],
+    })
+    expect(decision.allowed).toBe(false)
+    expect(decision.reason).toContain('no-disunday')
+  })
+
+  test('channel levels override server-wide levels', () => {
+    const roleLevels = [level('devs', 'prompt'), level('devs', 'read', 'chan')]
+    const inChannel = resolveAccess({
+      action: 'message',
+      guildId,
+      channelId: 'chan',
+      roles: [everyone, devs],
+      isSuperuser: false,
+      roleLevels,
+      commandPolicies: [],
+    })
+    expect(inChannel.allowed).toBe(false)
+    expect(inChannel.level).toBe('read')
+    expect(inChannel.required).toBe('prompt')
+
+    const elsewhere = resolveAccess({
+      action: 'message',
+      guildId,
+      channelId: 'other',
+      roles: [everyone, devs],
+      isSuperuser: false,
+      roleLevels,
+      commandPolicies: [],
+    })
+    expect(elsewhere.allowed).toBe(true)
+  })
+
+  test('uses the highest level across roles', () => {
+    const decision = resolveAccess({
+      action: 'run',
+      guildId,
+      channelId: 'chan',
+      roles: [everyone, devs, ops],
+      isSuperuser: false,
+      roleLevels: [level('devs', 'prompt'), level('ops', 'admin')],
+      commandPolicies: [],
+    })
+    expect(decision.level).toBe('admin')
+    expect(decision.allowed).toBe(true)
+  })
+
+  test('command policies restrict to listed roles', () => {
+    const base = {
+      action: 'run',
+      guildId,
+      channelId: 'chan',
+      isSuperuser: false,
+      roleLevels: [level('devs', 'admin'), level('ops', 'prompt')],
+      commandPolicies: [policy('run', 'ops')],
+    }
+    const denied = resolveAccess({ ...base, roles: [everyone, devs] })
+    expect(denied.allowed).toBe(false)
+    expect(denied.allowedRoleIds).toEqual(['ops'])
+
+    expect(resolveAccess({ ...base, roles: [everyone, ops] }).allowed).toBe(
+      true,
+    )
+    expect(
+      resolveAccess({ ...base, roles: [everyone], isSuperuser: true }).allowed,
+    ).toBe(true)
+  })
+
+  test('channel command policies replace server-wide ones', () => {
+    const decision = resolveAccess({
+      action: 'run',
+      guildId,
+      channelId: 'chan',
+      roles: [everyone, ops],
+      isSuperuser: false,
+      roleLevels: [],
+      commandPolicies: [policy('run', 'ops'), policy('run', 'devs', 'chan')],
+    })
+    expect(decision.allowed).toBe(false)
+    expect(decision.allowedRoleIds).toEqual(['devs'])
+  })
+})
+
+describe('formatAccessDenied', () => {
+  test('includes user, action, channel and requirement', () => {
+    const decision = resolveAccess({
+      action: 'merge-worktree',
+      guildId,
+      channelId: 'chan',
+      roles: [everyone],
+      isSuperuser: false,
+      roleLevels: [],
+      commandPolicies: [],
+    })
+    expect(formatAccessDenied({ decision, userId: 'u1', channelId: 'chan' }))
+      .toMatchInlineSnapshot(`
+      "🚫 **Access denied** for <@u1>: \`/merge-worktree\` in <#chan>
+      Required level: **admin** (you have **read**)
+      Reason: access level "read" is below required "admin"
+      _Ask a server admin for the **Disunday** role or to update policies with \`/access\`._"
+    `)
+  })
+})
+
+describe('ensureInteractionAccess', () => {
+  let dataDir: string
+
+  beforeAll(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'disunday-access-test-'))
+    setDataDir(dataDir)
+  })
+
+  afterAll(() => {
+    closeDatabase()
+    fs.rmSync(dataDir, { recursive: true, force: true })
+  })
+
+  // An interaction from a guild that is not in the client's cache
+  function uncachedInteraction(fetchGuild: () => Promise<unknown>) {
+    const reply = vi.fn(async () => {})
+    const interaction = {
+      guildId,
+      channelId: 'channel',
+      channel: null,
+      user: { id: 'owner' },
+      inGuild: () => true,
+      inCachedGuild: () => false,
+      reply,
+      client: {
+        guilds: { fetch: fetchGuild },
+        channels: {
+          fetch: async () => ({ id: 'channel', type: ChannelType.GuildText }),
+        },
+      },
+    } as unknown as RepliableInteraction
+    return { interaction, reply }
+  }
+
+  test('fetches the guild and member when they are not cached', async () => {
+    const guild = {
+      id: guildId,
+      ownerId: 'owner',
+      members: {
+        fetch: async () => ({
+          id: 'owner',
+          guild,
+          user: { tag: 'owner' },
+          roles: { cache: new Collection() },
+          permissions: { has: () => false },
+        }),
+      },
+    }
+    const { interaction, reply } = uncachedInteraction(async () => guild)
+
+    expect(await ensureInteractionAccess({ interaction, action: 'message' })).toBe(true)
+    expect(reply).not.toHaveBeenCalled()
+  })
+
+  test('denies with an ephemeral reply when the guild cannot be fetched', async () => {
+    const { interaction, reply } = uncachedInteraction(async () => {
+      throw new Error('Unknown Guild')
+    })
+
+    expect(await ensureInteractionAccess({ interaction, action: 'message' })).toBe(false)
+    expect(reply).toHaveBeenCalledWith(expect.objectContaining({ ephemeral: true }))
+  })
+})
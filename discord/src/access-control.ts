@@ -0,0 +1,381 @@
+// Role-based access control for commands and sessions.
+// Resolves a member's access level from per-channel and server-wide role
+// policies stored in the database, and formats denial messages that say
+// exactly who was denied what, where, and why.
+
+import {
+  ChannelType,
+  PermissionsBitField,
+  type GuildMember,
+  type RepliableInteraction,
+} from 'discord.js'
+import * as errore from 'errore'
+import {
+  getCommandRolePolicies,
+  getRoleAccessLevels,
+  type AccessLevel,
+  type CommandRolePolicy,
+  type RoleAccessLevel,
+} from './database.js'
+import { createLogger, LogPrefix } from './logger.js'
+
+const accessLogger = createLogger(LogPrefix.ACCESS)
+
+export const ACCESS_LEVELS: AccessLevel[] = ['none', 'read', 'prompt', 'admin']
+
+// Minimum level required per action when no command policy applies.
+// Actions are slash command names plus a few non-command actions
+// (message, permission, retry, diff-edit, reaction:*). Unlisted actions
+// require 'prompt'.
+const REQUIRED_LEVELS: Record<string, AccessLevel> = {
+  help: 'read',
+  ping: 'read',
+  status: 'read',
+  'session-info': 'read',
+  context: 'read',
+  cost: 'read',
+  stats: 'read',
+  diff: 'read',
+  files: 'read',
+  export: 'read',
+  'reaction:pin': 'read',
+
+  run: 'admin',
+  'run-config': 'admin',
+  'merge-worktree': 'admin',
+  'open-pr': 'admin',
+  'pr-config': 'admin',
+  'toggle-worktrees': 'admin',
+  worktrees: 'admin',
+  'add-project': 'admin',
+  'remove-project': 'admin',
+  'create-new-project': 'admin',
+  'restart-opencode-server': 'admin',
+  settings: 'admin',
+  login: 'admin',
+  access: 'admin',
+  audit: 'admin',
+  budget: 'admin',
+  transcription: 'admin',
+  'voice-summary': 'admin',
+  'permission-policy': 'admin',
+  'permission-timeout': 'admin',
+}
+
+const NON_COMMAND_ACTIONS = new Set([
+  'message',
+  'permission',
+  'retry',
+  'diff-edit',
+])
+
+export function getRequiredLevel(action: string): AccessLevel {
+  return REQUIRED_LEVELS[action] ?? 'prompt'
+}
+
+export function compareAccessLevels(a: AccessLevel, b: AccessLevel): number {
+  return ACCESS_LEVELS.indexOf(a) - ACCESS_LEVELS.indexOf(b)
+}
+
+export function isAccessLevel(value: string): value is AccessLevel {
+  return (ACCESS_LEVELS as string[]).includes(value)
+}
+
+export type AccessRole = {
+  id: string
+  name: string
+}
+
+export type AccessDecision = {
+  allowed: boolean
+  action: string
+  level: AccessLevel
+  required: AccessLevel
+  // Roles the command is restricted to, when a command policy applies
+  allowedRoleIds: string[]
+  reason: string
+}
+
+/**
+ * Default level for a role with no stored policy. @everyone (role id equals
+ * guild id) can read, the "disunday" role gets full access, others get none.
+ */
+function getDefaultRoleLevel({
+  role,
+  guildId,
+}: {
+  role: AccessRole
+  guildId: string
+}): AccessLevel {
+  if (role.name.toLowerCase() === 'disunday') {
+    return 'admin'
+  }
+  if (role.id === guildId) {
+    return 'read'
+  }
+  return 'none'
+}
+
+/**
+ * Resolve whether a member may perform an action. Pure: all policy data is
+ * passed in, so it can be tested without Discord or the database.
+ *
+ * - The "no-disunday" role always denies.
+ * - Server owners, Administrators and Manage Server members are superusers.
+ * - Each role's level is its channel policy, else its server-wide policy,
+ *   else its default. The member's level is the highest across roles.
+ * - A command policy restricts the action to the listed roles; channel
+ *   policies replace server-wide ones for the same command.
+ */
+export function resolveAccess({
+  action,
+  guildId,
+  channelId,
+  roles,
+  isSuperuser,
+  roleLevels,
+  commandPolicies,
+}: {
+  action: string
+  guildId: string
+  channelId: string
+  roles: AccessRole[]
+  isSuperuser: boolean
+  roleLevels: RoleAccessLevel[]
+  commandPolicies: CommandRolePolicy[]
+}): AccessDecision {
+  const required = getRequiredLevel(action)
+
+  const blockedBy = roles.find((role) => {
+    return role.name.toLowerCase() === 'no-disunday'
+  })
+  if (blockedBy) {
+    return {
+      allowed: false,
+      action,
+      level: 'none',
+      required,
+      allowedRoleIds: [],
+      reason: `member has the "${blockedBy.name}" role`,
+    }
+  }
+
+  if (isSuperuser) {
+    return {
+      allowed: true,
+      action,
+      level: 'admin',
+      required,
+      allowedRoleIds: [],
+      reason: 'server owner or administrator',
+    }
+  }
+
+  const level = roles.reduce<AccessLevel>((best, role) => {
+    const channelEntry = roleLevels.find((entry) => {
+      return entry.role_id === role.id && entry.channel_id === channelId
+    })
+    const guildEntry = roleLevels.find((entry) => {
+      return entry.role_id === role.id && entry.channel_id === ''
+    })
+    const roleLevel =
+      channelEntry?.level ??
+      guildEntry?.level ??
+      getDefaultRoleLevel({ role, guildId })
+    return compareAccessLevels(roleLevel, best) > 0 ? roleLevel : best
+  }, 'none')
+
+  const policiesForAction = commandPolicies.filter((policy) => {
+    return policy.command === action
+  })
+  const channelPolicies = policiesForAction.filter((policy) => {
+    return policy.channel_id === channelId
+  })
+  const applicablePolicies =
+    channelPolicies.length > 0
+      ? channelPolicies
+      : policiesForAction.filter((policy) => {
+          return policy.channel_id === ''
+        })
+
+  if (applicablePolicies.length > 0) {
+    const allowedRoleIds = applicablePolicies.map((policy) => {
+      return policy.role_id
+    })
+    const matchingRole = roles.find((role) => {
+      return allowedRoleIds.includes(role.id)
+    })
+    const scope = channelPolicies.length > 0 ? 'channel' : 'server'
+    return {
+      allowed: Boolean(matchingRole),
+      action,
+      level,
+      required,
+      allowedRoleIds,
+      reason: matchingRole
+        ? `allowed by ${scope} command policy for role "${matchingRole.name}"`
+        : `/${action} is restricted by a ${scope} command policy`,
+    }
+  }
+
+  const allowed = compareAccessLevels(level, required) >= 0
+  return {
+    allowed,
+    action,
+    level,
+    required,
+    allowedRoleIds: [],
+    reason: allowed
+      ? `access level "${level}" meets "${required}"`
+      : `access level "${level}" is below required "${required}"`,
+  }
+}
+
+/**
+ * Channel whose policies apply: threads inherit from their parent channel.
+ */
+export function getPolicyChannelId(channel: {
+  id: string
+  type: ChannelType
+  parentId?: string | null
+}): string {
+  if (
+    channel.type === ChannelType.PublicThread ||
+    channel.type === ChannelType.PrivateThread ||
+    channel.type === ChannelType.AnnouncementThread
+  ) {
+    return channel.parentId || channel.id
+  }
+  return channel.id
+}
+
+export function isGuildSuperuser(member: GuildMember): boolean {
+  return (
+    member.id === member.guild.ownerId ||
+    member.permissions.has(PermissionsBitField.Flags.Administrator) ||
+    member.permissions.has(PermissionsBitField.Flags.ManageGuild)
+  )
+}
+
+/**
+ * Check a guild member against the stored policies for a channel.
+ * Denials are logged with member, action and channel for auditing.
+ */
+export function checkMemberAccess({
+  member,
+  channelId,
+  action,
+}: {
+  member: GuildMember
+  channelId: string
+  action: string
+}): AccessDecision {
+  const guildId = member.guild.id
+  const decision = resolveAccess({
+    action,
+    guildId,
+    channelId,
+    roles: member.roles.cache.map((role) => {
+      return { id: role.id, name: role.name }
+    }),
+    isSuperuser: isGuildSuperuser(member),
+    roleLevels: getRoleAccessLevels({ guildId, channelId }),
+    commandPolicies: getCommandRolePolicies({ guildId, channelId }),
+  })
+
+  if (!decision.allowed) {
+    accessLogger.warn(
+      `[ACCESS] Denied ${action} for ${member.user.tag} (${member.id}) in channel ${channelId}: ${decision.reason}`,
+    )
+  }
+  return decision
+}
+
+/**
+ * Denial message shown to the member. Includes enough detail for an admin
+ * to find and change the policy responsible.
+ */
+export function formatAccessDenied({
+  decision,
+  userId,
+  channelId,
+}: {
+  decision: AccessDecision
+  userId: string
+  channelId: string
+}): string {
+  const action = NON_COMMAND_ACTIONS.has(decision.action) ||
+    decision.action.startsWith('reaction:')
+    ? decision.action
+    : `/${decision.action}`
+  const requirement =
+    decision.allowedRoleIds.length > 0
+      ? `Allowed roles: ${decision.allowedRoleIds.map((id) => `<@&${id}>`).join(', ')}`
+      : `Required level: **${decision.required}** (you have **${decision.level}**)`
+
+  return [
+    `🚫 **Access denied** for <@${userId}>: \`${action}\` in <#${channelId}>`,
+    requirement,
+    `Reason: ${decision.reason}`,
+    `_Ask a server admin for the **Disunday** role or to update policies with \`/access\`._`,
+  ].join('\n')
+}
+
+/**
+ * Check access for an interaction and reply with an ephemeral denial when
+ * it is not allowed. Interactions outside guilds are not subject to policies.
+ * Guilds, members and channels missing from the cache are fetched, and the
+ * interaction is denied when they cannot be.
+ */
+export async function ensureInteractionAccess({
+  interaction,
+  action,
+}: {
+  interaction: RepliableInteraction
+  action: string
+}): Promise<boolean> {
+  if (!interaction.inGuild()) {
+    return true
+  }
+
+  const member = interaction.inCachedGuild()
+    ? interaction.member
+    : await errore.tryAsync(async () => {
+        const guild = await interaction.client.guilds.fetch(interaction.guildId)
+        return guild.members.fetch(interaction.user.id)
+      })
+  const channel =
+    interaction.channel ??
+    (interaction.channelId
+      ? await errore.tryAsync(() => {
+          return interaction.client.channels.fetch(interaction.channelId!)
+        })
+      : null)
+  if (member instanceof Error || !member || channel instanceof Error || !channel) {
+    const cause = member instanceof Error ? member : channel instanceof Error ? channel : null
+    accessLogger.error(
+      `[ACCESS] Could not resolve member ${interaction.user.id} or channel ${interaction.channelId} for ${action}${cause ? `: ${cause.message}` : ''}`,
+    )
+    await interaction.reply({
+      content: 'Could not check your access in this server. Please try again.',
+      ephemeral: true,
+    })
+    return false
+  }
+
+  const channelId = getPolicyChannelId(channel)
+  const decision = checkMemberAccess({ member, channelId, action })
+  if (decision.allowed) {
+    return true
+  }
+
+  await interaction.reply({
+    content: formatAccessDenied({
+      decision,
+      userId: interaction.user.id,
+      channelId,
+    }),
+    ephemeral: true,
+  })
+  return false
+}
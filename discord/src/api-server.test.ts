@@ -0,0 +1,188 @@
+import fs from 'node:fs'
+import type http from 'node:http'
+import os from 'node:os'
+import path from 'node:path'
+import { afterAll, beforeAll, beforeEach, describe, expect, test, vi } from 'vitest'
+import { setDataDir } from './config.js'
+import { closeDatabase, getDatabase } from './database.js'
+import { MemoryPlatform } from './platform/memory.js'
+import { createApiToken, startApiServer } from './api-server.js'
+
+const sessions = vi.hoisted(() => ({
+  running: new Set<string>(),
+  started: [] as { prompt: string; threadId: string; user?: unknown }[],
+  queued: [] as { threadId: string; prompt: string }[],
+}))
+
+vi.mock('./session-handler.js', () => ({
+  abortControllers: {
+    get: (sessionId: string) => {
+      return sessions.running.has(sessionId)
+        ? { signal: { aborted: false } }
+        : undefined
+    },
+  },
+  pendingPermissions: new Map(),
+  getQueueLength: (threadId: string) => {
+    return sessions.queued.filter((item) => item.threadId === threadId).length
+  },
+  addToQueue: ({
+    threadId,
+    message,
+  }: {
+    threadId: string
+    message: { prompt: string }
+  }) => {
+    sessions.queued.push({ threadId, prompt: message.prompt })
+    return sessions.queued.length
+  },
+  handleOpencodeSession: async ({
+    prompt,
+    thread,
+    user,
+  }: {
+    prompt: string
+    thread: { id: string }
+    user?: unknown
+  }) => {
+    sessions.started.push({ prompt, threadId: thread.id, user })
+    return undefined
+  },
+}))
+
+let dataDir: string
+let server: http.Server
+let baseUrl: string
+let token: string
+let otherToken: string
+const platform = new MemoryPlatform()
+
+beforeAll(async () => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'disunday-api-test-'))
+  setDataDir(dataDir)
+  const insert = getDatabase().prepare(
+    'INSERT INTO channel_directories (channel_id, directory, channel_type, app_id) VALUES (?, ?, ?, ?)',
+  )
+  insert.run('channel-app', '/repos/app', 'text', 'app-1')
+  insert.run('channel-api', '/repos/api', 'text', 'app-1')
+
+  token = createApiToken({ projectDirectory: '/repos/app', label: 'ci' }).token
+  otherToken = createApiToken({ projectDirectory: '/repos/api' }).token
+
+  server = await startApiServer({ platform, appId: 'app-1', port: 0 })
+  const address = server.address()
+  if (!address || typeof address === 'string') {
+    throw new Error('server did not bind to a port')
+  }
+  baseUrl = `http://127.0.0.1:${address.port}`
+})
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve))
+  closeDatabase()
+  fs.rmSync(dataDir, { recursive: true, force: true })
+})
+
+beforeEach(() => {
+  sessions.running.clear()
+  sessions.started.length = 0
+  sessions.queued.length = 0
+})
+
+async function request(
+  method: string,
+  pathname: string,
+  { auth = token, body }: { auth?: string | null; body?: unknown } = {},
+) {
+  const response = await fetch(`${baseUrl}${pathname}`, {
+    method,
+    headers: auth ? { Authorization: `Bearer ${auth}` } : {},
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+  return {
+    status: response.status,
+    body: (await response.json()) as Record<string, any>,
+  }
+}
+
+describe('local HTTP API', () => {
+  test('rejects missing and unknown tokens', async () => {
+    expect((await request('GET', '/v1/threads/x', { auth: null })).status).toBe(
+      401,
+    )
+    expect(
+      (await request('GET', '/v1/threads/x', { auth: 'dsk_nope' })).status,
+    ).toBe(401)
+  })
+
+  test('rejects malformed thread ids', async () => {
+    expect(await request('POST', '/v1/threads/%E0/prompts', { body: { prompt: 'hi' } })).toEqual({
+      status: 400,
+      body: { error: 'invalid thread id' },
+    })
+  })
+
+  test('starts a session in the project channel', async () => {
+    const response = await request('POST', '/v1/sessions', {
+      body: { prompt: 'run the tests' },
+    })
+
+    expect(response.status).toBe(202)
+    expect(response.body.channelId).toBe('channel-app')
+    const thread = platform.threads.get(response.body.threadId)
+    expect(thread?.parentId).toBe('channel-app')
+    expect(platform.getMessages('channel-app')[0]?.content).toContain(
+      'run the tests',
+    )
+    await vi.waitFor(() => {
+      expect(sessions.started).toEqual([
+        {
+          prompt: 'run the tests',
+          threadId: response.body.threadId,
+          user: expect.objectContaining({ username: 'api:ci' }),
+        },
+      ])
+    })
+  })
+
+  test('scopes tokens to their project', async () => {
+    const response = await request('POST', '/v1/sessions', {
+      auth: otherToken,
+      body: { prompt: 'hi', channelId: 'channel-app' },
+    })
+    expect(response.status).toBe(403)
+
+    const thread = platform.createThread({ parentId: 'channel-app' })
+    expect(
+      (await request('GET', `/v1/threads/${thread.id}`, { auth: otherToken }))
+        .status,
+    ).toBe(403)
+  })
+
+  test('queues prompts while a session is running', async () => {
+    const thread = platform.createThread({ parentId: 'channel-app' })
+    getDatabase()
+      .prepare(
+        'INSERT INTO thread_sessions (thread_id, session_id) VALUES (?, ?)',
+      )
+      .run(thread.id, 'ses_running')
+    sessions.running.add('ses_running')
+
+    const queued = await request('POST', `/v1/threads/${thread.id}/prompts`, {
+      body: { prompt: 'next step' },
+    })
+    expect(queued).toMatchObject({
+      status: 202,
+      body: { queued: true, position: 1 },
+    })
+    expect(sessions.started).toEqual([])
+
+    const status = await request('GET', `/v1/threads/${thread.id}`)
+    expect(status.body).toMatchObject({
+      sessionId: 'ses_running',
+      running: true,
+      queueLength: 1,
+      lastRun: null,
+    })
+  })
+})
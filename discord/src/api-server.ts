@@ -0,0 +1,435 @@
+// Local HTTP API for triggering sessions from scripts, CI jobs and webhooks.
+// Runs inside the bot process when started with --api-port. Requests are
+// authenticated with bearer tokens created by `disunday api-token create`;
+// each token is scoped to one project directory and can only touch that
+// project's channels and threads.
+//
+//   POST /v1/sessions                 { prompt, channelId?, name? }
+//   POST /v1/threads/:id/prompts      { prompt }
+//   GET  /v1/threads/:id
+//   POST /v1/threads/:id/abort
+
+import crypto from 'node:crypto'
+import http from 'node:http'
+import path from 'node:path'
+import * as errore from 'errore'
+import {
+  getApiTokenByHash,
+  getChannelDirectory,
+  getDatabase,
+  getLatestSessionRun,
+  insertApiToken,
+  touchApiToken,
+  type ApiToken,
+} from './database.js'
+import {
+  abortControllers,
+  addToQueue,
+  getQueueLength,
+  handleOpencodeSession,
+  pendingPermissions,
+} from './session-handler.js'
+import { initializeOpencodeForDirectory } from './opencode.js'
+import { recordAuditEvent } from './audit.js'
+import { createLogger, LogPrefix } from './logger.js'
+import type { ChatPlatform, PlatformThread } from './platform/types.js'
+
+const apiLogger = createLogger(LogPrefix.API)
+
+const MAX_BODY_BYTES = 1024 * 1024
+const TOKEN_PREFIX = 'dsk_'
+
+class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message)
+  }
+}
+
+export function hashApiToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Create a token scoped to a project directory. The plain token is only
+ * returned here; the database keeps its hash.
+ */
+export function createApiToken({
+  projectDirectory,
+  label,
+}: {
+  projectDirectory: string
+  label?: string
+}): { id: number; token: string } {
+  const token = `${TOKEN_PREFIX}${crypto.randomBytes(24).toString('base64url')}`
+  const id = insertApiToken({
+    tokenHash: hashApiToken(token),
+    projectDirectory: path.resolve(projectDirectory),
+    label,
+  })
+  return { id, token }
+}
+
+type RequestContext = {
+  platform: ChatPlatform
+  appId?: string
+  apiToken: ApiToken
+}
+
+function apiUser(apiToken: ApiToken) {
+  return {
+    id: `api:${apiToken.id}`,
+    username: `api:${apiToken.label || apiToken.id}`,
+  }
+}
+
+function authenticate(req: http.IncomingMessage): ApiToken {
+  const header = req.headers.authorization || ''
+  const match = header.match(/^Bearer\s+(\S+)$/i)
+  if (!match?.[1]) {
+    throw new ApiError(401, 'Missing bearer token')
+  }
+  const apiToken = getApiTokenByHash(hashApiToken(match[1]))
+  if (!apiToken) {
+    throw new ApiError(401, 'Invalid token')
+  }
+  touchApiToken(apiToken.id)
+  return apiToken
+}
+
+async function readJsonBody(
+  req: http.IncomingMessage,
+): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length
+    if (size > MAX_BODY_BYTES) {
+      throw new ApiError(413, 'Request body too large')
+    }
+    chunks.push(chunk as Buffer)
+  }
+  if (chunks.length === 0) {
+    return {}
+  }
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString('utf-8'))
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      throw new Error('not an object')
+    }
+    return body as Record<string, unknown>
+  } catch {
+    throw new ApiError(400, 'Request body must be a JSON object')
+  }
+}
+
+function requirePrompt(body: Record<string, unknown>): string {
+  const prompt = body.prompt
+  if (typeof prompt !== 'string' || !prompt.trim()) {
+    throw new ApiError(400, '"prompt" is required')
+  }
+  return prompt
+}
+
+/**
+ * Check that a channel belongs to this bot and to the token's project.
+ */
+function requireProjectChannel(
+  { appId, apiToken }: RequestContext,
+  channelId: string | null,
+): { channelId: string; directory: string } {
+  const channel = channelId ? getChannelDirectory(channelId) : undefined
+  if (!channelId || !channel || (channel.appId && appId && channel.appId !== appId)) {
+    throw new ApiError(404, 'Channel is not a Disunday project channel')
+  }
+  if (path.resolve(channel.directory) !== apiToken.project_directory) {
+    throw new ApiError(403, 'Token is not scoped to this project')
+  }
+  return { channelId, directory: channel.directory }
+}
+
+function findProjectChannel({ appId, apiToken }: RequestContext): string {
+  const rows = getDatabase()
+    .prepare(
+      `SELECT channel_id, app_id FROM channel_directories
+       WHERE directory = ? AND channel_type = 'text'
+       ORDER BY created_at DESC`,
+    )
+    .all(apiToken.project_directory) as {
+    channel_id: string
+    app_id: string | null
+  }[]
+  const row = rows.find((candidate) => {
+    return !candidate.app_id || !appId || candidate.app_id === appId
+  })
+  if (!row) {
+    throw new ApiError(404, 'No channel found for this project')
+  }
+  return row.channel_id
+}
+
+async function requireThread(
+  context: RequestContext,
+  threadId: string,
+): Promise<{ thread: PlatformThread; channelId: string; directory: string }> {
+  const thread = await context.platform
+    .fetchThread(threadId)
+    .catch(() => null)
+  if (!thread) {
+    throw new ApiError(404, 'Thread not found')
+  }
+  const channel = requireProjectChannel(context, thread.parentId)
+  return { thread, ...channel }
+}
+
+function getThreadSessionId(threadId: string): string | undefined {
+  const row = getDatabase()
+    .prepare('SELECT session_id FROM thread_sessions WHERE thread_id = ?')
+    .get(threadId) as { session_id: string } | undefined
+  return row?.session_id
+}
+
+function isSessionRunning(sessionId: string | undefined): boolean {
+  const controller = sessionId ? abortControllers.get(sessionId) : undefined
+  return Boolean(controller && !controller.signal.aborted)
+}
+
+function formatPromptEcho(context: RequestContext, prompt: string): string {
+  const preview = prompt.length > 100 ? `${prompt.slice(0, 100)}...` : prompt
+  return `» **${apiUser(context.apiToken).username}:** ${preview}`
+}
+
+function startSession({
+  context,
+  thread,
+  prompt,
+  channelId,
+  directory,
+}: {
+  context: RequestContext
+  thread: PlatformThread
+  prompt: string
+  channelId: string
+  directory: string
+}): void {
+  handleOpencodeSession({
+    prompt,
+    thread,
+    projectDirectory: directory,
+    channelId,
+    user: apiUser(context.apiToken),
+  }).catch(async (error) => {
+    apiLogger.error(`[API] Session failed in thread ${thread.id}:`, error)
+    const message = error instanceof Error ? error.message : String(error)
+    await thread.sendText(`✗ Failed: ${message.slice(0, 200)}`).catch(() => {})
+  })
+}
+
+async function createSession(
+  context: RequestContext,
+  body: Record<string, unknown>,
+) {
+  const prompt = requirePrompt(body)
+  const requestedChannel =
+    typeof body.channelId === 'string' ? body.channelId : null
+  const { channelId, directory } = requireProjectChannel(
+    context,
+    requestedChannel ?? findProjectChannel(context),
+  )
+  const name =
+    typeof body.name === 'string' && body.name.trim()
+      ? body.name.trim()
+      : prompt.replace(/\s+/g, ' ').slice(0, 80)
+
+  const { thread } = await context.platform.startThread({
+    channelId,
+    name,
+    message: { content: formatPromptEcho(context, prompt) },
+  })
+  apiLogger.log(
+    `[API] Token ${context.apiToken.id} started thread ${thread.id} in channel ${channelId}`,
+  )
+  startSession({ context, thread, prompt, channelId, directory })
+
+  return {
+    status: 202,
+    body: { threadId: thread.id, channelId, url: thread.url },
+  }
+}
+
+async function queuePrompt(
+  context: RequestContext,
+  threadId: string,
+  body: Record<string, unknown>,
+) {
+  const prompt = requirePrompt(body)
+  const { thread, channelId, directory } = await requireThread(
+    context,
+    threadId,
+  )
+  const user = apiUser(context.apiToken)
+
+  if (isSessionRunning(getThreadSessionId(thread.id))) {
+    const position = addToQueue({
+      threadId: thread.id,
+      appId: context.appId,
+      message: {
+        prompt,
+        userId: user.id,
+        username: user.username,
+        queuedAt: Date.now(),
+      },
+    })
+    apiLogger.log(`[API] Queued prompt in thread ${thread.id} at ${position}`)
+    return { status: 202, body: { threadId: thread.id, queued: true, position } }
+  }
+
+  await thread.sendText(formatPromptEcho(context, prompt))
+  startSession({ context, thread, prompt, channelId, directory })
+  return { status: 202, body: { threadId: thread.id, queued: false } }
+}
+
+async function getThreadStatus(context: RequestContext, threadId: string) {
+  const { thread, channelId } = await requireThread(context, threadId)
+  const sessionId = getThreadSessionId(thread.id)
+  const lastRun = getLatestSessionRun(thread.id)
+  return {
+    status: 200,
+    body: {
+      threadId: thread.id,
+      channelId,
+      sessionId: sessionId ?? null,
+      running: isSessionRunning(sessionId),
+      queueLength: getQueueLength(thread.id),
+      pendingPermissions: pendingPermissions.get(thread.id)?.size ?? 0,
+      lastRun: lastRun
+        ? {
+            status: lastRun.status,
+            startedAt: new Date(lastRun.started_at).toISOString(),
+            endedAt: lastRun.ended_at
+              ? new Date(lastRun.ended_at).toISOString()
+              : null,
+            error: lastRun.error_message,
+          }
+        : null,
+    },
+  }
+}
+
+async function abortThread(context: RequestContext, threadId: string) {
+  const { thread, channelId, directory } = await requireThread(
+    context,
+    threadId,
+  )
+  const sessionId = getThreadSessionId(thread.id)
+  if (!sessionId) {
+    throw new ApiError(409, 'No session in this thread')
+  }
+
+  const controller = abortControllers.get(sessionId)
+  if (controller) {
+    apiLogger.log(`[ABORT] reason=api-requested sessionId=${sessionId}`)
+    controller.abort(new Error('User requested abort'))
+    abortControllers.delete(sessionId)
+  }
+
+  const getClient = await initializeOpencodeForDirectory(directory)
+  if (getClient instanceof Error) {
+    throw new ApiError(502, `Failed to abort: ${getClient.message}`)
+  }
+  await getClient().session.abort({ path: { id: sessionId } })
+
+  const user = apiUser(context.apiToken)
+  recordAuditEvent({
+    eventType: 'abort',
+    userId: user.id,
+    username: user.username,
+    channelId,
+    threadId: thread.id,
+    sessionId,
+    summary: 'Aborted via HTTP API',
+    details: { source: 'api' },
+  })
+  return { status: 200, body: { threadId: thread.id, sessionId, aborted: true } }
+}
+
+async function route(
+  req: http.IncomingMessage,
+  context: Omit<RequestContext, 'apiToken'>,
+): Promise<{ status: number; body: unknown }> {
+  const url = new URL(req.url || '/', 'http://localhost')
+  const method = req.method || 'GET'
+  const apiToken = authenticate(req)
+  const requestContext = { ...context, apiToken }
+
+  if (url.pathname === '/v1/sessions' && method === 'POST') {
+    return createSession(requestContext, await readJsonBody(req))
+  }
+
+  const threadMatch = url.pathname.match(
+    /^\/v1\/threads\/([^/]+)(\/prompts|\/abort)?$/,
+  )
+  if (threadMatch?.[1]) {
+    // Malformed escapes like %E0 make decodeURIComponent throw
+    const threadId = errore.tryFn(() => decodeURIComponent(threadMatch[1]!))
+    if (threadId instanceof Error) {
+      throw new ApiError(400, 'invalid thread id')
+    }
+    const action = threadMatch[2]
+    if (!action && method === 'GET') {
+      return getThreadStatus(requestContext, threadId)
+    }
+    if (action === '/prompts' && method === 'POST') {
+      return queuePrompt(requestContext, threadId, await readJsonBody(req))
+    }
+    if (action === '/abort' && method === 'POST') {
+      return abortThread(requestContext, threadId)
+    }
+  }
+
+  throw new ApiError(404, `No route for ${method} ${url.pathname}`)
+}
+
+/**
+ * Start the API server. Binds to localhost by default; put a reverse proxy in
+ * front of it to receive webhooks from other machines.
+ */
+export async function startApiServer({
+  platform,
+  appId,
+  port,
+  host = '127.0.0.1',
+}: {
+  platform: ChatPlatform
+  appId?: string
+  port: number
+  host?: string
+}): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    route(req, { platform, appId })
+      .catch((error) => {
+        if (error instanceof ApiError) {
+          return { status: error.status, body: { error: error.message } }
+        }
+        apiLogger.error(`[API] ${req.method} ${req.url} failed:`, error)
+        return { status: 500, body: { error: 'Internal error' } }
+      })
+      .then(({ status, body }) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify(body))
+      })
+  })
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(port, host, () => {
+      server.off('error', reject)
+      const address = server.address()
+      const boundPort = typeof address === 'object' && address ? address.port : port
+      apiLogger.log(`HTTP API listening on http://${host}:${boundPort}`)
+      resolve(server)
+    })
+  })
+}
@@ -0,0 +1,83 @@
+import { describe, expect, test } from 'vitest'
+import {
+  formatAuditEventLine,
+  formatAuditEventsAsCsv,
+  formatAuditEventsAsJsonl,
+} from './audit.js'
+import type { AuditEvent } from './database.js'
+
+const events: AuditEvent[] = [
+  {
+    id: 1,
+    event_type: 'run',
+    user_id: 'u1',
+    username: 'alice',
+    channel_id: 'c1',
+    thread_id: null,
+    session_id: null,
+    summary: 'echo "hi, there"',
+    details: JSON.stringify({ cwd: '/repo', background: false }),
+    created_at: Date.UTC(2025, 0, 2, 3, 4, 5),
+  },
+  {
+    id: 2,
+    event_type: 'permission',
+    user_id: 'u2',
+    username: 'bob',
+    channel_id: 'c1',
+    thread_id: 't1',
+    session_id: 'ses_1',
+    summary: 'reject bash\n(rm -rf)',
+    details: null,
+    created_at: Date.UTC(2025, 0, 2, 3, 5, 0),
+  },
+]
+
+describe('audit export', () => {
+  test('formats JSONL with parsed details and ISO timestamps', () => {
+    const lines = formatAuditEventsAsJsonl(events).split('\n')
+    expect(lines).toHaveLength(2)
+    expect(JSON.parse(lines[0]!)).toEqual({
+      id: 1,
+      event_type: 'run',
+      user_id: 'u1',
+      username: 'alice',
+      channel_id: 'c1',
+      thread_id: null,
+      session_id: null,
+      summary: 'echo "hi, there"',
+      details: { cwd: '/repo', background: false },
+      created_at: '2025-01-02T03:04:05.000Z',
+    })
+  })
+
+  test('formats CSV with quoting', () => {
+    expect(formatAuditEventsAsCsv(events)).toMatchInlineSnapshot(`
+      "id,created_at,event_type,user_id,username,channel_id,thread_id,session_id,summary,details
+      1,2025-01-02T03:04:05.000Z,run,u1,alice,c1,,,"echo ""hi, there""","{""cwd"":""/repo"",""background"":false}"
+      2,2025-01-02T03:05:00.000Z,permission,u2,bob,c1,t1,ses_1,"reject bash
+      (rm -rf)","
+    `)
+  })
+
+  test('escapes CSV fields spreadsheets would run as formulas', () => {
+    const csv = formatAuditEventsAsCsv(
+      ['=HYPERLINK("http://evil")', '+1', '-2+3', '@SUM(A1)', 'a=b'].map((summary, index) => {
+        return { ...events[0]!, id: index + 1, summary, details: null }
+      }),
+    )
+    expect(csv.split('\n').slice(1).map((line) => line.split(',').slice(8).join(','))).toEqual([
+      `"'=HYPERLINK(""http://evil"")",`,
+      "'+1,",
+      "'-2+3,",
+      "'@SUM(A1),",
+      'a=b,',
+    ])
+  })
+
+  test('formats a single-line Discord summary', () => {
+    expect(formatAuditEventLine(events[1]!)).toBe(
+      '🔐 <t:1735787100:f> **permission** <@u2> in <#t1>: reject bash (rm -rf)',
+    )
+  })
+})
@@ -0,0 +1,148 @@
+// Audit log for prompts, permission decisions, /run commands, worktree merges
+// and aborts. Events are stored in SQLite and can be viewed with /audit or
+// exported as JSONL/CSV with `disunday audit export`.
+
+import {
+  getDatabase,
+  insertAuditEvent,
+  type AuditEvent,
+  type AuditEventType,
+} from './database.js'
+import { createLogger, LogPrefix } from './logger.js'
+
+const auditLogger = createLogger(LogPrefix.AUDIT)
+
+export const AUDIT_EVENT_TYPES: AuditEventType[] = [
+  'prompt',
+  'permission',
+  'run',
+  'merge',
+  'abort',
+]
+
+export function isAuditEventType(value: string): value is AuditEventType {
+  return (AUDIT_EVENT_TYPES as string[]).includes(value)
+}
+
+/**
+ * Record an audit event. Never throws: a failed write is logged so that
+ * auditing cannot break the action being audited. When only a thread is
+ * given, the session is resolved from thread_sessions.
+ */
+export function recordAuditEvent(event: {
+  eventType: AuditEventType
+  userId?: string
+  username?: string
+  channelId?: string
+  threadId?: string
+  sessionId?: string
+  summary: string
+  details?: Record<string, unknown>
+}): void {
+  try {
+    const sessionId = (() => {
+      if (event.sessionId || !event.threadId) {
+        return event.sessionId
+      }
+      const row = getDatabase()
+        .prepare('SELECT session_id FROM thread_sessions WHERE thread_id = ?')
+        .get(event.threadId) as { session_id: string } | undefined
+      return row?.session_id
+    })()
+    insertAuditEvent({ ...event, sessionId })
+  } catch (error) {
+    auditLogger.error(`[AUDIT] Failed to record ${event.eventType} event:`, error)
+  }
+}
+
+type ExportedAuditEvent = Omit<AuditEvent, 'details' | 'created_at'> & {
+  details: Record<string, unknown> | null
+  created_at: string
+}
+
+function toExportedEvent(event: AuditEvent): ExportedAuditEvent {
+  const details = (() => {
+    if (!event.details) {
+      return null
+    }
+    try {
+      return JSON.parse(event.details) as Record<string, unknown>
+    } catch {
+      return { raw: event.details }
+    }
+  })()
+  return {
+    ...event,
+    details,
+    created_at: new Date(event.created_at).toISOString(),
+  }
+}
+
+export function formatAuditEventsAsJsonl(events: AuditEvent[]): string {
+  return events
+    .map((event) => {
+      return JSON.stringify(toExportedEvent(event))
+    })
+    .join('\n')
+}
+
+const CSV_COLUMNS = [
+  'id',
+  'created_at',
+  'event_type',
+  'user_id',
+  'username',
+  'channel_id',
+  'thread_id',
+  'session_id',
+  'summary',
+  'details',
+] as const
+
+function escapeCsvField(value: string): string {
+  // Spreadsheets run fields starting with these as formulas; a leading `'`
+  // keeps them text (OWASP CSV injection)
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`
+  }
+  return text
+}
+
+export function formatAuditEventsAsCsv(events: AuditEvent[]): string {
+  const rows = events.map((event) => {
+    const exported = toExportedEvent(event)
+    return CSV_COLUMNS.map((column) => {
+      const value = exported[column]
+      if (value === null || value === undefined) {
+        return ''
+      }
+      return escapeCsvField(
+        typeof value === 'object' ? JSON.stringify(value) : String(value),
+      )
+    }).join(',')
+  })
+  return [CSV_COLUMNS.join(','), ...rows].join('\n')
+}
+
+const EVENT_EMOJI: Record<AuditEventType, string> = {
+  prompt: '💬',
+  permission: '🔐',
+  run: '▶️',
+  merge: '🔀',
+  abort: '⏹️',
+}
+
+/**
+ * One-line Discord rendering of an event for /audit.
+ */
+export function formatAuditEventLine(event: AuditEvent): string {
+  const timestamp = Math.floor(event.created_at / 1000)
+  const user = event.user_id ? `<@${event.user_id}>` : '_system_'
+  const where = event.thread_id ? ` in <#${event.thread_id}>` : ''
+  const summary =
+    event.summary.length > 120
+      ? `${event.summary.slice(0, 117)}...`
+      : event.summary
+  return `${EVENT_EMOJI[event.event_type] ?? '•'} <t:${timestamp}:f> **${event.event_type}** ${user}${where}: ${summary.replace(/\n/g, ' ')}`
+}
@@ -27,6 +27,7 @@ import {
   getDatabase,
   getChannelDirectory,
   startDiscordBot,
+  stopDiscordBot,
   initializeOpencodeForDirectory,
   ensureDisundayCategory,
   createProjectChannels,
@@ -42,6 +43,7 @@ import {
   ApplicationCommandType,
   ContextMenuCommandBuilder,
   type CategoryChannel,
+  type Client,
   type Guild,
   REST,
   Routes,
@@ -66,8 +68,36 @@ import {
   getDataDir,
   getLockPort,
   setDefaultVerbosity,
+  setDefaultDisplayMode,
+  setOpencodePoolConfig,
 } from './config.js'
 import { sanitizeAgentName } from './commands/agent.js'
+import {
+  deleteApiToken,
+  deleteBot,
+  getAuditEvents,
+  listApiTokens,
+  listBots,
+} from './database.js'
+import { createApiToken } from './api-server.js'
+import {
+  AUDIT_EVENT_TYPES,
+  formatAuditEventsAsCsv,
+  formatAuditEventsAsJsonl,
+  isAuditEventType,
+} from './audit.js'
+import {
+  STATS_WINDOWS,
+  formatStatsReportText,
+  getStatsReport,
+  isStatsWindow,
+} from './stats.js'
+import {
+  importSessionToChannel,
+  parseSessionExport,
+  selectImportSession,
+} from './session-import.js'
+import { getOpencodeServers } from './opencode.js'
 
 const cliLogger = createLogger(LogPrefix.CLI)
 
@@ -299,6 +329,9 @@ type CliOptions = {
   dataDir?: string
   useWorktrees?: boolean
   enableVoiceChannels?: boolean
+  apiPort?: number
+  /** Also start every other saved bot in this process */
+  allBots?: boolean
 }
 
 // Commands to skip when registering user commands (reserved names)
@@ -386,6 +419,88 @@ async function registerCommands({
     new SlashCommandBuilder()
       .setName('merge-worktree')
       .setDescription('Merge the worktree branch into the default branch')
+      .addStringOption((option) => {
+        return option
+          .setName('strategy')
+          .setDescription('How to bring in the default branch (default: merge)')
+          .setRequired(false)
+          .addChoices(
+            { name: 'Merge the default branch into the worktree', value: 'merge' },
+            { name: 'Rebase the worktree onto the default branch', value: 'rebase' },
+          )
+      })
+      .toJSON(),
+    new SlashCommandBuilder()
+      .setName('open-pr')
+      .setDescription(
+        'Push the worktree branch and open a pull request drafted from the session',
+      )
+      .addStringOption((option) => {
+        return option
+          .setName('title')
+          .setDescription('Pull request title (default: session title)')
+          .setRequired(false)
+      })
+      .addStringOption((option) => {
+        return option
+          .setName('base')
+          .setDescription('Branch to merge into (default: from /pr-config or remote default)')
+          .setRequired(false)
+      })
+      .addBooleanOption((option) => {
+        return option
+          .setName('draft')
+          .setDescription('Open as a draft pull request')
+          .setRequired(false)
+      })
+      .toJSON(),
+    new SlashCommandBuilder()
+      .setName('pr-config')
+      .setDescription('Configure forge, remote and base branch for /open-pr')
+      .addSubcommand((sub) => {
+        return sub
+          .setName('show')
+          .setDescription('Show current pull request settings')
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('set')
+          .setDescription('Update pull request settings for this channel')
+          .addStringOption((opt) => {
+            return opt
+              .setName('forge')
+              .setDescription('Forge hosting the remote')
+              .setRequired(false)
+              .addChoices(
+                { name: 'Detect from remote URL', value: 'auto' },
+                { name: 'GitHub', value: 'github' },
+                { name: 'GitLab', value: 'gitlab' },
+              )
+          })
+          .addStringOption((opt) => {
+            return opt
+              .setName('remote')
+              .setDescription('Git remote to push to (default: origin)')
+              .setRequired(false)
+          })
+          .addStringOption((opt) => {
+            return opt
+              .setName('base')
+              .setDescription('Base branch for pull requests')
+              .setRequired(false)
+          })
+          .addStringOption((opt) => {
+            return opt
+              .setName('api-url')
+              .setDescription('API URL for self-hosted forges')
+              .setRequired(false)
+          })
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('reset')
+          .setDescription('Reset pull request settings to defaults')
+      })
       .toJSON(),
     new SlashCommandBuilder()
       .setName('toggle-worktrees')
@@ -393,6 +508,12 @@ async function registerCommands({
         'Toggle automatic git worktree creation for new sessions in this channel',
       )
       .toJSON(),
+    new SlashCommandBuilder()
+      .setName('worktrees')
+      .setDescription(
+        'List worktrees of all projects with disk usage, age and status, and prune unused ones',
+      )
+      .toJSON(),
     new SlashCommandBuilder()
       .setName('add-project')
       .setDescription(
@@ -501,8 +622,8 @@ async function registerCommands({
       .addStringOption((option) => {
         option
           .setName('message')
-          .setDescription('The message to queue')
-          .setRequired(true)
+          .setDescription('The message to queue (omit to show the queue)')
+          .setRequired(false)
 
         return option
       })
@@ -539,22 +660,301 @@ async function registerCommands({
       })
       .toJSON(),
     new SlashCommandBuilder()
-      .setName('theme')
-      .setDescription('Set message formatting theme for this channel')
+      .setName('voice-mode')
+      .setDescription('Use the voice channel for the realtime assistant or for dictating prompts')
+      .addStringOption((option) => {
+        option
+          .setName('mode')
+          .setDescription('Voice mode')
+          .setRequired(true)
+          .addChoices(
+            { name: 'assistant (default)', value: 'assistant' },
+            { name: 'dictation', value: 'dictation' },
+          )
+        return option
+      })
+      .toJSON(),
+    new SlashCommandBuilder()
+      .setName('transcription')
+      .setDescription('Pick the speech-to-text backend of this channel')
+      .addSubcommand((sub) => {
+        return sub
+          .setName('set')
+          .setDescription('Use Gemini, a local whisper.cpp binary or a local HTTP endpoint')
+          .addStringOption((option) => {
+            return option
+              .setName('backend')
+              .setDescription('Transcription backend')
+              .setRequired(true)
+              .addChoices(
+                { name: 'gemini (default, hosted)', value: 'gemini' },
+                { name: 'whisper-cpp (local binary)', value: 'whisper-cpp' },
+                { name: 'http (local OpenAI-compatible server)', value: 'http' },
+              )
+          })
+          .addStringOption((option) => {
+            return option
+              .setName('location')
+              .setDescription('whisper.cpp model file, or base URL like http://localhost:8000/v1')
+          })
+          .addStringOption((option) => {
+            return option
+              .setName('correction-url')
+              .setDescription('OpenAI-compatible URL of a local text model fixing code terms')
+          })
+          .addStringOption((option) => {
+            return option
+              .setName('correction-model')
+              .setDescription('Model name for correction, like qwen2.5-coder:7b')
+          })
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('show')
+          .setDescription('Show the transcription backend of this channel')
+      })
+      .toJSON(),
+    new SlashCommandBuilder()
+      .setName('voice-summary')
+      .setDescription('Read out a summary in the voice channel when a session completes')
+      .addSubcommand((sub) => {
+        return sub
+          .setName('set')
+          .setDescription('Turn spoken summaries on with Gemini, a local piper binary or an HTTP endpoint')
+          .addStringOption((option) => {
+            return option
+              .setName('engine')
+              .setDescription('Text-to-speech engine')
+              .setRequired(true)
+              .addChoices(
+                { name: 'gemini (hosted)', value: 'gemini' },
+                { name: 'piper (local binary)', value: 'piper' },
+                { name: 'http (OpenAI-compatible server)', value: 'http' },
+              )
+          })
+          .addStringOption((option) => {
+            return option
+              .setName('location')
+              .setDescription('piper voice model, or base URL like http://localhost:8880/v1')
+          })
+          .addStringOption((option) => {
+            return option
+              .setName('voice')
+              .setDescription('Voice name (Kore, alloy) or piper speaker number')
+          })
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('off')
+          .setDescription('Turn spoken summaries off for this channel')
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('show')
+          .setDescription('Show the spoken summary settings of this channel')
+      })
+      .toJSON(),
+    new SlashCommandBuilder()
+      .setName('permission-policy')
+      .setDescription('Auto-answer OpenCode permission requests in this channel')
+      .addSubcommand((sub) => {
+        return sub
+          .setName('add')
+          .setDescription('Add a rule that allows, denies or needs several approvers')
+          .addStringOption((option) => {
+            return option
+              .setName('action')
+              .setDescription('What to do with matching requests')
+              .setRequired(true)
+              .addChoices(
+                { name: 'allow', value: 'allow' },
+                { name: 'deny', value: 'deny' },
+                { name: 'require approvals', value: 'approvals' },
+              )
+          })
+          .addStringOption((option) => {
+            return option
+              .setName('permission')
+              .setDescription('Request type (default: any)')
+              .addChoices(
+                { name: 'any', value: '*' },
+                { name: 'edit', value: 'edit' },
+                { name: 'bash', value: 'bash' },
+                { name: 'read', value: 'read' },
+                { name: 'webfetch', value: 'webfetch' },
+                { name: 'external_directory', value: 'external_directory' },
+              )
+          })
+          .addStringOption((option) => {
+            return option
+              .setName('pattern')
+              .setDescription('Wildcard for paths or commands, like src/* or rm -rf*')
+          })
+          .addBooleanOption((option) => {
+            return option
+              .setName('whitelist')
+              .setDescription('Match bash commands in the /run whitelist instead of a pattern')
+          })
+          .addIntegerOption((option) => {
+            return option
+              .setName('approvals')
+              .setDescription('Approvers needed for require approvals (default 2)')
+              .setMinValue(2)
+              .setMaxValue(5)
+          })
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('remove')
+          .setDescription('Remove a rule')
+          .addIntegerOption((option) => {
+            return option.setName('id').setDescription('Rule number from list').setRequired(true)
+          })
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('list')
+          .setDescription('List the rules of this channel')
+      })
+      .toJSON(),
+    new SlashCommandBuilder()
+      .setName('permission-timeout')
+      .setDescription('Remind, escalate and auto-reject unanswered permission requests')
+      .addSubcommand((sub) => {
+        return sub
+          .setName('set')
+          .setDescription('Set the timeouts of this channel, in minutes after the request')
+          .addIntegerOption((option) => {
+            return option
+              .setName('reject')
+              .setDescription('Auto-reject after this many minutes')
+              .setRequired(true)
+              .setMinValue(1)
+              .setMaxValue(1440)
+          })
+          .addIntegerOption((option) => {
+            return option
+              .setName('remind')
+              .setDescription('Re-ping the requester after this many minutes')
+              .setMinValue(1)
+              .setMaxValue(1440)
+          })
+          .addIntegerOption((option) => {
+            return option
+              .setName('escalate')
+              .setDescription('Escalate after this many minutes')
+              .setMinValue(1)
+              .setMaxValue(1440)
+          })
+          .addRoleOption((option) => {
+            return option.setName('role').setDescription('Role to ping when escalating')
+          })
+          .addBooleanOption((option) => {
+            return option.setName('hub').setDescription('Also post to the hub channel when escalating')
+          })
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('off')
+          .setDescription('Let permission requests wait until someone answers')
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('show')
+          .setDescription('Show the permission timeouts of this channel')
+      })
+      .toJSON(),
+    new SlashCommandBuilder()
+      .setName('display')
+      .setDescription('Stream every part as a message or keep one live status message per turn')
       .addStringOption((option) => {
         option
-          .setName('style')
-          .setDescription('Theme style')
+          .setName('mode')
+          .setDescription('Display mode')
           .setRequired(true)
           .addChoices(
-            { name: 'default', value: 'default' },
-            { name: 'minimal', value: 'minimal' },
-            { name: 'detailed', value: 'detailed' },
-            { name: 'plain', value: 'plain' },
+            { name: 'stream (default)', value: 'stream' },
+            { name: 'live', value: 'live' },
           )
         return option
       })
       .toJSON(),
+    new SlashCommandBuilder()
+      .setName('theme')
+      .setDescription('Set, create and preview message formatting themes')
+      .addSubcommand((sub) => {
+        return sub
+          .setName('set')
+          .setDescription('Set the theme of this channel')
+          .addStringOption((option) => {
+            return option
+              .setName('style')
+              .setDescription('Built-in or custom theme')
+              .setRequired(true)
+              .setAutocomplete(true)
+          })
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('create')
+          .setDescription('Create a custom theme shared by every channel')
+          .addStringOption((option) => {
+            return option
+              .setName('name')
+              .setDescription('Theme name (lowercase letters, digits, - and _)')
+              .setRequired(true)
+          })
+          .addStringOption((option) => {
+            return option
+              .setName('base')
+              .setDescription('Built-in theme to start from (default: default)')
+              .addChoices(
+                { name: 'default', value: 'default' },
+                { name: 'minimal', value: 'minimal' },
+                { name: 'detailed', value: 'detailed' },
+                { name: 'plain', value: 'plain' },
+              )
+          })
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('edit')
+          .setDescription('Edit a custom theme')
+          .addStringOption((option) => {
+            return option
+              .setName('name')
+              .setDescription('Custom theme')
+              .setRequired(true)
+              .setAutocomplete(true)
+          })
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('preview')
+          .setDescription('Preview a theme with sample session output')
+          .addStringOption((option) => {
+            return option
+              .setName('name')
+              .setDescription('Theme (default: this channel\'s theme)')
+              .setAutocomplete(true)
+          })
+      })
+      .addSubcommand((sub) => {
+        return sub.setName('list').setDescription('List built-in and custom themes')
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('delete')
+          .setDescription('Delete a custom theme')
+          .addStringOption((option) => {
+            return option
+              .setName('name')
+              .setDescription('Custom theme')
+              .setRequired(true)
+              .setAutocomplete(true)
+          })
+      })
+      .toJSON(),
     new SlashCommandBuilder()
       .setName('restart-opencode-server')
       .setDescription(
@@ -571,168 +971,624 @@ async function registerCommands({
           .setRequired(true)
           .setAutocomplete(true)
       })
-      .addBooleanOption((option) => {
+      .addBooleanOption((option) => {
+        return option
+          .setName('background')
+          .setDescription('Run in background and notify when complete')
+          .setRequired(false)
+      })
+      .addIntegerOption((option) => {
+        return option
+          .setName('timeout')
+          .setDescription('Timeout in seconds (default: 30, max: 300)')
+          .setRequired(false)
+          .setMinValue(1)
+          .setMaxValue(300)
+      })
+      .addStringOption((option) => {
+        return option
+          .setName('directory')
+          .setDescription('Subdirectory to run command in')
+          .setRequired(false)
+      })
+      .toJSON(),
+    new SlashCommandBuilder()
+      .setName('run-config')
+      .setDescription('Configure /run notification and sandbox settings')
+      .addSubcommand((sub) => {
+        return sub
+          .setName('show')
+          .setDescription('Show current notification settings')
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('discord')
+          .setDescription('Toggle Discord notifications')
+          .addBooleanOption((opt) => {
+            return opt
+              .setName('enabled')
+              .setDescription('Enable Discord notifications')
+              .setRequired(true)
+          })
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('system')
+          .setDescription('Toggle system notifications')
+          .addBooleanOption((opt) => {
+            return opt
+              .setName('enabled')
+              .setDescription('Enable system notifications')
+              .setRequired(true)
+          })
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('webhook')
+          .setDescription('Set webhook URL for notifications')
+          .addStringOption((opt) => {
+            return opt
+              .setName('url')
+              .setDescription('Webhook URL (leave empty to clear)')
+              .setRequired(false)
+          })
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('sandbox')
+          .setDescription('Choose where /run executes commands')
+          .addStringOption((opt) => {
+            return opt
+              .setName('backend')
+              .setDescription('host runs directly; the others isolate the project')
+              .setRequired(true)
+              .addChoices(
+                { name: 'host', value: 'host' },
+                { name: 'bubblewrap (Linux namespaces)', value: 'bubblewrap' },
+                { name: 'podman (rootless container)', value: 'podman' },
+                { name: 'docker (container)', value: 'docker' },
+              )
+          })
+          .addBooleanOption((opt) => {
+            return opt
+              .setName('network')
+              .setDescription('Allow network access (default: off)')
+              .setRequired(false)
+          })
+          .addStringOption((opt) => {
+            return opt
+              .setName('writable')
+              .setDescription('Comma separated writable paths, relative to the project (default: ".", or "none")')
+              .setRequired(false)
+          })
+          .addNumberOption((opt) => {
+            return opt
+              .setName('cpus')
+              .setDescription('CPU limit, like 1.5')
+              .setMinValue(0.1)
+              .setRequired(false)
+          })
+          .addIntegerOption((opt) => {
+            return opt
+              .setName('memory')
+              .setDescription('Memory limit in MB')
+              .setMinValue(64)
+              .setRequired(false)
+          })
+          .addStringOption((opt) => {
+            return opt
+              .setName('image')
+              .setDescription('Container image for podman or docker (default: node:lts-slim)')
+              .setRequired(false)
+          })
+      })
+      .toJSON(),
+    new SlashCommandBuilder()
+      .setName('status')
+      .setDescription('Check bot, session and OpenCode server status')
+      .toJSON(),
+    new SlashCommandBuilder()
+      .setName('help')
+      .setDescription('Show available commands')
+      .toJSON(),
+    new SlashCommandBuilder()
+      .setName('ping')
+      .setDescription('Check connection latency')
+      .toJSON(),
+    new SlashCommandBuilder()
+      .setName('context')
+      .setDescription('Show context window usage for current session')
+      .toJSON(),
+    new SlashCommandBuilder()
+      .setName('cost')
+      .setDescription('Show estimated API cost for current session')
+      .toJSON(),
+    new SlashCommandBuilder()
+      .setName('diff')
+      .setDescription('Review uncommitted changes file by file, keep or revert hunks')
+      .toJSON(),
+    new SlashCommandBuilder()
+      .setName('export')
+      .setDescription('Export sessions as Markdown, JSON or HTML')
+      .addStringOption((option) => {
+        return option
+          .setName('format')
+          .setDescription('File format (default: markdown)')
+          .addChoices(
+            { name: 'Markdown', value: 'markdown' },
+            { name: 'Markdown with full tool I/O', value: 'markdown-full' },
+            { name: 'JSON (lossless)', value: 'json' },
+            { name: 'HTML transcript', value: 'html' },
+          )
+      })
+      .addStringOption((option) => {
+        return option
+          .setName('scope')
+          .setDescription('Export this thread or the whole project channel')
+          .addChoices(
+            { name: 'This thread', value: 'thread' },
+            { name: 'Whole channel', value: 'channel' },
+          )
+      })
+      .addStringOption((option) => {
+        return option
+          .setName('since')
+          .setDescription('Start date like 2025-01-31, or relative like 7d')
+      })
+      .addStringOption((option) => {
+        return option
+          .setName('until')
+          .setDescription('End date like 2025-01-31 (inclusive), or relative like 1d')
+      })
+      .toJSON(),
+    new SlashCommandBuilder()
+      .setName('import')
+      .setDescription('Import a JSON export from /export into a new session')
+      .addAttachmentOption((option) => {
+        return option
+          .setName('file')
+          .setDescription('JSON file created with /export format:json')
+          .setRequired(true)
+      })
+      .addStringOption((option) => {
+        return option
+          .setName('session')
+          .setDescription('Session ID to import when the export has several')
+      })
+      .toJSON(),
+    new SlashCommandBuilder()
+      .setName('files')
+      .setDescription('List project files')
+      .toJSON(),
+    new SlashCommandBuilder()
+      .setName('settings')
+      .setDescription('Configure bot settings')
+      .addSubcommand((sub) => {
+        return sub
+          .setName('hub-channel')
+          .setDescription(
+            'Set the central notification channel for session completions',
+          )
+          .addChannelOption((opt) => {
+            return opt
+              .setName('channel')
+              .setDescription('The channel to receive notifications')
+              .setRequired(false)
+          })
+          .addBooleanOption((opt) => {
+            return opt
+              .setName('clear')
+              .setDescription('Clear the hub channel setting')
+              .setRequired(false)
+          })
+      })
+      .addSubcommand((sub) => {
+        return sub.setName('view').setDescription('View current bot settings')
+      })
+      .toJSON(),
+    new SlashCommandBuilder()
+      .setName('schedule')
+      .setDescription('Schedule a message to run later')
+      .addSubcommand((sub) => {
+        return sub
+          .setName('add')
+          .setDescription('Schedule a new message')
+          .addStringOption((opt) => {
+            return opt
+              .setName('time')
+              .setDescription('When to run (e.g., 30m, 2h, 3:00pm)')
+              .setRequired(true)
+          })
+          .addStringOption((opt) => {
+            return opt
+              .setName('prompt')
+              .setDescription('The message/prompt to schedule')
+              .setRequired(false)
+          })
+          .addStringOption((opt) => {
+            return opt
+              .setName('template')
+              .setDescription('Saved template to use as the prompt')
+              .setAutocomplete(true)
+              .setRequired(false)
+          })
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('repeat')
+          .setDescription('Schedule a recurring message')
+          .addStringOption((opt) => {
+            return opt
+              .setName('when')
+              .setDescription(
+                'Preset (every weekday at 09:00, daily at 9pm) or cron (0 2 * * *)',
+              )
+              .setRequired(true)
+          })
+          .addStringOption((opt) => {
+            return opt
+              .setName('prompt')
+              .setDescription('The message/prompt to run on every occurrence')
+              .setRequired(false)
+          })
+          .addStringOption((opt) => {
+            return opt
+              .setName('template')
+              .setDescription('Saved template to use as the prompt')
+              .setAutocomplete(true)
+              .setRequired(false)
+          })
+          .addStringOption((opt) => {
+            return opt
+              .setName('timezone')
+              .setDescription(
+                'IANA time zone, e.g. Europe/Berlin (defaults to bot host time zone)',
+              )
+              .setRequired(false)
+          })
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('list')
+          .setDescription('List pending and paused schedules in this channel')
+          .addBooleanOption((opt) => {
+            return opt
+              .setName('all')
+              .setDescription('List all pending schedules in the server')
+              .setRequired(false)
+          })
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('cancel')
+          .setDescription('Cancel a scheduled message')
+          .addIntegerOption((opt) => {
+            return opt
+              .setName('id')
+              .setDescription('Schedule ID to cancel')
+              .setRequired(true)
+          })
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('pause')
+          .setDescription('Pause a recurring schedule')
+          .addIntegerOption((opt) => {
+            return opt
+              .setName('id')
+              .setDescription('Schedule ID to pause')
+              .setRequired(true)
+          })
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('resume')
+          .setDescription('Resume a paused recurring schedule')
+          .addIntegerOption((opt) => {
+            return opt
+              .setName('id')
+              .setDescription('Schedule ID to resume')
+              .setRequired(true)
+          })
+      })
+      .toJSON(),
+    new SlashCommandBuilder()
+      .setName('template')
+      .setDescription('Save and run prompt templates with {{placeholders}}')
+      .addSubcommand((sub) => {
+        return sub
+          .setName('run')
+          .setDescription('Start a session from a template, filling in its placeholders')
+          .addStringOption((opt) => {
+            return opt
+              .setName('name')
+              .setDescription('Template name')
+              .setAutocomplete(true)
+              .setRequired(true)
+          })
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('add')
+          .setDescription('Create a template (opens a form for the prompt)')
+          .addStringOption((opt) => {
+            return opt
+              .setName('name')
+              .setDescription('Template name (lowercase letters, digits, - and _)')
+              .setMaxLength(32)
+              .setRequired(true)
+          })
+          .addBooleanOption((opt) => {
+            return opt
+              .setName('global')
+              .setDescription('Make the template usable in every channel')
+              .setRequired(false)
+          })
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('edit')
+          .setDescription('Edit a template')
+          .addStringOption((opt) => {
+            return opt
+              .setName('name')
+              .setDescription('Template name')
+              .setAutocomplete(true)
+              .setRequired(true)
+          })
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('list')
+          .setDescription('List templates of this channel and global ones')
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('delete')
+          .setDescription('Delete a template')
+          .addStringOption((opt) => {
+            return opt
+              .setName('name')
+              .setDescription('Template name')
+              .setAutocomplete(true)
+              .setRequired(true)
+          })
+      })
+      .toJSON(),
+    new SlashCommandBuilder()
+      .setName('access')
+      .setDescription('Configure role-based access to Disunday (admin only)')
+      .addSubcommand((sub) => {
+        return sub
+          .setName('role')
+          .setDescription('Set the access level of a role in this channel')
+          .addRoleOption((opt) => {
+            return opt
+              .setName('role')
+              .setDescription('Role to configure')
+              .setRequired(true)
+          })
+          .addStringOption((opt) => {
+            return opt
+              .setName('level')
+              .setDescription('Access level (or reset to remove the policy)')
+              .setRequired(true)
+              .addChoices(
+                { name: 'none - no access', value: 'none' },
+                { name: 'read - status and info commands', value: 'read' },
+                { name: 'prompt - start and steer sessions', value: 'prompt' },
+                { name: 'admin - everything', value: 'admin' },
+                { name: 'reset - use default', value: 'reset' },
+              )
+          })
+          .addBooleanOption((opt) => {
+            return opt
+              .setName('server-wide')
+              .setDescription('Apply to every channel instead of this one')
+              .setRequired(false)
+          })
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('command')
+          .setDescription('Restrict a command to specific roles')
+          .addStringOption((opt) => {
+            return opt
+              .setName('command')
+              .setDescription('Command name without slash, e.g. run or merge-worktree')
+              .setRequired(true)
+          })
+          .addRoleOption((opt) => {
+            return opt
+              .setName('role')
+              .setDescription('Role allowed to use the command (omit with remove to clear all)')
+              .setRequired(false)
+          })
+          .addBooleanOption((opt) => {
+            return opt
+              .setName('remove')
+              .setDescription('Remove the role from the command policy')
+              .setRequired(false)
+          })
+          .addBooleanOption((opt) => {
+            return opt
+              .setName('server-wide')
+              .setDescription('Apply to every channel instead of this one')
+              .setRequired(false)
+          })
+      })
+      .addSubcommand((sub) => {
+        return sub
+          .setName('view')
+          .setDescription('Show access policies that apply in this channel')
+      })
+      .toJSON(),
+    new SlashCommandBuilder()
+      .setName('audit')
+      .setDescription(
+        'Show audit events (prompts, permissions, runs, merges, aborts)',
+      )
+      .addStringOption((option) => {
+        return option
+          .setName('type')
+          .setDescription('Only show one event type')
+          .setRequired(false)
+          .addChoices(
+            { name: 'prompt', value: 'prompt' },
+            { name: 'permission', value: 'permission' },
+            { name: 'run', value: 'run' },
+            { name: 'merge', value: 'merge' },
+            { name: 'abort', value: 'abort' },
+          )
+      })
+      .addUserOption((option) => {
         return option
-          .setName('background')
-          .setDescription('Run in background and notify when complete')
+          .setName('user')
+          .setDescription('Only show events from this user')
           .setRequired(false)
       })
       .addIntegerOption((option) => {
         return option
-          .setName('timeout')
-          .setDescription('Timeout in seconds (default: 30, max: 300)')
-          .setRequired(false)
+          .setName('limit')
+          .setDescription('Number of events to show (default 20)')
           .setMinValue(1)
-          .setMaxValue(300)
+          .setMaxValue(100)
+          .setRequired(false)
       })
       .addStringOption((option) => {
         return option
-          .setName('directory')
-          .setDescription('Subdirectory to run command in')
+          .setName('format')
+          .setDescription('Attach events as a file instead of listing them')
+          .setRequired(false)
+          .addChoices(
+            { name: 'JSONL', value: 'jsonl' },
+            { name: 'CSV', value: 'csv' },
+          )
+      })
+      .addBooleanOption((option) => {
+        return option
+          .setName('all')
+          .setDescription('Include events from all channels')
           .setRequired(false)
       })
       .toJSON(),
     new SlashCommandBuilder()
-      .setName('run-config')
-      .setDescription('Configure /run notification settings')
-      .addSubcommand((sub) => {
-        return sub
-          .setName('show')
-          .setDescription('Show current notification settings')
-      })
+      .setName('budget')
+      .setDescription('Manage daily and monthly spending budgets (admin only)')
       .addSubcommand((sub) => {
         return sub
-          .setName('discord')
-          .setDescription('Toggle Discord notifications')
-          .addBooleanOption((opt) => {
+          .setName('set')
+          .setDescription(
+            'Set a budget (global, or for a user or channel if given)',
+          )
+          .addStringOption((opt) => {
             return opt
-              .setName('enabled')
-              .setDescription('Enable Discord notifications')
+              .setName('period')
+              .setDescription('Budget period')
               .setRequired(true)
+              .addChoices(
+                { name: 'daily', value: 'daily' },
+                { name: 'monthly', value: 'monthly' },
+              )
           })
-      })
-      .addSubcommand((sub) => {
-        return sub
-          .setName('system')
-          .setDescription('Toggle system notifications')
-          .addBooleanOption((opt) => {
+          .addNumberOption((opt) => {
             return opt
-              .setName('enabled')
-              .setDescription('Enable system notifications')
+              .setName('limit')
+              .setDescription('Limit in USD')
+              .setMinValue(0.01)
               .setRequired(true)
           })
-      })
-      .addSubcommand((sub) => {
-        return sub
-          .setName('webhook')
-          .setDescription('Set webhook URL for notifications')
-          .addStringOption((opt) => {
+          .addUserOption((opt) => {
             return opt
-              .setName('url')
-              .setDescription('Webhook URL (leave empty to clear)')
+              .setName('user')
+              .setDescription('Apply the budget to this user')
               .setRequired(false)
           })
-      })
-      .toJSON(),
-    new SlashCommandBuilder()
-      .setName('status')
-      .setDescription('Check bot and session status')
-      .toJSON(),
-    new SlashCommandBuilder()
-      .setName('help')
-      .setDescription('Show available commands')
-      .toJSON(),
-    new SlashCommandBuilder()
-      .setName('ping')
-      .setDescription('Check connection latency')
-      .toJSON(),
-    new SlashCommandBuilder()
-      .setName('context')
-      .setDescription('Show context window usage for current session')
-      .toJSON(),
-    new SlashCommandBuilder()
-      .setName('cost')
-      .setDescription('Show estimated API cost for current session')
-      .toJSON(),
-    new SlashCommandBuilder()
-      .setName('diff')
-      .setDescription('Show recent file changes in project')
-      .toJSON(),
-    new SlashCommandBuilder()
-      .setName('export')
-      .setDescription('Export session to markdown file')
-      .toJSON(),
-    new SlashCommandBuilder()
-      .setName('files')
-      .setDescription('List project files')
-      .toJSON(),
-    new SlashCommandBuilder()
-      .setName('settings')
-      .setDescription('Configure bot settings')
-      .addSubcommand((sub) => {
-        return sub
-          .setName('hub-channel')
-          .setDescription(
-            'Set the central notification channel for session completions',
-          )
           .addChannelOption((opt) => {
             return opt
               .setName('channel')
-              .setDescription('The channel to receive notifications')
+              .setDescription('Apply the budget to this project channel')
+              .addChannelTypes(ChannelType.GuildText)
               .setRequired(false)
           })
-          .addBooleanOption((opt) => {
+          .addIntegerOption((opt) => {
             return opt
-              .setName('clear')
-              .setDescription('Clear the hub channel setting')
+              .setName('warn-percent')
+              .setDescription('Warn when spend reaches this percentage (default 80)')
+              .setMinValue(1)
+              .setMaxValue(100)
               .setRequired(false)
           })
+          .addStringOption((opt) => {
+            return opt
+              .setName('action')
+              .setDescription('What happens when the budget is exceeded')
+              .setRequired(false)
+              .addChoices(
+                { name: 'refuse new prompts', value: 'refuse' },
+                { name: 'abort running sessions and refuse new prompts', value: 'abort' },
+              )
+          })
       })
-      .addSubcommand((sub) => {
-        return sub.setName('view').setDescription('View current bot settings')
-      })
-      .toJSON(),
-    new SlashCommandBuilder()
-      .setName('schedule')
-      .setDescription('Schedule a message to run later')
       .addSubcommand((sub) => {
         return sub
-          .setName('add')
-          .setDescription('Schedule a new message')
+          .setName('remove')
+          .setDescription('Remove a budget')
           .addStringOption((opt) => {
             return opt
-              .setName('prompt')
-              .setDescription('The message/prompt to schedule')
+              .setName('period')
+              .setDescription('Budget period')
               .setRequired(true)
+              .addChoices(
+                { name: 'daily', value: 'daily' },
+                { name: 'monthly', value: 'monthly' },
+              )
           })
-          .addStringOption((opt) => {
+          .addUserOption((opt) => {
             return opt
-              .setName('time')
-              .setDescription('When to run (e.g., 30m, 2h, 3:00pm)')
-              .setRequired(true)
+              .setName('user')
+              .setDescription('Remove the budget for this user')
+              .setRequired(false)
           })
-      })
-      .addSubcommand((sub) => {
-        return sub
-          .setName('list')
-          .setDescription('List pending schedules in this channel')
-          .addBooleanOption((opt) => {
+          .addChannelOption((opt) => {
             return opt
-              .setName('all')
-              .setDescription('List all pending schedules in the server')
+              .setName('channel')
+              .setDescription('Remove the budget for this channel')
+              .addChannelTypes(ChannelType.GuildText)
               .setRequired(false)
           })
       })
       .addSubcommand((sub) => {
         return sub
-          .setName('cancel')
-          .setDescription('Cancel a scheduled message')
-          .addIntegerOption((opt) => {
-            return opt
-              .setName('id')
-              .setDescription('Schedule ID to cancel')
-              .setRequired(true)
-          })
+          .setName('view')
+          .setDescription('Show budgets and current spend')
+      })
+      .toJSON(),
+    new SlashCommandBuilder()
+      .setName('stats')
+      .setDescription(
+        'Show sessions, tokens, cost, models and tool usage over time',
+      )
+      .addStringOption((option) => {
+        return option
+          .setName('window')
+          .setDescription('Time window (default: 7d)')
+          .addChoices(
+            { name: 'Last 24 hours', value: '24h' },
+            { name: 'Last 7 days', value: '7d' },
+            { name: 'Last 30 days', value: '30d' },
+            { name: 'All time', value: 'all' },
+          )
+      })
+      .addStringOption((option) => {
+        return option
+          .setName('group-by')
+          .setDescription('How to group the breakdown (default: project)')
+          .addChoices(
+            { name: 'Project', value: 'project' },
+            { name: 'User', value: 'user' },
+            { name: 'Day', value: 'day' },
+          )
       })
       .toJSON(),
   ]
@@ -911,6 +1767,62 @@ function showReadyMessage({
  * Background initialization for quick start mode.
  * Starts OpenCode server and registers slash commands without blocking bot startup.
  */
+/**
+ * Ensure the Disunday role exists in a guild and list the project channels
+ * that belong to the bot.
+ */
+async function prepareGuild({
+  guild,
+  appId,
+}: {
+  guild: Guild
+  appId: string
+}): Promise<{ guild: Guild; channels: ChannelWithTags[] }> {
+  // Create Disunday role if it doesn't exist, or fix its position (fire-and-forget)
+  guild.roles
+    .fetch()
+    .then(async (roles) => {
+      const existingRole = roles.find(
+        (role) => role.name.toLowerCase() === 'disunday',
+      )
+      if (existingRole) {
+        // Move to bottom if not already there
+        if (existingRole.position > 1) {
+          await existingRole.setPosition(1)
+          cliLogger.info(
+            `Moved "Disunday" role to bottom in ${guild.name}`,
+          )
+        }
+        return
+      }
+      return guild.roles.create({
+        name: 'Disunday',
+        position: 1, // Place at bottom so anyone with Manage Roles can assign it
+        reason:
+          'Disunday bot permission role - assign to users who can start sessions, send messages in threads, and use voice features',
+      })
+    })
+    .then((role) => {
+      if (role) {
+        cliLogger.info(`Created "Disunday" role in ${guild.name}`)
+      }
+    })
+    .catch((error) => {
+      cliLogger.warn(
+        `Could not create Disunday role in ${guild.name}: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    })
+
+  const channels = await getChannelsWithDescriptions(guild)
+  const disundayChans = channels.filter(
+    (ch) =>
+      ch.disundayDirectory &&
+      (!ch.disundayApp || ch.disundayApp === appId),
+  )
+
+  return { guild, channels: disundayChans }
+}
+
 async function backgroundInit({
   currentDir,
   token,
@@ -964,11 +1876,82 @@ async function backgroundInit({
   }
 }
 
+/**
+ * Start every other saved bot in this process. Each bot logs in with its own
+ * client and keeps its own channels, settings and rate limits; all of them
+ * share the OpenCode servers started for their projects.
+ */
+async function startOtherSavedBots({
+  primaryAppId,
+  currentDir,
+  useWorktrees,
+}: {
+  primaryAppId: string
+  currentDir: string
+  useWorktrees?: boolean
+}): Promise<string[]> {
+  const db = getDatabase()
+  const bots = db
+    .prepare(
+      'SELECT app_id, token FROM bot_tokens WHERE app_id != ? ORDER BY created_at DESC',
+    )
+    .all(primaryAppId) as { app_id: string; token: string }[]
+
+  const started: string[] = []
+  for (const { app_id: appId, token } of bots) {
+    const discordClient = await createDiscordClient()
+    const ready = await errore.tryAsync({
+      try: () => {
+        return new Promise<Client<true>>((resolve, reject) => {
+          discordClient.once(Events.ClientReady, resolve)
+          discordClient.once(Events.Error, reject)
+          discordClient.login(token).catch(reject)
+        })
+      },
+      catch: (e) => e as Error,
+    })
+    if (ready instanceof Error) {
+      cliLogger.error(`Failed to connect bot ${appId}: ${ready.message}`)
+      discordClient.destroy()
+      continue
+    }
+
+    const guildResults = await Promise.all(
+      Array.from(ready.guilds.cache.values()).map((guild) => {
+        return prepareGuild({ guild, appId })
+      }),
+    )
+    storeChannelDirectories({
+      disundayChannels: guildResults.filter((result) => {
+        return result.channels.length > 0
+      }),
+      db,
+    })
+
+    const bot = await errore.tryAsync({
+      try: () => startDiscordBot({ token, appId, discordClient, useWorktrees }),
+      catch: (e) => e as Error,
+    })
+    if (bot instanceof Error) {
+      cliLogger.error(`Failed to start bot ${appId}: ${bot.message}`)
+      // Leave the bots that did start untouched
+      stopDiscordBot(appId)
+      void discordClient.destroy()
+      continue
+    }
+    void backgroundInit({ currentDir, token, appId })
+    started.push(appId)
+  }
+  return started
+}
+
 async function run({
   restart,
   addChannels,
   useWorktrees,
   enableVoiceChannels,
+  apiPort,
+  allBots,
 }: CliOptions) {
   startCaffeinate()
 
@@ -1229,50 +2212,8 @@ async function run({
 
         // Process all guilds in parallel for faster startup
         const guildResults = await Promise.all(
-          guilds.map(async (guild) => {
-            // Create Disunday role if it doesn't exist, or fix its position (fire-and-forget)
-            guild.roles
-              .fetch()
-              .then(async (roles) => {
-                const existingRole = roles.find(
-                  (role) => role.name.toLowerCase() === 'disunday',
-                )
-                if (existingRole) {
-                  // Move to bottom if not already there
-                  if (existingRole.position > 1) {
-                    await existingRole.setPosition(1)
-                    cliLogger.info(
-                      `Moved "Disunday" role to bottom in ${guild.name}`,
-                    )
-                  }
-                  return
-                }
-                return guild.roles.create({
-                  name: 'Disunday',
-                  position: 1, // Place at bottom so anyone with Manage Roles can assign it
-                  reason:
-                    'Disunday bot permission role - assign to users who can start sessions, send messages in threads, and use voice features',
-                })
-              })
-              .then((role) => {
-                if (role) {
-                  cliLogger.info(`Created "Disunday" role in ${guild.name}`)
-                }
-              })
-              .catch((error) => {
-                cliLogger.warn(
-                  `Could not create Disunday role in ${guild.name}: ${error instanceof Error ? error.message : String(error)}`,
-                )
-              })
-
-            const channels = await getChannelsWithDescriptions(guild)
-            const disundayChans = channels.filter(
-              (ch) =>
-                ch.disundayDirectory &&
-                (!ch.disundayApp || ch.disundayApp === appId),
-            )
-
-            return { guild, channels: disundayChans }
+          guilds.map((guild) => {
+            return prepareGuild({ guild, appId })
           }),
         )
 
@@ -1328,12 +2269,28 @@ async function run({
   const isQuickStart = existingBot && !forceSetup && !addChannels
   if (isQuickStart) {
     s.start('Starting Discord bot...')
-    await startDiscordBot({ token, appId, discordClient, useWorktrees })
+    await startDiscordBot({
+      token,
+      appId,
+      discordClient,
+      useWorktrees,
+      apiPort,
+    })
     s.stop('Discord bot is running!')
 
     // Background: OpenCode init + slash command registration (non-blocking)
     void backgroundInit({ currentDir, token, appId })
 
+    if (allBots) {
+      s.start('Starting other saved bots...')
+      const started = await startOtherSavedBots({
+        primaryAppId: appId,
+        currentDir,
+        useWorktrees,
+      })
+      s.stop(`Started ${started.length} other bot(s)`)
+    }
+
     showReadyMessage({ disundayChannels, createdChannels, appId })
     outro('✨ Bot ready! Listening for messages...')
     return
@@ -1531,9 +2488,25 @@ async function run({
     })
 
   s.start('Starting Discord bot...')
-  await startDiscordBot({ token, appId, discordClient, useWorktrees })
+  await startDiscordBot({
+    token,
+    appId,
+    discordClient,
+    useWorktrees,
+    apiPort,
+  })
   s.stop('Discord bot is running!')
 
+  if (allBots) {
+    s.start('Starting other saved bots...')
+    const started = await startOtherSavedBots({
+      primaryAppId: appId,
+      currentDir,
+      useWorktrees,
+    })
+    s.stop(`Started ${started.length} other bot(s)`)
+  }
+
   showReadyMessage({ disundayChannels, createdChannels, appId })
   outro(
     '✨ Setup complete! Listening for new messages... do not close this process.',
@@ -1560,10 +2533,30 @@ cli
     '--enable-voice-channels',
     'Create voice channels for projects (disabled by default)',
   )
+  .option(
+    '--api-port <port>',
+    'Start the local HTTP API on this port (tokens: disunday api-token create)',
+  )
   .option(
     '--verbosity <level>',
     'Default verbosity for all channels (tools-and-text, text-and-essential-tools, or text-only)',
   )
+  .option(
+    '--display-mode <mode>',
+    'Default display mode for all channels (stream or live)',
+  )
+  .option(
+    '--max-servers <count>',
+    'Maximum OpenCode servers running at once; least recently used idle ones are stopped (default: 8)',
+  )
+  .option(
+    '--server-idle-minutes <minutes>',
+    'Stop OpenCode servers with no running session after this many idle minutes (default: 30)',
+  )
+  .option(
+    '--all-bots',
+    'Also start every other saved bot in this process (list them with: disunday bots list)',
+  )
   .action(
     async (options: {
       restart?: boolean
@@ -1573,6 +2566,11 @@ cli
       useWorktrees?: boolean
       enableVoiceChannels?: boolean
       verbosity?: string
+      displayMode?: string
+      apiPort?: string
+      allBots?: boolean
+      maxServers?: string
+      serverIdleMinutes?: string
     }) => {
       try {
         // Set data directory early, before any database access
@@ -1593,13 +2591,54 @@ cli
             )
             process.exit(EXIT_NO_RESTART)
           }
-          setDefaultVerbosity(
-            options.verbosity as
-              | 'tools-and-text'
-              | 'text-and-essential-tools'
-              | 'text-only',
-          )
-          cliLogger.log(`Default verbosity: ${options.verbosity}`)
+          setDefaultVerbosity(
+            options.verbosity as
+              | 'tools-and-text'
+              | 'text-and-essential-tools'
+              | 'text-only',
+          )
+          cliLogger.log(`Default verbosity: ${options.verbosity}`)
+        }
+
+        if (options.displayMode) {
+          const validModes = ['stream', 'live']
+          if (!validModes.includes(options.displayMode)) {
+            cliLogger.error(
+              `Invalid display mode: ${options.displayMode}. Use one of: ${validModes.join(', ')}`,
+            )
+            process.exit(EXIT_NO_RESTART)
+          }
+          setDefaultDisplayMode(options.displayMode as 'stream' | 'live')
+          cliLogger.log(`Default display mode: ${options.displayMode}`)
+        }
+
+        const apiPort =
+          options.apiPort !== undefined ? Number(options.apiPort) : undefined
+        if (
+          apiPort !== undefined &&
+          (!Number.isInteger(apiPort) || apiPort < 1 || apiPort > 65535)
+        ) {
+          cliLogger.error(`Invalid API port: ${options.apiPort}`)
+          process.exit(EXIT_NO_RESTART)
+        }
+
+        if (options.maxServers !== undefined) {
+          const maxServers = Number(options.maxServers)
+          if (!Number.isInteger(maxServers) || maxServers < 1) {
+            cliLogger.error(`Invalid server count: ${options.maxServers}`)
+            process.exit(EXIT_NO_RESTART)
+          }
+          setOpencodePoolConfig({ maxServers })
+        }
+        if (options.serverIdleMinutes !== undefined) {
+          const idleMinutes = Number(options.serverIdleMinutes)
+          if (!Number.isFinite(idleMinutes) || idleMinutes <= 0) {
+            cliLogger.error(
+              `Invalid idle timeout: ${options.serverIdleMinutes} minutes`,
+            )
+            process.exit(EXIT_NO_RESTART)
+          }
+          setOpencodePoolConfig({ idleTimeoutMs: idleMinutes * 60 * 1000 })
         }
 
         await migrateFromLegacy()
@@ -1631,6 +2670,8 @@ cli
           dataDir: options.dataDir,
           useWorktrees: options.useWorktrees,
           enableVoiceChannels: options.enableVoiceChannels,
+          apiPort,
+          allBots: options.allBots,
         })
       } catch (error) {
         cliLogger.error(
@@ -2177,6 +3218,155 @@ cli
     },
   )
 
+cli
+  .command(
+    'import <file>',
+    'Import a JSON session export into a new session and Discord thread',
+  )
+  .option('-c, --channel <channelId>', 'Discord project channel ID')
+  .option(
+    '-d, --project <path>',
+    'Project directory (alternative to --channel, default: current directory)',
+  )
+  .option(
+    '-s, --session <sessionId>',
+    'Session ID to import when the export has several',
+  )
+  .option(
+    '--data-dir <path>',
+    'Data directory for config and database (default: ~/.disunday)',
+  )
+  .action(
+    async (
+      file: string,
+      options: {
+        channel?: string
+        project?: string
+        session?: string
+        dataDir?: string
+      },
+    ) => {
+      try {
+        if (options.dataDir) {
+          setDataDir(options.dataDir)
+        }
+
+        const filePath = path.resolve(file)
+        if (!fs.existsSync(filePath)) {
+          cliLogger.error(`File not found: ${filePath}`)
+          process.exit(EXIT_NO_RESTART)
+        }
+        const sessions = parseSessionExport(fs.readFileSync(filePath, 'utf-8'))
+        if (sessions instanceof Error) {
+          cliLogger.error(sessions.message)
+          process.exit(EXIT_NO_RESTART)
+        }
+        const exported = selectImportSession({
+          sessions,
+          sessionId: options.session ? String(options.session) : undefined,
+        })
+        if (exported instanceof Error) {
+          cliLogger.error(exported.message)
+          process.exit(EXIT_NO_RESTART)
+        }
+
+        // Read the raw channel ID from argv, cac loses precision on large numbers
+        let channelId = options.channel
+        const channelArgIndex = process.argv.findIndex(
+          (arg) => arg === '--channel' || arg === '-c',
+        )
+        if (channelId && channelArgIndex !== -1 && process.argv[channelArgIndex + 1]) {
+          channelId = process.argv[channelArgIndex + 1]
+        }
+
+        const db = getDatabase()
+        if (!channelId) {
+          // Walk up from the project directory to the registered project
+          let searchPath = path.resolve(options.project || process.cwd())
+          while (!channelId && searchPath !== path.dirname(searchPath)) {
+            const row = db
+              .prepare(
+                'SELECT channel_id FROM channel_directories WHERE directory = ? AND channel_type = ?',
+              )
+              .get(searchPath, 'text') as { channel_id: string } | undefined
+            channelId = row?.channel_id
+            searchPath = path.dirname(searchPath)
+          }
+        }
+        const channelConfig = channelId ? getChannelDirectory(channelId) : undefined
+        if (!channelId || !channelConfig) {
+          cliLogger.error(
+            'No project channel found. Use --channel or run from a project directory added with `disunday add-project`.',
+          )
+          process.exit(EXIT_NO_RESTART)
+        }
+
+        const botRow = (
+          channelConfig.appId
+            ? db
+                .prepare('SELECT app_id, token FROM bot_tokens WHERE app_id = ?')
+                .get(channelConfig.appId)
+            : db
+                .prepare(
+                  'SELECT app_id, token FROM bot_tokens ORDER BY created_at DESC LIMIT 1',
+                )
+                .get()
+        ) as { app_id: string; token: string } | undefined
+        if (!botRow) {
+          cliLogger.error(
+            'No bot credentials found. Run `disunday` first to set up the bot.',
+          )
+          process.exit(EXIT_NO_RESTART)
+        }
+
+        const s = spinner()
+        s.start('Connecting to Discord...')
+        const client = await createDiscordClient()
+        await new Promise<void>((resolve, reject) => {
+          client.once(Events.ClientReady, () => {
+            resolve()
+          })
+          client.once(Events.Error, reject)
+          client.login(botRow.token).catch(reject)
+        })
+
+        const channel = await client.channels.fetch(channelId)
+        if (!channel || channel.type !== ChannelType.GuildText) {
+          s.stop('Channel not found')
+          client.destroy()
+          cliLogger.error(`Channel ${channelId} is not a text channel this bot can see`)
+          process.exit(EXIT_NO_RESTART)
+        }
+
+        s.message(`Importing ${exported.messages.length} messages...`)
+        const result = await importSessionToChannel({ channel, exported })
+        for (const server of getOpencodeServers().values()) {
+          server.process.kill('SIGTERM')
+        }
+        client.destroy()
+        if (result instanceof Error) {
+          s.stop('Import failed')
+          cliLogger.error(result.message)
+          process.exit(EXIT_NO_RESTART)
+        }
+        s.stop('Session imported!')
+
+        const threadUrl = `https://discord.com/channels/${channel.guildId}/${result.thread.id}`
+        note(
+          `Session: ${exported.session?.title || 'Untitled'}\nNew session: ${result.sessionId}\nDirectory: ${channelConfig.directory}\n\nURL: ${threadUrl}`,
+          '✅ Session Imported',
+        )
+        process.exit(0)
+      } catch (error) {
+        cliLogger.error(
+          'Error:',
+          error instanceof Error ? error.message : String(error),
+        )
+        process.exit(EXIT_NO_RESTART)
+      }
+    },
+  )
+
 cli
   .command(
     'add-project [directory]',
@@ -2413,5 +3603,300 @@ cli
     },
   )
 
+function parseDateOption(value: string, name: string): number {
+  const timestamp = Date.parse(value)
+  if (Number.isNaN(timestamp)) {
+    cliLogger.error(`Invalid ${name} date: ${value}. Use ISO format, e.g. 2025-01-31`)
+    process.exit(EXIT_NO_RESTART)
+  }
+  return timestamp
+}
+
+cli
+  .command(
+    'audit [action]',
+    'Export the audit log (prompts, permission decisions, /run, merges, aborts)',
+  )
+  .option('-f, --format <format>', 'Output format: jsonl or csv', {
+    default: 'jsonl',
+  })
+  .option(
+    '-o, --output <file>',
+    'Output file (default: ./disunday-audit-<date>.<format>)',
+  )
+  .option('--type <type>', 'Only export one event type')
+  .option('--user <userId>', 'Only export events from this Discord user ID')
+  .option('--channel <channelId>', 'Only export events from this channel')
+  .option('--thread <threadId>', 'Only export events from this thread')
+  .option('--since <date>', 'Only export events at or after this date')
+  .option('--until <date>', 'Only export events before this date')
+  .option(
+    '--data-dir <path>',
+    'Data directory for config and database (default: ~/.disunday)',
+  )
+  .action(
+    async (
+      action: string | undefined,
+      options: {
+        format: string
+        output?: string
+        type?: string
+        user?: string
+        channel?: string
+        thread?: string
+        since?: string
+        until?: string
+        dataDir?: string
+      },
+    ) => {
+      if (action !== 'export') {
+        cliLogger.error(
+          'Usage: disunday audit export [--format jsonl|csv] [--output file]',
+        )
+        process.exit(EXIT_NO_RESTART)
+      }
+
+      if (options.format !== 'jsonl' && options.format !== 'csv') {
+        cliLogger.error(`Invalid format: ${options.format}. Use jsonl or csv`)
+        process.exit(EXIT_NO_RESTART)
+      }
+
+      if (options.type && !isAuditEventType(options.type)) {
+        cliLogger.error(
+          `Invalid type: ${options.type}. Use one of: ${AUDIT_EVENT_TYPES.join(', ')}`,
+        )
+        process.exit(EXIT_NO_RESTART)
+      }
+
+      try {
+        if (options.dataDir) {
+          setDataDir(options.dataDir)
+        }
+
+        const events = getAuditEvents({
+          eventType:
+            options.type && isAuditEventType(options.type)
+              ? options.type
+              : undefined,
+          userId: options.user,
+          channelId: options.channel,
+          threadId: options.thread,
+          since: options.since
+            ? parseDateOption(options.since, 'since')
+            : undefined,
+          until: options.until
+            ? parseDateOption(options.until, 'until')
+            : undefined,
+        }).reverse()
+
+        const content =
+          options.format === 'csv'
+            ? formatAuditEventsAsCsv(events)
+            : formatAuditEventsAsJsonl(events)
+
+        // Written to a file because database logs also go to stdout
+        const outputPath = path.resolve(
+          options.output ||
+            `disunday-audit-${new Date().toISOString().slice(0, 10)}.${options.format}`,
+        )
+        fs.writeFileSync(outputPath, content ? content + '\n' : '')
+        note(
+          `Exported ${events.length} audit event${events.length === 1 ? '' : 's'}\n\nFile: ${outputPath}`,
+          '✅ Success',
+        )
+        process.exit(0)
+      } catch (error) {
+        cliLogger.error(
+          'Error:',
+          error instanceof Error ? error.message : String(error),
+        )
+        process.exit(EXIT_NO_RESTART)
+      }
+    },
+  )
+
+cli
+  .command(
+    'stats',
+    'Show sessions, tokens, cost, models, agents and tool usage statistics',
+  )
+  .option('-w, --window <window>', 'Time window: 24h, 7d, 30d or all', {
+    default: '7d',
+  })
+  .option('-g, --group-by <group>', 'Group by project, user or day', {
+    default: 'project',
+  })
+  .option(
+    '--data-dir <path>',
+    'Data directory for config and database (default: ~/.disunday)',
+  )
+  .action(
+    async (options: { window: string; groupBy: string; dataDir?: string }) => {
+      if (!isStatsWindow(options.window)) {
+        cliLogger.error(
+          `Invalid window: ${options.window}. Use one of: ${Object.keys(STATS_WINDOWS).join(', ')}`,
+        )
+        process.exit(EXIT_NO_RESTART)
+      }
+
+      const groupBy = options.groupBy
+      if (groupBy !== 'project' && groupBy !== 'user' && groupBy !== 'day') {
+        cliLogger.error(
+          `Invalid group: ${options.groupBy}. Use project, user or day`,
+        )
+        process.exit(EXIT_NO_RESTART)
+      }
+
+      try {
+        if (options.dataDir) {
+          setDataDir(options.dataDir)
+        }
+
+        const report = getStatsReport({ window: options.window, groupBy })
+        console.log(formatStatsReportText(report))
+        process.exit(0)
+      } catch (error) {
+        cliLogger.error(
+          'Error:',
+          error instanceof Error ? error.message : String(error),
+        )
+        process.exit(EXIT_NO_RESTART)
+      }
+    },
+  )
+
+cli
+  .command(
+    'api-token <action> [id]',
+    'Manage local HTTP API tokens (create, list, revoke)',
+  )
+  .option('-p, --project <path>', 'Project directory the token is scoped to')
+  .option('-l, --label <label>', 'Label shown in threads and the audit log')
+  .option(
+    '--data-dir <path>',
+    'Data directory for config and database (default: ~/.disunday)',
+  )
+  .action(
+    async (
+      action: string,
+      id: string | undefined,
+      options: { project?: string; label?: string; dataDir?: string },
+    ) => {
+      try {
+        if (options.dataDir) {
+          setDataDir(options.dataDir)
+        }
+
+        if (action === 'create') {
+          const projectDirectory = path.resolve(options.project || process.cwd())
+          const { id: tokenId, token } = createApiToken({
+            projectDirectory,
+            label: options.label,
+          })
+          note(
+            `Token #${tokenId} for ${projectDirectory}\n\n${token}\n\nThis token is shown only once.`,
+            'API token created',
+          )
+          process.exit(0)
+        }
+
+        if (action === 'list') {
+          const tokens = listApiTokens()
+          if (tokens.length === 0) {
+            console.log('No API tokens')
+            process.exit(0)
+          }
+          for (const apiToken of tokens) {
+            const lastUsed = apiToken.last_used_at
+              ? new Date(apiToken.last_used_at).toISOString()
+              : 'never'
+            console.log(
+              `#${apiToken.id}  ${apiToken.label || '(no label)'}  ${apiToken.project_directory}  last used: ${lastUsed}`,
+            )
+          }
+          process.exit(0)
+        }
+
+        if (action === 'revoke') {
+          const tokenId = Number(id)
+          if (!Number.isInteger(tokenId)) {
+            cliLogger.error('Usage: disunday api-token revoke <id>')
+            process.exit(EXIT_NO_RESTART)
+          }
+          if (!deleteApiToken(tokenId)) {
+            cliLogger.error(`No API token with id ${tokenId}`)
+            process.exit(EXIT_NO_RESTART)
+          }
+          note(`Token #${tokenId} revoked`, 'API token revoked')
+          process.exit(0)
+        }
+
+        cliLogger.error(`Unknown action: ${action}. Use create, list or revoke`)
+        process.exit(EXIT_NO_RESTART)
+      } catch (error) {
+        cliLogger.error(
+          'Error:',
+          error instanceof Error ? error.message : String(error),
+        )
+        process.exit(EXIT_NO_RESTART)
+      }
+    },
+  )
+
+cli
+  .command('bots <action> [appId]', 'Manage saved bots (list, remove)')
+  .option(
+    '--data-dir <path>',
+    'Data directory for config and database (default: ~/.disunday)',
+  )
+  .action(
+    async (
+      action: string,
+      appId: string | undefined,
+      options: { dataDir?: string },
+    ) => {
+      try {
+        if (options.dataDir) {
+          setDataDir(options.dataDir)
+        }
+
+        if (action === 'list') {
+          const bots = listBots()
+          if (bots.length === 0) {
+            console.log('No saved bots. Run `disunday` to set one up.')
+            process.exit(0)
+          }
+          bots.forEach((bot, index) => {
+            const role = index === 0 ? '  (started by default)' : ''
+            console.log(`${bot.app_id}  added ${bot.created_at}${role}`)
+          })
+          process.exit(0)
+        }
+
+        if (action === 'remove') {
+          if (!appId) {
+            cliLogger.error('Usage: disunday bots remove <appId>')
+            process.exit(EXIT_NO_RESTART)
+          }
+          if (!deleteBot(appId)) {
+            cliLogger.error(`No saved bot with app ID ${appId}`)
+            process.exit(EXIT_NO_RESTART)
+          }
+          note(`Bot ${appId} removed`, 'Bot removed')
+          process.exit(0)
+        }
+
+        cliLogger.error(`Unknown action: ${action}. Use list or remove`)
+        process.exit(EXIT_NO_RESTART)
+      } catch (error) {
+        cliLogger.error(
+          'Error:',
+          error instanceof Error ? error.message : String(error),
+        )
+        process.exit(EXIT_NO_RESTART)
+      }
+    },
+  )
+
 cli.help()
 cli.parse()
@@ -6,6 +6,7 @@ import { getDatabase } from '../database.js'
 import { initializeOpencodeForDirectory } from '../opencode.js'
 import { resolveTextChannel, getDisundayMetadata, SILENT_MESSAGE_FLAGS } from '../discord-utils.js'
 import { abortControllers } from '../session-handler.js'
+import { recordAuditEvent } from '../audit.js'
 import { createLogger, LogPrefix } from '../logger.js'
 import * as errore from 'errore'
 
@@ -93,6 +94,16 @@ export async function handleAbortCommand({ command }: CommandContext): Promise<v
       flags: SILENT_MESSAGE_FLAGS,
     })
     logger.log(`Session ${sessionId} aborted by user`)
+    recordAuditEvent({
+      eventType: 'abort',
+      userId: command.user.id,
+      username: command.user.username,
+      channelId: textChannel?.id,
+      threadId: channel.id,
+      sessionId,
+      summary: 'Aborted via /abort',
+      details: { source: 'command' },
+    })
   } catch (error) {
     logger.error('[ABORT] Error:', error)
     await command.reply({
@@ -0,0 +1,259 @@
+// /access command.
+// Edits role-based access policies: per-role access levels and per-command
+// role restrictions, either for the current channel or server-wide.
+
+import { ChatInputCommandInteraction, EmbedBuilder } from 'discord.js'
+import {
+  addCommandRolePolicy,
+  deleteRoleAccessLevel,
+  getCommandRolePolicies,
+  getRoleAccessLevels,
+  removeCommandRolePolicy,
+  setRoleAccessLevel,
+} from '../database.js'
+import {
+  ACCESS_LEVELS,
+  getPolicyChannelId,
+  getRequiredLevel,
+  isAccessLevel,
+} from '../access-control.js'
+import { createLogger, LogPrefix } from '../logger.js'
+
+const accessLogger = createLogger(LogPrefix.ACCESS)
+
+export async function handleAccessCommand({
+  command,
+}: {
+  command: ChatInputCommandInteraction
+  appId: string
+}): Promise<void> {
+  if (!command.guildId || !command.channel) {
+    await command.reply({
+      content: 'Access policies can only be configured in a server channel.',
+      ephemeral: true,
+    })
+    return
+  }
+
+  const subcommand = command.options.getSubcommand()
+  const guildId = command.guildId
+  const channelId = getPolicyChannelId(command.channel)
+
+  switch (subcommand) {
+    case 'role': {
+      await handleRoleLevel({ command, guildId, channelId })
+      return
+    }
+    case 'command': {
+      await handleCommandPolicy({ command, guildId, channelId })
+      return
+    }
+    case 'view': {
+      await handleViewPolicies({ command, guildId, channelId })
+      return
+    }
+    default: {
+      await command.reply({
+        content: `Unknown subcommand: ${subcommand}`,
+        ephemeral: true,
+      })
+    }
+  }
+}
+
+function formatScope(channelId: string): string {
+  return channelId ? `<#${channelId}>` : 'the whole server'
+}
+
+async function handleRoleLevel({
+  command,
+  guildId,
+  channelId,
+}: {
+  command: ChatInputCommandInteraction
+  guildId: string
+  channelId: string
+}): Promise<void> {
+  const role = command.options.getRole('role', true)
+  const level = command.options.getString('level', true)
+  const serverWide = command.options.getBoolean('server-wide') ?? false
+  const scopeChannelId = serverWide ? '' : channelId
+
+  if (level === 'reset') {
+    const removed = deleteRoleAccessLevel({
+      guildId,
+      channelId: scopeChannelId,
+      roleId: role.id,
+    })
+    accessLogger.log(
+      `[ACCESS] ${command.user.tag} reset level for role ${role.id} in ${scopeChannelId || 'guild'} ${guildId}`,
+    )
+    await command.reply({
+      content: removed
+        ? `✓ Removed the access level for <@&${role.id}> in ${formatScope(scopeChannelId)}.`
+        : `<@&${role.id}> has no access level set in ${formatScope(scopeChannelId)}.`,
+      ephemeral: true,
+    })
+    return
+  }
+
+  if (!isAccessLevel(level)) {
+    await command.reply({
+      content: `Invalid level: ${level}. Use one of: ${ACCESS_LEVELS.join(', ')}`,
+      ephemeral: true,
+    })
+    return
+  }
+
+  setRoleAccessLevel({
+    guildId,
+    channelId: scopeChannelId,
+    roleId: role.id,
+    level,
+    updatedBy: command.user.id,
+  })
+  accessLogger.log(
+    `[ACCESS] ${command.user.tag} set role ${role.id} to ${level} in ${scopeChannelId || 'guild'} ${guildId}`,
+  )
+
+  await command.reply({
+    content: `✓ <@&${role.id}> now has **${level}** access in ${formatScope(scopeChannelId)}.`,
+    ephemeral: true,
+  })
+}
+
+async function handleCommandPolicy({
+  command,
+  guildId,
+  channelId,
+}: {
+  command: ChatInputCommandInteraction
+  guildId: string
+  channelId: string
+}): Promise<void> {
+  const commandName = command.options
+    .getString('command', true)
+    .trim()
+    .replace(/^\//, '')
+    .toLowerCase()
+  const role = command.options.getRole('role')
+  const remove = command.options.getBoolean('remove') ?? false
+  const serverWide = command.options.getBoolean('server-wide') ?? false
+  const scopeChannelId = serverWide ? '' : channelId
+
+  if (!commandName) {
+    await command.reply({
+      content: 'Command name cannot be empty.',
+      ephemeral: true,
+    })
+    return
+  }
+
+  if (remove) {
+    const removed = removeCommandRolePolicy({
+      guildId,
+      channelId: scopeChannelId,
+      command: commandName,
+      roleId: role?.id,
+    })
+    accessLogger.log(
+      `[ACCESS] ${command.user.tag} removed ${removed} policy entries for ${commandName} in ${scopeChannelId || 'guild'} ${guildId}`,
+    )
+    await command.reply({
+      content:
+        removed > 0
+          ? `✓ Removed ${role ? `<@&${role.id}>` : 'all roles'} from the \`/${commandName}\` policy in ${formatScope(scopeChannelId)}.`
+          : `No matching \`/${commandName}\` policy in ${formatScope(scopeChannelId)}.`,
+      ephemeral: true,
+    })
+    return
+  }
+
+  if (!role) {
+    await command.reply({
+      content: 'Provide a role to allow, or set `remove` to clear the policy.',
+      ephemeral: true,
+    })
+    return
+  }
+
+  addCommandRolePolicy({
+    guildId,
+    channelId: scopeChannelId,
+    command: commandName,
+    roleId: role.id,
+    createdBy: command.user.id,
+  })
+  accessLogger.log(
+    `[ACCESS] ${command.user.tag} allowed role ${role.id} to use ${commandName} in ${scopeChannelId || 'guild'} ${guildId}`,
+  )
+
+  await command.reply({
+    content: `✓ \`/${commandName}\` in ${formatScope(scopeChannelId)} is now restricted to roles in its policy, including <@&${role.id}>.\nServer owners and administrators are always allowed.`,
+    ephemeral: true,
+  })
+}
+
+async function handleViewPolicies({
+  command,
+  guildId,
+  channelId,
+}: {
+  command: ChatInputCommandInteraction
+  guildId: string
+  channelId: string
+}): Promise<void> {
+  const roleLevels = getRoleAccessLevels({ guildId, channelId })
+  const commandPolicies = getCommandRolePolicies({ guildId, channelId })
+
+  const formatLevels = (scopeChannelId: string) => {
+    const lines = roleLevels
+      .filter((entry) => {
+        return entry.channel_id === scopeChannelId
+      })
+      .map((entry) => {
+        return `<@&${entry.role_id}> → **${entry.level}**`
+      })
+    return lines.length > 0 ? lines.join('\n') : '_None_'
+  }
+
+  const formatCommands = (scopeChannelId: string) => {
+    const byCommand = new Map<string, string[]>()
+    for (const policy of commandPolicies) {
+      if (policy.channel_id !== scopeChannelId) {
+        continue
+      }
+      const roles = byCommand.get(policy.command) ?? []
+      roles.push(`<@&${policy.role_id}>`)
+      byCommand.set(policy.command, roles)
+    }
+    const lines = [...byCommand.entries()].map(([name, roles]) => {
+      return `\`/${name}\` → ${roles.join(', ')}`
+    })
+    return lines.length > 0 ? lines.join('\n') : '_None_'
+  }
+
+  const embed = new EmbedBuilder()
+    .setTitle('Access Policies')
+    .setColor(0x5865f2)
+    .setDescription(
+      [
+        `Levels: ${ACCESS_LEVELS.join(' < ')}. Channel policies override server-wide ones.`,
+        `Defaults: @everyone → read, **Disunday** role → admin, **no-disunday** role → blocked.`,
+        `Examples: \`/run\` needs **${getRequiredLevel('run')}**, sending prompts needs **${getRequiredLevel('message')}**, \`/status\` needs **${getRequiredLevel('status')}**.`,
+      ].join('\n'),
+    )
+    .addFields(
+      { name: 'Role levels (this channel)', value: formatLevels(channelId) },
+      { name: 'Role levels (server-wide)', value: formatLevels('') },
+      { name: 'Command policies (this channel)', value: formatCommands(channelId) },
+      { name: 'Command policies (server-wide)', value: formatCommands('') },
+    )
+    .setFooter({ text: `Channel ID: ${channelId}` })
+    .setTimestamp()
+
+  await command.reply({
+    embeds: [embed],
+    ephemeral: true,
+  })
+}
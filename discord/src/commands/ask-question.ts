@@ -2,15 +2,10 @@
 // When the AI uses the AskUserQuestion tool, this module renders dropdowns
 // for each question and collects user responses.
 
-import {
-  StringSelectMenuBuilder,
-  StringSelectMenuInteraction,
-  ActionRowBuilder,
-  type ThreadChannel,
-} from 'discord.js'
+import { StringSelectMenuInteraction } from 'discord.js'
 import crypto from 'node:crypto'
-import { sendThreadMessage, NOTIFY_MESSAGE_FLAGS } from '../discord-utils.js'
 import { getOpencodeClientV2 } from '../opencode.js'
+import type { PlatformThread } from '../platform/types.js'
 import { createLogger, LogPrefix } from '../logger.js'
 
 const logger = createLogger(LogPrefix.ASK_QUESTION)
@@ -31,7 +26,7 @@ export type AskUserQuestionInput = {
 type PendingQuestionContext = {
   sessionId: string
   directory: string
-  thread: ThreadChannel
+  thread: PlatformThread
   requestId: string // OpenCode question request ID for replying
   questions: AskUserQuestionInput['questions']
   answers: Record<number, string[]> // questionIndex -> selected labels
@@ -54,7 +49,7 @@ export async function showAskUserQuestionDropdowns({
   requestId,
   input,
 }: {
-  thread: ThreadChannel
+  thread: PlatformThread
   sessionId: string
   directory: string
   requestId: string // OpenCode question request ID
@@ -96,23 +91,17 @@ export async function showAskUserQuestionDropdowns({
     ]
 
     const placeholder = options.find((x) => x.label)?.label || 'Select an option'
-    const selectMenu = new StringSelectMenuBuilder()
-      .setCustomId(`ask_question:${contextHash}:${i}`)
-      .setPlaceholder(placeholder)
-      .addOptions(options)
-
-    // Enable multi-select if the question supports it
-    if (q.multiple) {
-      selectMenu.setMinValues(1)
-      selectMenu.setMaxValues(options.length)
-    }
-
-    const actionRow = new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(selectMenu)
 
     await thread.send({
       content: `**${q.header}**\n${q.question}`,
-      components: [actionRow],
-      flags: NOTIFY_MESSAGE_FLAGS,
+      selectMenu: {
+        customId: `ask_question:${contextHash}:${i}`,
+        placeholder,
+        options,
+        // Enable multi-select if the question supports it
+        ...(q.multiple && { minValues: 1, maxValues: options.length }),
+      },
+      notify: true,
     })
   }
 
@@ -219,8 +208,7 @@ async function submitQuestionAnswers(context: PendingQuestionContext): Promise<v
     )
   } catch (error) {
     logger.error('Failed to submit answers:', error)
-    await sendThreadMessage(
-      context.thread,
+    await context.thread.sendText(
       `✗ Failed to submit answers: ${error instanceof Error ? error.message : 'Unknown error'}`,
     )
   }
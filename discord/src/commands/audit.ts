@@ -0,0 +1,129 @@
+// /audit command - Show recent audit events for this thread or channel.
+// Optionally attaches the matching events as a JSONL or CSV file.
+
+import { AttachmentBuilder, ChannelType } from 'discord.js'
+import type { CommandContext } from './types.js'
+import { getAuditEvents } from '../database.js'
+import {
+  formatAuditEventLine,
+  formatAuditEventsAsCsv,
+  formatAuditEventsAsJsonl,
+  isAuditEventType,
+} from '../audit.js'
+import { createLogger, LogPrefix } from '../logger.js'
+
+const logger = createLogger(LogPrefix.AUDIT)
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+const MAX_FILE_EVENTS = 5000
+const MAX_MESSAGE_LENGTH = 1900
+
+export async function handleAuditCommand({
+  command,
+}: CommandContext): Promise<void> {
+  const channel = command.channel
+  if (!channel) {
+    await command.reply({
+      content: 'This command can only be used in a channel',
+      ephemeral: true,
+    })
+    return
+  }
+
+  const type = command.options.getString('type')
+  const user = command.options.getUser('user')
+  const limit = Math.min(
+    command.options.getInteger('limit') ?? DEFAULT_LIMIT,
+    MAX_LIMIT,
+  )
+  const format = command.options.getString('format')
+  const all = command.options.getBoolean('all') ?? false
+
+  if (type && !isAuditEventType(type)) {
+    await command.reply({
+      content: `Unknown event type: ${type}`,
+      ephemeral: true,
+    })
+    return
+  }
+
+  const isThread = [
+    ChannelType.PublicThread,
+    ChannelType.PrivateThread,
+    ChannelType.AnnouncementThread,
+  ].includes(channel.type)
+
+  // Threads show their own events, channels show events from all their threads
+  const scope = (() => {
+    if (all) {
+      return {}
+    }
+    if (isThread) {
+      return { threadId: channel.id }
+    }
+    return { channelId: channel.id }
+  })()
+
+  const events = getAuditEvents({
+    ...scope,
+    eventType: type && isAuditEventType(type) ? type : undefined,
+    userId: user?.id,
+    limit: format ? MAX_FILE_EVENTS : limit,
+  })
+
+  logger.log(
+    `[AUDIT] ${command.user.tag} viewed ${events.length} events in ${channel.id}${all ? ' (all)' : ''}`,
+  )
+
+  const scopeLabel = all
+    ? 'all channels'
+    : isThread
+      ? `<#${channel.id}>`
+      : `<#${channel.id}> and its threads`
+
+  if (events.length === 0) {
+    await command.reply({
+      content: `No audit events found for ${scopeLabel}.`,
+      ephemeral: true,
+    })
+    return
+  }
+
+  if (format) {
+    const content =
+      format === 'csv'
+        ? formatAuditEventsAsCsv(events)
+        : formatAuditEventsAsJsonl(events)
+    const attachment = new AttachmentBuilder(Buffer.from(content, 'utf-8'), {
+      name: `audit-${Date.now()}.${format === 'csv' ? 'csv' : 'jsonl'}`,
+    })
+    await command.reply({
+      content: `📋 ${events.length} audit event${events.length === 1 ? '' : 's'} for ${scopeLabel}`,
+      files: [attachment],
+      ephemeral: true,
+    })
+    return
+  }
+
+  const header = `📋 **Audit log** for ${scopeLabel} (newest first)\n`
+  let body = ''
+  let shown = 0
+  for (const event of events) {
+    const line = `${formatAuditEventLine(event)}\n`
+    if (header.length + body.length + line.length > MAX_MESSAGE_LENGTH) {
+      break
+    }
+    body += line
+    shown++
+  }
+  const footer =
+    shown < events.length
+      ? `_Showing ${shown} of ${events.length}. Use \`format\` to download all._`
+      : ''
+
+  await command.reply({
+    content: header + body + footer,
+    ephemeral: true,
+  })
+}
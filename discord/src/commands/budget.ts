@@ -0,0 +1,185 @@
+// /budget command - Manage daily and monthly spending budgets.
+// Budgets apply globally, per user or per channel. They warn at a threshold
+// and refuse new prompts (or also abort running sessions) once exceeded.
+
+import { ChatInputCommandInteraction, EmbedBuilder } from 'discord.js'
+import {
+  deleteUsageBudget,
+  getUsageBudgets,
+  getUsageTotals,
+  setUsageBudget,
+  type BudgetAction,
+  type BudgetPeriod,
+  type BudgetScope,
+} from '../database.js'
+import {
+  evaluateBudget,
+  formatBudgetLabel,
+  formatUsd,
+  getPeriodKey,
+} from '../usage.js'
+import { createLogger, LogPrefix } from '../logger.js'
+
+const logger = createLogger(LogPrefix.USAGE)
+
+const DEFAULT_WARN_PERCENT = 80
+
+export async function handleBudgetCommand({
+  command,
+}: {
+  command: ChatInputCommandInteraction
+  appId: string
+}): Promise<void> {
+  const subcommand = command.options.getSubcommand()
+
+  switch (subcommand) {
+    case 'set': {
+      await handleSetBudget(command)
+      return
+    }
+    case 'remove': {
+      await handleRemoveBudget(command)
+      return
+    }
+    case 'view': {
+      await handleViewBudgets(command)
+      return
+    }
+    default: {
+      await command.reply({
+        content: `Unknown subcommand: ${subcommand}`,
+        ephemeral: true,
+      })
+    }
+  }
+}
+
+function getBudgetScope(command: ChatInputCommandInteraction): {
+  scope: BudgetScope
+  scopeId: string
+} {
+  const user = command.options.getUser('user')
+  if (user) {
+    return { scope: 'user', scopeId: user.id }
+  }
+  const channel = command.options.getChannel('channel')
+  if (channel) {
+    return { scope: 'channel', scopeId: channel.id }
+  }
+  return { scope: 'global', scopeId: '' }
+}
+
+async function handleSetBudget(
+  command: ChatInputCommandInteraction,
+): Promise<void> {
+  const period = command.options.getString('period', true) as BudgetPeriod
+  const limitUsd = command.options.getNumber('limit', true)
+  const warnPercent =
+    command.options.getInteger('warn-percent') ?? DEFAULT_WARN_PERCENT
+  const action = (command.options.getString('action') ??
+    'refuse') as BudgetAction
+  const { scope, scopeId } = getBudgetScope(command)
+
+  if (limitUsd <= 0) {
+    await command.reply({
+      content: 'Budget limit must be greater than 0.',
+      ephemeral: true,
+    })
+    return
+  }
+
+  setUsageBudget({
+    scope,
+    scopeId,
+    period,
+    limitUsd,
+    warnPercent,
+    action,
+    updatedBy: command.user.id,
+  })
+  logger.log(
+    `[BUDGET] ${command.user.tag} set ${scope}:${scopeId || '*'} ${period} budget to $${limitUsd} (warn ${warnPercent}%, ${action})`,
+  )
+
+  const label = formatBudgetLabel({
+    scope,
+    scope_id: scopeId,
+    period,
+    limit_usd: limitUsd,
+    warn_percent: warnPercent,
+    action,
+    updated_by: command.user.id,
+  })
+  const consequence =
+    action === 'abort'
+      ? 'running sessions are aborted and new prompts refused'
+      : 'new prompts are refused'
+
+  await command.reply({
+    content: `✓ Set ${label} to **${formatUsd(limitUsd)}**.\nWarns at ${warnPercent}%; when exceeded, ${consequence}.`,
+    ephemeral: true,
+  })
+}
+
+async function handleRemoveBudget(
+  command: ChatInputCommandInteraction,
+): Promise<void> {
+  const period = command.options.getString('period', true) as BudgetPeriod
+  const { scope, scopeId } = getBudgetScope(command)
+
+  const removed = deleteUsageBudget({ scope, scopeId, period })
+  logger.log(
+    `[BUDGET] ${command.user.tag} removed ${scope}:${scopeId || '*'} ${period} budget`,
+  )
+
+  await command.reply({
+    content: removed
+      ? `✓ Removed the ${period} ${scope} budget.`
+      : `No ${period} ${scope} budget to remove.`,
+    ephemeral: true,
+  })
+}
+
+async function handleViewBudgets(
+  command: ChatInputCommandInteraction,
+): Promise<void> {
+  const budgets = getUsageBudgets()
+  const today = getPeriodKey('daily')
+  const month = getPeriodKey('monthly')
+  const todayTotals = getUsageTotals({ dayPrefix: today })
+  const monthTotals = getUsageTotals({ dayPrefix: month })
+
+  const lines = budgets.map((budget) => {
+    const { cost: spent } = getUsageTotals({
+      dayPrefix: getPeriodKey(budget.period),
+      userId: budget.scope === 'user' ? budget.scope_id : undefined,
+      channelId: budget.scope === 'channel' ? budget.scope_id : undefined,
+    })
+    const { percent, state } = evaluateBudget({ budget, spent })
+    const icon = state === 'exceeded' ? '🔴' : state === 'warn' ? '🟡' : '🟢'
+    return `${icon} ${formatBudgetLabel(budget)}: ${formatUsd(spent)} / ${formatUsd(budget.limit_usd)} (${Math.round(percent)}%) · warn ${budget.warn_percent}% · ${budget.action}`
+  })
+
+  const embed = new EmbedBuilder()
+    .setTitle('Usage Budgets')
+    .setColor(0x5865f2)
+    .setDescription(lines.length > 0 ? lines.join('\n') : '_No budgets configured_')
+    .addFields(
+      {
+        name: `Today (${today})`,
+        value: `${formatUsd(todayTotals.cost)} · ${todayTotals.messages} responses`,
+        inline: true,
+      },
+      {
+        name: `This month (${month})`,
+        value: `${formatUsd(monthTotals.cost)} · ${monthTotals.messages} responses`,
+        inline: true,
+      },
+    )
+    .setTimestamp()
+
+  await command.reply({
+    embeds: [embed],
+    ephemeral: true,
+  })
+}
@@ -9,6 +9,7 @@ import { getDatabase } from '../database.js'
 import { getDisundayMetadata, resolveTextChannel, SILENT_MESSAGE_FLAGS } from '../discord-utils.js'
 import { createLogger, LogPrefix } from '../logger.js'
 import { handleOpencodeSession } from '../session-handler.js'
+import { toPlatformThread } from '../platform/discord.js'
 
 const contextMenuLogger = createLogger(LogPrefix.INTERACTION)
 
@@ -83,8 +84,9 @@ export async function handleRetryContextMenu({
   const result = await errore.tryAsync(() => {
     return handleOpencodeSession({
       prompt,
-      thread,
+      thread: toPlatformThread(thread),
       projectDirectory,
+      user: { id: interaction.user.id, username: interaction.user.username },
     })
   })
 
@@ -1,12 +1,18 @@
 import { ChannelType, type ThreadChannel } from 'discord.js'
 import type { CommandContext } from './types.js'
-import { getDatabase } from '../database.js'
+import { getDatabase, getUsageTotals } from '../database.js'
 import {
   resolveTextChannel,
   getDisundayMetadata,
   SILENT_MESSAGE_FLAGS,
 } from '../discord-utils.js'
 import { initializeOpencodeForDirectory } from '../opencode.js'
+import {
+  checkBudgets,
+  formatBudgetLabel,
+  formatUsd,
+  getPeriodKey,
+} from '../usage.js'
 
 export async function handleCostCommand({
   command,
@@ -79,28 +85,55 @@ export async function handleCostCommand({
     })
 
     const messages = messagesResponse.data || []
-    const messageCount = messages.length
-    const assistantMessages = messages.filter(
-      (m) => m.info.role === 'assistant',
-    ).length
+    const assistantInfos = messages.flatMap((m) => {
+      return m.info.role === 'assistant' ? [m.info] : []
+    })
 
-    const estimatedInputTokens = messageCount * 500
-    const estimatedOutputTokens = assistantMessages * 1000
+    const sessionTotals = assistantInfos.reduce(
+      (totals, info) => {
+        return {
+          input: totals.input + info.tokens.input,
+          output: totals.output + info.tokens.output,
+          reasoning: totals.reasoning + info.tokens.reasoning,
+          cacheRead: totals.cacheRead + info.tokens.cache.read,
+          cacheWrite: totals.cacheWrite + info.tokens.cache.write,
+          cost: totals.cost + (info.cost || 0),
+        }
+      },
+      { input: 0, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0, cost: 0 },
+    )
 
-    const inputCost = (estimatedInputTokens / 1_000_000) * 3
-    const outputCost = (estimatedOutputTokens / 1_000_000) * 15
-    const totalCost = inputCost + outputCost
+    const userToday = getUsageTotals({
+      userId: command.user.id,
+      dayPrefix: getPeriodKey('daily'),
+    })
+    const userMonth = getUsageTotals({
+      userId: command.user.id,
+      dayPrefix: getPeriodKey('monthly'),
+    })
+    const budgetLines = checkBudgets({
+      userId: command.user.id,
+      channelId: textChannel?.id,
+    }).map((check) => {
+      const icon =
+        check.state === 'exceeded' ? '🔴' : check.state === 'warn' ? '🟡' : '🟢'
+      return `${icon} ${formatBudgetLabel(check.budget)}: ${formatUsd(check.spent)} / ${formatUsd(check.budget.limit_usd)}`
+    })
 
     const costMessage = [
-      '💰 **Session Cost Estimate**',
-      '',
-      `**Messages:** ${messageCount}`,
-      `**Est. Input Tokens:** ~${estimatedInputTokens.toLocaleString()}`,
-      `**Est. Output Tokens:** ~${estimatedOutputTokens.toLocaleString()}`,
+      '💰 **Session Cost**',
       '',
-      `**Estimated Cost:** ~$${totalCost.toFixed(4)}`,
+      `**Responses:** ${assistantInfos.length}`,
+      `**Input Tokens:** ${sessionTotals.input.toLocaleString()}`,
+      `**Output Tokens:** ${sessionTotals.output.toLocaleString()}`,
+      ...(sessionTotals.reasoning > 0
+        ? [`**Reasoning Tokens:** ${sessionTotals.reasoning.toLocaleString()}`]
+        : []),
+      `**Cache Read/Write:** ${sessionTotals.cacheRead.toLocaleString()} / ${sessionTotals.cacheWrite.toLocaleString()}`,
       '',
-      '_Based on Claude Sonnet pricing ($3/M input, $15/M output)_',
+      `**Session Cost:** ${formatUsd(sessionTotals.cost)}`,
+      `**Your Spend:** ${formatUsd(userToday.cost)} today · ${formatUsd(userMonth.cost)} this month`,
+      ...(budgetLines.length > 0 ? ['', '**Budgets**', ...budgetLines] : []),
     ].join('\n')
 
     await command.reply({
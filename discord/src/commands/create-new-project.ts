@@ -11,6 +11,7 @@ import { createProjectChannels } from '../channel-management.js'
 import { handleOpencodeSession } from '../session-handler.js'
 import { SILENT_MESSAGE_FLAGS } from '../discord-utils.js'
 import { createLogger, LogPrefix } from '../logger.js'
+import { toPlatformThread } from '../platform/discord.js'
 
 const logger = createLogger(LogPrefix.CREATE_PROJECT)
 
@@ -145,9 +146,10 @@ export async function handleCreateNewProjectCommand({
 
     await handleOpencodeSession({
       prompt: 'The project was just initialized. Say hi and ask what the user wants to build.',
-      thread,
+      thread: toPlatformThread(thread),
       projectDirectory,
       channelId: textChannel.id,
+      user: { id: command.user.id, username: command.user.username },
     })
 
     logger.log(`Created new project ${channelName} at ${projectDirectory}`)
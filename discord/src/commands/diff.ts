@@ -1,4 +1,17 @@
-import { ChannelType, type ThreadChannel, type TextChannel } from 'discord.js'
+// /diff command - Paginated per-file view of uncommitted changes.
+// Each page shows one hunk of one file, with buttons to move between files
+// and hunks and to keep (stage) or revert a hunk or a whole file. Changes are
+// read with captureGitDiff and applied with applyGitDiff.
+
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ChannelType,
+  type ButtonInteraction,
+  type ThreadChannel,
+  type TextChannel,
+} from 'discord.js'
 import type { CommandContext } from './types.js'
 import {
   resolveTextChannel,
@@ -6,10 +19,213 @@ import {
   SILENT_MESSAGE_FLAGS,
 } from '../discord-utils.js'
 import { getThreadWorktree } from '../database.js'
-import { exec } from 'node:child_process'
-import { promisify } from 'node:util'
+import {
+  applyGitDiff,
+  captureGitDiff,
+  execAsync,
+} from '../worktree-utils.js'
+import {
+  buildPatch,
+  diffFingerprint,
+  parseGitDiff,
+  type DiffFile,
+} from '../git-diff.js'
+import { createLogger, LogPrefix } from '../logger.js'
+import { createInteractionStore } from '../utils.js'
+
+const logger = createLogger(LogPrefix.DIFF)
+
+// Room left for the diff body after the header, notice and footer lines
+const MAX_HUNK_CHARS = 1500
+
+type DiffEntry = {
+  file: DiffFile
+  staged: boolean
+}
+
+type DiffViewContext = {
+  directory: string
+  fileIndex: number
+  hunkIndex: number
+}
+
+// Views unused for an hour expire, and only the most recent ones are kept
+const diffViews = createInteractionStore<DiffViewContext>({
+  ttlMs: 60 * 60_000,
+  maxSize: 100,
+})
+
+const DIFF_ACTIONS = [
+  'prev-file',
+  'next-file',
+  'prev-hunk',
+  'next-hunk',
+  'keep-hunk',
+  'revert-hunk',
+  'keep-file',
+  'revert-file',
+] as const
+
+type DiffAction = (typeof DIFF_ACTIONS)[number]
+
+const EDIT_ACTIONS = new Set<DiffAction>([
+  'keep-hunk',
+  'revert-hunk',
+  'keep-file',
+  'revert-file',
+])
+
+/**
+ * True for buttons that change files, which need prompt access.
+ */
+export function isDiffEditButton(customId: string): boolean {
+  const action = customId.split(':')[2] as DiffAction | undefined
+  return action !== undefined && EDIT_ACTIONS.has(action)
+}
+
+async function loadDiffEntries(
+  directory: string,
+): Promise<{ entries: DiffEntry[]; untracked: number }> {
+  const captured = await captureGitDiff(directory)
+  const entries: DiffEntry[] = captured
+    ? [
+        ...parseGitDiff(captured.staged).map((file) => ({ file, staged: true })),
+        ...parseGitDiff(captured.unstaged).map((file) => ({
+          file,
+          staged: false,
+        })),
+      ]
+    : []
+
+  const untracked = await execAsync('git ls-files --others --exclude-standard', {
+    cwd: directory,
+    maxBuffer: 1024 * 1024,
+  })
+    .then(({ stdout }) => stdout.split('\n').filter(Boolean).length)
+    .catch(() => 0)
+
+  return { entries, untracked }
+}
+
+function clampContext(context: DiffViewContext, entries: DiffEntry[]): void {
+  context.fileIndex = Math.max(0, Math.min(context.fileIndex, entries.length - 1))
+  const hunkCount = entries[context.fileIndex]?.file.hunks.length ?? 0
+  context.hunkIndex = Math.max(0, Math.min(context.hunkIndex, hunkCount - 1))
+}
+
+function renderDiffView({
+  hash,
+  context,
+  entries,
+  untracked,
+  notice,
+}: {
+  hash: string
+  context: DiffViewContext
+  entries: DiffEntry[]
+  untracked: number
+  notice?: string
+}): {
+  content: string
+  components: ActionRowBuilder<ButtonBuilder>[]
+} {
+  const untrackedLine =
+    untracked > 0
+      ? `\n*${untracked} untracked file${untracked === 1 ? '' : 's'} not shown*`
+      : ''
+  const entry = entries[context.fileIndex]
+  if (!entry) {
+    return {
+      content: `${notice ? `${notice}\n\n` : ''}📝 **No uncommitted changes**${untrackedLine}`,
+      components: [],
+    }
+  }
+
+  const { file, staged } = entry
+  const hunk = file.hunks[context.hunkIndex]
+  const hunkLabel =
+    file.hunks.length > 0
+      ? ` · hunk ${context.hunkIndex + 1}/${file.hunks.length}`
+      : ''
+
+  const lines = [
+    `📝 **Changes** · file ${context.fileIndex + 1}/${entries.length}${hunkLabel}`,
+    `\`${file.path}\`${staged ? ' (staged)' : ''} +${file.additions} -${file.deletions}`,
+  ]
+  if (hunk) {
+    let body = [hunk.header, ...hunk.lines].join('\n')
+    if (body.length > MAX_HUNK_CHARS) {
+      body = `${body.slice(0, MAX_HUNK_CHARS)}\n… (hunk truncated)`
+    }
+    lines.push('```diff', body.replaceAll('`', '\\`'), '```')
+  } else {
+    lines.push(file.binary ? '*Binary file*' : '*No content changes (mode or rename only)*')
+  }
+  if (notice) {
+    lines.push(notice)
+  }
 
-const execAsync = promisify(exec)
+  const button = (
+    action: DiffAction,
+    label: string,
+    { style = ButtonStyle.Secondary, disabled = false } = {},
+  ) => {
+    const fingerprint = action.endsWith('-hunk')
+      ? diffFingerprint(file, context.hunkIndex)
+      : diffFingerprint(file)
+    return new ButtonBuilder()
+      .setCustomId(`diff:${hash}:${action}:${EDIT_ACTIONS.has(action) ? fingerprint : ''}`)
+      .setLabel(label)
+      .setStyle(style)
+      .setDisabled(disabled)
+  }
+
+  const isFirstFile = context.fileIndex === 0
+  const isLastFile = context.fileIndex === entries.length - 1
+  const navigation = new ActionRowBuilder<ButtonBuilder>().addComponents(
+    button('prev-file', '◀ File', { disabled: isFirstFile }),
+    button('prev-hunk', '◀ Hunk', { disabled: context.hunkIndex === 0 }),
+    button('next-hunk', 'Hunk ▶', {
+      disabled: context.hunkIndex >= file.hunks.length - 1,
+    }),
+    button('next-file', 'File ▶', { disabled: isLastFile }),
+  )
+  const noHunk = !hunk || file.binary
+  const actions = new ActionRowBuilder<ButtonBuilder>().addComponents(
+    button('keep-hunk', 'Keep hunk', {
+      style: ButtonStyle.Success,
+      disabled: noHunk || staged,
+    }),
+    button('revert-hunk', 'Revert hunk', {
+      style: ButtonStyle.Danger,
+      disabled: noHunk,
+    }),
+    button('keep-file', 'Keep file', {
+      style: ButtonStyle.Success,
+      disabled: file.binary || staged,
+    }),
+    button('revert-file', 'Revert file', {
+      style: ButtonStyle.Danger,
+      disabled: file.binary,
+    }),
+  )
+
+  return {
+    content: `${lines.join('\n')}${untrackedLine}`.slice(0, 2000),
+    components: [navigation, actions],
+  }
+}
+
+async function getRecentCommitsSummary(directory: string): Promise<string> {
+  const { stdout } = await execAsync(
+    'git diff --stat HEAD~5..HEAD 2>/dev/null || git diff --stat',
+    { cwd: directory, maxBuffer: 1024 * 1024 },
+  )
+  if (!stdout.trim()) {
+    return '📝 **No recent changes**\n\nWorking directory is clean.'
+  }
+  return `📝 **No uncommitted changes**\n\n**Last 5 commits:**\n\`\`\`\n${stdout.slice(0, 800)}\n\`\`\``
+}
 
 export async function handleDiffCommand({
   command,
@@ -57,37 +273,21 @@ export async function handleDiffCommand({
   }
 
   try {
-    const { stdout: diffOutput } = await execAsync(
-      'git diff --stat HEAD~5..HEAD 2>/dev/null || git diff --stat',
-      {
-        cwd: directory,
-        maxBuffer: 1024 * 1024,
-      },
-    )
-
-    const { stdout: statusOutput } = await execAsync('git status --short', {
-      cwd: directory,
-      maxBuffer: 1024 * 1024,
-    })
-
-    let message = '📝 **Recent Changes**\n\n'
-
-    if (statusOutput.trim()) {
-      message +=
-        '**Uncommitted:**\n```\n' + statusOutput.slice(0, 500) + '\n```\n\n'
-    }
+    const { entries, untracked } = await loadDiffEntries(directory)
 
-    if (diffOutput.trim()) {
-      message +=
-        '**Last 5 commits:**\n```\n' + diffOutput.slice(0, 800) + '\n```'
+    if (entries.length === 0) {
+      await command.reply({
+        content: (await getRecentCommitsSummary(directory)).slice(0, 2000),
+        flags: SILENT_MESSAGE_FLAGS,
+      })
+      return
     }
 
-    if (!statusOutput.trim() && !diffOutput.trim()) {
-      message = '📝 **No recent changes**\n\nWorking directory is clean.'
-    }
+    const context: DiffViewContext = { directory, fileIndex: 0, hunkIndex: 0 }
+    const hash = diffViews.add(context)
 
     await command.reply({
-      content: message.slice(0, 2000),
+      ...renderDiffView({ hash, context, entries, untracked }),
       flags: SILENT_MESSAGE_FLAGS,
     })
   } catch (error) {
@@ -98,3 +298,91 @@ export async function handleDiffCommand({
     })
   }
 }
+
+async function applyDiffAction({
+  action,
+  context,
+  entry,
+}: {
+  action: DiffAction
+  context: DiffViewContext
+  entry: DiffEntry
+}): Promise<string> {
+  const isHunk = action.endsWith('-hunk')
+  const patch = buildPatch(entry.file, isHunk ? context.hunkIndex : undefined)
+  const target = isHunk
+    ? `hunk ${context.hunkIndex + 1} of \`${entry.file.path}\``
+    : `\`${entry.file.path}\``
+  const diff = entry.staged
+    ? { staged: patch, unstaged: '' }
+    : { staged: '', unstaged: patch }
+
+  const keep = action.startsWith('keep')
+  const applied = await applyGitDiff(context.directory, diff, {
+    reverse: !keep,
+    cached: keep,
+  })
+  if (!applied) {
+    return `⚠️ Could not ${keep ? 'keep' : 'revert'} ${target}. It may conflict with other changes.`
+  }
+  logger.log(`${keep ? 'Staged' : 'Reverted'} ${target} in ${context.directory}`)
+  return keep ? `✅ Kept ${target} (staged)` : `↩️ Reverted ${target}`
+}
+
+/**
+ * Handle navigation and keep/revert buttons on a /diff view.
+ */
+export async function handleDiffButton(
+  interaction: ButtonInteraction,
+): Promise<void> {
+  const [, hash, rawAction, fingerprint] = interaction.customId.split(':')
+  const context = diffViews.get(hash)
+  const action = rawAction as DiffAction
+
+  if (!context || !DIFF_ACTIONS.includes(action)) {
+    await interaction.reply({
+      content: 'This diff view has expired. Run /diff again.',
+      ephemeral: true,
+    })
+    return
+  }
+
+  await interaction.deferUpdate()
+
+  let { entries, untracked } = await loadDiffEntries(context.directory)
+  clampContext(context, entries)
+  let notice: string | undefined
+
+  switch (action) {
+    case 'prev-file':
+    case 'next-file':
+      context.fileIndex += action === 'next-file' ? 1 : -1
+      context.hunkIndex = 0
+      break
+    case 'prev-hunk':
+    case 'next-hunk':
+      context.hunkIndex += action === 'next-hunk' ? 1 : -1
+      break
+    default: {
+      const entry = entries[context.fileIndex]
+      const current = entry
+        ? action.endsWith('-hunk')
+          ? diffFingerprint(entry.file, context.hunkIndex)
+          : diffFingerprint(entry.file)
+        : undefined
+      if (!entry || current !== fingerprint) {
+        notice = '⚠️ The diff changed since this page was shown. Review it again.'
+        break
+      }
+      notice = await applyDiffAction({ action, context, entry })
+      ;({ entries, untracked } = await loadDiffEntries(context.directory))
+    }
+  }
+
+  clampContext(context, entries)
+  const view = renderDiffView({ hash: hash!, context, entries, untracked, notice })
+  if (entries.length === 0) {
+    diffViews.delete(hash)
+  }
+  await interaction.editReply(view)
+}
@@ -0,0 +1,70 @@
+// /display command.
+// Sets how sessions in a channel show their progress.
+// 'stream' (default): one message per text, tool and thinking part
+// 'live': text parts as messages, everything else in one status message per
+// turn that is edited in place and collapsed into a summary at the end
+
+import { ChatInputCommandInteraction, ChannelType, type ThreadChannel } from 'discord.js'
+import { getChannelDisplayMode, setChannelDisplayMode, type DisplayMode } from '../database.js'
+import { createLogger, LogPrefix } from '../logger.js'
+
+const displayLogger = createLogger(LogPrefix.DISPLAY)
+
+/**
+ * Handle the /display slash command.
+ * Sets the display mode for the channel (applies from the next turn).
+ */
+export async function handleDisplayCommand({
+  command,
+  appId,
+}: {
+  command: ChatInputCommandInteraction
+  appId: string
+}): Promise<void> {
+  displayLogger.log('[DISPLAY] Command called')
+
+  const channel = command.channel
+  if (!channel) {
+    await command.reply({
+      content: 'Could not determine channel.',
+      ephemeral: true,
+    })
+    return
+  }
+
+  // Get the parent channel ID (for threads, use parent; for text channels, use self)
+  const channelId = (() => {
+    if (
+      channel.type === ChannelType.PublicThread ||
+      channel.type === ChannelType.PrivateThread ||
+      channel.type === ChannelType.AnnouncementThread
+    ) {
+      return (channel as ThreadChannel).parentId || channel.id
+    }
+    return channel.id
+  })()
+
+  const mode = command.options.getString('mode', true) as DisplayMode
+  const currentMode = getChannelDisplayMode(channelId)
+
+  if (currentMode === mode) {
+    await command.reply({
+      content: `Display mode is already set to **${mode}** for this channel.`,
+      ephemeral: true,
+    })
+    return
+  }
+
+  setChannelDisplayMode(channelId, mode)
+  displayLogger.log(`[DISPLAY] Set channel ${channelId} to ${mode}`)
+
+  const description =
+    mode === 'live'
+      ? 'Each turn keeps one status message with the current tool, todos, elapsed time and tokens, edited in place and collapsed into a summary when the turn ends. Text responses are still sent as messages.'
+      : 'Every text response, tool execution and thinking step is sent as its own message.'
+
+  await command.reply({
+    content: `Display mode set to **${mode}** for this channel.\n${description}\nThis is a per-channel setting and applies from the next message.`,
+    ephemeral: true,
+  })
+}
@@ -1,12 +1,92 @@
-import { ChannelType, type ThreadChannel, AttachmentBuilder } from 'discord.js'
+// /export command - Export a thread's session, or every session of a project
+// channel, as Markdown, Markdown with full tool I/O, JSON or HTML.
+
+import {
+  ChannelType,
+  type TextChannel,
+  type ThreadChannel,
+  AttachmentBuilder,
+} from 'discord.js'
 import type { CommandContext } from './types.js'
-import { getDatabase } from '../database.js'
+import {
+  getChannelSessions,
+  getDatabase,
+  getLatestSessionRun,
+} from '../database.js'
 import {
   resolveTextChannel,
   getDisundayMetadata,
   SILENT_MESSAGE_FLAGS,
 } from '../discord-utils.js'
 import { initializeOpencodeForDirectory } from '../opencode.js'
+import {
+  filterMessagesByRange,
+  isExportFormat,
+  parseExportDate,
+  renderSessionExport,
+  type ExportFormat,
+  type ExportRange,
+  type ExportedSession,
+} from '../session-export.js'
+import { createLogger, LogPrefix } from '../logger.js'
+
+const logger = createLogger(LogPrefix.INTERACTION)
+
+// Keep channel exports to a size Discord accepts as one attachment
+const MAX_EXPORT_SESSIONS = 50
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  markdown: 'Markdown',
+  'markdown-full': 'Markdown with full tool I/O',
+  json: 'JSON',
+  html: 'HTML',
+}
+
+type SessionRef = { sessionId: string; threadId: string | null; directory: string }
+
+async function fetchSession(ref: SessionRef): Promise<Error | ExportedSession> {
+  const getClient = await initializeOpencodeForDirectory(ref.directory)
+  if (getClient instanceof Error) {
+    return getClient
+  }
+  try {
+    const [sessionResponse, messagesResponse] = await Promise.all([
+      getClient().session.get({ path: { id: ref.sessionId } }),
+      getClient().session.messages({ path: { id: ref.sessionId } }),
+    ])
+    return {
+      ...ref,
+      session: sessionResponse.data,
+      messages: messagesResponse.data || [],
+    }
+  } catch (error) {
+    return error instanceof Error ? error : new Error(String(error))
+  }
+}
+
+function parseRange(command: CommandContext['command']): Error | ExportRange {
+  const range: ExportRange = {}
+  for (const bound of ['since', 'until'] as const) {
+    const value = command.options.getString(bound)
+    if (!value) {
+      continue
+    }
+    const timestamp = parseExportDate({ value, bound })
+    if (timestamp instanceof Error) {
+      return timestamp
+    }
+    range[bound] = timestamp
+  }
+  if (
+    range.since !== undefined &&
+    range.until !== undefined &&
+    range.since >= range.until
+  ) {
+    return new Error('`since` must be before `until`')
+  }
+  return range
+}
 
 export async function handleExportCommand({
   command,
@@ -28,96 +108,148 @@ export async function handleExportCommand({
     ChannelType.AnnouncementThread,
   ].includes(channel.type)
 
-  if (!isThread) {
+  const formatOption = command.options.getString('format') ?? 'markdown'
+  const format: ExportFormat = isExportFormat(formatOption)
+    ? formatOption
+    : 'markdown'
+  const scope = command.options.getString('scope') ?? (isThread ? 'thread' : 'channel')
+
+  if (scope === 'thread' && !isThread) {
     await command.reply({
       content:
-        'This command can only be used in a thread with an active session',
+        'Thread exports can only be used in a thread with an active session. Use `scope:channel` to export this channel.',
       ephemeral: true,
       flags: SILENT_MESSAGE_FLAGS,
     })
     return
   }
 
-  const textChannel = await resolveTextChannel(channel as ThreadChannel)
-  const { projectDirectory: directory } = getDisundayMetadata(textChannel)
-
-  if (!directory) {
+  const range = parseRange(command)
+  if (range instanceof Error) {
     await command.reply({
-      content: 'Could not determine project directory for this channel',
+      content: `❌ ${range.message}`,
       ephemeral: true,
       flags: SILENT_MESSAGE_FLAGS,
     })
     return
   }
 
-  const row = getDatabase()
-    .prepare('SELECT session_id FROM thread_sessions WHERE thread_id = ?')
-    .get(channel.id) as { session_id: string } | undefined
+  const textChannel = await resolveTextChannel(
+    channel as TextChannel | ThreadChannel,
+  )
+  const { projectDirectory: directory } = getDisundayMetadata(textChannel)
 
-  if (!row?.session_id) {
+  if (!directory || !textChannel) {
     await command.reply({
-      content: 'No active session in this thread',
+      content: 'Could not determine project directory for this channel',
       ephemeral: true,
       flags: SILENT_MESSAGE_FLAGS,
     })
     return
   }
 
-  await command.deferReply({ flags: SILENT_MESSAGE_FLAGS })
-
-  const getClient = await initializeOpencodeForDirectory(directory)
-  if (getClient instanceof Error) {
-    await command.editReply({
-      content: `Failed to export: ${getClient.message}`,
-    })
-    return
+  let refs: SessionRef[]
+  if (scope === 'thread') {
+    const row = getDatabase()
+      .prepare('SELECT session_id FROM thread_sessions WHERE thread_id = ?')
+      .get(channel.id) as { session_id: string } | undefined
+
+    if (!row?.session_id) {
+      await command.reply({
+        content: 'No active session in this thread',
+        ephemeral: true,
+        flags: SILENT_MESSAGE_FLAGS,
+      })
+      return
+    }
+    // Worktree threads run their session against the worktree directory
+    const latestRun = getLatestSessionRun(channel.id)
+    refs = [
+      {
+        sessionId: row.session_id,
+        threadId: channel.id,
+        directory:
+          latestRun?.session_id === row.session_id
+            ? latestRun.project_directory
+            : directory,
+      },
+    ]
+  } else {
+    refs = getChannelSessions({ channelId: textChannel.id, ...range }).map(
+      (row) => {
+        return {
+          sessionId: row.session_id,
+          threadId: row.thread_id,
+          directory: row.project_directory,
+        }
+      },
+    )
+    if (refs.length === 0) {
+      await command.reply({
+        content: 'No sessions found in this channel for that range',
+        ephemeral: true,
+        flags: SILENT_MESSAGE_FLAGS,
+      })
+      return
+    }
   }
 
-  try {
-    const [sessionResponse, messagesResponse] = await Promise.all([
-      getClient().session.get({ path: { id: row.session_id } }),
-      getClient().session.messages({ path: { id: row.session_id } }),
-    ])
-
-    const session = sessionResponse.data
-    const messages = messagesResponse.data || []
-
-    let markdown = `# Session Export\n\n`
-    markdown += `**Session ID:** ${row.session_id}\n`
-    markdown += `**Title:** ${session?.title || 'Untitled'}\n`
-    markdown += `**Directory:** ${directory}\n`
-    markdown += `**Messages:** ${messages.length}\n`
-    markdown += `**Exported:** ${new Date().toISOString()}\n\n`
-    markdown += `---\n\n`
-
-    for (const msg of messages) {
-      const role = msg.info.role === 'user' ? '👤 User' : '🤖 Assistant'
-      markdown += `## ${role}\n\n`
-
-      for (const part of msg.parts) {
-        if (part.type === 'text' && 'text' in part && part.text) {
-          markdown += part.text + '\n\n'
-        } else if (part.type === 'reasoning' && 'text' in part && part.text) {
-          markdown += `_Thinking: ${part.text}_\n\n`
-        } else if (part.type === 'tool' && 'tool' in part) {
-          markdown += `\`Tool: ${part.tool}\`\n\n`
-        }
-      }
+  await command.deferReply({ flags: SILENT_MESSAGE_FLAGS })
 
-      markdown += `---\n\n`
+  const skipped = Math.max(0, refs.length - MAX_EXPORT_SESSIONS)
+  const sessions: ExportedSession[] = []
+  const failures: string[] = []
+  // Most recent sessions win when the channel has more than fit in one file
+  for (const ref of refs.slice(-MAX_EXPORT_SESSIONS)) {
+    const exported = await fetchSession(ref)
+    if (exported instanceof Error) {
+      logger.error(`[EXPORT] Failed to fetch session ${ref.sessionId}:`, exported)
+      failures.push(`${ref.sessionId.slice(0, 8)}: ${exported.message}`)
+      continue
     }
+    const messages = filterMessagesByRange(exported.messages, range)
+    if (scope === 'channel' && messages.length === 0) {
+      continue
+    }
+    sessions.push({ ...exported, messages })
+  }
 
-    const attachment = new AttachmentBuilder(Buffer.from(markdown, 'utf-8'), {
-      name: `session-${row.session_id.slice(0, 8)}.md`,
-    })
-
+  if (sessions.length === 0) {
     await command.editReply({
-      content: '📄 **Session exported to Markdown**',
-      files: [attachment],
+      content: `Failed to export: ${failures[0] ?? 'no messages in that range'}`,
     })
-  } catch (error) {
+    return
+  }
+
+  const { content, extension } = renderSessionExport({ sessions, format, range })
+  const buffer = Buffer.from(content, 'utf-8')
+  if (buffer.byteLength > MAX_ATTACHMENT_BYTES) {
     await command.editReply({
-      content: `Failed to export: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      content: `Failed to export: the ${FORMAT_LABELS[format]} export is ${(buffer.byteLength / 1024 / 1024).toFixed(1)} MB, over Discord's upload limit. Narrow it with \`since\`/\`until\` or use \`format:markdown\`.`,
     })
+    return
+  }
+
+  const name =
+    scope === 'thread'
+      ? `session-${sessions[0]?.sessionId.slice(0, 8)}.${extension}`
+      : `${textChannel.name}-sessions.${extension}`
+  const attachment = new AttachmentBuilder(buffer, { name })
+
+  const notes: string[] = []
+  if (skipped > 0) {
+    notes.push(`Only the ${MAX_EXPORT_SESSIONS} most recent sessions were included (${skipped} older skipped)`)
+  }
+  if (failures.length > 0) {
+    notes.push(`Could not fetch ${failures.length} session(s): ${failures.slice(0, 3).join('; ')}`)
   }
+  const summary =
+    scope === 'thread'
+      ? `📄 **Session exported to ${FORMAT_LABELS[format]}**`
+      : `📄 **${sessions.length} session(s) exported to ${FORMAT_LABELS[format]}**`
+
+  await command.editReply({
+    content: [summary, ...notes.map((note) => `⚠️ ${note}`)].join('\n'),
+    files: [attachment],
+  })
 }
@@ -9,34 +9,51 @@ export async function handleHelpCommand({
 ## Session Management
 - \`/new-session\` - Start a new OpenCode session
 - \`/resume\` - Resume a previous session
+- \`/import\` - Import a JSON export into a new session
 - \`/abort\` or \`/stop\` - Stop the current session
 - \`/fork\` - Fork session from a previous message
 - \`/compact\` - Summarize conversation history
+- \`/template\` - Save and run prompt templates
 
 ## Session Info
-- \`/status\` - Check bot and session status
+- \`/status\` - Check bot, session and OpenCode server status
 - \`/session-info\` - Get session ID and terminal command
 - \`/context\` - Show context window usage
+- \`/cost\` - Show session cost and your spend
 - \`/share\` - Generate a public share URL
-- \`/export\` - Export session to markdown
+- \`/export\` - Export sessions as Markdown, JSON or HTML
 
 ## Code & Files
-- \`/diff\` - Show recent file changes
+- \`/diff\` - Review changes, keep or revert hunks
 - \`/files\` - List project files
 - \`/run\` - Execute a terminal command
 - \`/undo\` / \`/redo\` - Undo/redo changes
 
 ## Worktrees
 - \`/new-worktree\` - Create a git worktree
-- \`/merge-worktree\` - Merge worktree branch
+- \`/merge-worktree\` - Merge or rebase worktree branch
+- \`/open-pr\` - Push worktree branch and open a pull request
+- \`/pr-config\` - Configure forge and remote for /open-pr
 - \`/toggle-worktrees\` - Toggle auto-worktree
+- \`/worktrees\` - List and prune worktrees
 
 ## Configuration
 - \`/model\` - Change AI model
 - \`/agent\` - Change agent
 - \`/login\` - Authenticate with provider
 - \`/verbosity\` - Set output detail level
-- \`/run-config\` - Configure /run notifications
+- \`/display\` - Stream parts or keep a live status message
+- \`/voice-mode\` - Voice assistant or prompt dictation
+- \`/transcription\` - Pick a hosted or local speech-to-text backend
+- \`/voice-summary\` - Speak a summary in the voice channel when sessions complete
+- \`/theme\` - Set, create and preview formatting themes
+- \`/run-config\` - Configure /run notifications and sandbox
+- \`/access\` - Configure role access policies
+- \`/permission-policy\` - Auto-answer permission requests with rules
+- \`/permission-timeout\` - Remind, escalate and auto-reject unanswered requests
+- \`/audit\` - Show audit log events
+- \`/budget\` - Manage spending budgets
+- \`/stats\` - Show usage statistics
 
 ## Project Management
 - \`/add-project\` - Add project channels
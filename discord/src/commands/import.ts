@@ -0,0 +1,91 @@
+// /import command - Import a JSON export from /export into a new session and
+// thread of this project channel.
+
+import type { TextChannel, ThreadChannel } from 'discord.js'
+import type { CommandContext } from './types.js'
+import { getChannelDirectory } from '../database.js'
+import { resolveTextChannel } from '../discord-utils.js'
+import {
+  MAX_IMPORT_BYTES,
+  importSessionToChannel,
+  parseSessionExport,
+  selectImportSession,
+} from '../session-import.js'
+import { createLogger, LogPrefix } from '../logger.js'
+
+const logger = createLogger(LogPrefix.IMPORT)
+
+export async function handleImportCommand({
+  command,
+  appId,
+}: CommandContext): Promise<void> {
+  const attachment = command.options.getAttachment('file', true)
+  const sessionId = command.options.getString('session') ?? undefined
+
+  if (attachment.size > MAX_IMPORT_BYTES) {
+    await command.reply({
+      content: '❌ Export file is too large (max 10 MB)',
+      ephemeral: true,
+    })
+    return
+  }
+
+  const textChannel = await resolveTextChannel(
+    command.channel as TextChannel | ThreadChannel | null,
+  )
+  const channelConfig = textChannel ? getChannelDirectory(textChannel.id) : undefined
+  if (!textChannel || !channelConfig) {
+    await command.reply({
+      content: 'This command can only be used in a project channel',
+      ephemeral: true,
+    })
+    return
+  }
+  if (channelConfig.appId && channelConfig.appId !== appId) {
+    await command.reply({
+      content: 'This channel is not configured for this bot',
+      ephemeral: true,
+    })
+    return
+  }
+
+  await command.deferReply({ ephemeral: false })
+
+  try {
+    const response = await fetch(attachment.url)
+    if (!response.ok) {
+      await command.editReply(`Failed to download export: ${response.status}`)
+      return
+    }
+
+    const sessions = parseSessionExport(await response.text())
+    if (sessions instanceof Error) {
+      await command.editReply(`❌ ${sessions.message}`)
+      return
+    }
+    const exported = selectImportSession({ sessions, sessionId })
+    if (exported instanceof Error) {
+      await command.editReply(`❌ ${exported.message}`)
+      return
+    }
+
+    const result = await importSessionToChannel({
+      channel: textChannel,
+      exported,
+      userId: command.user.id,
+    })
+    if (result instanceof Error) {
+      await command.editReply(`Failed to import session: ${result.message}`)
+      return
+    }
+
+    await command.editReply(
+      `📥 Imported "${exported.session?.title || 'Untitled'}" (${exported.messages.length} messages) in ${result.thread.toString()}`,
+    )
+  } catch (error) {
+    logger.error('[IMPORT] Error:', error)
+    await command.editReply(
+      `Failed to import session: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    )
+  }
+}
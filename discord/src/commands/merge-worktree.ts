@@ -1,18 +1,72 @@
 // /merge-worktree command - Merge worktree commits into main/default branch.
-// Handles both branch-based worktrees and detached HEAD state.
+// Handles both branch-based worktrees and detached HEAD state, with a merge
+// or rebase strategy. Conflicts are detected before touching the worktree;
+// when they happen, a session in the thread resolves them and the merge is
+// only completed after the user confirms with a button.
 // After merge, switches to detached HEAD at main so user can keep working.
 
-import { type ThreadChannel } from 'discord.js'
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  type ButtonInteraction,
+  type ThreadChannel,
+} from 'discord.js'
+import crypto from 'node:crypto'
 import type { CommandContext } from './types.js'
-import { getThreadWorktree } from '../database.js'
+import { getDatabase, getThreadWorktree, markWorktreeMerged } from '../database.js'
 import { createLogger, LogPrefix } from '../logger.js'
-import { execAsync } from '../worktree-utils.js'
+import { execAsync, runGit } from '../worktree-utils.js'
+import { getDefaultBranch } from '../pull-request.js'
+import {
+  abortIntegration,
+  buildResolutionPrompt,
+  continueIntegration,
+  getConflictedFiles,
+  getIntegrationBranch,
+  getIntegrationInProgress,
+  integrateBranch,
+  isMergeStrategy,
+  predictConflicts,
+  TEMP_BRANCH_PREFIX,
+  type MergeStrategy,
+} from '../worktree-merge.js'
+import { abortControllers, handleOpencodeSession } from '../session-handler.js'
+import { toPlatformThread } from '../platform/discord.js'
+import { recordAuditEvent } from '../audit.js'
 
 const logger = createLogger(LogPrefix.WORKTREE)
 
 /** Worktree thread title prefix - indicates unmerged worktree */
 export const WORKTREE_PREFIX = '⬦ '
 
+// Conflicted files listed in a message before collapsing the rest
+const MAX_LISTED_FILES = 10
+
+type MergeContext = {
+  threadId: string
+  projectDirectory: string
+  worktreeDir: string
+  worktreeName: string
+  defaultBranch: string
+  strategy: MergeStrategy
+  isDetached: boolean
+  /** Set once the merge or rebase has started */
+  branchToMerge: string | null
+  tempBranch: string | null
+  conflicts: string[]
+}
+
+type MergeView = {
+  content: string
+  components: ActionRowBuilder<ButtonBuilder>[]
+}
+
+type MergeUser = { id: string; username: string }
+
+// Store merge state by hash to avoid customId length limits (Discord max: 100 chars)
+const mergeContexts = new Map<string, MergeContext>()
+
 /**
  * Remove the worktree prefix from a thread title.
  * Uses Promise.race with timeout since Discord thread title updates can hang.
@@ -72,7 +126,357 @@ async function getCurrentBranch(worktreeDir: string): Promise<string | null> {
   }
 }
 
-export async function handleMergeWorktreeCommand({ command, appId }: CommandContext): Promise<void> {
+async function getDefaultBranchName(mainRepoDir: string): Promise<string> {
+  logger.log(`Getting default branch for ${mainRepoDir}`)
+  // Falls back to main when origin/HEAD is missing or not a valid branch name
+  return getDefaultBranch({ directory: mainRepoDir, remote: 'origin' })
+}
+
+function isThreadSessionRunning(threadId: string): boolean {
+  const row = getDatabase()
+    .prepare('SELECT session_id FROM thread_sessions WHERE thread_id = ?')
+    .get(threadId) as { session_id: string } | undefined
+  const controller = row?.session_id ? abortControllers.get(row.session_id) : undefined
+  return Boolean(controller && !controller.signal.aborted)
+}
+
+function recordMergeEvent({
+  user,
+  thread,
+  summary,
+  details,
+}: {
+  user: MergeUser
+  thread: ThreadChannel
+  summary: string
+  details: Record<string, unknown>
+}): void {
+  recordAuditEvent({
+    eventType: 'merge',
+    userId: user.id,
+    username: user.username,
+    channelId: thread.parentId || undefined,
+    threadId: thread.id,
+    summary,
+    details,
+  })
+}
+
+function formatFileList(files: string[]): string {
+  const listed = files.slice(0, MAX_LISTED_FILES).map((file) => `- \`${file}\``)
+  if (files.length > MAX_LISTED_FILES) {
+    listed.push(`- …and ${files.length - MAX_LISTED_FILES} more`)
+  }
+  return listed.join('\n')
+}
+
+function mergeButtons(
+  hash: string,
+  buttons: { action: string; label: string; style: ButtonStyle }[],
+): ActionRowBuilder<ButtonBuilder>[] {
+  return [
+    new ActionRowBuilder<ButtonBuilder>().addComponents(
+      buttons.map(({ action, label, style }) => {
+        return new ButtonBuilder()
+          .setCustomId(`merge_worktree:${hash}:${action}`)
+          .setLabel(label)
+          .setStyle(style)
+      }),
+    ),
+  ]
+}
+
+function storeContext(context: MergeContext): string {
+  for (const [hash, existing] of mergeContexts) {
+    if (existing.threadId === context.threadId) {
+      mergeContexts.delete(hash)
+    }
+  }
+  const hash = crypto.randomBytes(8).toString('hex')
+  mergeContexts.set(hash, context)
+  return hash
+}
+
+function renderConfirmView(hash: string, context: MergeContext): MergeView {
+  const count = context.conflicts.length
+  return {
+    content: [
+      `⚠️ **${context.strategy === 'rebase' ? 'Rebasing onto' : 'Merging'} \`${context.defaultBranch}\` would conflict in ${count} file${count === 1 ? '' : 's'}:**`,
+      formatFileList(context.conflicts),
+      '',
+      `Press **Resolve with agent** to start the ${context.strategy} and open a session that resolves the conflicts. Nothing is merged until you press **Complete merge**.`,
+    ].join('\n'),
+    components: mergeButtons(hash, [
+      { action: 'resolve', label: 'Resolve with agent', style: ButtonStyle.Primary },
+      { action: 'cancel', label: 'Cancel', style: ButtonStyle.Secondary },
+    ]),
+  }
+}
+
+function renderResolvingView(hash: string, context: MergeContext): MergeView {
+  return {
+    content: [
+      `⚠️ **Conflicts while ${context.strategy === 'rebase' ? 'rebasing onto' : 'merging'} \`${context.defaultBranch}\`:**`,
+      formatFileList(context.conflicts),
+      '',
+      '🤖 A session in this thread is resolving them. Review the result (for example with `/diff`), then press **Complete merge**, or **Abort** to restore the worktree.',
+    ].join('\n'),
+    components: mergeButtons(hash, [
+      { action: 'complete', label: 'Complete merge', style: ButtonStyle.Success },
+      { action: 'abort', label: 'Abort', style: ButtonStyle.Danger },
+    ]),
+  }
+}
+
+/**
+ * Pick the branch to merge, creating a temporary one for detached HEAD.
+ */
+async function prepareBranch(context: MergeContext): Promise<void> {
+  if (context.isDetached) {
+    context.tempBranch = `${TEMP_BRANCH_PREFIX}${Date.now()}`
+    logger.log(`Detached HEAD detected, creating temp branch: ${context.tempBranch}`)
+    const created = await runGit(context.worktreeDir, ['checkout', '-b', context.tempBranch])
+    if (created instanceof Error) {
+      throw created
+    }
+    context.branchToMerge = context.tempBranch
+    return
+  }
+  context.branchToMerge =
+    (await getCurrentBranch(context.worktreeDir)) || context.worktreeName
+}
+
+async function cleanupTempBranch(context: MergeContext): Promise<void> {
+  const { worktreeDir, tempBranch } = context
+  if (!tempBranch) {
+    return
+  }
+  await execAsync(`git -C "${worktreeDir}" checkout --detach`).catch((error) => {
+    logger.warn(
+      `Failed to detach HEAD after merge conflict in ${worktreeDir}:`,
+      error instanceof Error ? error.message : String(error),
+    )
+  })
+  const deleted = await runGit(worktreeDir, ['branch', '-D', '--', tempBranch])
+  if (deleted instanceof Error) {
+    logger.warn(`Failed to delete temp branch ${tempBranch} in ${worktreeDir}:`, deleted.message)
+  }
+}
+
+/**
+ * Point the default branch at the integrated HEAD and detach the worktree.
+ */
+async function completeMerge({
+  context,
+  thread,
+  user,
+}: {
+  context: MergeContext
+  thread: ThreadChannel
+  user: MergeUser
+}): Promise<MergeView> {
+  const { worktreeDir, defaultBranch, branchToMerge, isDetached } = context
+
+  const { stdout: status } = await execAsync(`git -C "${worktreeDir}" status --porcelain`)
+  if (status.trim()) {
+    throw new Error('Worktree has uncommitted changes after the merge - commit or revert them, then retry')
+  }
+
+  // The default branch may have moved while conflicts were being resolved
+  const defaultHash = await runGit(worktreeDir, [
+    'rev-parse',
+    '--verify',
+    '--end-of-options',
+    defaultBranch,
+  ])
+  if (defaultHash instanceof Error) {
+    throw defaultHash
+  }
+  const isAncestor = await runGit(worktreeDir, [
+    'merge-base',
+    '--is-ancestor',
+    '--end-of-options',
+    defaultBranch,
+    'HEAD',
+  ])
+  if (isAncestor instanceof Error) {
+    throw new Error(`${defaultBranch} moved during the merge - run /merge-worktree again`)
+  }
+
+  // Update default branch ref to point to current HEAD
+  // Use update-ref instead of fetch because fetch refuses if branch is checked out
+  logger.log(`Updating ${defaultBranch} to point to current HEAD`)
+  const commitHash = await runGit(worktreeDir, ['rev-parse', 'HEAD'])
+  if (commitHash instanceof Error) {
+    throw commitHash
+  }
+  const updated = await runGit(context.projectDirectory, [
+    'update-ref',
+    `refs/heads/${defaultBranch}`,
+    commitHash,
+    defaultHash,
+  ])
+  if (updated instanceof Error) {
+    throw updated
+  }
+
+  // Switch to detached HEAD at default branch (allows main to be checked out elsewhere)
+  logger.log(`Switching to detached HEAD at ${defaultBranch}`)
+  const detached = await runGit(worktreeDir, ['checkout', '--detach', defaultBranch, '--'])
+  if (detached instanceof Error) {
+    throw detached
+  }
+
+  // Delete the merged branch (temp or original)
+  if (branchToMerge) {
+    logger.log(`Deleting merged branch ${branchToMerge}`)
+    const deleted = await runGit(worktreeDir, ['branch', '-D', '--', branchToMerge])
+    if (deleted instanceof Error) {
+      logger.warn(`Failed to delete merged branch ${branchToMerge} in ${worktreeDir}:`, deleted.message)
+    }
+  }
+
+  // Also delete the original worktree branch if different from what we merged
+  if (!isDetached && branchToMerge !== context.worktreeName) {
+    const deleted = await runGit(worktreeDir, ['branch', '-D', '--', context.worktreeName])
+    if (deleted instanceof Error) {
+      logger.warn(
+        `Failed to delete worktree branch ${context.worktreeName} in ${worktreeDir}:`,
+        deleted.message,
+      )
+    }
+  }
+
+  // Remove worktree prefix from thread title (fire and forget with timeout)
+  void removeWorktreePrefixFromTitle(thread)
+
+  // Garbage collection removes the worktree once it has sat merged for a while
+  markWorktreeMerged(thread.id)
+
+  const sourceName = isDetached || !branchToMerge ? 'detached commits' : branchToMerge
+  logger.log(`Successfully merged ${sourceName} into ${defaultBranch}`)
+  recordMergeEvent({
+    user,
+    thread,
+    summary: `Merged ${sourceName} into ${defaultBranch}`,
+    details: {
+      outcome: 'merged',
+      strategy: context.strategy,
+      branch: branchToMerge,
+      defaultBranch,
+      commit: commitHash.trim(),
+      worktreeDirectory: worktreeDir,
+    },
+  })
+
+  const sourceDesc = sourceName === 'detached commits' ? sourceName : `\`${sourceName}\``
+  const verb = context.strategy === 'rebase' ? 'Rebased and merged' : 'Merged'
+  return {
+    content: `✅ ${verb} ${sourceDesc} into \`${defaultBranch}\`\n\nWorktree now at detached HEAD - you can keep working here.`,
+    components: [],
+  }
+}
+
+/**
+ * Start the merge or rebase. Completes it directly when there are no
+ * conflicts; otherwise leaves the conflicts in the worktree for a session.
+ */
+async function integrateAndMerge({
+  context,
+  thread,
+  user,
+}: {
+  context: MergeContext
+  thread: ThreadChannel
+  user: MergeUser
+}): Promise<{ view: MergeView; resolveConflicts: boolean }> {
+  await prepareBranch(context)
+  logger.log(
+    `Default branch: ${context.defaultBranch}, branch to merge: ${context.branchToMerge}, strategy: ${context.strategy}`,
+  )
+
+  const conflicts = await integrateBranch({
+    directory: context.worktreeDir,
+    target: context.defaultBranch,
+    strategy: context.strategy,
+  })
+  if (conflicts instanceof Error) {
+    await cleanupTempBranch(context)
+    throw conflicts
+  }
+
+  if (conflicts.length === 0) {
+    return { view: await completeMerge({ context, thread, user }), resolveConflicts: false }
+  }
+
+  context.conflicts = conflicts
+  const hash = storeContext(context)
+  recordMergeEvent({
+    user,
+    thread,
+    summary: `Conflicts ${context.strategy === 'rebase' ? 'rebasing onto' : 'merging'} ${context.defaultBranch}, resolving in session`,
+    details: {
+      outcome: 'conflicts',
+      strategy: context.strategy,
+      files: conflicts,
+      worktreeDirectory: context.worktreeDir,
+    },
+  })
+  return { view: renderResolvingView(hash, context), resolveConflicts: true }
+}
+
+async function startResolutionSession({
+  context,
+  thread,
+  user,
+}: {
+  context: MergeContext
+  thread: ThreadChannel
+  user: MergeUser
+}): Promise<void> {
+  await handleOpencodeSession({
+    prompt: buildResolutionPrompt({
+      directory: context.worktreeDir,
+      files: context.conflicts,
+      target: context.defaultBranch,
+      strategy: context.strategy,
+    }),
+    thread: toPlatformThread(thread),
+    projectDirectory: context.projectDirectory,
+    user,
+  })
+}
+
+function failureView({
+  error,
+  context,
+  thread,
+  user,
+}: {
+  error: unknown
+  context: MergeContext
+  thread: ThreadChannel
+  user: MergeUser
+}): MergeView {
+  const errorMsg = error instanceof Error ? error.message : String(error)
+  logger.error(`Merge failed: ${errorMsg}`)
+  recordMergeEvent({
+    user,
+    thread,
+    summary: `Merge failed: ${errorMsg}`,
+    details: {
+      outcome: 'failed',
+      strategy: context.strategy,
+      worktreeDirectory: context.worktreeDir,
+    },
+  })
+  return {
+    content: `❌ Merge failed:\n\`\`\`\n${errorMsg.slice(0, 1500)}\n\`\`\``,
+    components: [],
+  }
+}
+
+export async function handleMergeWorktreeCommand({ command }: CommandContext): Promise<void> {
   await command.deferReply({ ephemeral: false })
 
   const channel = command.channel
@@ -99,11 +503,42 @@ export async function handleMergeWorktreeCommand({ command, appId }: CommandCont
     return
   }
 
-  const mainRepoDir = worktreeInfo.project_directory
   const worktreeDir = worktreeInfo.worktree_directory
+  const strategyOption = command.options.getString('strategy')
+  const user = { id: command.user.id, username: command.user.username }
+  const context: MergeContext = {
+    threadId: thread.id,
+    projectDirectory: worktreeInfo.project_directory,
+    worktreeDir,
+    worktreeName: worktreeInfo.worktree_name,
+    defaultBranch: 'main',
+    strategy: strategyOption && isMergeStrategy(strategyOption) ? strategyOption : 'merge',
+    isDetached: false,
+    branchToMerge: null,
+    tempBranch: null,
+    conflicts: [],
+  }
 
   try {
-    // 1. Check for uncommitted changes
+    context.defaultBranch = await getDefaultBranchName(context.projectDirectory)
+
+    // A merge or rebase left over from an earlier run (e.g. before a restart)
+    const inProgress = await getIntegrationInProgress(worktreeDir)
+    if (inProgress) {
+      const branch = await getIntegrationBranch(worktreeDir)
+      const isTemp = branch?.startsWith(TEMP_BRANCH_PREFIX) ?? false
+      Object.assign(context, {
+        strategy: inProgress,
+        isDetached: !branch || isTemp,
+        branchToMerge: branch,
+        tempBranch: isTemp ? branch : null,
+        conflicts: await getConflictedFiles(worktreeDir),
+      })
+      await command.editReply(renderResolvingView(storeContext(context), context))
+      return
+    }
+
+    // Check for uncommitted changes
     const { stdout: status } = await execAsync(`git -C "${worktreeDir}" status --porcelain`)
     if (status.trim()) {
       await command.editReply(
@@ -112,112 +547,133 @@ export async function handleMergeWorktreeCommand({ command, appId }: CommandCont
       return
     }
 
-    // 2. Get the default branch name
-    logger.log(`Getting default branch for ${mainRepoDir}`)
-    let defaultBranch: string
+    context.isDetached = await isDetachedHead(worktreeDir)
 
-    try {
-      const { stdout } = await execAsync(
-        `git -C "${mainRepoDir}" symbolic-ref refs/remotes/origin/HEAD 2>/dev/null | sed 's@^refs/remotes/origin/@@'`,
-      )
-      defaultBranch = stdout.trim() || 'main'
-    } catch (error) {
-      logger.warn(
-        `Failed to detect default branch for ${mainRepoDir}, falling back to main:`,
-        error instanceof Error ? error.message : String(error),
-      )
-      defaultBranch = 'main'
+    // Detect conflicts before touching the worktree
+    const predicted = await predictConflicts({
+      directory: worktreeDir,
+      target: context.defaultBranch,
+    })
+    if (predicted instanceof Error) {
+      throw predicted
     }
-
-    // 3. Determine if we're on a branch or detached HEAD
-    const isDetached = await isDetachedHead(worktreeDir)
-    const currentBranch = await getCurrentBranch(worktreeDir)
-    let branchToMerge: string
-    let tempBranch: string | null = null
-
-    if (isDetached) {
-      // Create a temporary branch from detached HEAD
-      tempBranch = `temp-merge-${Date.now()}`
-      logger.log(`Detached HEAD detected, creating temp branch: ${tempBranch}`)
-      await execAsync(`git -C "${worktreeDir}" checkout -b ${tempBranch}`)
-      branchToMerge = tempBranch
-    } else {
-      branchToMerge = currentBranch || worktreeInfo.worktree_name
+    if (predicted.length > 0) {
+      context.conflicts = predicted
+      await command.editReply(renderConfirmView(storeContext(context), context))
+      return
     }
 
-    logger.log(`Default branch: ${defaultBranch}, branch to merge: ${branchToMerge}`)
-
-    // 4. Merge default branch INTO worktree (handles diverged branches)
-    logger.log(`Merging ${defaultBranch} into worktree at ${worktreeDir}`)
-    try {
-      await execAsync(`git -C "${worktreeDir}" merge ${defaultBranch} --no-edit`)
-    } catch (e) {
-      // If merge fails (conflicts), abort and report
-      await execAsync(`git -C "${worktreeDir}" merge --abort`).catch((error) => {
-        logger.warn(
-          `Failed to abort merge in ${worktreeDir}:`,
-          error instanceof Error ? error.message : String(error),
-        )
-      })
-      // Clean up temp branch if we created one
-      if (tempBranch) {
-        await execAsync(`git -C "${worktreeDir}" checkout --detach`).catch((error) => {
-          logger.warn(
-            `Failed to detach HEAD after merge conflict in ${worktreeDir}:`,
-            error instanceof Error ? error.message : String(error),
-          )
-        })
-        await execAsync(`git -C "${worktreeDir}" branch -D ${tempBranch}`).catch((error) => {
-          logger.warn(
-            `Failed to delete temp branch ${tempBranch} in ${worktreeDir}:`,
-            error instanceof Error ? error.message : String(error),
-          )
-        })
-      }
-      throw new Error(`Merge conflict - resolve manually in worktree then retry`)
+    // A rebase can still stop on a commit even when the end result merges cleanly
+    const { view, resolveConflicts } = await integrateAndMerge({ context, thread, user })
+    await command.editReply(view)
+    if (resolveConflicts) {
+      await startResolutionSession({ context, thread, user })
     }
+  } catch (e) {
+    await command.editReply(failureView({ error: e, context, thread, user }))
+  }
+}
 
-    // 5. Update default branch ref to point to current HEAD
-    // Use update-ref instead of fetch because fetch refuses if branch is checked out
-    logger.log(`Updating ${defaultBranch} to point to current HEAD`)
-    const { stdout: commitHash } = await execAsync(`git -C "${worktreeDir}" rev-parse HEAD`)
-    await execAsync(`git -C "${mainRepoDir}" update-ref refs/heads/${defaultBranch} ${commitHash.trim()}`)
+/**
+ * Handle the resolve, complete, abort and cancel buttons of a merge.
+ */
+export async function handleMergeWorktreeButton(
+  interaction: ButtonInteraction,
+): Promise<void> {
+  const [, hash, action] = interaction.customId.split(':')
+  const context = hash ? mergeContexts.get(hash) : undefined
+  const thread = interaction.channel
+
+  if (!context || !thread?.isThread() || thread.id !== context.threadId) {
+    await interaction.reply({
+      content: 'This merge has expired. Run /merge-worktree again.',
+      ephemeral: true,
+    })
+    return
+  }
 
-    // 6. Switch to detached HEAD at default branch (allows main to be checked out elsewhere)
-    logger.log(`Switching to detached HEAD at ${defaultBranch}`)
-    await execAsync(`git -C "${worktreeDir}" checkout --detach ${defaultBranch}`)
+  const user = { id: interaction.user.id, username: interaction.user.username }
 
-    // 7. Delete the merged branch (temp or original)
-    logger.log(`Deleting merged branch ${branchToMerge}`)
-    await execAsync(`git -C "${worktreeDir}" branch -D ${branchToMerge}`).catch((error) => {
-      logger.warn(
-        `Failed to delete merged branch ${branchToMerge} in ${worktreeDir}:`,
-        error instanceof Error ? error.message : String(error),
-      )
+  if (action === 'complete' && isThreadSessionRunning(thread.id)) {
+    await interaction.reply({
+      content: 'The session is still working on the conflicts. Wait for it to finish, then press **Complete merge**.',
+      ephemeral: true,
     })
+    return
+  }
 
-    // Also delete the original worktree branch if different from what we merged
-    if (!isDetached && branchToMerge !== worktreeInfo.worktree_name) {
-      await execAsync(`git -C "${worktreeDir}" branch -D ${worktreeInfo.worktree_name}`).catch((error) => {
-        logger.warn(
-          `Failed to delete worktree branch ${worktreeInfo.worktree_name} in ${worktreeDir}:`,
-          error instanceof Error ? error.message : String(error),
-        )
-      })
-    }
+  await interaction.deferUpdate()
 
-    // 8. Remove worktree prefix from thread title (fire and forget with timeout)
-    void removeWorktreePrefixFromTitle(thread)
+  try {
+    switch (action) {
+      case 'cancel': {
+        mergeContexts.delete(hash!)
+        await interaction.editReply({ content: 'Merge cancelled.', components: [] })
+        return
+      }
 
-    const sourceDesc = isDetached ? 'detached commits' : `\`${branchToMerge}\``
-    await command.editReply(
-      `✅ Merged ${sourceDesc} into \`${defaultBranch}\`\n\nWorktree now at detached HEAD - you can keep working here.`,
-    )
+      case 'resolve': {
+        const { view, resolveConflicts } = await integrateAndMerge({ context, thread, user })
+        await interaction.editReply(view)
+        if (resolveConflicts) {
+          await startResolutionSession({ context, thread, user })
+        }
+        return
+      }
+
+      case 'abort': {
+        await abortIntegration(context.worktreeDir)
+        await cleanupTempBranch(context)
+        mergeContexts.delete(hash!)
+        recordMergeEvent({
+          user,
+          thread,
+          summary: `Aborted ${context.strategy} of ${context.defaultBranch}`,
+          details: {
+            outcome: 'aborted',
+            strategy: context.strategy,
+            worktreeDirectory: context.worktreeDir,
+          },
+        })
+        await interaction.editReply({
+          content: `↩️ ${context.strategy === 'rebase' ? 'Rebase' : 'Merge'} aborted. The worktree is back where it was.`,
+          components: [],
+        })
+        return
+      }
+
+      case 'complete': {
+        const step = await continueIntegration(context.worktreeDir)
+        if (step instanceof Error) {
+          await interaction.followUp({
+            content: `❌ Could not complete the ${context.strategy}:\n\`\`\`\n${step.message.slice(0, 1500)}\n\`\`\``,
+            ephemeral: true,
+          })
+          return
+        }
+        if (step.status === 'unresolved') {
+          await interaction.followUp({
+            content: `⚠️ Conflict markers remain in:\n${formatFileList(step.files)}\n\nResolve them (or ask the session to), then press **Complete merge** again.`,
+            ephemeral: true,
+          })
+          return
+        }
+        if (step.status === 'conflicts') {
+          // The rebase stopped again on a later commit
+          context.conflicts = step.files
+          await interaction.editReply(renderResolvingView(hash!, context))
+          await startResolutionSession({ context, thread, user })
+          return
+        }
 
-    logger.log(`Successfully merged ${branchToMerge} into ${defaultBranch}`)
+        const view = await completeMerge({ context, thread, user })
+        mergeContexts.delete(hash!)
+        await interaction.editReply(view)
+        return
+      }
+    }
   } catch (e) {
-    const errorMsg = e instanceof Error ? e.message : String(e)
-    logger.error(`Merge failed: ${errorMsg}`)
-    await command.editReply(`❌ Merge failed:\n\`\`\`\n${errorMsg}\n\`\`\``)
+    mergeContexts.delete(hash!)
+    await interaction.editReply(failureView({ error: e, context, thread, user }))
   }
 }
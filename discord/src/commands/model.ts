@@ -16,6 +16,7 @@ import { resolveTextChannel, getDisundayMetadata } from '../discord-utils.js'
 import { abortAndRetrySession } from '../session-handler.js'
 import { createLogger, LogPrefix } from '../logger.js'
 import * as errore from 'errore'
+import { toPlatformThread } from '../platform/discord.js'
 
 const modelLogger = createLogger(LogPrefix.MODEL)
 
@@ -378,7 +379,7 @@ export async function handleModelSelectMenu(
       if (context.thread) {
         retried = await abortAndRetrySession({
           sessionId: context.sessionId,
-          thread: context.thread,
+          thread: toPlatformThread(context.thread),
           projectDirectory: context.dir,
         })
       }
@@ -0,0 +1,223 @@
+// /open-pr command - Push the worktree branch and open a pull request.
+// Title and body are drafted from the session summary; the forge, remote
+// and base branch come from /pr-config or are detected from the remote.
+
+import { type ThreadChannel } from 'discord.js'
+import type { CommandContext } from './types.js'
+import { getDatabase, getForgeSettings, getThreadWorktree } from '../database.js'
+import { createForge, getForgeToken, isForgeKind, validateForgeApiUrl } from '../forge.js'
+import { ShareMarkdown } from '../markdown.js'
+import { initializeOpencodeForDirectory } from '../opencode.js'
+import {
+  draftPullRequest,
+  getBranchCommits,
+  getDefaultBranch,
+  getRemoteRepository,
+  openPullRequest,
+  resolveForgeKind,
+  validateGitName,
+} from '../pull-request.js'
+import { execAsync } from '../worktree-utils.js'
+import { recordAuditEvent } from '../audit.js'
+import { createLogger, LogPrefix } from '../logger.js'
+
+const logger = createLogger(LogPrefix.FORGE)
+
+/**
+ * Session title and last assistant message, rendered by ShareMarkdown.
+ * Returns empty values when the session cannot be read.
+ */
+async function getSessionSummary({
+  threadId,
+  directory,
+}: {
+  threadId: string
+  directory: string
+}): Promise<{ title?: string; summary?: string }> {
+  const row = getDatabase()
+    .prepare('SELECT session_id FROM thread_sessions WHERE thread_id = ?')
+    .get(threadId) as { session_id: string } | undefined
+  if (!row?.session_id) {
+    return {}
+  }
+
+  const getClient = await initializeOpencodeForDirectory(directory)
+  if (getClient instanceof Error) {
+    logger.warn(`Cannot read session for PR draft: ${getClient.message}`)
+    return {}
+  }
+
+  try {
+    const session = await getClient().session.get({
+      path: { id: row.session_id },
+    })
+    const summary = await new ShareMarkdown(getClient()).generate({
+      sessionID: row.session_id,
+      lastAssistantOnly: true,
+    })
+    return {
+      title: session.data?.title,
+      summary: summary instanceof Error ? undefined : summary,
+    }
+  } catch (error) {
+    logger.warn(
+      `Failed to read session ${row.session_id} for PR draft:`,
+      error instanceof Error ? error.message : String(error),
+    )
+    return {}
+  }
+}
+
+export async function handleOpenPrCommand({ command }: CommandContext): Promise<void> {
+  await command.deferReply({ ephemeral: false })
+
+  const channel = command.channel
+
+  if (!channel || !channel.isThread()) {
+    await command.editReply('This command can only be used in a thread')
+    return
+  }
+
+  const thread = channel as ThreadChannel
+
+  const worktreeInfo = getThreadWorktree(thread.id)
+  if (!worktreeInfo) {
+    await command.editReply('This thread is not associated with a worktree')
+    return
+  }
+
+  if (worktreeInfo.status !== 'ready' || !worktreeInfo.worktree_directory) {
+    await command.editReply(
+      `Worktree is not ready (status: ${worktreeInfo.status})${worktreeInfo.error_message ? `: ${worktreeInfo.error_message}` : ''}`,
+    )
+    return
+  }
+
+  const worktreeDir = worktreeInfo.worktree_directory
+  const settings = getForgeSettings(thread.parentId || thread.id)
+  const remote = settings.remote || 'origin'
+
+  try {
+    const { stdout: status } = await execAsync(`git -C "${worktreeDir}" status --porcelain`)
+    if (status.trim()) {
+      await command.editReply(
+        `❌ Uncommitted changes detected in worktree.\n\nPlease commit your changes first, then retry \`/open-pr\`.`,
+      )
+      return
+    }
+
+    const repository = await getRemoteRepository({ directory: worktreeDir, remote })
+    if (repository instanceof Error) {
+      await command.editReply(`❌ ${repository.message}`)
+      return
+    }
+
+    // The forge token goes to this URL, so it has to belong to the remote
+    const apiUrl = settings.api_url
+      ? validateForgeApiUrl({ apiUrl: settings.api_url, repository })
+      : undefined
+    if (apiUrl instanceof Error) {
+      await command.editReply(`❌ ${apiUrl.message}. Fix it with \`/pr-config set api-url\`.`)
+      return
+    }
+
+    const forgeKind = resolveForgeKind({
+      repository,
+      configured: settings.forge && isForgeKind(settings.forge) ? settings.forge : null,
+    })
+    const token = getForgeToken(forgeKind)
+    if (!token) {
+      await command.editReply(
+        `❌ No ${forgeKind} token configured. Set \`DISUNDAY_FORGE_TOKEN\` or \`${forgeKind === 'gitlab' ? 'GITLAB_TOKEN' : 'GITHUB_TOKEN'}\` for the bot process.`,
+      )
+      return
+    }
+
+    const base =
+      command.options.getString('base') ||
+      settings.base_branch ||
+      (await getDefaultBranch({ directory: worktreeDir, remote }))
+    const validBase = validateGitName({ kind: 'branch', name: base })
+    if (validBase instanceof Error) {
+      await command.editReply(`❌ ${validBase.message}`)
+      return
+    }
+    const { stdout: currentBranch } = await execAsync(
+      `git -C "${worktreeDir}" branch --show-current`,
+    )
+    const branch = currentBranch.trim() || worktreeInfo.worktree_name
+
+    // Refresh the base so the drafted commit list matches what the PR will show
+    await execAsync(`git -C "${worktreeDir}" fetch ${remote} ${base}`).catch((error) => {
+      logger.warn(
+        `Failed to fetch ${remote}/${base}:`,
+        error instanceof Error ? error.message : String(error),
+      )
+    })
+    const [session, commits] = await Promise.all([
+      getSessionSummary({ threadId: thread.id, directory: worktreeInfo.project_directory }),
+      getBranchCommits({ directory: worktreeDir, base: `${remote}/${base}` }),
+    ])
+
+    const draft = draftPullRequest({
+      sessionTitle: command.options.getString('title') || session.title,
+      summary: session.summary,
+      commits,
+      branch,
+      threadUrl: thread.url,
+    })
+
+    const pullRequest = await openPullRequest({
+      directory: worktreeDir,
+      remote,
+      branch,
+      base,
+      title: draft.title,
+      body: draft.body,
+      draft: command.options.getBoolean('draft') ?? false,
+      forge: createForge({
+        kind: forgeKind,
+        token,
+        apiUrl,
+      }),
+      repository,
+    })
+    if (pullRequest instanceof Error) {
+      throw pullRequest
+    }
+
+    await command.editReply(
+      `✅ Opened pull request #${pullRequest.number}: **${draft.title}**\n\`${branch}\` → \`${base}\`\n${pullRequest.url}`,
+    )
+    logger.log(`Opened ${pullRequest.url} from thread ${thread.id}`)
+    recordAuditEvent({
+      eventType: 'merge',
+      userId: command.user.id,
+      username: command.user.username,
+      channelId: thread.parentId || undefined,
+      threadId: thread.id,
+      summary: `Opened pull request ${branch} -> ${base}`,
+      details: {
+        outcome: 'pull-request',
+        url: pullRequest.url,
+        branch,
+        base,
+        forge: forgeKind,
+        worktreeDirectory: worktreeDir,
+      },
+    })
+  } catch (e) {
+    const errorMsg = e instanceof Error ? e.message : String(e)
+    logger.error(`Open PR failed: ${errorMsg}`)
+    recordAuditEvent({
+      eventType: 'merge',
+      userId: command.user.id,
+      username: command.user.username,
+      channelId: thread.parentId || undefined,
+      threadId: thread.id,
+      summary: `Open pull request failed: ${errorMsg}`,
+      details: { outcome: 'pull-request-failed', worktreeDirectory: worktreeDir },
+    })
+    await command.editReply(`❌ Failed to open pull request:\n\`\`\`\n${errorMsg.slice(0, 1500)}\n\`\`\``)
+  }
+}
@@ -0,0 +1,120 @@
+// /permission-policy command.
+// Adds, removes and lists the rules that auto-answer OpenCode permission
+// requests in a channel: allow, deny, or require several approvers.
+
+import { ChatInputCommandInteraction, ChannelType, type ThreadChannel } from 'discord.js'
+import {
+  addPermissionPolicy,
+  getPermissionPolicies,
+  removePermissionPolicy,
+  type PermissionPolicyAction,
+} from '../database.js'
+import { describePolicy } from '../permission-policies.js'
+import { createLogger, LogPrefix } from '../logger.js'
+
+const logger = createLogger(LogPrefix.PERMISSIONS)
+
+/**
+ * Handle the /permission-policy slash command.
+ * Policies are per channel; threads use their parent channel.
+ */
+export async function handlePermissionPolicyCommand({
+  command,
+}: {
+  command: ChatInputCommandInteraction
+  appId: string
+}): Promise<void> {
+  const channel = command.channel
+  if (!channel) {
+    await command.reply({
+      content: 'Could not determine channel.',
+      ephemeral: true,
+    })
+    return
+  }
+
+  // Get the parent channel ID (for threads, use parent; for text channels, use self)
+  const channelId = (() => {
+    if (
+      channel.type === ChannelType.PublicThread ||
+      channel.type === ChannelType.PrivateThread ||
+      channel.type === ChannelType.AnnouncementThread
+    ) {
+      return (channel as ThreadChannel).parentId || channel.id
+    }
+    return channel.id
+  })()
+
+  const subcommand = command.options.getSubcommand()
+
+  if (subcommand === 'list') {
+    const policies = getPermissionPolicies(channelId)
+    await command.reply({
+      content:
+        policies.length > 0
+          ? `🛡️ **Permission policies for this channel**\n${policies.map(describePolicy).join('\n')}\n\nDeny rules win over approval rules, which win over allow rules.`
+          : '🛡️ No permission policies in this channel. Every request asks in the thread.',
+      ephemeral: true,
+    })
+    return
+  }
+
+  if (subcommand === 'remove') {
+    const id = command.options.getInteger('id', true)
+    const removed = removePermissionPolicy({ channelId, id })
+    logger.log(`[POLICY] ${command.user.tag} removed policy #${id} in ${channelId}: ${removed}`)
+    await command.reply({
+      content: removed ? `✓ Removed policy #${id}.` : `No policy #${id} in this channel.`,
+      ephemeral: true,
+    })
+    return
+  }
+
+  const action = command.options.getString('action', true) as PermissionPolicyAction
+  const permission = command.options.getString('permission') ?? '*'
+  const pattern = command.options.getString('pattern')?.trim() || null
+  const useWhitelist = command.options.getBoolean('whitelist') ?? false
+  const approvals = action === 'approvals' ? (command.options.getInteger('approvals') ?? 2) : 1
+
+  const error = (() => {
+    if (useWhitelist && pattern) {
+      return 'Use either `pattern` or `whitelist`, not both.'
+    }
+    if (!useWhitelist && !pattern) {
+      return 'Provide a `pattern` like `src/*` or `*.env*`, or set `whitelist` to match /run whitelisted commands.'
+    }
+    if (useWhitelist && permission !== 'bash') {
+      return '`whitelist` only applies to `bash` requests.'
+    }
+    if (action === 'approvals' && approvals < 2) {
+      return 'Approval rules need at least 2 approvers.'
+    }
+    return undefined
+  })()
+  if (error) {
+    await command.reply({
+      content: `❌ ${error}`,
+      ephemeral: true,
+    })
+    return
+  }
+
+  const id = addPermissionPolicy({
+    channelId,
+    permission,
+    pattern,
+    useWhitelist,
+    action,
+    approvals,
+    createdBy: command.user.id,
+  })
+  logger.log(
+    `[POLICY] ${command.user.tag} added policy #${id} in ${channelId}: ${action} ${permission} ${useWhitelist ? 'whitelist' : pattern}`,
+  )
+
+  const [policy] = getPermissionPolicies(channelId).filter((entry) => entry.id === id)
+  await command.reply({
+    content: `✓ Added ${policy ? describePolicy(policy) : `policy #${id}`}. Automatic decisions are noted in the thread and the audit log.`,
+    ephemeral: true,
+  })
+}
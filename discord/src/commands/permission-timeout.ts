@@ -0,0 +1,86 @@
+// /permission-timeout command.
+// Configures how long permission requests in a channel wait before the
+// requester is reminded, the request is escalated and finally auto-rejected.
+
+import { ChatInputCommandInteraction, ChannelType, type ThreadChannel } from 'discord.js'
+import { getChannelPermissionTimeouts, setChannelPermissionTimeouts } from '../database.js'
+import { formatPermissionTimeouts, validatePermissionTimeouts } from '../permission-timeouts.js'
+import { createLogger, LogPrefix } from '../logger.js'
+
+const logger = createLogger(LogPrefix.PERMISSIONS)
+
+/**
+ * Handle the /permission-timeout slash command.
+ * Settings are per channel; threads use their parent channel.
+ */
+export async function handlePermissionTimeoutCommand({
+  command,
+}: {
+  command: ChatInputCommandInteraction
+  appId: string
+}): Promise<void> {
+  const channel = command.channel
+  if (!channel) {
+    await command.reply({
+      content: 'Could not determine channel.',
+      ephemeral: true,
+    })
+    return
+  }
+
+  // Get the parent channel ID (for threads, use parent; for text channels, use self)
+  const channelId = (() => {
+    if (
+      channel.type === ChannelType.PublicThread ||
+      channel.type === ChannelType.PrivateThread ||
+      channel.type === ChannelType.AnnouncementThread
+    ) {
+      return (channel as ThreadChannel).parentId || channel.id
+    }
+    return channel.id
+  })()
+
+  const subcommand = command.options.getSubcommand()
+  if (subcommand === 'show') {
+    await command.reply({
+      content: `⏳ **Permission timeouts for this channel**\n${formatPermissionTimeouts(getChannelPermissionTimeouts(channelId))}`,
+      ephemeral: true,
+    })
+    return
+  }
+
+  if (subcommand === 'off') {
+    setChannelPermissionTimeouts(channelId, null)
+    logger.log(`[TIMEOUT] ${command.user.tag} turned off permission timeouts in ${channelId}`)
+    await command.reply({
+      content: '⏳ Permission requests in this channel now wait until someone answers.',
+      ephemeral: true,
+    })
+    return
+  }
+
+  const settings = validatePermissionTimeouts({
+    remindMinutes: command.options.getInteger('remind'),
+    escalateMinutes: command.options.getInteger('escalate'),
+    rejectMinutes: command.options.getInteger('reject', true),
+    escalateRoleId: command.options.getRole('role')?.id ?? null,
+    escalateToHub: command.options.getBoolean('hub') ?? false,
+  })
+  if (settings instanceof Error) {
+    await command.reply({
+      content: `❌ ${settings.message}`,
+      ephemeral: true,
+    })
+    return
+  }
+
+  setChannelPermissionTimeouts(channelId, settings)
+  logger.log(
+    `[TIMEOUT] ${command.user.tag} set permission timeouts in ${channelId}: remind ${settings.remindMinutes}, escalate ${settings.escalateMinutes}, reject ${settings.rejectMinutes}`,
+  )
+
+  await command.reply({
+    content: `⏳ Permission timeouts updated for this channel. New requests use them.\n${formatPermissionTimeouts(settings)}`,
+    ephemeral: true,
+  })
+}
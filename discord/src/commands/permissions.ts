@@ -1,32 +1,67 @@
 // Permission dropdown handler - Shows dropdown for permission requests.
 // When OpenCode asks for permission, this module renders a dropdown
-// with Accept, Accept Always, and Deny options.
-
-import {
-  StringSelectMenuBuilder,
-  StringSelectMenuInteraction,
-  ActionRowBuilder,
-  type ThreadChannel,
-} from 'discord.js'
+// with Accept, Accept Always, and Deny options. Requests matched by an
+// approvals policy need several distinct approvers and have no Accept Always.
+// With channel timeouts the message shows a countdown to the auto-rejection.
+
+import { StringSelectMenuInteraction } from 'discord.js'
 import crypto from 'node:crypto'
 import type { PermissionRequest } from '@opencode-ai/sdk/v2'
 import { getOpencodeClientV2 } from '../opencode.js'
-import { NOTIFY_MESSAGE_FLAGS } from '../discord-utils.js'
+import type { PlatformMessage, PlatformThread } from '../platform/types.js'
+import { recordAuditEvent } from '../audit.js'
 import { createLogger, LogPrefix } from '../logger.js'
 
 const logger = createLogger(LogPrefix.PERMISSIONS)
 
-type PendingPermissionContext = {
+export type PendingPermissionContext = {
   permission: PermissionRequest
   requestIds: string[]
   directory: string
-  thread: ThreadChannel
+  thread: PlatformThread
   contextHash: string
+  subtaskLabel?: string
+  // Distinct users who must accept, from an approvals policy
+  requiredApprovals: number
+  policyId?: number
+  approvers: string[]
+  message?: PlatformMessage
+  // Epoch ms of the auto-rejection, from the channel's permission timeouts
+  rejectAt?: number
+  timers: NodeJS.Timeout[]
 }
 
 // Store pending permission contexts by hash
 export const pendingPermissionContexts = new Map<string, PendingPermissionContext>()
 
+export function formatPermissionHeader(
+  context: PendingPermissionContext,
+  { countdown = true }: { countdown?: boolean } = {},
+): string {
+  const patternStr = context.permission.patterns.join(', ')
+  const subtaskLine = context.subtaskLabel ? `**From:** \`${context.subtaskLabel}\`\n` : ''
+  const approvalsLine =
+    context.requiredApprovals > 1
+      ? `\n**Approvals:** ${context.approvers.length}/${context.requiredApprovals} (policy #${context.policyId})` +
+        (context.approvers.length > 0
+          ? ` ${context.approvers.map((userId) => `<@${userId}>`).join(', ')}`
+          : '')
+      : ''
+  // Discord renders <t:…:R> as a live "in 5 minutes" countdown
+  const countdownLine =
+    countdown && context.rejectAt
+      ? `\n⏳ Auto-reject <t:${Math.floor(context.rejectAt / 1000)}:R>`
+      : ''
+  return (
+    `⚠️ **Permission Required**\n\n` +
+    subtaskLine +
+    `**Type:** \`${context.permission.permission}\`` +
+    (patternStr ? `\n**Pattern:** \`${patternStr}\`` : '') +
+    approvalsLine +
+    countdownLine
+  )
+}
+
 /**
  * Show permission dropdown for a permission request.
  * Returns the message ID and context hash for tracking.
@@ -36,11 +71,17 @@ export async function showPermissionDropdown({
   permission,
   directory,
   subtaskLabel,
+  requiredApprovals = 1,
+  policyId,
+  rejectAt,
 }: {
-  thread: ThreadChannel
+  thread: PlatformThread
   permission: PermissionRequest
   directory: string
   subtaskLabel?: string
+  requiredApprovals?: number
+  policyId?: number
+  rejectAt?: number
 }): Promise<{ messageId: string; contextHash: string }> {
   const contextHash = crypto.randomBytes(8).toString('hex')
 
@@ -50,12 +91,16 @@ export async function showPermissionDropdown({
     directory,
     thread,
     contextHash,
+    subtaskLabel,
+    requiredApprovals,
+    policyId,
+    approvers: [],
+    rejectAt,
+    timers: [],
   }
 
   pendingPermissionContexts.set(contextHash, context)
 
-  const patternStr = permission.patterns.join(', ')
-
   // Build dropdown options
   const options = [
     {
@@ -73,25 +118,20 @@ export async function showPermissionDropdown({
       value: 'reject',
       description: 'Reject this permission request',
     },
-  ]
-
-  const selectMenu = new StringSelectMenuBuilder()
-    .setCustomId(`permission:${contextHash}`)
-    .setPlaceholder('Choose an action')
-    .addOptions(options)
-
-  const actionRow = new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(selectMenu)
+  ].filter((option) => {
+    return requiredApprovals <= 1 || option.value !== 'always'
+  })
 
-  const subtaskLine = subtaskLabel ? `**From:** \`${subtaskLabel}\`\n` : ''
   const permissionMessage = await thread.send({
-    content:
-      `⚠️ **Permission Required**\n\n` +
-      subtaskLine +
-      `**Type:** \`${permission.permission}\`\n` +
-      (patternStr ? `**Pattern:** \`${patternStr}\`` : ''),
-    components: [actionRow],
-    flags: NOTIFY_MESSAGE_FLAGS,
+    content: formatPermissionHeader(context),
+    selectMenu: {
+      customId: `permission:${contextHash}`,
+      placeholder: 'Choose an action',
+      options,
+    },
+    notify: true,
   })
+  context.message = permissionMessage
 
   logger.log(`Showed permission dropdown for ${permission.id}`)
 
@@ -125,6 +165,24 @@ export async function handlePermissionSelectMenu(
 
   const response = interaction.values[0] as 'once' | 'always' | 'reject'
 
+  if (response !== 'reject' && context.requiredApprovals > 1) {
+    if (context.approvers.includes(interaction.user.id)) {
+      await interaction.followUp({
+        content: `You already approved. ${context.requiredApprovals - context.approvers.length} more approver(s) needed.`,
+        ephemeral: true,
+      })
+      return
+    }
+    context.approvers = [...context.approvers, interaction.user.id]
+    logger.log(
+      `Permission ${context.permission.id} approved by ${interaction.user.id} (${context.approvers.length}/${context.requiredApprovals})`,
+    )
+    if (context.approvers.length < context.requiredApprovals) {
+      await interaction.editReply({ content: formatPermissionHeader(context) })
+      return
+    }
+  }
+
   try {
     const clientV2 = getOpencodeClientV2(context.directory)
     if (!clientV2) {
@@ -140,7 +198,7 @@ export async function handlePermissionSelectMenu(
       }),
     )
 
-    pendingPermissionContexts.delete(contextHash)
+    cleanupPermissionContext(contextHash)
 
     // Update message: show result and remove dropdown
     const resultText = (() => {
@@ -156,15 +214,31 @@ export async function handlePermissionSelectMenu(
 
     const patternStr = context.permission.patterns.join(', ')
     await interaction.editReply({
-      content:
-        `⚠️ **Permission Required**\n\n` +
-        `**Type:** \`${context.permission.permission}\`\n` +
-        (patternStr ? `**Pattern:** \`${patternStr}\`\n\n` : '\n') +
-        resultText,
+      content: `${formatPermissionHeader(context, { countdown: false })}\n\n${resultText}`,
       components: [], // Remove the dropdown
     })
 
     logger.log(`Permission ${context.permission.id} ${response} (${requestIds.length} request(s))`)
+
+    recordAuditEvent({
+      eventType: 'permission',
+      userId: interaction.user.id,
+      username: interaction.user.username,
+      channelId: context.thread.parentId || undefined,
+      threadId: context.thread.id,
+      sessionId: context.permission.sessionID,
+      summary: `${response} ${context.permission.permission}${patternStr ? ` (${patternStr})` : ''}`,
+      details: {
+        decision: response,
+        permission: context.permission.permission,
+        patterns: context.permission.patterns,
+        requestIds,
+        ...(context.requiredApprovals > 1 && {
+          policyId: context.policyId,
+          approvers: context.approvers,
+        }),
+      },
+    })
   } catch (error) {
     logger.error('Error handling permission:', error)
     await interaction.editReply({
@@ -197,5 +271,9 @@ export function addPermissionRequestToContext({
  * Clean up a pending permission context (e.g., on auto-reject).
  */
 export function cleanupPermissionContext(contextHash: string): void {
+  const context = pendingPermissionContexts.get(contextHash)
+  for (const timer of context?.timers ?? []) {
+    clearTimeout(timer)
+  }
   pendingPermissionContexts.delete(contextHash)
 }
@@ -0,0 +1,113 @@
+// /pr-config command - Configure forge, remote and base branch for /open-pr.
+
+import { ChannelType, type ThreadChannel } from 'discord.js'
+import type { CommandContext } from './types.js'
+import { getForgeSettings, setForgeSettings } from '../database.js'
+import { resolveTextChannel, SILENT_MESSAGE_FLAGS } from '../discord-utils.js'
+import { isForgeKind, validateForgeApiUrl } from '../forge.js'
+import { validateGitName } from '../pull-request.js'
+
+export async function handlePrConfigCommand({
+  command,
+}: CommandContext): Promise<void> {
+  const channel = command.channel
+
+  if (!channel) {
+    await command.reply({
+      content: 'This command can only be used in a channel',
+      ephemeral: true,
+    })
+    return
+  }
+
+  const subcommand = command.options.getSubcommand()
+
+  const isThread = [
+    ChannelType.PublicThread,
+    ChannelType.PrivateThread,
+    ChannelType.AnnouncementThread,
+  ].includes(channel.type)
+
+  let channelId = channel.id
+  if (isThread) {
+    const textChannel = await resolveTextChannel(channel as ThreadChannel)
+    if (textChannel) {
+      channelId = textChannel.id
+    }
+  }
+
+  if (subcommand === 'show') {
+    const settings = getForgeSettings(channelId)
+    await command.reply({
+      content: [
+        '**Pull Request Settings**',
+        '',
+        `🏭 Forge: ${settings.forge || '(detect from remote)'}`,
+        `📡 Remote: \`${settings.remote || 'origin'}\``,
+        `🌿 Base branch: ${settings.base_branch ? `\`${settings.base_branch}\`` : '(remote default branch)'}`,
+        `🔗 API URL: ${settings.api_url ? `\`${settings.api_url}\`` : '(forge default)'}`,
+      ].join('\n'),
+      ephemeral: true,
+      flags: SILENT_MESSAGE_FLAGS,
+    })
+    return
+  }
+
+  if (subcommand === 'set') {
+    const forge = command.options.getString('forge')
+    const remote = command.options.getString('remote')
+    const base = command.options.getString('base')
+    const apiUrl = command.options.getString('api-url')
+
+    if (forge && forge !== 'auto' && !isForgeKind(forge)) {
+      await command.reply({
+        content: `Unknown forge: ${forge}`,
+        ephemeral: true,
+        flags: SILENT_MESSAGE_FLAGS,
+      })
+      return
+    }
+
+    const invalid = [
+      remote ? validateGitName({ kind: 'remote', name: remote }) : undefined,
+      base ? validateGitName({ kind: 'branch', name: base }) : undefined,
+      apiUrl ? validateForgeApiUrl({ apiUrl }) : undefined,
+    ].find((result) => result instanceof Error)
+    if (invalid instanceof Error) {
+      await command.reply({
+        content: `❌ ${invalid.message}`,
+        ephemeral: true,
+        flags: SILENT_MESSAGE_FLAGS,
+      })
+      return
+    }
+
+    setForgeSettings(channelId, {
+      ...(forge !== null && { forge: forge === 'auto' ? null : forge }),
+      ...(remote !== null && { remote: remote || null }),
+      ...(base !== null && { base_branch: base || null }),
+      ...(apiUrl !== null && { api_url: apiUrl || null }),
+    })
+    await command.reply({
+      content: '✅ Pull request settings updated. Use `/pr-config show` to review them.',
+      ephemeral: true,
+      flags: SILENT_MESSAGE_FLAGS,
+    })
+    return
+  }
+
+  if (subcommand === 'reset') {
+    setForgeSettings(channelId, {
+      forge: null,
+      remote: null,
+      base_branch: null,
+      api_url: null,
+    })
+    await command.reply({
+      content: '✅ Pull request settings reset to defaults',
+      ephemeral: true,
+      flags: SILENT_MESSAGE_FLAGS,
+    })
+    return
+  }
+}
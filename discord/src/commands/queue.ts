@@ -13,15 +13,17 @@ import {
   handleOpencodeSession,
   abortControllers,
   addToQueue,
+  getQueue,
   getQueueLength,
   clearQueue,
 } from '../session-handler.js'
 import { createLogger, LogPrefix } from '../logger.js'
+import { toPlatformThread } from '../platform/discord.js'
 
 const logger = createLogger(LogPrefix.QUEUE)
 
-export async function handleQueueCommand({ command }: CommandContext): Promise<void> {
-  const message = command.options.getString('message', true)
+export async function handleQueueCommand({ command, appId }: CommandContext): Promise<void> {
+  const message = command.options.getString('message')
   const channel = command.channel
 
   if (!channel) {
@@ -48,6 +50,11 @@ export async function handleQueueCommand({ command }: CommandContext): Promise<v
     return
   }
 
+  if (!message) {
+    await showQueue({ command, threadId: channel.id })
+    return
+  }
+
   const row = getDatabase()
     .prepare('SELECT session_id FROM thread_sessions WHERE thread_id = ?')
     .get(channel.id) as { session_id: string } | undefined
@@ -91,9 +98,10 @@ export async function handleQueueCommand({ command }: CommandContext): Promise<v
 
     handleOpencodeSession({
       prompt: message,
-      thread: channel as ThreadChannel,
+      thread: toPlatformThread(channel as ThreadChannel),
       projectDirectory,
       channelId: textChannel?.id || channel.id,
+      user: { id: command.user.id, username: command.user.username },
     }).catch(async (e) => {
       logger.error(`[QUEUE] Failed to send message:`, e)
       const errorMsg = e instanceof Error ? e.message : String(e)
@@ -106,6 +114,7 @@ export async function handleQueueCommand({ command }: CommandContext): Promise<v
   // Add to queue
   const queuePosition = addToQueue({
     threadId: channel.id,
+    appId,
     message: {
       prompt: message,
       userId: command.user.id,
@@ -123,6 +132,38 @@ export async function handleQueueCommand({ command }: CommandContext): Promise<v
   logger.log(`[QUEUE] User ${command.user.displayName} queued message in thread ${channel.id}`)
 }
 
+async function showQueue({
+  command,
+  threadId,
+}: {
+  command: CommandContext['command']
+  threadId: string
+}): Promise<void> {
+  const queue = getQueue(threadId)
+
+  if (queue.length === 0) {
+    await command.reply({
+      content: 'No messages in queue',
+      ephemeral: true,
+      flags: SILENT_MESSAGE_FLAGS,
+    })
+    return
+  }
+
+  const lines = queue.map((item, index) => {
+    const preview = item.prompt.slice(0, 80) + (item.prompt.length > 80 ? '...' : '')
+    const queuedAt = Math.floor(item.queuedAt / 1000)
+    const restored = item.restored ? ' ♻️ restored after restart' : ''
+    return `**${index + 1}.** ${item.username} <t:${queuedAt}:R>${restored}\n└ ${preview}`
+  })
+
+  await command.reply({
+    content: `📋 **Queued messages** (${queue.length})\n\n${lines.join('\n')}`,
+    ephemeral: true,
+    flags: SILENT_MESSAGE_FLAGS,
+  })
+}
+
 export async function handleClearQueueCommand({ command }: CommandContext): Promise<void> {
   const channel = command.channel
 
@@ -1,9 +1,24 @@
-// /run-config command - Configure notification settings for /run command.
+// /run-config command - Configure notification and sandbox settings for /run command.
 
 import { ChannelType, type ThreadChannel } from 'discord.js'
 import type { CommandContext } from './types.js'
-import { getRunConfig, setRunConfig } from '../database.js'
+import {
+  getRunConfig,
+  getRunSandbox,
+  setRunConfig,
+  setRunSandbox,
+  type SandboxBackendName,
+} from '../database.js'
 import { resolveTextChannel, SILENT_MESSAGE_FLAGS } from '../discord-utils.js'
+import {
+  checkSandboxBackend,
+  formatRunSandbox,
+  parseWritablePaths,
+  validateRunSandbox,
+} from '../sandbox.js'
+import { createLogger, LogPrefix } from '../logger.js'
+
+const logger = createLogger(LogPrefix.DISCORD)
 
 export async function handleRunConfigCommand({
   command,
@@ -50,6 +65,9 @@ export async function handleRunConfigCommand({
         `${discordStatus} Discord notifications`,
         `${systemStatus} System notifications`,
         `🔗 Webhook: ${webhookStatus}`,
+        '',
+        '**Sandbox**',
+        formatRunSandbox(getRunSandbox(channelId)),
       ].join('\n'),
       ephemeral: true,
       flags: SILENT_MESSAGE_FLAGS,
@@ -91,4 +109,36 @@ export async function handleRunConfigCommand({
     })
     return
   }
+  if (subcommand === 'sandbox') {
+    const settings = validateRunSandbox({
+      backend: command.options.getString('backend', true) as SandboxBackendName,
+      image: command.options.getString('image')?.trim() || null,
+      network: command.options.getBoolean('network') ?? false,
+      writablePaths: parseWritablePaths(command.options.getString('writable')),
+      cpus: command.options.getNumber('cpus'),
+      memoryMb: command.options.getInteger('memory'),
+    })
+    if (settings instanceof Error) {
+      await command.reply({
+        content: `❌ ${settings.message}`,
+        ephemeral: true,
+        flags: SILENT_MESSAGE_FLAGS,
+      })
+      return
+    }
+
+    await command.deferReply({ ephemeral: true })
+    const available = await checkSandboxBackend(settings)
+    if (available instanceof Error) {
+      await command.editReply({ content: `❌ ${available.message}` })
+      return
+    }
+
+    setRunSandbox(channelId, settings)
+    logger.log(`[RUN] ${command.user.tag} set /run sandbox in ${channelId} to ${settings.backend}`)
+    await command.editReply({
+      content: `🧱 /run sandbox updated for this channel\n${formatRunSandbox(settings)}`,
+    })
+    return
+  }
 }
@@ -1,5 +1,6 @@
 // /run command - Execute terminal commands directly from Discord.
 // Supports immediate execution and background mode with dual notifications.
+// Commands run on the host or in the channel's sandbox (see sandbox.ts).
 
 import {
   ChannelType,
@@ -7,19 +8,26 @@ import {
   type ThreadChannel,
   type TextChannel,
 } from 'discord.js'
-import { exec } from 'node:child_process'
+import { exec, execFile } from 'node:child_process'
 import { promisify } from 'node:util'
 import type { CommandContext } from './types.js'
-import { getChannelDirectory, getRunConfig } from '../database.js'
+import { getChannelDirectory, getRunConfig, getRunSandbox } from '../database.js'
 import {
   resolveTextChannel,
   SILENT_MESSAGE_FLAGS,
   NOTIFY_MESSAGE_FLAGS,
 } from '../discord-utils.js'
 import { getBashWhitelist } from '../config.js'
+import { recordAuditEvent } from '../audit.js'
+import {
+  buildSandboxCommand,
+  killSandboxOnTimeout,
+  type SandboxCommand,
+} from '../sandbox.js'
 import { createLogger, LogPrefix } from '../logger.js'
 
 const execAsync = promisify(exec)
+const execFileAsync = promisify(execFile)
 const logger = createLogger(LogPrefix.DISCORD)
 
 const MAX_TIMEOUT_MS = 300_000
@@ -109,6 +117,7 @@ function createResultEmbed({
   exitCode,
   durationMs,
   background,
+  sandbox,
 }: {
   command: string
   stdout: string
@@ -116,6 +125,7 @@ function createResultEmbed({
   exitCode: number | null
   durationMs: number
   background?: boolean
+  sandbox?: string
 }): EmbedBuilder {
   const success = exitCode === 0
   const durationSec = (durationMs / 1000).toFixed(1)
@@ -125,7 +135,9 @@ function createResultEmbed({
     .setTitle(
       `${success ? '✅' : '❌'} ${background ? '[BG] ' : ''}${command.slice(0, 50)}${command.length > 50 ? '...' : ''}`,
     )
-    .setFooter({ text: `Exit: ${exitCode ?? 'killed'} | ${durationSec}s` })
+    .setFooter({
+      text: `Exit: ${exitCode ?? 'killed'} | ${durationSec}s${sandbox ? ` | ${sandbox}` : ''}`,
+    })
     .setTimestamp()
 
   const output = stdout || stderr || '(no output)'
@@ -171,6 +183,7 @@ export async function handleRunCommand({
 
   // Get project directory
   let projectDirectory: string | undefined
+  let settingsChannelId = channel.id
 
   const isThread = [
     ChannelType.PublicThread,
@@ -181,6 +194,7 @@ export async function handleRunCommand({
   if (isThread) {
     const textChannel = await resolveTextChannel(channel as ThreadChannel)
     if (textChannel) {
+      settingsChannelId = textChannel.id
       const config = getChannelDirectory(textChannel.id)
       projectDirectory = config?.directory
     }
@@ -204,6 +218,37 @@ export async function handleRunCommand({
 
   const timeoutMs = Math.min(timeoutSec * 1000, MAX_TIMEOUT_MS)
   const runConfig = getRunConfig(channel.id)
+  const sandbox = getRunSandbox(settingsChannelId)
+
+  let sandboxCommand: SandboxCommand | undefined
+  if (sandbox.backend !== 'host') {
+    const built = buildSandboxCommand({
+      settings: sandbox,
+      command: cmdString,
+      projectDirectory,
+      cwd,
+    })
+    if (built instanceof Error) {
+      await command.reply({
+        content: `❌ ${built.message}`,
+        ephemeral: true,
+        flags: SILENT_MESSAGE_FLAGS,
+      })
+      return
+    }
+    sandboxCommand = built
+  }
+  const sandboxLabel = sandboxCommand ? sandbox.backend : undefined
+
+  recordAuditEvent({
+    eventType: 'run',
+    userId: command.user.id,
+    username: command.user.username,
+    channelId: isThread ? (channel as ThreadChannel).parentId || undefined : channel.id,
+    threadId: isThread ? channel.id : undefined,
+    summary: cmdString,
+    details: { cwd, background, timeoutMs, sandbox: sandbox.backend },
+  })
 
   const sendableChannel = channel as TextChannel | ThreadChannel
 
@@ -223,73 +268,88 @@ export async function handleRunCommand({
 
     const startTime = Date.now()
 
-    exec(
-      cmdString,
-      { cwd, timeout: timeoutMs, maxBuffer: 10 * 1024 * 1024 },
-      async (error, stdout, stderr) => {
-        const durationMs = Date.now() - startTime
-        const exitCode = error?.code ?? (error ? 1 : 0)
-
-        backgroundJobs.delete(jobId)
-
-        const embed = createResultEmbed({
-          command: cmdString,
-          stdout,
-          stderr,
-          exitCode,
-          durationMs,
-          background: true,
-        })
+    const onExit = async (
+      error: (Error & { code?: unknown }) | null,
+      stdout: string,
+      stderr: string,
+    ) => {
+      cancelKill()
+      const durationMs = Date.now() - startTime
+      // execFile reports spawn failures with string codes like ENOENT
+      const exitCode = typeof error?.code === 'number' ? error.code : error ? 1 : 0
 
-        if (runConfig.notify_discord) {
-          try {
-            await sendableChannel.send({
-              content: `<@${command.user.id}>`,
-              embeds: [embed],
-              flags: NOTIFY_MESSAGE_FLAGS,
-            })
-          } catch (e) {
-            logger.error('Failed to send background result:', e)
-          }
-        }
+      backgroundJobs.delete(jobId)
 
-        if (runConfig.notify_system) {
-          const status = exitCode === 0 ? '✅ Success' : '❌ Failed'
-          await sendSystemNotification({
-            title: 'Disunday',
-            message: `${status}: ${cmdString.slice(0, 30)}`,
-          })
-        }
+      const embed = createResultEmbed({
+        command: cmdString,
+        stdout,
+        stderr,
+        exitCode,
+        durationMs,
+        background: true,
+        sandbox: sandboxLabel,
+      })
 
-        if (runConfig.webhook_url) {
-          await sendWebhook({
-            url: runConfig.webhook_url,
-            payload: {
-              type: 'run_complete',
-              command: cmdString,
-              exitCode,
-              durationMs,
-              stdout: stdout.slice(0, 1000),
-              stderr: stderr.slice(0, 1000),
-              userId: command.user.id,
-              channelId: channel.id,
-            },
+      if (runConfig.notify_discord) {
+        try {
+          await sendableChannel.send({
+            content: `<@${command.user.id}>`,
+            embeds: [embed],
+            flags: NOTIFY_MESSAGE_FLAGS,
           })
+        } catch (e) {
+          logger.error('Failed to send background result:', e)
         }
-      },
-    )
+      }
+
+      if (runConfig.notify_system) {
+        const status = exitCode === 0 ? '✅ Success' : '❌ Failed'
+        await sendSystemNotification({
+          title: 'Disunday',
+          message: `${status}: ${cmdString.slice(0, 30)}`,
+        })
+      }
+
+      if (runConfig.webhook_url) {
+        await sendWebhook({
+          url: runConfig.webhook_url,
+          payload: {
+            type: 'run_complete',
+            command: cmdString,
+            exitCode,
+            durationMs,
+            stdout: stdout.slice(0, 1000),
+            stderr: stderr.slice(0, 1000),
+            userId: command.user.id,
+            channelId: channel.id,
+          },
+        })
+      }
+    }
+
+    const execOptions = { cwd, timeout: timeoutMs, maxBuffer: 10 * 1024 * 1024 }
+    const cancelKill = sandboxCommand
+      ? killSandboxOnTimeout({ command: sandboxCommand, timeoutMs })
+      : () => {}
+    if (sandboxCommand) {
+      execFile(sandboxCommand.file, sandboxCommand.args, execOptions, onExit)
+    } else {
+      exec(cmdString, execOptions, onExit)
+    }
   } else {
     // Immediate execution
     await command.deferReply()
 
     const startTime = Date.now()
+    const cancelKill = sandboxCommand
+      ? killSandboxOnTimeout({ command: sandboxCommand, timeoutMs })
+      : () => {}
 
     try {
-      const { stdout, stderr } = await execAsync(cmdString, {
-        cwd,
-        timeout: timeoutMs,
-        maxBuffer: 10 * 1024 * 1024,
-      })
+      const execOptions = { cwd, timeout: timeoutMs, maxBuffer: 10 * 1024 * 1024 }
+      const { stdout, stderr } = sandboxCommand
+        ? await execFileAsync(sandboxCommand.file, sandboxCommand.args, execOptions)
+        : await execAsync(cmdString, execOptions)
 
       const durationMs = Date.now() - startTime
       const embed = createResultEmbed({
@@ -298,13 +358,14 @@ export async function handleRunCommand({
         stderr,
         exitCode: 0,
         durationMs,
+        sandbox: sandboxLabel,
       })
 
       await command.editReply({ embeds: [embed] })
     } catch (error) {
       const durationMs = Date.now() - startTime
       const execError = error as {
-        code?: number
+        code?: number | string
         stdout?: string
         stderr?: string
         killed?: boolean
@@ -315,11 +376,18 @@ export async function handleRunCommand({
         stdout: execError.stdout || '',
         stderr:
           execError.stderr || (error instanceof Error ? error.message : ''),
-        exitCode: execError.killed ? null : (execError.code ?? 1),
+        exitCode: execError.killed
+          ? null
+          : typeof execError.code === 'number'
+            ? execError.code
+            : 1,
         durationMs,
+        sandbox: sandboxLabel,
       })
 
       await command.editReply({ embeds: [embed] })
+    } finally {
+      cancelKill()
     }
   }
 }
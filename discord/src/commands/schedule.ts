@@ -5,8 +5,21 @@ import {
   getSchedulesByChannelIds,
   getScheduleById,
   cancelSchedule,
+  pauseSchedule,
+  resumeSchedule,
+  getPromptTemplate,
+  getChannelDirectory,
+  type ScheduledMessage,
 } from '../database.js'
+import {
+  normalizeRecurrence,
+  getNextCronRun,
+  describeCronExpression,
+  isValidTimeZone,
+  getDefaultTimeZone,
+} from '../cron.js'
 import { SILENT_MESSAGE_FLAGS } from '../discord-utils.js'
+import { runWithTemplate, type TemplateRun } from './template.js'
 import { createLogger, LogPrefix } from '../logger.js'
 
 const scheduleLogger = createLogger(LogPrefix.INTERACTION)
@@ -96,6 +109,99 @@ function formatScheduleTime(timestamp: number): string {
   return `${timeStr} (in ${relative})`
 }
 
+function formatRecurrence(schedule: ScheduledMessage): string {
+  const timeZone = schedule.timezone || getDefaultTimeZone()
+  const nextRun = new Date(schedule.scheduled_at).toLocaleString('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+  const description = describeCronExpression(schedule.cron_expression || '')
+  const state = schedule.status === 'paused' ? ' ⏸️ **paused**' : ''
+  return `🔁 ${description} (${timeZone})${state}\n└ next: ${nextRun}`
+}
+
+function getScheduleTarget(command: ChatInputCommandInteraction): {
+  channelId: string
+  threadId?: string
+} {
+  const isThread = command.channel?.isThread()
+  const parentChannelId = isThread ? (command.channel as ThreadChannel).parentId : null
+  return {
+    channelId: parentChannelId || command.channelId,
+    threadId: isThread ? command.channelId : undefined,
+  }
+}
+
+/**
+ * Whether the command may act on a schedule: it has to belong to the channel
+ * the command runs in (or the thread's parent) and that channel has to be
+ * mapped to this bot, the same scope `/schedule list` shows.
+ */
+function isScheduleInScope({
+  command,
+  schedule,
+  appId,
+}: {
+  command: ChatInputCommandInteraction
+  schedule: ScheduledMessage
+  appId: string
+}): boolean {
+  if (schedule.channel_id !== getScheduleTarget(command).channelId) {
+    return false
+  }
+  const channelConfig = getChannelDirectory(schedule.channel_id)
+  if (!channelConfig) {
+    return false
+  }
+  return !channelConfig.appId || channelConfig.appId === appId
+}
+
+/**
+ * Resolve the scheduled prompt from the `prompt` or `template` option and
+ * create the schedule with it. Template placeholders are asked for in a modal
+ * first, so the schedule is created when the modal is submitted.
+ */
+async function withSchedulePrompt({
+  command,
+  channelId,
+  create,
+}: {
+  command: ChatInputCommandInteraction
+  channelId: string
+  create: TemplateRun
+}): Promise<void> {
+  const prompt = command.options.getString('prompt')
+  const templateName = command.options.getString('template')
+
+  if (prompt && !templateName) {
+    await create({ prompt, interaction: command })
+    return
+  }
+
+  if (!templateName || prompt) {
+    await command.reply({
+      content: '❌ Give either a `prompt` or a `template` to schedule',
+      ephemeral: true,
+    })
+    return
+  }
+
+  const template = getPromptTemplate({ name: templateName, channelId })
+  if (!template) {
+    await command.reply({
+      content: `❌ Template \`${templateName}\` not found`,
+      ephemeral: true,
+    })
+    return
+  }
+
+  await runWithTemplate({ interaction: command, template, run: create })
+}
+
 export async function handleScheduleCommand({
   command,
   appId,
@@ -107,7 +213,6 @@ export async function handleScheduleCommand({
 
   switch (subcommand) {
     case 'add': {
-      const prompt = command.options.getString('prompt', true)
       const time = command.options.getString('time', true)
 
       const scheduledAt = parseTimeInput(time)
@@ -127,25 +232,147 @@ export async function handleScheduleCommand({
         return
       }
 
-      const channelId = command.channelId
-      const isThread = command.channel?.isThread()
-      const threadId = isThread ? command.channelId : undefined
-      const parentChannelId = isThread ? (command.channel as ThreadChannel).parentId : null
-
-      const id = createScheduledMessage({
-        channelId: parentChannelId || channelId,
-        threadId,
-        prompt,
-        scheduledAt,
-        createdBy: command.user.id,
+      const { channelId, threadId } = getScheduleTarget(command)
+
+      await withSchedulePrompt({
+        command,
+        channelId,
+        create: async ({ prompt, interaction }) => {
+          const id = createScheduledMessage({
+            channelId,
+            threadId,
+            prompt,
+            scheduledAt,
+            createdBy: interaction.user.id,
+          })
+
+          scheduleLogger.log(
+            `[SCHEDULE] Created schedule #${id} for ${formatScheduleTime(scheduledAt)}`,
+          )
+
+          await interaction.reply({
+            content: `⏰ Scheduled **#${id}** for ${formatScheduleTime(scheduledAt)}\n\`\`\`\n${prompt.slice(0, 100)}${prompt.length > 100 ? '...' : ''}\n\`\`\``,
+            flags: SILENT_MESSAGE_FLAGS,
+          })
+        },
+      })
+      return
+    }
+
+    case 'repeat': {
+      const when = command.options.getString('when', true)
+      const timeZone = command.options.getString('timezone') || getDefaultTimeZone()
+
+      if (!isValidTimeZone(timeZone)) {
+        await command.reply({
+          content: `❌ Unknown time zone \`${timeZone}\`. Use an IANA name like \`Europe/Berlin\` or \`America/New_York\``,
+          ephemeral: true,
+        })
+        return
+      }
+
+      let cronExpression: string
+      let nextRunAt: number | null
+      try {
+        cronExpression = normalizeRecurrence(when)
+        nextRunAt = getNextCronRun({ expression: cronExpression, timeZone })
+      } catch (error) {
+        await command.reply({
+          content: `❌ ${error instanceof Error ? error.message : String(error)}\n\nUse a preset like \`every weekday at 09:00\`, \`daily at 9pm\`, \`every monday at 10:00\`, \`every 2 hours\`, or a cron expression like \`0 2 * * *\``,
+          ephemeral: true,
+        })
+        return
+      }
+
+      if (!nextRunAt) {
+        await command.reply({
+          content: `❌ \`${cronExpression}\` never runs`,
+          ephemeral: true,
+        })
+        return
+      }
+
+      const { channelId, threadId } = getScheduleTarget(command)
+
+      await withSchedulePrompt({
+        command,
+        channelId,
+        create: async ({ prompt, interaction }) => {
+          const id = createScheduledMessage({
+            channelId,
+            threadId,
+            prompt,
+            scheduledAt: nextRunAt,
+            createdBy: interaction.user.id,
+            cronExpression,
+            timezone: timeZone,
+          })
+
+          scheduleLogger.log(
+            `[SCHEDULE] Created recurring schedule #${id} (${cronExpression} ${timeZone})`,
+          )
+
+          const schedule = getScheduleById(id)!
+          await interaction.reply({
+            content: `⏰ Scheduled **#${id}**\n${formatRecurrence(schedule)}\n\`\`\`\n${prompt.slice(0, 100)}${prompt.length > 100 ? '...' : ''}\n\`\`\``,
+            flags: SILENT_MESSAGE_FLAGS,
+          })
+        },
       })
+      return
+    }
+
+    case 'pause':
+    case 'resume': {
+      const id = command.options.getInteger('id', true)
+      const schedule = getScheduleById(id)
+
+      if (!schedule || !isScheduleInScope({ command, schedule, appId })) {
+        await command.reply({
+          content: `❌ Schedule #${id} not found`,
+          ephemeral: true,
+        })
+        return
+      }
 
-      scheduleLogger.log(
-        `[SCHEDULE] Created schedule #${id} for ${formatScheduleTime(scheduledAt)}`,
-      )
+      if (!schedule.cron_expression) {
+        await command.reply({
+          content: `❌ Schedule #${id} is a one-time schedule. Only recurring schedules can be paused and resumed`,
+          ephemeral: true,
+        })
+        return
+      }
 
+      if (subcommand === 'pause') {
+        if (!pauseSchedule(id)) {
+          await command.reply({
+            content: `❌ Schedule #${id} is ${schedule.status}, not pending`,
+            ephemeral: true,
+          })
+          return
+        }
+        scheduleLogger.log(`[SCHEDULE] Paused schedule #${id}`)
+        await command.reply({
+          content: `⏸️ Paused schedule **#${id}**`,
+          flags: SILENT_MESSAGE_FLAGS,
+        })
+        return
+      }
+
+      const nextRunAt = getNextCronRun({
+        expression: schedule.cron_expression,
+        timeZone: schedule.timezone || getDefaultTimeZone(),
+      })
+      if (!nextRunAt || !resumeSchedule(id, nextRunAt)) {
+        await command.reply({
+          content: `❌ Schedule #${id} is ${schedule.status}, not paused`,
+          ephemeral: true,
+        })
+        return
+      }
+      scheduleLogger.log(`[SCHEDULE] Resumed schedule #${id}`)
       await command.reply({
-        content: `⏰ Scheduled **#${id}** for ${formatScheduleTime(scheduledAt)}\n\`\`\`\n${prompt.slice(0, 100)}${prompt.length > 100 ? '...' : ''}\n\`\`\``,
+        content: `▶️ Resumed schedule **#${id}**\n${formatRecurrence(getScheduleById(id)!)}`,
         flags: SILENT_MESSAGE_FLAGS,
       })
       return
@@ -180,10 +407,14 @@ export async function handleScheduleCommand({
       }
 
       const lines = schedules.map((s) => {
-        const time = formatScheduleTime(s.scheduled_at)
+        const time = s.cron_expression ? formatRecurrence(s) : formatScheduleTime(s.scheduled_at)
         const preview = s.prompt.slice(0, 40) + (s.prompt.length > 40 ? '...' : '')
         const channelMention = showAll ? `<#${s.channel_id}> ` : ''
-        return `**#${s.id}** ${channelMention}${time}\n└ ${preview}`
+        const lastError =
+          s.cron_expression && s.error_message
+            ? `\n└ ⚠️ last run failed: ${s.error_message.slice(0, 80)}`
+            : ''
+        return `**#${s.id}** ${channelMention}${time}\n└ ${preview}${lastError}`
       })
 
       const title = showAll ? '📋 **All Pending Schedules**' : '📋 **Pending Schedules**'
@@ -206,7 +437,7 @@ export async function handleScheduleCommand({
         return
       }
 
-      if (schedule.status !== 'pending') {
+      if (schedule.status !== 'pending' && schedule.status !== 'paused') {
         await command.reply({
           content: `❌ Schedule #${id} is already ${schedule.status}`,
           ephemeral: true,
@@ -1,6 +1,11 @@
 // /new-session command - Start a new OpenCode session.
 
-import { ChannelType, type TextChannel } from 'discord.js'
+import {
+  ChannelType,
+  type ChatInputCommandInteraction,
+  type ModalSubmitInteraction,
+  type TextChannel,
+} from 'discord.js'
 import fs from 'node:fs'
 import path from 'node:path'
 import type { CommandContext, AutocompleteContext } from './types.js'
@@ -10,6 +15,7 @@ import { SILENT_MESSAGE_FLAGS } from '../discord-utils.js'
 import { handleOpencodeSession } from '../session-handler.js'
 import { createLogger, LogPrefix } from '../logger.js'
 import * as errore from 'errore'
+import { toPlatformThread } from '../platform/discord.js'
 
 const logger = createLogger(LogPrefix.SESSION)
 
@@ -19,10 +25,36 @@ export async function handleSessionCommand({ command, appId }: CommandContext):
   const prompt = command.options.getString('prompt', true)
   const filesString = command.options.getString('files') || ''
   const agent = command.options.getString('agent') || undefined
-  const channel = command.channel
+
+  const files = filesString
+    .split(',')
+    .map((f) => f.trim())
+    .filter((f) => f)
+
+  await startChannelSession({ interaction: command, appId, prompt, files, agent })
+}
+
+/**
+ * Start a session in a new thread of the interaction's project channel.
+ * The interaction must already be deferred; the outcome is sent with editReply.
+ */
+export async function startChannelSession({
+  interaction,
+  appId,
+  prompt,
+  files = [],
+  agent,
+}: {
+  interaction: ChatInputCommandInteraction | ModalSubmitInteraction
+  appId: string
+  prompt: string
+  files?: string[]
+  agent?: string
+}): Promise<void> {
+  const channel = interaction.channel
 
   if (!channel || channel.type !== ChannelType.GuildText) {
-    await command.editReply('This command can only be used in text channels')
+    await interaction.editReply('This command can only be used in text channels')
     return
   }
 
@@ -33,32 +65,27 @@ export async function handleSessionCommand({ command, appId }: CommandContext):
   const channelAppId = channelConfig?.appId || undefined
 
   if (channelAppId && channelAppId !== appId) {
-    await command.editReply('This channel is not configured for this bot')
+    await interaction.editReply('This channel is not configured for this bot')
     return
   }
 
   if (!projectDirectory) {
-    await command.editReply('This channel is not configured with a project directory')
+    await interaction.editReply('This channel is not configured with a project directory')
     return
   }
 
   if (!fs.existsSync(projectDirectory)) {
-    await command.editReply(`Directory does not exist: ${projectDirectory}`)
+    await interaction.editReply(`Directory does not exist: ${projectDirectory}`)
     return
   }
 
   try {
     const getClient = await initializeOpencodeForDirectory(projectDirectory)
     if (getClient instanceof Error) {
-      await command.editReply(getClient.message)
+      await interaction.editReply(getClient.message)
       return
     }
 
-    const files = filesString
-      .split(',')
-      .map((f) => f.trim())
-      .filter((f) => f)
-
     let fullPrompt = prompt
     if (files.length > 0) {
       fullPrompt = `${prompt}\n\n@${files.join(' @')}`
@@ -76,20 +103,21 @@ export async function handleSessionCommand({ command, appId }: CommandContext):
     })
 
     // Add user to thread so it appears in their sidebar
-    await thread.members.add(command.user.id)
+    await thread.members.add(interaction.user.id)
 
-    await command.editReply(`Created new session in ${thread.toString()}`)
+    await interaction.editReply(`Created new session in ${thread.toString()}`)
 
     await handleOpencodeSession({
       prompt: fullPrompt,
-      thread,
+      thread: toPlatformThread(thread),
       projectDirectory,
       channelId: textChannel.id,
       agent,
+      user: { id: interaction.user.id, username: interaction.user.username },
     })
   } catch (error) {
     logger.error('[SESSION] Error:', error)
-    await command.editReply(
+    await interaction.editReply(
       `Failed to create session: ${error instanceof Error ? error.message : 'Unknown error'}`,
     )
   }
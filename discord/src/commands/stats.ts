@@ -0,0 +1,163 @@
+// /stats command - Aggregate usage across projects, users and days.
+// Shows prompts, sessions, duration, tokens, cost, models, agents and tool
+// calls for a time window, with simple text bar charts in embeds.
+
+import { ChatInputCommandInteraction, EmbedBuilder } from 'discord.js'
+import {
+  formatPercent,
+  formatTokenCount,
+  getStatsReport,
+  isStatsWindow,
+  renderBarChart,
+  type StatsGroupBy,
+  type StatsWindow,
+} from '../stats.js'
+import { formatUsd } from '../usage.js'
+import { createLogger, LogPrefix } from '../logger.js'
+
+const logger = createLogger(LogPrefix.USAGE)
+
+const CHART_ROWS = 10
+
+function chartField(name: string, chart: string) {
+  return { name, value: `\`\`\`\n${chart}\n\`\`\`` }
+}
+
+export async function handleStatsCommand({
+  command,
+}: {
+  command: ChatInputCommandInteraction
+  appId: string
+}): Promise<void> {
+  const windowOption = command.options.getString('window') ?? '7d'
+  const window: StatsWindow = isStatsWindow(windowOption) ? windowOption : '7d'
+  const groupBy = (command.options.getString('group-by') ??
+    'project') as StatsGroupBy
+
+  await command.deferReply({ ephemeral: true })
+
+  let report
+  try {
+    report = getStatsReport({ window, groupBy })
+  } catch (error) {
+    logger.error('[STATS] Failed to build stats report:', error)
+    await command.editReply({
+      content: `Failed to load stats: ${error instanceof Error ? error.message : String(error)}`,
+    })
+    return
+  }
+
+  const { totals } = report
+  const windowLabel = window === 'all' ? 'All time' : `Last ${window}`
+  const avgDuration =
+    totals.finishedRuns > 0
+      ? `${Math.round(totals.durationMs / totals.finishedRuns / 1000)}s`
+      : '-'
+
+  const summary = new EmbedBuilder()
+    .setTitle(`Disunday Stats · ${windowLabel}`)
+    .setColor(0x5865f2)
+    .addFields(
+      { name: 'Prompts', value: String(totals.runs), inline: true },
+      {
+        name: 'Sessions started',
+        value: String(totals.sessionsStarted),
+        inline: true,
+      },
+      { name: 'Users', value: String(totals.users), inline: true },
+      { name: 'Avg duration', value: avgDuration, inline: true },
+      {
+        name: 'Tokens',
+        value: formatTokenCount(totals.tokens),
+        inline: true,
+      },
+      { name: 'Cost', value: formatUsd(totals.cost), inline: true },
+      {
+        name: 'Error rate',
+        value: `${formatPercent(totals.errors, totals.finishedRuns)} · ${totals.aborted} aborted`,
+        inline: true,
+      },
+      {
+        name: 'Tool calls',
+        value: `${totals.toolCalls} · ${formatPercent(totals.toolErrors, totals.toolCalls)} failed`,
+        inline: true,
+      },
+    )
+    .setTimestamp()
+
+  if (totals.runs === 0 && totals.tokens === 0) {
+    summary.setDescription('_No sessions recorded in this window_')
+    await command.editReply({ embeds: [summary] })
+    return
+  }
+
+  // Days are sorted chronologically, so show the most recent ones
+  const visibleGroups =
+    groupBy === 'day'
+      ? report.groups.slice(-CHART_ROWS)
+      : report.groups.slice(0, CHART_ROWS)
+
+  const breakdown = new EmbedBuilder()
+    .setTitle(`By ${groupBy}`)
+    .setColor(0x5865f2)
+    .addFields(
+      chartField(
+        'Prompts',
+        renderBarChart({
+          entries: visibleGroups.map((group) => {
+            return { label: group.key, value: group.runs }
+          }),
+        }),
+      ),
+      chartField(
+        'Cost',
+        renderBarChart({
+          entries: visibleGroups.map((group) => {
+            return { label: group.key, value: group.cost }
+          }),
+          formatValue: formatUsd,
+        }),
+      ),
+      chartField(
+        'Tokens',
+        renderBarChart({
+          entries: visibleGroups.map((group) => {
+            return { label: group.key, value: group.tokens }
+          }),
+          formatValue: formatTokenCount,
+        }),
+      ),
+    )
+
+  const usage = new EmbedBuilder()
+    .setTitle('Models, agents & tools')
+    .setColor(0x5865f2)
+    .addFields(
+      chartField(
+        'Models (responses)',
+        renderBarChart({
+          entries: report.models.slice(0, CHART_ROWS).map((model) => {
+            return { label: model.name, value: model.responses }
+          }),
+        }),
+      ),
+      chartField(
+        'Agents (prompts)',
+        renderBarChart({
+          entries: report.agents.slice(0, CHART_ROWS).map((agent) => {
+            return { label: agent.name, value: agent.runs }
+          }),
+        }),
+      ),
+      chartField(
+        'Tools (calls)',
+        renderBarChart({
+          entries: report.tools.slice(0, CHART_ROWS).map((tool) => {
+            return { label: tool.name, value: tool.calls }
+          }),
+        }),
+      ),
+    )
+
+  await command.editReply({ embeds: [summary, breakdown, usage] })
+}
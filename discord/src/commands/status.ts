@@ -1,4 +1,5 @@
 import { ChannelType, type ThreadChannel, type TextChannel } from 'discord.js'
+import path from 'node:path'
 import type { CommandContext } from './types.js'
 import { getDatabase, getThreadWorktree } from '../database.js'
 import {
@@ -6,7 +7,57 @@ import {
   getDisundayMetadata,
   SILENT_MESSAGE_FLAGS,
 } from '../discord-utils.js'
-import { initializeOpencodeForDirectory } from '../opencode.js'
+import {
+  getOpencodePoolStatus,
+  initializeOpencodeForDirectory,
+  type OpencodeServerStatus,
+} from '../opencode.js'
+import { getOpencodePoolConfig } from '../config.js'
+
+// Servers listed in the pool section before collapsing the rest
+const MAX_LISTED_SERVERS = 10
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000)
+  if (minutes < 1) {
+    return '<1m'
+  }
+  if (minutes < 60) {
+    return `${minutes}m`
+  }
+  const hours = Math.floor(minutes / 60)
+  return hours < 48 ? `${hours}h ${minutes % 60}m` : `${Math.floor(hours / 24)}d`
+}
+
+function formatServer(server: OpencodeServerStatus): string {
+  const parts = [
+    `\`${path.basename(server.directory)}\` :${server.port}`,
+    `up ${formatDuration(server.uptimeMs)}`,
+    server.activeSessions > 0
+      ? `${server.activeSessions} running session${server.activeSessions === 1 ? '' : 's'}`
+      : `idle ${formatDuration(server.idleMs)}`,
+    server.memoryBytes !== null
+      ? `${Math.round(server.memoryBytes / 1024 ** 2)} MB`
+      : null,
+    server.crashes > 0
+      ? `${server.crashes} crash${server.crashes === 1 ? '' : 'es'}`
+      : null,
+  ]
+  return `• ${parts.filter(Boolean).join(' · ')}`
+}
+
+async function formatServerPool(): Promise<string> {
+  const servers = await getOpencodePoolStatus()
+  const { maxServers, idleTimeoutMs } = getOpencodePoolConfig()
+  const lines = [
+    `**OpenCode Servers:** ${servers.length}/${maxServers} running · idle ones stop after ${formatDuration(idleTimeoutMs)}`,
+    ...servers.slice(0, MAX_LISTED_SERVERS).map(formatServer),
+  ]
+  if (servers.length > MAX_LISTED_SERVERS) {
+    lines.push(`• …and ${servers.length - MAX_LISTED_SERVERS} more`)
+  }
+  return lines.join('\n')
+}
 
 export async function handleStatusCommand({
   command,
@@ -85,6 +136,8 @@ export async function handleStatusCommand({
     worktreeInfo,
     '',
     `**Channel:** ${isThread ? 'Thread' : 'Channel'}`,
+    '',
+    await formatServerPool(),
   ]
     .filter(Boolean)
     .join('\n')
@@ -0,0 +1,359 @@
+// /template command - Save prompt templates per channel or globally and run
+// them. Placeholders like {{module}} are filled in through a modal.
+// Templates can also be used as the prompt of /schedule.
+
+import {
+  ActionRowBuilder,
+  ModalBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+  type ChatInputCommandInteraction,
+  type ModalSubmitInteraction,
+} from 'discord.js'
+import type { AutocompleteContext, CommandContext } from './types.js'
+import {
+  deletePromptTemplate,
+  getPromptTemplate,
+  listPromptTemplates,
+  savePromptTemplate,
+  type PromptTemplate,
+} from '../database.js'
+import {
+  TEMPLATE_NAME_PATTERN,
+  extractPlaceholders,
+  fillTemplate,
+  parseTemplate,
+} from '../prompt-templates.js'
+import { startChannelSession } from './session.js'
+import { SILENT_MESSAGE_FLAGS } from '../discord-utils.js'
+import { createLogger, LogPrefix } from '../logger.js'
+import { createInteractionStore } from '../utils.js'
+
+const logger = createLogger(LogPrefix.INTERACTION)
+
+// Modal text inputs accept at most 4000 characters
+const MAX_TEMPLATE_LENGTH = 4000
+
+type TemplateInteraction = ChatInputCommandInteraction | ModalSubmitInteraction
+
+/** Runs the filled-in prompt, answering the interaction it was given */
+export type TemplateRun = (args: {
+  prompt: string
+  interaction: TemplateInteraction
+}) => Promise<void>
+
+// Contexts of open modals; dismissed ones expire after an hour
+const pendingTemplateEdits = createInteractionStore<{
+  name: string
+  channelId: string | null
+}>({ ttlMs: 60 * 60_000, maxSize: 100 })
+const pendingTemplateFills = createInteractionStore<{
+  template: PromptTemplate
+  run: TemplateRun
+}>({ ttlMs: 60 * 60_000, maxSize: 100 })
+
+/**
+ * Channel templates are stored on, the parent channel when used in a thread.
+ */
+export function getTemplateChannelId(interaction: {
+  channelId: string | null
+  channel: { isThread(): boolean; parentId?: string | null } | null
+}): string {
+  if (interaction.channel?.isThread() && interaction.channel.parentId) {
+    return interaction.channel.parentId
+  }
+  return interaction.channelId || ''
+}
+
+function formatScope(template: PromptTemplate): string {
+  return template.channel_id ? 'this channel' : 'global'
+}
+
+/**
+ * Run a template. Templates with placeholders first ask for their values in
+ * a modal and run once it is submitted.
+ */
+export async function runWithTemplate({
+  interaction,
+  template,
+  run,
+}: {
+  interaction: ChatInputCommandInteraction
+  template: PromptTemplate
+  run: TemplateRun
+}): Promise<void> {
+  const placeholders = extractPlaceholders(template.body)
+  if (placeholders.length === 0) {
+    await run({ prompt: template.body, interaction })
+    return
+  }
+
+  const hash = pendingTemplateFills.add({ template, run })
+
+  const modal = new ModalBuilder()
+    .setCustomId(`template_fill:${hash}`)
+    .setTitle(`Template: ${template.name}`.slice(0, 45))
+    .addComponents(
+      placeholders.map((name) => {
+        return new ActionRowBuilder<TextInputBuilder>().addComponents(
+          new TextInputBuilder()
+            .setCustomId(name)
+            .setLabel(name)
+            .setStyle(TextInputStyle.Paragraph)
+            .setRequired(true),
+        )
+      }),
+    )
+  await interaction.showModal(modal)
+}
+
+async function showTemplateBodyModal({
+  command,
+  name,
+  channelId,
+  body,
+}: {
+  command: ChatInputCommandInteraction
+  name: string
+  channelId: string | null
+  body?: string
+}): Promise<void> {
+  const hash = pendingTemplateEdits.add({ name, channelId })
+
+  const input = new TextInputBuilder()
+    .setCustomId('body')
+    .setLabel('Prompt, with {{placeholders}} to fill in')
+    .setPlaceholder('Review {{pr}} for security issues, focusing on {{area}}')
+    .setStyle(TextInputStyle.Paragraph)
+    .setMaxLength(MAX_TEMPLATE_LENGTH)
+    .setRequired(true)
+  if (body) {
+    input.setValue(body)
+  }
+
+  const modal = new ModalBuilder()
+    .setCustomId(`template_body:${hash}`)
+    .setTitle(`${body ? 'Edit' : 'New'} template: ${name}`.slice(0, 45))
+    .addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(input))
+  await command.showModal(modal)
+}
+
+export async function handleTemplateCommand({
+  command,
+  appId,
+}: CommandContext): Promise<void> {
+  const subcommand = command.options.getSubcommand()
+  const channelId = getTemplateChannelId(command)
+
+  switch (subcommand) {
+    case 'add': {
+      const name = command.options.getString('name', true).toLowerCase()
+      const global = command.options.getBoolean('global') ?? false
+
+      if (!TEMPLATE_NAME_PATTERN.test(name)) {
+        await command.reply({
+          content: '❌ Template names use lowercase letters, digits, `-` and `_` (max 32 characters)',
+          ephemeral: true,
+        })
+        return
+      }
+
+      await showTemplateBodyModal({
+        command,
+        name,
+        channelId: global ? null : channelId,
+      })
+      return
+    }
+
+    case 'edit': {
+      const name = command.options.getString('name', true)
+      const template = getPromptTemplate({ name, channelId })
+      if (!template) {
+        await command.reply({
+          content: `❌ Template \`${name}\` not found`,
+          ephemeral: true,
+        })
+        return
+      }
+
+      await showTemplateBodyModal({
+        command,
+        name: template.name,
+        channelId: template.channel_id,
+        body: template.body,
+      })
+      return
+    }
+
+    case 'list': {
+      const templates = listPromptTemplates(channelId)
+      if (templates.length === 0) {
+        await command.reply({
+          content: 'No templates yet. Create one with `/template add`.',
+          ephemeral: true,
+        })
+        return
+      }
+
+      const lines = templates.map((template) => {
+        const placeholders = extractPlaceholders(template.body)
+        const fields = placeholders.length > 0 ? ` · fields: ${placeholders.join(', ')}` : ''
+        const preview = template.body.replace(/\s+/g, ' ').slice(0, 80)
+        return `• **${template.name}** (${formatScope(template)})${fields}\n  ${preview}${template.body.length > 80 ? '…' : ''}`
+      })
+      let content = `📝 **Templates**\n${lines.join('\n')}`
+      if (content.length > 2000) {
+        content = `${content.slice(0, 1990)}\n…`
+      }
+      await command.reply({ content, flags: SILENT_MESSAGE_FLAGS })
+      return
+    }
+
+    case 'delete': {
+      const name = command.options.getString('name', true)
+      const template = getPromptTemplate({ name, channelId })
+      if (!template || !deletePromptTemplate(template.id)) {
+        await command.reply({
+          content: `❌ Template \`${name}\` not found`,
+          ephemeral: true,
+        })
+        return
+      }
+
+      logger.log(
+        `[TEMPLATE] ${command.user.username} deleted ${formatScope(template)} template ${template.name}`,
+      )
+      await command.reply({
+        content: `🗑️ Deleted template **${template.name}** (${formatScope(template)})`,
+        flags: SILENT_MESSAGE_FLAGS,
+      })
+      return
+    }
+
+    case 'run': {
+      const name = command.options.getString('name', true)
+      const template = getPromptTemplate({ name, channelId })
+      if (!template) {
+        await command.reply({
+          content: `❌ Template \`${name}\` not found`,
+          ephemeral: true,
+        })
+        return
+      }
+
+      await runWithTemplate({
+        interaction: command,
+        template,
+        run: async ({ prompt, interaction }) => {
+          await interaction.deferReply({ ephemeral: false })
+          await startChannelSession({ interaction, appId, prompt })
+        },
+      })
+      return
+    }
+
+    default:
+      await command.reply({
+        content: `Unknown subcommand: ${subcommand}`,
+        ephemeral: true,
+      })
+  }
+}
+
+/**
+ * Handle the template body and placeholder modals.
+ */
+export async function handleTemplateModalSubmit(
+  interaction: ModalSubmitInteraction,
+): Promise<void> {
+  const [kind, hash] = interaction.customId.split(':')
+
+  if (kind === 'template_body') {
+    const context = pendingTemplateEdits.get(hash)
+    if (!context) {
+      await interaction.reply({
+        content: 'This form has expired. Run the command again.',
+        ephemeral: true,
+      })
+      return
+    }
+
+    const body = interaction.fields.getTextInputValue('body')
+    const placeholders = parseTemplate(body)
+    if (placeholders instanceof Error) {
+      await interaction.reply({
+        content: `❌ ${placeholders.message}`,
+        ephemeral: true,
+      })
+      return
+    }
+
+    pendingTemplateEdits.delete(hash)
+    savePromptTemplate({
+      name: context.name,
+      channelId: context.channelId,
+      body,
+      createdBy: interaction.user.id,
+    })
+    const scope = context.channelId ? 'this channel' : 'global'
+    logger.log(
+      `[TEMPLATE] ${interaction.user.username} saved ${scope} template ${context.name}`,
+    )
+    const fields = placeholders.length > 0 ? `\nFields: ${placeholders.join(', ')}` : ''
+    await interaction.reply({
+      content: `📝 Saved template **${context.name}** (${scope})${fields}\nRun it with \`/template run name:${context.name}\``,
+      flags: SILENT_MESSAGE_FLAGS,
+    })
+    return
+  }
+
+  if (kind === 'template_fill') {
+    const pending = pendingTemplateFills.get(hash)
+    if (!pending) {
+      await interaction.reply({
+        content: 'This form has expired. Run the command again.',
+        ephemeral: true,
+      })
+      return
+    }
+    pendingTemplateFills.delete(hash)
+
+    const values = Object.fromEntries(
+      extractPlaceholders(pending.template.body).map((name) => {
+        return [name, interaction.fields.getTextInputValue(name).trim()]
+      }),
+    )
+    await pending.run({
+      prompt: fillTemplate({ body: pending.template.body, values }),
+      interaction,
+    })
+  }
+}
+
+/**
+ * Suggest templates usable in the channel, for any `name` or `template` option.
+ */
+export async function handleTemplateAutocomplete({
+  interaction,
+}: AutocompleteContext): Promise<void> {
+  const focused = interaction.options.getFocused().toLowerCase()
+  const seen = new Set<string>()
+  const choices = listPromptTemplates(getTemplateChannelId(interaction))
+    .filter((template) => {
+      // Channel templates come first and shadow global ones
+      if (seen.has(template.name)) {
+        return false
+      }
+      seen.add(template.name)
+      return template.name.includes(focused)
+    })
+    .slice(0, 25)
+    .map((template) => {
+      return {
+        name: `${template.name} (${formatScope(template)})`.slice(0, 100),
+        value: template.name,
+      }
+    })
+  await interaction.respond(choices)
+}
@@ -1,17 +1,143 @@
+// /theme command - Set the message formatting theme of a channel, and create,
+// edit, preview and delete custom themes shared by every channel.
+
 import {
+  ActionRowBuilder,
   ChatInputCommandInteraction,
   ChannelType,
+  ModalBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+  type ModalSubmitInteraction,
   type ThreadChannel,
 } from 'discord.js'
+import crypto from 'node:crypto'
+import type { AutocompleteContext } from './types.js'
 import {
+  deleteCustomTheme,
   getChannelTheme,
+  getCustomTheme,
+  listCustomThemes,
+  saveCustomTheme,
   setChannelTheme,
-  type ThemeType,
 } from '../database.js'
+import {
+  getThemeConfig,
+  isBuiltinTheme,
+  type ThemeConfig,
+  type ThemeType,
+} from '../message-formatting.js'
+import {
+  THEME_NAME_PATTERN,
+  buildThemeConfig,
+  formatThemeFields,
+  getTheme,
+  renderThemePreview,
+} from '../themes.js'
 import { createLogger, LogPrefix } from '../logger.js'
 
 const themeLogger = createLogger(LogPrefix.THEME)
 
+const BUILTIN_THEME_DESCRIPTIONS: Record<ThemeType, string> = {
+  default: 'Default formatting with diamond bullets and emoji icons.',
+  minimal: 'Minimal formatting with reduced bullets and no emoji. Thinking is hidden.',
+  detailed: 'Rich formatting with emoji icons for different message types.',
+  plain: 'Text-based formatting using brackets like [file], [tool], [edit].',
+}
+
+// Store modal contexts by hash to avoid customId length limits (Discord max: 100 chars)
+const pendingThemeEdits = new Map<
+  string,
+  { name: string; base: ThemeConfig; isNew: boolean }
+>()
+
+function getThemeChannelId(channel: NonNullable<ChatInputCommandInteraction['channel']>): string {
+  if (
+    channel.type === ChannelType.PublicThread ||
+    channel.type === ChannelType.PrivateThread ||
+    channel.type === ChannelType.AnnouncementThread
+  ) {
+    return (channel as ThreadChannel).parentId || channel.id
+  }
+  return channel.id
+}
+
+function describeTheme(name: string): string {
+  if (isBuiltinTheme(name)) {
+    return BUILTIN_THEME_DESCRIPTIONS[name]
+  }
+  return 'Custom theme.'
+}
+
+function formatPreview(name: string, config: ThemeConfig): string {
+  const content = `🎨 **Preview of ${name}**\n\n${renderThemePreview(config)}`
+  return content.length > 2000 ? `${content.slice(0, 1990)}\n…` : content
+}
+
+async function showThemeModal({
+  command,
+  name,
+  base,
+  isNew,
+}: {
+  command: ChatInputCommandInteraction
+  name: string
+  base: ThemeConfig
+  isNew: boolean
+}): Promise<void> {
+  const hash = crypto.randomBytes(8).toString('hex')
+  pendingThemeEdits.set(hash, { name, base, isNew })
+
+  const fields = formatThemeFields(base)
+  const input = ({
+    id,
+    label,
+    value,
+    placeholder,
+  }: {
+    id: string
+    label: string
+    value: string
+    placeholder: string
+  }) => {
+    const textInput = new TextInputBuilder()
+      .setCustomId(id)
+      .setLabel(label)
+      .setPlaceholder(placeholder)
+      .setStyle(TextInputStyle.Paragraph)
+      .setRequired(false)
+    if (value) {
+      textInput.setValue(value)
+    }
+    return new ActionRowBuilder<TextInputBuilder>().addComponents(textInput)
+  }
+
+  const modal = new ModalBuilder()
+    .setCustomId(`theme_save:${hash}`)
+    .setTitle(`${isNew ? 'New' : 'Edit'} theme: ${name}`.slice(0, 45))
+    .addComponents(
+      input({
+        id: 'bullets',
+        label: 'Bullets and options (key: value)',
+        value: fields.bullets,
+        placeholder: 'text: ⬥\ntool: ┣\nemoji: on\nshow-thinking: off',
+      }),
+      input({
+        id: 'toolIcons',
+        label: 'Tool icons (tool: icon)',
+        value: fields.toolIcons,
+        placeholder: 'bash: 💻\nread: 👀\nwebfetch: 🌐',
+      }),
+      input({
+        id: 'codeLanguages',
+        label: 'Code blocks (tool: language)',
+        value: fields.codeLanguages,
+        placeholder: 'bash: sh\nedit: diff\nwrite: ts',
+      }),
+    )
+  await command.showModal(modal)
+}
+
 export async function handleThemeCommand({
   command,
   appId,
@@ -30,49 +156,227 @@ export async function handleThemeCommand({
     return
   }
 
-  const channelId = (() => {
-    if (channel.type === ChannelType.GuildText) {
-      return channel.id
+  const channelId = getThemeChannelId(channel)
+  const subcommand = command.options.getSubcommand()
+
+  switch (subcommand) {
+    case 'set': {
+      const theme = command.options.getString('style', true)
+      if (!getTheme(theme)) {
+        await command.reply({
+          content: `❌ Theme \`${theme}\` not found. See \`/theme list\`.`,
+          ephemeral: true,
+        })
+        return
+      }
+
+      const currentTheme = getChannelTheme(channelId)
+      if (currentTheme === theme) {
+        await command.reply({
+          content: `Theme is already set to **${theme}** for this channel.`,
+          ephemeral: true,
+        })
+        return
+      }
+
+      setChannelTheme(channelId, theme)
+      themeLogger.log(`[THEME] Set channel ${channelId} to ${theme}`)
+
+      await command.reply({
+        content: `Theme set to **${theme}** for this channel.\n${describeTheme(theme)}\nThis is a per-channel setting and applies immediately, including any active sessions.`,
+        ephemeral: true,
+      })
+      return
     }
-    if (
-      channel.type === ChannelType.PublicThread ||
-      channel.type === ChannelType.PrivateThread ||
-      channel.type === ChannelType.AnnouncementThread
-    ) {
-      return (channel as ThreadChannel).parentId || channel.id
+
+    case 'create': {
+      const name = command.options.getString('name', true).toLowerCase()
+      const baseName = (command.options.getString('base') ?? 'default') as ThemeType
+
+      if (!THEME_NAME_PATTERN.test(name)) {
+        await command.reply({
+          content: '❌ Theme names use lowercase letters, digits, `-` and `_` (max 32 characters)',
+          ephemeral: true,
+        })
+        return
+      }
+      if (isBuiltinTheme(name) || getCustomTheme(name)) {
+        await command.reply({
+          content: `❌ Theme \`${name}\` already exists. Use \`/theme edit\` to change a custom theme.`,
+          ephemeral: true,
+        })
+        return
+      }
+
+      await showThemeModal({
+        command,
+        name,
+        base: getThemeConfig(baseName),
+        isNew: true,
+      })
+      return
     }
-    return channel.id
-  })()
 
-  const theme = command.options.getString('style', true) as ThemeType
-  const currentTheme = getChannelTheme(channelId)
+    case 'edit': {
+      const name = command.options.getString('name', true)
+      const config = isBuiltinTheme(name) ? null : getTheme(name)
+      if (!config) {
+        await command.reply({
+          content: `❌ Custom theme \`${name}\` not found. Built-in themes can't be edited, create a custom theme based on one instead.`,
+          ephemeral: true,
+        })
+        return
+      }
 
-  if (currentTheme === theme) {
-    await command.reply({
-      content: `Theme is already set to **${theme}** for this channel.`,
+      await showThemeModal({ command, name, base: config, isNew: false })
+      return
+    }
+
+    case 'preview': {
+      const name = command.options.getString('name') ?? getChannelTheme(channelId)
+      const config = getTheme(name)
+      if (!config) {
+        await command.reply({
+          content: `❌ Theme \`${name}\` not found. See \`/theme list\`.`,
+          ephemeral: true,
+        })
+        return
+      }
+
+      await command.reply({ content: formatPreview(name, config), ephemeral: true })
+      return
+    }
+
+    case 'list': {
+      const currentTheme = getChannelTheme(channelId)
+      const marker = (name: string) => {
+        return name === currentTheme ? ' ← this channel' : ''
+      }
+      const builtins = Object.entries(BUILTIN_THEME_DESCRIPTIONS).map(
+        ([name, description]) => {
+          return `• **${name}**${marker(name)} - ${description}`
+        },
+      )
+      const customs = listCustomThemes().map((theme) => {
+        const by = theme.created_by ? ` by <@${theme.created_by}>` : ''
+        return `• **${theme.name}**${marker(theme.name)}${by}`
+      })
+
+      let content = `🎨 **Built-in themes**\n${builtins.join('\n')}`
+      content +=
+        customs.length > 0
+          ? `\n\n🎨 **Custom themes**\n${customs.join('\n')}`
+          : '\n\nNo custom themes yet. Create one with `/theme create`.'
+      if (content.length > 2000) {
+        content = `${content.slice(0, 1990)}\n…`
+      }
+      await command.reply({
+        content,
+        ephemeral: true,
+        allowedMentions: { parse: [] },
+      })
+      return
+    }
+
+    case 'delete': {
+      const name = command.options.getString('name', true)
+      if (isBuiltinTheme(name) || !deleteCustomTheme(name)) {
+        await command.reply({
+          content: `❌ Custom theme \`${name}\` not found`,
+          ephemeral: true,
+        })
+        return
+      }
+
+      themeLogger.log(`[THEME] ${command.user.username} deleted theme ${name}`)
+      await command.reply({
+        content: `🗑️ Deleted theme **${name}**. Channels using it are back to the default theme.`,
+        ephemeral: true,
+      })
+      return
+    }
+
+    default:
+      await command.reply({
+        content: `Unknown subcommand: ${subcommand}`,
+        ephemeral: true,
+      })
+  }
+}
+
+/**
+ * Save a theme from the create and edit modal, and show its preview.
+ */
+export async function handleThemeModalSubmit(
+  interaction: ModalSubmitInteraction,
+): Promise<void> {
+  const [, hash] = interaction.customId.split(':')
+  const context = hash ? pendingThemeEdits.get(hash) : undefined
+  if (!hash || !context) {
+    await interaction.reply({
+      content: 'This form has expired. Run the command again.',
       ephemeral: true,
     })
     return
   }
 
-  setChannelTheme(channelId, theme)
-  themeLogger.log(`[THEME] Set channel ${channelId} to ${theme}`)
-
-  const description = (() => {
-    switch (theme) {
-      case 'minimal':
-        return 'Minimal formatting with reduced bullets and no emoji. Thinking is hidden.'
-      case 'detailed':
-        return 'Rich formatting with emoji icons for different message types.'
-      case 'plain':
-        return 'Text-based formatting using brackets like [file], [tool], [edit].'
-      default:
-        return 'Default formatting with diamond bullets and emoji icons.'
-    }
-  })()
+  const config = buildThemeConfig({
+    base: context.base,
+    fields: {
+      bullets: interaction.fields.getTextInputValue('bullets'),
+      toolIcons: interaction.fields.getTextInputValue('toolIcons'),
+      codeLanguages: interaction.fields.getTextInputValue('codeLanguages'),
+    },
+  })
+  if (config instanceof Error) {
+    await interaction.reply({
+      content: `❌ ${config.message}`,
+      ephemeral: true,
+    })
+    return
+  }
+
+  pendingThemeEdits.delete(hash)
+  saveCustomTheme({
+    name: context.name,
+    config: JSON.stringify(config),
+    createdBy: interaction.user.id,
+  })
+  themeLogger.log(
+    `[THEME] ${interaction.user.username} ${context.isNew ? 'created' : 'updated'} theme ${context.name}`,
+  )
 
-  await command.reply({
-    content: `Theme set to **${theme}** for this channel.\n${description}\nThis is a per-channel setting and applies immediately, including any active sessions.`,
+  const tip = `\n\nUse it with \`/theme set style:${context.name}\`. Themes are shared by every channel.`
+  await interaction.reply({
+    content: `${formatPreview(context.name, config)}${tip}`.slice(0, 2000),
     ephemeral: true,
   })
 }
+
+/**
+ * Suggest themes: built-in and custom for `style` and preview, custom only
+ * for edit and delete.
+ */
+export async function handleThemeAutocomplete({
+  interaction,
+}: AutocompleteContext): Promise<void> {
+  const focused = interaction.options.getFocused().toLowerCase()
+  const subcommand = interaction.options.getSubcommand()
+  const customs = listCustomThemes().map((theme) => theme.name)
+  const names =
+    subcommand === 'edit' || subcommand === 'delete'
+      ? customs
+      : [...Object.keys(BUILTIN_THEME_DESCRIPTIONS), ...customs]
+
+  await interaction.respond(
+    names
+      .filter((name) => name.includes(focused))
+      .slice(0, 25)
+      .map((name) => {
+        return {
+          name: isBuiltinTheme(name) ? name : `${name} (custom)`,
+          value: name,
+        }
+      }),
+  )
+}
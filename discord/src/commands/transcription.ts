@@ -0,0 +1,103 @@
+// /transcription command.
+// Picks the speech-to-text backend of a channel for voice messages and
+// dictation: hosted Gemini (default), a local whisper.cpp binary or a local
+// OpenAI-compatible HTTP endpoint, with optional correction by a local model.
+
+import { ChatInputCommandInteraction, ChannelType, type ThreadChannel } from 'discord.js'
+import {
+  getChannelTranscription,
+  setChannelTranscription,
+  type TranscriptionBackendName,
+  type TranscriptionSettings,
+} from '../database.js'
+import { validateTranscriptionSettings } from '../transcription.js'
+import { createLogger, LogPrefix } from '../logger.js'
+
+const voiceLogger = createLogger(LogPrefix.VOICE)
+
+function formatSettings(settings: TranscriptionSettings): string {
+  const lines = [`Backend: **${settings.backend}**`]
+  if (settings.backend === 'whisper-cpp') {
+    lines.push(`Model: \`${settings.location}\``)
+  }
+  if (settings.backend === 'http') {
+    lines.push(`Endpoint: \`${settings.location}\``)
+  }
+  if (settings.backend !== 'gemini') {
+    lines.push(
+      settings.correctionUrl
+        ? `Correction: \`${settings.correctionModel}\` at \`${settings.correctionUrl}\``
+        : 'Correction: off',
+    )
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Handle the /transcription slash command.
+ * Settings are per channel; threads use their parent channel.
+ */
+export async function handleTranscriptionCommand({
+  command,
+  appId,
+}: {
+  command: ChatInputCommandInteraction
+  appId: string
+}): Promise<void> {
+  const channel = command.channel
+  if (!channel) {
+    await command.reply({
+      content: 'Could not determine channel.',
+      ephemeral: true,
+    })
+    return
+  }
+
+  // Get the parent channel ID (for threads, use parent; for text channels, use self)
+  const channelId = (() => {
+    if (
+      channel.type === ChannelType.PublicThread ||
+      channel.type === ChannelType.PrivateThread ||
+      channel.type === ChannelType.AnnouncementThread
+    ) {
+      return (channel as ThreadChannel).parentId || channel.id
+    }
+    return channel.id
+  })()
+
+  const subcommand = command.options.getSubcommand()
+  if (subcommand === 'show') {
+    await command.reply({
+      content: `🎙️ **Transcription for this channel**\n${formatSettings(getChannelTranscription(channelId))}`,
+      ephemeral: true,
+    })
+    return
+  }
+
+  const backend = command.options.getString('backend', true) as TranscriptionBackendName
+  const settings = validateTranscriptionSettings({
+    backend,
+    location: backend === 'gemini' ? null : command.options.getString('location'),
+    correctionUrl: backend === 'gemini' ? null : command.options.getString('correction-url'),
+    correctionModel: backend === 'gemini' ? null : command.options.getString('correction-model'),
+  })
+  if (settings instanceof Error) {
+    await command.reply({
+      content: `❌ ${settings.message}`,
+      ephemeral: true,
+    })
+    return
+  }
+
+  setChannelTranscription(channelId, settings)
+  voiceLogger.log(`[TRANSCRIPTION] Set channel ${channelId} to ${backend}`)
+
+  const note =
+    backend === 'gemini'
+      ? 'Audio is sent to Google Gemini.'
+      : 'Audio stays on this machine.'
+  await command.reply({
+    content: `🎙️ Transcription updated for this channel. ${note}\n${formatSettings(settings)}`,
+    ephemeral: true,
+  })
+}
@@ -8,6 +8,7 @@ import { SILENT_MESSAGE_FLAGS } from '../discord-utils.js'
 import { createLogger, LogPrefix } from '../logger.js'
 import { getDatabase, getChannelDirectory } from '../database.js'
 import fs from 'node:fs'
+import { toPlatformThread } from '../platform/discord.js'
 
 const userCommandLogger = createLogger(LogPrefix.USER_CMD)
 
@@ -117,10 +118,11 @@ export const handleUserCommand: CommandHandler = async ({ command, appId }: Comm
 
       await handleOpencodeSession({
         prompt: '', // Not used when command is set
-        thread,
+        thread: toPlatformThread(thread),
         projectDirectory,
         channelId: textChannel?.id,
         command: commandPayload,
+        user: { id: command.user.id, username: command.user.username },
       })
     } else if (textChannel) {
       // Running in text channel - create a new thread
@@ -143,10 +145,11 @@ export const handleUserCommand: CommandHandler = async ({ command, appId }: Comm
 
       await handleOpencodeSession({
         prompt: '', // Not used when command is set
-        thread: newThread,
+        thread: toPlatformThread(newThread),
         projectDirectory,
         channelId: textChannel.id,
         command: commandPayload,
+        user: { id: command.user.id, username: command.user.username },
       })
     }
   } catch (error) {
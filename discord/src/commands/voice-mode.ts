@@ -0,0 +1,92 @@
+// /voice-mode command.
+// Switches the project's voice channel between the realtime voice assistant
+// and dictation, where each utterance becomes a prompt preview to confirm.
+// Run in a thread, dictated prompts go to that thread; run in the project
+// channel, the first confirmed prompt starts a new thread.
+
+import {
+  ChatInputCommandInteraction,
+  ChannelType,
+  type TextChannel,
+  type ThreadChannel,
+} from 'discord.js'
+import { setVoiceChannelMode, type VoiceMode } from '../database.js'
+import { getDisundayMetadata, resolveTextChannel } from '../discord-utils.js'
+import { getProjectVoiceChannelId } from '../dictation.js'
+import { setupVoiceHandling, voiceConnections } from '../voice-handler.js'
+import { createLogger, LogPrefix } from '../logger.js'
+
+const voiceLogger = createLogger(LogPrefix.VOICE)
+
+/**
+ * Handle the /voice-mode slash command.
+ * Applies immediately when the bot is already in the voice channel.
+ */
+export async function handleVoiceModeCommand({
+  command,
+  appId,
+}: {
+  command: ChatInputCommandInteraction
+  appId: string
+}): Promise<void> {
+  const channel = command.channel
+  if (
+    !channel ||
+    (channel.type !== ChannelType.GuildText && !channel.isThread())
+  ) {
+    await command.reply({
+      content: 'Use this command in a project channel or thread.',
+      ephemeral: true,
+    })
+    return
+  }
+
+  const textChannel = await resolveTextChannel(
+    channel as TextChannel | ThreadChannel,
+  )
+  const { projectDirectory } = getDisundayMetadata(textChannel)
+  const voiceChannelId = projectDirectory
+    ? getProjectVoiceChannelId(projectDirectory)
+    : undefined
+  if (!voiceChannelId) {
+    await command.reply({
+      content: '❌ This project has no voice channel. Start the bot with `--enable-voice-channels` to create one.',
+      ephemeral: true,
+    })
+    return
+  }
+
+  const mode = command.options.getString('mode', true) as VoiceMode
+  const threadId = mode === 'dictation' && channel.isThread() ? channel.id : null
+  setVoiceChannelMode({ channelId: voiceChannelId, mode, threadId })
+  voiceLogger.log(
+    `[VOICE-MODE] Set voice channel ${voiceChannelId} to ${mode}${threadId ? ` (thread ${threadId})` : ''}`,
+  )
+
+  const guildId = command.guildId
+  const voiceData = guildId ? voiceConnections.get(guildId) : undefined
+  if (guildId && voiceData?.connection.joinConfig.channelId === voiceChannelId) {
+    await setupVoiceHandling({
+      connection: voiceData.connection,
+      guildId,
+      channelId: voiceChannelId,
+      appId,
+      discordClient: command.client,
+    })
+  }
+
+  const description = (() => {
+    if (mode === 'assistant') {
+      return `The realtime voice assistant answers in <#${voiceChannelId}>.`
+    }
+    const target = threadId
+      ? 'this thread'
+      : 'a new thread in this channel, started by the first prompt you send'
+    return `Each utterance in <#${voiceChannelId}> is transcribed and previewed in ${target}. Press **Send** to submit it, **Edit** to fix it first.`
+  })()
+
+  await command.reply({
+    content: `Voice mode set to **${mode}**.\n${description}`,
+    ephemeral: true,
+  })
+}
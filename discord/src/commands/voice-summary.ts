@@ -0,0 +1,107 @@
+// /voice-summary command.
+// Turns spoken session summaries on or off for a channel and picks the
+// text-to-speech engine: hosted Gemini, a local piper binary or an
+// OpenAI-compatible HTTP endpoint.
+
+import { ChatInputCommandInteraction, ChannelType, type ThreadChannel } from 'discord.js'
+import {
+  getChannelVoiceSummary,
+  setChannelVoiceSummary,
+  type TtsEngineName,
+  type VoiceSummarySettings,
+} from '../database.js'
+import { validateVoiceSummarySettings } from '../tts.js'
+import { createLogger, LogPrefix } from '../logger.js'
+
+const voiceLogger = createLogger(LogPrefix.VOICE)
+
+function formatSettings(settings: VoiceSummarySettings | undefined): string {
+  if (!settings) {
+    return 'Spoken summaries: **off**'
+  }
+  const lines = [`Engine: **${settings.engine}**`]
+  if (settings.engine === 'piper') {
+    lines.push(`Model: \`${settings.location}\``)
+  }
+  if (settings.engine === 'http') {
+    lines.push(`Endpoint: \`${settings.location}\``)
+  }
+  if (settings.voice) {
+    lines.push(`Voice: \`${settings.voice}\``)
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Handle the /voice-summary slash command.
+ * Settings are per channel; threads use their parent channel.
+ */
+export async function handleVoiceSummaryCommand({
+  command,
+  appId,
+}: {
+  command: ChatInputCommandInteraction
+  appId: string
+}): Promise<void> {
+  const channel = command.channel
+  if (!channel) {
+    await command.reply({
+      content: 'Could not determine channel.',
+      ephemeral: true,
+    })
+    return
+  }
+
+  // Get the parent channel ID (for threads, use parent; for text channels, use self)
+  const channelId = (() => {
+    if (
+      channel.type === ChannelType.PublicThread ||
+      channel.type === ChannelType.PrivateThread ||
+      channel.type === ChannelType.AnnouncementThread
+    ) {
+      return (channel as ThreadChannel).parentId || channel.id
+    }
+    return channel.id
+  })()
+
+  const subcommand = command.options.getSubcommand()
+  if (subcommand === 'show') {
+    await command.reply({
+      content: `🔊 **Spoken summaries for this channel**\n${formatSettings(getChannelVoiceSummary(channelId))}`,
+      ephemeral: true,
+    })
+    return
+  }
+
+  if (subcommand === 'off') {
+    setChannelVoiceSummary(channelId, null)
+    voiceLogger.log(`[VOICE SUMMARY] Turned off for channel ${channelId}`)
+    await command.reply({
+      content: '🔇 Spoken summaries turned off for this channel.',
+      ephemeral: true,
+    })
+    return
+  }
+
+  const engine = command.options.getString('engine', true) as TtsEngineName
+  const settings = validateVoiceSummarySettings({
+    engine,
+    location: engine === 'gemini' ? null : command.options.getString('location'),
+    voice: command.options.getString('voice'),
+  })
+  if (settings instanceof Error) {
+    await command.reply({
+      content: `❌ ${settings.message}`,
+      ephemeral: true,
+    })
+    return
+  }
+
+  setChannelVoiceSummary(channelId, settings)
+  voiceLogger.log(`[VOICE SUMMARY] Set channel ${channelId} to ${engine}`)
+
+  await command.reply({
+    content: `🔊 When a session completes and the bot is in the project voice channel, it will read out a short summary.\n${formatSettings(settings)}`,
+    ephemeral: true,
+  })
+}
@@ -15,7 +15,12 @@ import {
 import { initializeOpencodeForDirectory, getOpencodeClientV2 } from '../opencode.js'
 import { SILENT_MESSAGE_FLAGS } from '../discord-utils.js'
 import { createLogger, LogPrefix } from '../logger.js'
-import { createWorktreeWithSubmodules, captureGitDiff, type CapturedDiff } from '../worktree-utils.js'
+import {
+  createWorktreeWithSubmodules,
+  captureGitDiff,
+  WORKTREE_BRANCH_PREFIX,
+  type CapturedDiff,
+} from '../worktree-utils.js'
 import { WORKTREE_PREFIX } from './merge-worktree.js'
 import * as errore from 'errore'
 
@@ -43,7 +48,7 @@ export function formatWorktreeName(name: string): string {
   if (!formatted) {
     return ''
   }
-  return `opencode/disunday-${formatted}`
+  return `${WORKTREE_BRANCH_PREFIX}${formatted}`
 }
 
 /**
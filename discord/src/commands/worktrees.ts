@@ -0,0 +1,247 @@
+// /worktrees command - List worktrees of all projects with disk usage, age
+// and status, and bulk-prune the ones no active thread needs.
+// Listing and pruning are implemented in worktree-lifecycle.ts.
+
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  type ButtonInteraction,
+} from 'discord.js'
+import fs from 'node:fs'
+import path from 'node:path'
+import type { CommandContext } from './types.js'
+import { getProjectDirectories } from '../database.js'
+import {
+  collectProjectWorktrees,
+  pruneWorktrees,
+  selectPrunable,
+  type ProjectWorktree,
+  type ProjectWorktreeReport,
+  type PruneResult,
+} from '../worktree-lifecycle.js'
+import { createLogger, LogPrefix } from '../logger.js'
+import { createInteractionStore } from '../utils.js'
+
+const logger = createLogger(LogPrefix.WORKTREE)
+
+// Worktree lines listed per project before collapsing the rest
+const MAX_LISTED_WORKTREES = 8
+
+const STATE_ICONS: Record<ProjectWorktree['state'], string> = {
+  active: '🟢',
+  merged: '✅',
+  archived: '📦',
+  orphaned: '👻',
+  missing: '❔',
+}
+
+type WorktreesView = {
+  content: string
+  components: ActionRowBuilder<ButtonBuilder>[]
+}
+
+// The bot's app ID behind each view; views unused for an hour expire
+const worktreeViews = createInteractionStore<{ appId: string }>({
+  ttlMs: 60 * 60_000,
+  maxSize: 100,
+})
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 ** 3) {
+    return `${(bytes / 1024 ** 3).toFixed(1)} GB`
+  }
+  if (bytes >= 1024 ** 2) {
+    return `${Math.round(bytes / 1024 ** 2)} MB`
+  }
+  return `${Math.round(bytes / 1024)} KB`
+}
+
+function formatAge(date: Date | null): string {
+  if (!date) {
+    return '?'
+  }
+  const hours = Math.floor((Date.now() - date.getTime()) / (60 * 60 * 1000))
+  if (hours < 1) {
+    return '<1h'
+  }
+  return hours < 48 ? `${hours}h` : `${Math.floor(hours / 24)}d`
+}
+
+function formatWorktree(worktree: ProjectWorktree): string {
+  const name = worktree.branch
+    ? `\`${worktree.branch}\``
+    : `\`${path.basename(worktree.directory)}\` (detached)`
+  const parts = [
+    `${STATE_ICONS[worktree.state]} ${name}`,
+    worktree.state,
+    worktree.threadId ? `<#${worktree.threadId}>` : null,
+    formatAge(worktree.createdAt),
+    worktree.state === 'missing' ? 'directory gone' : formatBytes(worktree.sizeBytes),
+    worktree.dirty ? 'uncommitted changes' : null,
+    worktree.unmerged ? `${worktree.unmerged} unmerged` : null,
+  ]
+  return `• ${parts.filter(Boolean).join(' · ')}`
+}
+
+async function collectReports(appId: string): Promise<ProjectWorktreeReport[]> {
+  const reports: ProjectWorktreeReport[] = []
+  for (const projectDirectory of getProjectDirectories(appId)) {
+    if (!fs.existsSync(projectDirectory)) {
+      continue
+    }
+    reports.push(await collectProjectWorktrees(projectDirectory))
+  }
+  return reports
+}
+
+function renderWorktreesView({
+  hash,
+  reports,
+  notice,
+}: {
+  hash: string
+  reports: ProjectWorktreeReport[]
+  notice?: string
+}): WorktreesView {
+  const worktrees = reports.flatMap((report) => report.worktrees)
+  const totalBytes = worktrees.reduce((sum, worktree) => sum + worktree.sizeBytes, 0)
+  const lines = [
+    `🌳 **Worktrees** · ${worktrees.length} worktree${worktrees.length === 1 ? '' : 's'} · ${formatBytes(totalBytes)}`,
+  ]
+  if (notice) {
+    lines.push(notice)
+  }
+
+  for (const report of reports) {
+    if (report.worktrees.length === 0 && report.orphanBranches.length === 0) {
+      continue
+    }
+    lines.push('', `**${path.basename(report.projectDirectory)}** \`${report.projectDirectory}\``)
+    lines.push(...report.worktrees.slice(0, MAX_LISTED_WORKTREES).map(formatWorktree))
+    if (report.worktrees.length > MAX_LISTED_WORKTREES) {
+      lines.push(`• …and ${report.worktrees.length - MAX_LISTED_WORKTREES} more`)
+    }
+    if (report.orphanBranches.length > 0) {
+      const branches = report.orphanBranches.map((branch) => {
+        return `\`${branch.name}\`${branch.merged ? '' : ' (unmerged)'}`
+      })
+      lines.push(`Orphaned branches: ${branches.join(', ')}`)
+    }
+  }
+
+  const safe = reports.map((report) => selectPrunable(report))
+  const forced = reports.map((report) => selectPrunable(report, { force: true }))
+  const count = (selections: typeof safe) => {
+    return selections.reduce((sum, selection) => {
+      return sum + selection.worktrees.length + selection.branches.length
+    }, 0)
+  }
+  const safeCount = count(safe)
+  const forcedCount = count(forced)
+
+  if (worktrees.length === 0 && safeCount === 0 && forcedCount === 0) {
+    lines.push('', 'No worktrees.')
+  } else {
+    lines.push(
+      '',
+      `**Prune safe** removes ${safeCount} merged, archived or orphaned item${safeCount === 1 ? '' : 's'} with no unmerged work. **Prune all inactive** also removes ${forcedCount - safeCount} with uncommitted or unmerged work. Active worktrees are never pruned.`,
+    )
+  }
+
+  const buttons = new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(`worktrees:${hash}:prune-safe`)
+      .setLabel(`Prune safe (${safeCount})`)
+      .setStyle(ButtonStyle.Primary)
+      .setDisabled(safeCount === 0),
+    new ButtonBuilder()
+      .setCustomId(`worktrees:${hash}:prune-all`)
+      .setLabel(`Prune all inactive (${forcedCount})`)
+      .setStyle(ButtonStyle.Danger)
+      .setDisabled(forcedCount === safeCount),
+    new ButtonBuilder()
+      .setCustomId(`worktrees:${hash}:refresh`)
+      .setLabel('Refresh')
+      .setStyle(ButtonStyle.Secondary),
+  )
+
+  let content = lines.join('\n')
+  if (content.length > 2000) {
+    content = `${content.slice(0, 1990)}\n…`
+  }
+  return { content, components: [buttons] }
+}
+
+function formatPruneResult(result: PruneResult): string {
+  const lines = [
+    `🧹 Removed ${result.removed.length} worktree${result.removed.length === 1 ? '' : 's'} and ${result.branches.length} branch${result.branches.length === 1 ? '' : 'es'}`,
+  ]
+  for (const failure of result.failed.slice(0, 3)) {
+    lines.push(`⚠️ \`${failure.name}\`: ${failure.reason.slice(0, 150)}`)
+  }
+  return lines.join('\n')
+}
+
+export async function handleWorktreesCommand({
+  command,
+  appId,
+}: CommandContext): Promise<void> {
+  await command.deferReply({ ephemeral: false })
+
+  try {
+    const hash = worktreeViews.add({ appId })
+    const reports = await collectReports(appId)
+    await command.editReply(renderWorktreesView({ hash, reports }))
+  } catch (error) {
+    logger.error('[WORKTREES] Failed to list worktrees:', error)
+    await command.editReply(
+      `Failed to list worktrees: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    )
+  }
+}
+
+/**
+ * Handle the prune and refresh buttons of a /worktrees view.
+ */
+export async function handleWorktreesButton(
+  interaction: ButtonInteraction,
+): Promise<void> {
+  const [, hash, action] = interaction.customId.split(':')
+  const view = worktreeViews.get(hash)
+
+  if (!view) {
+    await interaction.reply({
+      content: 'This worktree list has expired. Run /worktrees again.',
+      ephemeral: true,
+    })
+    return
+  }
+
+  await interaction.deferUpdate()
+
+  let reports = await collectReports(view.appId)
+  let notice: string | undefined
+
+  if (action === 'prune-safe' || action === 'prune-all') {
+    // Selected from fresh state, not from what the list showed
+    const force = action === 'prune-all'
+    const total: PruneResult = { removed: [], branches: [], failed: [] }
+    for (const report of reports) {
+      const result = await pruneWorktrees({
+        projectDirectory: report.projectDirectory,
+        ...selectPrunable(report, { force }),
+      })
+      total.removed.push(...result.removed)
+      total.branches.push(...result.branches)
+      total.failed.push(...result.failed)
+    }
+    logger.log(
+      `[WORKTREES] ${interaction.user.username} pruned ${total.removed.length} worktree(s) and ${total.branches.length} branch(es)${force ? ' (including unmerged work)' : ''}`,
+    )
+    notice = formatPruneResult(total)
+    reports = await collectReports(view.appId)
+  }
+
+  await interaction.editReply(renderWorktreesView({ hash: hash!, reports, notice }))
+}
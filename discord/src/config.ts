@@ -46,7 +46,7 @@ export function getProjectsDir(): string {
 
 // Default verbosity for channels that haven't set a per-channel override.
 // Set via --verbosity CLI flag at startup.
-import type { VerbosityLevel } from './database.js'
+import type { DisplayMode, VerbosityLevel } from './database.js'
 
 let defaultVerbosity: VerbosityLevel = 'tools-and-text'
 
@@ -58,6 +58,18 @@ export function setDefaultVerbosity(level: VerbosityLevel): void {
   defaultVerbosity = level
 }
 
+// Default display mode for channels without a per-channel override.
+// Set via --display-mode CLI flag at startup.
+let defaultDisplayMode: DisplayMode = 'stream'
+
+export function getDefaultDisplayMode(): DisplayMode {
+  return defaultDisplayMode
+}
+
+export function setDefaultDisplayMode(mode: DisplayMode): void {
+  defaultDisplayMode = mode
+}
+
 const DEFAULT_LOCK_PORT = 29988
 
 /**
@@ -154,6 +166,29 @@ export function setRateLimitConfig(config: RateLimitConfig): void {
   rateLimitConfig = config
 }
 
+// OpenCode server pool limits
+export type OpencodePoolConfig = {
+  /** Servers running at once; idle ones are evicted to start a new one */
+  maxServers: number
+  /** Servers with no running session are stopped after this long unused */
+  idleTimeoutMs: number
+}
+
+const DEFAULT_OPENCODE_POOL: OpencodePoolConfig = {
+  maxServers: 8,
+  idleTimeoutMs: 30 * 60 * 1000,
+}
+
+let opencodePoolConfig: OpencodePoolConfig = DEFAULT_OPENCODE_POOL
+
+export function getOpencodePoolConfig(): OpencodePoolConfig {
+  return opencodePoolConfig
+}
+
+export function setOpencodePoolConfig(config: Partial<OpencodePoolConfig>): void {
+  opencodePoolConfig = { ...opencodePoolConfig, ...config }
+}
+
 // File validation configuration for uploaded files
 export type FileValidationConfig = {
   maxFileSizeBytes: number
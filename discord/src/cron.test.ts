@@ -0,0 +1,174 @@
+import { describe, expect, test } from 'vitest'
+import {
+  describeCronExpression,
+  getNextCronRun,
+  normalizeRecurrence,
+  parseCronExpression,
+} from './cron.js'
+
+describe('normalizeRecurrence', () => {
+  test('converts presets to cron expressions', () => {
+    expect(normalizeRecurrence('every weekday at 09:00')).toBe('0 9 * * 1-5')
+    expect(normalizeRecurrence('daily at 9:30pm')).toBe('30 21 * * *')
+    expect(normalizeRecurrence('every day at 12am')).toBe('0 0 * * *')
+    expect(normalizeRecurrence('every Monday at 10:00')).toBe('0 10 * * 1')
+    expect(normalizeRecurrence('every mon, wed and fri at 17:15')).toBe(
+      '15 17 * * 1,3,5',
+    )
+    expect(normalizeRecurrence('weekly on friday at 5pm')).toBe('0 17 * * 5')
+    expect(normalizeRecurrence('monthly on the 1st at 08:00')).toBe(
+      '0 8 1 * *',
+    )
+    expect(normalizeRecurrence('every 15 minutes')).toBe('*/15 * * * *')
+    expect(normalizeRecurrence('every 2 hours')).toBe('0 */2 * * *')
+    expect(normalizeRecurrence('hourly')).toBe('0 * * * *')
+    expect(normalizeRecurrence('@daily')).toBe('0 0 * * *')
+  })
+
+  test('passes through valid cron expressions', () => {
+    expect(normalizeRecurrence('0 2 * * *')).toBe('0 2 * * *')
+    expect(normalizeRecurrence('*/5 9-17 * * MON-FRI')).toBe(
+      '*/5 9-17 * * mon-fri',
+    )
+  })
+
+  test('rejects invalid input', () => {
+    expect(() => normalizeRecurrence('sometimes')).toThrow()
+    expect(() => normalizeRecurrence('every day at 25:00')).toThrow()
+    expect(() => normalizeRecurrence('60 * * * *')).toThrow()
+    expect(() => normalizeRecurrence('every blursday at 10:00')).toThrow()
+  })
+})
+
+describe('parseCronExpression', () => {
+  test('expands ranges, steps and names', () => {
+    const schedule = parseCronExpression('0,30 */6 1-3 jan-mar mon-fri')
+    expect([...schedule.minutes]).toEqual([0, 30])
+    expect([...schedule.hours]).toEqual([0, 6, 12, 18])
+    expect([...schedule.daysOfMonth]).toEqual([1, 2, 3])
+    expect([...schedule.months]).toEqual([1, 2, 3])
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5])
+  })
+
+  test('treats 7 as sunday', () => {
+    expect([...parseCronExpression('0 0 * * 7').daysOfWeek]).toEqual([0])
+  })
+})
+
+describe('getNextCronRun', () => {
+  test('finds next weekday run in UTC', () => {
+    // Saturday 2025-03-01 12:00 UTC
+    const after = Date.UTC(2025, 2, 1, 12, 0)
+    const next = getNextCronRun({
+      expression: '0 9 * * 1-5',
+      timeZone: 'UTC',
+      after,
+    })
+    expect(new Date(next!).toISOString()).toBe('2025-03-03T09:00:00.000Z')
+  })
+
+  test('is strictly after the given time', () => {
+    const after = Date.UTC(2025, 0, 1, 9, 0)
+    const next = getNextCronRun({
+      expression: '0 9 * * *',
+      timeZone: 'UTC',
+      after,
+    })
+    expect(new Date(next!).toISOString()).toBe('2025-01-02T09:00:00.000Z')
+  })
+
+  test('evaluates wall-clock time in the given time zone', () => {
+    const after = Date.UTC(2025, 0, 1, 0, 0)
+    const next = getNextCronRun({
+      expression: '0 9 * * *',
+      timeZone: 'America/New_York',
+      after,
+    })
+    // 09:00 EST is 14:00 UTC
+    expect(new Date(next!).toISOString()).toBe('2025-01-01T14:00:00.000Z')
+  })
+
+  test('keeps local time across DST changes', () => {
+    // Europe/Berlin switches to CEST on 2025-03-30
+    const after = Date.UTC(2025, 2, 29, 12, 0)
+    const first = getNextCronRun({
+      expression: '0 9 * * *',
+      timeZone: 'Europe/Berlin',
+      after,
+    })
+    const second = getNextCronRun({
+      expression: '0 9 * * *',
+      timeZone: 'Europe/Berlin',
+      after: first!,
+    })
+    expect(new Date(first!).toISOString()).toBe('2025-03-30T07:00:00.000Z')
+    expect(new Date(second!).toISOString()).toBe('2025-03-31T07:00:00.000Z')
+  })
+
+  test('runs a local time repeated by DST fall-back only once', () => {
+    // Europe/Berlin falls back from CEST to CET on 2025-10-26, so 02:30 happens twice
+    const after = Date.UTC(2025, 9, 25, 23, 0)
+    const first = getNextCronRun({
+      expression: '30 2 * * *',
+      timeZone: 'Europe/Berlin',
+      after,
+    })
+    const second = getNextCronRun({
+      expression: '30 2 * * *',
+      timeZone: 'Europe/Berlin',
+      after: first!,
+    })
+    expect(new Date(first!).toISOString()).toBe('2025-10-26T00:30:00.000Z')
+    expect(new Date(second!).toISOString()).toBe('2025-10-27T01:30:00.000Z')
+  })
+
+  test('treats stepped wildcard day fields as unrestricted', () => {
+    // Wednesday 2025-01-01; */2 only narrows the Monday field, so AND semantics apply
+    const after = Date.UTC(2025, 0, 1, 12, 0)
+    const first = getNextCronRun({
+      expression: '0 9 */2 * 1',
+      timeZone: 'UTC',
+      after,
+    })
+    const second = getNextCronRun({
+      expression: '0 9 */2 * 1',
+      timeZone: 'UTC',
+      after: first!,
+    })
+    // Monday the 6th is even, Monday the 13th is the next odd-day Monday
+    expect(new Date(first!).toISOString()).toBe('2025-01-13T09:00:00.000Z')
+    expect(new Date(second!).toISOString()).toBe('2025-01-27T09:00:00.000Z')
+  })
+
+  test('uses OR semantics when both day fields are restricted', () => {
+    // Wednesday 2025-01-01
+    const after = Date.UTC(2025, 0, 1, 1, 0)
+    const next = getNextCronRun({
+      expression: '0 0 15 * 5',
+      timeZone: 'UTC',
+      after,
+    })
+    // Friday 2025-01-03 comes before the 15th
+    expect(new Date(next!).toISOString()).toBe('2025-01-03T00:00:00.000Z')
+  })
+
+  test('returns null for impossible dates', () => {
+    expect(
+      getNextCronRun({ expression: '0 0 31 2 *', timeZone: 'UTC' }),
+    ).toBeNull()
+  })
+})
+
+describe('describeCronExpression', () => {
+  test('describes common shapes', () => {
+    expect(describeCronExpression('0 9 * * 1-5')).toBe(
+      'every weekday at 09:00',
+    )
+    expect(describeCronExpression('30 21 * * *')).toBe('every day at 21:30')
+    expect(describeCronExpression('0 10 * * 1,3')).toBe(
+      'every Mon, Wed at 10:00',
+    )
+    expect(describeCronExpression('*/15 * * * *')).toBe('every 15 minutes')
+    expect(describeCronExpression('0 */2 * * *')).toBe('0 */2 * * *')
+  })
+})
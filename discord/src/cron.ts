@@ -0,0 +1,436 @@
+// Cron expression parsing and next-run calculation for recurring schedules.
+// Supports standard 5-field cron syntax, @-macros, and English presets like
+// "every weekday at 09:00". Next runs are computed in an IANA time zone.
+
+export type CronSchedule = {
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  // Standard cron semantics: when both day fields are restricted, a day matches if either does
+  daysOfMonthRestricted: boolean
+  daysOfWeekRestricted: boolean
+}
+
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+}
+
+const MONTH_NAMES = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+]
+
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+type FieldSpec = {
+  name: string
+  min: number
+  max: number
+  names?: string[]
+  namesOffset?: number
+}
+
+const FIELD_SPECS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, namesOffset: 1 },
+  // 7 is accepted as an alias for Sunday and normalized to 0
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, namesOffset: 0 },
+]
+
+function parseFieldValue(value: string, spec: FieldSpec): number {
+  const lower = value.toLowerCase()
+  if (spec.names) {
+    const nameIndex = spec.names.indexOf(lower.slice(0, 3))
+    if (nameIndex !== -1 && /^[a-z]+$/.test(lower)) {
+      return nameIndex + (spec.namesOffset ?? 0)
+    }
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${spec.name} value: ${value}`)
+  }
+  const parsed = parseInt(value, 10)
+  if (parsed < spec.min || parsed > spec.max) {
+    throw new Error(
+      `${spec.name} value ${parsed} out of range (${spec.min}-${spec.max})`,
+    )
+  }
+  return parsed
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/')
+    if (!rangePart) {
+      throw new Error(`Invalid ${spec.name} field: ${field}`)
+    }
+    const step = stepPart === undefined ? 1 : parseInt(stepPart, 10)
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in ${spec.name} field: ${part}`)
+    }
+
+    const [start, end] = (() => {
+      if (rangePart === '*') {
+        return [spec.min, spec.max]
+      }
+      const [from, to] = rangePart.split('-')
+      const startValue = parseFieldValue(from!, spec)
+      if (to !== undefined) {
+        return [startValue, parseFieldValue(to, spec)]
+      }
+      // "5/15" means "starting at 5, every 15"
+      return [startValue, stepPart === undefined ? startValue : spec.max]
+    })()
+
+    if (start > end) {
+      throw new Error(`Invalid range in ${spec.name} field: ${part}`)
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+/**
+ * Parse a 5-field cron expression (minute hour day-of-month month day-of-week)
+ * or an @-macro such as @daily. Throws on invalid input.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = expression.trim().toLowerCase()
+  const expanded = CRON_MACROS[trimmed] || trimmed
+  const fields = expanded.split(/\s+/)
+  if (fields.length !== 5) {
+    throw new Error(
+      `Cron expression must have 5 fields (minute hour day month weekday), got ${fields.length}`,
+    )
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (field, index) => {
+      return parseField(field, FIELD_SPECS[index]!)
+    },
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>]
+
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7)
+    daysOfWeek.add(0)
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // `*/2` steps over the whole range, so like `*` it leaves the field unrestricted
+    daysOfMonthRestricted: !fields[2]!.startsWith('*'),
+    daysOfWeekRestricted: !fields[4]!.startsWith('*'),
+  }
+}
+
+function parseClockTime(input: string): { hour: number; minute: number } {
+  const match = input.trim().match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/i)
+  if (!match) {
+    throw new Error(`Invalid time: ${input}`)
+  }
+  let hour = parseInt(match[1]!, 10)
+  const minute = match[2] ? parseInt(match[2], 10) : 0
+  const meridiem = match[3]?.toLowerCase()
+
+  if (meridiem && (hour < 1 || hour > 12)) {
+    throw new Error(`Invalid time: ${input}`)
+  }
+  if (meridiem === 'pm' && hour < 12) {
+    hour += 12
+  }
+  if (meridiem === 'am' && hour === 12) {
+    hour = 0
+  }
+  if (hour > 23 || minute > 59) {
+    throw new Error(`Invalid time: ${input}`)
+  }
+  return { hour, minute }
+}
+
+function parseDayList(input: string): string {
+  const days = input
+    .split(/\s*(?:,|\band\b)\s*/)
+    .filter(Boolean)
+    .map((day) => {
+      const index = DAY_NAMES.indexOf(day.trim().slice(0, 3).toLowerCase())
+      if (index === -1) {
+        throw new Error(`Invalid day: ${day}`)
+      }
+      return index
+    })
+  return [...new Set(days)].sort((a, b) => a - b).join(',')
+}
+
+/**
+ * Convert a schedule preset or cron expression into a cron expression.
+ * Presets: "every weekday at 09:00", "every day at 9:30pm", "daily at 8am",
+ * "every monday at 10:00", "every mon, wed and fri at 17:00", "weekly on friday at 17:00",
+ * "monthly on the 1st at 09:00", "every hour", "hourly", "every 15 minutes", "every 2 hours".
+ * Throws if the input is neither a valid preset nor a valid cron expression.
+ */
+export function normalizeRecurrence(input: string): string {
+  const text = input.trim().toLowerCase().replace(/\s+/g, ' ')
+
+  if (CRON_MACROS[text]) {
+    return CRON_MACROS[text]
+  }
+
+  if (text === 'hourly' || text === 'every hour') {
+    return '0 * * * *'
+  }
+
+  const intervalMatch = text.match(
+    /^every (\d+) ?(m|min|mins|minutes?|h|hr|hrs|hours?)$/,
+  )
+  if (intervalMatch) {
+    const value = parseInt(intervalMatch[1]!, 10)
+    const isHours = intervalMatch[2]!.startsWith('h')
+    if (isHours) {
+      if (value < 1 || value > 23) {
+        throw new Error('Hour interval must be between 1 and 23')
+      }
+      return `0 */${value} * * *`
+    }
+    if (value < 1 || value > 59) {
+      throw new Error('Minute interval must be between 1 and 59')
+    }
+    return `*/${value} * * * *`
+  }
+
+  const atMatch = text.match(/^(.*?) at (.+)$/)
+  if (atMatch) {
+    const when = atMatch[1]!.trim()
+    const { hour, minute } = parseClockTime(atMatch[2]!)
+
+    if (when === 'daily' || when === 'every day') {
+      return `${minute} ${hour} * * *`
+    }
+    if (when === 'every weekday' || when === 'weekdays') {
+      return `${minute} ${hour} * * 1-5`
+    }
+    if (when === 'every weekend' || when === 'weekends') {
+      return `${minute} ${hour} * * 0,6`
+    }
+
+    const monthlyMatch = when.match(
+      /^(?:monthly|every month) on the (\d{1,2})(?:st|nd|rd|th)?$/,
+    )
+    if (monthlyMatch) {
+      const day = parseInt(monthlyMatch[1]!, 10)
+      if (day < 1 || day > 31) {
+        throw new Error(`Invalid day of month: ${day}`)
+      }
+      return `${minute} ${hour} ${day} * *`
+    }
+
+    const weeklyMatch = when.match(/^(?:every|weekly on|on) (.+)$/)
+    if (weeklyMatch) {
+      return `${minute} ${hour} * * ${parseDayList(weeklyMatch[1]!)}`
+    }
+  }
+
+  // Fall back to raw cron syntax, validating it before returning
+  parseCronExpression(text)
+  return text
+}
+
+/**
+ * Check whether a string is a valid IANA time zone name (e.g. "Europe/Berlin").
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Time zone of the host process, used when a schedule doesn't specify one.
+ */
+export function getDefaultTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>()
+
+function getZonedParts(timestamp: number, timeZone: string) {
+  let formatter = formatterCache.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    })
+    formatterCache.set(timeZone, formatter)
+  }
+
+  const parts: Record<string, string> = {}
+  for (const part of formatter.formatToParts(new Date(timestamp))) {
+    parts[part.type] = part.value
+  }
+
+  return {
+    month: parseInt(parts.month!, 10),
+    day: parseInt(parts.day!, 10),
+    hour: parseInt(parts.hour!, 10),
+    minute: parseInt(parts.minute!, 10),
+    weekday: DAY_NAMES.indexOf(parts.weekday!.slice(0, 3).toLowerCase()),
+  }
+}
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+// Upper bound for the search; covers yearly schedules and Feb 29 in leap years
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * MINUTE_MS
+
+/**
+ * Compute the next run time (ms since epoch) strictly after `after`,
+ * evaluating the cron fields as wall-clock time in `timeZone`.
+ * Local times skipped by a DST transition are skipped for that day, and a
+ * local time repeated by a DST fall-back runs only once: a candidate with the
+ * same wall-clock time as `after` (the previous run) is not returned again.
+ * Returns null if no matching time exists (e.g. "0 0 31 2 *").
+ */
+export function getNextCronRun({
+  expression,
+  timeZone,
+  after = Date.now(),
+}: {
+  expression: string
+  timeZone: string
+  after?: number
+}): number | null {
+  const schedule = parseCronExpression(expression)
+
+  // Start at the next whole minute
+  let candidate = Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS
+  const limit = after + MAX_SEARCH_MS
+  const previous = getZonedParts(after, timeZone)
+
+  while (candidate <= limit) {
+    const local = getZonedParts(candidate, timeZone)
+
+    const dayOfMonthMatches = schedule.daysOfMonth.has(local.day)
+    const dayOfWeekMatches = schedule.daysOfWeek.has(local.weekday)
+    const dayMatches = (() => {
+      if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+        return dayOfMonthMatches || dayOfWeekMatches
+      }
+      return dayOfMonthMatches && dayOfWeekMatches
+    })()
+
+    // Jump to the next local hour boundary; stepping by hours keeps DST days correct
+    if (!schedule.months.has(local.month) || !dayMatches) {
+      candidate += (60 - local.minute) * MINUTE_MS
+      continue
+    }
+    if (!schedule.hours.has(local.hour)) {
+      candidate += (60 - local.minute) * MINUTE_MS
+      continue
+    }
+    if (!schedule.minutes.has(local.minute)) {
+      candidate += MINUTE_MS
+      continue
+    }
+    const repeatsPrevious =
+      candidate - after < DAY_MS &&
+      local.month === previous.month &&
+      local.day === previous.day &&
+      local.hour === previous.hour &&
+      local.minute === previous.minute
+    if (repeatsPrevious) {
+      candidate += MINUTE_MS
+      continue
+    }
+    return candidate
+  }
+
+  return null
+}
+
+/**
+ * Human-readable description of a cron expression for list output.
+ * Falls back to the raw expression for shapes without a friendly form.
+ */
+export function describeCronExpression(expression: string): string {
+  const fields = expression.trim().split(/\s+/)
+  if (fields.length !== 5) {
+    return expression
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields as [
+    string,
+    string,
+    string,
+    string,
+    string,
+  ]
+
+  const everyDay = dayOfMonth === '*' && month === '*' && dayOfWeek === '*'
+  if (/^\*\/\d+$/.test(minute) && hour === '*' && everyDay) {
+    return `every ${minute.slice(2)} minutes`
+  }
+  if (minute === '0' && hour === '*' && everyDay) {
+    return 'every hour'
+  }
+  if (!/^\d+$/.test(minute) || !/^\d+$/.test(hour) || month !== '*') {
+    return expression
+  }
+
+  const time = `${hour.padStart(2, '0')}:${minute.padStart(2, '0')}`
+  if (dayOfMonth === '*' && dayOfWeek === '*') {
+    return `every day at ${time}`
+  }
+  if (dayOfMonth === '*' && dayOfWeek === '1-5') {
+    return `every weekday at ${time}`
+  }
+  if (dayOfMonth === '*' && dayOfWeek === '0,6') {
+    return `every weekend at ${time}`
+  }
+  if (dayOfMonth === '*' && /^[0-6](,[0-6])*$/.test(dayOfWeek)) {
+    const names = dayOfWeek.split(',').map((day) => {
+      const name = DAY_NAMES[parseInt(day, 10)]!
+      return name.charAt(0).toUpperCase() + name.slice(1)
+    })
+    return `every ${names.join(', ')} at ${time}`
+  }
+  if (/^\d+$/.test(dayOfMonth) && dayOfWeek === '*') {
+    return `monthly on day ${dayOfMonth} at ${time}`
+  }
+  return expression
+}
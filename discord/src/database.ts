@@ -7,7 +7,11 @@ import fs from 'node:fs'
 import path from 'node:path'
 import * as errore from 'errore'
 import { createLogger, LogPrefix } from './logger.js'
-import { getDataDir, getDefaultVerbosity } from './config.js'
+import {
+  getDataDir,
+  getDefaultDisplayMode,
+  getDefaultVerbosity,
+} from './config.js'
 import {
   getEncryptionKey,
   encrypt,
@@ -51,6 +55,38 @@ export function getDatabase(): Database.Database {
       )
     `)
 
+    // Prompts queued behind a running session (via /queue), persisted so they survive restarts.
+    // restored=1 marks rows that were replayed after a bot restart.
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS queued_messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        thread_id TEXT NOT NULL,
+        prompt TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        username TEXT NOT NULL,
+        queued_at INTEGER NOT NULL,
+        images TEXT,
+        restored INTEGER NOT NULL DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_queued_messages_thread
+      ON queued_messages(thread_id, id)
+    `)
+
+    // Migration: add app_id column to queued_messages so bots sharing the
+    // database only replay their own queues
+    try {
+      db.exec(`ALTER TABLE queued_messages ADD COLUMN app_id TEXT`)
+    } catch (error) {
+      dbLogger.debug(
+        'Failed to add app_id column to queued_messages (likely exists):',
+        error instanceof Error ? error.message : String(error),
+      )
+    }
+
     db.exec(`
       CREATE TABLE IF NOT EXISTS part_messages (
         part_id TEXT PRIMARY KEY,
@@ -120,10 +156,25 @@ export function getDatabase(): Database.Database {
 
     runModelMigrations(db)
     runWorktreeSettingsMigrations(db)
+    runWorktreeLifecycleMigrations(db)
     runVerbosityMigrations(db)
+    runDisplayModeMigrations(db)
+    runVoiceModeMigrations(db)
+    runTranscriptionMigrations(db)
+    runVoiceSummaryMigrations(db)
     runRunConfigMigrations(db)
+    runRunSandboxMigrations(db)
+    runForgeSettingsMigrations(db)
     runThemeMigrations(db)
     runBotSettingsMigrations(db)
+    runAccessControlMigrations(db)
+    runPermissionPolicyMigrations(db)
+    runPermissionTimeoutMigrations(db)
+    runAuditMigrations(db)
+    runUsageMigrations(db)
+    runSessionRunMigrations(db)
+    runApiTokenMigrations(db)
+    runPromptTemplateMigrations(db)
   }
 
   return db
@@ -274,8 +325,119 @@ export function setSessionAgent(sessionId: string, agentName: string): void {
   ).run(sessionId, agentName)
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// QUEUED MESSAGES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type QueuedMessageRow = {
+  id: number
+  thread_id: string
+  prompt: string
+  user_id: string
+  username: string
+  queued_at: number
+  // JSON-encoded DiscordFileAttachment[]
+  images: string | null
+  restored: number
+  // Bot that queued the message, null for rows from before multi-bot support
+  app_id: string | null
+}
+
+/**
+ * Append a message to a thread's queue.
+ * @returns The new queue length for the thread
+ */
+export function enqueueMessage({
+  threadId,
+  prompt,
+  userId,
+  username,
+  queuedAt,
+  images,
+  appId,
+}: {
+  threadId: string
+  prompt: string
+  userId: string
+  username: string
+  queuedAt: number
+  images?: string
+  appId?: string
+}): number {
+  const db = getDatabase()
+  db.prepare(
+    `INSERT INTO queued_messages (thread_id, prompt, user_id, username, queued_at, images, app_id)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+  ).run(threadId, prompt, userId, username, queuedAt, images || null, appId || null)
+  return getQueuedMessageCount(threadId)
+}
+
+/**
+ * Get all queued messages for a thread in FIFO order.
+ */
+export function getQueuedMessages(threadId: string): QueuedMessageRow[] {
+  const db = getDatabase()
+  return db
+    .prepare('SELECT * FROM queued_messages WHERE thread_id = ? ORDER BY id ASC')
+    .all(threadId) as QueuedMessageRow[]
+}
+
+export function getQueuedMessageCount(threadId: string): number {
+  const db = getDatabase()
+  const row = db
+    .prepare('SELECT COUNT(*) AS count FROM queued_messages WHERE thread_id = ?')
+    .get(threadId) as { count: number }
+  return row.count
+}
+
+/**
+ * Remove and return the oldest queued message for a thread.
+ */
+export function dequeueMessage(threadId: string): QueuedMessageRow | undefined {
+  const db = getDatabase()
+  return db.transaction(() => {
+    const row = db
+      .prepare(
+        'SELECT * FROM queued_messages WHERE thread_id = ? ORDER BY id ASC LIMIT 1',
+      )
+      .get(threadId) as QueuedMessageRow | undefined
+    if (row) {
+      db.prepare('DELETE FROM queued_messages WHERE id = ?').run(row.id)
+    }
+    return row
+  })()
+}
+
+export function clearQueuedMessages(threadId: string): void {
+  const db = getDatabase()
+  db.prepare('DELETE FROM queued_messages WHERE thread_id = ?').run(threadId)
+}
+
+/**
+ * Mark the queued messages of a bot as restored after a restart. Rows of
+ * other bots sharing the database are left alone; rows without an app ID
+ * predate multi-bot support and are claimed by whichever bot starts.
+ * @returns Thread IDs that have queued messages, oldest queue first
+ */
+export function markQueuedMessagesRestored(appId: string): string[] {
+  const db = getDatabase()
+  db.prepare(
+    'UPDATE queued_messages SET restored = 1 WHERE app_id = ? OR app_id IS NULL',
+  ).run(appId)
+  const rows = db
+    .prepare(
+      `SELECT thread_id FROM queued_messages WHERE app_id = ? OR app_id IS NULL
+       GROUP BY thread_id ORDER BY MIN(id) ASC`,
+    )
+    .all(appId) as { thread_id: string }[]
+  return rows.map((row) => row.thread_id)
+}
+
 // Worktree status types
-export type WorktreeStatus = 'pending' | 'ready' | 'error'
+// 'removed' worktrees had their directory and branch cleaned up; the row is
+// kept so prompts in the thread are refused instead of running in the
+// project directory.
+export type WorktreeStatus = 'pending' | 'ready' | 'error' | 'removed'
 
 export type ThreadWorktree = {
   thread_id: string
@@ -284,6 +446,9 @@ export type ThreadWorktree = {
   project_directory: string
   status: WorktreeStatus
   error_message: string | null
+  created_at: string
+  merged_at: string | null
+  archived_at: string | null
 }
 
 /**
@@ -356,6 +521,89 @@ export function deleteThreadWorktree(threadId: string): void {
   db.prepare('DELETE FROM thread_worktrees WHERE thread_id = ?').run(threadId)
 }
 
+/**
+ * Lifecycle columns for thread worktrees: when the worktree was merged and
+ * when its thread was archived. Used by worktree garbage collection.
+ */
+export function runWorktreeLifecycleMigrations(
+  database?: Database.Database,
+): void {
+  const targetDb = database || getDatabase()
+
+  for (const column of ['merged_at DATETIME', 'archived_at DATETIME']) {
+    try {
+      targetDb.exec(`ALTER TABLE thread_worktrees ADD COLUMN ${column}`)
+    } catch (error) {
+      dbLogger.debug(
+        `Failed to add ${column.split(' ')[0]} column to thread_worktrees (likely exists):`,
+        error instanceof Error ? error.message : String(error),
+      )
+    }
+  }
+
+  dbLogger.log('Worktree lifecycle migrations complete')
+}
+
+/**
+ * Worktrees for the given project directories, newest first.
+ */
+export function listThreadWorktrees(
+  projectDirectories: string[],
+): ThreadWorktree[] {
+  if (projectDirectories.length === 0) {
+    return []
+  }
+  const db = getDatabase()
+  return db
+    .prepare(
+      `SELECT * FROM thread_worktrees WHERE project_directory IN (${projectDirectories.map(() => '?').join(', ')}) ORDER BY created_at DESC`,
+    )
+    .all(...projectDirectories) as ThreadWorktree[]
+}
+
+export function markWorktreeMerged(threadId: string): void {
+  const db = getDatabase()
+  db.prepare(
+    'UPDATE thread_worktrees SET merged_at = CURRENT_TIMESTAMP WHERE thread_id = ?',
+  ).run(threadId)
+}
+
+/**
+ * Record that the worktree's thread was archived, or clear it on unarchive.
+ */
+export function setWorktreeArchived({
+  threadId,
+  archived,
+}: {
+  threadId: string
+  archived: boolean
+}): void {
+  const db = getDatabase()
+  db.prepare(
+    `UPDATE thread_worktrees SET archived_at = ${archived ? 'CURRENT_TIMESTAMP' : 'NULL'} WHERE thread_id = ?`,
+  ).run(threadId)
+}
+
+export function setWorktreeRemoved(threadId: string): void {
+  const db = getDatabase()
+  db.prepare(
+    `UPDATE thread_worktrees SET status = 'removed' WHERE thread_id = ?`,
+  ).run(threadId)
+}
+
+/**
+ * Project directories of this bot's text channels.
+ */
+export function getProjectDirectories(appId: string): string[] {
+  const db = getDatabase()
+  const rows = db
+    .prepare(
+      `SELECT DISTINCT directory FROM channel_directories WHERE channel_type = 'text' AND (app_id = ? OR app_id IS NULL)`,
+    )
+    .all(appId) as { directory: string }[]
+  return rows.map((row) => row.directory)
+}
+
 /**
  * Run migrations for channel worktree settings table.
  * Called on startup. Allows per-channel opt-in for automatic worktree creation.
@@ -430,6 +678,252 @@ export function setChannelVerbosity(
   ).run(channelId, verbosity, verbosity)
 }
 
+// Display modes for session output
+// - stream: one message per formatted part
+// - live: one status message per turn, edited in place and collapsed into a
+//   summary when the turn finishes. Text responses are still sent as messages.
+export type DisplayMode = 'stream' | 'live'
+
+export function runDisplayModeMigrations(database?: Database.Database): void {
+  const targetDb = database || getDatabase()
+
+  targetDb.exec(`
+    CREATE TABLE IF NOT EXISTS channel_display_mode (
+      channel_id TEXT PRIMARY KEY,
+      mode TEXT NOT NULL DEFAULT 'stream',
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `)
+
+  dbLogger.log('Channel display mode migrations complete')
+}
+
+/**
+ * Get the display mode for a channel.
+ * Falls back to the global default set via --display-mode CLI flag.
+ */
+export function getChannelDisplayMode(channelId: string): DisplayMode {
+  const db = getDatabase()
+  const row = db
+    .prepare('SELECT mode FROM channel_display_mode WHERE channel_id = ?')
+    .get(channelId) as { mode: string } | undefined
+  if (row?.mode) {
+    return row.mode as DisplayMode
+  }
+  return getDefaultDisplayMode()
+}
+
+export function setChannelDisplayMode(channelId: string, mode: DisplayMode): void {
+  const db = getDatabase()
+  db.prepare(
+    `INSERT INTO channel_display_mode (channel_id, mode, updated_at)
+     VALUES (?, ?, CURRENT_TIMESTAMP)
+     ON CONFLICT(channel_id) DO UPDATE SET mode = ?, updated_at = CURRENT_TIMESTAMP`,
+  ).run(channelId, mode, mode)
+}
+
+export type VoiceMode = 'assistant' | 'dictation'
+
+export function runVoiceModeMigrations(database?: Database.Database): void {
+  const targetDb = database || getDatabase()
+
+  targetDb.exec(`
+    CREATE TABLE IF NOT EXISTS voice_channel_mode (
+      channel_id TEXT PRIMARY KEY,
+      mode TEXT NOT NULL DEFAULT 'assistant',
+      thread_id TEXT,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `)
+
+  dbLogger.log('Voice channel mode migrations complete')
+}
+
+/**
+ * Get the mode of a voice channel and, in dictation mode, the thread
+ * dictated prompts go to. A null thread means a new one is created.
+ */
+export function getVoiceChannelMode(channelId: string): {
+  mode: VoiceMode
+  threadId: string | null
+} {
+  const db = getDatabase()
+  const row = db
+    .prepare('SELECT mode, thread_id FROM voice_channel_mode WHERE channel_id = ?')
+    .get(channelId) as { mode: string; thread_id: string | null } | undefined
+  return {
+    mode: row?.mode === 'dictation' ? 'dictation' : 'assistant',
+    threadId: row?.thread_id ?? null,
+  }
+}
+
+export function setVoiceChannelMode({
+  channelId,
+  mode,
+  threadId,
+}: {
+  channelId: string
+  mode: VoiceMode
+  threadId: string | null
+}): void {
+  const db = getDatabase()
+  db.prepare(
+    `INSERT INTO voice_channel_mode (channel_id, mode, thread_id, updated_at)
+     VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+     ON CONFLICT(channel_id) DO UPDATE SET mode = ?, thread_id = ?, updated_at = CURRENT_TIMESTAMP`,
+  ).run(channelId, mode, threadId, mode, threadId)
+}
+
+export type TranscriptionBackendName = 'gemini' | 'whisper-cpp' | 'http'
+
+export type TranscriptionSettings = {
+  backend: TranscriptionBackendName
+  // whisper.cpp model file, or base URL of the HTTP endpoint
+  location: string | null
+  // OpenAI-compatible endpoint and model correcting local transcripts
+  correctionUrl: string | null
+  correctionModel: string | null
+}
+
+export function runTranscriptionMigrations(database?: Database.Database): void {
+  const targetDb = database || getDatabase()
+
+  targetDb.exec(`
+    CREATE TABLE IF NOT EXISTS channel_transcription (
+      channel_id TEXT PRIMARY KEY,
+      backend TEXT NOT NULL DEFAULT 'gemini',
+      location TEXT,
+      correction_url TEXT,
+      correction_model TEXT,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `)
+
+  dbLogger.log('Channel transcription migrations complete')
+}
+
+/**
+ * Get the transcription backend of a channel. Defaults to Gemini.
+ */
+export function getChannelTranscription(channelId: string): TranscriptionSettings {
+  const db = getDatabase()
+  const row = db
+    .prepare(
+      'SELECT backend, location, correction_url, correction_model FROM channel_transcription WHERE channel_id = ?',
+    )
+    .get(channelId) as
+    | {
+        backend: string
+        location: string | null
+        correction_url: string | null
+        correction_model: string | null
+      }
+    | undefined
+  if (!row) {
+    return { backend: 'gemini', location: null, correctionUrl: null, correctionModel: null }
+  }
+  return {
+    backend: row.backend as TranscriptionBackendName,
+    location: row.location,
+    correctionUrl: row.correction_url,
+    correctionModel: row.correction_model,
+  }
+}
+
+export function setChannelTranscription(
+  channelId: string,
+  settings: TranscriptionSettings,
+): void {
+  const db = getDatabase()
+  db.prepare(
+    `INSERT INTO channel_transcription (channel_id, backend, location, correction_url, correction_model, updated_at)
+     VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+     ON CONFLICT(channel_id) DO UPDATE SET
+       backend = excluded.backend,
+       location = excluded.location,
+       correction_url = excluded.correction_url,
+       correction_model = excluded.correction_model,
+       updated_at = CURRENT_TIMESTAMP`,
+  ).run(
+    channelId,
+    settings.backend,
+    settings.location,
+    settings.correctionUrl,
+    settings.correctionModel,
+  )
+}
+
+export type TtsEngineName = 'gemini' | 'piper' | 'http'
+
+export type VoiceSummarySettings = {
+  engine: TtsEngineName
+  // piper model file, or base URL of the HTTP endpoint
+  location: string | null
+  voice: string | null
+}
+
+export function runVoiceSummaryMigrations(database?: Database.Database): void {
+  const targetDb = database || getDatabase()
+
+  targetDb.exec(`
+    CREATE TABLE IF NOT EXISTS channel_voice_summary (
+      channel_id TEXT PRIMARY KEY,
+      engine TEXT NOT NULL DEFAULT 'gemini',
+      location TEXT,
+      voice TEXT,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `)
+
+  dbLogger.log('Channel voice summary migrations complete')
+}
+
+/**
+ * Get the spoken summary settings of a channel, undefined when summaries
+ * are off (the default).
+ */
+export function getChannelVoiceSummary(
+  channelId: string,
+): VoiceSummarySettings | undefined {
+  const db = getDatabase()
+  const row = db
+    .prepare('SELECT engine, location, voice FROM channel_voice_summary WHERE channel_id = ?')
+    .get(channelId) as
+    | { engine: string; location: string | null; voice: string | null }
+    | undefined
+  if (!row) {
+    return undefined
+  }
+  return {
+    engine: row.engine as TtsEngineName,
+    location: row.location,
+    voice: row.voice,
+  }
+}
+
+/**
+ * Save the spoken summary settings of a channel, null turns summaries off.
+ */
+export function setChannelVoiceSummary(
+  channelId: string,
+  settings: VoiceSummarySettings | null,
+): void {
+  const db = getDatabase()
+  if (!settings) {
+    db.prepare('DELETE FROM channel_voice_summary WHERE channel_id = ?').run(channelId)
+    return
+  }
+  db.prepare(
+    `INSERT INTO channel_voice_summary (channel_id, engine, location, voice, updated_at)
+     VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+     ON CONFLICT(channel_id) DO UPDATE SET
+       engine = excluded.engine,
+       location = excluded.location,
+       voice = excluded.voice,
+       updated_at = CURRENT_TIMESTAMP`,
+  ).run(channelId, settings.engine, settings.location, settings.voice)
+}
+
 /**
  * Check if automatic worktree creation is enabled for a channel.
  */
@@ -511,79 +1005,1291 @@ export function setRunConfig(
   )
 }
 
-export type ThemeType = 'default' | 'minimal' | 'detailed' | 'plain'
+export type SandboxBackendName = 'host' | 'bubblewrap' | 'podman' | 'docker'
+
+export type RunSandboxSettings = {
+  backend: SandboxBackendName
+  // Container image for podman and docker
+  image: string | null
+  network: boolean
+  // Writable paths, relative to the project or absolute. '.' is the project.
+  writablePaths: string[]
+  cpus: number | null
+  memoryMb: number | null
+}
 
-export function runThemeMigrations(database?: Database.Database): void {
+export function runRunSandboxMigrations(database?: Database.Database): void {
   const targetDb = database || getDatabase()
 
   targetDb.exec(`
-    CREATE TABLE IF NOT EXISTS channel_theme (
+    CREATE TABLE IF NOT EXISTS run_sandbox (
       channel_id TEXT PRIMARY KEY,
-      theme TEXT NOT NULL DEFAULT 'default',
+      backend TEXT NOT NULL DEFAULT 'host',
+      image TEXT,
+      network INTEGER NOT NULL DEFAULT 0,
+      writable_paths TEXT NOT NULL DEFAULT '["."]',
+      cpus REAL,
+      memory_mb INTEGER,
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
     )
   `)
 
-  dbLogger.log('Channel theme migrations complete')
+  dbLogger.log('Run sandbox migrations complete')
 }
 
-export function getChannelTheme(channelId: string): ThemeType {
+/**
+ * Get the /run sandbox of a channel. Defaults to running on the host.
+ */
+export function getRunSandbox(channelId: string): RunSandboxSettings {
   const db = getDatabase()
   const row = db
-    .prepare('SELECT theme FROM channel_theme WHERE channel_id = ?')
-    .get(channelId) as { theme: string } | undefined
-  return (row?.theme as ThemeType) || 'default'
-}
-
-export function setChannelTheme(channelId: string, theme: ThemeType): void {
-  const db = getDatabase()
-  db.prepare(
-    `INSERT INTO channel_theme (channel_id, theme, updated_at) 
-     VALUES (?, ?, CURRENT_TIMESTAMP)
-     ON CONFLICT(channel_id) DO UPDATE SET theme = ?, updated_at = CURRENT_TIMESTAMP`,
+    .prepare(
+      'SELECT backend, image, network, writable_paths, cpus, memory_mb FROM run_sandbox WHERE channel_id = ?',
+    )
+    .get(channelId) as
+    | {
+        backend: string
+        image: string | null
+        network: number
+        writable_paths: string
+        cpus: number | null
+        memory_mb: number | null
+      }
+    | undefined
+  if (!row) {
+    return {
+      backend: 'host',
+      image: null,
+      network: false,
+      writablePaths: ['.'],
+      cpus: null,
+      memoryMb: null,
+    }
+  }
+  return {
+    backend: row.backend as SandboxBackendName,
+    image: row.image,
+    network: row.network === 1,
+    writablePaths: JSON.parse(row.writable_paths) as string[],
+    cpus: row.cpus,
+    memoryMb: row.memory_mb,
+  }
+}
+
+export function setRunSandbox(
+  channelId: string,
+  settings: RunSandboxSettings,
+): void {
+  const db = getDatabase()
+  db.prepare(
+    `INSERT INTO run_sandbox (channel_id, backend, image, network, writable_paths, cpus, memory_mb, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+     ON CONFLICT(channel_id) DO UPDATE SET
+       backend = excluded.backend,
+       image = excluded.image,
+       network = excluded.network,
+       writable_paths = excluded.writable_paths,
+       cpus = excluded.cpus,
+       memory_mb = excluded.memory_mb,
+       updated_at = CURRENT_TIMESTAMP`,
+  ).run(
+    channelId,
+    settings.backend,
+    settings.image,
+    settings.network ? 1 : 0,
+    JSON.stringify(settings.writablePaths),
+    settings.cpus,
+    settings.memoryMb,
+  )
+}
+
+// Per-channel settings for /open-pr. Null fields fall back to defaults:
+// forge detected from the remote URL, remote 'origin', base the default branch.
+export type ForgeSettings = {
+  forge: string | null
+  remote: string | null
+  base_branch: string | null
+  api_url: string | null
+}
+
+export function runForgeSettingsMigrations(
+  database?: Database.Database,
+): void {
+  const targetDb = database || getDatabase()
+
+  targetDb.exec(`
+    CREATE TABLE IF NOT EXISTS forge_settings (
+      channel_id TEXT PRIMARY KEY,
+      forge TEXT,
+      remote TEXT,
+      base_branch TEXT,
+      api_url TEXT,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `)
+
+  dbLogger.log('Forge settings migrations complete')
+}
+
+export function getForgeSettings(channelId: string): ForgeSettings {
+  const db = getDatabase()
+  const row = db
+    .prepare(
+      'SELECT forge, remote, base_branch, api_url FROM forge_settings WHERE channel_id = ?',
+    )
+    .get(channelId) as ForgeSettings | undefined
+
+  return row || { forge: null, remote: null, base_branch: null, api_url: null }
+}
+
+export function setForgeSettings(
+  channelId: string,
+  settings: Partial<ForgeSettings>,
+): void {
+  const db = getDatabase()
+  const updated = { ...getForgeSettings(channelId), ...settings }
+
+  db.prepare(
+    `INSERT INTO forge_settings (channel_id, forge, remote, base_branch, api_url, updated_at)
+     VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+     ON CONFLICT(channel_id) DO UPDATE SET
+       forge = excluded.forge, remote = excluded.remote,
+       base_branch = excluded.base_branch, api_url = excluded.api_url,
+       updated_at = CURRENT_TIMESTAMP`,
+  ).run(
+    channelId,
+    updated.forge,
+    updated.remote,
+    updated.base_branch,
+    updated.api_url,
+  )
+}
+
+// Custom themes are shared by every channel. The config column holds a
+// JSON-encoded ThemeConfig from message-formatting.ts.
+export type CustomTheme = {
+  name: string
+  config: string
+  created_by: string | null
+  created_at: number
+  updated_at: number
+}
+
+export function runThemeMigrations(database?: Database.Database): void {
+  const targetDb = database || getDatabase()
+
+  targetDb.exec(`
+    CREATE TABLE IF NOT EXISTS channel_theme (
+      channel_id TEXT PRIMARY KEY,
+      theme TEXT NOT NULL DEFAULT 'default',
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `)
+  targetDb.exec(`
+    CREATE TABLE IF NOT EXISTS custom_themes (
+      name TEXT PRIMARY KEY,
+      config TEXT NOT NULL,
+      created_by TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `)
+
+  dbLogger.log('Channel theme migrations complete')
+}
+
+/**
+ * Theme name of a channel: a built-in theme or a custom theme.
+ */
+export function getChannelTheme(channelId: string): string {
+  const db = getDatabase()
+  const row = db
+    .prepare('SELECT theme FROM channel_theme WHERE channel_id = ?')
+    .get(channelId) as { theme: string } | undefined
+  return row?.theme || 'default'
+}
+
+export function setChannelTheme(channelId: string, theme: string): void {
+  const db = getDatabase()
+  db.prepare(
+    `INSERT INTO channel_theme (channel_id, theme, updated_at) 
+     VALUES (?, ?, CURRENT_TIMESTAMP)
+     ON CONFLICT(channel_id) DO UPDATE SET theme = ?, updated_at = CURRENT_TIMESTAMP`,
   ).run(channelId, theme, theme)
 }
 
-export type BotSettings = {
-  hub_channel_id: string | null
+export function getCustomTheme(name: string): CustomTheme | undefined {
+  const db = getDatabase()
+  return db
+    .prepare('SELECT * FROM custom_themes WHERE name = ?')
+    .get(name) as CustomTheme | undefined
+}
+
+export function listCustomThemes(): CustomTheme[] {
+  const db = getDatabase()
+  return db
+    .prepare('SELECT * FROM custom_themes ORDER BY name ASC')
+    .all() as CustomTheme[]
+}
+
+export function saveCustomTheme({
+  name,
+  config,
+  createdBy,
+}: {
+  name: string
+  config: string
+  createdBy?: string
+}): void {
+  const db = getDatabase()
+  const now = Date.now()
+  db.prepare(
+    `INSERT INTO custom_themes (name, config, created_by, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(name) DO UPDATE SET config = excluded.config, updated_at = excluded.updated_at`,
+  ).run(name, config, createdBy || null, now, now)
+}
+
+/**
+ * Delete a custom theme. Channels using it go back to the default theme.
+ */
+export function deleteCustomTheme(name: string): boolean {
+  const db = getDatabase()
+  return db.transaction(() => {
+    const result = db.prepare('DELETE FROM custom_themes WHERE name = ?').run(name)
+    if (result.changes > 0) {
+      db.prepare('DELETE FROM channel_theme WHERE theme = ?').run(name)
+    }
+    return result.changes > 0
+  })()
+}
+
+export type BotSettings = {
+  hub_channel_id: string | null
+}
+
+export function runBotSettingsMigrations(database?: Database.Database): void {
+  const targetDb = database || getDatabase()
+
+  targetDb.exec(`
+    CREATE TABLE IF NOT EXISTS bot_settings (
+      app_id TEXT PRIMARY KEY,
+      hub_channel_id TEXT,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `)
+
+  dbLogger.log('Bot settings migrations complete')
+}
+
+export function getBotSettings(appId: string): BotSettings {
+  const db = getDatabase()
+  const row = db
+    .prepare('SELECT hub_channel_id FROM bot_settings WHERE app_id = ?')
+    .get(appId) as { hub_channel_id: string | null } | undefined
+  return { hub_channel_id: row?.hub_channel_id || null }
+}
+
+export function setBotSettings(
+  appId: string,
+  settings: Partial<BotSettings>,
+): void {
+  const db = getDatabase()
+  const current = getBotSettings(appId)
+  const updated = { ...current, ...settings }
+
+  db.prepare(
+    `INSERT INTO bot_settings (app_id, hub_channel_id, updated_at)
+     VALUES (?, ?, CURRENT_TIMESTAMP)
+     ON CONFLICT(app_id) DO UPDATE SET 
+       hub_channel_id = ?, updated_at = CURRENT_TIMESTAMP`,
+  ).run(appId, updated.hub_channel_id, updated.hub_channel_id)
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ACCESS CONTROL POLICIES
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Access levels, from least to most privileged
+export type AccessLevel = 'none' | 'read' | 'prompt' | 'admin'
+
+// channel_id '' means the policy applies server-wide
+export type RoleAccessLevel = {
+  guild_id: string
+  channel_id: string
+  role_id: string
+  level: AccessLevel
+  updated_by: string | null
+}
+
+export type CommandRolePolicy = {
+  guild_id: string
+  channel_id: string
+  command: string
+  role_id: string
+  created_by: string | null
+}
+
+export function runAccessControlMigrations(
+  database?: Database.Database,
+): void {
+  const targetDb = database || getDatabase()
+
+  // Access level granted to a role, per channel or server-wide
+  targetDb.exec(`
+    CREATE TABLE IF NOT EXISTS role_access_levels (
+      guild_id TEXT NOT NULL,
+      channel_id TEXT NOT NULL DEFAULT '',
+      role_id TEXT NOT NULL,
+      level TEXT NOT NULL,
+      updated_by TEXT,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (guild_id, channel_id, role_id)
+    )
+  `)
+
+  // Restricts a command to an explicit set of roles, per channel or server-wide
+  targetDb.exec(`
+    CREATE TABLE IF NOT EXISTS command_role_policies (
+      guild_id TEXT NOT NULL,
+      channel_id TEXT NOT NULL DEFAULT '',
+      command TEXT NOT NULL,
+      role_id TEXT NOT NULL,
+      created_by TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (guild_id, channel_id, command, role_id)
+    )
+  `)
+
+  dbLogger.log('Access control migrations complete')
+}
+
+/**
+ * Get role access levels for a channel plus the server-wide ones.
+ */
+export function getRoleAccessLevels({
+  guildId,
+  channelId,
+}: {
+  guildId: string
+  channelId: string
+}): RoleAccessLevel[] {
+  const db = getDatabase()
+  return db
+    .prepare(
+      `SELECT * FROM role_access_levels WHERE guild_id = ? AND channel_id IN (?, '')`,
+    )
+    .all(guildId, channelId) as RoleAccessLevel[]
+}
+
+export function setRoleAccessLevel({
+  guildId,
+  channelId,
+  roleId,
+  level,
+  updatedBy,
+}: {
+  guildId: string
+  channelId: string
+  roleId: string
+  level: AccessLevel
+  updatedBy: string
+}): void {
+  const db = getDatabase()
+  db.prepare(
+    `INSERT INTO role_access_levels (guild_id, channel_id, role_id, level, updated_by, updated_at)
+     VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+     ON CONFLICT(guild_id, channel_id, role_id) DO UPDATE SET
+       level = excluded.level, updated_by = excluded.updated_by, updated_at = CURRENT_TIMESTAMP`,
+  ).run(guildId, channelId, roleId, level, updatedBy)
+}
+
+export function deleteRoleAccessLevel({
+  guildId,
+  channelId,
+  roleId,
+}: {
+  guildId: string
+  channelId: string
+  roleId: string
+}): boolean {
+  const db = getDatabase()
+  const result = db
+    .prepare(
+      'DELETE FROM role_access_levels WHERE guild_id = ? AND channel_id = ? AND role_id = ?',
+    )
+    .run(guildId, channelId, roleId)
+  return result.changes > 0
+}
+
+/**
+ * Get command role policies for a channel plus the server-wide ones.
+ */
+export function getCommandRolePolicies({
+  guildId,
+  channelId,
+}: {
+  guildId: string
+  channelId: string
+}): CommandRolePolicy[] {
+  const db = getDatabase()
+  return db
+    .prepare(
+      `SELECT * FROM command_role_policies WHERE guild_id = ? AND channel_id IN (?, '')
+       ORDER BY command ASC`,
+    )
+    .all(guildId, channelId) as CommandRolePolicy[]
+}
+
+export function addCommandRolePolicy({
+  guildId,
+  channelId,
+  command,
+  roleId,
+  createdBy,
+}: {
+  guildId: string
+  channelId: string
+  command: string
+  roleId: string
+  createdBy: string
+}): void {
+  const db = getDatabase()
+  db.prepare(
+    `INSERT OR IGNORE INTO command_role_policies (guild_id, channel_id, command, role_id, created_by)
+     VALUES (?, ?, ?, ?, ?)`,
+  ).run(guildId, channelId, command, roleId, createdBy)
+}
+
+export function removeCommandRolePolicy({
+  guildId,
+  channelId,
+  command,
+  roleId,
+}: {
+  guildId: string
+  channelId: string
+  command: string
+  roleId?: string
+}): number {
+  const db = getDatabase()
+  if (roleId) {
+    return db
+      .prepare(
+        'DELETE FROM command_role_policies WHERE guild_id = ? AND channel_id = ? AND command = ? AND role_id = ?',
+      )
+      .run(guildId, channelId, command, roleId).changes
+  }
+  return db
+    .prepare(
+      'DELETE FROM command_role_policies WHERE guild_id = ? AND channel_id = ? AND command = ?',
+    )
+    .run(guildId, channelId, command).changes
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PERMISSION POLICIES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type PermissionPolicyAction = 'allow' | 'deny' | 'approvals'
+
+export type PermissionPolicy = {
+  id: number
+  channel_id: string
+  // OpenCode permission type (edit, bash, ...), or '*' for any
+  permission: string
+  // Wildcard matched against the request patterns, null with use_whitelist
+  pattern: string | null
+  // 1 when bash commands in the /run whitelist match
+  use_whitelist: number
+  action: PermissionPolicyAction
+  // Distinct approvers needed for 'approvals' rules
+  approvals: number
+  created_by: string | null
+  created_at: string
+}
+
+export function runPermissionPolicyMigrations(
+  database?: Database.Database,
+): void {
+  const targetDb = database || getDatabase()
+
+  targetDb.exec(`
+    CREATE TABLE IF NOT EXISTS permission_policies (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      channel_id TEXT NOT NULL,
+      permission TEXT NOT NULL DEFAULT '*',
+      pattern TEXT,
+      use_whitelist INTEGER NOT NULL DEFAULT 0,
+      action TEXT NOT NULL,
+      approvals INTEGER NOT NULL DEFAULT 1,
+      created_by TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `)
+  targetDb.exec(`
+    CREATE INDEX IF NOT EXISTS idx_permission_policies_channel
+    ON permission_policies(channel_id)
+  `)
+
+  dbLogger.log('Permission policy migrations complete')
+}
+
+export function getPermissionPolicies(channelId: string): PermissionPolicy[] {
+  const db = getDatabase()
+  return db
+    .prepare('SELECT * FROM permission_policies WHERE channel_id = ? ORDER BY id ASC')
+    .all(channelId) as PermissionPolicy[]
+}
+
+export function addPermissionPolicy({
+  channelId,
+  permission,
+  pattern,
+  useWhitelist,
+  action,
+  approvals,
+  createdBy,
+}: {
+  channelId: string
+  permission: string
+  pattern: string | null
+  useWhitelist: boolean
+  action: PermissionPolicyAction
+  approvals: number
+  createdBy: string
+}): number {
+  const db = getDatabase()
+  const result = db
+    .prepare(
+      `INSERT INTO permission_policies (channel_id, permission, pattern, use_whitelist, action, approvals, created_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .run(channelId, permission, pattern, useWhitelist ? 1 : 0, action, approvals, createdBy)
+  return Number(result.lastInsertRowid)
+}
+
+export function removePermissionPolicy({
+  channelId,
+  id,
+}: {
+  channelId: string
+  id: number
+}): boolean {
+  const db = getDatabase()
+  const result = db
+    .prepare('DELETE FROM permission_policies WHERE channel_id = ? AND id = ?')
+    .run(channelId, id)
+  return result.changes > 0
+}
+
+export type PermissionTimeoutSettings = {
+  // Minutes after the request, each stage is optional except the rejection
+  remindMinutes: number | null
+  escalateMinutes: number | null
+  rejectMinutes: number
+  escalateRoleId: string | null
+  escalateToHub: boolean
+}
+
+export function runPermissionTimeoutMigrations(
+  database?: Database.Database,
+): void {
+  const targetDb = database || getDatabase()
+
+  targetDb.exec(`
+    CREATE TABLE IF NOT EXISTS channel_permission_timeouts (
+      channel_id TEXT PRIMARY KEY,
+      remind_minutes INTEGER,
+      escalate_minutes INTEGER,
+      reject_minutes INTEGER NOT NULL,
+      escalate_role_id TEXT,
+      escalate_to_hub INTEGER NOT NULL DEFAULT 0,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `)
+
+  dbLogger.log('Permission timeout migrations complete')
+}
+
+/**
+ * Get the permission timeouts of a channel, undefined when requests wait
+ * forever (the default).
+ */
+export function getChannelPermissionTimeouts(
+  channelId: string,
+): PermissionTimeoutSettings | undefined {
+  const db = getDatabase()
+  const row = db
+    .prepare(
+      'SELECT remind_minutes, escalate_minutes, reject_minutes, escalate_role_id, escalate_to_hub FROM channel_permission_timeouts WHERE channel_id = ?',
+    )
+    .get(channelId) as
+    | {
+        remind_minutes: number | null
+        escalate_minutes: number | null
+        reject_minutes: number
+        escalate_role_id: string | null
+        escalate_to_hub: number
+      }
+    | undefined
+  if (!row) {
+    return undefined
+  }
+  return {
+    remindMinutes: row.remind_minutes,
+    escalateMinutes: row.escalate_minutes,
+    rejectMinutes: row.reject_minutes,
+    escalateRoleId: row.escalate_role_id,
+    escalateToHub: row.escalate_to_hub === 1,
+  }
+}
+
+/**
+ * Save the permission timeouts of a channel, null turns them off.
+ */
+export function setChannelPermissionTimeouts(
+  channelId: string,
+  settings: PermissionTimeoutSettings | null,
+): void {
+  const db = getDatabase()
+  if (!settings) {
+    db.prepare('DELETE FROM channel_permission_timeouts WHERE channel_id = ?').run(channelId)
+    return
+  }
+  db.prepare(
+    `INSERT INTO channel_permission_timeouts (channel_id, remind_minutes, escalate_minutes, reject_minutes, escalate_role_id, escalate_to_hub, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+     ON CONFLICT(channel_id) DO UPDATE SET
+       remind_minutes = excluded.remind_minutes,
+       escalate_minutes = excluded.escalate_minutes,
+       reject_minutes = excluded.reject_minutes,
+       escalate_role_id = excluded.escalate_role_id,
+       escalate_to_hub = excluded.escalate_to_hub,
+       updated_at = CURRENT_TIMESTAMP`,
+  ).run(
+    channelId,
+    settings.remindMinutes,
+    settings.escalateMinutes,
+    settings.rejectMinutes,
+    settings.escalateRoleId,
+    settings.escalateToHub ? 1 : 0,
+  )
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// AUDIT LOG
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type AuditEventType = 'prompt' | 'permission' | 'run' | 'merge' | 'abort'
+
+export type AuditEvent = {
+  id: number
+  event_type: AuditEventType
+  user_id: string | null
+  username: string | null
+  channel_id: string | null
+  thread_id: string | null
+  session_id: string | null
+  // Human-readable summary: the prompt, command, decision, etc.
+  summary: string
+  // JSON-encoded event-specific details
+  details: string | null
+  created_at: number
+}
+
+export function runAuditMigrations(database?: Database.Database): void {
+  const targetDb = database || getDatabase()
+
+  targetDb.exec(`
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      event_type TEXT NOT NULL,
+      user_id TEXT,
+      username TEXT,
+      channel_id TEXT,
+      thread_id TEXT,
+      session_id TEXT,
+      summary TEXT NOT NULL,
+      details TEXT,
+      created_at INTEGER NOT NULL
+    )
+  `)
+  targetDb.exec(`
+    CREATE INDEX IF NOT EXISTS idx_audit_log_created
+    ON audit_log(created_at)
+  `)
+  targetDb.exec(`
+    CREATE INDEX IF NOT EXISTS idx_audit_log_thread
+    ON audit_log(thread_id, created_at)
+  `)
+
+  dbLogger.log('Audit migrations complete')
+}
+
+export function insertAuditEvent({
+  eventType,
+  userId,
+  username,
+  channelId,
+  threadId,
+  sessionId,
+  summary,
+  details,
+  createdAt = Date.now(),
+}: {
+  eventType: AuditEventType
+  userId?: string
+  username?: string
+  channelId?: string
+  threadId?: string
+  sessionId?: string
+  summary: string
+  details?: Record<string, unknown>
+  createdAt?: number
+}): number {
+  const db = getDatabase()
+  const result = db
+    .prepare(
+      `INSERT INTO audit_log (event_type, user_id, username, channel_id, thread_id, session_id, summary, details, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .run(
+      eventType,
+      userId || null,
+      username || null,
+      channelId || null,
+      threadId || null,
+      sessionId || null,
+      summary,
+      details ? JSON.stringify(details) : null,
+      createdAt,
+    )
+  return Number(result.lastInsertRowid)
+}
+
+/**
+ * Query audit events, newest first. All filters are optional.
+ * channelId matches events in the channel and in its threads.
+ */
+export function getAuditEvents({
+  eventType,
+  userId,
+  channelId,
+  threadId,
+  since,
+  until,
+  limit,
+}: {
+  eventType?: AuditEventType
+  userId?: string
+  channelId?: string
+  threadId?: string
+  since?: number
+  until?: number
+  limit?: number
+} = {}): AuditEvent[] {
+  const db = getDatabase()
+  const conditions: string[] = []
+  const params: (string | number)[] = []
+
+  if (eventType) {
+    conditions.push('event_type = ?')
+    params.push(eventType)
+  }
+  if (userId) {
+    conditions.push('user_id = ?')
+    params.push(userId)
+  }
+  if (channelId) {
+    conditions.push('channel_id = ?')
+    params.push(channelId)
+  }
+  if (threadId) {
+    conditions.push('thread_id = ?')
+    params.push(threadId)
+  }
+  if (since !== undefined) {
+    conditions.push('created_at >= ?')
+    params.push(since)
+  }
+  if (until !== undefined) {
+    conditions.push('created_at < ?')
+    params.push(until)
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+  const limitClause = limit ? `LIMIT ${Math.floor(limit)}` : ''
+  return db
+    .prepare(
+      `SELECT * FROM audit_log ${where} ORDER BY created_at DESC, id DESC ${limitClause}`,
+    )
+    .all(...params) as AuditEvent[]
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// USAGE TRACKING & BUDGETS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type UsageRecord = {
+  message_id: string
+  session_id: string
+  thread_id: string
+  channel_id: string | null
+  user_id: string | null
+  username: string | null
+  provider_id: string | null
+  model_id: string | null
+  input_tokens: number
+  output_tokens: number
+  reasoning_tokens: number
+  cache_read_tokens: number
+  cache_write_tokens: number
+  cost: number
+  // Local date (YYYY-MM-DD) the message was created, used for budget periods
+  day: string
+  created_at: number
+}
+
+export type UsageTotals = {
+  messages: number
+  input_tokens: number
+  output_tokens: number
+  reasoning_tokens: number
+  cache_read_tokens: number
+  cache_write_tokens: number
+  cost: number
+}
+
+export type BudgetScope = 'global' | 'user' | 'channel'
+export type BudgetPeriod = 'daily' | 'monthly'
+export type BudgetAction = 'refuse' | 'abort'
+
+export type UsageBudget = {
+  scope: BudgetScope
+  // '' for global budgets
+  scope_id: string
+  period: BudgetPeriod
+  limit_usd: number
+  warn_percent: number
+  action: BudgetAction
+  updated_by: string | null
+}
+
+export function runUsageMigrations(database?: Database.Database): void {
+  const targetDb = database || getDatabase()
+
+  // One row per assistant message; updated as the message streams
+  targetDb.exec(`
+    CREATE TABLE IF NOT EXISTS usage_records (
+      message_id TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL,
+      thread_id TEXT NOT NULL,
+      channel_id TEXT,
+      user_id TEXT,
+      username TEXT,
+      provider_id TEXT,
+      model_id TEXT,
+      input_tokens INTEGER NOT NULL DEFAULT 0,
+      output_tokens INTEGER NOT NULL DEFAULT 0,
+      reasoning_tokens INTEGER NOT NULL DEFAULT 0,
+      cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+      cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+      cost REAL NOT NULL DEFAULT 0,
+      day TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    )
+  `)
+  targetDb.exec(`
+    CREATE INDEX IF NOT EXISTS idx_usage_records_day
+    ON usage_records(day)
+  `)
+  targetDb.exec(`
+    CREATE INDEX IF NOT EXISTS idx_usage_records_session
+    ON usage_records(session_id)
+  `)
+
+  targetDb.exec(`
+    CREATE TABLE IF NOT EXISTS usage_budgets (
+      scope TEXT NOT NULL,
+      scope_id TEXT NOT NULL DEFAULT '',
+      period TEXT NOT NULL,
+      limit_usd REAL NOT NULL,
+      warn_percent INTEGER NOT NULL DEFAULT 80,
+      action TEXT NOT NULL DEFAULT 'refuse',
+      updated_by TEXT,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (scope, scope_id, period)
+    )
+  `)
+
+  dbLogger.log('Usage tracking migrations complete')
+}
+
+/**
+ * Insert or update usage for an assistant message. Token counts and cost are
+ * cumulative per message, so later updates replace earlier values.
+ */
+export function upsertUsageRecord(
+  record: Omit<UsageRecord, 'created_at'> & { created_at?: number },
+): void {
+  const db = getDatabase()
+  db.prepare(
+    `INSERT INTO usage_records (
+       message_id, session_id, thread_id, channel_id, user_id, username, provider_id, model_id,
+       input_tokens, output_tokens, reasoning_tokens, cache_read_tokens, cache_write_tokens,
+       cost, day, created_at
+     ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(message_id) DO UPDATE SET
+       provider_id = excluded.provider_id,
+       model_id = excluded.model_id,
+       input_tokens = excluded.input_tokens,
+       output_tokens = excluded.output_tokens,
+       reasoning_tokens = excluded.reasoning_tokens,
+       cache_read_tokens = excluded.cache_read_tokens,
+       cache_write_tokens = excluded.cache_write_tokens,
+       cost = excluded.cost`,
+  ).run(
+    record.message_id,
+    record.session_id,
+    record.thread_id,
+    record.channel_id,
+    record.user_id,
+    record.username,
+    record.provider_id,
+    record.model_id,
+    record.input_tokens,
+    record.output_tokens,
+    record.reasoning_tokens,
+    record.cache_read_tokens,
+    record.cache_write_tokens,
+    record.cost,
+    record.day,
+    record.created_at ?? Date.now(),
+  )
+}
+
+/**
+ * Sum usage matching the given filters. `dayPrefix` matches a single day
+ * (YYYY-MM-DD) or a whole month (YYYY-MM).
+ */
+export function getUsageTotals({
+  userId,
+  channelId,
+  sessionId,
+  dayPrefix,
+}: {
+  userId?: string
+  channelId?: string
+  sessionId?: string
+  dayPrefix?: string
+} = {}): UsageTotals {
+  const db = getDatabase()
+  const conditions: string[] = []
+  const params: string[] = []
+
+  if (userId) {
+    conditions.push('user_id = ?')
+    params.push(userId)
+  }
+  if (channelId) {
+    conditions.push('channel_id = ?')
+    params.push(channelId)
+  }
+  if (sessionId) {
+    conditions.push('session_id = ?')
+    params.push(sessionId)
+  }
+  if (dayPrefix) {
+    conditions.push('day LIKE ?')
+    params.push(`${dayPrefix}%`)
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+  return db
+    .prepare(
+      `SELECT
+         COUNT(*) AS messages,
+         COALESCE(SUM(input_tokens), 0) AS input_tokens,
+         COALESCE(SUM(output_tokens), 0) AS output_tokens,
+         COALESCE(SUM(reasoning_tokens), 0) AS reasoning_tokens,
+         COALESCE(SUM(cache_read_tokens), 0) AS cache_read_tokens,
+         COALESCE(SUM(cache_write_tokens), 0) AS cache_write_tokens,
+         COALESCE(SUM(cost), 0) AS cost
+       FROM usage_records ${where}`,
+    )
+    .get(...params) as UsageTotals
+}
+
+export function getUsageBudgets(): UsageBudget[] {
+  const db = getDatabase()
+  return db
+    .prepare('SELECT * FROM usage_budgets ORDER BY scope, scope_id, period')
+    .all() as UsageBudget[]
 }
 
-export function runBotSettingsMigrations(database?: Database.Database): void {
+export function setUsageBudget({
+  scope,
+  scopeId,
+  period,
+  limitUsd,
+  warnPercent,
+  action,
+  updatedBy,
+}: {
+  scope: BudgetScope
+  scopeId: string
+  period: BudgetPeriod
+  limitUsd: number
+  warnPercent: number
+  action: BudgetAction
+  updatedBy: string
+}): void {
+  const db = getDatabase()
+  db.prepare(
+    `INSERT INTO usage_budgets (scope, scope_id, period, limit_usd, warn_percent, action, updated_by, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+     ON CONFLICT(scope, scope_id, period) DO UPDATE SET
+       limit_usd = excluded.limit_usd,
+       warn_percent = excluded.warn_percent,
+       action = excluded.action,
+       updated_by = excluded.updated_by,
+       updated_at = CURRENT_TIMESTAMP`,
+  ).run(scope, scopeId, period, limitUsd, warnPercent, action, updatedBy)
+}
+
+export function deleteUsageBudget({
+  scope,
+  scopeId,
+  period,
+}: {
+  scope: BudgetScope
+  scopeId: string
+  period: BudgetPeriod
+}): boolean {
+  const db = getDatabase()
+  const result = db
+    .prepare(
+      'DELETE FROM usage_budgets WHERE scope = ? AND scope_id = ? AND period = ?',
+    )
+    .run(scope, scopeId, period)
+  return result.changes > 0
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SESSION RUNS (for /stats)
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type SessionRunStatus = 'running' | 'completed' | 'aborted' | 'error'
+
+// One row per prompt handled by handleOpencodeSession
+export type SessionRun = {
+  id: number
+  session_id: string
+  thread_id: string
+  channel_id: string | null
+  project_directory: string
+  user_id: string | null
+  username: string | null
+  new_session: number
+  status: SessionRunStatus
+  model_id: string | null
+  provider_id: string | null
+  agent: string | null
+  tool_calls: number
+  tool_errors: number
+  // JSON-encoded Record<toolName, count>
+  tools: string | null
+  error_message: string | null
+  started_at: number
+  ended_at: number | null
+}
+
+export function runSessionRunMigrations(database?: Database.Database): void {
   const targetDb = database || getDatabase()
 
   targetDb.exec(`
-    CREATE TABLE IF NOT EXISTS bot_settings (
-      app_id TEXT PRIMARY KEY,
-      hub_channel_id TEXT,
-      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    CREATE TABLE IF NOT EXISTS session_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      session_id TEXT NOT NULL,
+      thread_id TEXT NOT NULL,
+      channel_id TEXT,
+      project_directory TEXT NOT NULL,
+      user_id TEXT,
+      username TEXT,
+      new_session INTEGER NOT NULL DEFAULT 0,
+      status TEXT NOT NULL DEFAULT 'running',
+      model_id TEXT,
+      provider_id TEXT,
+      agent TEXT,
+      tool_calls INTEGER NOT NULL DEFAULT 0,
+      tool_errors INTEGER NOT NULL DEFAULT 0,
+      tools TEXT,
+      error_message TEXT,
+      started_at INTEGER NOT NULL,
+      ended_at INTEGER
     )
   `)
+  targetDb.exec(`
+    CREATE INDEX IF NOT EXISTS idx_session_runs_started
+    ON session_runs(started_at)
+  `)
 
-  dbLogger.log('Bot settings migrations complete')
+  dbLogger.log('Session run migrations complete')
 }
 
-export function getBotSettings(appId: string): BotSettings {
+export function insertSessionRun({
+  sessionId,
+  threadId,
+  channelId,
+  projectDirectory,
+  userId,
+  username,
+  newSession,
+  startedAt = Date.now(),
+}: {
+  sessionId: string
+  threadId: string
+  channelId?: string
+  projectDirectory: string
+  userId?: string
+  username?: string
+  newSession: boolean
+  startedAt?: number
+}): number {
   const db = getDatabase()
-  const row = db
-    .prepare('SELECT hub_channel_id FROM bot_settings WHERE app_id = ?')
-    .get(appId) as { hub_channel_id: string | null } | undefined
-  return { hub_channel_id: row?.hub_channel_id || null }
+  const result = db
+    .prepare(
+      `INSERT INTO session_runs (session_id, thread_id, channel_id, project_directory, user_id, username, new_session, started_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .run(
+      sessionId,
+      threadId,
+      channelId || null,
+      projectDirectory,
+      userId || null,
+      username || null,
+      newSession ? 1 : 0,
+      startedAt,
+    )
+  return Number(result.lastInsertRowid)
 }
 
-export function setBotSettings(
-  appId: string,
-  settings: Partial<BotSettings>,
-): void {
+export function finishSessionRun({
+  id,
+  status,
+  modelId,
+  providerId,
+  agent,
+  tools,
+  toolErrors,
+  errorMessage,
+  endedAt = Date.now(),
+}: {
+  id: number
+  status: Exclude<SessionRunStatus, 'running'>
+  modelId?: string
+  providerId?: string
+  agent?: string
+  tools: Record<string, number>
+  toolErrors: number
+  errorMessage?: string
+  endedAt?: number
+}): void {
   const db = getDatabase()
-  const current = getBotSettings(appId)
-  const updated = { ...current, ...settings }
-
+  const toolCalls = Object.values(tools).reduce((sum, count) => {
+    return sum + count
+  }, 0)
   db.prepare(
-    `INSERT INTO bot_settings (app_id, hub_channel_id, updated_at)
-     VALUES (?, ?, CURRENT_TIMESTAMP)
-     ON CONFLICT(app_id) DO UPDATE SET 
-       hub_channel_id = ?, updated_at = CURRENT_TIMESTAMP`,
-  ).run(appId, updated.hub_channel_id, updated.hub_channel_id)
+    `UPDATE session_runs SET
+       status = ?, model_id = ?, provider_id = ?, agent = ?, tool_calls = ?,
+       tool_errors = ?, tools = ?, error_message = ?, ended_at = ?
+     WHERE id = ?`,
+  ).run(
+    status,
+    modelId || null,
+    providerId || null,
+    agent || null,
+    toolCalls,
+    toolErrors,
+    JSON.stringify(tools),
+    errorMessage || null,
+    endedAt,
+    id,
+  )
+}
+
+export function getSessionRuns({
+  since,
+  until,
+}: {
+  since?: number
+  until?: number
+} = {}): SessionRun[] {
+  const db = getDatabase()
+  return db
+    .prepare(
+      `SELECT * FROM session_runs
+       WHERE started_at >= ? AND started_at < ?
+       ORDER BY started_at ASC`,
+    )
+    .all(since ?? 0, until ?? Number.MAX_SAFE_INTEGER) as SessionRun[]
+}
+
+/**
+ * Sessions that ran in a channel's threads, oldest first. With a range, only
+ * sessions with runs inside it are returned.
+ */
+export function getChannelSessions({
+  channelId,
+  since,
+  until,
+}: {
+  channelId: string
+  since?: number
+  until?: number
+}): { session_id: string; thread_id: string; project_directory: string }[] {
+  const db = getDatabase()
+  return db
+    .prepare(
+      `SELECT session_id, thread_id, project_directory, MIN(started_at) AS first_started_at
+       FROM session_runs
+       WHERE channel_id = ? AND started_at >= ? AND started_at < ?
+       GROUP BY session_id
+       ORDER BY first_started_at ASC`,
+    )
+    .all(channelId, since ?? 0, until ?? Number.MAX_SAFE_INTEGER) as {
+    session_id: string
+    thread_id: string
+    project_directory: string
+  }[]
+}
+
+export function getLatestSessionRun(threadId: string): SessionRun | undefined {
+  const db = getDatabase()
+  return db
+    .prepare(
+      'SELECT * FROM session_runs WHERE thread_id = ? ORDER BY started_at DESC, id DESC LIMIT 1',
+    )
+    .get(threadId) as SessionRun | undefined
+}
+
+export function getUsageRecords({
+  since,
+  until,
+}: {
+  since?: number
+  until?: number
+} = {}): UsageRecord[] {
+  const db = getDatabase()
+  return db
+    .prepare(
+      `SELECT * FROM usage_records
+       WHERE created_at >= ? AND created_at < ?
+       ORDER BY created_at ASC`,
+    )
+    .all(since ?? 0, until ?? Number.MAX_SAFE_INTEGER) as UsageRecord[]
 }
 
 export function getChannelDirectory(channelId: string):
@@ -609,6 +2315,192 @@ export function getChannelDirectory(channelId: string):
   }
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// API TOKENS (for the local HTTP API)
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Only the sha256 of a token is stored; the token itself is shown once on creation
+export type ApiToken = {
+  id: number
+  token_hash: string
+  project_directory: string
+  label: string | null
+  created_at: number
+  last_used_at: number | null
+}
+
+export function runApiTokenMigrations(database?: Database.Database): void {
+  const targetDb = database || getDatabase()
+
+  targetDb.exec(`
+    CREATE TABLE IF NOT EXISTS api_tokens (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      token_hash TEXT NOT NULL UNIQUE,
+      project_directory TEXT NOT NULL,
+      label TEXT,
+      created_at INTEGER NOT NULL,
+      last_used_at INTEGER
+    )
+  `)
+
+  dbLogger.log('API token migrations complete')
+}
+
+export function insertApiToken({
+  tokenHash,
+  projectDirectory,
+  label,
+}: {
+  tokenHash: string
+  projectDirectory: string
+  label?: string
+}): number {
+  const db = getDatabase()
+  const result = db
+    .prepare(
+      'INSERT INTO api_tokens (token_hash, project_directory, label, created_at) VALUES (?, ?, ?, ?)',
+    )
+    .run(tokenHash, projectDirectory, label || null, Date.now())
+  return Number(result.lastInsertRowid)
+}
+
+export function getApiTokenByHash(tokenHash: string): ApiToken | undefined {
+  const db = getDatabase()
+  return db
+    .prepare('SELECT * FROM api_tokens WHERE token_hash = ?')
+    .get(tokenHash) as ApiToken | undefined
+}
+
+export function listApiTokens(): ApiToken[] {
+  const db = getDatabase()
+  return db
+    .prepare('SELECT * FROM api_tokens ORDER BY created_at ASC')
+    .all() as ApiToken[]
+}
+
+export function deleteApiToken(id: number): boolean {
+  const db = getDatabase()
+  const result = db.prepare('DELETE FROM api_tokens WHERE id = ?').run(id)
+  return result.changes > 0
+}
+
+export function touchApiToken(id: number): void {
+  const db = getDatabase()
+  db.prepare('UPDATE api_tokens SET last_used_at = ? WHERE id = ?').run(
+    Date.now(),
+    id,
+  )
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PROMPT TEMPLATES
+// ═══════════════════════════════════════════════════════════════════════════
+
+// channel_id is null for global templates. A channel template shadows a
+// global one with the same name.
+export type PromptTemplate = {
+  id: number
+  name: string
+  channel_id: string | null
+  body: string
+  created_by: string
+  created_at: number
+  updated_at: number
+}
+
+export function runPromptTemplateMigrations(database?: Database.Database): void {
+  const targetDb = database || getDatabase()
+
+  targetDb.exec(`
+    CREATE TABLE IF NOT EXISTS prompt_templates (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      channel_id TEXT,
+      body TEXT NOT NULL,
+      created_by TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `)
+
+  targetDb.exec(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_templates_scope
+    ON prompt_templates(name, COALESCE(channel_id, ''))
+  `)
+
+  dbLogger.log('Prompt template migrations complete')
+}
+
+/**
+ * Template by name, preferring the channel's own over a global one.
+ */
+export function getPromptTemplate({
+  name,
+  channelId,
+}: {
+  name: string
+  channelId: string
+}): PromptTemplate | undefined {
+  const db = getDatabase()
+  return db
+    .prepare(
+      `SELECT * FROM prompt_templates
+       WHERE name = ? AND (channel_id = ? OR channel_id IS NULL)
+       ORDER BY channel_id IS NULL ASC LIMIT 1`,
+    )
+    .get(name, channelId) as PromptTemplate | undefined
+}
+
+/**
+ * Templates usable in a channel: its own and the global ones, by name.
+ */
+export function listPromptTemplates(channelId: string): PromptTemplate[] {
+  const db = getDatabase()
+  return db
+    .prepare(
+      `SELECT * FROM prompt_templates
+       WHERE channel_id = ? OR channel_id IS NULL
+       ORDER BY name ASC, channel_id IS NULL ASC`,
+    )
+    .all(channelId) as PromptTemplate[]
+}
+
+/**
+ * Create a template, or replace the body of the one with the same name and scope.
+ */
+export function savePromptTemplate({
+  name,
+  channelId,
+  body,
+  createdBy,
+}: {
+  name: string
+  channelId: string | null
+  body: string
+  createdBy: string
+}): void {
+  const db = getDatabase()
+  const now = Date.now()
+  const updated = db
+    .prepare(
+      `UPDATE prompt_templates SET body = ?, updated_at = ?
+       WHERE name = ? AND COALESCE(channel_id, '') = ?`,
+    )
+    .run(body, now, name, channelId ?? '')
+  if (updated.changes > 0) {
+    return
+  }
+  db.prepare(
+    'INSERT INTO prompt_templates (name, channel_id, body, created_by, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)',
+  ).run(name, channelId, body, createdBy, now, now)
+}
+
+export function deletePromptTemplate(id: number): boolean {
+  const db = getDatabase()
+  const result = db.prepare('DELETE FROM prompt_templates WHERE id = ?').run(id)
+  return result.changes > 0
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // BOT TOKEN MANAGEMENT (Encrypted)
 // ═══════════════════════════════════════════════════════════════════════════
@@ -660,6 +2552,30 @@ export function setBotToken(appId: string, token: string): void {
     .run(appId, serialized)
 }
 
+/**
+ * Saved bots, most recently added first.
+ */
+export function listBots(): { app_id: string; created_at: string }[] {
+  const database = getDatabase()
+  return database
+    .prepare('SELECT app_id, created_at FROM bot_tokens ORDER BY created_at DESC')
+    .all() as { app_id: string; created_at: string }[]
+}
+
+/**
+ * Forget a bot's token, API keys and settings. Channel mappings are kept so
+ * the channels work again if the bot is added back.
+ */
+export function deleteBot(appId: string): boolean {
+  const database = getDatabase()
+  const result = database
+    .prepare('DELETE FROM bot_tokens WHERE app_id = ?')
+    .run(appId)
+  database.prepare('DELETE FROM bot_api_keys WHERE app_id = ?').run(appId)
+  database.prepare('DELETE FROM bot_settings WHERE app_id = ?').run(appId)
+  return result.changes > 0
+}
+
 export function getBotApiKeys(
   appId: string,
 ): { geminiApiKey?: string; xaiApiKey?: string } | undefined {
@@ -736,16 +2652,29 @@ export function closeDatabase(): void {
 // SCHEDULED MESSAGES
 // ═══════════════════════════════════════════════════════════════════════════
 
+export type ScheduleStatus =
+  | 'pending'
+  | 'paused'
+  | 'completed'
+  | 'cancelled'
+  | 'failed'
+
 export type ScheduledMessage = {
   id: number
   channel_id: string
   thread_id: string | null
   prompt: string
+  // Next run time (ms). For recurring schedules this advances after every run.
   scheduled_at: number
   created_by: string
   created_at: string
-  status: 'pending' | 'completed' | 'cancelled' | 'failed'
+  status: ScheduleStatus
   error_message: string | null
+  // Recurring schedules only: cron expression and IANA time zone it is evaluated in
+  cron_expression: string | null
+  timezone: string | null
+  last_run_at: number | null
+  run_count: number
 }
 
 export function runScheduleMigrations(database?: Database.Database): void {
@@ -765,6 +2694,24 @@ export function runScheduleMigrations(database?: Database.Database): void {
     )
   `)
 
+  // Migration: recurring schedule columns
+  const recurringColumns = [
+    'cron_expression TEXT',
+    'timezone TEXT',
+    'last_run_at INTEGER',
+    'run_count INTEGER NOT NULL DEFAULT 0',
+  ]
+  for (const column of recurringColumns) {
+    try {
+      targetDb.exec(`ALTER TABLE scheduled_messages ADD COLUMN ${column}`)
+    } catch (error) {
+      dbLogger.debug(
+        `Failed to add ${column.split(' ')[0]} column to scheduled_messages (likely exists):`,
+        error instanceof Error ? error.message : String(error),
+      )
+    }
+  }
+
   targetDb.exec(`
     CREATE INDEX IF NOT EXISTS idx_scheduled_pending 
     ON scheduled_messages(status, scheduled_at) 
@@ -780,20 +2727,32 @@ export function createScheduledMessage({
   prompt,
   scheduledAt,
   createdBy,
+  cronExpression,
+  timezone,
 }: {
   channelId: string
   threadId?: string
   prompt: string
   scheduledAt: number
   createdBy: string
+  cronExpression?: string
+  timezone?: string
 }): number {
   const db = getDatabase()
   const result = db
     .prepare(
-      `INSERT INTO scheduled_messages (channel_id, thread_id, prompt, scheduled_at, created_by)
-       VALUES (?, ?, ?, ?, ?)`,
+      `INSERT INTO scheduled_messages (channel_id, thread_id, prompt, scheduled_at, created_by, cron_expression, timezone)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .run(
+      channelId,
+      threadId || null,
+      prompt,
+      scheduledAt,
+      createdBy,
+      cronExpression || null,
+      timezone || null,
     )
-    .run(channelId, threadId || null, prompt, scheduledAt, createdBy)
   return result.lastInsertRowid as number
 }
 
@@ -814,7 +2773,7 @@ export function getSchedulesByChannel(channelId: string): ScheduledMessage[] {
   return db
     .prepare(
       `SELECT * FROM scheduled_messages 
-       WHERE (channel_id = ? OR thread_id = ?) AND status = 'pending'
+       WHERE (channel_id = ? OR thread_id = ?) AND status IN ('pending', 'paused')
        ORDER BY scheduled_at ASC`,
     )
     .all(channelId, channelId) as ScheduledMessage[]
@@ -831,7 +2790,7 @@ export function getSchedulesByChannelIds(
   return db
     .prepare(
       `SELECT * FROM scheduled_messages 
-       WHERE channel_id IN (${placeholders}) AND status = 'pending'
+       WHERE channel_id IN (${placeholders}) AND status IN ('pending', 'paused')
        ORDER BY scheduled_at ASC`,
     )
     .all(...channelIds) as ScheduledMessage[]
@@ -846,7 +2805,7 @@ export function getScheduleById(id: number): ScheduledMessage | undefined {
 
 export function updateScheduleStatus(
   id: number,
-  status: 'completed' | 'cancelled' | 'failed',
+  status: Exclude<ScheduleStatus, 'pending'>,
   errorMessage?: string,
 ): void {
   const db = getDatabase()
@@ -858,9 +2817,69 @@ export function updateScheduleStatus(
 export function cancelSchedule(id: number, userId: string): boolean {
   const db = getDatabase()
   const schedule = getScheduleById(id)
-  if (!schedule || schedule.status !== 'pending') {
+  if (!schedule || !['pending', 'paused'].includes(schedule.status)) {
     return false
   }
   updateScheduleStatus(id, 'cancelled')
   return true
 }
+
+/**
+ * Record a run of a recurring schedule and move it to its next run time.
+ * Keeps the schedule pending and clears the error of the previous run.
+ */
+export function advanceRecurringSchedule({
+  id,
+  nextRunAt,
+  lastRunAt,
+}: {
+  id: number
+  nextRunAt: number
+  lastRunAt: number
+}): void {
+  const db = getDatabase()
+  db.prepare(
+    `UPDATE scheduled_messages
+     SET scheduled_at = ?, last_run_at = ?, run_count = run_count + 1, error_message = NULL
+     WHERE id = ?`,
+  ).run(nextRunAt, lastRunAt, id)
+}
+
+/**
+ * Set the error message of a schedule without changing its status.
+ * Used for recurring schedules whose last run failed but keep recurring.
+ */
+export function setScheduleError(id: number, errorMessage: string | null): void {
+  const db = getDatabase()
+  db.prepare(`UPDATE scheduled_messages SET error_message = ? WHERE id = ?`).run(
+    errorMessage,
+    id,
+  )
+}
+
+/**
+ * Pause a pending recurring schedule. Returns false if it isn't pending.
+ */
+export function pauseSchedule(id: number): boolean {
+  const db = getDatabase()
+  const result = db
+    .prepare(
+      `UPDATE scheduled_messages SET status = 'paused' WHERE id = ? AND status = 'pending'`,
+    )
+    .run(id)
+  return result.changes > 0
+}
+
+/**
+ * Resume a paused schedule with a freshly computed next run time,
+ * so runs missed while paused are skipped instead of firing immediately.
+ */
+export function resumeSchedule(id: number, nextRunAt: number): boolean {
+  const db = getDatabase()
+  const result = db
+    .prepare(
+      `UPDATE scheduled_messages SET status = 'pending', scheduled_at = ? WHERE id = ? AND status = 'paused'`,
+    )
+    .run(nextRunAt, id)
+  return result.changes > 0
+}
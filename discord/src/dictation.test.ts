@@ -0,0 +1,42 @@
+import { describe, expect, test } from 'vitest'
+import { formatDictationPreview, pcmToWav } from './dictation.js'
+
+describe('pcmToWav', () => {
+  test('prefixes 16kHz mono PCM with a WAV header', () => {
+    const pcm = Buffer.alloc(3200, 1)
+    const wav = pcmToWav({ pcm })
+
+    expect(wav.length).toBe(44 + pcm.length)
+    expect(wav.toString('ascii', 0, 4)).toBe('RIFF')
+    expect(wav.readUInt32LE(4)).toBe(36 + pcm.length)
+    expect(wav.toString('ascii', 8, 16)).toBe('WAVEfmt ')
+    expect(wav.readUInt16LE(22)).toBe(1)
+    expect(wav.readUInt32LE(24)).toBe(16_000)
+    expect(wav.readUInt32LE(28)).toBe(32_000)
+    expect(wav.readUInt16LE(34)).toBe(16)
+    expect(wav.toString('ascii', 36, 40)).toBe('data')
+    expect(wav.readUInt32LE(40)).toBe(pcm.length)
+    expect(wav.subarray(44).equals(pcm)).toBe(true)
+  })
+})
+
+describe('formatDictationPreview', () => {
+  test('quotes the prompt and shows who dictated it', () => {
+    expect(
+      formatDictationPreview({ text: 'fix the login test', userId: 'u1', state: 'pending' }),
+    ).toBe('🎤 **Dictation from <@u1>**\n>>> fix the login test')
+    expect(
+      formatDictationPreview({ text: 'fix the login test', userId: 'u1', state: 'discarded' }),
+    ).toBe('🎤 ~~Dictation from <@u1> discarded~~')
+  })
+
+  test('truncates long prompts', () => {
+    const preview = formatDictationPreview({
+      text: 'a'.repeat(3000),
+      userId: 'u1',
+      state: 'sent',
+    })
+    expect(preview.length).toBeLessThan(2000)
+    expect(preview.endsWith('…')).toBe(true)
+  })
+})
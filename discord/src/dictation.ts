@@ -0,0 +1,419 @@
+// Voice dictation for project voice channels.
+// Instead of the realtime voice assistant, each spoken utterance is
+// transcribed with the project channel's backend (see transcription.ts) and
+// shown as a preview in the project's text thread. Confirming the preview
+// sends it to that thread's OpenCode session, so no realtime model is involved.
+
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ChannelType,
+  ModalBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+  type ButtonInteraction,
+  type Client,
+  type Message,
+  type ModalSubmitInteraction,
+  type TextChannel,
+  type ThreadChannel,
+} from 'discord.js'
+import * as errore from 'errore'
+import { getDatabase, getVoiceChannelMode, setVoiceChannelMode } from './database.js'
+import { SILENT_MESSAGE_FLAGS } from './discord-utils.js'
+import { transcribeForChannel } from './transcription.js'
+import { handleOpencodeSession } from './session-handler.js'
+import { toPlatformThread } from './platform/discord.js'
+import { createLogger, LogPrefix } from './logger.js'
+import { createInteractionStore } from './utils.js'
+
+const dictationLogger = createLogger(LogPrefix.VOICE)
+
+// A dictated prompt ends after this much silence, longer than the realtime
+// assistant so pauses while thinking don't split it
+export const DICTATION_SILENCE_MS = 1_500
+export const DICTATION_SAMPLE_RATE = 16_000
+// 16-bit mono PCM
+const BYTES_PER_SECOND = DICTATION_SAMPLE_RATE * 2
+const MIN_UTTERANCE_BYTES = BYTES_PER_SECOND / 2
+export const MAX_UTTERANCE_BYTES = BYTES_PER_SECOND * 120
+const MAX_PREVIEW_LENGTH = 1800
+const INAUDIBLE = '[inaudible audio]'
+
+type PendingDictation = {
+  text: string
+  userId: string
+  voiceChannelId: string
+  textChannelId: string
+  directory: string
+  // Thread the prompt goes to, null to start one from the preview message
+  threadId: string | null
+}
+
+// Previews nobody acts on expire after an hour
+const pendingDictations = createInteractionStore<PendingDictation>({
+  ttlMs: 60 * 60_000,
+  maxSize: 100,
+})
+
+/**
+ * Wrap 16-bit PCM in a WAV header so it can be sent as audio/wav.
+ */
+export function pcmToWav({
+  pcm,
+  sampleRate = DICTATION_SAMPLE_RATE,
+  channels = 1,
+}: {
+  pcm: Buffer
+  sampleRate?: number
+  channels?: number
+}): Buffer {
+  const header = Buffer.alloc(44)
+  const byteRate = sampleRate * channels * 2
+  header.write('RIFF', 0)
+  header.writeUInt32LE(36 + pcm.length, 4)
+  header.write('WAVE', 8)
+  header.write('fmt ', 12)
+  header.writeUInt32LE(16, 16)
+  header.writeUInt16LE(1, 20)
+  header.writeUInt16LE(channels, 22)
+  header.writeUInt32LE(sampleRate, 24)
+  header.writeUInt32LE(byteRate, 28)
+  header.writeUInt16LE(channels * 2, 32)
+  header.writeUInt16LE(16, 34)
+  header.write('data', 36)
+  header.writeUInt32LE(pcm.length, 40)
+  return Buffer.concat([header, pcm])
+}
+
+export function formatDictationPreview({
+  text,
+  userId,
+  state,
+}: {
+  text: string
+  userId: string
+  state: 'pending' | 'sent' | 'discarded'
+}): string {
+  const quoted =
+    text.length > MAX_PREVIEW_LENGTH ? `${text.slice(0, MAX_PREVIEW_LENGTH)}…` : text
+  if (state === 'discarded') {
+    return `🎤 ~~Dictation from <@${userId}> discarded~~`
+  }
+  const title =
+    state === 'sent' ? `🎤 **Sent dictation from <@${userId}>**` : `🎤 **Dictation from <@${userId}>**`
+  return `${title}\n>>> ${quoted}`
+}
+
+function dictationButtons(hash: string): ActionRowBuilder<ButtonBuilder>[] {
+  return [
+    new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`dictation:${hash}:send`)
+        .setLabel('Send')
+        .setStyle(ButtonStyle.Success),
+      new ButtonBuilder()
+        .setCustomId(`dictation:${hash}:edit`)
+        .setLabel('Edit')
+        .setStyle(ButtonStyle.Secondary),
+      new ButtonBuilder()
+        .setCustomId(`dictation:${hash}:discard`)
+        .setLabel('Discard')
+        .setStyle(ButtonStyle.Danger),
+    ),
+  ]
+}
+
+/**
+ * Text channel of the project a voice channel belongs to.
+ */
+export function getVoiceTextChannelId(voiceChannelId: string): string | undefined {
+  const row = getDatabase()
+    .prepare(
+      `SELECT cd2.channel_id FROM channel_directories cd1
+       JOIN channel_directories cd2 ON cd1.directory = cd2.directory
+       WHERE cd1.channel_id = ? AND cd1.channel_type = 'voice' AND cd2.channel_type = 'text'`,
+    )
+    .get(voiceChannelId) as { channel_id: string } | undefined
+  return row?.channel_id
+}
+
+/**
+ * Voice channel of a project directory.
+ */
+export function getProjectVoiceChannelId(directory: string): string | undefined {
+  const row = getDatabase()
+    .prepare(
+      'SELECT channel_id FROM channel_directories WHERE directory = ? AND channel_type = ?',
+    )
+    .get(directory, 'voice') as { channel_id: string } | undefined
+  return row?.channel_id
+}
+
+async function fetchThread(
+  discordClient: Client,
+  threadId: string,
+): Promise<ThreadChannel | null> {
+  const channel = await discordClient.channels.fetch(threadId).catch(() => null)
+  return channel?.isThread() ? channel : null
+}
+
+/**
+ * Transcribe one utterance and post its preview in the dictation thread, or
+ * in the project text channel when no thread is linked yet.
+ */
+export async function submitDictationUtterance({
+  discordClient,
+  appId,
+  voiceChannelId,
+  directory,
+  userId,
+  pcm,
+}: {
+  discordClient: Client
+  appId: string
+  voiceChannelId: string
+  directory: string
+  userId: string
+  pcm: Buffer
+}): Promise<void> {
+  if (pcm.length < MIN_UTTERANCE_BYTES) {
+    dictationLogger.log(`[DICTATION] Skipping ${pcm.length} byte utterance, too short`)
+    return
+  }
+
+  const textChannelId = getVoiceTextChannelId(voiceChannelId)
+  if (!textChannelId) {
+    dictationLogger.error(`[DICTATION] Voice channel ${voiceChannelId} has no text channel`)
+    return
+  }
+
+  const { threadId } = getVoiceChannelMode(voiceChannelId)
+  const thread = threadId ? await fetchThread(discordClient, threadId) : null
+  const target: TextChannel | ThreadChannel | null =
+    thread ??
+    (await discordClient.channels
+      .fetch(textChannelId)
+      .then((channel) => {
+        return channel?.type === ChannelType.GuildText ? (channel as TextChannel) : null
+      })
+      .catch(() => null))
+  if (!target) {
+    dictationLogger.error(`[DICTATION] Could not fetch text channel ${textChannelId}`)
+    return
+  }
+
+  const apiKeys = getDatabase()
+    .prepare('SELECT gemini_api_key FROM bot_api_keys WHERE app_id = ?')
+    .get(appId) as { gemini_api_key: string | null } | undefined
+
+  dictationLogger.log(
+    `[DICTATION] Transcribing ${(pcm.length / BYTES_PER_SECOND).toFixed(1)}s from ${userId}`,
+  )
+  const transcription = await transcribeForChannel({
+    channelId: textChannelId,
+    audio: pcmToWav({ pcm }),
+    mimeType: 'audio/wav',
+    prompt: 'Dictated prompt for a coding agent',
+    geminiApiKey: apiKeys?.gemini_api_key ?? undefined,
+    directory,
+  })
+  if (transcription instanceof Error) {
+    dictationLogger.error('[DICTATION] Transcription failed:', transcription)
+    await target.send({
+      content: `⚠️ Dictation transcription failed: ${transcription.message}`,
+      flags: SILENT_MESSAGE_FLAGS,
+    })
+    return
+  }
+
+  const text = transcription.trim()
+  if (!text || text === INAUDIBLE) {
+    dictationLogger.log('[DICTATION] Nothing audible, skipping preview')
+    return
+  }
+
+  const hash = pendingDictations.add({
+    text,
+    userId,
+    voiceChannelId,
+    textChannelId,
+    directory,
+    threadId: thread?.id ?? null,
+  })
+
+  await target.send({
+    content: formatDictationPreview({ text, userId, state: 'pending' }),
+    components: dictationButtons(hash),
+    allowedMentions: { parse: [] },
+  })
+}
+
+/**
+ * Send a confirmed dictation to the session of its thread. Without a linked
+ * thread one is started from the preview message and linked for next time.
+ */
+async function sendDictation({
+  dictation,
+  message,
+  user,
+}: {
+  dictation: PendingDictation
+  message: Message
+  user: { id: string; username: string }
+}): Promise<void> {
+  const thread = await (async () => {
+    if (dictation.threadId) {
+      return fetchThread(message.client, dictation.threadId)
+    }
+    if (message.channel.isThread()) {
+      return message.channel
+    }
+    const started = await errore.tryAsync(() => {
+      return message.startThread({
+        name: dictation.text.replace(/\s+/g, ' ').slice(0, 80) || 'Dictation',
+        autoArchiveDuration: 1440,
+      })
+    })
+    if (started instanceof Error) {
+      dictationLogger.error('[DICTATION] Failed to start thread:', started)
+      return null
+    }
+    setVoiceChannelMode({
+      channelId: dictation.voiceChannelId,
+      mode: 'dictation',
+      threadId: started.id,
+    })
+    return started
+  })()
+
+  if (!thread) {
+    await message.reply({
+      content: '❌ The dictation thread is gone. Run `/voice-mode` again to pick one.',
+      flags: SILENT_MESSAGE_FLAGS,
+    })
+    return
+  }
+
+  dictationLogger.log(`[DICTATION] Sending dictation from ${user.username} to thread ${thread.id}`)
+  await handleOpencodeSession({
+    prompt: dictation.text,
+    thread: toPlatformThread(thread),
+    projectDirectory: dictation.directory,
+    channelId: dictation.textChannelId,
+    user,
+  })
+}
+
+/**
+ * Send, edit or discard a dictation preview. Only the speaker can act on it.
+ */
+export async function handleDictationButton(
+  interaction: ButtonInteraction,
+): Promise<void> {
+  const [, hash, action] = interaction.customId.split(':')
+  const dictation = pendingDictations.get(hash)
+  if (!hash || !dictation) {
+    await interaction.reply({
+      content: 'This dictation has expired.',
+      ephemeral: true,
+    })
+    return
+  }
+  if (interaction.user.id !== dictation.userId) {
+    await interaction.reply({
+      content: 'Only the speaker can send or change this dictation.',
+      ephemeral: true,
+    })
+    return
+  }
+
+  switch (action) {
+    case 'send': {
+      // Before the first await, so a double click cannot send it twice
+      pendingDictations.delete(hash)
+      await interaction.update({
+        content: formatDictationPreview({ ...dictation, state: 'sent' }),
+        components: [],
+        allowedMentions: { parse: [] },
+      })
+      await sendDictation({
+        dictation,
+        message: interaction.message,
+        user: { id: interaction.user.id, username: interaction.user.username },
+      })
+      return
+    }
+
+    case 'edit': {
+      const modal = new ModalBuilder()
+        .setCustomId(`dictation_edit:${hash}`)
+        .setTitle('Edit dictation')
+        .addComponents(
+          new ActionRowBuilder<TextInputBuilder>().addComponents(
+            new TextInputBuilder()
+              .setCustomId('prompt')
+              .setLabel('Prompt')
+              .setStyle(TextInputStyle.Paragraph)
+              .setValue(dictation.text.slice(0, 4000))
+              .setRequired(true),
+          ),
+        )
+      await interaction.showModal(modal)
+      return
+    }
+
+    case 'discard': {
+      pendingDictations.delete(hash)
+      await interaction.update({
+        content: formatDictationPreview({ ...dictation, state: 'discarded' }),
+        components: [],
+        allowedMentions: { parse: [] },
+      })
+      return
+    }
+
+    default:
+      await interaction.reply({
+        content: `Unknown dictation action: ${action}`,
+        ephemeral: true,
+      })
+  }
+}
+
+/**
+ * Send the edited text of a dictation preview.
+ */
+export async function handleDictationModalSubmit(
+  interaction: ModalSubmitInteraction,
+): Promise<void> {
+  const [, hash] = interaction.customId.split(':')
+  const dictation = pendingDictations.get(hash)
+  if (!hash || !dictation || !interaction.isFromMessage()) {
+    await interaction.reply({
+      content: 'This dictation has expired.',
+      ephemeral: true,
+    })
+    return
+  }
+
+  const text = interaction.fields.getTextInputValue('prompt').trim()
+  if (!text) {
+    await interaction.reply({ content: '❌ The prompt is empty.', ephemeral: true })
+    return
+  }
+
+  pendingDictations.delete(hash)
+  dictation.text = text
+  await interaction.update({
+    content: formatDictationPreview({ ...dictation, state: 'sent' }),
+    components: [],
+    allowedMentions: { parse: [] },
+  })
+  await sendDictation({
+    dictation,
+    message: interaction.message,
+    user: { id: interaction.user.id, username: interaction.user.username },
+  })
+}
@@ -41,14 +41,29 @@ import {
   registerVoiceStateHandler,
 } from './voice-handler.js'
 import { getCompactSessionContext, getLastSessionId } from './markdown.js'
-import { handleOpencodeSession } from './session-handler.js'
+import {
+  handleOpencodeSession,
+  replayQueuedMessages,
+} from './session-handler.js'
 import { registerInteractionHandler } from './interaction-handler.js'
 import { registerReactionHandler } from './reaction-handler.js'
-import { startScheduler } from './scheduler.js'
+import { startScheduler, stopScheduler } from './scheduler.js'
+import {
+  handleWorktreeThreadArchived,
+  notifyWorktreeRemoved,
+  startWorktreeGc,
+  stopWorktreeGc,
+} from './worktree-lifecycle.js'
+import { startApiServer } from './api-server.js'
 import { refreshSessionCache } from './commands/resume.js'
 import { sanitizeForXml } from './security.js'
 import { sanitizeErrorForUser, getErrorForLogging } from './errors.js'
-import { getRateLimitConfig } from './config.js'
+import { checkRateLimit } from './rate-limit.js'
+import {
+  checkMemberAccess,
+  formatAccessDenied,
+  getPolicyChannelId,
+} from './access-control.js'
 
 export { getDatabase, closeDatabase, getChannelDirectory } from './database.js'
 export { initializeOpencodeForDirectory } from './opencode.js'
@@ -71,16 +86,21 @@ import {
   Events,
   GatewayIntentBits,
   Partials,
-  PermissionsBitField,
   ThreadAutoArchiveDuration,
   type Message,
   type TextChannel,
   type ThreadChannel,
 } from 'discord.js'
 import fs from 'node:fs'
+import type { Server } from 'node:http'
 import * as errore from 'errore'
 import { createLogger, LogPrefix } from './logger.js'
 import { setGlobalDispatcher, Agent } from 'undici'
+import {
+  DiscordPlatform,
+  toPlatformMessage,
+  toPlatformThread,
+} from './platform/discord.js'
 
 // Increase connection pool to prevent deadlock when multiple sessions have open SSE streams.
 // Each session's event.subscribe() holds a connection; without enough connections,
@@ -132,60 +152,34 @@ function prefixWithDiscordUser({
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
-// RATE LIMITING
+// RUNNING BOTS
 // ═══════════════════════════════════════════════════════════════════════════
 
-type RateLimitEntry = {
-  timestamps: number[]
+type RunningBot = {
+  client: Client
+  appId?: string
+  apiServer?: Server
 }
 
-// In-memory rate limit tracker: userId -> timestamps of recent interactions
-const rateLimitMap = new Map<string, RateLimitEntry>()
-
-// Cleanup old entries every 5 minutes
-setInterval(() => {
-  const now = Date.now()
-  const oneMinuteAgo = now - 60_000
-
-  for (const [userId, entry] of rateLimitMap) {
-    entry.timestamps = entry.timestamps.filter((ts) => {
-      return ts > oneMinuteAgo
-    })
-    if (entry.timestamps.length === 0) {
-      rateLimitMap.delete(userId)
-    }
-  }
-}, 5 * 60_000)
+// Every bot started in this process. They share the OpenCode servers,
+// the database and the shutdown handlers.
+const runningBots: RunningBot[] = []
 
 /**
- * Check if a user is rate limited.
- * Returns null if not limited, or a message string if limited.
+ * Stop one bot hosted in this process. Its scheduler and worktree GC
+ * entries are released; the other bots keep running.
  */
-function checkRateLimit(userId: string): string | null {
-  const config = getRateLimitConfig()
-  const now = Date.now()
-  const oneMinuteAgo = now - 60_000
-
-  let entry = rateLimitMap.get(userId)
-  if (!entry) {
-    entry = { timestamps: [] }
-    rateLimitMap.set(userId, entry)
-  }
-
-  // Filter to only recent timestamps
-  entry.timestamps = entry.timestamps.filter((ts) => {
-    return ts > oneMinuteAgo
-  })
-
-  if (entry.timestamps.length >= config.messagesPerMinute) {
-    const oldestTs = entry.timestamps[0] || now
-    const waitSeconds = Math.ceil((oldestTs + 60_000 - now) / 1000)
-    return `Rate limited. Please wait ${waitSeconds} second${waitSeconds === 1 ? '' : 's'} before sending another message.`
+export function stopDiscordBot(appId: string): void {
+  const index = runningBots.findIndex((bot) => bot.appId === appId)
+  const [bot] = index === -1 ? [] : runningBots.splice(index, 1)
+  stopScheduler(appId)
+  stopWorktreeGc(appId)
+  if (!bot) {
+    return
   }
-
-  // Record this interaction
-  entry.timestamps.push(now)
-  return null
+  bot.apiServer?.close()
+  void bot.client.destroy()
+  discordLogger.log(`Stopped bot ${appId}`)
 }
 
 type StartOptions = {
@@ -193,6 +187,8 @@ type StartOptions = {
   appId?: string
   /** When true, all new sessions from channel messages create git worktrees */
   useWorktrees?: boolean
+  /** Port for the local HTTP API. The API is disabled when unset. */
+  apiPort?: number
 }
 
 export async function createDiscordClient() {
@@ -219,12 +215,15 @@ export async function startDiscordBot({
   appId,
   discordClient,
   useWorktrees,
+  apiPort,
 }: StartOptions & { discordClient?: Client }) {
   if (!discordClient) {
     discordClient = await createDiscordClient()
   }
 
   let currentAppId: string | undefined = appId
+  const bot: RunningBot = { client: discordClient, appId }
+  runningBots.push(bot)
 
   const setupHandlers = async (c: Client<true>) => {
     discordLogger.log(`Discord bot logged in as ${c.user.tag}`)
@@ -239,6 +238,7 @@ export async function startDiscordBot({
         discordLogger.error('Could not get application ID')
         throw new Error('Failed to get bot application ID')
       }
+      bot.appId = currentAppId
       discordLogger.log(`Bot Application ID (fetched): ${currentAppId}`)
     } else {
       discordLogger.log(`Bot Application ID (provided): ${currentAppId}`)
@@ -273,7 +273,23 @@ export async function startDiscordBot({
     registerInteractionHandler({ discordClient: c, appId: currentAppId })
     registerVoiceStateHandler({ discordClient: c, appId: currentAppId })
     registerReactionHandler({ discordClient: c, appId: currentAppId })
-    startScheduler(c)
+    startScheduler({ client: c, appId: currentAppId })
+    startWorktreeGc({ client: c, appId: currentAppId })
+    const platform = new DiscordPlatform(c)
+    void replayQueuedMessages({ platform, appId: currentAppId })
+    if (apiPort && !bot.apiServer) {
+      bot.apiServer = await startApiServer({
+        platform,
+        appId: currentAppId,
+        port: apiPort,
+      }).catch((error) => {
+        discordLogger.error(
+          `[API] Failed to start HTTP API on port ${apiPort}:`,
+          error instanceof Error ? error.message : String(error),
+        )
+        return undefined
+      })
+    }
 
     const updateInfo = await checkForUpdates()
     if (updateInfo) {
@@ -370,27 +386,29 @@ export async function startDiscordBot({
           return
         }
 
-        const isOwner = message.member.id === message.guild.ownerId
-        const isAdmin = message.member.permissions.has(
-          PermissionsBitField.Flags.Administrator,
-        )
-        const canManageServer = message.member.permissions.has(
-          PermissionsBitField.Flags.ManageGuild,
-        )
-        const hasDisundayRole = message.member.roles.cache.some(
-          (role) => role.name.toLowerCase() === 'disunday',
-        )
-
-        if (!isOwner && !isAdmin && !canManageServer && !hasDisundayRole) {
+        const policyChannelId = getPolicyChannelId(message.channel)
+        const access = checkMemberAccess({
+          member: message.member,
+          channelId: policyChannelId,
+          action: 'message',
+        })
+        if (!access.allowed) {
           await message.reply({
-            content: `You don't have permission to start sessions.\nTo use Disunday, ask a server admin to give you the **Disunday** role.`,
+            content: formatAccessDenied({
+              decision: access,
+              userId: message.author.id,
+              channelId: policyChannelId,
+            }),
             flags: SILENT_MESSAGE_FLAGS,
           })
           return
         }
       }
 
-      const rateLimitMessage = checkRateLimit(message.author.id)
+      const rateLimitMessage = checkRateLimit({
+        appId: currentAppId,
+        userId: message.author.id,
+      })
       if (rateLimitMessage) {
         await message.reply({
           content: rateLimitMessage,
@@ -506,9 +524,10 @@ export async function startDiscordBot({
                 message.member?.displayName || message.author.displayName,
               prompt,
             }),
-            thread,
+            thread: toPlatformThread(thread),
             projectDirectory,
             channelId: parent?.id || '',
+            user: { id: message.author.id, username: message.author.username },
           })
           return
         }
@@ -592,9 +611,9 @@ export async function startDiscordBot({
             username: message.member?.displayName || message.author.displayName,
             prompt: promptWithAttachments,
           }),
-          thread,
+          thread: toPlatformThread(thread),
           projectDirectory,
-          originalMessage: message,
+          originalMessage: toPlatformMessage(message),
           images: fileAttachments,
           channelId: parent?.id,
         })
@@ -762,9 +781,9 @@ export async function startDiscordBot({
             username: message.member?.displayName || message.author.displayName,
             prompt: promptWithAttachments,
           }),
-          thread,
+          thread: toPlatformThread(thread),
           projectDirectory: sessionDirectory,
-          originalMessage: message,
+          originalMessage: toPlatformMessage(message),
           images: fileAttachments,
           channelId: textChannel.id,
         })
@@ -788,6 +807,42 @@ export async function startDiscordBot({
     }
   })
 
+  // Clean up worktrees of deleted and locked threads. Plain archives may be
+  // Discord's auto-archive of an idle thread, so the hourly pass removes
+  // those only after a retention period
+  discordClient.on(Events.ThreadUpdate, (oldThread, newThread) => {
+    if (oldThread.archived === newThread.archived) {
+      return
+    }
+    void handleWorktreeThreadArchived({
+      threadId: newThread.id,
+      archived: Boolean(newThread.archived),
+      removeNow: Boolean(newThread.archived && newThread.locked),
+    })
+      .then(async (removed) => {
+        if (removed) {
+          await notifyWorktreeRemoved({
+            client: newThread.client,
+            threadId: newThread.id,
+            reason: 'archived',
+          })
+        }
+      })
+      .catch((error) => {
+        discordLogger.error(`[WORKTREE] Failed to handle archive of thread ${newThread.id}:`, error)
+      })
+  })
+
+  discordClient.on(Events.ThreadDelete, (thread) => {
+    void handleWorktreeThreadArchived({
+      threadId: thread.id,
+      archived: true,
+      removeNow: true,
+    }).catch((error) => {
+      discordLogger.error(`[WORKTREE] Failed to handle deletion of thread ${thread.id}:`, error)
+    })
+  })
+
   // Handle bot-initiated threads created by `disunday send` (without --notify-only)
   // Uses embed marker instead of database to avoid race conditions
   const AUTO_START_MARKER = 'disunday:start'
@@ -873,7 +928,7 @@ export async function startDiscordBot({
 
       await handleOpencodeSession({
         prompt,
-        thread,
+        thread: toPlatformThread(thread),
         projectDirectory,
         channelId: parent.id,
       })
@@ -899,59 +954,85 @@ export async function startDiscordBot({
 
   await discordClient.login(token)
 
-  const handleShutdown = async (signal: string, { skipExit = false } = {}) => {
-    discordLogger.log(`Received ${signal}, cleaning up...`)
+  registerProcessHandlers()
+}
 
-    if ((global as any).shuttingDown) {
-      discordLogger.log('Already shutting down, ignoring duplicate signal')
-      return
+let processHandlersRegistered = false
+
+async function handleShutdown(signal: string, { skipExit = false } = {}) {
+  discordLogger.log(`Received ${signal}, cleaning up...`)
+
+  if ((global as any).shuttingDown) {
+    discordLogger.log('Already shutting down, ignoring duplicate signal')
+    return
+  }
+  ;(global as any).shuttingDown = true
+
+  try {
+    const cleanupPromises: Promise<void>[] = []
+    for (const [guildId] of voiceConnections) {
+      voiceLogger.log(
+        `[SHUTDOWN] Cleaning up voice connection for guild ${guildId}`,
+      )
+      cleanupPromises.push(cleanupVoiceConnection(guildId))
     }
-    ;(global as any).shuttingDown = true
 
-    try {
-      const cleanupPromises: Promise<void>[] = []
-      for (const [guildId] of voiceConnections) {
-        voiceLogger.log(
-          `[SHUTDOWN] Cleaning up voice connection for guild ${guildId}`,
-        )
-        cleanupPromises.push(cleanupVoiceConnection(guildId))
-      }
+    if (cleanupPromises.length > 0) {
+      voiceLogger.log(
+        `[SHUTDOWN] Waiting for ${cleanupPromises.length} voice connection(s) to clean up...`,
+      )
+      await Promise.allSettled(cleanupPromises)
+      discordLogger.log(`All voice connections cleaned up`)
+    }
 
-      if (cleanupPromises.length > 0) {
+    for (const [dir, server] of getOpencodeServers()) {
+      if (!server.process.killed) {
         voiceLogger.log(
-          `[SHUTDOWN] Waiting for ${cleanupPromises.length} voice connection(s) to clean up...`,
+          `[SHUTDOWN] Stopping OpenCode server on port ${server.port} for ${dir}`,
         )
-        await Promise.allSettled(cleanupPromises)
-        discordLogger.log(`All voice connections cleaned up`)
+        server.process.kill('SIGTERM')
       }
+    }
+    getOpencodeServers().clear()
 
-      for (const [dir, server] of getOpencodeServers()) {
-        if (!server.process.killed) {
-          voiceLogger.log(
-            `[SHUTDOWN] Stopping OpenCode server on port ${server.port} for ${dir}`,
-          )
-          server.process.kill('SIGTERM')
-        }
+    stopWorktreeGc()
+    stopScheduler()
+
+    for (const bot of runningBots) {
+      if (bot.apiServer) {
+        discordLogger.log('Stopping HTTP API...')
+        bot.apiServer.close()
       }
-      getOpencodeServers().clear()
+    }
 
-      discordLogger.log('Closing database...')
-      closeDatabase()
+    discordLogger.log('Closing database...')
+    closeDatabase()
 
-      discordLogger.log('Destroying Discord client...')
-      discordClient.destroy()
+    discordLogger.log(`Destroying ${runningBots.length} Discord client(s)...`)
+    for (const bot of runningBots) {
+      bot.client.destroy()
+    }
 
-      discordLogger.log('Cleanup complete.')
-      if (!skipExit) {
-        process.exit(0)
-      }
-    } catch (error) {
-      voiceLogger.error('[SHUTDOWN] Error during cleanup:', error)
-      if (!skipExit) {
-        process.exit(1)
-      }
+    discordLogger.log('Cleanup complete.')
+    if (!skipExit) {
+      process.exit(0)
     }
+  } catch (error) {
+    voiceLogger.error('[SHUTDOWN] Error during cleanup:', error)
+    if (!skipExit) {
+      process.exit(1)
+    }
+  }
+}
+
+/**
+ * Register signal handlers once per process, however many bots it hosts.
+ */
+function registerProcessHandlers(): void {
+  if (processHandlersRegistered) {
+    return
   }
+  processHandlersRegistered = true
 
   process.on('SIGTERM', async () => {
     try {
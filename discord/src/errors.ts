@@ -29,6 +29,12 @@ export class ServerNotReadyError extends createTaggedError({
     'OpenCode server for directory "$directory" is in an error state (no client available)',
 }) {}
 
+export class ServerPoolFullError extends createTaggedError({
+  name: 'ServerPoolFullError',
+  message:
+    'All $maxServers OpenCode servers are running sessions. Try again when one finishes.',
+}) {}
+
 export class ApiKeyMissingError extends createTaggedError({
   name: 'ApiKeyMissingError',
   message: '$service API key is required',
@@ -58,11 +64,21 @@ export class TranscriptionError extends createTaggedError({
   message: 'Transcription failed: $reason',
 }) {}
 
+export class SpeechSynthesisError extends createTaggedError({
+  name: 'SpeechSynthesisError',
+  message: 'Speech synthesis failed: $reason',
+}) {}
+
 export class GrepSearchError extends createTaggedError({
   name: 'GrepSearchError',
   message: 'Grep search failed for pattern: $pattern',
 }) {}
 
+export class GitCommandError extends createTaggedError({
+  name: 'GitCommandError',
+  message: 'git $command failed: $reason',
+}) {}
+
 export class GlobSearchError extends createTaggedError({
   name: 'GlobSearchError',
   message: 'Glob search failed for pattern: $pattern',
@@ -115,6 +131,11 @@ export class OpenCodeApiError extends createTaggedError({
   message: 'OpenCode API error ($status): $body',
 }) {}
 
+export class ForgeApiError extends createTaggedError({
+  name: 'ForgeApiError',
+  message: '$forge API error ($status): $body',
+}) {}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // UNION TYPES - For function signatures
 // ═══════════════════════════════════════════════════════════════════════════
@@ -132,6 +153,7 @@ export type OpenCodeErrors =
   | ServerStartError
   | ServerNotFoundError
   | ServerNotReadyError
+  | ServerPoolFullError
 
 export type SessionErrors =
   | SessionNotFoundError
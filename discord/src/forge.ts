@@ -0,0 +1,251 @@
+// Git forge clients for opening pull requests from worktree sessions.
+// A Forge turns a pushed branch into a pull request (GitHub) or merge
+// request (GitLab). New forges implement the Forge interface and are added
+// to FORGE_KINDS and createForge. API URLs are configurable so tests and
+// self-hosted instances can point at a different server.
+
+import * as errore from 'errore'
+import { FetchError, ForgeApiError } from './errors.js'
+
+export type ForgeKind = 'github' | 'gitlab'
+
+export const FORGE_KINDS: ForgeKind[] = ['github', 'gitlab']
+
+export function isForgeKind(value: string): value is ForgeKind {
+  return (FORGE_KINDS as string[]).includes(value)
+}
+
+/** Repository location parsed from a git remote URL */
+export type ForgeRepository = {
+  host: string
+  /** owner/repo, or group/subgroup/repo on GitLab */
+  path: string
+}
+
+export type PullRequestInput = {
+  repository: ForgeRepository
+  /** Branch the changes should be merged into */
+  base: string
+  /** Branch with the changes, already pushed to the remote */
+  head: string
+  title: string
+  body: string
+  draft?: boolean
+}
+
+export type PullRequest = {
+  url: string
+  number: number
+}
+
+export interface Forge {
+  readonly kind: ForgeKind
+  createPullRequest(
+    input: PullRequestInput,
+  ): Promise<FetchError | ForgeApiError | PullRequest>
+}
+
+/**
+ * Parse scp-style (git@host:owner/repo.git), ssh:// and http(s):// remote
+ * URLs. Returns null for local paths and other URLs without a host.
+ */
+export function parseRemoteUrl(url: string): ForgeRepository | null {
+  const trimmed = url.trim()
+  const scpMatch = trimmed.match(/^[\w.-]+@([^:/]+):(.+)$/)
+  const parsed = (() => {
+    if (scpMatch?.[1] && scpMatch[2]) {
+      return { host: scpMatch[1], path: scpMatch[2] }
+    }
+    try {
+      const remote = new URL(trimmed)
+      if (!['http:', 'https:', 'ssh:', 'git:'].includes(remote.protocol)) {
+        return null
+      }
+      return { host: remote.hostname, path: remote.pathname }
+    } catch {
+      return null
+    }
+  })()
+  if (!parsed) {
+    return null
+  }
+  const path = parsed.path.replace(/^\/+/, '').replace(/\/+$/, '').replace(/\.git$/, '')
+  if (!path.includes('/')) {
+    return null
+  }
+  return { host: parsed.host, path }
+}
+
+/**
+ * Check a configured API URL before the forge token is sent to it. It must
+ * use https and, once the remote is known, live on the remote's host or one
+ * of its subdomains (api.github.com for github.com).
+ */
+export function validateForgeApiUrl({
+  apiUrl,
+  repository,
+}: {
+  apiUrl: string
+  repository?: ForgeRepository
+}): Error | string {
+  const url = errore.tryFn(() => new URL(apiUrl))
+  if (url instanceof Error || url.protocol !== 'https:') {
+    return new Error(`API URL must be an https:// URL: ${apiUrl}`)
+  }
+  if (url.username || url.password) {
+    return new Error('API URL must not contain credentials')
+  }
+  if (repository) {
+    const remoteHost = repository.host.toLowerCase()
+    if (url.hostname !== remoteHost && !url.hostname.endsWith(`.${remoteHost}`)) {
+      return new Error(
+        `API URL host ${url.hostname} does not match the remote host ${repository.host}`,
+      )
+    }
+  }
+  return apiUrl
+}
+
+export function detectForgeKind(host: string): ForgeKind {
+  return host.includes('gitlab') ? 'gitlab' : 'github'
+}
+
+async function postJson({
+  forge,
+  url,
+  headers,
+  body,
+}: {
+  forge: ForgeKind
+  url: string
+  headers: Record<string, string>
+  body: unknown
+}): Promise<FetchError | ForgeApiError | Record<string, unknown>> {
+  const response = await errore.tryAsync({
+    try: () =>
+      fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+      }),
+    catch: (e) => new FetchError({ url, cause: e }),
+  })
+  if (response instanceof Error) {
+    return response
+  }
+  const text = await response.text()
+  if (!response.ok) {
+    return new ForgeApiError({
+      forge,
+      status: String(response.status),
+      body: text.slice(0, 500),
+    })
+  }
+  const json = errore.tryFn(() => JSON.parse(text) as Record<string, unknown>)
+  if (json instanceof Error) {
+    return new ForgeApiError({
+      forge,
+      status: String(response.status),
+      body: `Invalid JSON response: ${text.slice(0, 200)}`,
+    })
+  }
+  return json
+}
+
+export class GitHubForge implements Forge {
+  readonly kind = 'github'
+  private readonly apiUrl: string
+
+  constructor(
+    private readonly token: string,
+    apiUrl?: string,
+  ) {
+    this.apiUrl = (apiUrl || 'https://api.github.com').replace(/\/+$/, '')
+  }
+
+  async createPullRequest(
+    input: PullRequestInput,
+  ): Promise<FetchError | ForgeApiError | PullRequest> {
+    const result = await postJson({
+      forge: this.kind,
+      url: `${this.apiUrl}/repos/${input.repository.path}/pulls`,
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        Accept: 'application/vnd.github+json',
+      },
+      body: {
+        title: input.title,
+        body: input.body,
+        head: input.head,
+        base: input.base,
+        draft: input.draft ?? false,
+      },
+    })
+    if (result instanceof Error) {
+      return result
+    }
+    return { url: String(result.html_url), number: Number(result.number) }
+  }
+}
+
+export class GitLabForge implements Forge {
+  readonly kind = 'gitlab'
+
+  constructor(
+    private readonly token: string,
+    private readonly apiUrl?: string,
+  ) {}
+
+  async createPullRequest(
+    input: PullRequestInput,
+  ): Promise<FetchError | ForgeApiError | PullRequest> {
+    const apiUrl = (
+      this.apiUrl || `https://${input.repository.host}/api/v4`
+    ).replace(/\/+$/, '')
+    const result = await postJson({
+      forge: this.kind,
+      url: `${apiUrl}/projects/${encodeURIComponent(input.repository.path)}/merge_requests`,
+      headers: { 'PRIVATE-TOKEN': this.token },
+      body: {
+        source_branch: input.head,
+        target_branch: input.base,
+        title: input.draft ? `Draft: ${input.title}` : input.title,
+        description: input.body,
+      },
+    })
+    if (result instanceof Error) {
+      return result
+    }
+    return { url: String(result.web_url), number: Number(result.iid) }
+  }
+}
+
+/**
+ * Token for a forge: DISUNDAY_FORGE_TOKEN, then GITHUB_TOKEN or GITLAB_TOKEN.
+ */
+export function getForgeToken(
+  kind: ForgeKind,
+  env: NodeJS.ProcessEnv = process.env,
+): string | undefined {
+  if (env.DISUNDAY_FORGE_TOKEN) {
+    return env.DISUNDAY_FORGE_TOKEN
+  }
+  return kind === 'gitlab' ? env.GITLAB_TOKEN : env.GITHUB_TOKEN
+}
+
+export function createForge({
+  kind,
+  token,
+  apiUrl,
+}: {
+  kind: ForgeKind
+  token: string
+  apiUrl?: string
+}): Forge {
+  switch (kind) {
+    case 'github':
+      return new GitHubForge(token, apiUrl)
+    case 'gitlab':
+      return new GitLabForge(token, apiUrl)
+  }
+}
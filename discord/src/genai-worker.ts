@@ -6,11 +6,10 @@ import { parentPort, threadId } from 'node:worker_threads'
 import { createWriteStream, type WriteStream } from 'node:fs'
 import path from 'node:path'
 import * as errore from 'errore'
-import { Resampler } from '@purinton/resampler'
-import * as prism from 'prism-media'
 import { startGenAiSession } from './genai.js'
 import type { Session } from '@google/genai'
 import { getTools } from './tools.js'
+import { createOpusPacketStream } from './opus-stream.js'
 import { mkdir } from 'node:fs/promises'
 import type { WorkerInMessage, WorkerOutMessage } from './worker-types.js'
 import { createLogger, LogPrefix } from './logger.js'
@@ -45,49 +44,13 @@ process.on('unhandledRejection', (reason, promise) => {
   sendError(`Worker unhandled rejection: ${reason}`)
 })
 
-// Audio configuration
-const AUDIO_CONFIG = {
-  inputSampleRate: 24000, // GenAI output
-  inputChannels: 1,
-  outputSampleRate: 48000, // Discord expects
-  outputChannels: 2,
-  opusFrameSize: 960, // 20ms at 48kHz
-}
-
-// Initialize audio processing components
-const resampler = new Resampler({
-  inRate: AUDIO_CONFIG.inputSampleRate,
-  outRate: AUDIO_CONFIG.outputSampleRate,
-  inChannels: AUDIO_CONFIG.inputChannels,
-  outChannels: AUDIO_CONFIG.outputChannels,
-  volume: 1,
-  filterWindow: 8,
-})
-
-const opusEncoder = new prism.opus.Encoder({
-  rate: AUDIO_CONFIG.outputSampleRate,
-  channels: AUDIO_CONFIG.outputChannels,
-  frameSize: AUDIO_CONFIG.opusFrameSize,
-})
-
-// Pipe resampler to encoder with error handling
-resampler.pipe(opusEncoder).on('error', (error) => {
-  workerLogger.error('Pipe error between resampler and encoder:', error)
-  sendError(`Audio pipeline error: ${error.message}`)
-})
-
-// Opus packet queue and interval for 20ms packet sending
-const opusPacketQueue: Buffer[] = []
-let packetInterval: NodeJS.Timeout | null = null
-
-// Send packets every 20ms
-function startPacketSending() {
-  if (packetInterval) return
-
-  packetInterval = setInterval(() => {
-    const packet = opusPacketQueue.shift()
-    if (!packet) return
+// GenAI speaks 24kHz mono PCM
+const GENAI_OUTPUT_SAMPLE_RATE = 24000
 
+const opusStream = createOpusPacketStream({
+  inputSampleRate: GENAI_OUTPUT_SAMPLE_RATE,
+  inputChannels: 1,
+  onPacket(packet) {
     // Transfer packet as ArrayBuffer
     const arrayBuffer = packet.buffer.slice(
       packet.byteOffset,
@@ -101,16 +64,17 @@ function startPacketSending() {
       } satisfies WorkerOutMessage,
       [arrayBuffer], // Transfer ownership
     )
-  }, 20)
-}
-
-function stopPacketSending() {
-  if (packetInterval) {
-    clearInterval(packetInterval)
-    packetInterval = null
-  }
-  opusPacketQueue.length = 0
-}
+  },
+  onError(error) {
+    workerLogger.error(`Audio pipeline error:`, error)
+    // Check for specific corrupted data errors
+    if (error.message?.includes('The compressed data passed is corrupted')) {
+      workerLogger.warn('Received corrupted audio data in opus encoder')
+    } else {
+      sendError(`Audio pipeline error: ${error.message}`)
+    }
+  },
+})
 
 // Session state
 let session: { session: Session; stop: () => void } | null = null
@@ -152,40 +116,10 @@ async function createAssistantAudioLogStream(
   return outputAudioStream
 }
 
-// Handle encoded Opus packets
-opusEncoder.on('data', (packet: Buffer) => {
-  opusPacketQueue.push(packet)
-})
-
-// Handle stream end events
-opusEncoder.on('end', () => {
-  workerLogger.log('Opus encoder stream ended')
-})
-
-resampler.on('end', () => {
-  workerLogger.log('Resampler stream ended')
-})
-
-// Handle errors
-resampler.on('error', (error: any) => {
-  workerLogger.error(`Resampler error:`, error)
-  sendError(`Resampler error: ${error.message}`)
-})
-
-opusEncoder.on('error', (error: any) => {
-  workerLogger.error(`Encoder error:`, error)
-  // Check for specific corrupted data errors
-  if (error.message?.includes('The compressed data passed is corrupted')) {
-    workerLogger.warn('Received corrupted audio data in opus encoder')
-  } else {
-    sendError(`Encoder error: ${error.message}`)
-  }
-})
-
 async function cleanupAsync(): Promise<void> {
   workerLogger.log(`Starting async cleanup`)
 
-  stopPacketSending()
+  opusStream.stop()
 
   if (session) {
     workerLogger.log(`Stopping GenAI session`)
@@ -211,28 +145,8 @@ async function cleanupAsync(): Promise<void> {
     audioLogStream = null
   }
 
-  // Unpipe and end the encoder first
-  resampler.unpipe(opusEncoder)
-
-  // End the encoder stream
-  await new Promise<void>((resolve) => {
-    opusEncoder.end(() => {
-      workerLogger.log(`Opus encoder ended`)
-      resolve()
-    })
-    // Add timeout
-    setTimeout(resolve, 1000)
-  })
-
-  // End the resampler stream
-  await new Promise<void>((resolve) => {
-    resampler.end(() => {
-      workerLogger.log(`Resampler ended`)
-      resolve()
-    })
-    // Add timeout
-    setTimeout(resolve, 1000)
-  })
+  // End the resampler and encoder
+  await opusStream.end()
 
   workerLogger.log(`Async cleanup complete`)
 }
@@ -248,7 +162,7 @@ parentPort.on('message', async (message: WorkerInMessage) => {
         audioLogStream = await createAssistantAudioLogStream(message.guildId, message.channelId)
 
         // Start packet sending interval
-        startPacketSending()
+        opusStream.start()
 
         // Get tools for the directory
         const { tools } = await getTools({
@@ -276,15 +190,8 @@ parentPort.on('message', async (message: WorkerInMessage) => {
               })
             }
 
-            // Write PCM data to resampler which will output Opus packets
-            if (!resampler.destroyed) {
-              resampler.write(data, (err) => {
-                if (err) {
-                  workerLogger.error('Error writing to resampler:', err)
-                  sendError(`Failed to process audio: ${err.message}`)
-                }
-              })
-            }
+            // Write PCM data to the stream which will output Opus packets
+            opusStream.write(data)
           },
           onAssistantStartSpeaking() {
             parentPort!.postMessage({
@@ -336,7 +243,7 @@ parentPort.on('message', async (message: WorkerInMessage) => {
       case 'interrupt': {
         workerLogger.log(`Interrupting playback`)
         // Clear the opus packet queue
-        opusPacketQueue.length = 0
+        opusStream.clear()
         break
       }
 
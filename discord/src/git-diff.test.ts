@@ -0,0 +1,104 @@
+import { execSync } from 'node:child_process'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, test } from 'vitest'
+import { buildPatch, parseGitDiff } from './git-diff.js'
+import { applyGitDiff, captureGitDiff } from './worktree-utils.js'
+
+const ORIGINAL = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`)
+
+let repoDir: string
+
+function git(args: string): string {
+  return execSync(
+    `git -c user.name=test -c user.email=test@example.com ${args}`,
+    { cwd: repoDir, stdio: 'pipe' },
+  ).toString()
+}
+
+beforeEach(() => {
+  repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'disunday-diff-test-'))
+  git('init -q')
+  fs.writeFileSync(path.join(repoDir, 'a.txt'), `${ORIGINAL.join('\n')}\n`)
+  fs.writeFileSync(path.join(repoDir, 'b.txt'), 'b\n')
+  git('add .')
+  git('commit -q -m init')
+
+  // Two separate hunks in a.txt, one in b.txt
+  const changed = [...ORIGINAL]
+  changed[1] = 'line 2 changed'
+  changed[27] = 'line 28 changed'
+  fs.writeFileSync(path.join(repoDir, 'a.txt'), `${changed.join('\n')}\n`)
+  fs.writeFileSync(path.join(repoDir, 'b.txt'), 'b changed\n')
+})
+
+afterEach(() => {
+  fs.rmSync(repoDir, { recursive: true, force: true })
+})
+
+describe('parseGitDiff', () => {
+  test('splits files and hunks with line counts', async () => {
+    const captured = await captureGitDiff(repoDir)
+    const files = parseGitDiff(captured!.unstaged)
+
+    expect(
+      files.map((file) => {
+        return [file.path, file.hunks.length, file.additions, file.deletions]
+      }),
+    ).toEqual([
+      ['a.txt', 2, 2, 2],
+      ['b.txt', 1, 1, 1],
+    ])
+    expect(files[0]!.hunks[0]!.lines).toContain('+line 2 changed')
+    expect(buildPatch(files[1]!)).toMatchInlineSnapshot(`
+      "diff --git a/b.txt b/b.txt
+      index 6178079..7b1aa3d 100644
+      --- a/b.txt
+      +++ b/b.txt
+      @@ -1 +1 @@
+      -b
+      +b changed
+      "
+    `)
+  })
+})
+
+describe('applyGitDiff with single hunks', () => {
+  test('reverts one hunk and keeps the other', async () => {
+    const captured = await captureGitDiff(repoDir)
+    const [fileA] = parseGitDiff(captured!.unstaged)
+
+    const reverted = await applyGitDiff(
+      repoDir,
+      { staged: '', unstaged: buildPatch(fileA!, 0) },
+      { reverse: true },
+    )
+    expect(reverted).toBe(true)
+    const content = fs.readFileSync(path.join(repoDir, 'a.txt'), 'utf-8')
+    expect(content).toContain('line 2\n')
+    expect(content).toContain('line 28 changed')
+
+    const kept = await applyGitDiff(
+      repoDir,
+      { staged: buildPatch(fileA!, 1), unstaged: '' },
+      { cached: true },
+    )
+    expect(kept).toBe(true)
+    expect(git('diff --cached --name-only').trim()).toBe('a.txt')
+
+    // A staged hunk reverts from both the index and the working tree
+    const staged = parseGitDiff((await captureGitDiff(repoDir))!.staged)
+    expect(
+      await applyGitDiff(
+        repoDir,
+        { staged: buildPatch(staged[0]!), unstaged: '' },
+        { reverse: true },
+      ),
+    ).toBe(true)
+    expect(fs.readFileSync(path.join(repoDir, 'a.txt'), 'utf-8')).toBe(
+      `${ORIGINAL.join('\n')}\n`,
+    )
+    expect(git('diff --cached --name-only').trim()).toBe('')
+  })
+})
@@ -0,0 +1,103 @@
+// Unified diff parsing for the /diff viewer.
+// Splits `git diff` output into files and hunks, and rebuilds standalone
+// patches for a single file or hunk so they can be applied with git apply.
+
+import crypto from 'node:crypto'
+
+export type DiffHunk = {
+  /** The @@ line */
+  header: string
+  lines: string[]
+}
+
+export type DiffFile = {
+  path: string
+  /** Lines from `diff --git` up to the first hunk */
+  header: string[]
+  hunks: DiffHunk[]
+  binary: boolean
+  additions: number
+  deletions: number
+}
+
+function parsePath(diffLine: string): string {
+  // diff --git a/src/x.ts b/src/x.ts
+  const match = diffLine.match(/^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/)
+  return match?.[2] ?? diffLine.replace(/^diff --git /, '')
+}
+
+export function parseGitDiff(patch: string): DiffFile[] {
+  const files: DiffFile[] = []
+  let file: DiffFile | undefined
+  let hunk: DiffHunk | undefined
+
+  for (const line of patch.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      file = {
+        path: parsePath(line),
+        header: [line],
+        hunks: [],
+        binary: false,
+        additions: 0,
+        deletions: 0,
+      }
+      hunk = undefined
+      files.push(file)
+      continue
+    }
+    if (!file) {
+      continue
+    }
+    if (line.startsWith('@@')) {
+      hunk = { header: line, lines: [] }
+      file.hunks.push(hunk)
+      continue
+    }
+    if (!hunk) {
+      if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+        file.binary = true
+      }
+      file.header.push(line)
+      continue
+    }
+    if (line === '' && hunk.lines.length > 0) {
+      // Trailing empty line from split; real blank context lines start with a space
+      continue
+    }
+    hunk.lines.push(line)
+    if (line.startsWith('+')) {
+      file.additions++
+    } else if (line.startsWith('-')) {
+      file.deletions++
+    }
+  }
+
+  return files
+}
+
+/**
+ * Standalone patch for a whole file, or for one of its hunks.
+ */
+export function buildPatch(file: DiffFile, hunkIndex?: number): string {
+  const hunks =
+    hunkIndex === undefined
+      ? file.hunks
+      : file.hunks.slice(hunkIndex, hunkIndex + 1)
+  const lines = [
+    ...file.header,
+    ...hunks.flatMap((hunk) => [hunk.header, ...hunk.lines]),
+  ]
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Short fingerprint of a file or hunk, used to detect that the diff changed
+ * between rendering a page and clicking one of its buttons.
+ */
+export function diffFingerprint(file: DiffFile, hunkIndex?: number): string {
+  return crypto
+    .createHash('sha1')
+    .update(buildPatch(file, hunkIndex))
+    .digest('hex')
+    .slice(0, 10)
+}
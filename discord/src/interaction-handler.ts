@@ -8,8 +8,17 @@ import {
   handleSessionAutocomplete,
 } from './commands/session.js'
 import { handleNewWorktreeCommand } from './commands/worktree.js'
-import { handleMergeWorktreeCommand } from './commands/merge-worktree.js'
+import {
+  handleMergeWorktreeButton,
+  handleMergeWorktreeCommand,
+} from './commands/merge-worktree.js'
+import { handleOpenPrCommand } from './commands/open-pr.js'
+import { handlePrConfigCommand } from './commands/pr-config.js'
 import { handleToggleWorktreesCommand } from './commands/worktree-settings.js'
+import {
+  handleWorktreesButton,
+  handleWorktreesCommand,
+} from './commands/worktrees.js'
 import {
   handleResumeCommand,
   handleResumeAutocomplete,
@@ -55,7 +64,21 @@ import {
 import { handleUndoCommand, handleRedoCommand } from './commands/undo-redo.js'
 import { handleUserCommand } from './commands/user-command.js'
 import { handleVerbosityCommand } from './commands/verbosity.js'
-import { handleThemeCommand } from './commands/theme.js'
+import { handleDisplayCommand } from './commands/display.js'
+import { handleVoiceModeCommand } from './commands/voice-mode.js'
+import { handleTranscriptionCommand } from './commands/transcription.js'
+import { handleVoiceSummaryCommand } from './commands/voice-summary.js'
+import { handlePermissionPolicyCommand } from './commands/permission-policy.js'
+import { handlePermissionTimeoutCommand } from './commands/permission-timeout.js'
+import {
+  handleDictationButton,
+  handleDictationModalSubmit,
+} from './dictation.js'
+import {
+  handleThemeAutocomplete,
+  handleThemeCommand,
+  handleThemeModalSubmit,
+} from './commands/theme.js'
 import { handleSettingsCommand } from './commands/settings.js'
 import { handleRestartOpencodeServerCommand } from './commands/restart-opencode-server.js'
 import { handleRunCommand, handleRunAutocomplete } from './commands/run.js'
@@ -65,15 +88,31 @@ import { handleHelpCommand } from './commands/help.js'
 import { handlePingCommand } from './commands/ping.js'
 import { handleContextCommand } from './commands/context.js'
 import { handleCostCommand } from './commands/cost.js'
-import { handleDiffCommand } from './commands/diff.js'
+import {
+  handleDiffButton,
+  handleDiffCommand,
+  isDiffEditButton,
+} from './commands/diff.js'
 import { handleExportCommand } from './commands/export.js'
+import { handleImportCommand } from './commands/import.js'
 import { handleFilesCommand } from './commands/files.js'
 import { handleScheduleCommand } from './commands/schedule.js'
+import {
+  handleTemplateAutocomplete,
+  handleTemplateCommand,
+  handleTemplateModalSubmit,
+} from './commands/template.js'
+import { handleAccessCommand } from './commands/access.js'
+import { handleAuditCommand } from './commands/audit.js'
+import { handleBudgetCommand } from './commands/budget.js'
+import { handleStatsCommand } from './commands/stats.js'
 import {
   handleRetryContextMenu,
   handleForkContextMenu,
 } from './commands/context-menu.js'
+import { ensureInteractionAccess } from './access-control.js'
 import { createLogger, LogPrefix } from './logger.js'
+import { toPlatformThread } from './platform/discord.js'
 
 const interactionLogger = createLogger(LogPrefix.INTERACTION)
 
@@ -122,6 +161,15 @@ export function registerInteractionHandler({
               await handleRunAutocomplete({ interaction })
               return
 
+            case 'template':
+            case 'schedule':
+              await handleTemplateAutocomplete({ interaction, appId })
+              return
+
+            case 'theme':
+              await handleThemeAutocomplete({ interaction, appId })
+              return
+
             default:
               await interaction.respond([])
               return
@@ -133,6 +181,14 @@ export function registerInteractionHandler({
             `[COMMAND] Processing: ${interaction.commandName}`,
           )
 
+          const allowed = await ensureInteractionAccess({
+            interaction,
+            action: interaction.commandName,
+          })
+          if (!allowed) {
+            return
+          }
+
           switch (interaction.commandName) {
             case 'new-session':
               await handleSessionCommand({ command: interaction, appId })
@@ -146,6 +202,14 @@ export function registerInteractionHandler({
               await handleMergeWorktreeCommand({ command: interaction, appId })
               return
 
+            case 'open-pr':
+              await handleOpenPrCommand({ command: interaction, appId })
+              return
+
+            case 'pr-config':
+              await handlePrConfigCommand({ command: interaction, appId })
+              return
+
             case 'toggle-worktrees':
               await handleToggleWorktreesCommand({
                 command: interaction,
@@ -153,6 +217,10 @@ export function registerInteractionHandler({
               })
               return
 
+            case 'worktrees':
+              await handleWorktreesCommand({ command: interaction, appId })
+              return
+
             case 'resume':
               await handleResumeCommand({ command: interaction, appId })
               return
@@ -233,6 +301,30 @@ export function registerInteractionHandler({
               await handleVerbosityCommand({ command: interaction, appId })
               return
 
+            case 'display':
+              await handleDisplayCommand({ command: interaction, appId })
+              return
+
+            case 'voice-mode':
+              await handleVoiceModeCommand({ command: interaction, appId })
+              return
+
+            case 'transcription':
+              await handleTranscriptionCommand({ command: interaction, appId })
+              return
+
+            case 'voice-summary':
+              await handleVoiceSummaryCommand({ command: interaction, appId })
+              return
+
+            case 'permission-policy':
+              await handlePermissionPolicyCommand({ command: interaction, appId })
+              return
+
+            case 'permission-timeout':
+              await handlePermissionTimeoutCommand({ command: interaction, appId })
+              return
+
             case 'theme':
               await handleThemeCommand({ command: interaction, appId })
               return
@@ -280,6 +372,10 @@ export function registerInteractionHandler({
               await handleExportCommand({ command: interaction, appId })
               return
 
+            case 'import':
+              await handleImportCommand({ command: interaction, appId })
+              return
+
             case 'files':
               await handleFilesCommand({ command: interaction, appId })
               return
@@ -291,6 +387,26 @@ export function registerInteractionHandler({
             case 'schedule':
               await handleScheduleCommand({ command: interaction, appId })
               return
+
+            case 'template':
+              await handleTemplateCommand({ command: interaction, appId })
+              return
+
+            case 'access':
+              await handleAccessCommand({ command: interaction, appId })
+              return
+
+            case 'audit':
+              await handleAuditCommand({ command: interaction, appId })
+              return
+
+            case 'budget':
+              await handleBudgetCommand({ command: interaction, appId })
+              return
+
+            case 'stats':
+              await handleStatsCommand({ command: interaction, appId })
+              return
           }
 
           // Handle quick agent commands (ending with -agent suffix, but not the base /agent command)
@@ -314,6 +430,13 @@ export function registerInteractionHandler({
           const customId = interaction.customId
 
           if (customId.startsWith('retry_error:')) {
+            const allowed = await ensureInteractionAccess({
+              interaction,
+              action: 'retry',
+            })
+            if (!allowed) {
+              return
+            }
             await handleRetryErrorButton({ interaction, appId })
             return
           }
@@ -322,6 +445,56 @@ export function registerInteractionHandler({
             await handleDismissErrorButton(interaction)
             return
           }
+
+          if (customId.startsWith('diff:')) {
+            if (isDiffEditButton(customId)) {
+              const allowed = await ensureInteractionAccess({
+                interaction,
+                action: 'diff-edit',
+              })
+              if (!allowed) {
+                return
+              }
+            }
+            await handleDiffButton(interaction)
+            return
+          }
+
+          if (customId.startsWith('merge_worktree:')) {
+            const allowed = await ensureInteractionAccess({
+              interaction,
+              action: 'merge-worktree',
+            })
+            if (!allowed) {
+              return
+            }
+            await handleMergeWorktreeButton(interaction)
+            return
+          }
+
+          if (customId.startsWith('worktrees:')) {
+            const allowed = await ensureInteractionAccess({
+              interaction,
+              action: 'worktrees',
+            })
+            if (!allowed) {
+              return
+            }
+            await handleWorktreesButton(interaction)
+            return
+          }
+
+          if (customId.startsWith('dictation:')) {
+            const allowed = await ensureInteractionAccess({
+              interaction,
+              action: 'message',
+            })
+            if (!allowed) {
+              return
+            }
+            await handleDictationButton(interaction)
+            return
+          }
           return
         }
 
@@ -354,6 +527,13 @@ export function registerInteractionHandler({
           }
 
           if (customId.startsWith('permission:')) {
+            const allowed = await ensureInteractionAccess({
+              interaction,
+              action: 'permission',
+            })
+            if (!allowed) {
+              return
+            }
             await handlePermissionSelectMenu(interaction)
             return
           }
@@ -377,6 +557,24 @@ export function registerInteractionHandler({
             await handleApiKeyModalSubmit(interaction)
             return
           }
+
+          if (
+            customId.startsWith('template_body:') ||
+            customId.startsWith('template_fill:')
+          ) {
+            await handleTemplateModalSubmit(interaction)
+            return
+          }
+
+          if (customId.startsWith('theme_save:')) {
+            await handleThemeModalSubmit(interaction)
+            return
+          }
+
+          if (customId.startsWith('dictation_edit:')) {
+            await handleDictationModalSubmit(interaction)
+            return
+          }
           return
         }
 
@@ -385,6 +583,16 @@ export function registerInteractionHandler({
             `[CONTEXT-MENU] Processing: ${interaction.commandName}`,
           )
 
+          const contextMenuAction =
+            interaction.commandName === 'Fork from here' ? 'fork' : 'retry'
+          const allowed = await ensureInteractionAccess({
+            interaction,
+            action: contextMenuAction,
+          })
+          if (!allowed) {
+            return
+          }
+
           switch (interaction.commandName) {
             case 'Retry this prompt':
               await handleRetryContextMenu({ interaction, appId })
@@ -474,8 +682,9 @@ async function handleRetryErrorButton({
   const { handleOpencodeSession } = await import('./session-handler.js')
   await handleOpencodeSession({
     prompt,
-    thread,
+    thread: toPlatformThread(thread),
     projectDirectory,
+    user: { id: interaction.user.id, username: interaction.user.username },
   })
 }
 
@@ -0,0 +1,166 @@
+import type { Part } from '@opencode-ai/sdk/v2'
+import { afterEach, describe, expect, test, vi } from 'vitest'
+import { getThemeConfig } from './message-formatting.js'
+import { MemoryPlatform } from './platform/memory.js'
+import {
+  LIVE_EDIT_INTERVAL_MS,
+  applyLivePart,
+  createLiveStatus,
+  createLiveTurnState,
+  renderLiveStatus,
+  renderLiveSummary,
+} from './live-status.js'
+
+function toolPart({
+  id,
+  tool,
+  status,
+  input = {},
+}: {
+  id: string
+  tool: string
+  status: 'running' | 'completed' | 'error'
+  input?: Record<string, unknown>
+}): Part {
+  const state =
+    status === 'error'
+      ? { status, input, error: 'failed', time: { start: 0, end: 1 } }
+      : {
+          status,
+          input,
+          output: '',
+          title: (input.filePath as string) ?? '',
+          metadata: {},
+          time: { start: 0, end: 1 },
+        }
+  return {
+    id,
+    sessionID: 'ses_1',
+    messageID: 'msg_1',
+    type: 'tool',
+    callID: `call_${id}`,
+    tool,
+    state,
+  } as Part
+}
+
+const todoPart = toolPart({
+  id: 'prt_todo',
+  tool: 'todowrite',
+  status: 'completed',
+  input: {
+    todos: [
+      { id: '1', content: 'Reproduce the failure', status: 'completed', priority: 'high' },
+      { id: '2', content: 'Fix the cron test', status: 'in_progress', priority: 'high' },
+      { id: '3', content: 'Add a regression test', status: 'pending', priority: 'low' },
+    ],
+  },
+})
+
+const theme = getThemeConfig('default')
+
+describe('live status rendering', () => {
+  test('shows the running tool, tool tally, todos, elapsed time and tokens', () => {
+    const state = createLiveTurnState(0)
+    state.tokens = 18_400
+    for (const part of [
+      toolPart({ id: 'prt_1', tool: 'read', status: 'completed', input: { filePath: 'a.ts' } }),
+      toolPart({ id: 'prt_2', tool: 'read', status: 'completed', input: { filePath: 'b.ts' } }),
+      todoPart,
+      toolPart({ id: 'prt_3', tool: 'bash', status: 'running', input: { command: 'pnpm test' } }),
+    ]) {
+      applyLivePart({ state, part, theme })
+    }
+    state.toolCounts = { read: 2 }
+
+    expect(renderLiveStatus(state, 72_000)).toMatchInlineSnapshot(`
+      "⏳ **Working** · 1m 12s · 18.4k tokens
+      ┣ bash _pnpm test_
+      -# 2 tools: read ×2
+
+      ⒉ **fix the cron test**
+      ☑ Reproduce the failure
+      ▸ **Fix the cron test**
+      ☐ Add a regression test"
+    `)
+  })
+
+  test('clears the current tool once it finishes', () => {
+    const state = createLiveTurnState(0)
+    applyLivePart({
+      state,
+      part: toolPart({ id: 'prt_1', tool: 'bash', status: 'running', input: { command: 'ls' } }),
+      theme,
+    })
+    applyLivePart({
+      state,
+      part: toolPart({ id: 'prt_1', tool: 'bash', status: 'completed', input: { command: 'ls' } }),
+      theme,
+    })
+    expect(state.current).toBeNull()
+  })
+
+  test('collapses into a one-line summary', () => {
+    const state = createLiveTurnState(0)
+    state.tokens = 45_200
+    state.toolCounts = { read: 5, edit: 2, bash: 1 }
+    state.toolErrors = 1
+    state.todos = todoPart
+
+    expect(renderLiveSummary({ state, now: 123_000, outcome: 'completed' })).toBe(
+      '✅ **Done** · 2m 3s · 45.2k tokens · 8 tools (read ×5, edit ×2, bash, 1 failed) · todos 1/3',
+    )
+    expect(
+      renderLiveSummary({ state: createLiveTurnState(0), now: 5_000, outcome: 'aborted' }),
+    ).toBe('⏹️ **Stopped** · 5s')
+  })
+})
+
+describe('createLiveStatus', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  test('edits one message at most once per interval and ends with the summary', async () => {
+    vi.useFakeTimers()
+    const platform = new MemoryPlatform()
+    const thread = platform.createThread({ parentId: 'channel-1' })
+    const live = createLiveStatus({
+      thread,
+      startedAt: Date.now(),
+      getTheme: () => theme,
+    })
+
+    live.trackPart(toolPart({ id: 'prt_1', tool: 'read', status: 'running', input: { filePath: 'a.ts' } }))
+    await vi.advanceTimersByTimeAsync(0)
+    expect(thread.messages).toHaveLength(1)
+
+    for (let i = 2; i < 12; i++) {
+      live.trackPart(
+        toolPart({ id: `prt_${i}`, tool: 'read', status: 'completed', input: { filePath: `${i}.ts` } }),
+      )
+    }
+    await vi.advanceTimersByTimeAsync(LIVE_EDIT_INTERVAL_MS - 1)
+    expect(thread.messages[0]!.edits).toHaveLength(0)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(thread.messages[0]!.edits).toHaveLength(1)
+    expect(thread.messages[0]!.content).toContain('10 tools: read ×10')
+
+    await live.finish('completed')
+    expect(thread.messages).toHaveLength(1)
+    expect(thread.messages[0]!.content).toMatch(/^✅ \*\*Done\*\* · 2s · 10 tools/)
+  })
+
+  test('posts nothing for a turn without tools', async () => {
+    const platform = new MemoryPlatform()
+    const thread = platform.createThread({ parentId: 'channel-1' })
+    const live = createLiveStatus({
+      thread,
+      startedAt: Date.now(),
+      getTheme: () => theme,
+    })
+    live.setTokens(1200)
+    await live.finish('completed')
+    expect(thread.messages).toHaveLength(0)
+  })
+})
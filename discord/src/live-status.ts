@@ -0,0 +1,317 @@
+// Live display mode for sessions.
+// Keeps one status message per turn with the current tool, the todo
+// checklist, elapsed time and tokens, edited in place instead of posting a
+// message per part. When the turn ends it is collapsed into a summary.
+
+import type { Part } from '@opencode-ai/sdk/v2'
+import prettyMilliseconds from 'pretty-ms'
+import * as errore from 'errore'
+import type { PlatformMessage, PlatformThread } from './platform/types.js'
+import {
+  formatPart,
+  formatTodoChecklist,
+  formatTodoList,
+  type ThemeConfig,
+} from './message-formatting.js'
+import { createLogger, LogPrefix } from './logger.js'
+
+const logger = createLogger(LogPrefix.SESSION)
+
+// Discord allows 5 edits per 5 seconds on a message, keep well below
+export const LIVE_EDIT_INTERVAL_MS = 2_000
+// Refresh the elapsed time even when no part changes
+const LIVE_TICK_MS = 10_000
+const MAX_STATUS_LENGTH = 1900
+const MAX_LINE_LENGTH = 200
+
+export type LiveTurnState = {
+  startedAt: number
+  tokens: number
+  // Formatted line of the running tool or current activity
+  current: string | null
+  currentPartId: string | null
+  toolCounts: Record<string, number>
+  toolErrors: number
+  // Latest todowrite part
+  todos: Part | null
+}
+
+export type LiveOutcome = 'completed' | 'aborted' | 'error'
+
+export function createLiveTurnState(startedAt: number): LiveTurnState {
+  return {
+    startedAt,
+    tokens: 0,
+    current: null,
+    currentPartId: null,
+    toolCounts: {},
+    toolErrors: 0,
+    todos: null,
+  }
+}
+
+function formatTokenCount(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens)
+}
+
+function formatElapsed(state: LiveTurnState, now: number): string {
+  return prettyMilliseconds(Math.max(0, now - state.startedAt), {
+    secondsDecimalDigits: 0,
+  })
+}
+
+function formatToolCounts(state: LiveTurnState): string {
+  const entries = Object.entries(state.toolCounts).sort((a, b) => b[1] - a[1])
+  return entries
+    .map(([tool, count]) => (count > 1 ? `${tool} ×${count}` : tool))
+    .join(', ')
+}
+
+function countTools(state: LiveTurnState): number {
+  return Object.values(state.toolCounts).reduce((sum, count) => sum + count, 0)
+}
+
+function truncateLine(line: string): string {
+  return line.length > MAX_LINE_LENGTH ? `${line.slice(0, MAX_LINE_LENGTH)}…` : line
+}
+
+/**
+ * Status message shown while the turn runs.
+ */
+export function renderLiveStatus(state: LiveTurnState, now: number): string {
+  const header = [`⏳ **Working** · ${formatElapsed(state, now)}`]
+  if (state.tokens > 0) {
+    header.push(`${formatTokenCount(state.tokens)} tokens`)
+  }
+  const lines = [header.join(' · ')]
+
+  if (state.current) {
+    lines.push(truncateLine(state.current))
+  }
+  const tools = formatToolCounts(state)
+  if (tools) {
+    const errors = state.toolErrors > 0 ? ` (${state.toolErrors} failed)` : ''
+    lines.push(`-# ${countTools(state)} tools: ${tools}${errors}`)
+  }
+  if (state.todos) {
+    const active = formatTodoList(state.todos)
+    const checklist = formatTodoChecklist(state.todos)
+    if (checklist) {
+      lines.push('', ...(active ? [active] : []), checklist)
+    }
+  }
+
+  const content = lines.join('\n')
+  return content.length > MAX_STATUS_LENGTH
+    ? `${content.slice(0, MAX_STATUS_LENGTH)}\n…`
+    : content
+}
+
+/**
+ * One-line summary the status message collapses into when the turn ends.
+ */
+export function renderLiveSummary({
+  state,
+  now,
+  outcome,
+}: {
+  state: LiveTurnState
+  now: number
+  outcome: LiveOutcome
+}): string {
+  const label = {
+    completed: '✅ **Done**',
+    aborted: '⏹️ **Stopped**',
+    error: '✗ **Failed**',
+  }[outcome]
+  const parts = [label, formatElapsed(state, now)]
+  if (state.tokens > 0) {
+    parts.push(`${formatTokenCount(state.tokens)} tokens`)
+  }
+  const toolCount = countTools(state)
+  if (toolCount > 0) {
+    const errors = state.toolErrors > 0 ? `, ${state.toolErrors} failed` : ''
+    parts.push(`${toolCount} tools (${formatToolCounts(state)}${errors})`)
+  }
+  if (state.todos) {
+    const todos = (state.todos.type === 'tool' &&
+      (state.todos.state.input?.todos as { status: string }[])) || []
+    if (todos.length > 0) {
+      const done = todos.filter((todo) => todo.status === 'completed').length
+      parts.push(`todos ${done}/${todos.length}`)
+    }
+  }
+  return truncateLine(parts.join(' · '))
+}
+
+/**
+ * Apply a main session or subtask part to the turn state. Returns whether
+ * the status changed.
+ */
+export function applyLivePart({
+  state,
+  part,
+  label,
+  theme,
+}: {
+  state: LiveTurnState
+  part: Part
+  label?: string
+  theme: ThemeConfig
+}): boolean {
+  if (part.type === 'reasoning') {
+    if (state.currentPartId && state.currentPartId !== part.id) {
+      return false
+    }
+    const line = part.text?.trim() ? formatPart(part, label, theme) : ''
+    state.current = line || null
+    state.currentPartId = line ? part.id : null
+    return Boolean(line)
+  }
+
+  if (part.type !== 'tool' || part.state.status === 'pending') {
+    return false
+  }
+
+  if (part.tool === 'todowrite') {
+    // Shown as the checklist, not as the current tool
+    state.todos = part
+    return true
+  }
+
+  if (part.state.status === 'running') {
+    const line = part.tool === 'task'
+      ? `┣ task **${label ?? ''}** _${(part.state.input?.description as string) || ''}_`
+      : formatPart(part, label, theme).split('\n')[0] ?? ''
+    state.current = line.trim() ? line : `┣ ${part.tool}`
+    state.currentPartId = part.id
+    return true
+  }
+
+  if (state.currentPartId === part.id) {
+    state.current = null
+    state.currentPartId = null
+  }
+  return true
+}
+
+export type LiveStatus = {
+  trackPart(part: Part, label?: string): void
+  trackCompletedTool(part: Part): void
+  setTokens(tokens: number): void
+  finish(outcome: LiveOutcome): Promise<void>
+}
+
+/**
+ * Status message of one turn. The message is created on the first update,
+ * and edits are debounced to one per LIVE_EDIT_INTERVAL_MS.
+ */
+export function createLiveStatus({
+  thread,
+  startedAt,
+  getTheme,
+}: {
+  thread: PlatformThread
+  startedAt: number
+  getTheme: () => ThemeConfig
+}): LiveStatus {
+  const state = createLiveTurnState(startedAt)
+  const countedParts = new Set<string>()
+  let message: PlatformMessage | null = null
+  let lastContent = ''
+  let lastFlushAt = 0
+  let timer: NodeJS.Timeout | null = null
+  let ticker: NodeJS.Timeout | null = null
+  let finished = false
+  // Sends and edits run one at a time, in order
+  let queue: Promise<void> = Promise.resolve()
+
+  const write = (content: string) => {
+    queue = queue.then(async () => {
+      if (content === lastContent) {
+        return
+      }
+      const result = await errore.tryAsync(async () => {
+        if (message) {
+          await message.edit({ content })
+          return
+        }
+        message = await thread.send({ content })
+      })
+      if (result instanceof Error) {
+        logger.error('[LIVE] Failed to update status message:', result)
+        return
+      }
+      lastContent = content
+      lastFlushAt = Date.now()
+    })
+    return queue
+  }
+
+  const flush = () => {
+    timer = null
+    if (finished) {
+      return
+    }
+    void write(renderLiveStatus(state, Date.now()))
+  }
+
+  const schedule = () => {
+    if (finished || timer) {
+      return
+    }
+    const delay = Math.max(0, lastFlushAt + LIVE_EDIT_INTERVAL_MS - Date.now())
+    timer = setTimeout(flush, delay)
+    if (!ticker) {
+      ticker = setInterval(schedule, LIVE_TICK_MS)
+    }
+  }
+
+  return {
+    trackPart(part, label) {
+      if (applyLivePart({ state, part, label, theme: getTheme() })) {
+        this.trackCompletedTool(part)
+        schedule()
+      }
+    },
+    trackCompletedTool(part) {
+      if (
+        part.type !== 'tool' ||
+        part.tool === 'todowrite' ||
+        (part.state.status !== 'completed' && part.state.status !== 'error') ||
+        countedParts.has(part.id)
+      ) {
+        return
+      }
+      countedParts.add(part.id)
+      state.toolCounts[part.tool] = (state.toolCounts[part.tool] ?? 0) + 1
+      if (part.state.status === 'error') {
+        state.toolErrors++
+      }
+    },
+    setTokens(tokens) {
+      if (tokens !== state.tokens) {
+        state.tokens = tokens
+        if (message || timer) {
+          schedule()
+        }
+      }
+    },
+    async finish(outcome) {
+      finished = true
+      if (timer) {
+        clearTimeout(timer)
+        timer = null
+      }
+      if (ticker) {
+        clearInterval(ticker)
+        ticker = null
+      }
+      await queue
+      if (!message) {
+        return
+      }
+      await write(renderLiveSummary({ state, now: Date.now(), outcome }))
+    },
+  }
+}
@@ -12,18 +12,25 @@ import pc from 'picocolors'
 // All known log prefixes - add new ones here to keep alignment consistent
 export const LogPrefix = {
   ABORT: 'ABORT',
+  ACCESS: 'ACCESS',
   ADD_PROJECT: 'ADD_PROJ',
   AGENT: 'AGENT',
+  API: 'API',
   ASK_QUESTION: 'QUESTION',
+  AUDIT: 'AUDIT',
   CLI: 'CLI',
   COMPACT: 'COMPACT',
   CREATE_PROJECT: 'NEW_PROJ',
   DB: 'DB',
+  DIFF: 'DIFF',
+  DISPLAY: 'DISPLAY',
   DISCORD: 'DISCORD',
+  FORGE: 'FORGE',
   FORK: 'FORK',
   FORMATTING: 'FORMAT',
   GENAI: 'GENAI',
   GENAI_WORKER: 'GENAI_W',
+  IMPORT: 'IMPORT',
   INTERACTION: 'INTERACT',
   LOGIN: 'LOGIN',
   MARKDOWN: 'MARKDOWN',
@@ -42,6 +49,7 @@ export const LogPrefix = {
   THEME: 'THEME',
   TOOLS: 'TOOLS',
   UNDO_REDO: 'UNDO',
+  USAGE: 'USAGE',
   USER_CMD: 'USER_CMD',
   VERBOSITY: 'VERBOSE',
   VOICE: 'VOICE',
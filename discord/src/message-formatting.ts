@@ -2,7 +2,7 @@
 // Converts SDK message parts (text, tools, reasoning) to Discord-friendly format,
 // handles file attachments, and provides tool summary generation.
 
-import type { Part } from '@opencode-ai/sdk/v2'
+import type { Part, ToolPart } from '@opencode-ai/sdk/v2'
 import type { FilePartInput } from '@opencode-ai/sdk'
 import type { Message } from 'discord.js'
 
@@ -37,7 +37,7 @@ function escapeInlineMarkdown(text: string): string {
  * Patch format uses `*** Add File:`, `*** Update File:`, `*** Delete File:` headers,
  * with diff lines prefixed by `+` (addition) or `-` (deletion) inside `@@` hunks.
  */
-function parsePatchCounts(
+export function parsePatchCounts(
   patchText: string,
 ): Map<string, { additions: number; deletions: number }> {
   const counts = new Map<string, { additions: number; deletions: number }>()
@@ -375,13 +375,19 @@ export function getToolSummaryText(part: Part): string {
   return `(${inputFields.join(', ')})`
 }
 
+type Todo = {
+  content: string
+  status: 'pending' | 'in_progress' | 'completed' | 'cancelled'
+}
+
+function getTodos(part: Part): Todo[] {
+  if (part.type !== 'tool' || part.tool !== 'todowrite') return []
+  return (part.state.input?.todos as Todo[]) || []
+}
+
 export function formatTodoList(part: Part): string {
   if (part.type !== 'tool' || part.tool !== 'todowrite') return ''
-  const todos =
-    (part.state.input?.todos as {
-      content: string
-      status: 'pending' | 'in_progress' | 'completed' | 'cancelled'
-    }[]) || []
+  const todos = getTodos(part)
   const activeIndex = todos.findIndex((todo) => {
     return todo.status === 'in_progress'
   })
@@ -397,9 +403,34 @@ export function formatTodoList(part: Part): string {
   return `${num} **${escapeInlineMarkdown(content)}**`
 }
 
+/**
+ * Every todo of a todowrite part as a checklist, the active one in bold.
+ */
+export function formatTodoChecklist(part: Part): string {
+  const icons: Record<Todo['status'], string> = {
+    completed: '☑',
+    in_progress: '▸',
+    pending: '☐',
+    cancelled: '☒',
+  }
+  return getTodos(part)
+    .map((todo) => {
+      const content = escapeInlineMarkdown(todo.content)
+      if (todo.status === 'in_progress') {
+        return `${icons.in_progress} **${content}**`
+      }
+      if (todo.status === 'cancelled') {
+        return `${icons.cancelled} ~~${content}~~`
+      }
+      return `${icons[todo.status] ?? icons.pending} ${content}`
+    })
+    .join('\n')
+}
+
+// Built-in themes. Custom themes are stored in the database, see themes.ts
 export type ThemeType = 'default' | 'minimal' | 'detailed' | 'plain'
 
-type ThemeConfig = {
+export type ThemeConfig = {
   textBullet: string
   fileBullet: string
   toolBullet: string
@@ -409,6 +440,11 @@ type ThemeConfig = {
   agentBullet: string
   showEmoji: boolean
   showThinking: boolean
+  // Icon per tool name, replacing the tool or edit bullet
+  toolIcons: Record<string, string>
+  // Code block language per tool name; the tool's command, diff or content
+  // is shown in a code block below its line
+  codeLanguages: Record<string, string>
 }
 
 const themes: Record<ThemeType, ThemeConfig> = {
@@ -422,6 +458,8 @@ const themes: Record<ThemeType, ThemeConfig> = {
     agentBullet: '┣',
     showEmoji: true,
     showThinking: true,
+    toolIcons: {},
+    codeLanguages: {},
   },
   minimal: {
     textBullet: '',
@@ -433,6 +471,8 @@ const themes: Record<ThemeType, ThemeConfig> = {
     agentBullet: '-',
     showEmoji: false,
     showThinking: false,
+    toolIcons: {},
+    codeLanguages: {},
   },
   detailed: {
     textBullet: '💬',
@@ -444,6 +484,8 @@ const themes: Record<ThemeType, ThemeConfig> = {
     agentBullet: '🤖',
     showEmoji: true,
     showThinking: true,
+    toolIcons: {},
+    codeLanguages: {},
   },
   plain: {
     textBullet: '-',
@@ -455,16 +497,76 @@ const themes: Record<ThemeType, ThemeConfig> = {
     agentBullet: '[agent]',
     showEmoji: false,
     showThinking: true,
+    toolIcons: {},
+    codeLanguages: {},
   },
 }
 
+export function isBuiltinTheme(name: string): name is ThemeType {
+  return name in themes
+}
+
 export function getThemeConfig(theme: ThemeType): ThemeConfig {
   return themes[theme] || themes.default
 }
 
-export function formatPart(part: Part, prefix?: string, theme: ThemeType = 'default'): string {
+const EMOJI_PATTERN = /\p{Extended_Pictographic}\uFE0F?/gu
+const MAX_TOOL_CODE_LENGTH = 1000
+
+// Themes without emoji drop them from bullets and icons
+function withoutEmoji(t: ThemeConfig): ThemeConfig {
+  const strip = (value: string) => {
+    return value.replace(EMOJI_PATTERN, '').trim()
+  }
+  return {
+    ...t,
+    textBullet: strip(t.textBullet),
+    fileBullet: strip(t.fileBullet),
+    toolBullet: strip(t.toolBullet),
+    editBullet: strip(t.editBullet),
+    errorBullet: strip(t.errorBullet),
+    thinkingBullet: strip(t.thinkingBullet),
+    agentBullet: strip(t.agentBullet),
+    toolIcons: Object.fromEntries(
+      Object.entries(t.toolIcons).map(([tool, icon]) => [tool, strip(icon)]),
+    ),
+  }
+}
+
+/**
+ * The code a theme can show in a code block for a tool: the bash command,
+ * the diff of an edit, or the content of a write.
+ */
+function getToolCode(part: ToolPart): string | null {
+  const code = (() => {
+    if (part.tool === 'bash') {
+      return part.state.input?.command
+    }
+    if (part.tool === 'write') {
+      return part.state.input?.content
+    }
+    if (part.state.status === 'completed') {
+      return part.state.metadata?.diff
+    }
+    return undefined
+  })()
+  if (typeof code !== 'string' || !code.trim()) {
+    return null
+  }
+  const trimmed = code.replace(/\n+$/, '')
+  return trimmed.length > MAX_TOOL_CODE_LENGTH
+    ? `${trimmed.slice(0, MAX_TOOL_CODE_LENGTH)}\n…`
+    : trimmed
+}
+
+export function formatPart(
+  part: Part,
+  prefix?: string,
+  theme: ThemeType | ThemeConfig = 'default',
+): string {
   const pfx = prefix ? `${prefix} ⋅ ` : ''
-  const t = getThemeConfig(theme)
+  const config = typeof theme === 'string' ? getThemeConfig(theme) : theme
+  const t = config.showEmoji ? config : withoutEmoji(config)
 
   if (part.type === 'text') {
     if (!part.text?.trim()) return ''
@@ -554,6 +656,10 @@ export function formatPart(part: Part, prefix?: string, theme: ThemeType = 'defa
       if (part.state.status === 'error') {
         return t.errorBullet
       }
+      const toolIcon = t.toolIcons[part.tool]
+      if (toolIcon) {
+        return toolIcon
+      }
       if (
         part.tool === 'edit' ||
         part.tool === 'write' ||
@@ -566,7 +672,10 @@ export function formatPart(part: Part, prefix?: string, theme: ThemeType = 'defa
     const toolParts = [part.tool, toolTitle, summaryText]
       .filter(Boolean)
       .join(' ')
-    return `${icon} ${pfx}${toolParts}`
+    const line = `${icon} ${pfx}${toolParts}`.trimStart()
+    const language = t.codeLanguages[part.tool]
+    const code = language && part.state.status !== 'error' ? getToolCode(part) : null
+    return code ? `${line}\n\`\`\`${language}\n${code}\n\`\`\`` : line
   }
 
   logger.warn('Unknown part type:', part)
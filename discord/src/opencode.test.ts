@@ -0,0 +1,37 @@
+import { describe, expect, test } from 'vitest'
+import { selectIdleServers, selectLruServer } from './opencode.js'
+
+const now = 10 * 60 * 60 * 1000
+
+function pool(entries: [string, { lastUsedAt: number; activeSessions: number }][]) {
+  return new Map(entries)
+}
+
+describe('selectIdleServers', () => {
+  test('selects unused servers past the timeout and skips running sessions', () => {
+    const servers = pool([
+      ['/repos/old', { lastUsedAt: now - 40 * 60 * 1000, activeSessions: 0 }],
+      ['/repos/busy', { lastUsedAt: now - 90 * 60 * 1000, activeSessions: 1 }],
+      ['/repos/recent', { lastUsedAt: now - 5 * 60 * 1000, activeSessions: 0 }],
+    ])
+    expect(
+      selectIdleServers({ servers, now, idleTimeoutMs: 30 * 60 * 1000 }),
+    ).toEqual(['/repos/old'])
+  })
+})
+
+describe('selectLruServer', () => {
+  test('picks the least recently used server without sessions', () => {
+    const servers = pool([
+      ['/repos/a', { lastUsedAt: now - 1000, activeSessions: 0 }],
+      ['/repos/b', { lastUsedAt: now - 5000, activeSessions: 2 }],
+      ['/repos/c', { lastUsedAt: now - 3000, activeSessions: 0 }],
+    ])
+    expect(selectLruServer(servers)).toBe('/repos/c')
+  })
+
+  test('returns null when every server is running sessions', () => {
+    const servers = pool([['/repos/a', { lastUsedAt: now, activeSessions: 1 }]])
+    expect(selectLruServer(servers)).toBeNull()
+  })
+})
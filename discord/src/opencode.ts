@@ -1,11 +1,13 @@
 // OpenCode server process manager.
-// Spawns and maintains OpenCode API servers per project directory,
-// handles automatic restarts on failure, and provides typed SDK clients.
+// Spawns OpenCode API servers per project directory in a bounded pool:
+// least recently used servers are evicted when idle, crashed servers are
+// restarted on the next request, and typed SDK clients are provided.
 // Uses errore for type-safe error handling.
 
-import { spawn, type ChildProcess } from 'node:child_process'
+import { execFile, spawn, type ChildProcess } from 'node:child_process'
 import fs from 'node:fs'
 import net from 'node:net'
+import { promisify } from 'node:util'
 import {
   createOpencodeClient,
   type OpencodeClient,
@@ -17,28 +19,61 @@ import {
 } from '@opencode-ai/sdk/v2'
 import * as errore from 'errore'
 import { createLogger, LogPrefix } from './logger.js'
-import { getBashWhitelist } from './config.js'
+import { getBashWhitelist, getOpencodePoolConfig } from './config.js'
 import {
   DirectoryNotAccessibleError,
   ServerStartError,
   ServerNotReadyError,
+  ServerPoolFullError,
   FetchError,
   type OpenCodeErrors,
 } from './errors.js'
 
 const opencodeLogger = createLogger(LogPrefix.OPENCODE)
 
-const opencodeServers = new Map<
+const execFileAsync = promisify(execFile)
+
+export type OpencodeServer = {
+  process: ChildProcess
+  client: OpencodeClient
+  clientV2: OpencodeClientV2
+  port: number
+  startedAt: number
+  lastUsedAt: number
+  /** Sessions streaming events from this server; never evicted while > 0 */
+  activeSessions: number
+}
+
+export type OpencodeServerStatus = {
+  directory: string
+  port: number
+  pid: number | undefined
+  uptimeMs: number
+  idleMs: number
+  activeSessions: number
+  /** Resident memory of the server process, null when it can't be read */
+  memoryBytes: number | null
+  crashes: number
+}
+
+const opencodeServers = new Map<string, OpencodeServer>()
+
+// Servers being spawned, so concurrent requests share one process
+const startingServers = new Map<
   string,
-  {
-    process: ChildProcess
-    client: OpencodeClient
-    clientV2: OpencodeClientV2
-    port: number
-  }
+  Promise<OpenCodeErrors | (() => OpencodeClient)>
 >()
 
-const serverRetryCount = new Map<string, number>()
+// Servers stopped on purpose, whose exit is not a crash
+const stoppingServers = new Set<string>()
+
+// Crashes per directory since the bot started, for /status
+const serverCrashCount = new Map<string, number>()
+
+// How often idle servers are looked for
+const IDLE_SWEEP_INTERVAL_MS = 60 * 1000
+
+let idleSweepInterval: NodeJS.Timeout | null = null
 
 async function getOpenPort(): Promise<number> {
   return new Promise((resolve, reject) => {
@@ -89,6 +124,102 @@ async function waitForServer(
   })
 }
 
+/**
+ * Servers to stop because they have been unused for longer than the idle
+ * timeout. Servers with running sessions are never selected.
+ */
+export function selectIdleServers({
+  servers,
+  now,
+  idleTimeoutMs,
+}: {
+  servers: Map<string, Pick<OpencodeServer, 'lastUsedAt' | 'activeSessions'>>
+  now: number
+  idleTimeoutMs: number
+}): string[] {
+  return [...servers.entries()]
+    .filter(([, server]) => {
+      return server.activeSessions === 0 && now - server.lastUsedAt >= idleTimeoutMs
+    })
+    .map(([directory]) => directory)
+}
+
+/**
+ * Least recently used server without running sessions, to make room for a
+ * new one. Null when every server is busy.
+ */
+export function selectLruServer(
+  servers: Map<string, Pick<OpencodeServer, 'lastUsedAt' | 'activeSessions'>>,
+): string | null {
+  let lru: [string, number] | null = null
+  for (const [directory, server] of servers) {
+    if (server.activeSessions > 0) {
+      continue
+    }
+    if (!lru || server.lastUsedAt < lru[1]) {
+      lru = [directory, server.lastUsedAt]
+    }
+  }
+  return lru?.[0] ?? null
+}
+
+function createClientGetter(directory: string): () => OpencodeClient {
+  return () => {
+    const entry = opencodeServers.get(directory)
+    if (!entry?.client) {
+      throw new ServerNotReadyError({ directory })
+    }
+    entry.lastUsedAt = Date.now()
+    return entry.client
+  }
+}
+
+function stopServerProcess(directory: string, reason: string): void {
+  const server = opencodeServers.get(directory)
+  if (!server) {
+    return
+  }
+  opencodeLogger.log(
+    `Stopping server on port ${server.port} for ${directory} (${reason}, pid: ${server.process.pid})`,
+  )
+  stoppingServers.add(directory)
+  opencodeServers.delete(directory)
+  server.process.kill('SIGTERM')
+}
+
+function sweepIdleServers(): void {
+  const { idleTimeoutMs } = getOpencodePoolConfig()
+  const idle = selectIdleServers({
+    servers: opencodeServers,
+    now: Date.now(),
+    idleTimeoutMs,
+  })
+  for (const directory of idle) {
+    stopServerProcess(directory, `idle for ${Math.round(idleTimeoutMs / 60000)}m`)
+  }
+}
+
+function ensureIdleSweep(): void {
+  if (idleSweepInterval) {
+    return
+  }
+  idleSweepInterval = setInterval(sweepIdleServers, IDLE_SWEEP_INTERVAL_MS)
+  // Don't keep the process alive just to evict servers
+  idleSweepInterval.unref()
+}
+
+export function stopIdleSweep(): void {
+  if (idleSweepInterval) {
+    clearInterval(idleSweepInterval)
+    idleSweepInterval = null
+  }
+}
+
+/**
+ * Start or reuse the server for a directory. When the pool is full, the least
+ * recently used idle server is stopped first. Crashed servers are not
+ * restarted until they are requested again.
+ */
 export async function initializeOpencodeForDirectory(
   directory: string,
 ): Promise<OpenCodeErrors | (() => OpencodeClient)> {
@@ -97,15 +228,37 @@ export async function initializeOpencodeForDirectory(
     opencodeLogger.log(
       `Reusing existing server on port ${existing.port} for directory: ${directory}`,
     )
-    return () => {
-      const entry = opencodeServers.get(directory)
-      if (!entry?.client) {
-        throw new ServerNotReadyError({ directory })
-      }
-      return entry.client
+    existing.lastUsedAt = Date.now()
+    return createClientGetter(directory)
+  }
+
+  const starting = startingServers.get(directory)
+  if (starting) {
+    return starting
+  }
+
+  const { maxServers } = getOpencodePoolConfig()
+  while (opencodeServers.size + startingServers.size >= maxServers) {
+    const lru = selectLruServer(opencodeServers)
+    if (!lru) {
+      opencodeLogger.warn(
+        `Server pool full (${maxServers}), all servers have running sessions`,
+      )
+      return new ServerPoolFullError({ maxServers })
     }
+    stopServerProcess(lru, 'least recently used, pool full')
   }
 
+  const startPromise = startServer(directory).finally(() => {
+    startingServers.delete(directory)
+  })
+  startingServers.set(directory, startPromise)
+  return startPromise
+}
+
+async function startServer(
+  directory: string,
+): Promise<OpenCodeErrors | (() => OpencodeClient)> {
   // Verify directory exists and is accessible before spawning
   const accessCheck = errore.tryFn({
     try: () => {
@@ -182,27 +335,18 @@ export async function initializeOpencodeForDirectory(
       `Opencode server on ${directory} exited with code:`,
       code,
     )
-    opencodeServers.delete(directory)
-    if (code !== 0) {
-      const retryCount = serverRetryCount.get(directory) || 0
-      if (retryCount < 5) {
-        serverRetryCount.set(directory, retryCount + 1)
-        opencodeLogger.log(
-          `Restarting server for directory: ${directory} (attempt ${retryCount + 1}/5)`,
-        )
-        initializeOpencodeForDirectory(directory).then((result) => {
-          if (result instanceof Error) {
-            opencodeLogger.error(`Failed to restart opencode server:`, result)
-          }
-        })
-      } else {
-        opencodeLogger.error(
-          `Server for ${directory} crashed too many times (5), not restarting`,
-        )
-      }
-    } else {
-      serverRetryCount.delete(directory)
+    // A newer server may already be registered for the directory
+    if (opencodeServers.get(directory)?.process === serverProcess) {
+      opencodeServers.delete(directory)
+    }
+    if (stoppingServers.delete(directory) || code === 0) {
+      return
     }
+    const crashes = (serverCrashCount.get(directory) || 0) + 1
+    serverCrashCount.set(directory, crashes)
+    opencodeLogger.error(
+      `Server for ${directory} crashed (${crashes} so far), restarting on next request`,
+    )
   })
 
   const waitResult = await waitForServer(port)
@@ -212,6 +356,10 @@ export async function initializeOpencodeForDirectory(
     for (const line of logBuffer) {
       opencodeLogger.error(`  ${line}`)
     }
+    if (serverProcess.exitCode === null) {
+      stoppingServers.add(directory)
+      serverProcess.kill('SIGTERM')
+    }
     return waitResult
   }
   opencodeLogger.log(`Server ready on port ${port}`)
@@ -233,24 +381,83 @@ export async function initializeOpencodeForDirectory(
     fetch: fetchWithTimeout as typeof fetch,
   })
 
+  const now = Date.now()
   opencodeServers.set(directory, {
     process: serverProcess,
     client,
     clientV2,
     port,
+    startedAt: now,
+    lastUsedAt: now,
+    activeSessions: 0,
   })
+  ensureIdleSweep()
+
+  return createClientGetter(directory)
+}
+
+export function getOpencodeServers() {
+  return opencodeServers
+}
 
+/**
+ * Keep the directory's server from being evicted while a session runs.
+ * Returns the release function; calling it more than once is a no-op.
+ */
+export function retainOpencodeServer(directory: string): () => void {
+  const server = opencodeServers.get(directory)
+  if (!server) {
+    return () => {}
+  }
+  server.activeSessions++
+  server.lastUsedAt = Date.now()
+  let released = false
   return () => {
-    const entry = opencodeServers.get(directory)
-    if (!entry?.client) {
-      throw new ServerNotReadyError({ directory })
+    if (released) {
+      return
     }
-    return entry.client
+    released = true
+    server.activeSessions = Math.max(0, server.activeSessions - 1)
+    server.lastUsedAt = Date.now()
   }
 }
 
-export function getOpencodeServers() {
-  return opencodeServers
+async function getProcessMemoryBytes(pid: number | undefined): Promise<number | null> {
+  if (!pid) {
+    return null
+  }
+  const result = await errore.tryAsync(() => {
+    return execFileAsync('ps', ['-o', 'rss=', '-p', String(pid)])
+  })
+  if (result instanceof Error) {
+    return null
+  }
+  const rssKb = Number(result.stdout.trim())
+  return Number.isFinite(rssKb) && rssKb > 0 ? rssKb * 1024 : null
+}
+
+/**
+ * Running servers with uptime, port and memory use, most recently used first.
+ */
+export async function getOpencodePoolStatus(): Promise<OpencodeServerStatus[]> {
+  const now = Date.now()
+  const servers = [...opencodeServers.entries()].sort(([, a], [, b]) => {
+    return b.lastUsedAt - a.lastUsedAt
+  })
+  return Promise.all(
+    servers.map(async ([directory, server]) => {
+      return {
+        directory,
+        port: server.port,
+        pid: server.process.pid,
+        uptimeMs: now - server.startedAt,
+        idleMs: now - server.lastUsedAt,
+        activeSessions: server.activeSessions,
+        memoryBytes: await getProcessMemoryBytes(server.process.pid),
+        crashes: serverCrashCount.get(directory) || 0,
+      }
+    }),
+  )
 }
 
 export function getOpencodeServerPort(directory: string): number | null {
@@ -262,6 +469,9 @@ export function getOpencodeClientV2(
   directory: string,
 ): OpencodeClientV2 | null {
   const entry = opencodeServers.get(directory)
+  if (entry) {
+    entry.lastUsedAt = Date.now()
+  }
   return entry?.clientV2 ?? null
 }
 
@@ -276,22 +486,13 @@ export async function restartOpencodeServer(
   const existing = opencodeServers.get(directory)
 
   if (existing) {
-    opencodeLogger.log(
-      `Killing existing server for directory: ${directory} (pid: ${existing.process.pid})`,
-    )
-    // Reset retry count so the exit handler doesn't auto-restart
-    serverRetryCount.set(directory, 999)
-    existing.process.kill('SIGTERM')
-    opencodeServers.delete(directory)
+    stopServerProcess(directory, 'restart requested')
     // Give the process time to fully terminate
     await new Promise((resolve) => {
       setTimeout(resolve, 1000)
     })
   }
 
-  // Reset retry count for the fresh start
-  serverRetryCount.delete(directory)
-
   const result = await initializeOpencodeForDirectory(directory)
   if (result instanceof Error) {
     return result
@@ -0,0 +1,131 @@
+// PCM to Discord Opus packet stream.
+// Resamples s16le PCM to 48kHz stereo, encodes 20ms Opus frames and hands
+// them out one every 20ms. Used by the GenAI worker for assistant speech and
+// by spoken session summaries.
+
+import { Resampler } from '@purinton/resampler'
+import * as prism from 'prism-media'
+
+const OUTPUT_SAMPLE_RATE = 48000 // Discord expects
+const OUTPUT_CHANNELS = 2
+const OPUS_FRAME_SIZE = 960 // 20ms at 48kHz
+const PACKET_INTERVAL_MS = 20
+
+export type OpusPacketStream = {
+  write(pcm: Buffer): void
+  // Start sending queued packets every 20ms
+  start(): void
+  // Stop sending and drop queued packets
+  stop(): void
+  // Drop queued packets, used when playback is interrupted
+  clear(): void
+  // End the input and resolve once every packet has been sent
+  drain(): Promise<void>
+  // Tear down the resampler and encoder
+  end(): Promise<void>
+}
+
+export function createOpusPacketStream({
+  inputSampleRate,
+  inputChannels = 1,
+  onPacket,
+  onError,
+}: {
+  inputSampleRate: number
+  inputChannels?: number
+  onPacket: (packet: Buffer) => void
+  onError: (error: Error) => void
+}): OpusPacketStream {
+  const resampler = new Resampler({
+    inRate: inputSampleRate,
+    outRate: OUTPUT_SAMPLE_RATE,
+    inChannels: inputChannels,
+    outChannels: OUTPUT_CHANNELS,
+    volume: 1,
+    filterWindow: 8,
+  })
+
+  const opusEncoder = new prism.opus.Encoder({
+    rate: OUTPUT_SAMPLE_RATE,
+    channels: OUTPUT_CHANNELS,
+    frameSize: OPUS_FRAME_SIZE,
+  })
+
+  resampler.pipe(opusEncoder).on('error', onError)
+  resampler.on('error', onError)
+  opusEncoder.on('error', onError)
+
+  const opusPacketQueue: Buffer[] = []
+  let packetInterval: NodeJS.Timeout | null = null
+  let encoderEnded = false
+
+  opusEncoder.on('data', (packet: Buffer) => {
+    opusPacketQueue.push(packet)
+  })
+  opusEncoder.on('end', () => {
+    encoderEnded = true
+  })
+
+  const start = () => {
+    if (packetInterval) return
+    packetInterval = setInterval(() => {
+      const packet = opusPacketQueue.shift()
+      if (packet) {
+        onPacket(packet)
+      }
+    }, PACKET_INTERVAL_MS)
+  }
+
+  const stop = () => {
+    if (packetInterval) {
+      clearInterval(packetInterval)
+      packetInterval = null
+    }
+    opusPacketQueue.length = 0
+  }
+
+  return {
+    write(pcm) {
+      if (resampler.destroyed || resampler.writableEnded) {
+        return
+      }
+      resampler.write(pcm, (error) => {
+        if (error) {
+          onError(error)
+        }
+      })
+    },
+    start,
+    stop,
+    clear() {
+      opusPacketQueue.length = 0
+    },
+    async drain() {
+      start()
+      resampler.end()
+      // The pipe ends the encoder once the resampler is flushed
+      await new Promise<void>((resolve) => {
+        const check = setInterval(() => {
+          const finished = encoderEnded || opusEncoder.destroyed || Boolean(resampler.errored)
+          if (finished && opusPacketQueue.length === 0) {
+            clearInterval(check)
+            resolve()
+          }
+        }, PACKET_INTERVAL_MS)
+      })
+      stop()
+    },
+    async end() {
+      stop()
+      resampler.unpipe(opusEncoder)
+      await new Promise<void>((resolve) => {
+        opusEncoder.end(() => resolve())
+        setTimeout(resolve, 1000)
+      })
+      await new Promise<void>((resolve) => {
+        resampler.end(() => resolve())
+        setTimeout(resolve, 1000)
+      })
+    },
+  }
+}
@@ -0,0 +1,258 @@
+// Rule-based answers to OpenCode permission requests, configured per channel
+// with /permission-policy. Deny rules win over approval rules, which win over
+// allow rules. A request is only auto-allowed when every one of its patterns
+// is allowed; requests no rule matches get the usual permission dropdown.
+
+import path from 'node:path'
+import type { PermissionRequest } from '@opencode-ai/sdk/v2'
+import * as errore from 'errore'
+import { recordAuditEvent } from './audit.js'
+import { getBashWhitelist } from './config.js'
+import { getPermissionPolicies, type PermissionPolicy, type PermissionPolicyAction } from './database.js'
+import { getOpencodeClientV2 } from './opencode.js'
+import type { PlatformThread } from './platform/types.js'
+import { createLogger, LogPrefix } from './logger.js'
+
+const logger = createLogger(LogPrefix.PERMISSIONS)
+
+export const POLICY_PERMISSIONS = ['*', 'edit', 'bash', 'read', 'webfetch', 'external_directory']
+
+// Permissions whose patterns are file paths
+const PATH_PERMISSIONS = ['edit', 'read', 'external_directory']
+
+export type PolicyDecision = {
+  action: PermissionPolicyAction
+  approvals: number
+  policy: PermissionPolicy
+}
+
+/**
+ * Match a wildcard pattern the way OpenCode does: `*` matches anything
+ * (including `/`) and `?` matches one character.
+ */
+export function matchWildcard(pattern: string, value: string): boolean {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*'
+      if (char === '?') return '.'
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    })
+    .join('')
+  return new RegExp(`^${source}$`, 's').test(value)
+}
+
+// Redirection, background jobs, expansions, escapes and find -exec can read,
+// write or run things the first word of a command does not show
+const UNSAFE_SHELL_SYNTAX = /[<>$`\\]|(?<!&)&(?!&)|(^|\s)-(exec|ok)/
+
+function hasBalancedQuotes(command: string): boolean {
+  let quote: string | null = null
+  for (const char of command) {
+    if (quote) {
+      if (char === quote) quote = null
+    } else if (char === "'" || char === '"') {
+      quote = char
+    }
+  }
+  return quote === null
+}
+
+/**
+ * Check every command of a bash line against the /run whitelist. Lines with
+ * shell syntax beyond `&&`, `||`, `;` and `|` are never whitelisted, and a
+ * command with a path only matches a whitelist entry with the same path.
+ */
+export function isWhitelistedCommand(command: string, whitelist: string[]): boolean {
+  if (whitelist.includes('*')) {
+    return true
+  }
+  if (UNSAFE_SHELL_SYNTAX.test(command) || !hasBalancedQuotes(command)) {
+    return false
+  }
+  const segments = command
+    .split(/&&|\|\||[;|\n]/)
+    .map((segment) => segment.trim())
+    .filter(Boolean)
+  if (segments.length === 0) {
+    return false
+  }
+  return segments.every((segment) => {
+    const firstWord = segment.split(/\s+/)[0] || ''
+    return whitelist.includes(firstWord)
+  })
+}
+
+function policyMatches({
+  policy,
+  permission,
+  target,
+  whitelist,
+}: {
+  policy: PermissionPolicy
+  permission: string
+  target: string
+  whitelist: string[]
+}): boolean {
+  if (policy.permission !== '*' && policy.permission !== permission) {
+    return false
+  }
+  if (policy.use_whitelist) {
+    return permission === 'bash' && Boolean(target) && isWhitelistedCommand(target, whitelist)
+  }
+  if (policy.pattern === null) {
+    return false
+  }
+  if (!PATH_PERMISSIONS.includes(permission) || !target) {
+    return matchWildcard(policy.pattern, target)
+  }
+  // `*` also matches `..`, so `src/*` would allow `src/../../etc/passwd`.
+  // Paths are compared normalized, and ones that still climb out of their
+  // directory are never allowed by a rule
+  const normalized = path.posix.normalize(target)
+  if (policy.action === 'allow' && normalized.split('/').includes('..')) {
+    return false
+  }
+  return matchWildcard(path.posix.normalize(policy.pattern), normalized)
+}
+
+/**
+ * Pick the rule deciding a request, or undefined to ask in the thread.
+ */
+export function matchPermissionPolicies({
+  policies,
+  permission,
+  patterns,
+  whitelist,
+}: {
+  policies: PermissionPolicy[]
+  permission: string
+  patterns: string[]
+  whitelist: string[]
+}): PolicyDecision | undefined {
+  // A request without patterns only matches `*` rules
+  const targets = patterns.length > 0 ? patterns : ['']
+  const matching = (action: PermissionPolicyAction) => {
+    return policies.filter((policy) => {
+      return (
+        policy.action === action &&
+        targets.some((target) => {
+          return policyMatches({ policy, permission, target, whitelist })
+        })
+      )
+    })
+  }
+
+  const deny = matching('deny')[0]
+  if (deny) {
+    return { action: 'deny', approvals: 0, policy: deny }
+  }
+
+  const approvals = matching('approvals').sort((a, b) => b.approvals - a.approvals)[0]
+  if (approvals) {
+    return { action: 'approvals', approvals: approvals.approvals, policy: approvals }
+  }
+
+  const allowPolicies = policies.filter((policy) => policy.action === 'allow')
+  const allow = targets.every((target) => {
+    return allowPolicies.some((policy) => {
+      return policyMatches({ policy, permission, target, whitelist })
+    })
+  })
+  if (allow) {
+    const policy = allowPolicies.find((candidate) => {
+      return targets.some((target) => {
+        return policyMatches({ policy: candidate, permission, target, whitelist })
+      })
+    })
+    if (policy) {
+      return { action: 'allow', approvals: 0, policy }
+    }
+  }
+  return undefined
+}
+
+export function getPolicyDecision({
+  channelId,
+  permission,
+}: {
+  channelId: string
+  permission: PermissionRequest
+}): PolicyDecision | undefined {
+  const policies = getPermissionPolicies(channelId)
+  if (policies.length === 0) {
+    return undefined
+  }
+  return matchPermissionPolicies({
+    policies,
+    permission: permission.permission,
+    patterns: permission.patterns,
+    whitelist: getBashWhitelist(),
+  })
+}
+
+export function describePolicy(policy: PermissionPolicy): string {
+  const action =
+    policy.action === 'approvals' ? `needs ${policy.approvals} approvers for` : policy.action
+  const permission = policy.permission === '*' ? 'any request' : `\`${policy.permission}\``
+  const target = policy.use_whitelist ? 'in the /run whitelist' : `matching \`${policy.pattern}\``
+  return `#${policy.id} ${action} ${permission} ${target}`
+}
+
+/**
+ * Answer a request from an allow or deny rule, note it in the thread and
+ * record it in the audit log.
+ */
+export async function replyWithPolicy({
+  thread,
+  permission,
+  directory,
+  decision,
+}: {
+  thread: PlatformThread
+  permission: PermissionRequest
+  directory: string
+  decision: PolicyDecision
+}): Promise<Error | void> {
+  const reply = decision.action === 'allow' ? 'once' : 'reject'
+  const result = await errore.tryAsync(async () => {
+    const clientV2 = getOpencodeClientV2(directory)
+    if (!clientV2) {
+      throw new Error('OpenCode server not found for directory')
+    }
+    await clientV2.permission.reply({ requestID: permission.id, reply })
+  })
+  if (result instanceof Error) {
+    return result
+  }
+
+  const patternStr = permission.patterns.join(', ')
+  logger.log(
+    `[POLICY] ${reply === 'once' ? 'Allowed' : 'Denied'} ${permission.permission} (${patternStr}) for ${permission.id} by policy #${decision.policy.id}`,
+  )
+  recordAuditEvent({
+    eventType: 'permission',
+    username: 'policy',
+    channelId: thread.parentId || undefined,
+    threadId: thread.id,
+    sessionId: permission.sessionID,
+    summary: `auto ${reply} ${permission.permission}${patternStr ? ` (${patternStr})` : ''} by policy #${decision.policy.id}`,
+    details: {
+      decision: reply,
+      automatic: true,
+      policyId: decision.policy.id,
+      permission: permission.permission,
+      patterns: permission.patterns,
+      requestIds: [permission.id],
+    },
+  })
+
+  const noteResult = await errore.tryAsync(() => {
+    return thread.sendText(
+      `${reply === 'once' ? '✅ Auto-approved' : '❌ Auto-denied'} \`${permission.permission}\`${patternStr ? ` \`${patternStr}\`` : ''} (policy #${decision.policy.id})`,
+    )
+  })
+  if (noteResult instanceof Error) {
+    logger.error('[POLICY] Failed to post decision note:', noteResult)
+  }
+}
@@ -0,0 +1,124 @@
+import type { PermissionRequest } from '@opencode-ai/sdk/v2'
+import { afterEach, describe, expect, test, vi } from 'vitest'
+import { pendingPermissionContexts, showPermissionDropdown } from './commands/permissions.js'
+import { MemoryPlatform } from './platform/memory.js'
+import {
+  getPermissionTimeoutStages,
+  schedulePermissionTimeouts,
+  validatePermissionTimeouts,
+} from './permission-timeouts.js'
+
+const reply = vi.fn(async () => ({}))
+
+vi.mock('./opencode.js', () => ({
+  getOpencodeClientV2: () => ({ permission: { reply } }),
+}))
+
+const base = {
+  remindMinutes: null,
+  escalateMinutes: null,
+  rejectMinutes: 30,
+  escalateRoleId: null,
+  escalateToHub: false,
+}
+
+describe('validatePermissionTimeouts', () => {
+  test('orders the stages before the rejection', () => {
+    expect(validatePermissionTimeouts({ ...base, remindMinutes: 5 })).not.toBeInstanceOf(Error)
+    expect(validatePermissionTimeouts({ ...base, remindMinutes: 30 })).toBeInstanceOf(Error)
+    expect(
+      validatePermissionTimeouts({ ...base, remindMinutes: 10, escalateMinutes: 5, escalateToHub: true }),
+    ).toBeInstanceOf(Error)
+  })
+
+  test('needs a target to escalate to', () => {
+    expect(validatePermissionTimeouts({ ...base, escalateMinutes: 10 })).toBeInstanceOf(Error)
+    expect(
+      validatePermissionTimeouts({ ...base, escalateMinutes: 10, escalateRoleId: 'role-1' }),
+    ).not.toBeInstanceOf(Error)
+  })
+
+  test('lists the configured stages in order', () => {
+    expect(
+      getPermissionTimeoutStages({ ...base, remindMinutes: 5, escalateMinutes: 15, escalateToHub: true }),
+    ).toEqual([
+      { kind: 'remind', afterMs: 300_000 },
+      { kind: 'escalate', afterMs: 900_000 },
+      { kind: 'reject', afterMs: 1_800_000 },
+    ])
+  })
+})
+
+describe('schedulePermissionTimeouts', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    pendingPermissionContexts.clear()
+  })
+
+  test('reminds, escalates and finally rejects with a message for the agent', async () => {
+    vi.useFakeTimers()
+    const platform = new MemoryPlatform()
+    const thread = platform.createThread({ parentId: 'channel-1' })
+    const settings = { ...base, remindMinutes: 1, escalateMinutes: 2, escalateRoleId: 'role-1', rejectMinutes: 3 }
+    const permission = {
+      id: 'per_1',
+      sessionID: 'ses_1',
+      permission: 'bash',
+      patterns: ['rm -rf dist'],
+    } as PermissionRequest
+
+    const { contextHash } = await showPermissionDropdown({
+      thread,
+      permission,
+      directory: '/repo',
+      rejectAt: Date.now() + 3 * 60_000,
+    })
+    schedulePermissionTimeouts({
+      contextHash,
+      settings,
+      channelId: 'channel-1',
+      requester: { id: '1001', username: 'alice' },
+    })
+    expect(thread.messages[0]!.content).toMatch(/⏳ Auto-reject <t:\d+:R>/)
+
+    await vi.advanceTimersByTimeAsync(60_000)
+    expect(thread.messages[1]!.content).toMatch(/^<@1001> ⏰ A permission request is still waiting/)
+
+    await vi.advanceTimersByTimeAsync(60_000)
+    expect(thread.messages[2]!.content).toMatch(/^<@&role-1> 🚨/)
+
+    await vi.advanceTimersByTimeAsync(60_000)
+    expect(reply).toHaveBeenCalledWith({
+      requestID: 'per_1',
+      reply: 'reject',
+      message: expect.stringContaining('Nobody answered this permission request within 3 minutes'),
+    })
+    expect(thread.messages[0]!.content).toContain('auto-rejected')
+    expect(thread.messages[0]!.message.selectMenu).toBeUndefined()
+    expect(pendingPermissionContexts.has(contextHash)).toBe(false)
+  })
+  test('names API requesters instead of mentioning their synthetic id', async () => {
+    vi.useFakeTimers()
+    const platform = new MemoryPlatform()
+    const thread = platform.createThread({ parentId: 'channel-1' })
+    const settings = { ...base, remindMinutes: 1, escalateRoleId: 'role-1', rejectMinutes: 3 }
+    const permission = {
+      id: 'per_2',
+      sessionID: 'ses_2',
+      permission: 'bash',
+      patterns: ['ls'],
+    } as PermissionRequest
+
+    const { contextHash } = await showPermissionDropdown({ thread, permission, directory: '/repo' })
+    schedulePermissionTimeouts({
+      contextHash,
+      settings,
+      channelId: 'channel-1',
+      requester: { id: 'api:7', username: 'api:ci' },
+    })
+
+    await vi.advanceTimersByTimeAsync(60_000)
+    expect(thread.messages[1]!.content).toMatch(/^\*\*api:ci\*\* ⏰/)
+    expect(thread.messages[1]!.content).not.toContain('<@api:')
+  })
+})
@@ -0,0 +1,250 @@
+// Timeouts for unanswered permission requests, configured per channel with
+// /permission-timeout. A pending request first re-pings the user who sent
+// the prompt, then escalates to a role and/or the hub channel, and finally
+// is rejected with a message the agent sees, so the session never stalls.
+
+import * as errore from 'errore'
+import { recordAuditEvent } from './audit.js'
+import {
+  cleanupPermissionContext,
+  formatPermissionHeader,
+  pendingPermissionContexts,
+  type PendingPermissionContext,
+} from './commands/permissions.js'
+import {
+  getBotSettings,
+  getChannelDirectory,
+  type PermissionTimeoutSettings,
+} from './database.js'
+import { getOpencodeClientV2 } from './opencode.js'
+import { createLogger, LogPrefix } from './logger.js'
+
+const logger = createLogger(LogPrefix.PERMISSIONS)
+
+const MINUTE_MS = 60_000
+
+export type PermissionTimeoutStage = {
+  kind: 'remind' | 'escalate' | 'reject'
+  afterMs: number
+}
+
+/**
+ * Check the settings of a channel before saving them. Stages must come
+ * before the rejection, and escalation needs a target.
+ */
+export function validatePermissionTimeouts(
+  settings: PermissionTimeoutSettings,
+): Error | PermissionTimeoutSettings {
+  if (settings.rejectMinutes < 1) {
+    return new Error('`reject` must be at least 1 minute')
+  }
+  if (settings.remindMinutes !== null && settings.remindMinutes >= settings.rejectMinutes) {
+    return new Error('`remind` must come before `reject`')
+  }
+  if (settings.escalateMinutes !== null) {
+    if (settings.escalateMinutes >= settings.rejectMinutes) {
+      return new Error('`escalate` must come before `reject`')
+    }
+    if (settings.remindMinutes !== null && settings.escalateMinutes <= settings.remindMinutes) {
+      return new Error('`escalate` must come after `remind`')
+    }
+    if (!settings.escalateRoleId && !settings.escalateToHub) {
+      return new Error('`escalate` needs a `role` to ping or `hub:true`')
+    }
+  }
+  return settings
+}
+
+export function getPermissionTimeoutStages(
+  settings: PermissionTimeoutSettings,
+): PermissionTimeoutStage[] {
+  const stages: PermissionTimeoutStage[] = []
+  if (settings.remindMinutes !== null) {
+    stages.push({ kind: 'remind', afterMs: settings.remindMinutes * MINUTE_MS })
+  }
+  if (settings.escalateMinutes !== null) {
+    stages.push({ kind: 'escalate', afterMs: settings.escalateMinutes * MINUTE_MS })
+  }
+  stages.push({ kind: 'reject', afterMs: settings.rejectMinutes * MINUTE_MS })
+  return stages
+}
+
+export function formatPermissionTimeouts(settings: PermissionTimeoutSettings | undefined): string {
+  if (!settings) {
+    return 'Permission requests wait until someone answers.'
+  }
+  const lines: string[] = []
+  if (settings.remindMinutes !== null) {
+    lines.push(`Remind the requester after **${settings.remindMinutes} min**`)
+  }
+  if (settings.escalateMinutes !== null) {
+    const targets = [
+      settings.escalateRoleId ? `<@&${settings.escalateRoleId}>` : '',
+      settings.escalateToHub ? 'the hub channel' : '',
+    ].filter(Boolean)
+    lines.push(`Escalate to ${targets.join(' and ')} after **${settings.escalateMinutes} min**`)
+  }
+  lines.push(`Auto-reject after **${settings.rejectMinutes} min**`)
+  return lines.join('\n')
+}
+
+function describeRequest(context: PendingPermissionContext): string {
+  const patternStr = context.permission.patterns.join(', ')
+  return `\`${context.permission.permission}\`${patternStr ? ` \`${patternStr}\`` : ''}`
+}
+
+function formatDeadline(context: PendingPermissionContext): string {
+  return context.rejectAt ? ` It will be auto-rejected <t:${Math.floor(context.rejectAt / 1000)}:R>.` : ''
+}
+
+// Only Discord users have snowflake ids; API prompts use `api:<token id>`
+function formatRequester({
+  requester,
+  settings,
+}: {
+  requester?: { id: string; username: string }
+  settings: PermissionTimeoutSettings
+}): string {
+  if (requester && /^\d+$/.test(requester.id)) {
+    return `<@${requester.id}> `
+  }
+  if (requester) {
+    return `**${requester.username}** `
+  }
+  return settings.escalateRoleId ? `<@&${settings.escalateRoleId}> ` : ''
+}
+
+async function remind({
+  context,
+  settings,
+  requester,
+}: {
+  context: PendingPermissionContext
+  settings: PermissionTimeoutSettings
+  requester?: { id: string; username: string }
+}): Promise<void> {
+  const mention = formatRequester({ requester, settings })
+  await context.thread.sendText(
+    `${mention}⏰ A permission request is still waiting for an answer: ${describeRequest(context)}.${formatDeadline(context)}`,
+    { notify: true },
+  )
+}
+
+async function escalate({
+  context,
+  settings,
+  channelId,
+}: {
+  context: PendingPermissionContext
+  settings: PermissionTimeoutSettings
+  channelId: string
+}): Promise<void> {
+  if (settings.escalateRoleId) {
+    await context.thread.sendText(
+      `<@&${settings.escalateRoleId}> 🚨 Nobody has answered a permission request in this thread: ${describeRequest(context)}.${formatDeadline(context)}`,
+      { notify: true },
+    )
+  }
+  if (!settings.escalateToHub) {
+    return
+  }
+  const appId = getChannelDirectory(channelId)?.appId
+  const hubChannelId = appId ? getBotSettings(appId).hub_channel_id : null
+  if (!hubChannelId) {
+    logger.log(`[TIMEOUT] No hub channel to escalate ${context.permission.id} to`)
+    return
+  }
+  await context.thread.platform.sendToChannel(hubChannelId, {
+    content: `🚨 Permission request waiting in [${context.thread.name}](${context.thread.url}): ${describeRequest(context)}.${formatDeadline(context)}`,
+    notify: true,
+  })
+}
+
+async function reject({
+  context,
+  settings,
+}: {
+  context: PendingPermissionContext
+  settings: PermissionTimeoutSettings
+}): Promise<void> {
+  // Stop user selections from racing the rejection
+  cleanupPermissionContext(context.contextHash)
+
+  const message = `Nobody answered this permission request within ${settings.rejectMinutes} minutes, so it was rejected automatically. Do not retry the same request; continue without it or ask the user how to proceed.`
+  const clientV2 = getOpencodeClientV2(context.directory)
+  if (!clientV2) {
+    logger.error(`[TIMEOUT] OpenCode server not found, could not reject ${context.permission.id}`)
+    return
+  }
+  await Promise.all(
+    context.requestIds.map((requestId) => {
+      return clientV2.permission.reply({ requestID: requestId, reply: 'reject', message })
+    }),
+  )
+
+  const patternStr = context.permission.patterns.join(', ')
+  logger.log(`[TIMEOUT] Auto-rejected ${context.permission.id} after ${settings.rejectMinutes} min`)
+  recordAuditEvent({
+    eventType: 'permission',
+    username: 'timeout',
+    channelId: context.thread.parentId || undefined,
+    threadId: context.thread.id,
+    sessionId: context.permission.sessionID,
+    summary: `auto reject ${context.permission.permission}${patternStr ? ` (${patternStr})` : ''} after ${settings.rejectMinutes} min`,
+    details: {
+      decision: 'reject',
+      automatic: true,
+      timeoutMinutes: settings.rejectMinutes,
+      permission: context.permission.permission,
+      patterns: context.permission.patterns,
+      requestIds: context.requestIds,
+    },
+  })
+
+  await context.message?.edit({
+    content: `${formatPermissionHeader(context, { countdown: false })}\n\n⌛ Permission **auto-rejected** after ${settings.rejectMinutes} minutes without an answer`,
+  })
+}
+
+/**
+ * Start the reminder, escalation and rejection timers of a pending
+ * permission dropdown. Answering the request clears them.
+ */
+export function schedulePermissionTimeouts({
+  contextHash,
+  settings,
+  channelId,
+  requester,
+}: {
+  contextHash: string
+  settings: PermissionTimeoutSettings
+  channelId: string
+  requester?: { id: string; username: string }
+}): void {
+  const context = pendingPermissionContexts.get(contextHash)
+  if (!context) {
+    return
+  }
+  for (const stage of getPermissionTimeoutStages(settings)) {
+    const timer = setTimeout(async () => {
+      // Answered or rejected in the meantime
+      if (pendingPermissionContexts.get(contextHash) !== context) {
+        return
+      }
+      const result = await errore.tryAsync(() => {
+        switch (stage.kind) {
+          case 'remind':
+            return remind({ context, settings, requester })
+          case 'escalate':
+            return escalate({ context, settings, channelId })
+          case 'reject':
+            return reject({ context, settings })
+        }
+      })
+      if (result instanceof Error) {
+        logger.error(`[TIMEOUT] ${stage.kind} failed for ${context.permission.id}:`, result)
+      }
+    }, stage.afterMs)
+    context.timers.push(timer)
+  }
+}
@@ -0,0 +1,236 @@
+// Discord adapter for the platform-neutral chat interfaces.
+// Wraps discord.js threads and messages, and converts neutral buttons,
+// select menus and files into Discord components and attachments.
+
+import {
+  ActionRowBuilder,
+  AttachmentBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ChannelType,
+  StringSelectMenuBuilder,
+  type Client,
+  type Message,
+  type MessageCreateOptions,
+  type ThreadChannel,
+} from 'discord.js'
+import {
+  NOTIFY_MESSAGE_FLAGS,
+  SILENT_MESSAGE_FLAGS,
+  sendThreadMessage,
+} from '../discord-utils.js'
+import type {
+  ChatPlatform,
+  OutgoingMessage,
+  PlatformButtonStyle,
+  PlatformMessage,
+  PlatformThread,
+} from './types.js'
+
+const BUTTON_STYLES: Record<PlatformButtonStyle, ButtonStyle> = {
+  primary: ButtonStyle.Primary,
+  secondary: ButtonStyle.Secondary,
+  success: ButtonStyle.Success,
+  danger: ButtonStyle.Danger,
+}
+
+/**
+ * Convert a neutral message into discord.js send options.
+ */
+export function toDiscordMessageOptions(
+  message: OutgoingMessage,
+): MessageCreateOptions & {
+  components: ActionRowBuilder<ButtonBuilder | StringSelectMenuBuilder>[]
+} {
+  const components: ActionRowBuilder<
+    ButtonBuilder | StringSelectMenuBuilder
+  >[] = []
+
+  if (message.buttons && message.buttons.length > 0) {
+    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      message.buttons.map((button) => {
+        const builder = new ButtonBuilder()
+          .setCustomId(button.customId)
+          .setLabel(button.label)
+          .setStyle(BUTTON_STYLES[button.style ?? 'secondary'])
+        if (button.emoji) {
+          builder.setEmoji(button.emoji)
+        }
+        return builder
+      }),
+    )
+    components.push(row)
+  }
+
+  if (message.selectMenu) {
+    const menu = message.selectMenu
+    const builder = new StringSelectMenuBuilder()
+      .setCustomId(menu.customId)
+      .addOptions(menu.options)
+    if (menu.placeholder) {
+      builder.setPlaceholder(menu.placeholder)
+    }
+    if (menu.minValues !== undefined) {
+      builder.setMinValues(menu.minValues)
+    }
+    if (menu.maxValues !== undefined) {
+      builder.setMaxValues(menu.maxValues)
+    }
+    components.push(
+      new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(builder),
+    )
+  }
+
+  return {
+    content: message.content,
+    components,
+    files: message.files?.map((file) => {
+      return new AttachmentBuilder(file.data, { name: file.name })
+    }),
+    flags: message.notify ? NOTIFY_MESSAGE_FLAGS : SILENT_MESSAGE_FLAGS,
+  }
+}
+
+export class DiscordMessage implements PlatformMessage {
+  constructor(readonly message: Message) {}
+
+  get id(): string {
+    return this.message.id
+  }
+
+  get content(): string {
+    return this.message.content
+  }
+
+  get author() {
+    return {
+      id: this.message.author.id,
+      username: this.message.author.username,
+    }
+  }
+
+  async edit(message: OutgoingMessage): Promise<void> {
+    const { content, components, files } = toDiscordMessageOptions(message)
+    await this.message.edit({ content, components, files })
+  }
+
+  async react(emoji: string): Promise<void> {
+    await this.message.react(emoji)
+  }
+
+  async clearReactions(): Promise<void> {
+    await this.message.reactions.removeAll()
+  }
+
+  async pin(): Promise<void> {
+    await this.message.pin()
+  }
+}
+
+export class DiscordThread implements PlatformThread {
+  constructor(
+    readonly thread: ThreadChannel,
+    readonly platform: ChatPlatform = new DiscordPlatform(thread.client),
+  ) {}
+
+  get id(): string {
+    return this.thread.id
+  }
+
+  get name(): string {
+    return this.thread.name
+  }
+
+  get parentId(): string | null {
+    return this.thread.parentId
+  }
+
+  get url(): string {
+    return `https://discord.com/channels/${this.thread.guildId}/${this.thread.id}`
+  }
+
+  async send(message: OutgoingMessage): Promise<PlatformMessage> {
+    const sent = await this.thread.send(toDiscordMessageOptions(message))
+    return new DiscordMessage(sent)
+  }
+
+  async sendText(
+    content: string,
+    options?: { notify?: boolean },
+  ): Promise<PlatformMessage> {
+    const sent = await sendThreadMessage(
+      this.thread,
+      content,
+      options?.notify ? { flags: NOTIFY_MESSAGE_FLAGS } : undefined,
+    )
+    return new DiscordMessage(sent)
+  }
+
+  async sendTyping(): Promise<void> {
+    await this.thread.sendTyping()
+  }
+}
+
+export class DiscordPlatform implements ChatPlatform {
+  readonly name = 'discord'
+
+  constructor(readonly client: Client) {}
+
+  async fetchThread(threadId: string): Promise<PlatformThread | null> {
+    const channel = await this.client.channels.fetch(threadId)
+    if (!channel?.isThread()) {
+      return null
+    }
+    return new DiscordThread(channel, this)
+  }
+
+  async startThread({
+    channelId,
+    name,
+    message,
+  }: {
+    channelId: string
+    name: string
+    message: OutgoingMessage
+  }): Promise<{ thread: PlatformThread; message: PlatformMessage }> {
+    const channel = await this.client.channels.fetch(channelId)
+    if (channel?.type !== ChannelType.GuildText) {
+      throw new Error(`Channel ${channelId} is not a text channel`)
+    }
+    const starter = await channel.send(toDiscordMessageOptions(message))
+    const thread = await starter.startThread({
+      name: name.slice(0, 100),
+      autoArchiveDuration: 1440,
+    })
+    return {
+      thread: new DiscordThread(thread, this),
+      message: new DiscordMessage(starter),
+    }
+  }
+
+  async sendToChannel(
+    channelId: string,
+    message: OutgoingMessage,
+  ): Promise<PlatformMessage | null> {
+    const channel = await this.client.channels.fetch(channelId)
+    if (!channel?.isTextBased() || !('send' in channel)) {
+      return null
+    }
+    const sent = await channel.send(toDiscordMessageOptions(message))
+    return new DiscordMessage(sent)
+  }
+}
+
+/**
+ * Wrap a Discord thread for the session core.
+ */
+export function toPlatformThread(thread: ThreadChannel): PlatformThread {
+  return new DiscordThread(thread)
+}
+
+/**
+ * Wrap a Discord message for the session core.
+ */
+export function toPlatformMessage(message: Message): PlatformMessage {
+  return new DiscordMessage(message)
+}
@@ -0,0 +1,187 @@
+// In-memory chat platform for unit tests.
+// Records every message, edit, reaction and typing indicator so tests can
+// drive full OpenCode sessions through session-handler.ts and assert on
+// what users would see, without a Discord connection.
+
+import type {
+  ChatPlatform,
+  OutgoingMessage,
+  PlatformMessage,
+  PlatformThread,
+  PlatformUser,
+} from './types.js'
+
+export const MEMORY_BOT_USER: PlatformUser = { id: 'bot', username: 'disunday' }
+
+export class MemoryMessage implements PlatformMessage {
+  reactions: string[] = []
+  pinned = false
+  edits: OutgoingMessage[] = []
+
+  constructor(
+    readonly id: string,
+    public message: OutgoingMessage,
+    readonly author: PlatformUser,
+    readonly channelId: string,
+  ) {}
+
+  get content(): string {
+    return this.message.content
+  }
+
+  async edit(message: OutgoingMessage): Promise<void> {
+    this.edits.push(message)
+    this.message = message
+  }
+
+  async react(emoji: string): Promise<void> {
+    this.reactions.push(emoji)
+  }
+
+  async clearReactions(): Promise<void> {
+    this.reactions = []
+  }
+
+  async pin(): Promise<void> {
+    this.pinned = true
+  }
+}
+
+export class MemoryThread implements PlatformThread {
+  typingCount = 0
+
+  constructor(
+    readonly platform: MemoryPlatform,
+    readonly id: string,
+    readonly name: string,
+    readonly parentId: string | null,
+  ) {}
+
+  get url(): string {
+    return `memory://threads/${this.id}`
+  }
+
+  get messages(): MemoryMessage[] {
+    return this.platform.getMessages(this.id)
+  }
+
+  async send(message: OutgoingMessage): Promise<PlatformMessage> {
+    return this.platform.post({ channelId: this.id, message })
+  }
+
+  async sendText(
+    content: string,
+    options?: { notify?: boolean },
+  ): Promise<PlatformMessage> {
+    if (options?.notify) {
+      return this.send({ content, notify: true })
+    }
+    const chunks: string[] = []
+    for (let i = 0; i < content.length; i += this.platform.maxMessageLength) {
+      chunks.push(content.slice(i, i + this.platform.maxMessageLength))
+    }
+    let first: PlatformMessage | undefined
+    for (const chunk of chunks) {
+      const sent = await this.send({ content: chunk })
+      first ??= sent
+    }
+    return first ?? this.send({ content })
+  }
+
+  async sendTyping(): Promise<void> {
+    this.typingCount++
+  }
+
+  /**
+   * A user message in this thread, e.g. the message that started a session.
+   */
+  receive({
+    content,
+    author,
+  }: {
+    content: string
+    author: PlatformUser
+  }): MemoryMessage {
+    return this.platform.post({
+      channelId: this.id,
+      message: { content },
+      author,
+    })
+  }
+}
+
+export class MemoryPlatform implements ChatPlatform {
+  readonly name = 'memory'
+  readonly threads = new Map<string, MemoryThread>()
+  private readonly messages: MemoryMessage[] = []
+  private nextId = 1
+
+  constructor(readonly maxMessageLength = 2000) {}
+
+  createThread({
+    id = `thread-${this.nextId++}`,
+    name = 'test thread',
+    parentId = null,
+  }: {
+    id?: string
+    name?: string
+    parentId?: string | null
+  } = {}): MemoryThread {
+    const thread = new MemoryThread(this, id, name, parentId)
+    this.threads.set(id, thread)
+    return thread
+  }
+
+  async fetchThread(threadId: string): Promise<PlatformThread | null> {
+    return this.threads.get(threadId) ?? null
+  }
+
+  async startThread({
+    channelId,
+    name,
+    message,
+  }: {
+    channelId: string
+    name: string
+    message: OutgoingMessage
+  }): Promise<{ thread: MemoryThread; message: MemoryMessage }> {
+    const starter = this.post({ channelId, message })
+    const thread = this.createThread({ name, parentId: channelId })
+    return { thread, message: starter }
+  }
+
+  async sendToChannel(
+    channelId: string,
+    message: OutgoingMessage,
+  ): Promise<PlatformMessage | null> {
+    return this.post({ channelId, message })
+  }
+
+  post({
+    channelId,
+    message,
+    author = MEMORY_BOT_USER,
+  }: {
+    channelId: string
+    message: OutgoingMessage
+    author?: PlatformUser
+  }): MemoryMessage {
+    const posted = new MemoryMessage(
+      `message-${this.nextId++}`,
+      message,
+      author,
+      channelId,
+    )
+    this.messages.push(posted)
+    return posted
+  }
+
+  /**
+   * Messages in a thread or channel, oldest first.
+   */
+  getMessages(channelId: string): MemoryMessage[] {
+    return this.messages.filter((message) => {
+      return message.channelId === channelId
+    })
+  }
+}
@@ -0,0 +1,96 @@
+// Platform-neutral chat interfaces used by the OpenCode session core.
+// A chat platform (Discord, or the in-memory adapter used in tests) exposes
+// threads that accept messages with buttons, select menus, reactions and
+// file uploads. session-handler.ts only talks to these interfaces.
+
+export type PlatformUser = {
+  id: string
+  username: string
+}
+
+export type PlatformButtonStyle = 'primary' | 'secondary' | 'success' | 'danger'
+
+export type PlatformButton = {
+  customId: string
+  label: string
+  emoji?: string
+  style?: PlatformButtonStyle
+}
+
+export type PlatformSelectOption = {
+  label: string
+  value: string
+  description?: string
+}
+
+export type PlatformSelectMenu = {
+  customId: string
+  placeholder?: string
+  options: PlatformSelectOption[]
+  minValues?: number
+  maxValues?: number
+}
+
+export type PlatformFile = {
+  name: string
+  data: Buffer
+  mime?: string
+}
+
+export type OutgoingMessage = {
+  content: string
+  /** Notify thread members. Messages are silent by default. */
+  notify?: boolean
+  /** Rendered as a single row of buttons */
+  buttons?: PlatformButton[]
+  selectMenu?: PlatformSelectMenu
+  files?: PlatformFile[]
+}
+
+export interface PlatformMessage {
+  readonly id: string
+  readonly content: string
+  readonly author: PlatformUser
+  /** Replace content and components. Omitted components are removed. */
+  edit(message: OutgoingMessage): Promise<void>
+  react(emoji: string): Promise<void>
+  clearReactions(): Promise<void>
+  pin(): Promise<void>
+}
+
+export interface PlatformThread {
+  readonly platform: ChatPlatform
+  readonly id: string
+  readonly name: string
+  /** Project channel the thread belongs to */
+  readonly parentId: string | null
+  /** Link to the thread for notifications */
+  readonly url: string
+  /** Send one message as-is. Content must fit the platform limit. */
+  send(message: OutgoingMessage): Promise<PlatformMessage>
+  /**
+   * Send markdown, formatted and split into as many messages as the platform
+   * needs. Returns the first message. Notified messages are never split.
+   */
+  sendText(
+    content: string,
+    options?: { notify?: boolean },
+  ): Promise<PlatformMessage>
+  sendTyping(): Promise<void>
+}
+
+export interface ChatPlatform {
+  readonly name: string
+  fetchThread(threadId: string): Promise<PlatformThread | null>
+  /** Post a starter message in a channel and open a thread from it */
+  startThread(options: {
+    channelId: string
+    name: string
+    message: OutgoingMessage
+  }): Promise<{ thread: PlatformThread; message: PlatformMessage }>
+  /** Post to a non-thread channel, e.g. the hub channel. Null if unavailable. */
+  sendToChannel(
+    channelId: string,
+    message: OutgoingMessage,
+  ): Promise<PlatformMessage | null>
+}
@@ -0,0 +1,37 @@
+import { describe, expect, test } from 'vitest'
+import {
+  extractPlaceholders,
+  fillTemplate,
+  parseTemplate,
+} from './prompt-templates.js'
+
+describe('extractPlaceholders', () => {
+  test('lists unique placeholders in order of first use', () => {
+    expect(
+      extractPlaceholders(
+        'Review {{pr}} for {{ focus }} issues. Comment on {{pr}} when done. {{1bad}}',
+      ),
+    ).toEqual(['pr', 'focus'])
+  })
+})
+
+describe('parseTemplate', () => {
+  test('rejects empty templates and more placeholders than a modal holds', () => {
+    expect(parseTemplate('  ')).toBeInstanceOf(Error)
+    const tooMany = parseTemplate('{{a}} {{b}} {{c}} {{d}} {{e}} {{f}}')
+    expect(tooMany).toBeInstanceOf(Error)
+    expect((tooMany as Error).message).toContain('at most 5 placeholders')
+    expect(parseTemplate('Write tests for {{module}}')).toEqual(['module'])
+  })
+})
+
+describe('fillTemplate', () => {
+  test('replaces every occurrence and keeps unknown placeholders', () => {
+    expect(
+      fillTemplate({
+        body: 'Write tests for {{module}}. Cover {{ module }} edge cases in {{file}}.',
+        values: { module: 'cron.ts' },
+      }),
+    ).toBe('Write tests for cron.ts. Cover cron.ts edge cases in {{file}}.')
+  })
+})
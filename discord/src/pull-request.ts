@@ -0,0 +1,238 @@
+// Pull request flow for /open-pr.
+// Pushes a worktree branch to a git remote, drafts the title and body from
+// the session summary rendered by ShareMarkdown, and opens the pull request
+// through a Forge.
+
+import {
+  detectForgeKind,
+  parseRemoteUrl,
+  type Forge,
+  type ForgeKind,
+  type ForgeRepository,
+  type PullRequest,
+} from './forge.js'
+import { createLogger, LogPrefix } from './logger.js'
+import { runGit } from './worktree-utils.js'
+
+const logger = createLogger(LogPrefix.FORGE)
+
+// GitHub rejects titles over 256 characters and bodies over 65536
+const MAX_TITLE_LENGTH = 256
+const MAX_BODY_LENGTH = 60_000
+
+/**
+ * Check a remote or branch name before it is put on a git command line.
+ * Only plain ref names are allowed, so shell syntax and option-like values
+ * never reach the shell.
+ */
+export function validateGitName({
+  kind,
+  name,
+}: {
+  kind: 'remote' | 'branch'
+  name: string
+}): Error | string {
+  const invalid =
+    !/^[A-Za-z0-9._/-]+$/.test(name) ||
+    /^[-/.]/.test(name) ||
+    /[/.]$/.test(name) ||
+    name.endsWith('.lock') ||
+    name.includes('..') ||
+    name.includes('//')
+  if (invalid) {
+    return new Error(`Invalid ${kind} name: ${name}`)
+  }
+  return name
+}
+
+export async function getRemoteRepository({
+  directory,
+  remote,
+}: {
+  directory: string
+  remote: string
+}): Promise<Error | ForgeRepository> {
+  const validRemote = validateGitName({ kind: 'remote', name: remote })
+  if (validRemote instanceof Error) {
+    return validRemote
+  }
+  const url = await runGit(directory, `remote get-url ${remote}`)
+  if (url instanceof Error) {
+    return new Error(`Remote "${remote}" is not configured`, { cause: url })
+  }
+  const repository = parseRemoteUrl(url)
+  if (!repository) {
+    return new Error(`Cannot detect a forge repository from ${remote} (${url})`)
+  }
+  return repository
+}
+
+/**
+ * Forge for a remote: the configured kind, or guessed from the remote host.
+ */
+export function resolveForgeKind({
+  repository,
+  configured,
+}: {
+  repository: ForgeRepository
+  configured?: ForgeKind | null
+}): ForgeKind {
+  return configured || detectForgeKind(repository.host)
+}
+
+/**
+ * Default branch of a remote from refs/remotes/<remote>/HEAD, falling back to main.
+ */
+export async function getDefaultBranch({
+  directory,
+  remote,
+}: {
+  directory: string
+  remote: string
+}): Promise<string> {
+  if (validateGitName({ kind: 'remote', name: remote }) instanceof Error) {
+    return 'main'
+  }
+  const ref = await runGit(directory, `symbolic-ref --short refs/remotes/${remote}/HEAD`)
+  if (ref instanceof Error || !ref.startsWith(`${remote}/`)) {
+    return 'main'
+  }
+  const branch = ref.slice(remote.length + 1)
+  return validateGitName({ kind: 'branch', name: branch }) instanceof Error ? 'main' : branch
+}
+
+/**
+ * Subjects of commits on HEAD that are not on the base branch, oldest first.
+ */
+export async function getBranchCommits({
+  directory,
+  base,
+}: {
+  directory: string
+  base: string
+}): Promise<string[]> {
+  const validBase = validateGitName({ kind: 'branch', name: base })
+  if (validBase instanceof Error) {
+    logger.warn(validBase.message)
+    return []
+  }
+  const log = await runGit(directory, `log --reverse --format=%s ${base}..HEAD`)
+  if (log instanceof Error) {
+    logger.warn(`Failed to list commits since ${base}: ${log.message}`)
+    return []
+  }
+  return log.split('\n').filter(Boolean)
+}
+
+/**
+ * Strip the per-message header and timing footer that ShareMarkdown adds
+ * around the last assistant message.
+ */
+function cleanSessionSummary(markdown: string): string {
+  return markdown
+    .split('\n')
+    .filter((line) => {
+      return !line.startsWith('### 🤖 Assistant') && !/^\*Completed in .+\*$/.test(line)
+    })
+    .join('\n')
+    .trim()
+}
+
+export function draftPullRequest({
+  sessionTitle,
+  summary,
+  commits,
+  branch,
+  threadUrl,
+}: {
+  sessionTitle?: string
+  /** Last assistant message rendered by ShareMarkdown */
+  summary?: string
+  commits: string[]
+  branch: string
+  threadUrl?: string
+}): { title: string; body: string } {
+  const title = (
+    sessionTitle?.trim() ||
+    (commits.length === 1 ? commits[0] : undefined) ||
+    branch
+  ).slice(0, MAX_TITLE_LENGTH)
+
+  const sections: string[] = []
+  const cleanedSummary = summary ? cleanSessionSummary(summary) : ''
+  if (cleanedSummary) {
+    sections.push(`## Summary\n\n${cleanedSummary}`)
+  }
+  if (commits.length > 0) {
+    sections.push(
+      `## Commits\n\n${commits.map((commit) => `- ${commit}`).join('\n')}`,
+    )
+  }
+  if (threadUrl) {
+    sections.push(`---\nOpened from Disunday thread: ${threadUrl}`)
+  }
+
+  let body = sections.join('\n\n')
+  if (body.length > MAX_BODY_LENGTH) {
+    body = `${body.slice(0, MAX_BODY_LENGTH)}\n\n…(truncated)`
+  }
+  return { title, body }
+}
+
+/**
+ * Push HEAD of the worktree to `remote` as `branch` and open a pull request
+ * against `base`. Works from detached HEAD since the refspec names the branch.
+ */
+export async function openPullRequest({
+  directory,
+  remote,
+  branch,
+  base,
+  title,
+  body,
+  draft,
+  forge,
+  repository,
+}: {
+  directory: string
+  remote: string
+  branch: string
+  base: string
+  title: string
+  body: string
+  draft?: boolean
+  forge: Forge
+  repository: ForgeRepository
+}): Promise<Error | (PullRequest & { branch: string })> {
+  const invalidName = [
+    validateGitName({ kind: 'remote', name: remote }),
+    validateGitName({ kind: 'branch', name: branch }),
+    validateGitName({ kind: 'branch', name: base }),
+  ].find((result) => result instanceof Error)
+  if (invalidName instanceof Error) {
+    return invalidName
+  }
+
+  logger.log(`Pushing ${branch} from ${directory} to ${remote}`)
+  const pushed = await runGit(
+    directory,
+    `push --force-with-lease ${remote} HEAD:refs/heads/${branch}`,
+  )
+  if (pushed instanceof Error) {
+    return pushed
+  }
+
+  logger.log(`Opening ${forge.kind} pull request ${branch} -> ${base} in ${repository.path}`)
+  const pullRequest = await forge.createPullRequest({
+    repository,
+    base,
+    head: branch,
+    title,
+    body,
+    draft,
+  })
+  if (pullRequest instanceof Error) {
+    return pullRequest
+  }
+  return { ...pullRequest, branch }
+}
@@ -0,0 +1,31 @@
+import { afterEach, describe, expect, test } from 'vitest'
+import { getRateLimitConfig, setRateLimitConfig } from './config.js'
+import { checkRateLimit } from './rate-limit.js'
+
+const defaultConfig = getRateLimitConfig()
+
+afterEach(() => {
+  setRateLimitConfig(defaultConfig)
+})
+
+describe('checkRateLimit', () => {
+  test('limits a user after the configured number of messages', () => {
+    setRateLimitConfig({ ...defaultConfig, messagesPerMinute: 2 })
+    const now = 1_000_000
+    expect(checkRateLimit({ appId: 'app-limit', userId: 'user', now })).toBeNull()
+    expect(checkRateLimit({ appId: 'app-limit', userId: 'user', now: now + 1_000 })).toBeNull()
+    expect(checkRateLimit({ appId: 'app-limit', userId: 'user', now: now + 2_000 })).toBe(
+      'Rate limited. Please wait 58 seconds before sending another message.',
+    )
+    expect(checkRateLimit({ appId: 'app-limit', userId: 'user', now: now + 60_001 })).toBeNull()
+  })
+
+  test('keeps separate budgets per bot for the same user', () => {
+    setRateLimitConfig({ ...defaultConfig, messagesPerMinute: 1 })
+    const now = 2_000_000
+    expect(checkRateLimit({ appId: 'app-a', userId: 'shared', now })).toBeNull()
+    expect(checkRateLimit({ appId: 'app-a', userId: 'shared', now })).not.toBeNull()
+    expect(checkRateLimit({ appId: 'app-b', userId: 'shared', now })).toBeNull()
+    expect(checkRateLimit({ appId: 'app-b', userId: 'other', now })).toBeNull()
+  })
+})
@@ -0,0 +1,67 @@
+// Per-user rate limiting of messages and interactions.
+// Limits are tracked in memory per bot, so several bots hosted in one
+// process (--all-bots) never share a user's budget.
+
+import { getRateLimitConfig } from './config.js'
+
+type RateLimitEntry = {
+  timestamps: number[]
+}
+
+// In-memory rate limit tracker: "appId:userId" -> timestamps of recent interactions.
+// Keyed by app so bots hosted in the same process have separate limits.
+const rateLimitMap = new Map<string, RateLimitEntry>()
+
+// Cleanup old entries every 5 minutes
+setInterval(() => {
+  const now = Date.now()
+  const oneMinuteAgo = now - 60_000
+
+  for (const [key, entry] of rateLimitMap) {
+    entry.timestamps = entry.timestamps.filter((ts) => {
+      return ts > oneMinuteAgo
+    })
+    if (entry.timestamps.length === 0) {
+      rateLimitMap.delete(key)
+    }
+  }
+}, 5 * 60_000)
+
+/**
+ * Check if a user is rate limited by a bot.
+ * Returns null if not limited, or a message string if limited.
+ */
+export function checkRateLimit({
+  appId,
+  userId,
+  now = Date.now(),
+}: {
+  appId: string | undefined
+  userId: string
+  now?: number
+}): string | null {
+  const config = getRateLimitConfig()
+  const oneMinuteAgo = now - 60_000
+  const key = `${appId ?? ''}:${userId}`
+
+  let entry = rateLimitMap.get(key)
+  if (!entry) {
+    entry = { timestamps: [] }
+    rateLimitMap.set(key, entry)
+  }
+
+  // Filter to only recent timestamps
+  entry.timestamps = entry.timestamps.filter((ts) => {
+    return ts > oneMinuteAgo
+  })
+
+  if (entry.timestamps.length >= config.messagesPerMinute) {
+    const oldestTs = entry.timestamps[0] || now
+    const waitSeconds = Math.ceil((oldestTs + 60_000 - now) / 1000)
+    return `Rate limited. Please wait ${waitSeconds} second${waitSeconds === 1 ? '' : 's'} before sending another message.`
+  }
+
+  // Record this interaction
+  entry.timestamps.push(now)
+  return null
+}
@@ -12,7 +12,10 @@ import * as errore from 'errore'
 import { getDatabase } from './database.js'
 import { abortSession } from './session-handler.js'
 import { createLogger, LogPrefix } from './logger.js'
-import { hasRequiredPermissions, getDisundayMetadata, resolveTextChannel } from './discord-utils.js'
+import { getDisundayMetadata, resolveTextChannel } from './discord-utils.js'
+import { checkMemberAccess, getPolicyChannelId } from './access-control.js'
+import { recordAuditEvent } from './audit.js'
+import { toPlatformThread } from './platform/discord.js'
 
 const reactionLogger = createLogger(LogPrefix.REACTION)
 
@@ -84,8 +87,13 @@ export function registerReactionHandler({
           return
         }
 
-        const hasPerms = hasRequiredPermissions(member, thread.guild)
-        if (!hasPerms) {
+        // Denials are silent here; checkMemberAccess logs them
+        const access = checkMemberAccess({
+          member,
+          channelId: getPolicyChannelId(thread),
+          action: `reaction:${command}`,
+        })
+        if (!access.allowed) {
           return
         }
 
@@ -95,10 +103,10 @@ export function registerReactionHandler({
 
         switch (command) {
           case 'abort':
-            await handleAbortReaction(thread, appId)
+            await handleAbortReaction(thread, appId, member.user)
             break
           case 'retry':
-            await handleRetryReaction(thread, message, appId)
+            await handleRetryReaction(thread, message, appId, member.user)
             break
           case 'pin':
             await handlePinReaction(message)
@@ -118,6 +126,7 @@ export function registerReactionHandler({
 async function handleAbortReaction(
   thread: ThreadChannel,
   appId: string,
+  user: User,
 ): Promise<void> {
   const row = getDatabase()
     .prepare('SELECT session_id FROM thread_sessions WHERE thread_id = ?')
@@ -131,6 +140,16 @@ async function handleAbortReaction(
   if (aborted) {
     await thread.send('⏹️ Session aborted via reaction')
     reactionLogger.log(`[REACTION] Aborted session ${row.session_id}`)
+    recordAuditEvent({
+      eventType: 'abort',
+      userId: user.id,
+      username: user.username,
+      channelId: thread.parentId || undefined,
+      threadId: thread.id,
+      sessionId: row.session_id,
+      summary: 'Aborted via ❌ reaction',
+      details: { source: 'reaction' },
+    })
   }
 }
 
@@ -138,6 +157,7 @@ async function handleRetryReaction(
   thread: ThreadChannel,
   message: any,
   appId: string,
+  user: User,
 ): Promise<void> {
   const textChannel = await resolveTextChannel(thread)
   const { projectDirectory } = getDisundayMetadata(textChannel)
@@ -167,8 +187,9 @@ async function handleRetryReaction(
 
   await handleOpencodeSession({
     prompt: lastUserMessage,
-    thread,
+    thread: toPlatformThread(thread),
     projectDirectory,
+    user: { id: user.id, username: user.username },
   })
 }
 
@@ -0,0 +1,199 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { afterAll, beforeAll, describe, expect, test } from 'vitest'
+import type { RunSandboxSettings } from './database.js'
+import {
+  buildSandboxCommand,
+  DEFAULT_SANDBOX_IMAGE,
+  parseWritablePaths,
+  validateRunSandbox,
+} from './sandbox.js'
+
+const base: RunSandboxSettings = {
+  backend: 'bubblewrap',
+  image: null,
+  network: false,
+  writablePaths: ['.'],
+  cpus: null,
+  memoryMb: null,
+}
+
+function build(settings: Partial<RunSandboxSettings>, cwd = '/work/app') {
+  const result = buildSandboxCommand({
+    settings: { ...base, ...settings },
+    command: 'pnpm test',
+    projectDirectory: '/work/app',
+    cwd,
+  })
+  if (result instanceof Error) {
+    throw result
+  }
+  return result
+}
+
+// Pairs like ['--bind', src, dest] flattened to 'src' for easy lookups
+function bindsOf(args: string[], flag: string): string[] {
+  return args.flatMap((arg, index) => (arg === flag ? [args[index + 1] ?? ''] : []))
+}
+
+describe('parseWritablePaths', () => {
+  test('defaults to the project', () => {
+    expect(parseWritablePaths(null)).toEqual(['.'])
+  })
+
+  test('none keeps everything read-only', () => {
+    expect(parseWritablePaths(' None ')).toEqual([])
+  })
+
+  test('splits comma separated paths', () => {
+    expect(parseWritablePaths('dist, node_modules,,')).toEqual(['dist', 'node_modules'])
+  })
+})
+
+describe('validateRunSandbox', () => {
+  test('rejects images for non-container backends', () => {
+    expect(validateRunSandbox({ ...base, image: 'alpine' })).toBeInstanceOf(Error)
+    expect(validateRunSandbox({ ...base, backend: 'podman', image: 'alpine' })).not.toBeInstanceOf(Error)
+  })
+
+  test('rejects paths that would break volume syntax', () => {
+    expect(validateRunSandbox({ ...base, writablePaths: ['a:b'] })).toBeInstanceOf(Error)
+  })
+
+  test('rejects writable paths outside the project', () => {
+    for (const entry of ['/', '/etc', '..', '../../..', 'dist/../../other']) {
+      expect(validateRunSandbox({ ...base, writablePaths: [entry] })).toBeInstanceOf(Error)
+    }
+    expect(validateRunSandbox({ ...base, writablePaths: ['dist/../build', './cache'] })).not.toBeInstanceOf(Error)
+  })
+
+  test('rejects tiny limits', () => {
+    expect(validateRunSandbox({ ...base, memoryMb: 16 })).toBeInstanceOf(Error)
+    expect(validateRunSandbox({ ...base, cpus: 0 })).toBeInstanceOf(Error)
+  })
+})
+
+describe('buildSandboxCommand with bubblewrap', () => {
+  test('isolates everything but the project and system directories', () => {
+    const { file, args } = build({})
+    expect(file).toBe('bwrap')
+    expect(args).toContain('--unshare-all')
+    expect(args).not.toContain('--share-net')
+    expect(bindsOf(args, '--bind')).toEqual(['/work/app'])
+    expect(bindsOf(args, '--ro-bind-try')).toContain('/usr')
+    expect(bindsOf(args, '--ro-bind-try').some((entry) => entry.startsWith('/home'))).toBe(false)
+    expect(args.slice(-3)).toEqual(['/bin/sh', '-c', 'pnpm test'])
+    expect(bindsOf(args, '--chdir')).toEqual(['/work/app'])
+  })
+
+  test('mounts a read-only project with writable subdirectories after it', () => {
+    const { args } = build({ writablePaths: ['dist', '.cache/app'], network: true })
+    expect(args).toContain('--share-net')
+    expect(bindsOf(args, '--ro-bind')).toEqual(['/work/app'])
+    expect(bindsOf(args, '--bind-try')).toEqual(['/work/app/dist', '/work/app/.cache/app'])
+    expect(args.indexOf('--bind-try')).toBeGreaterThan(args.indexOf('--ro-bind'))
+  })
+
+  test('wraps bwrap in a systemd scope for resource limits', () => {
+    const { file, args } = build({ cpus: 1.5, memoryMb: 512 })
+    expect(file).toBe('systemd-run')
+    expect(args.slice(0, args.indexOf('bwrap'))).toEqual([
+      '--user',
+      '--scope',
+      '--quiet',
+      '-p',
+      'MemoryMax=512M',
+      '-p',
+      'CPUQuota=150%',
+    ])
+  })
+})
+
+describe('buildSandboxCommand with containers', () => {
+  test('runs podman without network and keeps the user id', () => {
+    const { file, args } = build({ backend: 'podman', cpus: 2, memoryMb: 1024 }, '/work/app/web')
+    expect(file).toBe('podman')
+    expect(args).toEqual(
+      expect.arrayContaining(['--rm', '--network', 'none', '--userns', 'keep-id', '--cpus', '2', '--memory', '1024m']),
+    )
+    expect(bindsOf(args, '--volume')).toEqual(['/work/app:/work/app'])
+    expect(bindsOf(args, '--workdir')).toEqual(['/work/app/web'])
+    expect(args.slice(-4)).toEqual([DEFAULT_SANDBOX_IMAGE, 'sh', '-c', 'pnpm test'])
+  })
+
+  test('mounts a read-only project for docker with a custom image', () => {
+    const { file, args } = build({ backend: 'docker', network: true, writablePaths: [], image: 'python:3.12' })
+    expect(file).toBe('docker')
+    expect(args).not.toContain('none')
+    expect(bindsOf(args, '--volume')).toEqual(['/work/app:/work/app:ro'])
+    expect(args).toContain('python:3.12')
+  })
+
+  test('names the container and runs the command under an init process', () => {
+    const { args, containerName } = build({ backend: 'docker' })
+    expect(containerName).toMatch(/^disunday-run-[0-9a-f]{12}$/)
+    expect(args).toContain('--init')
+    expect(bindsOf(args, '--name')).toEqual([containerName])
+    expect(build({ backend: 'docker' }).containerName).not.toBe(containerName)
+    expect(build({ backend: 'bubblewrap' }).containerName).toBeUndefined()
+  })
+})
+
+test('refuses working directories outside the project', () => {
+  const result = buildSandboxCommand({
+    settings: base,
+    command: 'ls',
+    projectDirectory: '/work/app',
+    cwd: '/work/app/../other',
+  })
+  expect(result).toBeInstanceOf(Error)
+})
+
+describe('writable paths at run time', () => {
+  let tmpDir: string
+  let projectDir: string
+
+  beforeAll(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'disunday-sandbox-test-')))
+    projectDir = path.join(tmpDir, 'app')
+    fs.mkdirSync(path.join(projectDir, 'dist'), { recursive: true })
+    fs.mkdirSync(path.join(tmpDir, 'outside'))
+    fs.symlinkSync(path.join(tmpDir, 'outside'), path.join(projectDir, 'escape'))
+    fs.symlinkSync('/', path.join(projectDir, 'root'))
+    fs.symlinkSync(path.join(projectDir, 'dist'), path.join(projectDir, 'out'))
+  })
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  function buildIn(writablePaths: string[]) {
+    return buildSandboxCommand({
+      settings: { ...base, writablePaths },
+      command: 'ls',
+      projectDirectory: projectDir,
+      cwd: projectDir,
+    })
+  }
+
+  test('refuses paths that resolve outside the project', () => {
+    expect(buildIn(['/'])).toBeInstanceOf(Error)
+    expect(buildIn(['..'])).toBeInstanceOf(Error)
+    expect(buildIn(['../outside'])).toBeInstanceOf(Error)
+  })
+
+  test('follows symlinks before checking', () => {
+    expect(buildIn(['escape'])).toBeInstanceOf(Error)
+    expect(buildIn(['escape/missing/dir'])).toBeInstanceOf(Error)
+    expect(buildIn(['root'])).toBeInstanceOf(Error)
+  })
+
+  test('mounts symlinks inside the project at their target', () => {
+    const result = buildIn(['out'])
+    if (result instanceof Error) {
+      throw result
+    }
+    expect(bindsOf(result.args, '--bind-try')).toEqual([path.join(projectDir, 'dist')])
+  })
+})
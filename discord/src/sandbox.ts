@@ -0,0 +1,359 @@
+// Sandboxed execution for /run, picked per channel with /run-config sandbox.
+// 'host' runs commands directly like before. 'bubblewrap' runs them in
+// unprivileged Linux namespaces, and 'podman' and 'docker' in a throwaway
+// container. Only the project directory and system files are visible;
+// home directories, SSH keys and other projects are not. Network, writable
+// paths and CPU/memory limits are configurable.
+
+import { execFile } from 'node:child_process'
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import path from 'node:path'
+import { promisify } from 'node:util'
+import * as errore from 'errore'
+import type { RunSandboxSettings, SandboxBackendName } from './database.js'
+
+const execFileAsync = promisify(execFile)
+
+export const SANDBOX_BACKENDS: SandboxBackendName[] = ['host', 'bubblewrap', 'podman', 'docker']
+
+export const DEFAULT_SANDBOX_IMAGE = 'node:lts-slim'
+
+const BACKEND_BINARIES: Record<SandboxBackendName, string> = {
+  host: '',
+  bubblewrap: 'bwrap',
+  podman: 'podman',
+  docker: 'docker',
+}
+
+// Read-only system directories visible inside bubblewrap
+const SYSTEM_PATHS = ['/usr', '/bin', '/sbin', '/lib', '/lib64', '/etc']
+const SANDBOX_PATH = '/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin'
+const CONTAINER_PIDS_LIMIT = 512
+const MIN_MEMORY_MB = 64
+
+export type SandboxCommand = {
+  file: string
+  args: string[]
+  /** Name of the container, so it can be killed on timeout */
+  containerName?: string
+}
+
+/**
+ * Check the settings of a channel before saving them.
+ */
+export function validateRunSandbox(settings: RunSandboxSettings): Error | RunSandboxSettings {
+  if (settings.cpus !== null && !(settings.cpus > 0)) {
+    return new Error('`cpus` must be greater than 0')
+  }
+  if (settings.memoryMb !== null && settings.memoryMb < MIN_MEMORY_MB) {
+    return new Error(`\`memory\` must be at least ${MIN_MEMORY_MB} MB`)
+  }
+  if (settings.image && settings.backend !== 'podman' && settings.backend !== 'docker') {
+    return new Error('`image` only applies to the podman and docker backends')
+  }
+  const invalidPath = settings.writablePaths.find((entry) => !entry || /[:,]/.test(entry))
+  if (invalidPath !== undefined) {
+    return new Error(`Writable paths cannot be empty or contain \`:\` or \`,\`: \`${invalidPath}\``)
+  }
+  const outsidePath = settings.writablePaths.find((entry) => {
+    return path.isAbsolute(entry) || !isInside({ parent: '/project', child: path.resolve('/project', entry) })
+  })
+  if (outsidePath !== undefined) {
+    return new Error(`Writable paths must be relative and inside the project: \`${outsidePath}\``)
+  }
+  return settings
+}
+
+/**
+ * Parse the comma separated `writable` option. `none` keeps the project
+ * read-only; relative paths are inside the project.
+ */
+export function parseWritablePaths(value: string | null): string[] {
+  if (value === null) {
+    return ['.']
+  }
+  if (value.trim().toLowerCase() === 'none') {
+    return []
+  }
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+}
+
+function isInside({ parent, child }: { parent: string; child: string }): boolean {
+  const relative = path.relative(parent, child)
+  return (
+    relative === '' ||
+    (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative))
+  )
+}
+
+/**
+ * Resolve symlinks in the longest existing prefix of a path, so a link
+ * inside the project that points elsewhere is followed the way a mount
+ * would follow it.
+ */
+function realpathNearest(target: string): string {
+  const missing: string[] = []
+  let current = path.resolve(target)
+  while (true) {
+    const real = errore.tryFn(() => fs.realpathSync(current))
+    if (!(real instanceof Error)) {
+      return path.join(real, ...missing.reverse())
+    }
+    const parent = path.dirname(current)
+    if (parent === current) {
+      return path.resolve(target)
+    }
+    missing.push(path.basename(current))
+    current = parent
+  }
+}
+
+type WritableMounts = { projectWritable: boolean; extraPaths: string[] }
+
+/**
+ * Writable paths of a sandbox, after following symlinks. Every one must
+ * stay inside the project, so the sandbox can never write to the host.
+ */
+function resolveWritablePaths({
+  settings,
+  projectDirectory,
+}: {
+  settings: RunSandboxSettings
+  projectDirectory: string
+}): Error | WritableMounts {
+  const resolved: string[] = []
+  for (const entry of settings.writablePaths) {
+    const real = realpathNearest(path.resolve(projectDirectory, entry))
+    if (!isInside({ parent: projectDirectory, child: real })) {
+      return new Error(`Writable path \`${entry}\` is outside the project`)
+    }
+    resolved.push(real)
+  }
+  return {
+    projectWritable: resolved.includes(projectDirectory),
+    extraPaths: [...new Set(resolved.filter((entry) => entry !== projectDirectory))],
+  }
+}
+
+function buildBubblewrapArgs({
+  settings,
+  command,
+  projectDirectory,
+  cwd,
+  writable,
+}: {
+  settings: RunSandboxSettings
+  command: string
+  projectDirectory: string
+  cwd: string
+  writable: WritableMounts
+}): SandboxCommand {
+  const { projectWritable, extraPaths } = writable
+  const args = ['--unshare-all']
+  if (settings.network) {
+    args.push('--share-net')
+  }
+  args.push('--die-with-parent', '--new-session')
+  for (const systemPath of SYSTEM_PATHS) {
+    args.push('--ro-bind-try', systemPath, systemPath)
+  }
+  args.push('--proc', '/proc', '--dev', '/dev', '--tmpfs', '/tmp')
+  args.push(projectWritable ? '--bind' : '--ro-bind', projectDirectory, projectDirectory)
+  // After the project so writable subdirectories override a read-only project
+  for (const extraPath of extraPaths) {
+    args.push('--bind-try', extraPath, extraPath)
+  }
+  args.push(
+    '--clearenv',
+    '--setenv', 'PATH', SANDBOX_PATH,
+    '--setenv', 'HOME', '/tmp',
+    '--chdir', cwd,
+    '/bin/sh', '-c', command,
+  )
+
+  if (settings.cpus === null && settings.memoryMb === null) {
+    return { file: 'bwrap', args }
+  }
+  // Namespaces have no resource limits of their own, so wrap bwrap in a
+  // transient systemd scope with cgroup limits
+  const scopeArgs = ['--user', '--scope', '--quiet']
+  if (settings.memoryMb !== null) {
+    scopeArgs.push('-p', `MemoryMax=${settings.memoryMb}M`)
+  }
+  if (settings.cpus !== null) {
+    scopeArgs.push('-p', `CPUQuota=${Math.round(settings.cpus * 100)}%`)
+  }
+  return { file: 'systemd-run', args: [...scopeArgs, 'bwrap', ...args] }
+}
+
+function buildContainerArgs({
+  settings,
+  command,
+  projectDirectory,
+  cwd,
+  writable,
+}: {
+  settings: RunSandboxSettings
+  command: string
+  projectDirectory: string
+  cwd: string
+  writable: WritableMounts
+}): SandboxCommand {
+  const { projectWritable, extraPaths } = writable
+  const containerName = `disunday-run-${crypto.randomBytes(6).toString('hex')}`
+  // --init so the shell does not run as PID 1, which ignores SIGTERM
+  const args = [
+    'run',
+    '--rm',
+    '--init',
+    '--name', containerName,
+    '--cap-drop', 'ALL',
+    '--security-opt', 'no-new-privileges',
+    '--pids-limit', String(CONTAINER_PIDS_LIMIT),
+  ]
+  if (!settings.network) {
+    args.push('--network', 'none')
+  }
+  // Files written to the project keep the bot user as owner
+  if (settings.backend === 'podman') {
+    args.push('--userns', 'keep-id')
+  } else if (process.getuid && process.getgid) {
+    args.push('--user', `${process.getuid()}:${process.getgid()}`)
+  }
+  if (settings.cpus !== null) {
+    args.push('--cpus', String(settings.cpus))
+  }
+  if (settings.memoryMb !== null) {
+    args.push('--memory', `${settings.memoryMb}m`)
+  }
+  args.push('--tmpfs', '/tmp', '--env', 'HOME=/tmp')
+  args.push('--volume', `${projectDirectory}:${projectDirectory}${projectWritable ? '' : ':ro'}`)
+  for (const extraPath of extraPaths) {
+    args.push('--volume', `${extraPath}:${extraPath}`)
+  }
+  args.push('--workdir', cwd, settings.image || DEFAULT_SANDBOX_IMAGE, 'sh', '-c', command)
+  return { file: settings.backend, args, containerName }
+}
+
+/**
+ * Build the process that runs a /run command in the sandbox of a channel.
+ * The working directory must be inside the project, since nothing else is
+ * mounted, and writable paths are checked again here because symlinks in
+ * the project can change after /run-config saved them.
+ */
+export function buildSandboxCommand({
+  settings,
+  command,
+  projectDirectory,
+  cwd,
+}: {
+  settings: RunSandboxSettings
+  command: string
+  projectDirectory: string
+  cwd: string
+}): Error | SandboxCommand {
+  const resolvedProject = realpathNearest(projectDirectory)
+  const resolvedCwd = realpathNearest(path.resolve(resolvedProject, cwd))
+  if (!isInside({ parent: resolvedProject, child: resolvedCwd })) {
+    return new Error(`Directory \`${cwd}\` is outside the project and not visible in the sandbox`)
+  }
+  const writable = resolveWritablePaths({ settings, projectDirectory: resolvedProject })
+  if (writable instanceof Error) {
+    return writable
+  }
+  const options = { settings, command, projectDirectory: resolvedProject, cwd: resolvedCwd, writable }
+  switch (settings.backend) {
+    case 'host':
+      return new Error('The host backend does not use a sandbox')
+    case 'bubblewrap':
+      return buildBubblewrapArgs(options)
+    case 'podman':
+    case 'docker':
+      return buildContainerArgs(options)
+  }
+}
+
+/**
+ * Kill the container of a sandboxed command once the timeout passes.
+ * Killing the docker or podman client only forwards the signal and leaves
+ * the container running, so it is killed through the runtime instead.
+ * Returns a function that cancels the timer when the command ends first.
+ */
+export function killSandboxOnTimeout({
+  command,
+  timeoutMs,
+}: {
+  command: SandboxCommand
+  timeoutMs: number
+}): () => void {
+  const { containerName } = command
+  if (!containerName) {
+    return () => {}
+  }
+  const timer = setTimeout(() => {
+    execFile(command.file, ['kill', containerName], { timeout: 10_000 }, () => {
+      // Already gone when the command exited at the same moment
+    })
+  }, timeoutMs)
+  return () => clearTimeout(timer)
+}
+
+/**
+ * Check that the tools a sandbox needs are installed on the host.
+ */
+export async function checkSandboxBackend(settings: RunSandboxSettings): Promise<Error | void> {
+  if (settings.backend === 'host') {
+    return
+  }
+  const binary = BACKEND_BINARIES[settings.backend]
+  const probes = [
+    {
+      file: binary,
+      args: ['--version'],
+      message: `\`${binary}\` is not installed or not working on the bot host`,
+    },
+  ]
+  if (settings.backend === 'bubblewrap' && (settings.cpus !== null || settings.memoryMb !== null)) {
+    // --version works without a user systemd instance, but the scopes
+    // that enforce limits need one
+    probes.push({
+      file: 'systemd-run',
+      args: ['--user', '--scope', '--quiet', 'true'],
+      message:
+        '`systemd-run --user --scope` does not work on the bot host, so CPU and memory limits cannot be enforced. It needs systemd with a user instance running.',
+    })
+  }
+  for (const { file, args, message } of probes) {
+    const result = await errore.tryAsync(() => {
+      return execFileAsync(file, args, { timeout: 10_000 })
+    })
+    if (result instanceof Error) {
+      return new Error(message, { cause: result })
+    }
+  }
+}
+
+export function formatRunSandbox(settings: RunSandboxSettings): string {
+  if (settings.backend === 'host') {
+    return 'Commands run directly on the host'
+  }
+  const writable =
+    settings.writablePaths.length > 0
+      ? settings.writablePaths.map((entry) => `\`${entry}\``).join(', ')
+      : 'nothing (project is read-only)'
+  const lines = [
+    `Backend: **${settings.backend}**`,
+    `Network: ${settings.network ? 'on' : 'off'}`,
+    `Writable: ${writable}`,
+    `CPUs: ${settings.cpus ?? 'unlimited'}`,
+    `Memory: ${settings.memoryMb !== null ? `${settings.memoryMb} MB` : 'unlimited'}`,
+  ]
+  if (settings.backend === 'podman' || settings.backend === 'docker') {
+    lines.push(`Image: \`${settings.image || DEFAULT_SANDBOX_IMAGE}\``)
+  }
+  return lines.join('\n')
+}
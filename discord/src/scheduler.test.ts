@@ -0,0 +1,86 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import type { Client } from 'discord.js'
+import { afterAll, afterEach, beforeAll, describe, expect, test, vi } from 'vitest'
+import { setDataDir } from './config.js'
+import { closeDatabase, getDatabase } from './database.js'
+import { getScheduleClient, startScheduler, stopScheduler } from './scheduler.js'
+
+vi.mock('./session-handler.js', () => ({
+  handleOpencodeSession: vi.fn(),
+}))
+
+let dataDir: string
+
+// Only the channel cache is used to pick a client
+function fakeClient(channelIds: string[] = []): Client {
+  return { channels: { cache: new Map(channelIds.map((id) => [id, {}])) } } as unknown as Client
+}
+
+function addChannel(channelId: string, appId: string | null) {
+  getDatabase()
+    .prepare('INSERT INTO channel_directories (channel_id, directory, channel_type, app_id) VALUES (?, ?, ?, ?)')
+    .run(channelId, `/projects/${channelId}`, 'text', appId)
+}
+
+beforeAll(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'disunday-scheduler-test-'))
+  setDataDir(dataDir)
+  addChannel('channel-a', 'app-a')
+  addChannel('channel-b', 'app-b')
+  addChannel('channel-shared', null)
+})
+
+afterEach(() => {
+  stopScheduler()
+})
+
+afterAll(() => {
+  closeDatabase()
+  fs.rmSync(dataDir, { recursive: true, force: true })
+})
+
+describe('getScheduleClient', () => {
+  test('runs schedules through the bot owning the channel', () => {
+    const clientA = fakeClient()
+    const clientB = fakeClient()
+    startScheduler({ client: clientA, appId: 'app-a' })
+    startScheduler({ client: clientB, appId: 'app-b' })
+
+    expect(getScheduleClient('channel-a')).toBe(clientA)
+    expect(getScheduleClient('channel-b')).toBe(clientB)
+  })
+
+  test('sends unowned channels to the bot that can see them', () => {
+    const clientA = fakeClient()
+    const clientB = fakeClient(['channel-shared'])
+    startScheduler({ client: clientA, appId: 'app-a' })
+    startScheduler({ client: clientB, appId: 'app-b' })
+
+    expect(getScheduleClient('channel-shared')).toBe(clientB)
+  })
+
+  test('stopping a second bot leaves the first one running', () => {
+    const clientA = fakeClient()
+    startScheduler({ client: clientA, appId: 'app-a' })
+    startScheduler({ client: fakeClient(), appId: 'app-b' })
+
+    stopScheduler('app-b')
+    expect(getScheduleClient('channel-a')).toBe(clientA)
+    // Schedules of the stopped bot wait instead of running through another bot
+    expect(getScheduleClient('channel-b')).toBeUndefined()
+
+    startScheduler({ client: fakeClient(), appId: 'app-b' })
+    expect(getScheduleClient('channel-b')).not.toBe(clientA)
+    expect(getScheduleClient('channel-b')).toBeDefined()
+  })
+
+  test('stopping every bot leaves no client', () => {
+    startScheduler({ client: fakeClient(), appId: 'app-a' })
+    startScheduler({ client: fakeClient(), appId: 'app-b' })
+    stopScheduler()
+    expect(getScheduleClient('channel-a')).toBeUndefined()
+    expect(getScheduleClient('channel-shared')).toBeUndefined()
+  })
+})
@@ -7,30 +7,58 @@ import {
   runScheduleMigrations,
   getChannelDirectory,
   getBotSettings,
+  advanceRecurringSchedule,
+  setScheduleError,
+  type ScheduledMessage,
 } from './database.js'
+import { getNextCronRun, getDefaultTimeZone } from './cron.js'
 import { handleOpencodeSession } from './session-handler.js'
 import { sendThreadMessage, SILENT_MESSAGE_FLAGS } from './discord-utils.js'
 import { createLogger, LogPrefix } from './logger.js'
+import { toPlatformThread } from './platform/discord.js'
 
 const schedulerLogger = createLogger(LogPrefix.SESSION)
 
 let schedulerInterval: NodeJS.Timeout | null = null
 
-export function startScheduler(client: Client): void {
+// Clients of the bots hosted in this process, by app ID. One polling loop
+// serves all of them; each schedule runs through the bot owning its channel.
+const schedulerClients = new Map<string, Client>()
+
+export function startScheduler({
+  client,
+  appId,
+}: {
+  client: Client
+  appId: string
+}): void {
   runScheduleMigrations()
+  schedulerClients.set(appId, client)
 
   if (schedulerInterval) {
-    clearInterval(schedulerInterval)
+    return
   }
 
   schedulerInterval = setInterval(() => {
-    void processSchedules(client)
+    void processSchedules()
   }, 10_000)
 
   schedulerLogger.log('[SCHEDULER] Started (checking every 10s)')
 }
 
-export function stopScheduler(): void {
+/**
+ * Stop scheduling for one bot, or for every bot when no app ID is given.
+ * The polling loop stops once no bot is left.
+ */
+export function stopScheduler(appId?: string): void {
+  if (appId) {
+    schedulerClients.delete(appId)
+  } else {
+    schedulerClients.clear()
+  }
+  if (schedulerClients.size > 0) {
+    return
+  }
   if (schedulerInterval) {
     clearInterval(schedulerInterval)
     schedulerInterval = null
@@ -38,78 +66,38 @@ export function stopScheduler(): void {
   }
 }
 
-async function processSchedules(client: Client): Promise<void> {
+/**
+ * Client of the bot that owns the schedule's channel. Channels without an
+ * app go to whichever bot can see them. Schedules of a bot that is not
+ * running here wait for it rather than running through another bot.
+ */
+export function getScheduleClient(channelId: string): Client | undefined {
+  const appId = getChannelDirectory(channelId)?.appId
+  if (appId) {
+    return schedulerClients.get(appId)
+  }
+  const clients = [...schedulerClients.values()]
+  return (
+    clients.find((client) => client.channels.cache.has(channelId)) ?? clients[0]
+  )
+}
+
+async function processSchedules(): Promise<void> {
   const pendingSchedules = getPendingSchedules()
 
   for (const schedule of pendingSchedules) {
+    const client = getScheduleClient(schedule.channel_id)
+    if (!client) {
+      continue
+    }
     schedulerLogger.log(`[SCHEDULER] Processing schedule #${schedule.id}`)
 
-    const result = await errore.tryAsync(async () => {
-      const targetChannelId = schedule.thread_id || schedule.channel_id
-      const channel = await client.channels.fetch(targetChannelId)
-
-      if (!channel) {
-        throw new Error(`Channel ${targetChannelId} not found`)
-      }
+    if (schedule.cron_expression) {
+      await processRecurringSchedule(client, schedule)
+      continue
+    }
 
-      const isThread = [
-        ChannelType.PublicThread,
-        ChannelType.PrivateThread,
-        ChannelType.AnnouncementThread,
-      ].includes(channel.type)
-
-      if (isThread) {
-        const thread = channel as ThreadChannel
-        const parentId = thread.parentId
-
-        if (!parentId) {
-          throw new Error('Thread has no parent channel')
-        }
-
-        const channelConfig = getChannelDirectory(parentId)
-        if (!channelConfig?.directory) {
-          throw new Error(`No project directory configured for channel ${parentId}`)
-        }
-
-        await sendThreadMessage(
-          thread,
-          `⏰ **Scheduled message** (from <@${schedule.created_by}>):\n${schedule.prompt}`,
-        )
-
-        await handleOpencodeSession({
-          prompt: schedule.prompt,
-          thread,
-          projectDirectory: channelConfig.directory,
-          channelId: parentId,
-        })
-      } else if (channel.type === ChannelType.GuildText) {
-        const textChannel = channel as TextChannel
-        const channelConfig = getChannelDirectory(textChannel.id)
-
-        if (!channelConfig?.directory) {
-          throw new Error(`No project directory configured for channel ${textChannel.id}`)
-        }
-
-        const starterMessage = await textChannel.send({
-          content: `⏰ **Scheduled** (from <@${schedule.created_by}>): ${schedule.prompt.slice(0, 100)}${schedule.prompt.length > 100 ? '...' : ''}`,
-          flags: SILENT_MESSAGE_FLAGS,
-        })
-
-        const thread = await starterMessage.startThread({
-          name: `Scheduled: ${schedule.prompt.slice(0, 50)}${schedule.prompt.length > 50 ? '...' : ''}`,
-          autoArchiveDuration: 1440,
-        })
-
-        await handleOpencodeSession({
-          prompt: schedule.prompt,
-          thread,
-          projectDirectory: channelConfig.directory,
-          channelId: textChannel.id,
-        })
-      } else {
-        throw new Error(`Unsupported channel type: ${channel.type}`)
-      }
-    })
+    const result = await runSchedule(client, schedule)
 
     if (result instanceof Error) {
       schedulerLogger.error(`[SCHEDULER] Failed schedule #${schedule.id}:`, result)
@@ -123,6 +111,138 @@ async function processSchedules(client: Client): Promise<void> {
   }
 }
 
+// Recurring schedules are advanced to their next run before running, so a slow
+// session can't make the 10s polling loop fire the same occurrence twice.
+// Runs missed while the bot was offline collapse into a single catch-up run.
+async function processRecurringSchedule(
+  client: Client,
+  schedule: ScheduledMessage,
+): Promise<void> {
+  const runStartedAt = Date.now()
+  const nextRunAt = errore.tryFn(() => {
+    return getNextCronRun({
+      expression: schedule.cron_expression!,
+      timeZone: schedule.timezone || getDefaultTimeZone(),
+      after: runStartedAt,
+    })
+  })
+
+  if (nextRunAt instanceof Error) {
+    schedulerLogger.error(
+      `[SCHEDULER] Invalid recurrence for schedule #${schedule.id}:`,
+      nextRunAt,
+    )
+    updateScheduleStatus(schedule.id, 'failed', nextRunAt.message)
+    await sendScheduleNotification(client, schedule, 'failed', nextRunAt.message)
+    return
+  }
+
+  if (nextRunAt) {
+    advanceRecurringSchedule({
+      id: schedule.id,
+      nextRunAt,
+      lastRunAt: runStartedAt,
+    })
+  }
+
+  const result = await runSchedule(client, schedule)
+
+  if (!nextRunAt) {
+    updateScheduleStatus(
+      schedule.id,
+      result instanceof Error ? 'failed' : 'completed',
+      result instanceof Error ? result.message : undefined,
+    )
+  } else if (result instanceof Error) {
+    setScheduleError(schedule.id, result.message)
+  }
+
+  if (result instanceof Error) {
+    schedulerLogger.error(`[SCHEDULER] Failed recurring schedule #${schedule.id}:`, result)
+    await sendScheduleNotification(client, schedule, 'failed', result.message)
+    return
+  }
+
+  schedulerLogger.log(
+    `[SCHEDULER] Ran recurring schedule #${schedule.id}, next run ${nextRunAt ? new Date(nextRunAt).toISOString() : 'none'}`,
+  )
+  await sendScheduleNotification(client, schedule, 'completed')
+}
+
+async function runSchedule(
+  client: Client,
+  schedule: ScheduledMessage,
+): Promise<Error | void> {
+  return errore.tryAsync(async () => {
+    const targetChannelId = schedule.thread_id || schedule.channel_id
+    const channel = await client.channels.fetch(targetChannelId)
+
+    if (!channel) {
+      throw new Error(`Channel ${targetChannelId} not found`)
+    }
+
+    const isThread = [
+      ChannelType.PublicThread,
+      ChannelType.PrivateThread,
+      ChannelType.AnnouncementThread,
+    ].includes(channel.type)
+
+    if (isThread) {
+      const thread = channel as ThreadChannel
+      const parentId = thread.parentId
+
+      if (!parentId) {
+        throw new Error('Thread has no parent channel')
+      }
+
+      const channelConfig = getChannelDirectory(parentId)
+      if (!channelConfig?.directory) {
+        throw new Error(`No project directory configured for channel ${parentId}`)
+      }
+
+      await sendThreadMessage(
+        thread,
+        `⏰ **Scheduled message** (from <@${schedule.created_by}>):\n${schedule.prompt}`,
+      )
+
+      await handleOpencodeSession({
+        prompt: schedule.prompt,
+        thread: toPlatformThread(thread),
+        projectDirectory: channelConfig.directory,
+        channelId: parentId,
+        user: { id: schedule.created_by, username: `schedule #${schedule.id}` },
+      })
+    } else if (channel.type === ChannelType.GuildText) {
+      const textChannel = channel as TextChannel
+      const channelConfig = getChannelDirectory(textChannel.id)
+
+      if (!channelConfig?.directory) {
+        throw new Error(`No project directory configured for channel ${textChannel.id}`)
+      }
+
+      const starterMessage = await textChannel.send({
+        content: `⏰ **Scheduled** (from <@${schedule.created_by}>): ${schedule.prompt.slice(0, 100)}${schedule.prompt.length > 100 ? '...' : ''}`,
+        flags: SILENT_MESSAGE_FLAGS,
+      })
+
+      const thread = await starterMessage.startThread({
+        name: `Scheduled: ${schedule.prompt.slice(0, 50)}${schedule.prompt.length > 50 ? '...' : ''}`,
+        autoArchiveDuration: 1440,
+      })
+
+      await handleOpencodeSession({
+        prompt: schedule.prompt,
+        thread: toPlatformThread(thread),
+        projectDirectory: channelConfig.directory,
+        channelId: textChannel.id,
+        user: { id: schedule.created_by, username: `schedule #${schedule.id}` },
+      })
+    } else {
+      throw new Error(`Unsupported channel type: ${channel.type}`)
+    }
+  })
+}
+
 async function sendScheduleNotification(
   client: Client,
   schedule: { id: number; channel_id: string; prompt: string; created_by: string },
@@ -0,0 +1,150 @@
+import type { Part } from '@opencode-ai/sdk'
+import { describe, expect, test } from 'vitest'
+import {
+  filterMessagesByRange,
+  parseExportDate,
+  renderSessionExport,
+  type ExportedSession,
+} from './session-export.js'
+
+const created = Date.UTC(2025, 0, 31, 12)
+
+const editPart = {
+  id: 'prt_2',
+  sessionID: 'ses_1',
+  messageID: 'msg_2',
+  type: 'tool',
+  callID: 'call_1',
+  tool: 'edit',
+  state: {
+    status: 'completed',
+    input: { filePath: 'src/app.ts', oldString: 'a', newString: 'b' },
+    output: 'Edited <src/app.ts>',
+    title: 'src/app.ts',
+    metadata: { diff: '--- a/src/app.ts\n+++ b/src/app.ts\n@@ -1 +1 @@\n-a\n+b\n' },
+    time: { start: created, end: created + 1500 },
+  },
+} satisfies Part
+
+const exported: ExportedSession = {
+  sessionId: 'ses_1234567890',
+  threadId: '42',
+  directory: '/repos/app',
+  messages: [
+    {
+      info: {
+        id: 'msg_1',
+        sessionID: 'ses_1',
+        role: 'user',
+        time: { created },
+      } as ExportedSession['messages'][number]['info'],
+      parts: [
+        {
+          id: 'prt_1',
+          sessionID: 'ses_1',
+          messageID: 'msg_1',
+          type: 'text',
+          text: 'Rename a to b',
+        },
+      ],
+    },
+    {
+      info: {
+        id: 'msg_2',
+        sessionID: 'ses_1',
+        role: 'assistant',
+        time: { created: created + 1000, completed: created + 5000 },
+        parentID: 'msg_1',
+        modelID: 'claude-sonnet-4',
+        providerID: 'anthropic',
+        mode: 'build',
+        path: { cwd: '/repos/app', root: '/repos/app' },
+        cost: 0.0123,
+        tokens: { input: 1200, output: 300, reasoning: 0, cache: { read: 0, write: 0 } },
+      },
+      parts: [editPart],
+    },
+  ],
+}
+
+describe('renderSessionExport', () => {
+  test('compact markdown keeps only the tool name', () => {
+    const { content, extension } = renderSessionExport({
+      sessions: [exported],
+      format: 'markdown',
+      exportedAt: new Date(created),
+    })
+    expect(extension).toBe('md')
+    expect(content).toContain('`Tool: edit`')
+    expect(content).not.toContain('oldString')
+  })
+
+  test('full markdown includes tool input, output, diff, timing and usage', () => {
+    const { content } = renderSessionExport({
+      sessions: [exported],
+      format: 'markdown-full',
+      exportedAt: new Date(created),
+    })
+    expect(content).toContain('### 🔧 edit — src/app.ts')
+    expect(content).toContain('_Status: completed · 1.5s_')
+    expect(content).toContain('"oldString": "a"')
+    expect(content).toContain('```diff\n--- a/src/app.ts')
+    expect(content).toContain('Edited <src/app.ts>')
+    expect(content).toContain('anthropic/claude-sonnet-4 · 4.0s · tokens: 1200 in, 300 out · $0.0123')
+  })
+
+  test('json export round-trips every part', () => {
+    const { content } = renderSessionExport({
+      sessions: [exported],
+      format: 'json',
+      range: { since: created },
+      exportedAt: new Date(created),
+    })
+    const parsed = JSON.parse(content)
+    expect(parsed.range).toEqual({ since: created })
+    expect(parsed.sessions[0].messages[1].parts[0]).toEqual(editPart)
+  })
+
+  test('html export escapes content and highlights diffs in collapsible tools', () => {
+    const { content, extension } = renderSessionExport({
+      sessions: [exported],
+      format: 'html',
+      exportedAt: new Date(created),
+    })
+    expect(extension).toBe('html')
+    expect(content).toContain('<details class="tool tool-completed">')
+    expect(content).toContain('Edited &lt;src/app.ts&gt;')
+    expect(content).toContain('<span class="diff-add">+b</span>')
+    expect(content).toContain('<span class="diff-del">-a</span>')
+    expect(content).toContain('<span class="diff-hunk">@@ -1 +1 @@</span>')
+  })
+})
+
+describe('parseExportDate', () => {
+  const now = Date.UTC(2025, 1, 10)
+
+  test('parses relative times and dates, including the whole end day', () => {
+    expect(parseExportDate({ value: '7d', bound: 'since', now })).toBe(
+      now - 7 * 24 * 60 * 60 * 1000,
+    )
+    expect(parseExportDate({ value: '12h', bound: 'since', now })).toBe(
+      now - 12 * 60 * 60 * 1000,
+    )
+    expect(parseExportDate({ value: '2025-01-31', bound: 'since' })).toBe(
+      Date.UTC(2025, 0, 31),
+    )
+    expect(parseExportDate({ value: '2025-01-31', bound: 'until' })).toBe(
+      Date.UTC(2025, 1, 1),
+    )
+    expect(parseExportDate({ value: 'yesterday', bound: 'since' })).toBeInstanceOf(Error)
+  })
+})
+
+describe('filterMessagesByRange', () => {
+  test('keeps messages created inside the range', () => {
+    const messages = filterMessagesByRange(exported.messages, {
+      since: created + 500,
+    })
+    expect(messages.map(({ info }) => info.id)).toEqual(['msg_2'])
+  })
+})
@@ -0,0 +1,435 @@
+// Session exports for /export.
+// Renders OpenCode sessions as compact Markdown, Markdown with full tool I/O,
+// a lossless JSON dump or a self-contained HTML transcript.
+
+import type { Message, Part, Session, ToolPart } from '@opencode-ai/sdk'
+
+export const EXPORT_FORMATS = {
+  markdown: 'md',
+  'markdown-full': 'md',
+  json: 'json',
+  html: 'html',
+} as const
+
+export type ExportFormat = keyof typeof EXPORT_FORMATS
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return value in EXPORT_FORMATS
+}
+
+export type ExportedMessage = { info: Message; parts: Part[] }
+
+export type ExportedSession = {
+  sessionId: string
+  threadId: string | null
+  directory: string
+  session?: Session
+  messages: ExportedMessage[]
+}
+
+export type ExportRange = { since?: number; until?: number }
+
+const RELATIVE_DATE_PATTERN = /^(\d+)([hdw])$/
+const RELATIVE_UNITS_MS = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+} as const
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Parse a range bound: relative like `7d`, `12h` or `2w` (counted back from
+ * now), or an ISO date. A date without a time used as the end of a range
+ * includes that whole day.
+ */
+export function parseExportDate({
+  value,
+  bound,
+  now = Date.now(),
+}: {
+  value: string
+  bound: 'since' | 'until'
+  now?: number
+}): Error | number {
+  const trimmed = value.trim()
+  const relative = trimmed.match(RELATIVE_DATE_PATTERN)
+  if (relative) {
+    const unit = relative[2] as keyof typeof RELATIVE_UNITS_MS
+    return now - Number(relative[1]) * RELATIVE_UNITS_MS[unit]
+  }
+
+  const timestamp = Date.parse(trimmed)
+  if (Number.isNaN(timestamp)) {
+    return new Error(
+      `Invalid ${bound} date: ${value}. Use a date like 2025-01-31 or a relative time like 7d`,
+    )
+  }
+  if (bound === 'until' && DATE_ONLY_PATTERN.test(trimmed)) {
+    return timestamp + RELATIVE_UNITS_MS.d
+  }
+  return timestamp
+}
+
+/**
+ * Keep messages created inside the range.
+ */
+export function filterMessagesByRange(
+  messages: ExportedMessage[],
+  range: ExportRange,
+): ExportedMessage[] {
+  return messages.filter(({ info }) => {
+    const created = info.time.created
+    return (
+      created >= (range.since ?? 0) &&
+      created < (range.until ?? Number.MAX_SAFE_INTEGER)
+    )
+  })
+}
+
+function formatRange(range: ExportRange): string | null {
+  if (range.since === undefined && range.until === undefined) {
+    return null
+  }
+  const since = range.since !== undefined ? new Date(range.since).toISOString() : 'start'
+  const until = range.until !== undefined ? new Date(range.until).toISOString() : 'now'
+  return `${since} – ${until}`
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${ms}ms`
+  }
+  return `${(ms / 1000).toFixed(1)}s`
+}
+
+function formatTokens(info: Message): string | null {
+  if (info.role !== 'assistant') {
+    return null
+  }
+  const { input, output, reasoning, cache } = info.tokens
+  const parts = [`${input} in`, `${output} out`]
+  if (reasoning) {
+    parts.push(`${reasoning} reasoning`)
+  }
+  if (cache.read || cache.write) {
+    parts.push(`${cache.read} cache read`, `${cache.write} cache write`)
+  }
+  return parts.join(', ')
+}
+
+function formatMessageMeta(info: Message): string {
+  const meta = [new Date(info.time.created).toISOString()]
+  if (info.role === 'assistant') {
+    meta.push(`${info.providerID}/${info.modelID}`)
+    if (info.time.completed) {
+      meta.push(formatDuration(info.time.completed - info.time.created))
+    }
+    meta.push(`tokens: ${formatTokens(info)}`)
+    if (info.cost) {
+      meta.push(`$${info.cost.toFixed(4)}`)
+    }
+  }
+  return meta.join(' · ')
+}
+
+function formatToolTiming(part: ToolPart): string | null {
+  const { state } = part
+  if (state.status === 'completed' || state.status === 'error') {
+    return formatDuration(state.time.end - state.time.start)
+  }
+  return null
+}
+
+/**
+ * Unified diff of a file-editing tool call, when the tool reported one.
+ */
+export function getToolDiff(part: ToolPart): string | null {
+  const diff = part.state.status !== 'pending' ? part.state.metadata?.diff : undefined
+  return typeof diff === 'string' && diff.trim() ? diff : null
+}
+
+function getToolOutput(part: ToolPart): string | null {
+  if (part.state.status === 'completed') {
+    return part.state.output
+  }
+  if (part.state.status === 'error') {
+    return part.state.error
+  }
+  return null
+}
+
+function fence(content: string, language = ''): string {
+  // Use a fence longer than any backtick run inside the content
+  const longestRun = Math.max(
+    2,
+    ...[...content.matchAll(/`+/g)].map((match) => match[0].length),
+  )
+  const ticks = '`'.repeat(longestRun + 1)
+  return `${ticks}${language}\n${content.replace(/\n$/, '')}\n${ticks}`
+}
+
+function getTitle(exported: ExportedSession): string {
+  return exported.session?.title || 'Untitled'
+}
+
+function renderMarkdownSession({
+  exported,
+  full,
+}: {
+  exported: ExportedSession
+  full: boolean
+}): string {
+  let markdown = ''
+  for (const msg of exported.messages) {
+    const role = msg.info.role === 'user' ? '👤 User' : '🤖 Assistant'
+    markdown += `## ${role}\n\n`
+    if (full) {
+      markdown += `_${formatMessageMeta(msg.info)}_\n\n`
+    }
+
+    for (const part of msg.parts) {
+      if (part.type === 'text' && part.text) {
+        markdown += part.text + '\n\n'
+      } else if (part.type === 'reasoning' && part.text) {
+        markdown += `_Thinking: ${part.text}_\n\n`
+      } else if (part.type === 'tool' && !full) {
+        markdown += `\`Tool: ${part.tool}\`\n\n`
+      } else if (part.type === 'tool') {
+        const timing = formatToolTiming(part)
+        const title = part.state.status === 'completed' ? ` — ${part.state.title}` : ''
+        markdown += `### 🔧 ${part.tool}${title}\n\n`
+        markdown += `_Status: ${part.state.status}${timing ? ` · ${timing}` : ''}_\n\n`
+        markdown += `**Input**\n\n${fence(JSON.stringify(part.state.input, null, 2), 'json')}\n\n`
+        const diff = getToolDiff(part)
+        if (diff) {
+          markdown += `**Diff**\n\n${fence(diff, 'diff')}\n\n`
+        }
+        const output = getToolOutput(part)
+        if (output) {
+          const label = part.state.status === 'error' ? 'Error' : 'Output'
+          markdown += `**${label}**\n\n${fence(output)}\n\n`
+        }
+      } else if (part.type === 'file' && full) {
+        markdown += `📎 File: ${part.filename || part.url} (${part.mime})\n\n`
+      } else if (part.type === 'patch' && full) {
+        markdown += `📝 Patch ${part.hash.slice(0, 8)}: ${part.files.join(', ')}\n\n`
+      }
+    }
+
+    markdown += `---\n\n`
+  }
+  return markdown
+}
+
+function renderMarkdown({
+  sessions,
+  range,
+  exportedAt,
+  full,
+}: {
+  sessions: ExportedSession[]
+  range: ExportRange
+  exportedAt: Date
+  full: boolean
+}): string {
+  const rangeText = formatRange(range)
+  const single = sessions.length === 1 ? sessions[0] : undefined
+
+  if (single) {
+    let markdown = `# Session Export\n\n`
+    markdown += `**Session ID:** ${single.sessionId}\n`
+    markdown += `**Title:** ${getTitle(single)}\n`
+    markdown += `**Directory:** ${single.directory}\n`
+    markdown += `**Messages:** ${single.messages.length}\n`
+    if (rangeText) {
+      markdown += `**Range:** ${rangeText}\n`
+    }
+    markdown += `**Exported:** ${exportedAt.toISOString()}\n\n`
+    markdown += `---\n\n`
+    return markdown + renderMarkdownSession({ exported: single, full })
+  }
+
+  let markdown = `# Sessions Export\n\n`
+  markdown += `**Sessions:** ${sessions.length}\n`
+  if (rangeText) {
+    markdown += `**Range:** ${rangeText}\n`
+  }
+  markdown += `**Exported:** ${exportedAt.toISOString()}\n\n`
+  for (const exported of sessions) {
+    markdown += `---\n\n# ${getTitle(exported)}\n\n`
+    markdown += `**Session ID:** ${exported.sessionId}\n`
+    markdown += `**Directory:** ${exported.directory}\n`
+    markdown += `**Messages:** ${exported.messages.length}\n\n`
+    markdown += `---\n\n`
+    markdown += renderMarkdownSession({ exported, full })
+  }
+  return markdown
+}
+
+function renderJson({
+  sessions,
+  range,
+  exportedAt,
+}: {
+  sessions: ExportedSession[]
+  range: ExportRange
+  exportedAt: Date
+}): string {
+  return JSON.stringify(
+    {
+      version: 1,
+      exportedAt: exportedAt.toISOString(),
+      range,
+      sessions,
+    },
+    null,
+    2,
+  )
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function renderHtmlDiff(diff: string): string {
+  const lines = diff.replace(/\n$/, '').split('\n').map((line) => {
+    let className = ''
+    if (line.startsWith('+++') || line.startsWith('---')) {
+      className = 'diff-file'
+    } else if (line.startsWith('+')) {
+      className = 'diff-add'
+    } else if (line.startsWith('-')) {
+      className = 'diff-del'
+    } else if (line.startsWith('@@')) {
+      className = 'diff-hunk'
+    }
+    const escaped = escapeHtml(line)
+    return className ? `<span class="${className}">${escaped}</span>` : escaped
+  })
+  return `<pre class="diff">${lines.join('\n')}</pre>`
+}
+
+function renderHtmlTool(part: ToolPart): string {
+  const timing = formatToolTiming(part)
+  const title = part.state.status === 'completed' ? ` — ${escapeHtml(part.state.title)}` : ''
+  let html = `<details class="tool tool-${part.state.status}">`
+  html += `<summary>🔧 <code>${escapeHtml(part.tool)}</code>${title}`
+  html += `<span class="meta">${part.state.status}${timing ? ` · ${timing}` : ''}</span></summary>`
+  html += `<h4>Input</h4><pre>${escapeHtml(JSON.stringify(part.state.input, null, 2))}</pre>`
+  const diff = getToolDiff(part)
+  if (diff) {
+    html += `<h4>Diff</h4>${renderHtmlDiff(diff)}`
+  }
+  const output = getToolOutput(part)
+  if (output) {
+    html += `<h4>${part.state.status === 'error' ? 'Error' : 'Output'}</h4><pre>${escapeHtml(output)}</pre>`
+  }
+  return html + `</details>`
+}
+
+function renderHtmlSession(exported: ExportedSession): string {
+  let html = `<section class="session"><h2>${escapeHtml(getTitle(exported))}</h2>`
+  html += `<p class="meta">Session ${escapeHtml(exported.sessionId)} · ${escapeHtml(exported.directory)} · ${exported.messages.length} messages</p>`
+
+  for (const msg of exported.messages) {
+    const role = msg.info.role === 'user' ? '👤 User' : '🤖 Assistant'
+    html += `<article class="message ${msg.info.role}">`
+    html += `<header><strong>${role}</strong><span class="meta">${escapeHtml(formatMessageMeta(msg.info))}</span></header>`
+    for (const part of msg.parts) {
+      if (part.type === 'text' && part.text) {
+        html += `<div class="text">${escapeHtml(part.text)}</div>`
+      } else if (part.type === 'reasoning' && part.text) {
+        html += `<details class="reasoning"><summary>Thinking</summary><div class="text">${escapeHtml(part.text)}</div></details>`
+      } else if (part.type === 'tool') {
+        html += renderHtmlTool(part)
+      } else if (part.type === 'file') {
+        html += `<p class="meta">📎 ${escapeHtml(part.filename || part.url)} (${escapeHtml(part.mime)})</p>`
+      } else if (part.type === 'patch') {
+        html += `<p class="meta">📝 Patch ${escapeHtml(part.hash.slice(0, 8))}: ${escapeHtml(part.files.join(', '))}</p>`
+      }
+    }
+    html += `</article>`
+  }
+  return html + `</section>`
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; background: #fff; }
+h1 { font-size: 1.6rem; } h2 { border-bottom: 1px solid #d0d7de; padding-bottom: .3rem; } h4 { margin: .6rem 0 .2rem; font-size: .85rem; }
+.meta { color: #656d76; font-size: .8rem; margin-left: .6rem; }
+.message { border: 1px solid #d0d7de; border-radius: 6px; padding: .6rem .9rem; margin: .8rem 0; }
+.message.user { background: #f6f8fa; }
+.message header { margin-bottom: .4rem; }
+.text { white-space: pre-wrap; line-height: 1.5; margin: .4rem 0; }
+pre { background: #f6f8fa; border-radius: 6px; padding: .6rem; overflow-x: auto; font-size: .8rem; white-space: pre-wrap; word-break: break-word; }
+details { margin: .4rem 0; } summary { cursor: pointer; }
+.tool { border-left: 3px solid #0969da; padding-left: .6rem; }
+.tool-error { border-left-color: #cf222e; }
+.reasoning .text { color: #656d76; font-style: italic; }
+.diff-add { color: #1a7f37; background: #dafbe1; display: inline-block; width: 100%; }
+.diff-del { color: #cf222e; background: #ffebe9; display: inline-block; width: 100%; }
+.diff-hunk { color: #8250df; }
+.diff-file { font-weight: bold; }
+`
+
+function renderHtml({
+  sessions,
+  range,
+  exportedAt,
+}: {
+  sessions: ExportedSession[]
+  range: ExportRange
+  exportedAt: Date
+}): string {
+  const title =
+    sessions.length === 1 && sessions[0]
+      ? getTitle(sessions[0])
+      : `${sessions.length} sessions`
+  const rangeText = formatRange(range)
+  let html = `<!DOCTYPE html>\n<html lang="en">\n<head>\n<meta charset="utf-8">\n`
+  html += `<title>${escapeHtml(title)}</title>\n<style>${HTML_STYLE}</style>\n</head>\n<body>\n`
+  html += `<h1>${escapeHtml(title)}</h1>\n`
+  html += `<p class="meta">Exported ${exportedAt.toISOString()}${rangeText ? ` · ${escapeHtml(rangeText)}` : ''}</p>\n`
+  html += sessions.map(renderHtmlSession).join('\n')
+  return html + `\n</body>\n</html>\n`
+}
+
+/**
+ * Render sessions in an export format. Returns the file content and its
+ * extension.
+ */
+export function renderSessionExport({
+  sessions,
+  format,
+  range = {},
+  exportedAt = new Date(),
+}: {
+  sessions: ExportedSession[]
+  format: ExportFormat
+  range?: ExportRange
+  exportedAt?: Date
+}): { content: string; extension: string } {
+  const extension = EXPORT_FORMATS[format]
+  switch (format) {
+    case 'json':
+      return { content: renderJson({ sessions, range, exportedAt }), extension }
+    case 'html':
+      return { content: renderHtml({ sessions, range, exportedAt }), extension }
+    case 'markdown':
+    case 'markdown-full':
+      return {
+        content: renderMarkdown({
+          sessions,
+          range,
+          exportedAt,
+          full: format === 'markdown-full',
+        }),
+        extension,
+      }
+  }
+}
@@ -0,0 +1,341 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest'
+import { setDataDir } from './config.js'
+import { closeDatabase, getDatabase, setChannelDisplayMode } from './database.js'
+import { MemoryPlatform } from './platform/memory.js'
+import {
+  addToQueue,
+  getQueue,
+  getQueueLength,
+  handleOpencodeSession,
+  replayQueuedMessages,
+} from './session-handler.js'
+
+// Fake OpenCode server: session.prompt pushes scripted events into the
+// subscribed event stream, then the session goes idle.
+const opencode = vi.hoisted(() => {
+  type Event = { type: string; properties: Record<string, unknown> }
+  const listeners = new Set<(event: Event) => void>()
+  let script: (sessionId: string) => Event[] = () => []
+
+  const emit = (event: Event) => {
+    for (const listener of listeners) {
+      listener(event)
+    }
+  }
+
+  const subscribe = async (
+    _params: unknown,
+    { signal }: { signal: AbortSignal },
+  ) => {
+    const queue: Event[] = []
+    let wake: (() => void) | undefined
+    const listener = (event: Event) => {
+      queue.push(event)
+      wake?.()
+    }
+    listeners.add(listener)
+    signal.addEventListener('abort', () => wake?.(), { once: true })
+
+    async function* stream() {
+      try {
+        while (!signal.aborted) {
+          const event = queue.shift()
+          if (event) {
+            yield event
+            continue
+          }
+          await new Promise<void>((resolve) => {
+            wake = resolve
+          })
+        }
+      } finally {
+        listeners.delete(listener)
+      }
+    }
+    return { stream: stream() }
+  }
+
+  const client = {
+    session: {
+      get: async () => ({ data: undefined }),
+      create: async () => ({ data: { id: 'ses_test' } }),
+      prompt: async ({ path }: { path: { id: string } }) => {
+        for (const event of script(path.id)) {
+          emit(event)
+        }
+        setTimeout(() => {
+          emit({ type: 'session.idle', properties: { sessionID: path.id } })
+        }, 10)
+        return { data: {}, error: undefined, response: { status: 200 } }
+      },
+      messages: async () => ({ data: [] }),
+      abort: async () => ({ data: true }),
+    },
+    provider: {
+      list: async () => ({
+        data: {
+          connected: ['test'],
+          default: { test: 'test-model' },
+          all: [
+            {
+              id: 'test',
+              models: { 'test-model': { limit: { context: 100_000 } } },
+            },
+          ],
+        },
+      }),
+    },
+    config: { get: async () => ({ data: {} }) },
+    app: { agents: async () => ({ data: [] }) },
+  }
+
+  const clientV2 = {
+    event: { subscribe },
+    permission: { reply: async () => ({ data: true }) },
+    question: { reply: async () => ({ data: true }) },
+  }
+
+  return {
+    client,
+    clientV2,
+    setScript: (next: (sessionId: string) => Event[]) => {
+      script = next
+    },
+  }
+})
+
+vi.mock('./opencode.js', () => ({
+  initializeOpencodeForDirectory: async () => () => opencode.client,
+  getOpencodeServers: () => new Map(),
+  getOpencodeClientV2: () => opencode.clientV2,
+  retainOpencodeServer: () => () => {},
+}))
+
+let dataDir: string
+
+beforeAll(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'disunday-session-test-'))
+  setDataDir(dataDir)
+})
+
+afterAll(() => {
+  closeDatabase()
+  fs.rmSync(dataDir, { recursive: true, force: true })
+})
+
+function assistantMessage(sessionId: string) {
+  return {
+    type: 'message.updated',
+    properties: {
+      info: {
+        id: 'msg_assistant',
+        sessionID: sessionId,
+        role: 'assistant',
+        modelID: 'test-model',
+        providerID: 'test',
+        mode: 'build',
+        cost: 0.01,
+        tokens: {
+          input: 100,
+          output: 20,
+          reasoning: 0,
+          cache: { read: 0, write: 0 },
+        },
+      },
+    },
+  }
+}
+
+describe('handleOpencodeSession with the memory platform', () => {
+  test('streams a full session into the thread', async () => {
+    opencode.setScript((sessionId) => [
+      assistantMessage(sessionId),
+      {
+        type: 'message.part.updated',
+        properties: {
+          part: {
+            id: 'part_text',
+            sessionID: sessionId,
+            messageID: 'msg_assistant',
+            type: 'text',
+            text: 'Hello from OpenCode',
+            time: { start: 1, end: 2 },
+          },
+        },
+      },
+    ])
+
+    const platform = new MemoryPlatform()
+    const thread = platform.createThread({ parentId: 'channel-1' })
+    const originalMessage = thread.receive({
+      content: 'say hello',
+      author: { id: 'user-1', username: 'alice' },
+    })
+
+    const result = await handleOpencodeSession({
+      prompt: 'say hello',
+      thread,
+      projectDirectory: dataDir,
+      originalMessage,
+      channelId: 'channel-1',
+    })
+    await vi.waitFor(() => {
+      expect(thread.messages.at(-1)?.content).toContain('Completed in')
+    })
+
+    expect(result?.sessionID).toBe('ses_test')
+    const contents = thread.messages.map((message) => message.content)
+    expect(contents.some((content) => content.includes('Session Info'))).toBe(
+      true,
+    )
+    expect(
+      contents.some((content) => content.includes('Hello from OpenCode')),
+    ).toBe(true)
+    expect(thread.messages.at(-1)?.message.notify).toBe(true)
+    expect(originalMessage.reactions).toEqual(['✅'])
+  })
+
+  test('shows session errors with retry buttons', async () => {
+    opencode.setScript((sessionId) => [
+      assistantMessage(sessionId),
+      {
+        type: 'session.error',
+        properties: {
+          sessionID: sessionId,
+          error: { data: { message: 'provider overloaded' } },
+        },
+      },
+    ])
+
+    const platform = new MemoryPlatform()
+    const thread = platform.createThread({ parentId: 'channel-1' })
+    const originalMessage = thread.receive({
+      content: 'try again',
+      author: { id: 'user-1', username: 'alice' },
+    })
+
+    await handleOpencodeSession({
+      prompt: 'try again',
+      thread,
+      projectDirectory: dataDir,
+      originalMessage,
+      channelId: 'channel-1',
+    })
+    const errorMessage = await vi.waitFor(() => {
+      const found = thread.messages.find((message) => {
+        return message.content.includes('provider overloaded')
+      })
+      expect(found).toBeDefined()
+      return found
+    })
+    expect(
+      errorMessage?.message.buttons?.map((button) => button.customId),
+    ).toEqual([`retry_error:${thread.id}`, `dismiss_error:${thread.id}`])
+  })
+
+  test('keeps tools in one status message in live display mode', async () => {
+    const toolEvent = (sessionId: string, id: string, status: string) => ({
+      type: 'message.part.updated',
+      properties: {
+        part: {
+          id,
+          sessionID: sessionId,
+          messageID: 'msg_assistant',
+          type: 'tool',
+          callID: `call_${id}`,
+          tool: 'read',
+          state: {
+            status,
+            input: { filePath: `${id}.ts` },
+            output: '',
+            title: `${id}.ts`,
+            metadata: {},
+            time: { start: 1, end: 2 },
+          },
+        },
+      },
+    })
+    opencode.setScript((sessionId) => [
+      assistantMessage(sessionId),
+      toolEvent(sessionId, 'part_a', 'running'),
+      toolEvent(sessionId, 'part_a', 'completed'),
+      toolEvent(sessionId, 'part_b', 'running'),
+      toolEvent(sessionId, 'part_b', 'completed'),
+    ])
+    setChannelDisplayMode('channel-2', 'live')
+
+    const platform = new MemoryPlatform()
+    const thread = platform.createThread({ parentId: 'channel-2' })
+    const originalMessage = thread.receive({
+      content: 'read files',
+      author: { id: 'user-1', username: 'alice' },
+    })
+
+    await handleOpencodeSession({
+      prompt: 'read files',
+      thread,
+      projectDirectory: dataDir,
+      originalMessage,
+      channelId: 'channel-2',
+    })
+    await vi.waitFor(() => {
+      expect(thread.messages.at(-1)?.content).toContain('Completed in')
+    })
+
+    const contents = thread.messages.map((message) => message.content)
+    expect(contents.some((content) => content.includes('part_a.ts'))).toBe(
+      false,
+    )
+    expect(
+      contents.filter((content) => content.includes('2 tools (read ×2)')),
+    ).toEqual([expect.stringMatching(/^✅ \*\*Done\*\* · /)])
+  })
+})
+
+describe('replayQueuedMessages after a restart', () => {
+  test('replays only the queues of the restarted bot', async () => {
+    opencode.setScript((sessionId) => [assistantMessage(sessionId)])
+    const insertChannel = getDatabase().prepare(
+      'INSERT INTO channel_directories (channel_id, directory, channel_type, app_id) VALUES (?, ?, ?, ?)',
+    )
+    insertChannel.run('channel-app-a', dataDir, 'text', 'app-a')
+    insertChannel.run('channel-app-b', dataDir, 'text', 'app-b')
+
+    const queued = (prompt: string) => ({
+      prompt,
+      userId: 'user-1',
+      username: 'alice',
+      queuedAt: Date.now(),
+    })
+    addToQueue({ threadId: 'thread-app-a', appId: 'app-a', message: queued('first') })
+    addToQueue({ threadId: 'thread-app-a', appId: 'app-a', message: queued('second') })
+    addToQueue({ threadId: 'thread-app-b', appId: 'app-b', message: queued('other bot') })
+
+    // Restart: the queues are read back from SQLite by a new connection
+    closeDatabase()
+
+    // Bot A's platform cannot see bot B's thread, which must not drop its queue
+    const platform = new MemoryPlatform()
+    const thread = platform.createThread({ id: 'thread-app-a', parentId: 'channel-app-a' })
+    await replayQueuedMessages({ platform, appId: 'app-a' })
+
+    const contents = thread.messages.map((message) => message.content)
+    expect(contents.slice(0, 2)).toEqual([
+      '♻️ Restored 2 queued messages after bot restart',
+      '» **alice:** first',
+    ])
+    expect(getQueue('thread-app-b')).toMatchObject([{ prompt: 'other bot', restored: false }])
+
+    // The rest of the restored queue drains as sessions complete
+    await vi.waitFor(() => {
+      expect(getQueueLength('thread-app-a')).toBe(0)
+      expect(
+        thread.messages.filter((message) => message.content.includes('Completed in')),
+      ).toHaveLength(2)
+    }, { timeout: 5000 })
+    expect(getQueueLength('thread-app-b')).toBe(1)
+  })
+})
@@ -1,5 +1,6 @@
 // OpenCode session lifecycle manager.
-// Creates, maintains, and sends prompts to OpenCode sessions from Discord threads.
+// Creates, maintains, and sends prompts to OpenCode sessions from chat threads
+// (Discord, or any adapter in platform/).
 // Handles streaming events, permissions, abort signals, and message queuing.
 
 import type {
@@ -8,13 +9,11 @@ import type {
   QuestionRequest,
 } from '@opencode-ai/sdk/v2'
 import type { DiscordFileAttachment } from './message-formatting.js'
-import {
-  type Message,
-  type ThreadChannel,
-  ButtonBuilder,
-  ButtonStyle,
-  ActionRowBuilder,
-} from 'discord.js'
+import type {
+  ChatPlatform,
+  PlatformMessage,
+  PlatformThread,
+} from './platform/types.js'
 import prettyMilliseconds from 'pretty-ms'
 import fs from 'node:fs'
 import path from 'node:path'
@@ -28,27 +27,47 @@ import {
   setSessionAgent,
   getThreadWorktree,
   getChannelVerbosity,
-  getChannelTheme,
+  getChannelDisplayMode,
+  getChannelVoiceSummary,
+  getChannelPermissionTimeouts,
   getBotSettings,
   getChannelDirectory,
+  enqueueMessage,
+  getQueuedMessages,
+  getQueuedMessageCount,
+  dequeueMessage,
+  clearQueuedMessages,
+  markQueuedMessagesRestored,
+  insertSessionRun,
+  finishSessionRun,
+  type QueuedMessageRow,
 } from './database.js'
 import {
   initializeOpencodeForDirectory,
   getOpencodeServers,
   getOpencodeClientV2,
+  retainOpencodeServer,
 } from './opencode.js'
-import {
-  sendThreadMessage,
-  NOTIFY_MESSAGE_FLAGS,
-  SILENT_MESSAGE_FLAGS,
-} from './discord-utils.js'
 import { formatPart } from './message-formatting.js'
+import { getPolicyDecision, replyWithPolicy } from './permission-policies.js'
+import { schedulePermissionTimeouts } from './permission-timeouts.js'
+import { getChannelThemeConfig } from './themes.js'
+import { createLiveStatus } from './live-status.js'
+import { getThreadWorktreeDirectory } from './worktree-lifecycle.js'
 import {
   getOpencodeSystemMessage,
   type WorktreeInfo,
 } from './system-message.js'
 import { createLogger, LogPrefix } from './logger.js'
 import { isAbortError } from './utils.js'
+import { recordAuditEvent } from './audit.js'
+import {
+  checkBudgets,
+  formatBudgetCheck,
+  formatBudgetLabel,
+  recordAssistantUsage,
+  shouldNotifyBudget,
+} from './usage.js'
 import {
   showAskUserQuestionDropdowns,
   cancelPendingQuestion,
@@ -144,33 +163,143 @@ export type QueuedMessage = {
   username: string
   queuedAt: number
   images?: DiscordFileAttachment[]
+  /** True if the message was queued before the last bot restart and replayed */
+  restored?: boolean
 }
 
-// Queue of messages waiting to be sent after current response finishes
-// Key is threadId, value is array of queued messages
-export const messageQueue = new Map<string, QueuedMessage[]>()
-
 const activeEventHandlers = new Map<string, Promise<void>>()
 
+function toQueuedMessage(row: QueuedMessageRow): QueuedMessage {
+  const images = row.images
+    ? errore.tryFn(() => JSON.parse(row.images!) as DiscordFileAttachment[])
+    : undefined
+  return {
+    prompt: row.prompt,
+    userId: row.user_id,
+    username: row.username,
+    queuedAt: row.queued_at,
+    images: images instanceof Error ? undefined : images,
+    restored: row.restored === 1,
+  }
+}
+
+// Queue of messages waiting to be sent after current response finishes.
+// Stored in SQLite (queued_messages) so queued prompts survive bot restarts.
 export function addToQueue({
   threadId,
   message,
+  appId,
 }: {
   threadId: string
   message: QueuedMessage
+  // Bot that owns the thread, so only it replays the queue after a restart
+  appId?: string
 }): number {
-  const queue = messageQueue.get(threadId) || []
-  queue.push(message)
-  messageQueue.set(threadId, queue)
-  return queue.length
+  return enqueueMessage({
+    threadId,
+    appId,
+    prompt: message.prompt,
+    userId: message.userId,
+    username: message.username,
+    queuedAt: message.queuedAt,
+    images:
+      message.images && message.images.length > 0
+        ? JSON.stringify(message.images)
+        : undefined,
+  })
+}
+
+export function getQueue(threadId: string): QueuedMessage[] {
+  return getQueuedMessages(threadId).map(toQueuedMessage)
 }
 
 export function getQueueLength(threadId: string): number {
-  return messageQueue.get(threadId)?.length || 0
+  return getQueuedMessageCount(threadId)
 }
 
 export function clearQueue(threadId: string): void {
-  messageQueue.delete(threadId)
+  clearQueuedMessages(threadId)
+}
+
+function shiftQueue(threadId: string): QueuedMessage | undefined {
+  const row = dequeueMessage(threadId)
+  return row ? toQueuedMessage(row) : undefined
+}
+
+/**
+ * Replay queues persisted before a restart. Marks this bot's queued messages as
+ * restored, then sends the first message of each thread; the rest drain in order as
+ * each session completes. Queues of other bots sharing the database are left alone.
+ */
+export async function replayQueuedMessages({
+  platform,
+  appId,
+}: {
+  platform: ChatPlatform
+  appId: string
+}): Promise<void> {
+  const threadIds = markQueuedMessagesRestored(appId)
+  if (threadIds.length === 0) {
+    return
+  }
+
+  sessionLogger.log(
+    `[QUEUE] Replaying queued messages for ${threadIds.length} thread(s) after restart`,
+  )
+
+  for (const threadId of threadIds) {
+    const result = await errore.tryAsync(async () => {
+      const thread = await platform.fetchThread(threadId)
+      if (!thread) {
+        sessionLogger.log(`[QUEUE] Thread ${threadId} no longer exists, dropping its queue`)
+        clearQueue(threadId)
+        return
+      }
+      const projectChannelId = thread.parentId
+      const channelConfig = projectChannelId
+        ? getChannelDirectory(projectChannelId)
+        : undefined
+      if (!projectChannelId || !channelConfig) {
+        return
+      }
+      if (channelConfig.appId && channelConfig.appId !== appId) {
+        return
+      }
+
+      const queueLength = getQueueLength(threadId)
+      const nextMessage = shiftQueue(threadId)
+      if (!nextMessage) {
+        return
+      }
+
+      const plural = queueLength > 1 ? 's' : ''
+      await thread.sendText(
+        `♻️ Restored ${queueLength} queued message${plural} after bot restart`,
+      )
+      await thread.sendText(
+        `» **${nextMessage.username}:** ${nextMessage.prompt.slice(0, 150)}${nextMessage.prompt.length > 150 ? '...' : ''}`,
+      )
+
+      const prefixedPrompt = `${nextMessage.prompt}\n<discord-user name="${nextMessage.username}" />`
+      void handleOpencodeSession({
+        prompt: prefixedPrompt,
+        thread,
+        projectDirectory: channelConfig.directory,
+        images: nextMessage.images,
+        channelId: projectChannelId,
+        user: { id: nextMessage.userId, username: nextMessage.username },
+      }).catch(async (e) => {
+        sessionLogger.error(`[QUEUE] Failed to process restored message:`, e)
+        const errorMsg = e instanceof Error ? e.message : String(e)
+        await thread.sendText(
+          `✗ Queued message failed: ${errorMsg.slice(0, 200)}`,
+        )
+      })
+    })
+    if (result instanceof Error) {
+      sessionLogger.error(`[QUEUE] Failed to replay queue for thread ${threadId}:`, result)
+    }
+  }
 }
 
 /**
@@ -338,7 +467,7 @@ export async function abortAndRetrySession({
   projectDirectory,
 }: {
   sessionId: string
-  thread: ThreadChannel
+  thread: PlatformThread
   projectDirectory: string
 }): Promise<boolean> {
   const controller = abortControllers.get(sessionId)
@@ -435,8 +564,7 @@ export async function abortAndRetrySession({
           return
         }
         sessionLogger.error(`[ABORT+RETRY] Failed to retry:`, result)
-        await sendThreadMessage(
-          thread,
+        await thread.sendText(
           `✗ Failed to retry with new model: ${result.message.slice(0, 200)}`,
         )
       })
@@ -454,17 +582,20 @@ export async function handleOpencodeSession({
   channelId,
   command,
   agent,
+  user,
 }: {
   prompt: string
-  thread: ThreadChannel
+  thread: PlatformThread
   projectDirectory?: string
-  originalMessage?: Message
+  originalMessage?: PlatformMessage
   images?: DiscordFileAttachment[]
   channelId?: string
   /** If set, uses session.command API instead of session.prompt */
   command?: { name: string; arguments: string }
   /** Agent to use for this session */
   agent?: string
+  /** User who sent the prompt, defaults to the original message author */
+  user?: { id: string; username: string }
 }): Promise<{ sessionID: string; result: any; port?: number } | undefined> {
   voiceLogger.log(
     `[OPENCODE SESSION] Starting for thread ${thread.id} with prompt: "${prompt.slice(0, 50)}${prompt.length > 50 ? '...' : ''}"`,
@@ -472,15 +603,40 @@ export async function handleOpencodeSession({
 
   const sessionStartTime = Date.now()
 
+  const promptUser =
+    user ||
+    (originalMessage && {
+      id: originalMessage.author.id,
+      username: originalMessage.author.username,
+    })
+  const usageChannelId = channelId || thread.parentId || undefined
+
+  // Exceeded budgets refuse new prompts until the period resets
+  const exceededBudget = checkBudgets({
+    userId: promptUser?.id,
+    channelId: usageChannelId,
+  }).find((check) => {
+    return check.state === 'exceeded'
+  })
+  if (exceededBudget) {
+    sessionLogger.log(
+      `[BUDGET] Refusing prompt in thread ${thread.id}: ${formatBudgetLabel(exceededBudget.budget)} exceeded`,
+    )
+    await thread.sendText(formatBudgetCheck(exceededBudget))
+    return
+  }
+
   const directory = projectDirectory || process.cwd()
   sessionLogger.log(`Using directory: ${directory}`)
 
   // Get worktree info early so we can use the correct directory for events and prompts
   const worktreeInfo = getThreadWorktree(thread.id)
-  const worktreeDirectory =
-    worktreeInfo?.status === 'ready' && worktreeInfo.worktree_directory
-      ? worktreeInfo.worktree_directory
-      : undefined
+  const worktreeDirectory = getThreadWorktreeDirectory(thread.id)
+  if (worktreeDirectory instanceof Error) {
+    sessionLogger.log(`Refusing prompt in thread ${thread.id}: its worktree was removed`)
+    await thread.sendText(`✗ ${worktreeDirectory.message}`)
+    return
+  }
   // Use worktree directory for SDK calls if available, otherwise project directory
   const sdkDirectory = worktreeDirectory || directory
   if (worktreeDirectory) {
@@ -491,7 +647,7 @@ export async function handleOpencodeSession({
 
   const getClient = await initializeOpencodeForDirectory(directory)
   if (getClient instanceof Error) {
-    await sendThreadMessage(thread, `✗ ${getClient.message}`)
+    await thread.sendText(`✗ ${getClient.message}`)
     return
   }
 
@@ -549,10 +705,46 @@ export async function handleOpencodeSession({
     .run(thread.id, session.id)
   sessionLogger.log(`Stored session ${session.id} for thread ${thread.id}`)
 
+  recordAuditEvent({
+    eventType: 'prompt',
+    userId: promptUser?.id,
+    username: promptUser?.username,
+    channelId: usageChannelId,
+    threadId: thread.id,
+    sessionId: session.id,
+    summary: command ? `/${command.name} ${command.arguments}`.trim() : prompt,
+    details: {
+      newSession: isNewSession,
+      images: images.length,
+      ...(agent && { agent }),
+      ...(command && { command: command.name }),
+    },
+  })
+
+  // Per-prompt run row for /stats, finished when the event handler exits
+  let runId: number | undefined
+  try {
+    runId = insertSessionRun({
+      sessionId: session.id,
+      threadId: thread.id,
+      channelId: usageChannelId,
+      projectDirectory: directory,
+      userId: promptUser?.id,
+      username: promptUser?.username,
+      newSession: isNewSession,
+      startedAt: sessionStartTime,
+    })
+  } catch (error) {
+    sessionLogger.error('Failed to record session run:', error)
+  }
+  const runTools: Record<string, number> = {}
+  let runToolErrors = 0
+  let runErrorMessage: string | undefined
+
   if (isNewSession) {
     const terminalCmd = `opencode -s ${session.id} ${sdkDirectory}`
     const sessionInfoContent = `📋 **Session Info**\n**ID:** \`${session.id}\`\n**Terminal:**\n\`\`\`\n${terminalCmd}\n\`\`\``
-    const infoMessage = await sendThreadMessage(thread, sessionInfoContent)
+    const infoMessage = await thread.sendText(sessionInfoContent)
     await infoMessage.pin().catch(() => {})
   }
 
@@ -626,8 +818,7 @@ export async function handleOpencodeSession({
     pendingPermissions.delete(thread.id)
     if (rejectedCount > 0) {
       const plural = rejectedCount > 1 ? 's' : ''
-      await sendThreadMessage(
-        thread,
+      await thread.sendText(
         `⚠️ ${rejectedCount} pending permission request${plural} auto-rejected due to new message`,
       )
     }
@@ -742,7 +933,7 @@ export async function handleOpencodeSession({
         const secs = elapsedSec % 60
         return secs > 0 ? `${mins}m ${secs}s` : `${mins}m`
       })()
-      void thread.send({ content: `⏳ Working... (${duration})`, flags: SILENT_MESSAGE_FLAGS })
+      void thread.send({ content: `⏳ Working... (${duration})` })
     }, 30_000)
 
     abortController.signal.addEventListener(
@@ -819,10 +1010,19 @@ export async function handleOpencodeSession({
     return getChannelVerbosity(verbosityChannelId)
   }
   const getTheme = () => {
-    return getChannelTheme(verbosityChannelId)
+    return getChannelThemeConfig(verbosityChannelId)
   }
+  // The display mode is fixed for the turn, the status message can't switch mid-way
+  const liveStatus =
+    getChannelDisplayMode(verbosityChannelId) === 'live'
+      ? createLiveStatus({ thread, startedAt: sessionStartTime, getTheme })
+      : null
 
   const sendPartMessage = async (part: Part) => {
+    // In live mode everything but text goes to the status message
+    if (liveStatus && part.type !== 'text') {
+      return
+    }
     const verbosity = getVerbosity()
     // In text-only mode, only send text parts (the ⬥ diamond messages)
     if (verbosity === 'text-only' && part.type !== 'text') {
@@ -849,7 +1049,7 @@ export async function handleOpencodeSession({
     }
 
     const sendResult = await errore.tryAsync(() => {
-      return sendThreadMessage(thread, content)
+      return thread.sendText(content)
     })
     if (sendResult instanceof Error) {
       discordLogger.error(`ERROR: Failed to send part ${part.id}:`, sendResult)
@@ -873,6 +1073,8 @@ export async function handleOpencodeSession({
     >()
     // Counts spawned tasks per agent type: "explore" → 2
     const agentSpawnCounts: Record<string, number> = {}
+    // Tool parts already counted for /stats (parts update many times)
+    const countedToolParts = new Set<string>()
 
     const storePart = (part: Part) => {
       const messageParts =
@@ -942,6 +1144,7 @@ export async function handleOpencodeSession({
       modelID?: string
       providerID?: string
       mode?: string
+      cost?: number
       tokens?: {
         input: number
         output: number
@@ -954,6 +1157,20 @@ export async function handleOpencodeSession({
         subtaskInfo.assistantMessageId = msg.id
       }
 
+      // Subtask usage counts towards the prompting user's budget too
+      if (
+        msg.role === 'assistant' &&
+        (msg.sessionID === session.id || subtaskInfo)
+      ) {
+        recordAssistantUsage({
+          message: msg,
+          threadId: thread.id,
+          channelId: usageChannelId,
+          user: promptUser,
+        })
+        await enforceBudgets()
+      }
+
       if (msg.sessionID !== session.id) {
         return
       }
@@ -972,6 +1189,7 @@ export async function handleOpencodeSession({
           msg.tokens.cache.write
         if (newTokensTotal > 0) {
           tokensUsedInSession = newTokensTotal
+          liveStatus?.setTokens(newTokensTotal)
         }
       }
 
@@ -1011,7 +1229,7 @@ export async function handleOpencodeSession({
         }
       }
 
-      if (!modelContextLimit) {
+      if (!modelContextLimit || liveStatus) {
         return
       }
 
@@ -1027,7 +1245,58 @@ export async function handleOpencodeSession({
       }
       lastDisplayedContextPercentage = thresholdCrossed
       const chunk = `⬦ context usage ${currentPercentage}%`
-      await thread.send({ content: chunk, flags: SILENT_MESSAGE_FLAGS })
+      await thread.send({ content: chunk })
+    }
+
+    const enforceBudgets = async () => {
+      const checks = checkBudgets({
+        userId: promptUser?.id,
+        channelId: usageChannelId,
+      })
+      for (const check of checks) {
+        if (check.state === 'ok') {
+          continue
+        }
+        if (
+          check.state === 'exceeded' &&
+          check.budget.action === 'abort' &&
+          !abortController.signal.aborted
+        ) {
+          sessionLogger.log(
+            `[ABORT] reason=budget-exceeded sessionId=${session.id} threadId=${thread.id} - ${formatBudgetLabel(check.budget)} exceeded`,
+          )
+          await thread.sendText(formatBudgetCheck(check))
+          abortController.abort(new Error('budget-exceeded'))
+          recordAuditEvent({
+            eventType: 'abort',
+            channelId: usageChannelId,
+            threadId: thread.id,
+            sessionId: session.id,
+            summary: `Aborted: ${formatBudgetLabel(check.budget)} exceeded`,
+            details: {
+              source: 'budget',
+              spent: check.spent,
+              limit: check.budget.limit_usd,
+            },
+          })
+          const abortResult = await errore.tryAsync(() => {
+            return getClient().session.abort({
+              path: { id: session.id },
+              query: { directory: sdkDirectory },
+            })
+          })
+          if (abortResult instanceof Error) {
+            sessionLogger.error(
+              `[ABORT-API] Failed to abort session ${session.id} over budget:`,
+              abortResult,
+            )
+          }
+          return
+        }
+        if (shouldNotifyBudget(check)) {
+          await thread.sendText(formatBudgetCheck(check))
+        }
+      }
     }
 
     const handleMainPart = async (part: Part) => {
@@ -1076,9 +1345,9 @@ export async function handleOpencodeSession({
               assistantMessageId: undefined,
             })
             // Show task messages in tools-and-text and text-and-essential-tools modes
-            if (getVerbosity() !== 'text-only') {
+            if (getVerbosity() !== 'text-only' && !liveStatus) {
               const taskDisplay = `┣ task **${label}** _${description}_`
-              await sendThreadMessage(thread, taskDisplay + '\n\n')
+              await thread.sendText(taskDisplay + '\n\n')
             }
             sentPartIds.add(part.id)
           }
@@ -1089,6 +1358,9 @@ export async function handleOpencodeSession({
       // Show large output notifications for tools that are visible in current verbosity mode
       if (part.type === 'tool' && part.state.status === 'completed') {
         const showLargeOutput = (() => {
+          if (liveStatus) {
+            return false
+          }
           const verbosity = getVerbosity()
           if (verbosity === 'text-only') {
             return false
@@ -1118,7 +1390,7 @@ export async function handleOpencodeSession({
               return ` (${pct.toFixed(1)}%)`
             })()
             const chunk = `⬦ ${part.tool} returned ${formattedTokens} tokens${percentageSuffix}`
-            await thread.send({ content: chunk, flags: SILENT_MESSAGE_FLAGS })
+            await thread.send({ content: chunk })
           }
         }
       }
@@ -1187,7 +1459,7 @@ export async function handleOpencodeSession({
         return
       }
       const sendResult = await errore.tryAsync(() => {
-        return sendThreadMessage(thread, content + '\n\n')
+        return thread.sendText(content + '\n\n')
       })
       if (sendResult instanceof Error) {
         discordLogger.error(
@@ -1214,8 +1486,26 @@ export async function handleOpencodeSession({
         return
       }
 
+      if (
+        part.type === 'tool' &&
+        (part.state.status === 'completed' || part.state.status === 'error') &&
+        !countedToolParts.has(part.id)
+      ) {
+        countedToolParts.add(part.id)
+        runTools[part.tool] = (runTools[part.tool] ?? 0) + 1
+        if (part.state.status === 'error') {
+          runToolErrors++
+        }
+      }
+
+      if (liveStatus) {
+        liveStatus.trackPart(part, subtaskInfo?.label)
+      }
+
       if (isSubtaskEvent && subtaskInfo) {
-        await handleSubtaskPart(part, subtaskInfo)
+        if (!liveStatus) {
+          await handleSubtaskPart(part, subtaskInfo)
+        }
         return
       }
 
@@ -1238,33 +1528,31 @@ export async function handleOpencodeSession({
 
       const errorMessage = error?.data?.message || 'Unknown error'
       sessionLogger.error(`Sending error to thread: ${errorMessage}`)
-
-      const retryButton = new ButtonBuilder()
-        .setCustomId(`retry_error:${thread.id}`)
-        .setLabel('Retry')
-        .setEmoji('🔄')
-        .setStyle(ButtonStyle.Primary)
-
-      const dismissButton = new ButtonBuilder()
-        .setCustomId(`dismiss_error:${thread.id}`)
-        .setLabel('Dismiss')
-        .setStyle(ButtonStyle.Secondary)
-
-      const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
-        retryButton,
-        dismissButton,
-      )
+      runErrorMessage = errorMessage
 
       await thread.send({
         content: `✗ opencode session error: ${errorMessage}`,
-        components: [row],
+        notify: true,
+        buttons: [
+          {
+            customId: `retry_error:${thread.id}`,
+            label: 'Retry',
+            emoji: '🔄',
+            style: 'primary',
+          },
+          {
+            customId: `dismiss_error:${thread.id}`,
+            label: 'Dismiss',
+            style: 'secondary',
+          },
+        ],
       })
 
       if (!originalMessage) {
         return
       }
       const reactionResult = await errore.tryAsync(async () => {
-        await originalMessage.reactions.removeAll()
+        await originalMessage.clearReactions()
         await originalMessage.react('❌')
       })
       if (reactionResult instanceof Error) {
@@ -1335,6 +1623,26 @@ export async function handleOpencodeSession({
         `Permission requested: permission=${permission.permission}, patterns=${permission.patterns.join(', ')}${subtaskLabel ? `, subtask=${subtaskLabel}` : ''}`,
       )
 
+      const policyDecision = getPolicyDecision({
+        channelId: verbosityChannelId,
+        permission,
+      })
+      if (policyDecision && policyDecision.action !== 'approvals') {
+        const policyResult = await replyWithPolicy({
+          thread,
+          permission,
+          directory,
+          decision: policyDecision,
+        })
+        if (!(policyResult instanceof Error)) {
+          return
+        }
+        sessionLogger.error(
+          `[PERMISSION] Policy #${policyDecision.policy.id} could not answer ${permission.id}, asking in the thread:`,
+          policyResult,
+        )
+      }
+
       if (stopTyping) {
         stopTyping()
         stopTyping = null
@@ -1344,12 +1652,29 @@ export async function handleOpencodeSession({
         stopProgress = null
       }
 
+      const timeoutSettings = getChannelPermissionTimeouts(verbosityChannelId)
       const { messageId, contextHash } = await showPermissionDropdown({
         thread,
         permission,
         directory,
         subtaskLabel,
+        requiredApprovals:
+          policyDecision?.action === 'approvals'
+            ? policyDecision.approvals
+            : undefined,
+        policyId: policyDecision?.policy.id,
+        rejectAt: timeoutSettings
+          ? Date.now() + timeoutSettings.rejectMinutes * 60_000
+          : undefined,
       })
+      if (timeoutSettings) {
+        schedulePermissionTimeouts({
+          contextHash,
+          settings: timeoutSettings,
+          channelId: verbosityChannelId,
+          requester: promptUser,
+        })
+      }
 
       if (!pendingPermissions.has(thread.id)) {
         pendingPermissions.set(thread.id, new Map())
@@ -1430,22 +1755,16 @@ export async function handleOpencodeSession({
         input: { questions: questionRequest.questions },
       })
 
-      const queue = messageQueue.get(thread.id)
-      if (!queue || queue.length === 0) {
+      const nextMessage = shiftQueue(thread.id)
+      if (!nextMessage) {
         return
       }
 
-      const nextMessage = queue.shift()!
-      if (queue.length === 0) {
-        messageQueue.delete(thread.id)
-      }
-
       sessionLogger.log(
         `[QUEUE] Question shown but queue has messages, processing from ${nextMessage.username}`,
       )
 
-      await sendThreadMessage(
-        thread,
+      await thread.sendText(
         `» **${nextMessage.username}:** ${nextMessage.prompt.slice(0, 150)}${nextMessage.prompt.length > 150 ? '...' : ''}`,
       )
 
@@ -1459,6 +1778,7 @@ export async function handleOpencodeSession({
               projectDirectory: directory,
               images: nextMessage.images,
               channelId,
+              user: { id: nextMessage.userId, username: nextMessage.username },
             })
           })
           .then(async (result) => {
@@ -1469,8 +1789,7 @@ export async function handleOpencodeSession({
               `[QUEUE] Failed to process queued message:`,
               result,
             )
-            await sendThreadMessage(
-              thread,
+            await thread.sendText(
               `✗ Queued message failed: ${result.message.slice(0, 200)}`,
             )
           })
@@ -1511,7 +1830,7 @@ export async function handleOpencodeSession({
       })()
 
       const chunk = `⬦ ${message} - retrying in ${duration} (attempt #${attempt})`
-      await thread.send({ content: chunk, flags: SILENT_MESSAGE_FLAGS })
+      await thread.send({ content: chunk })
     }
 
     const handleSessionIdle = (idleSessionId: string) => {
@@ -1610,6 +1929,33 @@ export async function handleOpencodeSession({
       }
 
       const abortReason = (abortController.signal.reason as Error)?.message
+      const completed =
+        !abortController.signal.aborted || abortReason === 'finished'
+      const runStatus =
+        runErrorMessage || abortReason === 'error'
+          ? 'error'
+          : completed
+            ? 'completed'
+            : 'aborted'
+      if (liveStatus) {
+        await liveStatus.finish(runStatus)
+      }
+      if (runId !== undefined) {
+        try {
+          finishSessionRun({
+            id: runId,
+            status: runStatus,
+            modelId: usedModel,
+            providerId: usedProviderID,
+            agent: usedAgent,
+            tools: runTools,
+            toolErrors: runToolErrors,
+            errorMessage: runErrorMessage,
+          })
+        } catch (error) {
+          sessionLogger.error('Failed to finish session run:', error)
+        }
+      }
       if (!abortController.signal.aborted || abortReason === 'finished') {
         const sessionDuration = prettyMilliseconds(
           Date.now() - sessionStartTime,
@@ -1671,10 +2017,9 @@ export async function handleOpencodeSession({
           )
         }
 
-        await sendThreadMessage(
-          thread,
+        await thread.sendText(
           `_Completed in ${sessionDuration}${contextInfo}_${attachCommand}${modelInfo}${agentInfo}`,
-          { flags: NOTIFY_MESSAGE_FLAGS },
+          { notify: true },
         )
         sessionLogger.log(
           `DURATION: Session completed in ${sessionDuration}, port ${port}, model ${usedModel}, tokens ${tokensUsedInSession}`,
@@ -1692,21 +2037,36 @@ export async function handleOpencodeSession({
           })
         }
 
-        // Process queued messages after completion
-        const queue = messageQueue.get(thread.id)
-        if (queue && queue.length > 0) {
-          const nextMessage = queue.shift()!
-          if (queue.length === 0) {
-            messageQueue.delete(thread.id)
-          }
+        const summaryChannelId = channelId || thread.parentId || thread.id
+        if (channelConfig?.appId && getChannelVoiceSummary(summaryChannelId)) {
+          const sessionParts = [...partBuffer.values()]
+            .flatMap((messageParts) => [...messageParts.values()])
+            .filter((part) => part.sessionID === session.id)
+          // Speaking takes a while, don't hold up the queue
+          void import('./voice-summary.js')
+            .then(({ speakSessionSummary }) => {
+              return speakSessionSummary({
+                appId: channelConfig.appId!,
+                channelId: summaryChannelId,
+                directory,
+                parts: sessionParts,
+                failed: runStatus === 'error',
+              })
+            })
+            .catch((error) => {
+              sessionLogger.error('Failed to speak session summary:', error)
+            })
+        }
 
+        // Process queued messages after completion
+        const nextMessage = shiftQueue(thread.id)
+        if (nextMessage) {
           sessionLogger.log(
             `[QUEUE] Processing queued message from ${nextMessage.username}`,
           )
 
           // Show that queued message is being sent
-          await sendThreadMessage(
-            thread,
+          await thread.sendText(
             `» **${nextMessage.username}:** ${nextMessage.prompt.slice(0, 150)}${nextMessage.prompt.length > 150 ? '...' : ''}`,
           )
 
@@ -1720,14 +2080,14 @@ export async function handleOpencodeSession({
               projectDirectory,
               images: nextMessage.images,
               channelId,
+              user: { id: nextMessage.userId, username: nextMessage.username },
             }).catch(async (e) => {
               sessionLogger.error(
                 `[QUEUE] Failed to process queued message:`,
                 e,
               )
               const errorMsg = e instanceof Error ? e.message : String(e)
-              await sendThreadMessage(
-                thread,
+              await thread.sendText(
                 `✗ Queued message failed: ${errorMsg.slice(0, 200)}`,
               )
             })
@@ -1745,7 +2105,10 @@ export async function handleOpencodeSession({
     | Error
     | { sessionID: string; result: any; port?: number }
     | undefined = await errore.tryAsync(async () => {
+    // The pool must not evict the server while its events are streamed
+    const releaseServer = retainOpencodeServer(directory)
     const newHandlerPromise = eventHandler().finally(() => {
+      releaseServer()
       if (activeEventHandlers.get(thread.id) === newHandlerPromise) {
         activeEventHandlers.delete(thread.id)
       }
@@ -1759,7 +2122,9 @@ export async function handleOpencodeSession({
     }
 
     stopTyping = startTyping()
-    stopProgress = startProgressTimer()
+    if (!liveStatus) {
+      stopProgress = startProgressTimer()
+    }
 
     voiceLogger.log(
       `[PROMPT] Sending prompt to session ${session.id}: "${prompt.slice(0, 100)}${prompt.length > 100 ? '...' : ''}"`,
@@ -1945,7 +2310,7 @@ export async function handleOpencodeSession({
 
     if (originalMessage) {
       const reactionResult = await errore.tryAsync(async () => {
-        await originalMessage.reactions.removeAll()
+        await originalMessage.clearReactions()
         await originalMessage.react('✅')
       })
       if (reactionResult instanceof Error) {
@@ -1979,11 +2344,12 @@ export async function handleOpencodeSession({
   sessionLogger.log(
     `[ABORT] reason=error sessionId=${session.id} threadId=${thread.id} - prompt failed with error: ${(promptError as Error).message}`,
   )
+  runErrorMessage = (promptError as Error).message
   abortController.abort(new Error('error'))
 
   if (originalMessage) {
     const reactionResult = await errore.tryAsync(async () => {
-      await originalMessage.reactions.removeAll()
+      await originalMessage.clearReactions()
       await originalMessage.react('❌')
     })
     if (reactionResult instanceof Error) {
@@ -1998,7 +2364,7 @@ export async function handleOpencodeSession({
     const message = promptErrorValue.stack || promptErrorValue.message
     return `[${name}]\n${message}`
   })()
-  await sendThreadMessage(thread, `✗ Unexpected bot Error: ${errorDisplay}`)
+  await thread.sendText(`✗ Unexpected bot Error: ${errorDisplay}`)
 }
 
 async function sendHubNotification({
@@ -2010,7 +2376,7 @@ async function sendHubNotification({
   modelInfo,
 }: {
   appId: string
-  thread: ThreadChannel
+  thread: PlatformThread
   directory: string
   sessionDuration: string
   contextInfo: string
@@ -2022,17 +2388,11 @@ async function sendHubNotification({
       return
     }
 
-    const hubChannel = await thread.client.channels.fetch(settings.hub_channel_id)
-    if (!hubChannel?.isTextBased() || !('send' in hubChannel)) {
-      return
-    }
-
     const projectName = directory.split('/').pop() || directory
-    const threadUrl = `https://discord.com/channels/${thread.guildId}/${thread.id}`
 
-    await hubChannel.send({
-      content: `✅ **${projectName}** completed\n⏱ ${sessionDuration}${contextInfo}${modelInfo}\n🧵 [${thread.name}](${threadUrl})`,
-      flags: NOTIFY_MESSAGE_FLAGS,
+    await thread.platform.sendToChannel(settings.hub_channel_id, {
+      content: `✅ **${projectName}** completed\n⏱ ${sessionDuration}${contextInfo}${modelInfo}\n🧵 [${thread.name}](${thread.url})`,
+      notify: true,
     })
   })
 
@@ -0,0 +1,105 @@
+import { describe, expect, test } from 'vitest'
+import type { ExportedMessage, ExportedSession } from './session-export.js'
+import {
+  buildImportSeed,
+  formatImportReplay,
+  parseSessionExport,
+  selectImportSession,
+} from './session-import.js'
+
+function message(
+  role: 'user' | 'assistant',
+  text: string,
+  tools: string[] = [],
+): ExportedMessage {
+  return {
+    info: { id: `msg_${text}`, role, time: { created: 0 } },
+    parts: [
+      { id: 'prt_text', type: 'text', text },
+      ...tools.map((tool) => {
+        return {
+          id: `prt_${tool}`,
+          type: 'tool',
+          tool,
+          state: { status: 'completed', input: {}, output: '', title: `${tool} title` },
+        }
+      }),
+    ],
+  } as ExportedMessage
+}
+
+function session(sessionId: string, messages: ExportedMessage[]): ExportedSession {
+  return { sessionId, threadId: null, directory: '/repos/app', messages }
+}
+
+describe('parseSessionExport', () => {
+  test('accepts JSON exports and rejects other files', () => {
+    const exported = session('ses_a', [message('user', 'hi')])
+    const sessions = parseSessionExport(
+      JSON.stringify({ version: 1, exportedAt: '', range: {}, sessions: [exported] }),
+    )
+    expect(sessions).toEqual([exported])
+    expect(parseSessionExport('# Session Export')).toBeInstanceOf(Error)
+    expect(parseSessionExport('{"version":2,"sessions":[]}')).toBeInstanceOf(Error)
+    expect(
+      parseSessionExport('{"version":1,"sessions":[{"sessionId":"x","messages":[{}]}]}'),
+    ).toBeInstanceOf(Error)
+  })
+
+  test('rejects parts the formatters cannot read', () => {
+    const withParts = (parts: unknown[]) => {
+      return JSON.stringify({
+        version: 1,
+        sessions: [
+          { sessionId: 'x', messages: [{ info: { role: 'assistant' }, parts }] },
+        ],
+      })
+    }
+    expect(parseSessionExport(withParts([{ type: 'tool', tool: 'bash' }]))).toBeInstanceOf(Error)
+    expect(parseSessionExport(withParts([{ type: 'text' }]))).toBeInstanceOf(Error)
+    expect(parseSessionExport(withParts([null]))).toBeInstanceOf(Error)
+    expect(
+      parseSessionExport(withParts([{ type: 'step-start' }, { type: 'text', text: 'ok' }])),
+    ).not.toBeInstanceOf(Error)
+  })
+})
+
+describe('selectImportSession', () => {
+  test('needs an ID prefix when the export has several sessions', () => {
+    const sessions = [session('ses_abc', []), session('ses_abd', [])]
+    expect(selectImportSession({ sessions })).toBeInstanceOf(Error)
+    expect(selectImportSession({ sessions, sessionId: 'ses_ab' })).toBeInstanceOf(Error)
+    expect(selectImportSession({ sessions, sessionId: 'ses_abd' })).toBe(sessions[1])
+  })
+})
+
+describe('buildImportSeed', () => {
+  test('summarizes the conversation with one line per tool call', () => {
+    const seed = buildImportSeed(
+      session('ses_a', [
+        message('user', 'Rename a to b'),
+        message('assistant', 'Done.', ['edit']),
+      ]),
+    )
+    expect(seed).toContain('imported from an earlier session (ses_a')
+    expect(seed).toContain('User:\nRename a to b\n\nAssistant:\nDone.\n[tool edit edit title: completed]')
+  })
+})
+
+describe('formatImportReplay', () => {
+  test('packs truncated messages into Discord sized chunks', () => {
+    const long = 'x'.repeat(1000)
+    const chunks = formatImportReplay(
+      session(
+        'ses_a',
+        Array.from({ length: 8 }, (_, index) => {
+          return message(index % 2 === 0 ? 'user' : 'assistant', long, ['bash'])
+        }),
+      ),
+    )
+    expect(chunks.every((chunk) => chunk.length <= 2000)).toBe(true)
+    expect(chunks[0]).toContain(`👤 ${'x'.repeat(400)}…`)
+    expect(chunks[0]).toContain('-# 🔧 bash')
+    expect(chunks.length).toBe(2)
+  })
+})
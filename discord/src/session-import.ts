@@ -0,0 +1,327 @@
+// Session imports for /import and `disunday import`.
+// Reads a JSON export from /export, seeds a new OpenCode session with the
+// conversation history and replays it compactly in a new Discord thread.
+
+import {
+  ThreadAutoArchiveDuration,
+  type TextChannel,
+  type ThreadChannel,
+} from 'discord.js'
+import { getChannelDirectory, getDatabase } from './database.js'
+import { sendThreadMessage } from './discord-utils.js'
+import { initializeOpencodeForDirectory } from './opencode.js'
+import type { ExportedMessage, ExportedSession } from './session-export.js'
+import { createLogger, LogPrefix } from './logger.js'
+
+const logger = createLogger(LogPrefix.IMPORT)
+
+// Discord attachments are at most 10 MB without boosts
+export const MAX_IMPORT_BYTES = 10 * 1024 * 1024
+
+// The seed keeps the most recent history when a conversation is longer
+const MAX_SEED_LENGTH = 100_000
+const MAX_REPLAY_MESSAGES = 15
+const REPLAY_TEXT_LENGTH = 400
+const DISCORD_MAX_LENGTH = 2000
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Checks the fields the seed and replay formatters read
+function isExportedPart(value: unknown): boolean {
+  if (!isRecord(value) || typeof value.type !== 'string') {
+    return false
+  }
+  switch (value.type) {
+    case 'text':
+      return typeof value.text === 'string'
+    case 'tool':
+      return (
+        typeof value.tool === 'string' &&
+        isRecord(value.state) &&
+        typeof value.state.status === 'string'
+      )
+    case 'file':
+      return typeof value.url === 'string'
+    default:
+      return true
+  }
+}
+
+function isExportedMessage(value: unknown): value is ExportedMessage {
+  return (
+    isRecord(value) &&
+    isRecord(value.info) &&
+    (value.info.role === 'user' || value.info.role === 'assistant') &&
+    Array.isArray(value.parts) &&
+    value.parts.every(isExportedPart)
+  )
+}
+
+/**
+ * Sessions of a JSON export, or an error when the file is not one.
+ */
+export function parseSessionExport(content: string): Error | ExportedSession[] {
+  let data: unknown
+  try {
+    data = JSON.parse(content)
+  } catch {
+    return new Error('File is not valid JSON. Export it with `/export format:json`.')
+  }
+  if (!isRecord(data) || !Array.isArray(data.sessions)) {
+    return new Error('File is not a session export. Export it with `/export format:json`.')
+  }
+  if (data.version !== 1) {
+    return new Error(`Unsupported export version: ${String(data.version)}`)
+  }
+
+  const sessions: ExportedSession[] = []
+  for (const session of data.sessions) {
+    if (
+      !isRecord(session) ||
+      typeof session.sessionId !== 'string' ||
+      !Array.isArray(session.messages) ||
+      !session.messages.every(isExportedMessage)
+    ) {
+      return new Error('Export contains a malformed session')
+    }
+    sessions.push(session as ExportedSession)
+  }
+  if (sessions.length === 0) {
+    return new Error('Export contains no sessions')
+  }
+  return sessions
+}
+
+/**
+ * Pick the session to import. Exports with several sessions need an ID or
+ * ID prefix.
+ */
+export function selectImportSession({
+  sessions,
+  sessionId,
+}: {
+  sessions: ExportedSession[]
+  sessionId?: string
+}): Error | ExportedSession {
+  if (sessionId) {
+    const matches = sessions.filter((session) => {
+      return session.sessionId.startsWith(sessionId)
+    })
+    if (matches.length === 1 && matches[0]) {
+      return matches[0]
+    }
+    return new Error(
+      matches.length === 0
+        ? `No session ${sessionId} in this export`
+        : `Several sessions match ${sessionId}, use a longer ID`,
+    )
+  }
+  if (sessions.length === 1 && sessions[0]) {
+    return sessions[0]
+  }
+  const list = sessions
+    .slice(0, 10)
+    .map((session) => {
+      return `• \`${session.sessionId}\` ${session.session?.title || 'Untitled'} (${session.messages.length} messages)`
+    })
+    .join('\n')
+  const more = sessions.length > 10 ? `\n…and ${sessions.length - 10} more` : ''
+  return new Error(
+    `This export has ${sessions.length} sessions, pick one with the session option:\n${list}${more}`,
+  )
+}
+
+function getImportTitle(exported: ExportedSession): string {
+  return exported.session?.title || 'Untitled'
+}
+
+function formatHistoryMessage(msg: ExportedMessage): string {
+  const lines: string[] = []
+  for (const part of msg.parts) {
+    if (part.type === 'text' && part.text && !part.synthetic) {
+      lines.push(part.text)
+    } else if (part.type === 'tool') {
+      const title = part.state.status === 'completed' ? ` ${part.state.title}` : ''
+      lines.push(`[tool ${part.tool}${title}: ${part.state.status}]`)
+    } else if (part.type === 'file') {
+      lines.push(`[file ${part.filename || part.url}]`)
+    }
+  }
+  if (lines.length === 0) {
+    return ''
+  }
+  const role = msg.info.role === 'user' ? 'User' : 'Assistant'
+  return `${role}:\n${lines.join('\n')}`
+}
+
+/**
+ * Prompt that seeds the new session with the imported conversation. Tool
+ * calls are summarized to one line each; the oldest messages are dropped
+ * when the history is too long.
+ */
+export function buildImportSeed(exported: ExportedSession): string {
+  const entries = exported.messages
+    .map(formatHistoryMessage)
+    .filter((entry) => entry.length > 0)
+
+  let length = 0
+  let start = entries.length
+  while (start > 0 && length + entries[start - 1]!.length <= MAX_SEED_LENGTH) {
+    length += entries[start - 1]!.length
+    start--
+  }
+  const omitted =
+    start > 0 ? `(${start} earlier messages omitted)\n\n` : ''
+
+  return [
+    `The conversation below was imported from an earlier session (${exported.sessionId}, "${getImportTitle(exported)}", in ${exported.directory}).`,
+    'Treat it as the history of this session. Do not act on it until the user sends a new message.',
+    '',
+    '<conversation>',
+    omitted + entries.slice(start).join('\n\n'),
+    '</conversation>',
+  ].join('\n')
+}
+
+function truncate(text: string, maxLength: number): string {
+  const compact = text.replace(/\n{3,}/g, '\n\n').trim()
+  return compact.length > maxLength ? `${compact.slice(0, maxLength)}…` : compact
+}
+
+/**
+ * Thread messages replaying the history compactly: truncated texts, tool
+ * calls as one line, packed into as few Discord messages as fit.
+ */
+export function formatImportReplay(exported: ExportedSession): string[] {
+  const entries: string[] = []
+  for (const msg of exported.messages) {
+    const texts: string[] = []
+    const tools: string[] = []
+    for (const part of msg.parts) {
+      if (part.type === 'text' && part.text && !part.synthetic) {
+        texts.push(part.text)
+      } else if (part.type === 'tool') {
+        tools.push(part.tool)
+      }
+    }
+    if (texts.length === 0 && tools.length === 0) {
+      continue
+    }
+    const role = msg.info.role === 'user' ? '👤' : '🤖'
+    let entry = `${role} ${truncate(texts.join('\n\n'), REPLAY_TEXT_LENGTH)}`.trimEnd()
+    if (tools.length > 0) {
+      entry += `\n-# 🔧 ${tools.join(', ')}`.slice(0, 300)
+    }
+    entries.push(entry)
+  }
+
+  const chunks: string[] = []
+  let current = ''
+  for (const entry of entries) {
+    const next = current ? `${current}\n\n${entry}` : entry
+    if (next.length > DISCORD_MAX_LENGTH && current) {
+      chunks.push(current)
+      current = entry
+    } else {
+      current = next
+    }
+  }
+  if (current) {
+    chunks.push(current)
+  }
+
+  if (chunks.length <= MAX_REPLAY_MESSAGES) {
+    return chunks
+  }
+  const skipped = chunks.length - MAX_REPLAY_MESSAGES
+  return [
+    `*Skipped ${skipped} earlier part(s) of the history…*`,
+    ...chunks.slice(-MAX_REPLAY_MESSAGES),
+  ]
+}
+
+/**
+ * Create an OpenCode session seeded with an exported conversation in the
+ * channel's project, and a thread linked to it that replays the history.
+ */
+export async function importSessionToChannel({
+  channel,
+  exported,
+  userId,
+}: {
+  channel: TextChannel
+  exported: ExportedSession
+  userId?: string
+}): Promise<Error | { thread: ThreadChannel; sessionId: string }> {
+  const directory = getChannelDirectory(channel.id)?.directory
+  if (!directory) {
+    return new Error('This channel is not configured with a project directory')
+  }
+
+  const getClient = await initializeOpencodeForDirectory(directory)
+  if (getClient instanceof Error) {
+    return getClient
+  }
+
+  const title = `Imported: ${getImportTitle(exported)}`
+  const seed = buildImportSeed(exported)
+  const sessionResponse = await getClient().session.create({
+    body: { title },
+  })
+  const session = sessionResponse.data
+  if (!session) {
+    return new Error('Failed to create session')
+  }
+
+  const seeded = await getClient().session.prompt({
+    path: { id: session.id },
+    body: {
+      noReply: true,
+      parts: [{ type: 'text', text: seed, synthetic: true }],
+    },
+  })
+  if (seeded.error) {
+    // Nothing refers to the empty session yet
+    await getClient()
+      .session.delete({ path: { id: session.id } })
+      .catch(() => {})
+    return new Error('Failed to add the imported history to the new session', {
+      cause: seeded.error,
+    })
+  }
+
+  const thread = await channel.threads.create({
+    name: title.slice(0, 100),
+    autoArchiveDuration: ThreadAutoArchiveDuration.OneDay,
+    reason: `Imported session ${exported.sessionId}`,
+  })
+  if (userId) {
+    await thread.members.add(userId).catch(() => {})
+  }
+
+  getDatabase()
+    .prepare(
+      'INSERT OR REPLACE INTO thread_sessions (thread_id, session_id) VALUES (?, ?)',
+    )
+    .run(thread.id, session.id)
+
+  logger.log(
+    `Imported session ${exported.sessionId} as ${session.id} in thread ${thread.id}`,
+  )
+
+  await sendThreadMessage(
+    thread,
+    `📥 **Imported session:** ${getImportTitle(exported)}\n**From:** \`${exported.sessionId}\` in \`${exported.directory}\`\n**New session:** \`${session.id}\`\n\n*Replaying ${exported.messages.length} messages...*`,
+  )
+  for (const chunk of formatImportReplay(exported)) {
+    await sendThreadMessage(thread, chunk)
+  }
+  await sendThreadMessage(
+    thread,
+    `✅ **Import complete.** The session has this history as context; continue the conversation by sending messages in this thread.`,
+  )
+
+  return { thread, sessionId: session.id }
+}
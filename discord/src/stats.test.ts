@@ -0,0 +1,176 @@
+import { describe, expect, test } from 'vitest'
+import { buildStatsReport, renderBarChart } from './stats.js'
+import type { SessionRun, UsageRecord } from './database.js'
+
+function run(overrides: Partial<SessionRun>): SessionRun {
+  return {
+    id: 1,
+    session_id: 'ses_1',
+    thread_id: 't1',
+    channel_id: 'c1',
+    project_directory: '/repos/app',
+    user_id: 'u1',
+    username: 'alice',
+    new_session: 1,
+    status: 'completed',
+    model_id: 'claude',
+    provider_id: 'anthropic',
+    agent: 'build',
+    tool_calls: 0,
+    tool_errors: 0,
+    tools: null,
+    error_message: null,
+    started_at: new Date(2025, 0, 2, 10).getTime(),
+    ended_at: new Date(2025, 0, 2, 10, 1).getTime(),
+    ...overrides,
+  }
+}
+
+function usage(overrides: Partial<UsageRecord>): UsageRecord {
+  return {
+    message_id: 'msg_1',
+    session_id: 'ses_1',
+    thread_id: 't1',
+    channel_id: 'c1',
+    user_id: 'u1',
+    username: 'alice',
+    provider_id: 'anthropic',
+    model_id: 'claude',
+    input_tokens: 100,
+    output_tokens: 50,
+    reasoning_tokens: 0,
+    cache_read_tokens: 0,
+    cache_write_tokens: 0,
+    cost: 0.5,
+    day: '2025-01-02',
+    created_at: new Date(2025, 0, 2, 10).getTime(),
+    ...overrides,
+  }
+}
+
+describe('buildStatsReport', () => {
+  const runs = [
+    run({
+      tool_calls: 3,
+      tool_errors: 1,
+      tools: JSON.stringify({ bash: 2, edit: 1 }),
+    }),
+    run({
+      id: 2,
+      new_session: 0,
+      status: 'error',
+      tools: JSON.stringify({ bash: 1 }),
+      tool_calls: 1,
+    }),
+    run({
+      id: 3,
+      channel_id: 'c2',
+      project_directory: '/repos/api',
+      user_id: 'u2',
+      username: 'bob',
+      agent: 'plan',
+      status: 'aborted',
+      started_at: new Date(2025, 0, 3, 9).getTime(),
+      ended_at: new Date(2025, 0, 3, 9, 0, 30).getTime(),
+    }),
+  ]
+  const records = [
+    usage({}),
+    usage({ message_id: 'msg_2', cost: 1.5, model_id: 'gpt' }),
+    usage({
+      message_id: 'msg_3',
+      channel_id: 'c2',
+      user_id: 'u2',
+      username: 'bob',
+      day: '2025-01-03',
+    }),
+  ]
+  const projectForChannel = (channelId: string | null) => {
+    return channelId === 'c2' ? 'api' : 'app'
+  }
+
+  test('computes totals, error rate inputs and rankings', () => {
+    const report = buildStatsReport({
+      runs,
+      usage: records,
+      groupBy: 'project',
+      window: 'all',
+      projectForChannel,
+    })
+    expect(report.totals).toMatchObject({
+      runs: 3,
+      sessionsStarted: 2,
+      users: 2,
+      finishedRuns: 3,
+      errors: 1,
+      aborted: 1,
+      toolCalls: 4,
+      toolErrors: 1,
+      tokens: 450,
+      cost: 2.5,
+      durationMs: 150_000,
+    })
+    expect(report.models.map((model) => model.name)).toEqual(['claude', 'gpt'])
+    expect(report.agents).toEqual([
+      { name: 'build', runs: 2 },
+      { name: 'plan', runs: 1 },
+    ])
+    expect(report.tools).toEqual([
+      { name: 'bash', calls: 3 },
+      { name: 'edit', calls: 1 },
+    ])
+    expect(
+      report.groups.map((group) => {
+        return [group.key, group.runs, group.cost]
+      }),
+    ).toEqual([
+      ['app', 2, 2],
+      ['api', 1, 0.5],
+    ])
+  })
+
+  test('groups by user and by day', () => {
+    const byUser = buildStatsReport({
+      runs,
+      usage: records,
+      groupBy: 'user',
+      window: 'all',
+      projectForChannel,
+    })
+    expect(byUser.groups.map((group) => group.key)).toEqual(['alice', 'bob'])
+
+    const byDay = buildStatsReport({
+      runs,
+      usage: records,
+      groupBy: 'day',
+      window: 'all',
+      projectForChannel,
+    })
+    expect(
+      byDay.groups.map((group) => {
+        return [group.key, group.runs, group.tokens]
+      }),
+    ).toEqual([
+      ['2025-01-02', 2, 300],
+      ['2025-01-03', 1, 150],
+    ])
+  })
+})
+
+describe('renderBarChart', () => {
+  test('scales bars to the largest value', () => {
+    expect(
+      renderBarChart({
+        entries: [
+          { label: 'app', value: 4 },
+          { label: 'api', value: 1 },
+        ],
+        width: 8,
+      }),
+    ).toMatchInlineSnapshot(`
+      "app ████████ 4
+      api ██░░░░░░ 1"
+    `)
+    expect(renderBarChart({ entries: [] })).toBe('(no data)')
+  })
+})
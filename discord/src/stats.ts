@@ -0,0 +1,398 @@
+// Usage statistics across projects, users and time windows.
+// Aggregates session runs (one per prompt) and per-message usage records
+// into a report rendered by /stats and `disunday stats` with text charts.
+
+import path from 'node:path'
+import {
+  getChannelDirectory,
+  getSessionRuns,
+  getUsageRecords,
+  type SessionRun,
+  type UsageRecord,
+} from './database.js'
+import { getUsageDay } from './usage.js'
+
+export type StatsGroupBy = 'project' | 'user' | 'day'
+
+export const STATS_WINDOWS = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+  all: undefined,
+} as const
+
+export type StatsWindow = keyof typeof STATS_WINDOWS
+
+export function isStatsWindow(value: string): value is StatsWindow {
+  return value in STATS_WINDOWS
+}
+
+export type StatsGroup = {
+  key: string
+  runs: number
+  sessionsStarted: number
+  durationMs: number
+  tokens: number
+  cost: number
+  errors: number
+  toolCalls: number
+}
+
+export type StatsReport = {
+  window: StatsWindow
+  groupBy: StatsGroupBy
+  since?: number
+  totals: StatsGroup & {
+    users: number
+    finishedRuns: number
+    aborted: number
+    toolErrors: number
+  }
+  groups: StatsGroup[]
+  // Sorted descending by count
+  models: { name: string; responses: number; cost: number }[]
+  agents: { name: string; runs: number }[]
+  tools: { name: string; calls: number }[]
+}
+
+function emptyGroup(key: string): StatsGroup {
+  return {
+    key,
+    runs: 0,
+    sessionsStarted: 0,
+    durationMs: 0,
+    tokens: 0,
+    cost: 0,
+    errors: 0,
+    toolCalls: 0,
+  }
+}
+
+function usageTokens(record: UsageRecord): number {
+  return (
+    record.input_tokens +
+    record.output_tokens +
+    record.reasoning_tokens +
+    record.cache_read_tokens +
+    record.cache_write_tokens
+  )
+}
+
+function parseTools(run: SessionRun): Record<string, number> {
+  if (!run.tools) {
+    return {}
+  }
+  try {
+    return JSON.parse(run.tools) as Record<string, number>
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Aggregate runs and usage records into a report. Pure so it can be tested
+ * without a database; `projectForChannel` maps channel IDs to project names.
+ */
+export function buildStatsReport({
+  runs,
+  usage,
+  groupBy,
+  window,
+  since,
+  projectForChannel,
+}: {
+  runs: SessionRun[]
+  usage: UsageRecord[]
+  groupBy: StatsGroupBy
+  window: StatsWindow
+  since?: number
+  projectForChannel: (channelId: string | null) => string
+}): StatsReport {
+  const groups = new Map<string, StatsGroup>()
+  const getGroup = (key: string) => {
+    const existing = groups.get(key)
+    if (existing) {
+      return existing
+    }
+    const group = emptyGroup(key)
+    groups.set(key, group)
+    return group
+  }
+
+  const runGroupKey = (run: SessionRun) => {
+    if (groupBy === 'user') {
+      return run.username || run.user_id || 'unknown'
+    }
+    if (groupBy === 'day') {
+      return getUsageDay(run.started_at)
+    }
+    return path.basename(run.project_directory)
+  }
+  const usageGroupKey = (record: UsageRecord) => {
+    if (groupBy === 'user') {
+      return record.username || record.user_id || 'unknown'
+    }
+    if (groupBy === 'day') {
+      return record.day
+    }
+    return projectForChannel(record.channel_id)
+  }
+
+  const totals = {
+    ...emptyGroup('total'),
+    users: 0,
+    finishedRuns: 0,
+    aborted: 0,
+    toolErrors: 0,
+  }
+  const users = new Set<string>()
+  const agentCounts = new Map<string, number>()
+  const toolCounts = new Map<string, number>()
+
+  for (const run of runs) {
+    const group = getGroup(runGroupKey(run))
+    const durationMs = run.ended_at ? run.ended_at - run.started_at : 0
+    const isError = run.status === 'error' ? 1 : 0
+
+    group.runs++
+    group.sessionsStarted += run.new_session
+    group.durationMs += durationMs
+    group.errors += isError
+    group.toolCalls += run.tool_calls
+
+    totals.runs++
+    totals.sessionsStarted += run.new_session
+    totals.durationMs += durationMs
+    totals.errors += isError
+    totals.toolCalls += run.tool_calls
+    totals.toolErrors += run.tool_errors
+    if (run.status !== 'running') {
+      totals.finishedRuns++
+    }
+    if (run.status === 'aborted') {
+      totals.aborted++
+    }
+    if (run.user_id) {
+      users.add(run.user_id)
+    }
+    if (run.agent) {
+      agentCounts.set(run.agent, (agentCounts.get(run.agent) ?? 0) + 1)
+    }
+    for (const [tool, count] of Object.entries(parseTools(run))) {
+      toolCounts.set(tool, (toolCounts.get(tool) ?? 0) + count)
+    }
+  }
+
+  const modelStats = new Map<string, { responses: number; cost: number }>()
+  for (const record of usage) {
+    const group = getGroup(usageGroupKey(record))
+    const tokens = usageTokens(record)
+    group.tokens += tokens
+    group.cost += record.cost
+    totals.tokens += tokens
+    totals.cost += record.cost
+    if (record.user_id) {
+      users.add(record.user_id)
+    }
+
+    const model = record.model_id || 'unknown'
+    const modelEntry = modelStats.get(model) ?? { responses: 0, cost: 0 }
+    modelEntry.responses++
+    modelEntry.cost += record.cost
+    modelStats.set(model, modelEntry)
+  }
+  totals.users = users.size
+
+  const sortedGroups = [...groups.values()].sort((a, b) => {
+    if (groupBy === 'day') {
+      return a.key.localeCompare(b.key)
+    }
+    return b.runs - a.runs || b.cost - a.cost
+  })
+
+  return {
+    window,
+    groupBy,
+    since,
+    totals,
+    groups: sortedGroups,
+    models: [...modelStats.entries()]
+      .map(([name, entry]) => {
+        return { name, ...entry }
+      })
+      .sort((a, b) => {
+        return b.responses - a.responses
+      }),
+    agents: [...agentCounts.entries()]
+      .map(([name, runs]) => {
+        return { name, runs }
+      })
+      .sort((a, b) => {
+        return b.runs - a.runs
+      }),
+    tools: [...toolCounts.entries()]
+      .map(([name, calls]) => {
+        return { name, calls }
+      })
+      .sort((a, b) => {
+        return b.calls - a.calls
+      }),
+  }
+}
+
+/**
+ * Load runs and usage for a time window from the database and aggregate them.
+ */
+export function getStatsReport({
+  window,
+  groupBy,
+  now = Date.now(),
+}: {
+  window: StatsWindow
+  groupBy: StatsGroupBy
+  now?: number
+}): StatsReport {
+  const windowMs = STATS_WINDOWS[window]
+  const since = windowMs ? now - windowMs : undefined
+  const runs = getSessionRuns({ since })
+  const usage = getUsageRecords({ since })
+
+  const channelProjects = new Map<string, string>()
+  for (const run of runs) {
+    if (run.channel_id) {
+      channelProjects.set(run.channel_id, path.basename(run.project_directory))
+    }
+  }
+
+  return buildStatsReport({
+    runs,
+    usage,
+    groupBy,
+    window,
+    since,
+    projectForChannel: (channelId) => {
+      if (!channelId) {
+        return 'unknown'
+      }
+      const known = channelProjects.get(channelId)
+      if (known) {
+        return known
+      }
+      const directory = getChannelDirectory(channelId)?.directory
+      const project = directory ? path.basename(directory) : 'unknown'
+      channelProjects.set(channelId, project)
+      return project
+    },
+  })
+}
+
+/**
+ * Render a horizontal bar chart as monospace text lines.
+ */
+export function renderBarChart({
+  entries,
+  width = 16,
+  formatValue = String,
+}: {
+  entries: { label: string; value: number }[]
+  width?: number
+  formatValue?: (value: number) => string
+}): string {
+  if (entries.length === 0) {
+    return '(no data)'
+  }
+  const max = Math.max(...entries.map((entry) => entry.value))
+  const labelWidth = Math.min(
+    Math.max(...entries.map((entry) => entry.label.length)),
+    18,
+  )
+  return entries
+    .map((entry) => {
+      const filled = max > 0 ? Math.round((entry.value / max) * width) : 0
+      const bar = '█'.repeat(filled) + '░'.repeat(width - filled)
+      const label =
+        entry.label.length > labelWidth
+          ? `${entry.label.slice(0, labelWidth - 1)}…`
+          : entry.label.padEnd(labelWidth)
+      return `${label} ${bar} ${formatValue(entry.value)}`
+    })
+    .join('\n')
+}
+
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) {
+    return `${(tokens / 1_000_000).toFixed(1)}M`
+  }
+  if (tokens >= 1000) {
+    return `${(tokens / 1000).toFixed(1)}k`
+  }
+  return String(tokens)
+}
+
+export function formatPercent(part: number, total: number): string {
+  if (total === 0) {
+    return '0%'
+  }
+  return `${((part / total) * 100).toFixed(1)}%`
+}
+
+/**
+ * Plain-text rendering of a report, used by the CLI.
+ */
+export function formatStatsReportText(report: StatsReport): string {
+  const { totals } = report
+  const avgDurationSec =
+    totals.finishedRuns > 0
+      ? Math.round(totals.durationMs / totals.finishedRuns / 1000)
+      : 0
+  const limit = 10
+
+  return [
+    `Disunday stats (${report.window === 'all' ? 'all time' : `last ${report.window}`}, by ${report.groupBy})`,
+    '',
+    `Prompts:          ${totals.runs}`,
+    `Sessions started: ${totals.sessionsStarted}`,
+    `Users:            ${totals.users}`,
+    `Avg duration:     ${avgDurationSec}s`,
+    `Tokens:           ${formatTokenCount(totals.tokens)}`,
+    `Cost:             $${totals.cost.toFixed(2)}`,
+    `Error rate:       ${formatPercent(totals.errors, totals.finishedRuns)} (${totals.aborted} aborted)`,
+    `Tool calls:       ${totals.toolCalls} (${formatPercent(totals.toolErrors, totals.toolCalls)} failed)`,
+    '',
+    `Prompts by ${report.groupBy}:`,
+    renderBarChart({
+      entries: report.groups.slice(0, limit * 3).map((group) => {
+        return { label: group.key, value: group.runs }
+      }),
+    }),
+    '',
+    `Cost by ${report.groupBy}:`,
+    renderBarChart({
+      entries: report.groups.slice(0, limit * 3).map((group) => {
+        return { label: group.key, value: group.cost }
+      }),
+      formatValue: (value) => `$${value.toFixed(2)}`,
+    }),
+    '',
+    'Models:',
+    renderBarChart({
+      entries: report.models.slice(0, limit).map((model) => {
+        return { label: model.name, value: model.responses }
+      }),
+    }),
+    '',
+    'Agents:',
+    renderBarChart({
+      entries: report.agents.slice(0, limit).map((agent) => {
+        return { label: agent.name, value: agent.runs }
+      }),
+    }),
+    '',
+    'Tools:',
+    renderBarChart({
+      entries: report.tools.slice(0, limit).map((tool) => {
+        return { label: tool.name, value: tool.calls }
+      }),
+    }),
+  ].join('\n')
+}
@@ -0,0 +1,97 @@
+import type { Part } from '@opencode-ai/sdk/v2'
+import { describe, expect, test } from 'vitest'
+import { formatPart, getThemeConfig } from './message-formatting.js'
+import { buildThemeConfig, formatThemeFields, renderThemePreview } from './themes.js'
+
+const bashPart = {
+  id: 'prt_1',
+  sessionID: 'ses_1',
+  messageID: 'msg_1',
+  type: 'tool',
+  callID: 'call_1',
+  tool: 'bash',
+  state: {
+    status: 'completed',
+    input: { command: 'pnpm test', description: 'Run tests' },
+    output: '',
+    title: 'Run tests',
+    metadata: {},
+    time: { start: 0, end: 1 },
+  },
+} as Part
+
+describe('buildThemeConfig', () => {
+  test('overrides bullets, options, tool icons and code languages of the base', () => {
+    const config = buildThemeConfig({
+      base: getThemeConfig('default'),
+      fields: {
+        bullets: 'text: »\n# comment\nshow-thinking: off\n\nerror:',
+        toolIcons: 'bash: 💻',
+        codeLanguages: 'bash: sh',
+      },
+    })
+    expect(config).toMatchObject({
+      textBullet: '»',
+      errorBullet: '',
+      toolBullet: '┣',
+      showThinking: false,
+      toolIcons: { bash: '💻' },
+      codeLanguages: { bash: 'sh' },
+    })
+  })
+
+  test('rejects unknown keys and invalid values', () => {
+    const base = getThemeConfig('default')
+    const fields = { bullets: '', toolIcons: '', codeLanguages: '' }
+    expect(
+      buildThemeConfig({ base, fields: { ...fields, bullets: 'bullet: *' } }),
+    ).toBeInstanceOf(Error)
+    expect(
+      buildThemeConfig({ base, fields: { ...fields, bullets: 'emoji: maybe' } }),
+    ).toBeInstanceOf(Error)
+    expect(
+      buildThemeConfig({ base, fields: { ...fields, codeLanguages: 'bash: s h' } }),
+    ).toBeInstanceOf(Error)
+    for (const key of ['toString', 'constructor', '__proto__']) {
+      expect(
+        buildThemeConfig({ base, fields: { ...fields, bullets: `${key}: x` } }),
+      ).toBeInstanceOf(Error)
+    }
+  })
+
+  test('round-trips through the modal fields', () => {
+    const base = getThemeConfig('plain')
+    const config = buildThemeConfig({
+      base: getThemeConfig('default'),
+      fields: formatThemeFields({ ...base, toolIcons: { read: '[r]' }, codeLanguages: { edit: 'diff' } }),
+    })
+    expect(config).toEqual({ ...base, toolIcons: { read: '[r]' }, codeLanguages: { edit: 'diff' } })
+  })
+})
+
+describe('formatPart with custom themes', () => {
+  test('uses tool icons and shows code blocks for configured tools', () => {
+    const theme = {
+      ...getThemeConfig('default'),
+      toolIcons: { bash: '💻' },
+      codeLanguages: { bash: 'sh' },
+    }
+    expect(formatPart(bashPart, undefined, theme)).toBe(
+      '💻 bash _pnpm test_\n```sh\npnpm test\n```',
+    )
+  })
+
+  test('drops emoji from bullets and icons when emoji are off', () => {
+    const theme = {
+      ...getThemeConfig('default'),
+      showEmoji: false,
+      toolIcons: { bash: '💻 $' },
+    }
+    expect(formatPart(bashPart, undefined, theme)).toBe('$ bash _pnpm test_')
+  })
+
+  test('built-in themes render as before', () => {
+    expect(formatPart(bashPart, undefined, 'plain')).toBe('[tool] bash _pnpm test_')
+    expect(renderThemePreview(getThemeConfig('minimal'))).not.toContain('thinking')
+  })
+})
@@ -0,0 +1,230 @@
+// Custom message formatting themes for /theme.
+// A custom theme is a ThemeConfig stored in the database and shared by every
+// channel. It is edited in a modal as `key: value` lines.
+
+import type { Part } from '@opencode-ai/sdk/v2'
+import { getChannelTheme, getCustomTheme } from './database.js'
+import {
+  formatPart,
+  getThemeConfig,
+  isBuiltinTheme,
+  type ThemeConfig,
+} from './message-formatting.js'
+
+export const THEME_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/
+
+const MAX_ICON_LENGTH = 16
+const LANGUAGE_PATTERN = /^[a-zA-Z0-9+#._-]{1,20}$/
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_.-]{1,64}$/
+
+const BULLET_KEYS = {
+  text: 'textBullet',
+  file: 'fileBullet',
+  tool: 'toolBullet',
+  edit: 'editBullet',
+  error: 'errorBullet',
+  thinking: 'thinkingBullet',
+  agent: 'agentBullet',
+} as const satisfies Record<string, keyof ThemeConfig>
+
+const OPTION_KEYS = {
+  emoji: 'showEmoji',
+  'show-thinking': 'showThinking',
+} as const satisfies Record<string, keyof ThemeConfig>
+
+/** Modal fields of a theme, one `key: value` per line */
+export type ThemeFields = {
+  bullets: string
+  toolIcons: string
+  codeLanguages: string
+}
+
+/**
+ * Parse `key: value` lines. Blank lines and lines starting with # are
+ * skipped; a value may be empty.
+ */
+export function parseThemeLines(text: string): Error | Map<string, string> {
+  const entries = new Map<string, string>()
+  for (const [index, rawLine] of text.split('\n').entries()) {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#')) {
+      continue
+    }
+    const separator = line.indexOf(':')
+    if (separator <= 0) {
+      return new Error(`Line ${index + 1} should look like \`key: value\`: ${line}`)
+    }
+    entries.set(line.slice(0, separator).trim(), line.slice(separator + 1).trim())
+  }
+  return entries
+}
+
+function parseSwitch(key: string, value: string): Error | boolean {
+  if (['on', 'yes', 'true'].includes(value.toLowerCase())) {
+    return true
+  }
+  if (['off', 'no', 'false'].includes(value.toLowerCase())) {
+    return false
+  }
+  return new Error(`\`${key}\` must be on or off, got: ${value}`)
+}
+
+/**
+ * Build a theme from its modal fields. Bullets and options that are left out
+ * keep the value of the base theme.
+ */
+export function buildThemeConfig({
+  fields,
+  base,
+}: {
+  fields: ThemeFields
+  base: ThemeConfig
+}): Error | ThemeConfig {
+  const bullets = parseThemeLines(fields.bullets)
+  if (bullets instanceof Error) {
+    return bullets
+  }
+  const config: ThemeConfig = { ...base, toolIcons: {}, codeLanguages: {} }
+
+  for (const [key, value] of bullets) {
+    if (Object.hasOwn(BULLET_KEYS, key)) {
+      if (value.length > MAX_ICON_LENGTH) {
+        return new Error(`Bullet \`${key}\` is longer than ${MAX_ICON_LENGTH} characters`)
+      }
+      config[BULLET_KEYS[key as keyof typeof BULLET_KEYS]] = value
+    } else if (Object.hasOwn(OPTION_KEYS, key)) {
+      const enabled = parseSwitch(key, value)
+      if (enabled instanceof Error) {
+        return enabled
+      }
+      config[OPTION_KEYS[key as keyof typeof OPTION_KEYS]] = enabled
+    } else {
+      const known = [...Object.keys(BULLET_KEYS), ...Object.keys(OPTION_KEYS)]
+      return new Error(`Unknown key \`${key}\`. Use: ${known.join(', ')}`)
+    }
+  }
+
+  const toolIcons = parseThemeLines(fields.toolIcons)
+  if (toolIcons instanceof Error) {
+    return toolIcons
+  }
+  for (const [tool, icon] of toolIcons) {
+    if (!TOOL_NAME_PATTERN.test(tool) || !icon || icon.length > MAX_ICON_LENGTH) {
+      return new Error(`Invalid tool icon \`${tool}: ${icon}\``)
+    }
+    config.toolIcons[tool] = icon
+  }
+
+  const codeLanguages = parseThemeLines(fields.codeLanguages)
+  if (codeLanguages instanceof Error) {
+    return codeLanguages
+  }
+  for (const [tool, language] of codeLanguages) {
+    if (!TOOL_NAME_PATTERN.test(tool) || !LANGUAGE_PATTERN.test(language)) {
+      return new Error(`Invalid code block language \`${tool}: ${language}\``)
+    }
+    config.codeLanguages[tool] = language
+  }
+
+  return config
+}
+
+/**
+ * Modal fields showing a theme, to prefill the create and edit modals.
+ */
+export function formatThemeFields(config: ThemeConfig): ThemeFields {
+  const bullets = Object.entries(BULLET_KEYS).map(([key, field]) => {
+    return `${key}: ${config[field]}`
+  })
+  const options = Object.entries(OPTION_KEYS).map(([key, field]) => {
+    return `${key}: ${config[field] ? 'on' : 'off'}`
+  })
+  const lines = (record: Record<string, string>) => {
+    return Object.entries(record)
+      .map(([key, value]) => `${key}: ${value}`)
+      .join('\n')
+  }
+  return {
+    bullets: [...bullets, ...options].join('\n'),
+    toolIcons: lines(config.toolIcons),
+    codeLanguages: lines(config.codeLanguages),
+  }
+}
+
+/**
+ * Config of a built-in or custom theme, or null when no theme has that name.
+ */
+export function getTheme(name: string): ThemeConfig | null {
+  if (isBuiltinTheme(name)) {
+    return getThemeConfig(name)
+  }
+  const custom = getCustomTheme(name)
+  if (!custom) {
+    return null
+  }
+  try {
+    // Stored themes may predate fields added later
+    return { ...getThemeConfig('default'), ...(JSON.parse(custom.config) as Partial<ThemeConfig>) }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Theme of a channel. Channels whose custom theme is gone use the default.
+ */
+export function getChannelThemeConfig(channelId: string): ThemeConfig {
+  return getTheme(getChannelTheme(channelId)) ?? getThemeConfig('default')
+}
+
+const PREVIEW_PARTS = [
+  { type: 'reasoning', text: 'Looking at the failing test' },
+  {
+    type: 'tool',
+    tool: 'bash',
+    state: {
+      status: 'completed',
+      input: { command: 'pnpm test src/cron.test.ts', description: 'Run tests' },
+      output: '',
+      title: 'Run tests',
+      metadata: {},
+    },
+  },
+  {
+    type: 'tool',
+    tool: 'edit',
+    state: {
+      status: 'completed',
+      input: {
+        filePath: 'src/cron.ts',
+        oldString: '  return next',
+        newString: '  return next + 1',
+      },
+      output: '',
+      title: 'src/cron.ts',
+      metadata: {
+        diff: '@@ -12 +12 @@\n-  return next\n+  return next + 1',
+      },
+    },
+  },
+  {
+    type: 'tool',
+    tool: 'read',
+    state: {
+      status: 'error',
+      input: { filePath: 'src/missing.ts' },
+      error: 'File not found: src/missing.ts',
+    },
+  },
+  { type: 'file', filename: 'screenshot.png', mime: 'image/png', url: '' },
+  { type: 'text', text: 'Fixed the off-by-one in `nextRun`.' },
+] as unknown as Part[]
+
+/**
+ * Sample session output rendered with a theme.
+ */
+export function renderThemePreview(config: ThemeConfig): string {
+  return PREVIEW_PARTS.map((part) => formatPart(part, undefined, config))
+    .filter((line) => line.trim())
+    .join('\n\n')
+}
@@ -0,0 +1,126 @@
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import os from 'node:os'
+import path from 'node:path'
+import { afterAll, beforeAll, describe, expect, test } from 'vitest'
+import {
+  correctTranscription,
+  createHttpBackend,
+  validateTranscriptionSettings,
+} from './transcription.js'
+
+// Fake local server: an OpenAI-compatible transcription endpoint, and a chat
+// model that globs once before returning its correction.
+const requests: { url: string; body: string }[] = []
+let server: http.Server
+let baseUrl: string
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => {
+      body += chunk
+    })
+    req.on('end', () => {
+      requests.push({ url: req.url ?? '', body })
+      res.setHeader('Content-Type', 'application/json')
+      if (req.url === '/v1/audio/transcriptions') {
+        res.end(JSON.stringify({ text: ' fix the voice handler test ' }))
+        return
+      }
+      const messages = JSON.parse(body).messages as { role: string }[]
+      const toolCall = messages.some((message) => message.role === 'tool')
+        ? { id: 'call_2', name: 'transcriptionResult', args: { transcription: 'fix the voice-handler.ts test' } }
+        : { id: 'call_1', name: 'glob', args: { pattern: '**/voice*' } }
+      res.end(
+        JSON.stringify({
+          choices: [
+            {
+              message: {
+                role: 'assistant',
+                content: null,
+                tool_calls: [
+                  {
+                    id: toolCall.id,
+                    type: 'function',
+                    function: { name: toolCall.name, arguments: JSON.stringify(toolCall.args) },
+                  },
+                ],
+              },
+            },
+          ],
+        }),
+      )
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`
+})
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve))
+})
+
+describe('validateTranscriptionSettings', () => {
+  const base = { location: null, correctionUrl: null, correctionModel: null }
+
+  test('requires a location for local backends', () => {
+    expect(validateTranscriptionSettings({ ...base, backend: 'gemini' })).not.toBeInstanceOf(Error)
+    expect(validateTranscriptionSettings({ ...base, backend: 'http' })).toBeInstanceOf(Error)
+    expect(
+      validateTranscriptionSettings({ ...base, backend: 'whisper-cpp', location: '/missing/ggml.bin' }),
+    ).toBeInstanceOf(Error)
+    expect(
+      validateTranscriptionSettings({ ...base, backend: 'http', location: 'http://localhost:8000/v1' }),
+    ).not.toBeInstanceOf(Error)
+  })
+
+  test('expands ~ in whisper.cpp model paths', () => {
+    const missing = validateTranscriptionSettings({
+      ...base,
+      backend: 'whisper-cpp',
+      location: '~/missing/ggml.bin',
+    })
+    expect(missing).toBeInstanceOf(Error)
+    expect((missing as Error).message).toBe(
+      `Model file not found: ${path.join(os.homedir(), 'missing/ggml.bin')}`,
+    )
+  })
+
+  test('requires the correction URL and model together', () => {
+    expect(
+      validateTranscriptionSettings({
+        ...base,
+        backend: 'http',
+        location: 'http://localhost:8000/v1',
+        correctionUrl: 'http://localhost:11434/v1',
+      }),
+    ).toBeInstanceOf(Error)
+  })
+})
+
+describe('local transcription', () => {
+  test('posts audio to an OpenAI-compatible endpoint', async () => {
+    const backend = createHttpBackend({ baseUrl })
+    const text = await backend.transcribe({ audio: Buffer.from('RIFF'), mimeType: 'audio/wav' })
+
+    expect(text).toBe('fix the voice handler test')
+    const request = requests.find((entry) => entry.url === '/v1/audio/transcriptions')
+    expect(request?.body).toContain('filename="audio.wav"')
+    expect(request?.body).toContain('whisper-1')
+  })
+
+  test('corrects the transcript with tool calls of a local model', async () => {
+    const corrected = await correctTranscription({
+      transcription: 'fix the voice handler test',
+      baseUrl,
+      model: 'local-model',
+      directory: process.cwd(),
+    })
+
+    expect(corrected).toBe('fix the voice-handler.ts test')
+    const chats = requests.filter((entry) => entry.url === '/v1/chat/completions')
+    expect(chats).toHaveLength(2)
+    expect(chats[1]?.body).toContain('voice-handler.ts')
+  })
+})
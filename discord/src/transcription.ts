@@ -0,0 +1,412 @@
+// Pluggable speech-to-text backends, picked per channel with /transcription.
+// 'gemini' is the hosted transcribeAudio from voice.ts. 'whisper-cpp' runs a
+// local whisper.cpp binary and 'http' posts to a local OpenAI-compatible
+// /audio/transcriptions endpoint, so audio never leaves the machine. Local
+// transcripts can be corrected with a local text model, using the same
+// grep/glob tools as the Gemini transcription loop.
+
+import { execFile } from 'node:child_process'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { promisify } from 'node:util'
+import * as errore from 'errore'
+import {
+  getChannelTranscription,
+  type TranscriptionBackendName,
+  type TranscriptionSettings,
+} from './database.js'
+import { TranscriptionError } from './errors.js'
+import {
+  createToolRunner,
+  getStepsWarning,
+  globToolDeclaration,
+  grepToolDeclaration,
+  transcribeAudio,
+  transcriptionResultToolDeclaration,
+  type TranscribeAudioErrors,
+} from './voice.js'
+import { createLogger, LogPrefix } from './logger.js'
+
+const voiceLogger = createLogger(LogPrefix.VOICE)
+
+const execFileAsync = promisify(execFile)
+
+export const TRANSCRIPTION_BACKENDS: TranscriptionBackendName[] = [
+  'gemini',
+  'whisper-cpp',
+  'http',
+]
+
+const LOCAL_TIMEOUT_MS = 120_000
+const MAX_CORRECTION_STEPS = 6
+// Local models have small contexts, keep the file tree short
+const MAX_CORRECTION_CONTEXT = 8_000
+
+export type TranscriptionRequest = {
+  audio: Buffer
+  // Undefined when the format is unknown, local backends let ffmpeg detect it
+  mimeType?: string
+  filename?: string
+  language?: string
+}
+
+export type TranscriptionBackend = {
+  name: TranscriptionBackendName
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionError | string>
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Check the settings of a channel before saving them.
+ */
+export function validateTranscriptionSettings(
+  settings: TranscriptionSettings,
+): Error | TranscriptionSettings {
+  if (settings.backend === 'whisper-cpp') {
+    if (!settings.location) {
+      return new Error('whisper-cpp needs `location`: the path of a whisper.cpp model file, like `~/models/ggml-base.en.bin`')
+    }
+    // Stored absolute, since nothing expands `~` when the model is loaded
+    const modelPath = path.resolve(
+      settings.location.replace(/^~(?=$|\/)/, os.homedir()),
+    )
+    if (!fs.existsSync(modelPath)) {
+      return new Error(`Model file not found: ${modelPath}`)
+    }
+    settings = { ...settings, location: modelPath }
+  }
+  if (settings.backend === 'http' && (!settings.location || !isHttpUrl(settings.location))) {
+    return new Error('http needs `location`: the base URL of an OpenAI-compatible server, like `http://localhost:8000/v1`')
+  }
+  if (Boolean(settings.correctionUrl) !== Boolean(settings.correctionModel)) {
+    return new Error('Set both `correction-url` and `correction-model`, or neither')
+  }
+  if (settings.correctionUrl && !isHttpUrl(settings.correctionUrl)) {
+    return new Error(`Invalid correction URL: ${settings.correctionUrl}`)
+  }
+  return settings
+}
+
+/**
+ * Run a whisper.cpp binary on the audio. The binary comes from
+ * WHISPER_CPP_BIN (default `whisper-cli`), audio is converted to 16kHz WAV
+ * with ffmpeg first unless it already is WAV.
+ */
+export function createWhisperCppBackend({
+  modelPath,
+  binary = process.env.WHISPER_CPP_BIN || 'whisper-cli',
+}: {
+  modelPath: string
+  binary?: string
+}): TranscriptionBackend {
+  return {
+    name: 'whisper-cpp',
+    async transcribe({ audio, mimeType, language }) {
+      const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'disunday-whisper-'))
+      const result = await errore.tryAsync({
+        try: async () => {
+          const wavPath = path.join(dir, 'audio.wav')
+          if (mimeType === 'audio/wav') {
+            await fs.promises.writeFile(wavPath, audio)
+          } else {
+            const inputPath = path.join(dir, 'input')
+            await fs.promises.writeFile(inputPath, audio)
+            await execFileAsync(
+              'ffmpeg',
+              ['-y', '-loglevel', 'error', '-i', inputPath, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wavPath],
+              { timeout: LOCAL_TIMEOUT_MS },
+            )
+          }
+          const args = ['-m', modelPath, '-f', wavPath, '-nt', '-np']
+          if (language) {
+            args.push('-l', language)
+          }
+          const { stdout } = await execFileAsync(binary, args, {
+            timeout: LOCAL_TIMEOUT_MS,
+            maxBuffer: 10 * 1024 * 1024,
+          })
+          return stdout
+            .split('\n')
+            .map((line) => line.trim())
+            .filter(Boolean)
+            .join(' ')
+        },
+        catch: (e) => new TranscriptionError({ reason: `whisper.cpp failed: ${String(e)}`, cause: e }),
+      })
+      await fs.promises.rm(dir, { recursive: true, force: true })
+      return result
+    },
+  }
+}
+
+/**
+ * Post the audio to an OpenAI-compatible /audio/transcriptions endpoint,
+ * like whisper.cpp's server, faster-whisper-server or LocalAI.
+ */
+export function createHttpBackend({
+  baseUrl,
+  model = 'whisper-1',
+}: {
+  baseUrl: string
+  model?: string
+}): TranscriptionBackend {
+  return {
+    name: 'http',
+    async transcribe({ audio, mimeType, filename, language }) {
+      const form = new FormData()
+      const name = filename || (mimeType === 'audio/wav' ? 'audio.wav' : 'audio.ogg')
+      form.append('file', new Blob([audio], { type: mimeType || 'application/octet-stream' }), name)
+      form.append('model', model)
+      form.append('response_format', 'json')
+      if (language) {
+        form.append('language', language)
+      }
+
+      const url = `${baseUrl.replace(/\/+$/, '')}/audio/transcriptions`
+      const response = await errore.tryAsync({
+        try: () => fetch(url, { method: 'POST', body: form, signal: AbortSignal.timeout(LOCAL_TIMEOUT_MS) }),
+        catch: (e) => new TranscriptionError({ reason: `request to ${url} failed: ${String(e)}`, cause: e }),
+      })
+      if (response instanceof Error) {
+        return response
+      }
+      if (!response.ok) {
+        return new TranscriptionError({
+          reason: `${url} returned ${response.status}: ${(await response.text()).slice(0, 200)}`,
+        })
+      }
+      const body = await errore.tryAsync({
+        try: () => response.json() as Promise<{ text?: string }>,
+        catch: (e) => new TranscriptionError({ reason: `invalid response from ${url}`, cause: e }),
+      })
+      if (body instanceof Error) {
+        return body
+      }
+      return (body.text ?? '').trim()
+    },
+  }
+}
+
+/**
+ * Local backend of a channel, or null for Gemini.
+ */
+export function createTranscriptionBackend(
+  settings: TranscriptionSettings,
+): TranscriptionError | TranscriptionBackend | null {
+  if (settings.backend === 'gemini') {
+    return null
+  }
+  if (!settings.location) {
+    return new TranscriptionError({ reason: `${settings.backend} backend has no location configured` })
+  }
+  if (settings.backend === 'whisper-cpp') {
+    return createWhisperCppBackend({ modelPath: settings.location })
+  }
+  return createHttpBackend({ baseUrl: settings.location })
+}
+
+type ChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | {
+      role: 'assistant'
+      content: string | null
+      tool_calls?: { id: string; type: 'function'; function: { name: string; arguments: string } }[]
+    }
+  | { role: 'tool'; tool_call_id: string; content: string }
+
+// Gemini declarations as OpenAI function tools, every parameter is a string
+const CORRECTION_TOOLS = [
+  grepToolDeclaration,
+  globToolDeclaration,
+  transcriptionResultToolDeclaration,
+].map((declaration) => {
+  return {
+    type: 'function' as const,
+    function: {
+      name: declaration.name,
+      description: declaration.description,
+      parameters: {
+        type: 'object',
+        properties: Object.fromEntries(
+          Object.entries(declaration.parameters.properties).map(([key, value]) => {
+            return [key, { type: 'string', description: value.description }]
+          }),
+        ),
+        required: declaration.parameters.required,
+      },
+    },
+  }
+})
+
+/**
+ * Fix technical terms of a local transcript with a local text model, which
+ * can grep and glob the project like the Gemini transcription loop does.
+ */
+export async function correctTranscription({
+  transcription,
+  baseUrl,
+  model,
+  directory,
+  context,
+  maxSteps = MAX_CORRECTION_STEPS,
+}: {
+  transcription: string
+  baseUrl: string
+  model: string
+  directory?: string
+  context?: string
+  maxSteps?: number
+}): Promise<TranscriptionError | string> {
+  const toolRunner = createToolRunner({ directory })
+  const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`
+  const messages: ChatMessage[] = [
+    {
+      role: 'system',
+      content: `You correct speech-to-text transcripts of instructions for a coding agent. Fix misheard file names, function names, package names and CLI commands, using grep and glob to check them against the project. Do not rephrase or answer the instructions. You MUST finish by calling transcriptionResult with the corrected transcript.`,
+    },
+    {
+      role: 'user',
+      content: `${context ? `${context.slice(0, MAX_CORRECTION_CONTEXT)}\n\n` : ''}<transcript>\n${transcription}\n</transcript>`,
+    },
+  ]
+  let stepsRemaining = maxSteps
+
+  while (true) {
+    const response = await errore.tryAsync({
+      try: async () => {
+        const res = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            model,
+            messages,
+            temperature: 0.1,
+            tools:
+              stepsRemaining <= 0
+                ? CORRECTION_TOOLS.filter((tool) => tool.function.name === 'transcriptionResult')
+                : CORRECTION_TOOLS,
+          }),
+          signal: AbortSignal.timeout(LOCAL_TIMEOUT_MS),
+        })
+        if (!res.ok) {
+          throw new Error(`${res.status}: ${(await res.text()).slice(0, 200)}`)
+        }
+        return (await res.json()) as {
+          choices?: { message?: Extract<ChatMessage, { role: 'assistant' }> }[]
+        }
+      },
+      catch: (e) => new TranscriptionError({ reason: `correction model failed: ${String(e)}`, cause: e }),
+    })
+    if (response instanceof Error) {
+      return response
+    }
+
+    const message = response.choices?.[0]?.message
+    const toolCalls = message?.tool_calls ?? []
+    if (!message || toolCalls.length === 0) {
+      return message?.content?.trim() || transcription
+    }
+    messages.push({ role: 'assistant', content: message.content ?? null, tool_calls: toolCalls })
+
+    for (const call of toolCalls) {
+      const args = errore.try(() => {
+        return JSON.parse(call.function.arguments || '{}') as Record<string, string>
+      })
+      const result = await toolRunner({
+        name: call.function.name,
+        args: args instanceof Error ? undefined : args,
+      })
+      if (result.type === 'result') {
+        return result.transcription.trim() || transcription
+      }
+      stepsRemaining--
+      messages.push({
+        role: 'tool',
+        tool_call_id: call.id,
+        content:
+          result.type === 'toolResponse'
+            ? result.output + getStepsWarning(stepsRemaining)
+            : `Unknown tool ${call.function.name}${getStepsWarning(stepsRemaining)}`,
+      })
+    }
+
+    if (stepsRemaining < -1) {
+      return transcription
+    }
+  }
+}
+
+/**
+ * Transcribe audio with the backend of a channel. Local transcripts are
+ * corrected when the channel has a correction model; if correction fails the
+ * raw transcript is used.
+ */
+export async function transcribeForChannel({
+  channelId,
+  audio,
+  mimeType,
+  filename,
+  prompt,
+  geminiApiKey,
+  directory,
+  currentSessionContext,
+  lastSessionContext,
+}: {
+  channelId: string
+  audio: Buffer
+  mimeType?: string
+  filename?: string
+  prompt?: string
+  geminiApiKey?: string
+  directory?: string
+  currentSessionContext?: string
+  lastSessionContext?: string
+}): Promise<TranscribeAudioErrors | string> {
+  const settings = getChannelTranscription(channelId)
+  const backend = createTranscriptionBackend(settings)
+  if (backend instanceof Error) {
+    return backend
+  }
+  if (!backend) {
+    return transcribeAudio({
+      audio,
+      mimeType,
+      prompt,
+      geminiApiKey,
+      directory,
+      currentSessionContext,
+      lastSessionContext,
+    })
+  }
+
+  voiceLogger.log(`Transcribing with ${backend.name} backend for channel ${channelId}`)
+  const transcription = await backend.transcribe({ audio, mimeType, filename })
+  if (transcription instanceof Error || !transcription) {
+    return transcription || new TranscriptionError({ reason: `${backend.name} returned no text` })
+  }
+  if (!settings.correctionUrl || !settings.correctionModel) {
+    return transcription
+  }
+
+  const corrected = await correctTranscription({
+    transcription,
+    baseUrl: settings.correctionUrl,
+    model: settings.correctionModel,
+    directory,
+    context: [prompt, currentSessionContext].filter(Boolean).join('\n\n'),
+  })
+  if (corrected instanceof Error) {
+    voiceLogger.error('Transcript correction failed, using the raw transcript:', corrected)
+    return transcription
+  }
+  return corrected
+}
@@ -0,0 +1,102 @@
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest'
+import { pcmToWav } from './dictation.js'
+import {
+  canSendOpenAiKey,
+  createHttpTtsEngine,
+  parseWav,
+  validateVoiceSummarySettings,
+} from './tts.js'
+
+// Fake OpenAI-compatible /audio/speech endpoint returning one second of WAV
+const requests: { url: string; body: string; authorization?: string }[] = []
+let server: http.Server
+let baseUrl: string
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => {
+      body += chunk
+    })
+    req.on('end', () => {
+      requests.push({ url: req.url ?? '', body, authorization: req.headers.authorization })
+      res.setHeader('Content-Type', 'audio/wav')
+      res.end(pcmToWav({ pcm: Buffer.alloc(32_000) }))
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`
+})
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve))
+})
+
+describe('validateVoiceSummarySettings', () => {
+  test('requires a location for local engines', () => {
+    expect(validateVoiceSummarySettings({ engine: 'gemini', location: null, voice: null })).not.toBeInstanceOf(Error)
+    expect(validateVoiceSummarySettings({ engine: 'http', location: null, voice: null })).toBeInstanceOf(Error)
+    expect(
+      validateVoiceSummarySettings({ engine: 'piper', location: '/missing/voice.onnx', voice: null }),
+    ).toBeInstanceOf(Error)
+    expect(
+      validateVoiceSummarySettings({ engine: 'http', location: 'http://localhost:8880/v1', voice: 'alloy' }),
+    ).not.toBeInstanceOf(Error)
+  })
+})
+
+describe('parseWav', () => {
+  test('reads format and PCM data', () => {
+    const pcm = Buffer.alloc(640, 2)
+    const audio = parseWav(pcmToWav({ pcm }))
+
+    expect(audio).toEqual({ sampleRate: 16_000, channels: 1, pcm })
+  })
+
+  test('clamps the data chunk of streamed WAV files', () => {
+    const wav = pcmToWav({ pcm: Buffer.alloc(640) })
+    wav.writeUInt32LE(0xffffffff, 40)
+    const audio = parseWav(wav)
+
+    expect(audio).not.toBeInstanceOf(Error)
+    expect(audio instanceof Error ? 0 : audio.pcm.length).toBe(640)
+  })
+
+  test('rejects other formats', () => {
+    expect(parseWav(Buffer.from('ID3 not a wav file'))).toBeInstanceOf(Error)
+  })
+})
+
+describe('http engine', () => {
+  test('asks an OpenAI-compatible endpoint for WAV speech', async () => {
+    const engine = createHttpTtsEngine({ baseUrl, voice: 'nova' })
+    const audio = await engine.synthesize('Tests passed.')
+
+    expect(audio).not.toBeInstanceOf(Error)
+    expect(audio instanceof Error ? 0 : audio.pcm.length).toBe(32_000)
+    const request = requests.find((entry) => entry.url === '/v1/audio/speech')
+    expect(JSON.parse(request?.body ?? '{}')).toMatchObject({
+      input: 'Tests passed.',
+      voice: 'nova',
+      response_format: 'wav',
+    })
+  })
+
+  test('sends OPENAI_API_KEY only to OpenAI over https', async () => {
+    expect(canSendOpenAiKey('https://api.openai.com/v1/audio/speech')).toBe(true)
+    expect(canSendOpenAiKey('http://api.openai.com/v1/audio/speech')).toBe(false)
+    expect(canSendOpenAiKey('https://tts.example.com/v1/audio/speech')).toBe(false)
+    expect(canSendOpenAiKey('not a url')).toBe(false)
+
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test')
+    try {
+      requests.length = 0
+      await createHttpTtsEngine({ baseUrl }).synthesize('Hello.')
+      expect(requests[0]?.authorization).toBeUndefined()
+    } finally {
+      vi.unstubAllEnvs()
+    }
+  })
+})
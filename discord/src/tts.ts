@@ -0,0 +1,267 @@
+// Pluggable text-to-speech engines for spoken session summaries, picked per
+// channel with /voice-summary. 'gemini' uses the hosted Gemini TTS model,
+// 'piper' runs a local piper binary and 'http' posts to an OpenAI-compatible
+// /audio/speech endpoint, local (Kokoro, LocalAI) or remote. Every engine
+// returns s16le PCM for createOpusPacketStream.
+
+import { execFile } from 'node:child_process'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { promisify } from 'node:util'
+import { GoogleGenAI, Modality } from '@google/genai'
+import * as errore from 'errore'
+import type { TtsEngineName, VoiceSummarySettings } from './database.js'
+import { SpeechSynthesisError } from './errors.js'
+
+const execFileAsync = promisify(execFile)
+
+export const TTS_ENGINES: TtsEngineName[] = ['gemini', 'piper', 'http']
+
+const GEMINI_TTS_MODEL = 'gemini-2.5-flash-preview-tts'
+const GEMINI_DEFAULT_VOICE = 'Kore'
+const HTTP_DEFAULT_VOICE = 'alloy'
+const SYNTHESIS_TIMEOUT_MS = 60_000
+
+export type SpeechAudio = {
+  pcm: Buffer
+  sampleRate: number
+  channels: number
+}
+
+export type TtsEngine = {
+  name: TtsEngineName
+  synthesize(text: string): Promise<SpeechSynthesisError | SpeechAudio>
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Check the settings of a channel before saving them.
+ */
+export function validateVoiceSummarySettings(
+  settings: VoiceSummarySettings,
+): Error | VoiceSummarySettings {
+  if (settings.engine === 'piper') {
+    if (!settings.location) {
+      return new Error('piper needs `location`: the path of a piper voice model, like `~/voices/en_US-amy-medium.onnx`')
+    }
+    if (!fs.existsSync(settings.location)) {
+      return new Error(`Voice model not found: ${settings.location}`)
+    }
+    if (settings.voice && !/^\d+$/.test(settings.voice)) {
+      return new Error('piper `voice` is a speaker number of a multi-speaker model')
+    }
+  }
+  if (settings.engine === 'http' && (!settings.location || !isHttpUrl(settings.location))) {
+    return new Error('http needs `location`: the base URL of an OpenAI-compatible server, like `http://localhost:8880/v1`')
+  }
+  return settings
+}
+
+/**
+ * Read 16-bit PCM out of a WAV file. Streaming servers write 0xFFFFFFFF as
+ * the data size, so the data chunk is clamped to the buffer.
+ */
+export function parseWav(wav: Buffer): SpeechSynthesisError | SpeechAudio {
+  if (wav.length < 12 || wav.toString('ascii', 0, 4) !== 'RIFF' || wav.toString('ascii', 8, 12) !== 'WAVE') {
+    return new SpeechSynthesisError({ reason: 'response is not a WAV file' })
+  }
+  let format: { sampleRate: number; channels: number } | undefined
+  let offset = 12
+  while (offset + 8 <= wav.length) {
+    const id = wav.toString('ascii', offset, offset + 4)
+    const size = wav.readUInt32LE(offset + 4)
+    const body = offset + 8
+    if (id === 'fmt ') {
+      const audioFormat = wav.readUInt16LE(body)
+      const bitsPerSample = wav.readUInt16LE(body + 14)
+      if (audioFormat !== 1 || bitsPerSample !== 16) {
+        return new SpeechSynthesisError({ reason: `unsupported WAV encoding (format ${audioFormat}, ${bitsPerSample} bit)` })
+      }
+      format = { channels: wav.readUInt16LE(body + 2), sampleRate: wav.readUInt32LE(body + 4) }
+    }
+    if (id === 'data') {
+      if (!format) {
+        return new SpeechSynthesisError({ reason: 'WAV data before format chunk' })
+      }
+      return { ...format, pcm: wav.subarray(body, Math.min(body + size, wav.length)) }
+    }
+    offset = body + size + (size % 2)
+  }
+  return new SpeechSynthesisError({ reason: 'WAV file has no data chunk' })
+}
+
+/**
+ * Synthesize with Gemini TTS, which returns 24kHz mono PCM.
+ */
+export function createGeminiTtsEngine({
+  apiKey,
+  voice = GEMINI_DEFAULT_VOICE,
+}: {
+  apiKey: string
+  voice?: string
+}): TtsEngine {
+  return {
+    name: 'gemini',
+    async synthesize(text) {
+      const genAI = new GoogleGenAI({ apiKey })
+      const response = await errore.tryAsync({
+        try: () =>
+          genAI.models.generateContent({
+            model: GEMINI_TTS_MODEL,
+            contents: [{ role: 'user', parts: [{ text }] }],
+            config: {
+              responseModalities: [Modality.AUDIO],
+              speechConfig: {
+                voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
+              },
+            },
+          }),
+        catch: (e) => new SpeechSynthesisError({ reason: `Gemini TTS failed: ${String(e)}`, cause: e }),
+      })
+      if (response instanceof Error) {
+        return response
+      }
+      const inlineData = response.candidates?.[0]?.content?.parts?.find((part) => part.inlineData)?.inlineData
+      if (!inlineData?.data) {
+        return new SpeechSynthesisError({ reason: 'Gemini TTS returned no audio' })
+      }
+      // mimeType looks like audio/L16;codec=pcm;rate=24000
+      const rate = inlineData.mimeType?.match(/rate=(\d+)/)?.[1]
+      return {
+        pcm: Buffer.from(inlineData.data, 'base64'),
+        sampleRate: rate ? Number(rate) : 24000,
+        channels: 1,
+      }
+    },
+  }
+}
+
+/**
+ * Run a piper binary with the text on stdin. The binary comes from
+ * PIPER_BIN (default `piper`).
+ */
+export function createPiperEngine({
+  modelPath,
+  speaker,
+  binary = process.env.PIPER_BIN || 'piper',
+}: {
+  modelPath: string
+  speaker?: string
+  binary?: string
+}): TtsEngine {
+  return {
+    name: 'piper',
+    async synthesize(text) {
+      const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'disunday-piper-'))
+      const result = await errore.tryAsync({
+        try: async () => {
+          const wavPath = path.join(dir, 'speech.wav')
+          const args = ['--model', modelPath, '--output_file', wavPath]
+          if (speaker) {
+            args.push('--speaker', speaker)
+          }
+          const run = execFileAsync(binary, args, { timeout: SYNTHESIS_TIMEOUT_MS })
+          run.child.stdin?.end(text)
+          await run
+          return fs.promises.readFile(wavPath)
+        },
+        catch: (e) => new SpeechSynthesisError({ reason: `piper failed: ${String(e)}`, cause: e }),
+      })
+      await fs.promises.rm(dir, { recursive: true, force: true })
+      if (result instanceof Error) {
+        return result
+      }
+      return parseWav(result)
+    },
+  }
+}
+
+// Hosts OPENAI_API_KEY is sent to; local and third-party servers never get it
+const OPENAI_KEY_HOSTS = ['api.openai.com']
+
+/**
+ * True when OPENAI_API_KEY may be attached to a request to this URL.
+ */
+export function canSendOpenAiKey(url: string): boolean {
+  const parsed = URL.canParse(url) ? new URL(url) : null
+  return parsed?.protocol === 'https:' && OPENAI_KEY_HOSTS.includes(parsed.hostname)
+}
+
+/**
+ * Post the text to an OpenAI-compatible /audio/speech endpoint and ask for
+ * WAV. OPENAI_API_KEY is sent when set, but only to OpenAI over https.
+ */
+export function createHttpTtsEngine({
+  baseUrl,
+  voice = HTTP_DEFAULT_VOICE,
+  model = 'tts-1',
+}: {
+  baseUrl: string
+  voice?: string
+  model?: string
+}): TtsEngine {
+  return {
+    name: 'http',
+    async synthesize(text) {
+      const url = `${baseUrl.replace(/\/+$/, '')}/audio/speech`
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+      if (process.env.OPENAI_API_KEY && canSendOpenAiKey(url)) {
+        headers.Authorization = `Bearer ${process.env.OPENAI_API_KEY}`
+      }
+      const response = await errore.tryAsync({
+        try: () =>
+          fetch(url, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({ model, input: text, voice, response_format: 'wav' }),
+            signal: AbortSignal.timeout(SYNTHESIS_TIMEOUT_MS),
+          }),
+        catch: (e) => new SpeechSynthesisError({ reason: `request to ${url} failed: ${String(e)}`, cause: e }),
+      })
+      if (response instanceof Error) {
+        return response
+      }
+      if (!response.ok) {
+        return new SpeechSynthesisError({
+          reason: `${url} returned ${response.status}: ${(await response.text()).slice(0, 200)}`,
+        })
+      }
+      return parseWav(Buffer.from(await response.arrayBuffer()))
+    },
+  }
+}
+
+/**
+ * Engine of a channel's settings.
+ */
+export function createTtsEngine({
+  settings,
+  geminiApiKey,
+}: {
+  settings: VoiceSummarySettings
+  geminiApiKey?: string
+}): SpeechSynthesisError | TtsEngine {
+  if (settings.engine === 'gemini') {
+    const apiKey = geminiApiKey || process.env.GEMINI_API_KEY
+    if (!apiKey) {
+      return new SpeechSynthesisError({ reason: 'no Gemini API key configured' })
+    }
+    return createGeminiTtsEngine({ apiKey, voice: settings.voice || undefined })
+  }
+  if (!settings.location) {
+    return new SpeechSynthesisError({ reason: `${settings.engine} engine has no location configured` })
+  }
+  if (settings.engine === 'piper') {
+    return createPiperEngine({ modelPath: settings.location, speaker: settings.voice || undefined })
+  }
+  return createHttpTtsEngine({ baseUrl: settings.location, voice: settings.voice || undefined })
+}
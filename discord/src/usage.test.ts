@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'vitest'
+import {
+  evaluateBudget,
+  getApplicableBudgets,
+  getPeriodKey,
+  getPeriodResetTime,
+} from './usage.js'
+import type { UsageBudget } from './database.js'
+
+function budget(overrides: Partial<UsageBudget>): UsageBudget {
+  return {
+    scope: 'global',
+    scope_id: '',
+    period: 'daily',
+    limit_usd: 10,
+    warn_percent: 80,
+    action: 'refuse',
+    updated_by: null,
+    ...overrides,
+  }
+}
+
+describe('evaluateBudget', () => {
+  test('reports ok, warn and exceeded states', () => {
+    expect(evaluateBudget({ budget: budget({}), spent: 5 }).state).toBe('ok')
+    expect(evaluateBudget({ budget: budget({}), spent: 8 }).state).toBe('warn')
+    expect(evaluateBudget({ budget: budget({}), spent: 10 })).toEqual({
+      percent: 100,
+      state: 'exceeded',
+    })
+  })
+})
+
+describe('getApplicableBudgets', () => {
+  test('matches global, user and channel budgets', () => {
+    const budgets = [
+      budget({}),
+      budget({ scope: 'user', scope_id: 'u1' }),
+      budget({ scope: 'user', scope_id: 'u2' }),
+      budget({ scope: 'channel', scope_id: 'c1', period: 'monthly' }),
+    ]
+    const applicable = getApplicableBudgets({
+      budgets,
+      userId: 'u1',
+      channelId: 'c1',
+    })
+    expect(
+      applicable.map((b) => {
+        return `${b.scope}:${b.scope_id}`
+      }),
+    ).toEqual(['global:', 'user:u1', 'channel:c1'])
+
+    expect(getApplicableBudgets({ budgets })).toHaveLength(1)
+  })
+})
+
+describe('budget periods', () => {
+  test('uses local day and month keys', () => {
+    const timestamp = new Date(2025, 1, 3, 23, 30).getTime()
+    expect(getPeriodKey('daily', timestamp)).toBe('2025-02-03')
+    expect(getPeriodKey('monthly', timestamp)).toBe('2025-02')
+  })
+
+  test('resets at next local midnight or first of next month', () => {
+    const timestamp = new Date(2025, 11, 31, 15, 0).getTime()
+    expect(getPeriodResetTime('daily', timestamp)).toBe(
+      new Date(2026, 0, 1).getTime(),
+    )
+    expect(getPeriodResetTime('monthly', timestamp)).toBe(
+      new Date(2026, 0, 1).getTime(),
+    )
+  })
+})
@@ -0,0 +1,233 @@
+// Token and cost tracking per user, channel and day, plus budget enforcement.
+// Usage comes from assistant message info (tokens, cost) received in
+// handleOpencodeSession. Budgets warn at a threshold and, once exceeded,
+// refuse new prompts or abort running sessions.
+
+import {
+  getUsageBudgets,
+  getUsageTotals,
+  upsertUsageRecord,
+  type BudgetPeriod,
+  type UsageBudget,
+} from './database.js'
+import { createLogger, LogPrefix } from './logger.js'
+
+const usageLogger = createLogger(LogPrefix.USAGE)
+
+export type BudgetState = 'ok' | 'warn' | 'exceeded'
+
+export type BudgetCheck = {
+  budget: UsageBudget
+  spent: number
+  percent: number
+  state: BudgetState
+  // Day (YYYY-MM-DD) or month (YYYY-MM) the spend was measured for
+  periodKey: string
+}
+
+/**
+ * Local calendar day (YYYY-MM-DD) of a timestamp on the bot host.
+ */
+export function getUsageDay(timestamp: number = Date.now()): string {
+  const date = new Date(timestamp)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export function getPeriodKey(
+  period: BudgetPeriod,
+  timestamp: number = Date.now(),
+): string {
+  const day = getUsageDay(timestamp)
+  return period === 'daily' ? day : day.slice(0, 7)
+}
+
+/**
+ * When the current budget period ends: next local midnight, or the first
+ * day of next month.
+ */
+export function getPeriodResetTime(
+  period: BudgetPeriod,
+  timestamp: number = Date.now(),
+): number {
+  const date = new Date(timestamp)
+  if (period === 'daily') {
+    return new Date(
+      date.getFullYear(),
+      date.getMonth(),
+      date.getDate() + 1,
+    ).getTime()
+  }
+  return new Date(date.getFullYear(), date.getMonth() + 1, 1).getTime()
+}
+
+export function evaluateBudget({
+  budget,
+  spent,
+}: {
+  budget: UsageBudget
+  spent: number
+}): { percent: number; state: BudgetState } {
+  const percent = budget.limit_usd > 0 ? (spent / budget.limit_usd) * 100 : 100
+  if (spent >= budget.limit_usd) {
+    return { percent, state: 'exceeded' }
+  }
+  if (percent >= budget.warn_percent) {
+    return { percent, state: 'warn' }
+  }
+  return { percent, state: 'ok' }
+}
+
+/**
+ * Budgets that apply to a prompt: global ones, the user's and the channel's.
+ */
+export function getApplicableBudgets({
+  budgets,
+  userId,
+  channelId,
+}: {
+  budgets: UsageBudget[]
+  userId?: string
+  channelId?: string
+}): UsageBudget[] {
+  return budgets.filter((budget) => {
+    if (budget.scope === 'global') {
+      return true
+    }
+    if (budget.scope === 'user') {
+      return Boolean(userId) && budget.scope_id === userId
+    }
+    return Boolean(channelId) && budget.scope_id === channelId
+  })
+}
+
+/**
+ * Check every budget that applies to a user and channel against stored usage.
+ * Results are ordered most severe first.
+ */
+export function checkBudgets({
+  userId,
+  channelId,
+  now = Date.now(),
+}: {
+  userId?: string
+  channelId?: string
+  now?: number
+}): BudgetCheck[] {
+  const budgets = getApplicableBudgets({
+    budgets: getUsageBudgets(),
+    userId,
+    channelId,
+  })
+  const severity: Record<BudgetState, number> = { exceeded: 2, warn: 1, ok: 0 }
+
+  return budgets
+    .map((budget) => {
+      const periodKey = getPeriodKey(budget.period, now)
+      const { cost: spent } = getUsageTotals({
+        dayPrefix: periodKey,
+        userId: budget.scope === 'user' ? budget.scope_id : undefined,
+        channelId: budget.scope === 'channel' ? budget.scope_id : undefined,
+      })
+      return { budget, spent, periodKey, ...evaluateBudget({ budget, spent }) }
+    })
+    .sort((a, b) => {
+      return severity[b.state] - severity[a.state]
+    })
+}
+
+// Budget notifications already sent, so each warning is posted once per period
+const notifiedBudgets = new Set<string>()
+
+/**
+ * Returns true the first time a budget reaches a given state in a period.
+ */
+export function shouldNotifyBudget(check: BudgetCheck): boolean {
+  const { budget } = check
+  const key = `${budget.scope}:${budget.scope_id}:${budget.period}:${check.periodKey}:${check.state}`
+  if (notifiedBudgets.has(key)) {
+    return false
+  }
+  notifiedBudgets.add(key)
+  return true
+}
+
+export function formatUsd(amount: number): string {
+  return amount < 1 ? `$${amount.toFixed(4)}` : `$${amount.toFixed(2)}`
+}
+
+export function formatBudgetLabel(budget: UsageBudget): string {
+  if (budget.scope === 'user') {
+    return `${budget.period} budget for <@${budget.scope_id}>`
+  }
+  if (budget.scope === 'channel') {
+    return `${budget.period} budget for <#${budget.scope_id}>`
+  }
+  return `global ${budget.period} budget`
+}
+
+export function formatBudgetCheck(check: BudgetCheck): string {
+  const resetAt = Math.floor(getPeriodResetTime(check.budget.period) / 1000)
+  const amounts = `${formatUsd(check.spent)} of ${formatUsd(check.budget.limit_usd)} (${Math.round(check.percent)}%)`
+  if (check.state === 'exceeded') {
+    const consequence =
+      check.budget.action === 'abort'
+        ? 'Running sessions are aborted and new prompts are refused'
+        : 'New prompts are refused'
+    return `💸 **Budget exceeded**: ${formatBudgetLabel(check.budget)} is at ${amounts}.\n${consequence} until <t:${resetAt}:f>.`
+  }
+  return `⚠️ **Budget warning**: ${formatBudgetLabel(check.budget)} is at ${amounts}. Resets <t:${resetAt}:R>.`
+}
+
+/**
+ * Store token and cost usage for an assistant message.
+ */
+export function recordAssistantUsage({
+  message,
+  threadId,
+  channelId,
+  user,
+}: {
+  message: {
+    id: string
+    sessionID: string
+    modelID?: string
+    providerID?: string
+    cost?: number
+    tokens?: {
+      input: number
+      output: number
+      reasoning: number
+      cache: { read: number; write: number }
+    }
+  }
+  threadId: string
+  channelId?: string
+  user?: { id: string; username: string }
+}): void {
+  if (!message.tokens && !message.cost) {
+    return
+  }
+  try {
+    upsertUsageRecord({
+      message_id: message.id,
+      session_id: message.sessionID,
+      thread_id: threadId,
+      channel_id: channelId || null,
+      user_id: user?.id || null,
+      username: user?.username || null,
+      provider_id: message.providerID || null,
+      model_id: message.modelID || null,
+      input_tokens: message.tokens?.input ?? 0,
+      output_tokens: message.tokens?.output ?? 0,
+      reasoning_tokens: message.tokens?.reasoning ?? 0,
+      cache_read_tokens: message.tokens?.cache.read ?? 0,
+      cache_write_tokens: message.tokens?.cache.write ?? 0,
+      cost: message.cost ?? 0,
+      day: getUsageDay(),
+    })
+  } catch (error) {
+    usageLogger.error(`[USAGE] Failed to record usage for ${message.id}:`, error)
+  }
+}
@@ -0,0 +1,38 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { createInteractionStore } from './utils.js'
+
+describe('createInteractionStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  test('expires entries that were not used within the TTL', () => {
+    const store = createInteractionStore<string>({ ttlMs: 1000, maxSize: 10 })
+    const used = store.add('used')
+    const unused = store.add('unused')
+
+    vi.advanceTimersByTime(800)
+    expect(store.get(used)).toBe('used')
+    vi.advanceTimersByTime(800)
+    expect(store.get(used)).toBe('used')
+    expect(store.get(unused)).toBeUndefined()
+    expect(store.get(undefined)).toBeUndefined()
+  })
+
+  test('keeps only the most recent entries', () => {
+    const store = createInteractionStore<number>({ ttlMs: 1000, maxSize: 2 })
+    const first = store.add(1)
+    const second = store.add(2)
+    const third = store.add(3)
+
+    expect(store.get(first)).toBeUndefined()
+    expect(store.get(second)).toBe(2)
+    expect(store.get(third)).toBe(3)
+    store.delete(third)
+    expect(store.get(third)).toBeUndefined()
+  })
+})
@@ -1,7 +1,9 @@
 // General utility functions for the bot.
 // Includes Discord OAuth URL generation, array deduplication,
-// abort error detection, and date/time formatting helpers.
+// abort error detection, date/time formatting helpers, and expiring
+// stores for interaction state.
 
+import crypto from 'node:crypto'
 import os from 'node:os'
 import { PermissionsBitField } from 'discord.js'
 
@@ -124,3 +126,62 @@ export function abbreviatePath(fullPath: string): string {
   }
   return fullPath
 }
+
+export type InteractionStore<T> = {
+  /** Store a value and return the hash to put in a customId */
+  add: (value: T) => string
+  /** The value of a hash, or undefined when it is unknown or expired */
+  get: (hash: string | undefined) => T | undefined
+  delete: (hash: string | undefined) => void
+}
+
+/**
+ * State behind buttons and modals, stored by hash to avoid customId length
+ * limits (Discord max: 100 chars). Dismissed modals and ignored messages
+ * never come back to clean up, so entries unused for ttlMs expire and only
+ * the maxSize most recent ones are kept.
+ */
+export function createInteractionStore<T>({
+  ttlMs,
+  maxSize,
+}: {
+  ttlMs: number
+  maxSize: number
+}): InteractionStore<T> {
+  const entries = new Map<string, { value: T; lastUsed: number }>()
+
+  return {
+    add(value) {
+      const now = Date.now()
+      for (const [hash, entry] of entries) {
+        if (now - entry.lastUsed > ttlMs) {
+          entries.delete(hash)
+        }
+      }
+      // Maps iterate in insertion order, so the first key is the oldest entry
+      while (entries.size >= maxSize) {
+        entries.delete(entries.keys().next().value!)
+      }
+      const hash = crypto.randomBytes(8).toString('hex')
+      entries.set(hash, { value, lastUsed: now })
+      return hash
+    },
+    get(hash) {
+      const entry = hash ? entries.get(hash) : undefined
+      if (!entry) {
+        return undefined
+      }
+      if (Date.now() - entry.lastUsed > ttlMs) {
+        entries.delete(hash!)
+        return undefined
+      }
+      entry.lastUsed = Date.now()
+      return entry.value
+    },
+    delete(hash) {
+      if (hash) {
+        entries.delete(hash)
+      }
+    },
+  }
+}
@@ -1,6 +1,7 @@
 // Discord voice channel connection and audio stream handler.
 // Manages joining/leaving voice channels, captures user audio, resamples to 16kHz,
-// and routes audio to the GenAI worker for real-time voice assistant interactions.
+// and routes audio to the GenAI worker for real-time voice assistant interactions,
+// or to dictation.ts when the channel is in dictation mode.
 import * as errore from 'errore'
 
 import {
@@ -15,7 +16,7 @@ import fs, { createWriteStream } from 'node:fs'
 import { mkdir } from 'node:fs/promises'
 import path from 'node:path'
 import { promisify } from 'node:util'
-import { Transform, type TransformCallback } from 'node:stream'
+import { Transform, type Readable, type TransformCallback } from 'node:stream'
 import * as prism from 'prism-media'
 import dedent from 'string-dedent'
 import {
@@ -28,13 +29,18 @@ import {
   type VoiceState,
 } from 'discord.js'
 import { createGenAIWorker, type GenAIWorker } from './genai-worker-wrapper.js'
-import { getDatabase } from './database.js'
+import { getDatabase, getVoiceChannelMode } from './database.js'
 import {
   sendThreadMessage,
   escapeDiscordFormatting,
   SILENT_MESSAGE_FLAGS,
 } from './discord-utils.js'
-import { transcribeAudio } from './voice.js'
+import { transcribeForChannel } from './transcription.js'
+import {
+  DICTATION_SILENCE_MS,
+  MAX_UTTERANCE_BYTES,
+  submitDictationUtterance,
+} from './dictation.js'
 import { FetchError } from './errors.js'
 
 import { createLogger, LogPrefix } from './logger.js'
@@ -142,6 +148,107 @@ export function frameMono16khz(): Transform {
   })
 }
 
+/**
+ * Decode a user's Opus stream into 16kHz mono PCM.
+ */
+function decodeToMono16k(audioStream: Readable, userId: string): Transform {
+  const decoder = new prism.opus.Decoder({
+    rate: 48000,
+    channels: 2,
+    frameSize: 960,
+  })
+
+  decoder.on('error', (error) => {
+    voiceLogger.error(`Opus decoder error for user ${userId}:`, error)
+  })
+
+  const downsampleTransform = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      try {
+        const downsampled = convertToMono16k(chunk)
+        callback(null, downsampled)
+      } catch (error) {
+        callback(error as Error)
+      }
+    },
+  })
+
+  audioStream.on('error', (error) => {
+    voiceLogger.error(`Audio stream error for user ${userId}:`, error)
+  })
+
+  downsampleTransform.on('error', (error) => {
+    voiceLogger.error(`Downsample transform error for user ${userId}:`, error)
+  })
+
+  return audioStream.pipe(decoder).pipe(downsampleTransform)
+}
+
+/**
+ * Dictation mode: collect each utterance and hand it to dictation.ts for a
+ * transcribed preview, instead of streaming audio to the realtime model.
+ */
+function setupDictationHandling({
+  connection,
+  channelId,
+  directory,
+  appId,
+  discordClient,
+}: {
+  connection: VoiceConnection
+  channelId: string
+  directory: string
+  appId: string
+  discordClient: Client
+}) {
+  const receiver = connection.receiver
+  receiver.speaking.removeAllListeners('start')
+
+  // speaking 'start' fires again after short pauses, keep one stream per user
+  const activeSpeakers = new Set<string>()
+
+  receiver.speaking.on('start', (userId) => {
+    if (activeSpeakers.has(userId)) {
+      return
+    }
+    activeSpeakers.add(userId)
+    voiceLogger.log(`[DICTATION] User ${userId} started dictating`)
+
+    const audioStream = receiver.subscribe(userId, {
+      end: { behavior: EndBehaviorType.AfterSilence, duration: DICTATION_SILENCE_MS },
+    })
+    const chunks: Buffer[] = []
+    let size = 0
+
+    decodeToMono16k(audioStream, userId)
+      .on('data', (chunk: Buffer) => {
+        if (size + chunk.length > MAX_UTTERANCE_BYTES) {
+          return
+        }
+        chunks.push(chunk)
+        size += chunk.length
+      })
+      .on('end', () => {
+        activeSpeakers.delete(userId)
+        voiceLogger.log(`[DICTATION] User ${userId} stopped dictating`)
+        void submitDictationUtterance({
+          discordClient,
+          appId,
+          voiceChannelId: channelId,
+          directory,
+          userId,
+          pcm: Buffer.concat(chunks),
+        }).catch((error) => {
+          voiceLogger.error('[DICTATION] Failed to submit utterance:', error)
+        })
+      })
+      .on('error', (error) => {
+        activeSpeakers.delete(userId)
+        voiceLogger.error(`Pipeline error for user ${userId}:`, error)
+      })
+  })
+}
+
 export async function setupVoiceHandling({
   connection,
   guildId,
@@ -181,6 +288,23 @@ export async function setupVoiceHandling({
     return
   }
 
+  if (getVoiceChannelMode(channelId).mode === 'dictation') {
+    if (voiceData.genAiWorker) {
+      voiceLogger.log('Stopping GenAI worker for dictation mode')
+      await voiceData.genAiWorker.stop()
+      voiceData.genAiWorker = undefined
+    }
+    voiceLogger.log(`Voice channel ${channelId} is in dictation mode`)
+    setupDictationHandling({
+      connection,
+      channelId,
+      directory,
+      appId,
+      discordClient,
+    })
+    return
+  }
+
   voiceData.userAudioStream = await createUserAudioLogStream(guildId, channelId)
 
   const apiKeys = getDatabase()
@@ -316,33 +440,9 @@ export async function setupVoiceHandling({
       end: { behavior: EndBehaviorType.AfterSilence, duration: 500 },
     })
 
-    const decoder = new prism.opus.Decoder({
-      rate: 48000,
-      channels: 2,
-      frameSize: 960,
-    })
-
-    decoder.on('error', (error) => {
-      voiceLogger.error(`Opus decoder error for user ${userId}:`, error)
-    })
-
-    const downsampleTransform = new Transform({
-      transform(chunk: Buffer, _encoding, callback) {
-        try {
-          const downsampled = convertToMono16k(chunk)
-          callback(null, downsampled)
-        } catch (error) {
-          callback(error as Error)
-        }
-      },
-    })
-
     const framer = frameMono16khz()
 
-    const pipeline = audioStream
-      .pipe(decoder)
-      .pipe(downsampleTransform)
-      .pipe(framer)
+    const pipeline = decodeToMono16k(audioStream, userId).pipe(framer)
 
     pipeline
       .on('data', (frame: Buffer) => {
@@ -384,14 +484,6 @@ export async function setupVoiceHandling({
         voiceLogger.error(`Pipeline error for user ${userId}:`, error)
       })
 
-    audioStream.on('error', (error) => {
-      voiceLogger.error(`Audio stream error for user ${userId}:`, error)
-    })
-
-    downsampleTransform.on('error', (error) => {
-      voiceLogger.error(`Downsample transform error for user ${userId}:`, error)
-    })
-
     framer.on('error', (error) => {
       voiceLogger.error(`Framer error for user ${userId}:`, error)
     })
@@ -513,8 +605,10 @@ export async function processVoiceAttachment({
     }
   }
 
-  const transcription = await transcribeAudio({
+  const transcription = await transcribeForChannel({
+    channelId: thread.parentId || thread.id,
     audio: audioBuffer,
+    filename: audioAttachment.name,
     prompt: transcriptionPrompt,
     geminiApiKey,
     directory: projectDirectory,
@@ -0,0 +1,65 @@
+import type { Part } from '@opencode-ai/sdk/v2'
+import { describe, expect, test } from 'vitest'
+import { buildSpokenSummary } from './voice-summary.js'
+
+let nextId = 0
+
+function toolPart(tool: string, input: Record<string, unknown>, extra: Record<string, unknown> = {}): Part {
+  return {
+    id: `prt_${nextId++}`,
+    sessionID: 'ses_1',
+    messageID: 'msg_1',
+    type: 'tool',
+    callID: `call_${nextId}`,
+    tool,
+    state: { status: 'completed', input, output: '', title: '', metadata: {}, time: { start: 0, end: 1 }, ...extra },
+  } as Part
+}
+
+function textPart(text: string): Part {
+  return { id: `prt_${nextId++}`, sessionID: 'ses_1', messageID: 'msg_1', type: 'text', text } as Part
+}
+
+describe('buildSpokenSummary', () => {
+  test('lists edited files and the test status', () => {
+    const summary = buildSpokenSummary({
+      projectName: 'disunday',
+      parts: [
+        toolPart('edit', { filePath: '/repo/src/voice-handler.ts' }),
+        toolPart('write', { filePath: '/repo/src/tts.ts' }),
+        toolPart('edit', { filePath: '/repo/src/voice-handler.ts' }),
+        toolPart('bash', { command: 'pnpm vitest run' }, { metadata: { exit: 1 } }),
+        toolPart('bash', { command: 'pnpm test' }, { metadata: { exit: 0 } }),
+        textPart('Added the engine and all tests pass.'),
+      ],
+    })
+
+    expect(summary).toBe('Session in disunday finished. Edited voice handler and tts. Tests passed.')
+  })
+
+  test('counts patched files and reports failing tests', () => {
+    const summary = buildSpokenSummary({
+      projectName: 'api',
+      parts: [
+        toolPart('apply_patch', {
+          patchText: '*** Begin Patch\n*** Update File: a.ts\n*** Add File: b.ts\n*** Update File: c.ts\n*** Delete File: d.ts\n*** End Patch',
+        }),
+        toolPart('bash', { command: 'cargo test' }, { status: 'error', error: 'exit 101' }),
+      ],
+    })
+
+    expect(summary).toBe('Session in api finished. Edited a, b and 2 other files. Tests failed.')
+  })
+
+  test('reads out the closing question when the agent is blocked', () => {
+    const summary = buildSpokenSummary({
+      projectName: 'web',
+      failed: false,
+      parts: [textPart('I found two login forms. Should I update **both** of them?')],
+    })
+
+    expect(summary).toBe(
+      'Session in web finished. No files were changed. It is waiting for you: Should I update both of them?',
+    )
+  })
+})
@@ -0,0 +1,246 @@
+// Spoken session summaries.
+// When a session completes and the bot sits in the project's voice channel,
+// the channel's TTS engine reads out what changed: edited files, the test
+// status and the agent's closing question if it is waiting on the user.
+// Audio goes through the same Opus packet stream as the GenAI assistant.
+
+import { VoiceConnectionStatus } from '@discordjs/voice'
+import type { Part } from '@opencode-ai/sdk/v2'
+import { getChannelVoiceSummary, getDatabase } from './database.js'
+import { getProjectVoiceChannelId } from './dictation.js'
+import { parsePatchCounts } from './message-formatting.js'
+import { createOpusPacketStream } from './opus-stream.js'
+import { createTtsEngine, type SpeechAudio } from './tts.js'
+import { voiceConnections } from './voice-handler.js'
+import { createLogger, LogPrefix } from './logger.js'
+
+const voiceLogger = createLogger(LogPrefix.VOICE)
+
+const MAX_SPOKEN_FILES = 3
+const MAX_QUESTION_LENGTH = 200
+const EDIT_TOOLS = new Set(['edit', 'write', 'multiedit'])
+const TEST_COMMAND =
+  /\b(vitest|jest|pytest|mocha|playwright)\b|\b(npm|pnpm|yarn|bun|deno|cargo|go|mix|dotnet|make)\s+(run\s+)?test\b/
+
+// Playback per voice channel, so two summaries never interleave packets
+const playbackQueues = new Map<string, Promise<void>>()
+
+// "src/voice-handler.ts" → "voice handler"
+function speakableFileName(filePath: string): string {
+  const fileName = filePath.split('/').pop() || filePath
+  return fileName.replace(/\.[^.]+$/, '').replace(/[-_.]+/g, ' ').trim() || fileName
+}
+
+function listForSpeech(items: string[]): string {
+  if (items.length <= 1) {
+    return items[0] ?? ''
+  }
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`
+}
+
+function getEditedFiles(parts: Part[]): string[] {
+  const files = new Set<string>()
+  for (const part of parts) {
+    if (part.type !== 'tool' || part.state.status !== 'completed') {
+      continue
+    }
+    if (EDIT_TOOLS.has(part.tool)) {
+      const filePath = part.state.input?.filePath as string | undefined
+      if (filePath) {
+        files.add(filePath)
+      }
+    }
+    if (part.tool === 'apply_patch') {
+      const patchText = (part.state.input?.patchText as string) || ''
+      for (const filePath of parsePatchCounts(patchText).keys()) {
+        files.add(filePath)
+      }
+    }
+  }
+  return [...files]
+}
+
+// Status of the last test command the agent ran, if any
+function getTestStatus(parts: Part[]): 'passed' | 'failed' | undefined {
+  const testRuns = parts.filter((part) => {
+    return (
+      part.type === 'tool' &&
+      part.tool === 'bash' &&
+      (part.state.status === 'completed' || part.state.status === 'error') &&
+      TEST_COMMAND.test((part.state.input?.command as string) || '')
+    )
+  })
+  const last = testRuns[testRuns.length - 1]
+  if (!last || last.type !== 'tool') {
+    return undefined
+  }
+  if (last.state.status !== 'completed') {
+    return 'failed'
+  }
+  const exit = (last.state.metadata as { exit?: unknown } | undefined)?.exit
+  return typeof exit === 'number' && exit !== 0 ? 'failed' : 'passed'
+}
+
+// Closing question of the agent's last reply, when it ends with one
+function getClosingQuestion(parts: Part[]): string | undefined {
+  const lastText = parts.filter((part) => part.type === 'text' && !part.synthetic).pop()
+  if (!lastText || lastText.type !== 'text') {
+    return undefined
+  }
+  const text = lastText.text
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/[*_`#>]/g, '')
+    .trim()
+  const sentence = text.split(/(?<=[.!?])\s+/).pop()?.trim()
+  if (!sentence?.endsWith('?')) {
+    return undefined
+  }
+  return sentence.length > MAX_QUESTION_LENGTH
+    ? `${sentence.slice(0, MAX_QUESTION_LENGTH)}…`
+    : sentence
+}
+
+/**
+ * Short text to read out when a session completes.
+ */
+export function buildSpokenSummary({
+  projectName,
+  parts,
+  failed = false,
+}: {
+  projectName: string
+  parts: Part[]
+  failed?: boolean
+}): string {
+  const sentences = [
+    failed
+      ? `Session in ${projectName} stopped with an error.`
+      : `Session in ${projectName} finished.`,
+  ]
+
+  const files = getEditedFiles(parts).map(speakableFileName)
+  if (files.length === 0) {
+    sentences.push('No files were changed.')
+  } else if (files.length > MAX_SPOKEN_FILES) {
+    const others = files.length - MAX_SPOKEN_FILES + 1
+    sentences.push(`Edited ${files.slice(0, MAX_SPOKEN_FILES - 1).join(', ')} and ${others} other files.`)
+  } else {
+    sentences.push(`Edited ${listForSpeech(files)}.`)
+  }
+
+  const testStatus = getTestStatus(parts)
+  if (testStatus) {
+    sentences.push(testStatus === 'passed' ? 'Tests passed.' : 'Tests failed.')
+  }
+
+  const question = getClosingQuestion(parts)
+  if (question) {
+    sentences.push(`It is waiting for you: ${question}`)
+  }
+  return sentences.join(' ')
+}
+
+function getReadyConnection(voiceChannelId: string) {
+  for (const { connection } of voiceConnections.values()) {
+    if (
+      connection.joinConfig.channelId === voiceChannelId &&
+      connection.state.status === VoiceConnectionStatus.Ready
+    ) {
+      return connection
+    }
+  }
+  return undefined
+}
+
+/**
+ * Play PCM audio to the listeners of a voice channel the bot is connected to.
+ * Resolves once playback is done; does nothing when the bot is not there.
+ */
+export function playInVoiceChannel({
+  voiceChannelId,
+  audio,
+}: {
+  voiceChannelId: string
+  audio: SpeechAudio
+}): Promise<void> {
+  const previous = playbackQueues.get(voiceChannelId) ?? Promise.resolve()
+  const playback = previous.then(async () => {
+    const connection = getReadyConnection(voiceChannelId)
+    if (!connection) {
+      return
+    }
+    const opusStream = createOpusPacketStream({
+      inputSampleRate: audio.sampleRate,
+      inputChannels: audio.channels,
+      onPacket(packet) {
+        if (connection.state.status !== VoiceConnectionStatus.Ready) {
+          return
+        }
+        connection.setSpeaking(true)
+        connection.playOpusPacket(packet)
+      },
+      onError(error) {
+        voiceLogger.error('[VOICE SUMMARY] Audio pipeline error:', error)
+      },
+    })
+    opusStream.write(audio.pcm)
+    await opusStream.drain()
+    connection.setSpeaking(false)
+  })
+  const queued = playback.catch((error) => {
+    voiceLogger.error('[VOICE SUMMARY] Playback failed:', error)
+  })
+  playbackQueues.set(voiceChannelId, queued)
+  void queued.then(() => {
+    if (playbackQueues.get(voiceChannelId) === queued) {
+      playbackQueues.delete(voiceChannelId)
+    }
+  })
+  return queued
+}
+
+/**
+ * Speak the summary of a completed session in the project's voice channel,
+ * when the channel has spoken summaries on and the bot is connected there.
+ */
+export async function speakSessionSummary({
+  appId,
+  channelId,
+  directory,
+  parts,
+  failed,
+}: {
+  appId: string
+  channelId: string
+  directory: string
+  parts: Part[]
+  failed?: boolean
+}): Promise<void> {
+  const settings = getChannelVoiceSummary(channelId)
+  const voiceChannelId = getProjectVoiceChannelId(directory)
+  if (!settings || !voiceChannelId || !getReadyConnection(voiceChannelId)) {
+    return
+  }
+
+  const apiKeys = getDatabase()
+    .prepare('SELECT gemini_api_key FROM bot_api_keys WHERE app_id = ?')
+    .get(appId) as { gemini_api_key: string | null } | undefined
+  const engine = createTtsEngine({
+    settings,
+    geminiApiKey: apiKeys?.gemini_api_key ?? undefined,
+  })
+  if (engine instanceof Error) {
+    voiceLogger.error('[VOICE SUMMARY] No TTS engine:', engine)
+    return
+  }
+
+  const projectName = directory.split('/').pop() || directory
+  const text = buildSpokenSummary({ projectName, parts, failed })
+  voiceLogger.log(`[VOICE SUMMARY] Speaking with ${engine.name} in ${voiceChannelId}: ${text}`)
+  const audio = await engine.synthesize(text)
+  if (audio instanceof Error) {
+    voiceLogger.error('[VOICE SUMMARY] Synthesis failed:', audio)
+    return
+  }
+  await playInVoiceChannel({ voiceChannelId, audio })
+}
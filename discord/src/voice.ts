@@ -1,6 +1,7 @@
 // Audio transcription service using Google Gemini.
 // Transcribes voice messages with code-aware context, using grep/glob tools
 // to verify technical terms, filenames, and function names in the codebase.
+// Local backends and the channel setting that picks one are in transcription.ts.
 // Uses errore for type-safe error handling.
 
 import { GoogleGenAI, Type, type Content, type Part, type Tool } from '@google/genai'
@@ -78,7 +79,7 @@ function runGlob({ pattern, directory }: { pattern: string; directory: string })
   })
 }
 
-const grepToolDeclaration = {
+export const grepToolDeclaration = {
   name: 'grep',
   description:
     'Search for a pattern in file contents to verify if a technical term, function name, or variable exists in the code. Use this to check if transcribed words match actual code.',
@@ -95,7 +96,7 @@ const grepToolDeclaration = {
   },
 }
 
-const globToolDeclaration = {
+export const globToolDeclaration = {
   name: 'glob',
   description:
     'Search for files by name pattern. Use this to verify if a filename or directory mentioned in the audio actually exists in the project.',
@@ -112,7 +113,7 @@ const globToolDeclaration = {
   },
 }
 
-const transcriptionResultToolDeclaration = {
+export const transcriptionResultToolDeclaration = {
   name: 'transcriptionResult',
   description:
     'MANDATORY: You MUST call this tool to complete the task. This is the ONLY way to return results - text responses are ignored. Call this with your transcription, even if imperfect. An imperfect transcription is better than none.',
@@ -129,7 +130,7 @@ const transcriptionResultToolDeclaration = {
   },
 }
 
-function createToolRunner({ directory }: { directory?: string }): TranscriptionToolRunner {
+export function createToolRunner({ directory }: { directory?: string }): TranscriptionToolRunner {
   const hasDirectory = directory && directory.trim().length > 0
 
   return async ({ name, args }) => {
@@ -174,6 +175,22 @@ function createToolRunner({ directory }: { directory?: string }): TranscriptionT
   }
 }
 
+/**
+ * Reminder appended to tool responses as the step budget runs out.
+ */
+export function getStepsWarning(stepsRemaining: number): string {
+  if (stepsRemaining <= 0) {
+    return '\n\n[CRITICAL: Tool limit reached. You MUST call transcriptionResult NOW. No more grep/glob allowed. Call transcriptionResult immediately with your best transcription.]'
+  }
+  if (stepsRemaining === 1) {
+    return '\n\n[URGENT: FINAL STEP. You MUST call transcriptionResult NOW. Do NOT call grep or glob. Call transcriptionResult with your transcription immediately.]'
+  }
+  if (stepsRemaining <= 3) {
+    return `\n\n[WARNING: Only ${stepsRemaining} steps remaining. Finish searching soon and call transcriptionResult. Do not wait until the last step.]`
+  }
+  return ''
+}
+
 type TranscriptionLoopError =
   | NoResponseContentError
   | TranscriptionError
@@ -272,18 +289,7 @@ export async function runTranscriptionLoop({
 
       if (result.type === 'toolResponse') {
         stepsRemaining--
-        const stepsWarning: string = (() => {
-          if (stepsRemaining <= 0) {
-            return '\n\n[CRITICAL: Tool limit reached. You MUST call transcriptionResult NOW. No more grep/glob allowed. Call transcriptionResult immediately with your best transcription.]'
-          }
-          if (stepsRemaining === 1) {
-            return '\n\n[URGENT: FINAL STEP. You MUST call transcriptionResult NOW. Do NOT call grep or glob. Call transcriptionResult with your transcription immediately.]'
-          }
-          if (stepsRemaining <= 3) {
-            return `\n\n[WARNING: Only ${stepsRemaining} steps remaining. Finish searching soon and call transcriptionResult. Do not wait until the last step.]`
-          }
-          return ''
-        })()
+        const stepsWarning = getStepsWarning(stepsRemaining)
 
         functionResponseParts.push({
           functionResponse: {
@@ -338,6 +344,7 @@ export type TranscribeAudioErrors =
 
 export function transcribeAudio({
   audio,
+  mimeType = 'audio/mpeg',
   prompt,
   language,
   temperature,
@@ -347,6 +354,7 @@ export function transcribeAudio({
   lastSessionContext,
 }: {
   audio: Buffer | Uint8Array | ArrayBuffer | string
+  mimeType?: string
   prompt?: string
   language?: string
   temperature?: number
@@ -451,7 +459,7 @@ Note: "critique" is a CLI tool for showing diffs in the browser.`
         {
           inlineData: {
             data: audioBase64,
-            mimeType: 'audio/mpeg',
+            mimeType,
           },
         },
       ],
@@ -0,0 +1,223 @@
+import { execFileSync, execSync } from 'node:child_process'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { afterAll, beforeAll, describe, expect, test } from 'vitest'
+import { setDataDir } from './config.js'
+import {
+  closeDatabase,
+  createPendingWorktree,
+  getDatabase,
+  getProjectDirectories,
+  getThreadWorktree,
+  markWorktreeMerged,
+  setWorktreeArchived,
+  setWorktreeReady,
+} from './database.js'
+import {
+  collectProjectWorktrees,
+  collectWorktreeGarbage,
+  getThreadWorktreeDirectory,
+  handleWorktreeThreadArchived,
+  pruneWorktrees,
+  selectPrunable,
+} from './worktree-lifecycle.js'
+
+let tmpDir: string
+let projectDir: string
+
+function git(args: string, cwd = projectDir): string {
+  return execSync(
+    `git -c user.name=test -c user.email=test@example.com -c init.defaultBranch=main ${args}`,
+    { cwd, stdio: 'pipe' },
+  )
+    .toString()
+    .trim()
+}
+
+function addThreadWorktree(threadId: string, name: string): string {
+  const directory = path.join(tmpDir, 'worktrees', name)
+  git(`worktree add -q -b opencode/disunday-${name} "${directory}"`)
+  createPendingWorktree({
+    threadId,
+    worktreeName: `opencode/disunday-${name}`,
+    projectDirectory: projectDir,
+  })
+  setWorktreeReady({ threadId, worktreeDirectory: directory })
+  return directory
+}
+
+beforeAll(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'disunday-lifecycle-test-'))
+  setDataDir(path.join(tmpDir, 'data'))
+  projectDir = path.join(tmpDir, 'project')
+  fs.mkdirSync(projectDir)
+  git('init -q')
+  fs.writeFileSync(path.join(projectDir, 'README.md'), 'hello\n')
+  git('add README.md')
+  git('commit -q -m init')
+})
+
+afterAll(() => {
+  closeDatabase()
+  fs.rmSync(tmpDir, { recursive: true, force: true })
+})
+
+describe('collectProjectWorktrees', () => {
+  test('reports thread and orphaned worktrees and prunes only safe ones', async () => {
+    const activeDir = addThreadWorktree('thread-active', 'active')
+    fs.writeFileSync(path.join(activeDir, 'wip.txt'), 'wip\n')
+    git(`worktree add -q -b opencode/disunday-orphan "${path.join(tmpDir, 'worktrees', 'orphan')}"`)
+    git('branch opencode/disunday-merged')
+    git('branch opencode/disunday-unmerged')
+    git('commit -q --allow-empty -m "unmerged work"', path.join(tmpDir, 'worktrees', 'orphan'))
+    git('branch -f opencode/disunday-unmerged opencode/disunday-orphan')
+
+    const report = await collectProjectWorktrees(projectDir)
+    expect(
+      report.worktrees.map((worktree) => {
+        return [worktree.branch, worktree.state, worktree.threadId, worktree.dirty, worktree.unmerged]
+      }),
+    ).toEqual([
+      ['opencode/disunday-active', 'active', 'thread-active', true, 0],
+      ['opencode/disunday-orphan', 'orphaned', null, false, 1],
+    ])
+    expect(report.worktrees[0]!.sizeBytes).toBeGreaterThan(0)
+    expect(report.orphanBranches).toEqual([
+      { name: 'opencode/disunday-merged', merged: true },
+      { name: 'opencode/disunday-unmerged', merged: false },
+    ])
+
+    const safe = selectPrunable(report)
+    expect(safe.worktrees).toEqual([])
+    expect(safe.branches).toEqual(['opencode/disunday-merged'])
+
+    const forced = selectPrunable(report, { force: true })
+    const result = await pruneWorktrees({ projectDirectory: projectDir, ...forced })
+    expect(result.removed).toEqual([path.join(tmpDir, 'worktrees', 'orphan')])
+    expect(result.branches).toEqual(['opencode/disunday-merged', 'opencode/disunday-unmerged'])
+    expect(result.failed).toEqual([])
+    expect(fs.existsSync(activeDir)).toBe(true)
+    expect(git('branch --list "opencode/*" --format="%(refname:short)"')).toBe(
+      'opencode/disunday-active',
+    )
+  })
+
+  test('does not report worktrees of threads still being created', async () => {
+    git(`worktree add -q -b opencode/disunday-creating "${path.join(tmpDir, 'worktrees', 'creating')}"`)
+    createPendingWorktree({
+      threadId: 'thread-creating',
+      worktreeName: 'opencode/disunday-creating',
+      projectDirectory: projectDir,
+    })
+
+    const report = await collectProjectWorktrees(projectDir)
+    expect(report.worktrees.map((worktree) => worktree.branch)).not.toContain('opencode/disunday-creating')
+    expect(report.orphanBranches.map((branch) => branch.name)).not.toContain('opencode/disunday-creating')
+  })
+
+  test('never passes branch names through a shell', async () => {
+    const marker = path.join(tmpDir, 'injected')
+    const name = `opencode/disunday-a;touch\${IFS}${marker}`
+    execFileSync('git', ['branch', name], { cwd: projectDir })
+
+    const report = await collectProjectWorktrees(projectDir)
+    expect(report.orphanBranches.map((branch) => branch.name)).not.toContain(name)
+    const result = await pruneWorktrees({ projectDirectory: projectDir, worktrees: [], branches: [name] })
+    expect(result.failed).toEqual([{ name, reason: `Invalid branch name: ${name}` }])
+    expect(fs.existsSync(marker)).toBe(false)
+
+    execFileSync('git', ['branch', '-D', name], { cwd: projectDir })
+  })
+})
+
+describe('handleWorktreeThreadArchived', () => {
+  test('keeps worktrees of idle threads through archive, unarchive and the next prompt', async () => {
+    const idleDir = addThreadWorktree('thread-idle', 'idle')
+
+    // Discord's auto-archive looks like any other archive
+    expect(await handleWorktreeThreadArchived({ threadId: 'thread-idle', archived: true })).toBe(false)
+    expect(fs.existsSync(idleDir)).toBe(true)
+    expect(getThreadWorktree('thread-idle')).toMatchObject({ status: 'ready' })
+    expect(getThreadWorktree('thread-idle')?.archived_at).toBeTruthy()
+
+    await handleWorktreeThreadArchived({ threadId: 'thread-idle', archived: false })
+    expect(getThreadWorktree('thread-idle')?.archived_at).toBeNull()
+    expect(getThreadWorktreeDirectory('thread-idle')).toBe(idleDir)
+  })
+
+  test('removes clean worktrees of deleted or locked threads and keeps ones with unmerged work', async () => {
+    const cleanDir = addThreadWorktree('thread-clean', 'clean')
+    const workDir = addThreadWorktree('thread-work', 'work')
+    git('commit -q --allow-empty -m "feature"', workDir)
+
+    expect(
+      await handleWorktreeThreadArchived({ threadId: 'thread-clean', archived: true, removeNow: true }),
+    ).toBe(true)
+    expect(
+      await handleWorktreeThreadArchived({ threadId: 'thread-work', archived: true, removeNow: true }),
+    ).toBe(false)
+
+    expect(fs.existsSync(cleanDir)).toBe(false)
+    expect(getThreadWorktree('thread-clean')?.status).toBe('removed')
+    // Prompts are refused rather than run in the project checkout
+    expect(getThreadWorktreeDirectory('thread-clean')).toBeInstanceOf(Error)
+    expect(fs.existsSync(workDir)).toBe(true)
+    expect(getThreadWorktree('thread-work')).toMatchObject({ status: 'ready' })
+    expect(getThreadWorktree('thread-work')?.archived_at).toBeTruthy()
+
+    const report = await collectProjectWorktrees(projectDir)
+    expect(
+      report.worktrees.find((worktree) => worktree.threadId === 'thread-work')?.state,
+    ).toBe('archived')
+  })
+})
+
+describe('getProjectDirectories', () => {
+  test('collects only projects of the given bot and unowned channels', () => {
+    const insert = getDatabase().prepare(
+      'INSERT INTO channel_directories (channel_id, directory, channel_type, app_id) VALUES (?, ?, ?, ?)',
+    )
+    insert.run('gc-channel-a', '/projects/a', 'text', 'app-a')
+    insert.run('gc-channel-b', '/projects/b', 'text', 'app-b')
+    insert.run('gc-channel-shared', '/projects/shared', 'text', null)
+    insert.run('gc-voice-a', '/projects/voice', 'voice', 'app-a')
+
+    expect(getProjectDirectories('app-a').sort()).toEqual(['/projects/a', '/projects/shared'])
+    expect(getProjectDirectories('app-b').sort()).toEqual(['/projects/b', '/projects/shared'])
+  })
+})
+
+describe('collectWorktreeGarbage', () => {
+  test('removes merged and archived worktrees after their retention and reports their threads', async () => {
+    getDatabase()
+      .prepare('INSERT INTO channel_directories (channel_id, directory, channel_type, app_id) VALUES (?, ?, ?, ?)')
+      .run('gc-project', projectDir, 'text', 'app-gc')
+    const recentDir = addThreadWorktree('thread-merged-recent', 'merged-recent')
+    const oldDir = addThreadWorktree('thread-merged-old', 'merged-old')
+    markWorktreeMerged('thread-merged-recent')
+    markWorktreeMerged('thread-merged-old')
+    getDatabase()
+      .prepare("UPDATE thread_worktrees SET merged_at = datetime('now', '-2 days') WHERE thread_id = ?")
+      .run('thread-merged-old')
+    const archivedRecentDir = addThreadWorktree('thread-archived-recent', 'archived-recent')
+    const archivedOldDir = addThreadWorktree('thread-archived-old', 'archived-old')
+    setWorktreeArchived({ threadId: 'thread-archived-recent', archived: true })
+    setWorktreeArchived({ threadId: 'thread-archived-old', archived: true })
+    getDatabase()
+      .prepare("UPDATE thread_worktrees SET archived_at = datetime('now', '-8 days') WHERE thread_id = ?")
+      .run('thread-archived-old')
+
+    const result = await collectWorktreeGarbage('app-gc')
+    expect(result.removed.sort()).toEqual([archivedOldDir, oldDir].sort())
+    expect(result.removedThreads.sort((a, b) => a.threadId.localeCompare(b.threadId))).toEqual([
+      { threadId: 'thread-archived-old', reason: 'archived' },
+      { threadId: 'thread-merged-old', reason: 'merged' },
+    ])
+    expect(fs.existsSync(recentDir)).toBe(true)
+    expect(fs.existsSync(archivedRecentDir)).toBe(true)
+    expect(fs.existsSync(path.join(tmpDir, 'worktrees', 'idle'))).toBe(true)
+    expect(fs.existsSync(path.join(tmpDir, 'worktrees', 'creating'))).toBe(true)
+    expect(getThreadWorktree('thread-merged-old')?.status).toBe('removed')
+  })
+})
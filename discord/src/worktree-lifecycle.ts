@@ -0,0 +1,625 @@
+// Worktree lifecycle: listing, pruning and garbage collection.
+// A thread's worktree is removed when the thread is deleted or locked, or
+// archived longer than a retention period, and the worktree holds no
+// uncommitted or unmerged work. Merged worktrees are removed after a
+// retention period too, with a notice in their thread. Threads whose worktree
+// is gone refuse new prompts instead of running in the project directory.
+// Worktree directories and branches that no thread refers to (left behind by
+// crashes or manual cleanup) are collected too.
+
+import { execFile } from 'node:child_process'
+import fs from 'node:fs'
+import path from 'node:path'
+import { promisify } from 'node:util'
+import type { Client } from 'discord.js'
+import * as errore from 'errore'
+import {
+  getProjectDirectories,
+  getThreadWorktree,
+  listThreadWorktrees,
+  setWorktreeArchived,
+  setWorktreeRemoved,
+} from './database.js'
+import { sendThreadMessage } from './discord-utils.js'
+import { createLogger, LogPrefix } from './logger.js'
+import { getDefaultBranch, validateGitName } from './pull-request.js'
+import { TEMP_BRANCH_PREFIX } from './worktree-merge.js'
+import { runGit, WORKTREE_BRANCH_PREFIX } from './worktree-utils.js'
+
+const logger = createLogger(LogPrefix.WORKTREE)
+const execFileAsync = promisify(execFile)
+
+const GC_INTERVAL_MS = 60 * 60 * 1000
+
+// Merged worktrees stay around this long so the thread can keep working
+export const MERGED_RETENTION_MS = 24 * 60 * 60 * 1000
+
+// Discord auto-archives idle threads, so archived worktrees are kept long
+// enough for the user to come back
+export const ARCHIVED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+
+export type GitWorktree = {
+  directory: string
+  branch: string | null
+  head: string
+}
+
+export type WorktreeState = 'active' | 'merged' | 'archived' | 'orphaned' | 'missing'
+
+export type ProjectWorktree = {
+  directory: string
+  branch: string | null
+  /** Null for orphaned worktrees */
+  threadId: string | null
+  state: WorktreeState
+  createdAt: Date | null
+  mergedAt: Date | null
+  archivedAt: Date | null
+  sizeBytes: number
+  /** Has uncommitted changes */
+  dirty: boolean
+  /** Commits not on the default branch, null when unknown */
+  unmerged: number | null
+}
+
+export type OrphanBranch = {
+  name: string
+  /** Fully merged into the default branch */
+  merged: boolean
+}
+
+export type ProjectWorktreeReport = {
+  projectDirectory: string
+  defaultBranch: string
+  worktrees: ProjectWorktree[]
+  orphanBranches: OrphanBranch[]
+}
+
+export type PruneResult = {
+  removed: string[]
+  branches: string[]
+  failed: { name: string; reason: string }[]
+}
+
+export type RemovedThreadWorktree = {
+  threadId: string
+  reason: 'merged' | 'archived'
+}
+
+export type GarbageResult = PruneResult & {
+  // Threads whose worktree was removed, to be told about it
+  removedThreads: RemovedThreadWorktree[]
+}
+
+/**
+ * Parse a SQLite CURRENT_TIMESTAMP value (UTC, no zone suffix).
+ */
+function parseTimestamp(value: string | null | undefined): Date | null {
+  if (!value) {
+    return null
+  }
+  const date = new Date(`${value.replace(' ', 'T')}Z`)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+function normalizePath(directory: string): string {
+  try {
+    return fs.realpathSync(directory)
+  } catch {
+    return path.resolve(directory)
+  }
+}
+
+function isManagedBranch(branch: string): boolean {
+  return branch.startsWith(WORKTREE_BRANCH_PREFIX) || branch.startsWith(TEMP_BRANCH_PREFIX)
+}
+
+/**
+ * Linked worktrees of a repository, excluding the main worktree.
+ */
+export async function listGitWorktrees(projectDirectory: string): Promise<GitWorktree[]> {
+  const output = await runGit(projectDirectory, ['worktree', 'list', '--porcelain'])
+  if (output instanceof Error) {
+    logger.warn(`Failed to list worktrees in ${projectDirectory}: ${output.message}`)
+    return []
+  }
+
+  const worktrees = output.split('\n\n').map((block) => {
+    const worktree: GitWorktree = { directory: '', branch: null, head: '' }
+    for (const line of block.split('\n')) {
+      if (line.startsWith('worktree ')) {
+        worktree.directory = line.slice('worktree '.length)
+      } else if (line.startsWith('HEAD ')) {
+        worktree.head = line.slice('HEAD '.length)
+      } else if (line.startsWith('branch refs/heads/')) {
+        worktree.branch = line.slice('branch refs/heads/'.length)
+      }
+    }
+    return worktree
+  })
+  // The first entry is always the main worktree
+  return worktrees.slice(1).filter((worktree) => worktree.directory)
+}
+
+/**
+ * Disk usage of a directory in bytes, 0 when it cannot be measured.
+ */
+export async function getDiskUsage(directory: string): Promise<number> {
+  try {
+    const { stdout } = await execFileAsync('du', ['-sk', directory])
+    return Number.parseInt(stdout, 10) * 1024 || 0
+  } catch (error) {
+    logger.debug(
+      `Failed to measure ${directory}:`,
+      error instanceof Error ? error.message : String(error),
+    )
+    return 0
+  }
+}
+
+async function inspectWorktree({
+  directory,
+  defaultBranch,
+}: {
+  directory: string
+  defaultBranch: string
+}): Promise<{ dirty: boolean; unmerged: number | null }> {
+  const status = await runGit(directory, ['status', '--porcelain'])
+  const ahead = await runGit(directory, ['rev-list', '--count', `${defaultBranch}..HEAD`, '--'])
+  return {
+    // Unknown status counts as dirty so it is never removed silently
+    dirty: status instanceof Error || status.length > 0,
+    unmerged: ahead instanceof Error ? null : Number.parseInt(ahead, 10),
+  }
+}
+
+/**
+ * True when removing the worktree loses no work.
+ */
+export function isSafeToRemove(worktree: ProjectWorktree): boolean {
+  return worktree.state === 'missing' || (!worktree.dirty && worktree.unmerged === 0)
+}
+
+/**
+ * Thread worktrees and orphaned worktrees and branches of a project.
+ */
+export async function collectProjectWorktrees(
+  projectDirectory: string,
+): Promise<ProjectWorktreeReport> {
+  const defaultBranch = await getDefaultBranch({ directory: projectDirectory, remote: 'origin' })
+  const gitWorktrees = await listGitWorktrees(projectDirectory)
+  const threadRows = listThreadWorktrees([projectDirectory])
+  const rows = threadRows.filter((row) => {
+    return row.status === 'ready' && row.worktree_directory
+  })
+  // Worktrees still being created have no directory yet; their branch is
+  // the only way to tell them from orphans
+  const pendingBranches = new Set(
+    threadRows.filter((row) => row.status === 'pending').map((row) => row.worktree_name),
+  )
+
+  const worktrees: ProjectWorktree[] = []
+  const claimed = new Set<string>()
+
+  for (const row of rows) {
+    const directory = row.worktree_directory!
+    const normalized = normalizePath(directory)
+    claimed.add(normalized)
+    const gitWorktree = gitWorktrees.find((candidate) => {
+      return normalizePath(candidate.directory) === normalized
+    })
+    const exists = fs.existsSync(directory)
+    const health = exists
+      ? await inspectWorktree({ directory, defaultBranch })
+      : { dirty: false, unmerged: 0 }
+
+    worktrees.push({
+      directory,
+      branch: gitWorktree ? gitWorktree.branch : row.worktree_name,
+      threadId: row.thread_id,
+      state: !exists
+        ? 'missing'
+        : row.archived_at
+          ? 'archived'
+          : row.merged_at
+            ? 'merged'
+            : 'active',
+      createdAt: parseTimestamp(row.created_at),
+      mergedAt: parseTimestamp(row.merged_at),
+      archivedAt: parseTimestamp(row.archived_at),
+      sizeBytes: exists ? await getDiskUsage(directory) : 0,
+      ...health,
+    })
+  }
+
+  for (const gitWorktree of gitWorktrees) {
+    if (
+      claimed.has(normalizePath(gitWorktree.directory)) ||
+      (gitWorktree.branch && pendingBranches.has(gitWorktree.branch))
+    ) {
+      continue
+    }
+    // Only worktrees this bot created; detached ones are recognized by path
+    const managed = gitWorktree.branch
+      ? isManagedBranch(gitWorktree.branch)
+      : gitWorktree.directory.includes('disunday-')
+    if (!managed) {
+      continue
+    }
+    const stat = fs.statSync(gitWorktree.directory, { throwIfNoEntry: false })
+    const exists = Boolean(stat)
+    const health = exists
+      ? await inspectWorktree({ directory: gitWorktree.directory, defaultBranch })
+      : { dirty: false, unmerged: 0 }
+    worktrees.push({
+      directory: gitWorktree.directory,
+      branch: gitWorktree.branch,
+      threadId: null,
+      state: exists ? 'orphaned' : 'missing',
+      // birthtime is 0 on filesystems that do not record it
+      createdAt: stat ? (stat.birthtimeMs > 0 ? stat.birthtime : stat.mtime) : null,
+      mergedAt: null,
+      archivedAt: null,
+      sizeBytes: exists ? await getDiskUsage(gitWorktree.directory) : 0,
+      ...health,
+    })
+  }
+
+  // Branches no worktree has checked out and no thread refers to
+  const inUse = new Set([
+    ...gitWorktrees.map((worktree) => worktree.branch),
+    ...rows.map((row) => row.worktree_name),
+    ...pendingBranches,
+  ])
+  const branchList = await runGit(projectDirectory, [
+    'branch',
+    '--format=%(refname:short)',
+    '--list',
+    `${WORKTREE_BRANCH_PREFIX}*`,
+    `${TEMP_BRANCH_PREFIX}*`,
+  ])
+  const orphanBranches: OrphanBranch[] = []
+  for (const name of branchList instanceof Error ? [] : branchList.split('\n')) {
+    if (!name || inUse.has(name)) {
+      continue
+    }
+    // Names the bot never creates are left for a person to look at
+    if (validateGitName({ kind: 'branch', name }) instanceof Error) {
+      logger.warn(`Skipping branch with unexpected name: ${JSON.stringify(name)}`)
+      continue
+    }
+    const merged = await runGit(projectDirectory, [
+      'merge-base',
+      '--is-ancestor',
+      '--',
+      name,
+      defaultBranch,
+    ])
+    orphanBranches.push({ name, merged: !(merged instanceof Error) })
+  }
+
+  return { projectDirectory, defaultBranch, worktrees, orphanBranches }
+}
+
+/**
+ * Worktrees and branches to prune. Active worktrees are never selected.
+ * Without force, only ones that lose no work are selected. mergedBefore and
+ * archivedBefore keep worktrees merged or archived more recently.
+ */
+export function selectPrunable(
+  report: ProjectWorktreeReport,
+  {
+    force = false,
+    mergedBefore,
+    archivedBefore,
+  }: { force?: boolean; mergedBefore?: Date; archivedBefore?: Date } = {},
+): { worktrees: ProjectWorktree[]; branches: string[] } {
+  return {
+    worktrees: report.worktrees.filter((worktree) => {
+      if (worktree.state === 'active') {
+        return false
+      }
+      if (
+        worktree.state === 'merged' &&
+        mergedBefore &&
+        (!worktree.mergedAt || worktree.mergedAt > mergedBefore)
+      ) {
+        return false
+      }
+      if (
+        worktree.state === 'archived' &&
+        archivedBefore &&
+        (!worktree.archivedAt || worktree.archivedAt > archivedBefore)
+      ) {
+        return false
+      }
+      return force || isSafeToRemove(worktree)
+    }),
+    branches: report.orphanBranches
+      .filter((branch) => force || branch.merged)
+      .map((branch) => branch.name),
+  }
+}
+
+/**
+ * Remove a worktree directory and its branch, and mark its thread's row removed.
+ */
+export async function removeWorktree({
+  projectDirectory,
+  worktree,
+}: {
+  projectDirectory: string
+  worktree: Pick<ProjectWorktree, 'directory' | 'branch' | 'threadId' | 'state'>
+}): Promise<Error | void> {
+  if (worktree.state !== 'missing') {
+    // --force also covers worktrees with submodules
+    const removed = await runGit(projectDirectory, [
+      'worktree',
+      'remove',
+      '--force',
+      '--',
+      worktree.directory,
+    ])
+    if (removed instanceof Error) {
+      return removed
+    }
+  }
+  if (
+    worktree.branch &&
+    isManagedBranch(worktree.branch) &&
+    !(validateGitName({ kind: 'branch', name: worktree.branch }) instanceof Error)
+  ) {
+    const deleted = await runGit(projectDirectory, ['branch', '-D', '--', worktree.branch])
+    if (deleted instanceof Error) {
+      logger.warn(`Failed to delete branch ${worktree.branch}: ${deleted.message}`)
+    }
+  }
+  if (worktree.threadId) {
+    setWorktreeRemoved(worktree.threadId)
+  }
+  logger.log(`Removed worktree ${worktree.directory}`)
+}
+
+export async function pruneWorktrees({
+  projectDirectory,
+  worktrees,
+  branches,
+}: {
+  projectDirectory: string
+  worktrees: ProjectWorktree[]
+  branches: string[]
+}): Promise<PruneResult> {
+  const result: PruneResult = { removed: [], branches: [], failed: [] }
+
+  for (const worktree of worktrees) {
+    const removed = await removeWorktree({ projectDirectory, worktree })
+    if (removed instanceof Error) {
+      result.failed.push({ name: worktree.directory, reason: removed.message })
+      continue
+    }
+    result.removed.push(worktree.directory)
+  }
+
+  for (const branch of branches) {
+    const valid = validateGitName({ kind: 'branch', name: branch })
+    if (valid instanceof Error) {
+      result.failed.push({ name: branch, reason: valid.message })
+      continue
+    }
+    const deleted = await runGit(projectDirectory, ['branch', '-D', '--', branch])
+    if (deleted instanceof Error) {
+      result.failed.push({ name: branch, reason: deleted.message })
+      continue
+    }
+    result.branches.push(branch)
+  }
+
+  // Drop administrative entries of worktree directories deleted by hand
+  await runGit(projectDirectory, ['worktree', 'prune'])
+  return result
+}
+
+/**
+ * Record a thread being archived or unarchived. With removeNow (the thread
+ * was deleted or locked) its worktree is removed right away when that loses
+ * no work; plain archives are left to the hourly pass after
+ * ARCHIVED_RETENTION_MS, since Discord archives idle threads by itself.
+ * Returns true when the worktree was removed.
+ */
+export async function handleWorktreeThreadArchived({
+  threadId,
+  archived,
+  removeNow = false,
+}: {
+  threadId: string
+  archived: boolean
+  removeNow?: boolean
+}): Promise<boolean> {
+  const row = getThreadWorktree(threadId)
+  if (!row) {
+    return false
+  }
+  setWorktreeArchived({ threadId, archived })
+  if (!archived || !removeNow || row.status !== 'ready' || !row.worktree_directory) {
+    return false
+  }
+
+  const directory = row.worktree_directory
+  if (!fs.existsSync(directory)) {
+    setWorktreeRemoved(threadId)
+    return true
+  }
+  const defaultBranch = await getDefaultBranch({
+    directory: row.project_directory,
+    remote: 'origin',
+  })
+  const health = await inspectWorktree({ directory, defaultBranch })
+  if (health.dirty || health.unmerged !== 0) {
+    logger.log(
+      `Keeping worktree ${directory} of archived thread ${threadId}: ${health.dirty ? 'uncommitted changes' : `${health.unmerged ?? 'unknown'} unmerged commits`}`,
+    )
+    return false
+  }
+
+  const removed = await removeWorktree({
+    projectDirectory: row.project_directory,
+    worktree: { directory, branch: row.worktree_name, threadId, state: 'archived' },
+  })
+  if (removed instanceof Error) {
+    logger.warn(`Failed to remove worktree of archived thread ${threadId}: ${removed.message}`)
+    return false
+  }
+  return true
+}
+
+/**
+ * Directory a thread's prompts run in: its worktree when it has one, or
+ * undefined for the project directory. Threads whose worktree was removed
+ * get an error, so their prompts never land in the project checkout.
+ */
+export function getThreadWorktreeDirectory(threadId: string): Error | string | undefined {
+  const row = getThreadWorktree(threadId)
+  if (row?.status === 'removed') {
+    return new Error(
+      `This thread's worktree \`${row.worktree_name}\` was removed, so there is nowhere to run this prompt. Start a new thread or use /new-worktree to keep working.`,
+    )
+  }
+  if (row?.status === 'ready' && row.worktree_directory) {
+    return row.worktree_directory
+  }
+  return undefined
+}
+
+/**
+ * Remove worktrees and branches of all projects that lose no work:
+ * orphaned, and archived or merged longer than their retention period.
+ */
+export async function collectWorktreeGarbage(appId: string): Promise<GarbageResult> {
+  const total: GarbageResult = { removed: [], branches: [], failed: [], removedThreads: [] }
+  const mergedBefore = new Date(Date.now() - MERGED_RETENTION_MS)
+  const archivedBefore = new Date(Date.now() - ARCHIVED_RETENTION_MS)
+
+  for (const projectDirectory of getProjectDirectories(appId)) {
+    if (!fs.existsSync(projectDirectory)) {
+      continue
+    }
+    const report = await collectProjectWorktrees(projectDirectory)
+    const prunable = selectPrunable(report, { mergedBefore, archivedBefore })
+    const result = await pruneWorktrees({ projectDirectory, ...prunable })
+    for (const worktree of prunable.worktrees) {
+      if (
+        (worktree.state === 'merged' || worktree.state === 'archived') &&
+        worktree.threadId &&
+        result.removed.includes(worktree.directory)
+      ) {
+        total.removedThreads.push({ threadId: worktree.threadId, reason: worktree.state })
+      }
+    }
+    total.removed.push(...result.removed)
+    total.branches.push(...result.branches)
+    total.failed.push(...result.failed)
+  }
+
+  if (total.removed.length > 0 || total.branches.length > 0) {
+    logger.log(
+      `[WORKTREE GC] Removed ${total.removed.length} worktree(s) and ${total.branches.length} branch(es)`,
+    )
+  }
+  return total
+}
+
+/**
+ * Tell a thread that its worktree is gone, since the next message there can
+ * no longer run in it. Archived threads are archived again afterwards.
+ */
+export async function notifyWorktreeRemoved({
+  client,
+  threadId,
+  reason,
+}: {
+  client: Client
+  threadId: string
+  reason: RemovedThreadWorktree['reason']
+}): Promise<void> {
+  const thread = await errore.tryAsync(() => client.channels.fetch(threadId))
+  if (thread instanceof Error || !thread?.isThread()) {
+    return
+  }
+  const when =
+    reason === 'merged'
+      ? `${Math.round(MERGED_RETENTION_MS / 3_600_000)} hours after it was merged`
+      : 'after the thread was archived'
+  const wasArchived = Boolean(thread.archived)
+  const sent = await errore.tryAsync(async () => {
+    if (wasArchived) {
+      await thread.setArchived(false)
+    }
+    await sendThreadMessage(
+      thread,
+      `Removed this thread's worktree ${when}. New prompts here are refused; start a new thread or use /new-worktree to keep working.`,
+    )
+    if (wasArchived) {
+      await thread.setArchived(true)
+    }
+  })
+  if (sent instanceof Error) {
+    logger.warn(`[WORKTREE] Failed to notify thread ${threadId}: ${sent.message}`)
+  }
+}
+
+let gcInterval: NodeJS.Timeout | null = null
+let gcRunning = false
+// Clients of the bots hosted in this process, by app ID; one hourly pass
+// collects for all of them
+const gcClients = new Map<string, Client>()
+
+export function startWorktreeGc({ client, appId }: { client: Client; appId: string }): void {
+  gcClients.set(appId, client)
+
+  const run = async () => {
+    if (gcRunning) {
+      return
+    }
+    gcRunning = true
+    try {
+      // Sequential, so bots sharing a project never prune it concurrently
+      for (const [id, gcClient] of gcClients) {
+        const result = await collectWorktreeGarbage(id).catch((error) => {
+          logger.error(`[WORKTREE GC] Failed for app ${id}:`, error)
+          return null
+        })
+        for (const { threadId, reason } of result?.removedThreads ?? []) {
+          await notifyWorktreeRemoved({ client: gcClient, threadId, reason })
+        }
+      }
+    } finally {
+      gcRunning = false
+    }
+  }
+
+  if (!gcInterval) {
+    gcInterval = setInterval(() => void run(), GC_INTERVAL_MS)
+    logger.log('[WORKTREE GC] Started (checking every hour)')
+  }
+  void run()
+}
+
+/**
+ * Stop collecting for one bot, or for every bot when no app ID is given.
+ * The hourly pass stops once no bot is left.
+ */
+export function stopWorktreeGc(appId?: string): void {
+  if (appId) {
+    gcClients.delete(appId)
+  } else {
+    gcClients.clear()
+  }
+  if (gcClients.size > 0) {
+    return
+  }
+  if (gcInterval) {
+    clearInterval(gcInterval)
+    gcInterval = null
+    logger.log('[WORKTREE GC] Stopped')
+  }
+}
@@ -0,0 +1,142 @@
+import { execSync } from 'node:child_process'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, test } from 'vitest'
+import {
+  buildResolutionPrompt,
+  continueIntegration,
+  getIntegrationBranch,
+  getIntegrationInProgress,
+  integrateBranch,
+  parseGitVersion,
+  predictConflicts,
+} from './worktree-merge.js'
+
+let repoDir: string
+
+function git(args: string): string {
+  return execSync(
+    `git -c user.name=test -c user.email=test@example.com -c init.defaultBranch=main ${args}`,
+    { cwd: repoDir, stdio: 'pipe' },
+  )
+    .toString()
+    .trim()
+}
+
+function commitFile(file: string, content: string, message: string): void {
+  fs.writeFileSync(path.join(repoDir, file), content)
+  git(`add ${file}`)
+  git(`commit -q -m "${message}"`)
+}
+
+beforeEach(() => {
+  repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'disunday-merge-test-'))
+  git('init -q')
+  // Identity for commits made by continueIntegration
+  git('config user.name test')
+  git('config user.email test@example.com')
+  commitFile('app.txt', 'greeting = hello\n', 'init')
+
+  git('checkout -q -b feature')
+  commitFile('app.txt', 'greeting = hi\n', 'feature greeting')
+  commitFile('notes.txt', 'notes\n', 'feature notes')
+
+  git('checkout -q main')
+  commitFile('app.txt', 'greeting = hey\n', 'main greeting')
+  git('checkout -q feature')
+})
+
+afterEach(() => {
+  fs.rmSync(repoDir, { recursive: true, force: true })
+})
+
+describe('predictConflicts', () => {
+  test('lists conflicting files without touching the worktree', async () => {
+    expect(await predictConflicts({ directory: repoDir, target: 'main' })).toEqual([
+      'app.txt',
+    ])
+    expect(git('status --porcelain')).toBe('')
+    expect(await getIntegrationInProgress(repoDir)).toBeNull()
+
+    git('checkout -q -b clean main~1')
+    commitFile('other.txt', 'other\n', 'other')
+    expect(await predictConflicts({ directory: repoDir, target: 'main' })).toEqual([])
+  })
+
+  test('falls back to an aborted trial merge without merge-tree', async () => {
+    const head = git('rev-parse HEAD')
+    expect(
+      await predictConflicts({ directory: repoDir, target: 'main', useMergeTree: false }),
+    ).toEqual(['app.txt'])
+    expect(git('status --porcelain')).toBe('')
+    expect(git('rev-parse HEAD')).toBe(head)
+    expect(await getIntegrationInProgress(repoDir)).toBeNull()
+
+    git('checkout -q -b clean main~1')
+    commitFile('other.txt', 'other\n', 'other')
+    expect(
+      await predictConflicts({ directory: repoDir, target: 'main', useMergeTree: false }),
+    ).toEqual([])
+    expect(git('status --porcelain')).toBe('')
+    expect(await getIntegrationInProgress(repoDir)).toBeNull()
+  })
+
+  test('parses git versions', () => {
+    expect(parseGitVersion('git version 2.39.5\n')).toEqual([2, 39])
+    expect(parseGitVersion('git version 2.37.1 (Apple Git-137.1)')).toEqual([2, 37])
+    expect(parseGitVersion('not git')).toBeNull()
+  })
+})
+
+describe('integrateBranch', () => {
+  test('leaves merge conflicts for resolution and completes once resolved', async () => {
+    const conflicts = await integrateBranch({
+      directory: repoDir,
+      target: 'main',
+      strategy: 'merge',
+    })
+    expect(conflicts).toEqual(['app.txt'])
+    expect(await getIntegrationInProgress(repoDir)).toBe('merge')
+
+    const prompt = buildResolutionPrompt({
+      directory: repoDir,
+      files: ['app.txt'],
+      target: 'main',
+      strategy: 'merge',
+    })
+    expect(prompt).toContain('- app.txt')
+    expect(prompt).toContain('<<<<<<< HEAD\ngreeting = hi\n=======\ngreeting = hey\n>>>>>>> main')
+
+    expect(await continueIntegration(repoDir)).toEqual({
+      status: 'unresolved',
+      files: ['app.txt'],
+    })
+
+    fs.writeFileSync(path.join(repoDir, 'app.txt'), 'greeting = hi hey\n')
+    // Untracked files left around while resolving stay out of the merge
+    fs.writeFileSync(path.join(repoDir, '.env'), 'SECRET=1\n')
+    expect(await continueIntegration(repoDir)).toEqual({ status: 'done' })
+    expect(await getIntegrationInProgress(repoDir)).toBeNull()
+    expect(git('rev-list --parents -n 1 HEAD').split(' ')).toHaveLength(3)
+    expect(git('ls-files')).not.toContain('.env')
+    expect(git('status --porcelain')).toBe('?? .env')
+  })
+
+  test('rebases onto the target and keeps the branch name while stopped', async () => {
+    const conflicts = await integrateBranch({
+      directory: repoDir,
+      target: 'main',
+      strategy: 'rebase',
+    })
+    expect(conflicts).toEqual(['app.txt'])
+    expect(await getIntegrationInProgress(repoDir)).toBe('rebase')
+    expect(await getIntegrationBranch(repoDir)).toBe('feature')
+
+    fs.writeFileSync(path.join(repoDir, 'app.txt'), 'greeting = hi hey\n')
+    expect(await continueIntegration(repoDir)).toEqual({ status: 'done' })
+    expect(git('branch --show-current')).toBe('feature')
+    expect(git('log --format=%s main..HEAD')).toBe('feature notes\nfeature greeting')
+    expect(() => git('merge-base --is-ancestor main HEAD')).not.toThrow()
+  })
+})
@@ -0,0 +1,388 @@
+// Merge and rebase steps for /merge-worktree.
+// Predicts conflicts with git merge-tree before touching the worktree (or a
+// trial merge that is aborted again, on git older than 2.38),
+// integrates the default branch with either strategy, and collects the
+// conflict markers a follow-up session needs to resolve them.
+
+import fs from 'node:fs'
+import path from 'node:path'
+import { GitCommandError } from './errors.js'
+import { createLogger, LogPrefix } from './logger.js'
+import { execAsync, runGit } from './worktree-utils.js'
+
+const logger = createLogger(LogPrefix.WORKTREE)
+
+/** Branch created to merge a worktree with a detached HEAD */
+export const TEMP_BRANCH_PREFIX = 'temp-merge-'
+
+export type MergeStrategy = 'merge' | 'rebase'
+
+export const MERGE_STRATEGIES: MergeStrategy[] = ['merge', 'rebase']
+
+export function isMergeStrategy(value: string): value is MergeStrategy {
+  return (MERGE_STRATEGIES as string[]).includes(value)
+}
+
+export type IntegrationStep =
+  | { status: 'done' }
+  /** Files that still contain conflict markers */
+  | { status: 'unresolved'; files: string[] }
+  /** New conflicts, from the next commit of a rebase */
+  | { status: 'conflicts'; files: string[] }
+
+// Keep the resolution prompt well under the model's context
+const MAX_EXCERPT_CHARS = 8000
+const EXCERPT_CONTEXT_LINES = 3
+
+const CONFLICT_START = /^<{7}( |$)/
+const CONFLICT_END = /^>{7}( |$)/
+
+// First release with merge-tree --write-tree
+const MERGE_TREE_MIN_VERSION = [2, 38] as const
+
+let mergeTreeSupport: Promise<boolean> | undefined
+
+/**
+ * Major and minor version from `git version` output, like
+ * "git version 2.39.5" or "git version 2.37.1 (Apple Git-137.1)".
+ */
+export function parseGitVersion(output: string): [number, number] | null {
+  const match = output.match(/git version (\d+)\.(\d+)/)
+  if (!match?.[1] || !match[2]) {
+    return null
+  }
+  return [Number(match[1]), Number(match[2])]
+}
+
+function supportsMergeTree(): Promise<boolean> {
+  mergeTreeSupport ??= execAsync('git version').then(
+    ({ stdout }) => {
+      const version = parseGitVersion(stdout)
+      const [minMajor, minMinor] = MERGE_TREE_MIN_VERSION
+      const supported =
+        version !== null &&
+        (version[0] > minMajor || (version[0] === minMajor && version[1] >= minMinor))
+      if (!supported) {
+        logger.log(`${stdout.trim()} has no merge-tree --write-tree, predicting conflicts with a trial merge`)
+      }
+      return supported
+    },
+    () => false,
+  )
+  return mergeTreeSupport
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+/**
+ * Files that would conflict when combining HEAD with target.
+ * Uses merge-tree, so the worktree and index are left untouched. Older git
+ * falls back to a trial merge, which needs a clean worktree and is aborted
+ * before returning.
+ */
+export async function predictConflicts({
+  directory,
+  target,
+  useMergeTree,
+}: {
+  directory: string
+  target: string
+  /** Defaults to whether the installed git supports merge-tree --write-tree */
+  useMergeTree?: boolean
+}): Promise<GitCommandError | string[]> {
+  if (!(useMergeTree ?? (await supportsMergeTree()))) {
+    return predictConflictsWithTrialMerge({ directory, target })
+  }
+  try {
+    await execAsync(
+      `git -C "${directory}" merge-tree --write-tree --name-only --no-messages HEAD ${target}`,
+    )
+    return []
+  } catch (e) {
+    // Exit code 1 means conflicts: first line is the tree, then one file per line
+    const stdout = e && typeof e === 'object' && 'stdout' in e ? String(e.stdout) : ''
+    const code = e && typeof e === 'object' && 'code' in e ? e.code : undefined
+    if (code === 1 && stdout) {
+      return [...new Set(stdout.split('\n').slice(1).filter(Boolean))]
+    }
+    const stderr = e && typeof e === 'object' && 'stderr' in e ? String(e.stderr).trim() : ''
+    return new GitCommandError({
+      command: 'merge-tree',
+      reason: stderr || (e instanceof Error ? e.message : String(e)),
+      cause: e,
+    })
+  }
+}
+
+async function predictConflictsWithTrialMerge({
+  directory,
+  target,
+}: {
+  directory: string
+  target: string
+}): Promise<GitCommandError | string[]> {
+  const merged = await runGit(directory, `merge --no-commit --no-ff ${target}`)
+  const conflicts = merged instanceof Error ? await getConflictedFiles(directory) : []
+  await abortIntegration(directory)
+  if (merged instanceof Error && conflicts.length === 0) {
+    return merged
+  }
+  return conflicts
+}
+
+async function gitPathExists(directory: string, gitPath: string): Promise<boolean> {
+  const resolved = await runGit(directory, `rev-parse --git-path ${gitPath}`)
+  if (resolved instanceof Error) {
+    return false
+  }
+  return fs.existsSync(path.resolve(directory, resolved))
+}
+
+/**
+ * Merge or rebase that was started and not yet completed or aborted.
+ */
+export async function getIntegrationInProgress(
+  directory: string,
+): Promise<MergeStrategy | null> {
+  if (await gitPathExists(directory, 'MERGE_HEAD')) {
+    return 'merge'
+  }
+  if (
+    (await gitPathExists(directory, 'rebase-merge')) ||
+    (await gitPathExists(directory, 'rebase-apply'))
+  ) {
+    return 'rebase'
+  }
+  return null
+}
+
+/**
+ * Branch being integrated. HEAD is detached during a rebase, so the branch
+ * name is read from the rebase state instead. Returns null when detached.
+ */
+export async function getIntegrationBranch(directory: string): Promise<string | null> {
+  for (const state of ['rebase-merge', 'rebase-apply']) {
+    const headName = await runGit(directory, `rev-parse --git-path ${state}/head-name`)
+    if (headName instanceof Error) {
+      continue
+    }
+    const file = path.resolve(directory, headName)
+    if (fs.existsSync(file)) {
+      const ref = fs.readFileSync(file, 'utf-8').trim()
+      return ref.startsWith('refs/heads/') ? ref.slice('refs/heads/'.length) : null
+    }
+  }
+  const branch = await runGit(directory, 'symbolic-ref --short HEAD')
+  return branch instanceof Error ? null : branch || null
+}
+
+/**
+ * Paths git still lists as unmerged.
+ */
+export async function getConflictedFiles(directory: string): Promise<string[]> {
+  const output = await runGit(directory, 'diff --name-only --diff-filter=U')
+  if (output instanceof Error) {
+    logger.warn(`Failed to list conflicted files in ${directory}: ${output.message}`)
+    return []
+  }
+  return output.split('\n').filter(Boolean)
+}
+
+/**
+ * Files that still contain conflict markers.
+ */
+export function findConflictMarkers({
+  directory,
+  files,
+}: {
+  directory: string
+  files: string[]
+}): string[] {
+  return files.filter((file) => {
+    const content = readWorktreeFile(directory, file)
+    return content !== null && content.split('\n').some((line) => CONFLICT_START.test(line))
+  })
+}
+
+function readWorktreeFile(directory: string, file: string): string | null {
+  try {
+    return fs.readFileSync(path.join(directory, file), 'utf-8')
+  } catch {
+    // Deleted on one side of the conflict
+    return null
+  }
+}
+
+/**
+ * Start merging or rebasing target into the worktree.
+ * Returns the conflicted files, empty when it completed cleanly. Failures
+ * other than conflicts are aborted so the worktree is left as it was.
+ */
+export async function integrateBranch({
+  directory,
+  target,
+  strategy,
+}: {
+  directory: string
+  target: string
+  strategy: MergeStrategy
+}): Promise<GitCommandError | string[]> {
+  logger.log(`Integrating ${target} into ${directory} with ${strategy}`)
+  const result = await runGit(
+    directory,
+    strategy === 'rebase' ? `rebase ${target}` : `merge ${target} --no-edit`,
+  )
+  if (!(result instanceof Error)) {
+    return []
+  }
+
+  const conflicts = await getConflictedFiles(directory)
+  if (conflicts.length > 0) {
+    logger.log(`${strategy} of ${target} stopped with ${conflicts.length} conflicted files`)
+    return conflicts
+  }
+  await abortIntegration(directory)
+  return result
+}
+
+/**
+ * Stage the resolved files and finish the merge, or continue the rebase.
+ * Nothing is staged while any conflicted file still has markers, and only
+ * the conflicted files are staged, so untracked build output or secrets in
+ * the worktree never end up in the merge commit.
+ */
+export async function continueIntegration(
+  directory: string,
+): Promise<GitCommandError | IntegrationStep> {
+  const strategy = await getIntegrationInProgress(directory)
+  if (!strategy) {
+    // Completed by hand or by the session
+    return { status: 'done' }
+  }
+
+  const conflicted = await getConflictedFiles(directory)
+  const unresolved = findConflictMarkers({ directory, files: conflicted })
+  if (unresolved.length > 0) {
+    return { status: 'unresolved', files: unresolved }
+  }
+
+  if (conflicted.length > 0) {
+    // -A also stages files deleted while resolving
+    const staged = await runGit(directory, `add -A -- ${conflicted.map(shellQuote).join(' ')}`)
+    if (staged instanceof Error) {
+      return staged
+    }
+  }
+  const continued = await runGit(
+    directory,
+    strategy === 'rebase'
+      ? '-c core.editor=true rebase --continue'
+      : 'commit --no-edit',
+  )
+  if (continued instanceof Error) {
+    const conflicts = await getConflictedFiles(directory)
+    if (conflicts.length > 0) {
+      return { status: 'conflicts', files: conflicts }
+    }
+    return continued
+  }
+  return { status: 'done' }
+}
+
+export async function abortIntegration(directory: string): Promise<void> {
+  const strategy = await getIntegrationInProgress(directory)
+  if (!strategy) {
+    return
+  }
+  const aborted = await runGit(directory, `${strategy} --abort`)
+  if (aborted instanceof Error) {
+    logger.warn(`Failed to abort ${strategy} in ${directory}: ${aborted.message}`)
+  }
+}
+
+/**
+ * Conflict hunks with a few lines of context, as markdown code blocks.
+ */
+export function getConflictExcerpts({
+  directory,
+  files,
+  maxChars = MAX_EXCERPT_CHARS,
+}: {
+  directory: string
+  files: string[]
+  maxChars?: number
+}): string {
+  const sections: string[] = []
+  let length = 0
+
+  for (const file of files) {
+    const content = readWorktreeFile(directory, file)
+    if (content === null) {
+      sections.push(`### ${file}\n\n(deleted on one side)`)
+      continue
+    }
+
+    const lines = content.split('\n')
+    const ranges: [number, number][] = []
+    let start = -1
+    lines.forEach((line, index) => {
+      if (CONFLICT_START.test(line)) {
+        start = index
+      } else if (CONFLICT_END.test(line) && start >= 0) {
+        ranges.push([
+          Math.max(0, start - EXCERPT_CONTEXT_LINES),
+          Math.min(lines.length, index + EXCERPT_CONTEXT_LINES + 1),
+        ])
+        start = -1
+      }
+    })
+    if (ranges.length === 0) {
+      continue
+    }
+
+    const blocks = ranges.map(([from, to]) => {
+      return `Lines ${from + 1}-${to}:\n\`\`\`\n${lines.slice(from, to).join('\n')}\n\`\`\``
+    })
+    const section = `### ${file}\n\n${blocks.join('\n\n')}`
+    if (length + section.length > maxChars) {
+      sections.push(`### ${file}\n\n(excerpt omitted, open the file to see the markers)`)
+      continue
+    }
+    sections.push(section)
+    length += section.length
+  }
+
+  return sections.join('\n\n')
+}
+
+/**
+ * Prompt for the session that resolves the conflicts. The session only
+ * edits files; staging and completing the merge wait for the user.
+ */
+export function buildResolutionPrompt({
+  directory,
+  files,
+  target,
+  strategy,
+}: {
+  directory: string
+  files: string[]
+  target: string
+  strategy: MergeStrategy
+}): string {
+  const operation =
+    strategy === 'rebase'
+      ? `Rebasing this branch onto \`${target}\``
+      : `Merging \`${target}\` into this branch`
+  return [
+    `${operation} stopped with conflicts in ${files.length} file${files.length === 1 ? '' : 's'}:`,
+    ...files.map((file) => `- ${file}`),
+    '',
+    'Resolve every conflict by editing the files: keep the intent of both sides and remove all conflict markers (<<<<<<<, =======, >>>>>>>). Check that the result builds.',
+    `Do not stage, commit, or run \`git ${strategy} --continue\` or \`--abort\`. The user completes the ${strategy} after reviewing your changes.`,
+    '',
+    getConflictExcerpts({ directory, files }),
+  ].join('\n')
+}
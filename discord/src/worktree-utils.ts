@@ -2,15 +2,50 @@
 // Wrapper for OpenCode worktree creation that also initializes git submodules.
 // Also handles capturing and applying git diffs when creating worktrees from threads.
 
-import { exec, spawn } from 'node:child_process'
+import { exec, execFile, spawn } from 'node:child_process'
 import { promisify } from 'node:util'
+import * as errore from 'errore'
+import { GitCommandError } from './errors.js'
 import { createLogger, LogPrefix } from './logger.js'
 import type { getOpencodeClientV2 } from './opencode.js'
 
 export const execAsync = promisify(exec)
+const execFileAsync = promisify(execFile)
 
 const logger = createLogger(LogPrefix.WORKTREE)
 
+/** Branch prefix of worktrees created for threads */
+export const WORKTREE_BRANCH_PREFIX = 'opencode/disunday-'
+
+/**
+ * Run a git command in a directory and return its trimmed stdout.
+ * An args array is passed to git as argv without a shell; use it whenever
+ * an argument comes from the repository (ref names, paths).
+ */
+export function runGit(
+  directory: string,
+  args: string | string[],
+): Promise<GitCommandError | string> {
+  return errore.tryAsync({
+    try: async () => {
+      const { stdout } =
+        typeof args === 'string'
+          ? await execAsync(`git -C "${directory}" ${args}`)
+          : await execFileAsync('git', ['-C', directory, ...args])
+      return stdout.trim()
+    },
+    catch: (e) => {
+      const stderr =
+        e && typeof e === 'object' && 'stderr' in e ? String(e.stderr).trim() : ''
+      return new GitCommandError({
+        command: (typeof args === 'string' ? args.split(' ')[0] : args[0]) || '',
+        reason: stderr || (e instanceof Error ? e.message : String(e)),
+        cause: e,
+      })
+    },
+  })
+}
+
 type OpencodeClientV2 = NonNullable<ReturnType<typeof getOpencodeClientV2>>
 
 type WorktreeResult = {
@@ -158,19 +193,36 @@ function runGitWithStdin(args: string[], cwd: string, input: string): Promise<vo
 /**
  * Apply a captured git diff to a directory.
  * Applies staged changes first, then unstaged.
+ *
+ * With reverse, the diff is undone instead (staged parts are removed from
+ * both the index and the working tree). With cached, every part is applied
+ * to the index only, which stages changes already in the working tree.
  */
-export async function applyGitDiff(directory: string, diff: CapturedDiff): Promise<boolean> {
+export async function applyGitDiff(
+  directory: string,
+  diff: CapturedDiff,
+  { reverse = false, cached = false }: { reverse?: boolean; cached?: boolean } = {},
+): Promise<boolean> {
+  const flags = reverse ? ['-R'] : []
   try {
     // Apply staged changes first (and stage them)
     if (diff.staged) {
-      logger.log(`Applying staged diff to ${directory}`)
-      await runGitWithStdin(['apply', '--index'], directory, diff.staged)
+      logger.log(`Applying staged diff to ${directory}${reverse ? ' (reverse)' : ''}`)
+      await runGitWithStdin(
+        ['apply', cached ? '--cached' : '--index', ...flags],
+        directory,
+        diff.staged,
+      )
     }
 
     // Apply unstaged changes (don't stage them)
     if (diff.unstaged) {
-      logger.log(`Applying unstaged diff to ${directory}`)
-      await runGitWithStdin(['apply'], directory, diff.unstaged)
+      logger.log(`Applying unstaged diff to ${directory}${reverse ? ' (reverse)' : ''}`)
+      await runGitWithStdin(
+        ['apply', ...(cached ? ['--cached'] : []), ...flags],
+        directory,
+        diff.unstaged,
+      )
     }
 
     logger.log(`Successfully applied diff to ${directory}`)